@@ -28,7 +28,12 @@ const ClientsPage = lazy(() => import("@/pages/clients-page"));
 const SettingsPage = lazy(() => import("@/pages/settings-page"));
 const SettingsStandalone = lazy(() => import("@/pages/settings-standalone"));
 const SupportPage = lazy(() => import("@/pages/support-page"));
+const OrganizationPage = lazy(() => import("@/pages/organization-page"));
+const OrganizationInvitePage = lazy(() => import("@/pages/organization-invite-page"));
 const FirebaseSetupGuide = lazy(() => import("@/pages/firebase-setup-guide"));
+const VerifyEmailPage = lazy(() => import("@/pages/verify-email-page"));
+const ForgotPasswordPage = lazy(() => import("@/pages/forgot-password-page"));
+const ResetPasswordPage = lazy(() => import("@/pages/reset-password-page"));
 
 // Loading skeleton component
 const LoadingSkeleton = () => (
@@ -57,7 +62,12 @@ function Router() {
         <ProtectedRoute path="/settings" component={SettingsPage} />
         <ProtectedRoute path="/settings-standalone" component={SettingsStandalone} />
         <ProtectedRoute path="/support" component={SupportPage} />
+        <ProtectedRoute path="/organization" component={OrganizationPage} />
+        <ProtectedRoute path="/organization/invite/:token" component={OrganizationInvitePage} />
         <Route path="/auth" component={AuthPage} />
+        <Route path="/verify-email" component={VerifyEmailPage} />
+        <Route path="/forgot-password" component={ForgotPasswordPage} />
+        <Route path="/reset-password" component={ResetPasswordPage} />
         <Route path="/firebase-setup-guide" component={FirebaseSetupGuide} />
         <Route component={NotFound} />
       </Switch>
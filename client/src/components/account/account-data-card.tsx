@@ -0,0 +1,170 @@
+import { useState } from 'react';
+import { useMutation } from '@tanstack/react-query';
+import { useLocation } from 'wouter';
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Download, Loader2, Trash2, UserX } from 'lucide-react';
+import { useAuth } from '@/hooks/use-auth';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+
+const DELETE_CONFIRMATION = 'DELETE';
+
+/**
+ * Lets users download everything stored about them, delete their account, and
+ * keep it again during the cooling-off period
+ */
+export default function AccountDataCard() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [, setLocation] = useLocation();
+  const [deleting, setDeleting] = useState(false);
+  const [password, setPassword] = useState('');
+  const [confirmation, setConfirmation] = useState('');
+
+  const deleteMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', '/api/account/delete', { password, confirm: confirmation });
+      return response.json();
+    },
+    onSuccess: (data: { deletionScheduledAt: string }) => {
+      // Deleting signs the user out everywhere, including here
+      queryClient.setQueryData(['/api/user'], null);
+      toast({
+        title: 'Your account will be deleted',
+        description: `It will be erased on ${new Date(data.deletionScheduledAt).toLocaleDateString()}. Sign in before then to keep it.`,
+      });
+      setLocation('/auth');
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Could not delete your account', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  const keepMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', '/api/account/delete/cancel');
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/user'] });
+      toast({ title: 'Your account is no longer scheduled for deletion' });
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Could not keep your account', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  if (!user) {
+    return null;
+  }
+
+  const scheduledAt = user.deletionScheduledAt ? new Date(user.deletionScheduledAt) : null;
+
+  return (
+    <Card className="mt-8">
+      <CardHeader>
+        <CardTitle>Your Data</CardTitle>
+        <CardDescription>Download a copy of your data or delete your account</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {scheduledAt && (
+          <Alert variant="destructive">
+            <UserX className="h-4 w-4" />
+            <AlertTitle>Your account is scheduled for deletion</AlertTitle>
+            <AlertDescription className="space-y-3">
+              <p>It will be permanently erased on {scheduledAt.toLocaleDateString()}, along with your personal data.</p>
+              <Button size="sm" variant="outline" onClick={() => keepMutation.mutate()} disabled={keepMutation.isPending}>
+                {keepMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Keep my account
+              </Button>
+            </AlertDescription>
+          </Alert>
+        )}
+
+        <p className="text-sm text-muted-foreground">
+          The export includes your profile, settings, devices, VPN sessions, usage, invoices and payments as a JSON file.
+        </p>
+
+        {deleting && !scheduledAt && (
+          <form
+            className="space-y-3 rounded-md border border-destructive/50 p-4"
+            onSubmit={(e) => {
+              e.preventDefault();
+              deleteMutation.mutate();
+            }}
+          >
+            <p className="text-sm">
+              Your subscription is cancelled straight away without a refund, your API tokens stop working and you're
+              signed out everywhere. Your account and personal data are erased after 30 days. Invoices and payments are
+              kept for our accounts without your name or email address.
+            </p>
+            {!user.firebaseId && (
+              <div className="space-y-2">
+                <Label htmlFor="delete-account-password">Password</Label>
+                <Input
+                  id="delete-account-password"
+                  type="password"
+                  autoComplete="current-password"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                />
+              </div>
+            )}
+            <div className="space-y-2">
+              <Label htmlFor="delete-account-confirm">Type {DELETE_CONFIRMATION} to confirm</Label>
+              <Input
+                id="delete-account-confirm"
+                autoComplete="off"
+                value={confirmation}
+                onChange={(e) => setConfirmation(e.target.value)}
+              />
+            </div>
+            <div className="flex gap-2">
+              <Button
+                type="submit"
+                variant="destructive"
+                disabled={
+                  confirmation !== DELETE_CONFIRMATION ||
+                  (!user.firebaseId && !password) ||
+                  deleteMutation.isPending
+                }
+              >
+                {deleteMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Delete my account
+              </Button>
+              <Button
+                type="button"
+                variant="ghost"
+                onClick={() => {
+                  setDeleting(false);
+                  setPassword('');
+                  setConfirmation('');
+                }}
+              >
+                Cancel
+              </Button>
+            </div>
+          </form>
+        )}
+      </CardContent>
+      <CardFooter className="flex gap-2">
+        <Button variant="outline" asChild>
+          <a href="/api/account/export">
+            <Download className="h-4 w-4 mr-1" />
+            Download my data
+          </a>
+        </Button>
+        {!deleting && !scheduledAt && (
+          <Button variant="outline" className="text-destructive" onClick={() => setDeleting(true)}>
+            <Trash2 className="h-4 w-4 mr-1" />
+            Delete account
+          </Button>
+        )}
+      </CardFooter>
+    </Card>
+  );
+}
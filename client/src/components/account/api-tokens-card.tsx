@@ -0,0 +1,248 @@
+import { useState } from 'react';
+import { useQuery, useMutation } from '@tanstack/react-query';
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Copy, KeyRound, Loader2, Trash2 } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+import { ApiToken, ApiTokenScope, apiTokenScopes } from '@shared/schema';
+
+type ApiTokenSummary = Omit<ApiToken, 'tokenHash' | 'expiresAt' | 'lastUsedAt' | 'revokedAt' | 'createdAt'> & {
+  expiresAt: string;
+  lastUsedAt: string | null;
+  revokedAt: string | null;
+  createdAt: string;
+};
+
+const scopeDescriptions: Record<ApiTokenScope, string> = {
+  [apiTokenScopes.SERVERS_READ]: 'List servers and regions',
+  [apiTokenScopes.SESSIONS_READ]: 'See VPN sessions and tunnel status',
+  [apiTokenScopes.SESSIONS_WRITE]: 'Start and end VPN sessions',
+  [apiTokenScopes.USAGE_READ]: 'See usage statistics and plan limits',
+};
+
+const EXPIRY_OPTIONS = ['7', '30', '90', '365'];
+
+const emptyToken = {
+  name: '',
+  scopes: [] as ApiTokenScope[],
+  expiresInDays: '30',
+};
+
+/**
+ * Lets users create personal API tokens for scripts, see when each was last
+ * used, and revoke them
+ */
+export default function ApiTokensCard() {
+  const { toast } = useToast();
+  const [creating, setCreating] = useState(false);
+  const [newToken, setNewToken] = useState(emptyToken);
+  const [createdSecret, setCreatedSecret] = useState<string | null>(null);
+
+  const { data: tokens, isLoading } = useQuery<ApiTokenSummary[]>({
+    queryKey: ['/api/api-tokens'],
+  });
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', '/api/api-tokens', {
+        name: newToken.name,
+        scopes: newToken.scopes,
+        expiresInDays: parseInt(newToken.expiresInDays, 10),
+      });
+      return response.json();
+    },
+    onSuccess: (data: { secret: string }) => {
+      setCreating(false);
+      setNewToken(emptyToken);
+      setCreatedSecret(data.secret);
+      queryClient.invalidateQueries({ queryKey: ['/api/api-tokens'] });
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Could not create token', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest('DELETE', `/api/api-tokens/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/api-tokens'] });
+      toast({ title: 'Token revoked', description: 'Scripts using it can no longer sign in.' });
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Could not revoke token', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  const toggleScope = (scope: ApiTokenScope, checked: boolean) => {
+    setNewToken(current => ({
+      ...current,
+      scopes: checked ? current.scopes.concat(scope) : current.scopes.filter(s => s !== scope),
+    }));
+  };
+
+  return (
+    <Card className="mt-8">
+      <CardHeader>
+        <div className="flex items-center gap-2">
+          <KeyRound className="h-5 w-5 text-primary" />
+          <CardTitle>API Tokens</CardTitle>
+        </div>
+        <CardDescription>
+          Let scripts call the VPN API on your behalf. Send a token as <code>Authorization: Bearer &lt;token&gt;</code>.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {createdSecret && (
+          <Alert>
+            <AlertTitle>Your new token</AlertTitle>
+            <AlertDescription className="space-y-3">
+              <p>Copy it now. It won't be shown again.</p>
+              <code className="block text-sm break-all">{createdSecret}</code>
+              <div className="flex gap-2">
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => {
+                    navigator.clipboard.writeText(createdSecret);
+                    toast({ title: 'Copied', description: 'Token copied to your clipboard.' });
+                  }}
+                >
+                  <Copy className="h-4 w-4 mr-1" />
+                  Copy
+                </Button>
+                <Button size="sm" variant="ghost" onClick={() => setCreatedSecret(null)}>
+                  Done
+                </Button>
+              </div>
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {isLoading ? (
+          <div className="flex justify-center py-4">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : !tokens || tokens.length === 0 ? (
+          <p className="text-sm text-muted-foreground">You don't have any API tokens.</p>
+        ) : (
+          <div className="divide-y">
+            {tokens.map(token => {
+              const expired = new Date(token.expiresAt).getTime() <= Date.now();
+              return (
+                <div key={token.id} className="flex items-start justify-between gap-4 py-3">
+                  <div className="space-y-1">
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium">{token.name}</span>
+                      <code className="text-xs text-muted-foreground">{token.tokenPrefix}…</code>
+                      {expired && <Badge variant="outline">Expired</Badge>}
+                    </div>
+                    <div className="flex flex-wrap gap-1">
+                      {token.scopes.map(scope => (
+                        <Badge key={scope} variant="secondary">{scope}</Badge>
+                      ))}
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                      {expired ? 'Expired' : 'Expires'} {new Date(token.expiresAt).toLocaleDateString()}
+                      {' · '}
+                      {token.lastUsedAt
+                        ? `Last used ${new Date(token.lastUsedAt).toLocaleString()}${token.lastUsedIp ? ` from ${token.lastUsedIp}` : ''}`
+                        : 'Never used'}
+                    </p>
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    title="Revoke token"
+                    onClick={() => revokeMutation.mutate(token.id)}
+                    disabled={revokeMutation.isPending}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+        {creating && (
+          <form
+            className="space-y-4 rounded-md border p-4"
+            onSubmit={(e) => {
+              e.preventDefault();
+              createMutation.mutate();
+            }}
+          >
+            <div className="space-y-2">
+              <Label htmlFor="api-token-name">Name</Label>
+              <Input
+                id="api-token-name"
+                placeholder="Home router script"
+                value={newToken.name}
+                onChange={(e) => setNewToken({ ...newToken, name: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Scopes</Label>
+              {(Object.keys(scopeDescriptions) as ApiTokenScope[]).map(scope => (
+                <div key={scope} className="flex items-center gap-2">
+                  <Checkbox
+                    id={`api-token-scope-${scope}`}
+                    checked={newToken.scopes.indexOf(scope) !== -1}
+                    onCheckedChange={(checked) => toggleScope(scope, checked === true)}
+                  />
+                  <Label htmlFor={`api-token-scope-${scope}`} className="font-normal">
+                    <code>{scope}</code> <span className="text-muted-foreground">— {scopeDescriptions[scope]}</span>
+                  </Label>
+                </div>
+              ))}
+            </div>
+            <div className="space-y-2">
+              <Label>Expires after</Label>
+              <Select
+                value={newToken.expiresInDays}
+                onValueChange={(value) => setNewToken({ ...newToken, expiresInDays: value })}
+              >
+                <SelectTrigger className="w-40">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {EXPIRY_OPTIONS.map(days => (
+                    <SelectItem key={days} value={days}>{days} days</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="flex gap-2">
+              <Button
+                type="submit"
+                disabled={!newToken.name.trim() || newToken.scopes.length === 0 || createMutation.isPending}
+              >
+                {createMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Create token
+              </Button>
+              <Button type="button" variant="ghost" onClick={() => setCreating(false)}>
+                Cancel
+              </Button>
+            </div>
+          </form>
+        )}
+      </CardContent>
+      {!creating && (
+        <CardFooter>
+          <Button variant="outline" onClick={() => setCreating(true)}>
+            New token
+          </Button>
+        </CardFooter>
+      )}
+    </Card>
+  );
+}
@@ -0,0 +1,108 @@
+import { useState } from 'react';
+import { useMutation } from '@tanstack/react-query';
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Loader2 } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+
+const MIN_PASSWORD_LENGTH = 8;
+
+/**
+ * Lets users with a password change it, which signs out their other sessions
+ */
+export default function ChangePasswordCard() {
+  const { toast } = useToast();
+  const [currentPassword, setCurrentPassword] = useState('');
+  const [newPassword, setNewPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+
+  const changeMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', '/api/user/change-password', { currentPassword, newPassword });
+      return response.json();
+    },
+    onSuccess: (data: { signedOut: number }) => {
+      setCurrentPassword('');
+      setNewPassword('');
+      setConfirmPassword('');
+      queryClient.invalidateQueries({ queryKey: ['/api/account/sessions'] });
+      toast({
+        title: 'Password changed',
+        description: data.signedOut > 0
+          ? `Your other ${data.signedOut === 1 ? 'session was' : `${data.signedOut} sessions were`} signed out.`
+          : undefined,
+      });
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Could not change your password', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  const mismatch = confirmPassword.length > 0 && newPassword !== confirmPassword;
+
+  return (
+    <Card className="mt-8">
+      <form
+        onSubmit={(e) => {
+          e.preventDefault();
+          changeMutation.mutate();
+        }}
+      >
+        <CardHeader>
+          <CardTitle>Password</CardTitle>
+          <CardDescription>Changing your password signs you out on every other device.</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          <div className="space-y-2">
+            <Label htmlFor="current-password">Current password</Label>
+            <Input
+              id="current-password"
+              type="password"
+              autoComplete="current-password"
+              value={currentPassword}
+              onChange={(e) => setCurrentPassword(e.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="new-password">New password</Label>
+            <Input
+              id="new-password"
+              type="password"
+              autoComplete="new-password"
+              value={newPassword}
+              onChange={(e) => setNewPassword(e.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="confirm-password">Confirm new password</Label>
+            <Input
+              id="confirm-password"
+              type="password"
+              autoComplete="new-password"
+              value={confirmPassword}
+              onChange={(e) => setConfirmPassword(e.target.value)}
+            />
+            {mismatch && <p className="text-sm text-destructive">Passwords don't match</p>}
+          </div>
+        </CardContent>
+        <CardFooter>
+          <Button
+            type="submit"
+            disabled={
+              !currentPassword ||
+              newPassword.length < MIN_PASSWORD_LENGTH ||
+              newPassword !== confirmPassword ||
+              changeMutation.isPending
+            }
+          >
+            {changeMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Change password
+          </Button>
+        </CardFooter>
+      </form>
+    </Card>
+  );
+}
@@ -0,0 +1,132 @@
+import { useQuery, useMutation } from '@tanstack/react-query';
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Loader2, LogOut, MonitorSmartphone } from 'lucide-react';
+import { useAuth } from '@/hooks/use-auth';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+
+interface LoginSession {
+  id: string;
+  current: boolean;
+  device: string;
+  userAgent: string | null;
+  ipAddress: string | null;
+  createdAt: string | null;
+  lastSeenAt: string | null;
+  expiresAt: string;
+}
+
+/**
+ * Lists the devices a user is signed in on, and lets them sign out the others
+ */
+export default function LoginSessionsCard() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+
+  const { data: sessions, isLoading } = useQuery<LoginSession[]>({
+    queryKey: ['/api/account/sessions'],
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest('DELETE', `/api/account/sessions/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/account/sessions'] });
+      toast({ title: 'Signed out', description: 'That device will have to sign in again.' });
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Could not sign out that session', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  const revokeOthersMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('DELETE', '/api/account/sessions');
+      return response.json();
+    },
+    onSuccess: (data: { signedOut: number }) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/account/sessions'] });
+      toast({
+        title: 'Signed out everywhere else',
+        description: `${data.signedOut} other session${data.signedOut === 1 ? '' : 's'} ended.`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Could not sign out other sessions', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  const otherSessions = (sessions || []).filter(session => !session.current);
+
+  return (
+    <Card className="mt-8">
+      <CardHeader>
+        <div className="flex items-center gap-2">
+          <MonitorSmartphone className="h-5 w-5 text-primary" />
+          <CardTitle>Signed-in Devices</CardTitle>
+        </div>
+        <CardDescription>
+          Where your account is signed in. Sign out anything you don't recognize and change your password.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex justify-center py-4">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : !sessions || sessions.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            {user?.firebaseId
+              ? "You're signed in with Google, so your devices aren't listed here."
+              : 'No other signed-in sessions.'}
+          </p>
+        ) : (
+          <div className="divide-y">
+            {sessions.map(session => (
+              <div key={session.id} className="flex items-start justify-between gap-4 py-3">
+                <div className="space-y-1">
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium">{session.device}</span>
+                    {session.current && <Badge variant="secondary">This device</Badge>}
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    {session.ipAddress || 'Unknown IP address'}
+                    {session.createdAt && ` · Signed in ${new Date(session.createdAt).toLocaleString()}`}
+                    {session.lastSeenAt && ` · Last active ${new Date(session.lastSeenAt).toLocaleString()}`}
+                  </p>
+                </div>
+                {!session.current && (
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    title="Sign out this session"
+                    onClick={() => revokeMutation.mutate(session.id)}
+                    disabled={revokeMutation.isPending}
+                  >
+                    <LogOut className="h-4 w-4" />
+                  </Button>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+      {(otherSessions.length > 0 || user?.firebaseId) && (
+        <CardFooter className="flex-col items-start gap-2">
+          <Button variant="outline" onClick={() => revokeOthersMutation.mutate()} disabled={revokeOthersMutation.isPending}>
+            {revokeOthersMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Sign out everywhere else
+          </Button>
+          {user?.firebaseId && (
+            <p className="text-xs text-muted-foreground">
+              Google sign-ins can't be told apart, so this signs out every device, including this one.
+            </p>
+          )}
+        </CardFooter>
+      )}
+    </Card>
+  );
+}
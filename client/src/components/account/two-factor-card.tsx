@@ -0,0 +1,273 @@
+import { useState } from 'react';
+import { useQuery, useMutation } from '@tanstack/react-query';
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { InputOTP, InputOTPGroup, InputOTPSlot } from '@/components/ui/input-otp';
+import { Copy, Loader2, ShieldAlert, ShieldCheck } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+
+const CODE_LENGTH = 6;
+
+interface TwoFactorStatus {
+  enabled: boolean;
+  enabledAt: string | null;
+  recoveryCodesRemaining: number;
+  required: boolean;
+}
+
+interface TwoFactorSetup {
+  secret: string;
+  otpauthUrl: string;
+  qrCode: string;
+}
+
+// Changes that need the password and a code again
+type ProtectedAction = 'disable' | 'regenerate';
+
+/**
+ * Lets users turn two-factor authentication on with an authenticator app,
+ * keep their recovery codes, and turn it off again
+ */
+export default function TwoFactorCard() {
+  const { toast } = useToast();
+  const [setup, setSetup] = useState<TwoFactorSetup | null>(null);
+  const [setupCode, setSetupCode] = useState('');
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [action, setAction] = useState<ProtectedAction | null>(null);
+  const [password, setPassword] = useState('');
+  const [confirmCode, setConfirmCode] = useState('');
+
+  const { data: status, isLoading } = useQuery<TwoFactorStatus>({
+    queryKey: ['/api/two-factor'],
+  });
+
+  const onError = (title: string) => (error: Error) => {
+    toast({ title, description: error.message, variant: 'destructive' });
+  };
+
+  const resetAction = () => {
+    setAction(null);
+    setPassword('');
+    setConfirmCode('');
+  };
+
+  const setupMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', '/api/two-factor/setup');
+      return response.json();
+    },
+    onSuccess: (data: TwoFactorSetup) => {
+      setSetup(data);
+      setSetupCode('');
+    },
+    onError: onError('Could not start setup'),
+  });
+
+  const enableMutation = useMutation({
+    mutationFn: async (code: string) => {
+      const response = await apiRequest('POST', '/api/two-factor/enable', { code });
+      return response.json();
+    },
+    onSuccess: (data: { recoveryCodes: string[] }) => {
+      setSetup(null);
+      setRecoveryCodes(data.recoveryCodes);
+      queryClient.invalidateQueries({ queryKey: ['/api/two-factor'] });
+      toast({ title: 'Two-factor authentication is on', description: 'Save your recovery codes somewhere safe.' });
+    },
+    onError: (error: Error) => {
+      setSetupCode('');
+      onError('Could not turn on two-factor')(error);
+    },
+  });
+
+  const protectedMutation = useMutation({
+    mutationFn: async (kind: ProtectedAction) => {
+      const url = kind === 'disable' ? '/api/two-factor/disable' : '/api/two-factor/recovery-codes';
+      const response = await apiRequest('POST', url, { password, code: confirmCode.trim() });
+      return response.json();
+    },
+    onSuccess: (data: { recoveryCodes?: string[] }, kind) => {
+      resetAction();
+      queryClient.invalidateQueries({ queryKey: ['/api/two-factor'] });
+      if (kind === 'disable') {
+        setRecoveryCodes(null);
+        toast({ title: 'Two-factor authentication is off' });
+      } else {
+        setRecoveryCodes(data.recoveryCodes || null);
+        toast({ title: 'New recovery codes created', description: 'Your old recovery codes no longer work.' });
+      }
+    },
+    onError: onError('Could not update two-factor'),
+  });
+
+  if (isLoading || !status) {
+    return null;
+  }
+
+  return (
+    <Card className="mt-8">
+      <CardHeader>
+        <div className="flex items-center justify-between gap-2">
+          <div className="flex items-center gap-2">
+            <ShieldCheck className="h-5 w-5 text-primary" />
+            <CardTitle>Two-Factor Authentication</CardTitle>
+          </div>
+          <Badge variant={status.enabled ? 'secondary' : 'outline'}>{status.enabled ? 'On' : 'Off'}</Badge>
+        </div>
+        <CardDescription>
+          Ask for a code from an authenticator app as well as your password when you sign in.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {status.required && !status.enabled && (
+          <Alert variant="destructive">
+            <ShieldAlert className="h-4 w-4" />
+            <AlertTitle>Required for your account</AlertTitle>
+            <AlertDescription>Staff accounts must turn on two-factor authentication to use the admin panel.</AlertDescription>
+          </Alert>
+        )}
+
+        {recoveryCodes && (
+          <Alert>
+            <AlertTitle>Your recovery codes</AlertTitle>
+            <AlertDescription className="space-y-3">
+              <p>
+                Each code signs you in once if you lose your authenticator app. They won't be shown again.
+              </p>
+              <div className="grid grid-cols-2 gap-1 font-mono text-sm">
+                {recoveryCodes.map(code => <span key={code}>{code}</span>)}
+              </div>
+              <div className="flex gap-2">
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => {
+                    navigator.clipboard.writeText(recoveryCodes.join('\n'));
+                    toast({ title: 'Copied', description: 'Recovery codes copied to your clipboard.' });
+                  }}
+                >
+                  <Copy className="h-4 w-4 mr-1" />
+                  Copy
+                </Button>
+                <Button size="sm" variant="ghost" onClick={() => setRecoveryCodes(null)}>
+                  I've saved them
+                </Button>
+              </div>
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {!status.enabled && setup && (
+          <div className="space-y-4">
+            <div className="flex flex-col items-center gap-2">
+              <img src={setup.qrCode} alt="QR code for your authenticator app" className="h-48 w-48" />
+              <p className="text-xs text-muted-foreground">Can't scan it? Enter this key instead:</p>
+              <code className="text-sm break-all">{setup.secret}</code>
+            </div>
+            <div className="space-y-2">
+              <Label>Enter the 6-digit code from your app</Label>
+              <InputOTP
+                maxLength={CODE_LENGTH}
+                value={setupCode}
+                onChange={setSetupCode}
+                onComplete={(code) => enableMutation.mutate(code)}
+                disabled={enableMutation.isPending}
+              >
+                <InputOTPGroup>
+                  {Array.from({ length: CODE_LENGTH }).map((_, index) => (
+                    <InputOTPSlot key={index} index={index} />
+                  ))}
+                </InputOTPGroup>
+              </InputOTP>
+            </div>
+          </div>
+        )}
+
+        {status.enabled && (
+          <p className="text-sm text-muted-foreground">
+            {status.recoveryCodesRemaining} of 10 recovery codes left
+            {status.enabledAt && ` · On since ${new Date(status.enabledAt).toLocaleDateString()}`}
+          </p>
+        )}
+
+        {status.enabled && action && (
+          <form
+            className="space-y-3"
+            onSubmit={(e) => {
+              e.preventDefault();
+              protectedMutation.mutate(action);
+            }}
+          >
+            <p className="text-sm">
+              {action === 'disable'
+                ? 'Confirm your password and a code to turn two-factor off.'
+                : 'Confirm your password and a code to replace your recovery codes.'}
+            </p>
+            <div className="space-y-2">
+              <Label htmlFor="two-factor-password">Password</Label>
+              <Input
+                id="two-factor-password"
+                type="password"
+                autoComplete="current-password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="two-factor-code">Authenticator or recovery code</Label>
+              <Input
+                id="two-factor-code"
+                autoComplete="one-time-code"
+                value={confirmCode}
+                onChange={(e) => setConfirmCode(e.target.value)}
+              />
+            </div>
+            <div className="flex gap-2">
+              <Button
+                type="submit"
+                variant={action === 'disable' ? 'destructive' : 'default'}
+                disabled={!password || !confirmCode.trim() || protectedMutation.isPending}
+              >
+                {protectedMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                {action === 'disable' ? 'Turn off' : 'Create new codes'}
+              </Button>
+              <Button type="button" variant="ghost" onClick={resetAction}>
+                Cancel
+              </Button>
+            </div>
+          </form>
+        )}
+      </CardContent>
+      <CardFooter className="flex gap-2">
+        {!status.enabled && !setup && (
+          <Button onClick={() => setupMutation.mutate()} disabled={setupMutation.isPending}>
+            {setupMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Set up two-factor
+          </Button>
+        )}
+        {!status.enabled && setup && (
+          <Button variant="ghost" onClick={() => setSetup(null)}>
+            Cancel setup
+          </Button>
+        )}
+        {status.enabled && !action && (
+          <>
+            <Button variant="outline" onClick={() => setAction('regenerate')}>
+              New recovery codes
+            </Button>
+            {!status.required && (
+              <Button variant="outline" onClick={() => setAction('disable')}>
+                Turn off
+              </Button>
+            )}
+          </>
+        )}
+      </CardFooter>
+    </Card>
+  );
+}
@@ -0,0 +1,173 @@
+import { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { AuditEvent, auditActions } from '@shared/schema';
+import { Download, Loader2, ScrollText } from 'lucide-react';
+
+type AuditEventRow = Omit<AuditEvent, 'createdAt'> & { createdAt: string };
+
+const ALL_ACTIONS = 'all';
+
+const emptyFilters = {
+  action: ALL_ACTIONS,
+  actorId: '',
+  targetType: '',
+  targetId: '',
+  since: '',
+  until: '',
+};
+
+// Show a recorded value compactly in the changes column
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined) {
+    return '—';
+  }
+  return typeof value === 'string' ? value : JSON.stringify(value);
+}
+
+/**
+ * Lets admins search the audit log of privileged actions and download the
+ * results as CSV
+ */
+export default function AuditLogCard() {
+  const [filters, setFilters] = useState(emptyFilters);
+
+  const params = new URLSearchParams();
+  if (filters.action !== ALL_ACTIONS) params.set('action', filters.action);
+  if (filters.actorId.trim()) params.set('actorId', filters.actorId.trim());
+  if (filters.targetType.trim()) params.set('targetType', filters.targetType.trim());
+  if (filters.targetId.trim()) params.set('targetId', filters.targetId.trim());
+  // Date inputs give a day, so search from the start of "since" to the end of "until"
+  if (filters.since) params.set('since', new Date(`${filters.since}T00:00:00`).toISOString());
+  if (filters.until) params.set('until', new Date(`${filters.until}T23:59:59.999`).toISOString());
+  const query = params.toString();
+
+  const { data: events, isLoading, error } = useQuery<AuditEventRow[]>({
+    queryKey: [`/api/admin/audit-events${query ? `?${query}` : ''}`],
+  });
+
+  const setFilter = (key: keyof typeof emptyFilters) => (value: string) => {
+    setFilters(current => ({ ...current, [key]: value }));
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between gap-2">
+          <div className="flex items-center gap-2">
+            <ScrollText className="h-5 w-5 text-primary" />
+            <CardTitle>Audit Log</CardTitle>
+          </div>
+          <Button variant="outline" size="sm" asChild>
+            <a href={`/api/admin/audit-events/export${query ? `?${query}` : ''}`}>
+              <Download className="h-4 w-4 mr-1" />
+              Export CSV
+            </a>
+          </Button>
+        </div>
+        <CardDescription>Every change made through the admin panel, newest first. Entries can't be edited or deleted.</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid gap-3 md:grid-cols-3">
+          <div className="space-y-1">
+            <Label>Action</Label>
+            <Select value={filters.action} onValueChange={setFilter('action')}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL_ACTIONS}>All actions</SelectItem>
+                {Object.values(auditActions).map(action => (
+                  <SelectItem key={action} value={action}>{action}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="audit-actor">Actor user ID</Label>
+            <Input id="audit-actor" value={filters.actorId} onChange={(e) => setFilter('actorId')(e.target.value)} />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="audit-target-type">Target type</Label>
+            <Input
+              id="audit-target-type"
+              placeholder="user, plan, coupon..."
+              value={filters.targetType}
+              onChange={(e) => setFilter('targetType')(e.target.value)}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="audit-target-id">Target ID</Label>
+            <Input id="audit-target-id" value={filters.targetId} onChange={(e) => setFilter('targetId')(e.target.value)} />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="audit-since">From</Label>
+            <Input id="audit-since" type="date" value={filters.since} onChange={(e) => setFilter('since')(e.target.value)} />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="audit-until">To</Label>
+            <Input id="audit-until" type="date" value={filters.until} onChange={(e) => setFilter('until')(e.target.value)} />
+          </div>
+        </div>
+
+        {isLoading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : error ? (
+          <p className="text-sm text-destructive">Could not load the audit log: {(error as Error).message}</p>
+        ) : !events || events.length === 0 ? (
+          <p className="text-sm text-muted-foreground py-4 text-center">No events match these filters.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>When</TableHead>
+                <TableHead>Who</TableHead>
+                <TableHead>Action</TableHead>
+                <TableHead>Target</TableHead>
+                <TableHead>Changes</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {events.map(event => {
+                const changes = Object.entries(event.changes || {});
+                return (
+                  <TableRow key={event.id}>
+                    <TableCell className="whitespace-nowrap">{new Date(event.createdAt).toLocaleString()}</TableCell>
+                    <TableCell>
+                      {event.actorUsername || 'System'}
+                      {event.actorId !== null && <span className="text-xs text-muted-foreground"> #{event.actorId}</span>}
+                      {event.ipAddress && <div className="text-xs text-muted-foreground">{event.ipAddress}</div>}
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant="outline">{event.action}</Badge>
+                    </TableCell>
+                    <TableCell>{event.targetType ? `${event.targetType} ${event.targetId || ''}` : '—'}</TableCell>
+                    <TableCell className="text-xs font-mono max-w-md">
+                      {changes.length === 0 && !event.details && '—'}
+                      {changes.map(([field, change]) => (
+                        <div key={field} className="break-all">
+                          {field}: {formatValue(change.from)} → {formatValue(change.to)}
+                        </div>
+                      ))}
+                      {event.details && (
+                        <div className="break-all text-muted-foreground">{JSON.stringify(event.details)}</div>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
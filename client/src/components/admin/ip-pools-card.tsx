@@ -0,0 +1,169 @@
+import { useQuery, useMutation } from '@tanstack/react-query';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+import { AlertTriangle, Loader2, RefreshCw } from 'lucide-react';
+
+type PoolUtilization = {
+  serverId: number;
+  serverName: string;
+  family: 'ipv4' | 'ipv6';
+  cidr: string;
+  capacity: number;
+  leased: number;
+  sessionLeases: number;
+  peerLeases: number;
+  utilization: number;
+};
+
+type AddressConflict = {
+  serverId: number;
+  address: string;
+  reason: 'duplicate_lease' | 'outside_pool' | 'peer_without_lease';
+  leaseIds: number[];
+  peerId?: number;
+};
+
+type IpPoolsResponse = {
+  timestamp: string;
+  pools: PoolUtilization[];
+  conflicts: AddressConflict[];
+};
+
+const conflictLabels: Record<AddressConflict['reason'], string> = {
+  duplicate_lease: 'Leased more than once',
+  outside_pool: 'Outside server pool',
+  peer_without_lease: 'WireGuard peer without lease',
+};
+
+export default function IpPoolsCard() {
+  const { toast } = useToast();
+
+  const { data, isLoading, error } = useQuery<IpPoolsResponse>({
+    queryKey: ['/api/admin/ip-pools'],
+    refetchInterval: 60000,
+  });
+
+  const reclaimMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest('POST', '/api/admin/ip-pools/reclaim');
+      return await res.json();
+    },
+    onSuccess: (result: { reclaimed: number }) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/ip-pools'] });
+      toast({
+        title: 'Leases reclaimed',
+        description: `${result.reclaimed} expired lease(s) returned to the pool`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Failed to reclaim leases',
+        description: error.message,
+        variant: 'destructive',
+      });
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between">
+        <div>
+          <CardTitle>Tunnel Address Pools</CardTitle>
+          <CardDescription>
+            IPv4 and IPv6 address usage for each VPN server
+          </CardDescription>
+        </div>
+        <div className="flex gap-2">
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => queryClient.invalidateQueries({ queryKey: ['/api/admin/ip-pools'] })}
+          >
+            <RefreshCw className="h-4 w-4 mr-1" />
+            Refresh
+          </Button>
+          <Button
+            size="sm"
+            onClick={() => reclaimMutation.mutate()}
+            disabled={reclaimMutation.isPending}
+          >
+            {reclaimMutation.isPending && <Loader2 className="h-4 w-4 mr-1 animate-spin" />}
+            Reclaim Expired
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <div className="flex justify-center p-4">
+            <Loader2 className="h-6 w-6 animate-spin" />
+          </div>
+        ) : error ? (
+          <Alert variant="destructive">
+            <AlertTitle>Error</AlertTitle>
+            <AlertDescription>Failed to load address pools</AlertDescription>
+          </Alert>
+        ) : (
+          <>
+            {data && data.conflicts.length > 0 && (
+              <Alert variant="destructive">
+                <AlertTriangle className="h-4 w-4" />
+                <AlertTitle>{data.conflicts.length} address conflict(s) detected</AlertTitle>
+                <AlertDescription>
+                  <ul className="mt-2 space-y-1 text-sm">
+                    {data.conflicts.map((conflict, index) => (
+                      <li key={index}>
+                        Server {conflict.serverId}: {conflict.address} &mdash; {conflictLabels[conflict.reason]}
+                        {conflict.leaseIds.length > 0 && ` (leases ${conflict.leaseIds.join(', ')})`}
+                        {conflict.peerId && ` (peer ${conflict.peerId})`}
+                      </li>
+                    ))}
+                  </ul>
+                </AlertDescription>
+              </Alert>
+            )}
+
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Server</TableHead>
+                  <TableHead>Family</TableHead>
+                  <TableHead>Pool</TableHead>
+                  <TableHead>Sessions</TableHead>
+                  <TableHead>Peers</TableHead>
+                  <TableHead className="w-48">Utilization</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {data?.pools.map((pool) => (
+                  <TableRow key={`${pool.serverId}-${pool.family}`}>
+                    <TableCell className="font-medium">{pool.serverName}</TableCell>
+                    <TableCell>
+                      <Badge variant="outline">{pool.family === 'ipv4' ? 'IPv4' : 'IPv6'}</Badge>
+                    </TableCell>
+                    <TableCell className="font-mono text-xs">{pool.cidr}</TableCell>
+                    <TableCell>{pool.sessionLeases}</TableCell>
+                    <TableCell>{pool.peerLeases}</TableCell>
+                    <TableCell>
+                      <div className="space-y-1">
+                        <Progress value={pool.utilization} />
+                        <p className="text-xs text-muted-foreground">
+                          {pool.leased} / {pool.capacity} ({pool.utilization.toFixed(1)}%)
+                        </p>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,549 @@
+import { useState } from 'react';
+import { useQuery, useMutation } from '@tanstack/react-query';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+import { formatCurrency } from '@/lib/utils';
+import { useToast } from '@/hooks/use-toast';
+import { SubscriptionPlan, PlanFeature } from '@shared/schema';
+import { Loader2, Plus, Trash2, History, Archive, ArchiveRestore, Pencil } from 'lucide-react';
+
+type AdminPlan = SubscriptionPlan & {
+  usage: {
+    subscribers: number;
+    organizations: number;
+    scheduled: number;
+    vouchers: number;
+  };
+};
+
+type PlanVersion = {
+  id: number;
+  version: number;
+  changeType: string;
+  snapshot: SubscriptionPlan;
+  changedBy: number | null;
+  createdAt: string;
+};
+
+const MB = 1024 * 1024;
+
+const emptyPlan = {
+  name: '',
+  price: '',
+  description: '',
+  dataLimitMb: '',
+  unlimitedData: true,
+  dailyTimeLimit: '',
+  unlimitedTime: true,
+  maxDevices: '1',
+  serverAccess: 'standard',
+  priority: '0',
+  doubleVpnAccess: false,
+  obfuscationAccess: false,
+  shadowsocksAccess: false,
+  adFree: false,
+  features: [] as PlanFeature[],
+};
+
+type PlanForm = typeof emptyPlan;
+
+const flags: { key: 'doubleVpnAccess' | 'obfuscationAccess' | 'shadowsocksAccess' | 'adFree'; label: string }[] = [
+  { key: 'doubleVpnAccess', label: 'Double VPN' },
+  { key: 'obfuscationAccess', label: 'Obfuscation' },
+  { key: 'shadowsocksAccess', label: 'Shadowsocks' },
+  { key: 'adFree', label: 'Ad-free' },
+];
+
+function toForm(plan: SubscriptionPlan): PlanForm {
+  return {
+    name: plan.name,
+    price: (plan.price / 100).toFixed(2),
+    description: plan.description || '',
+    dataLimitMb: plan.dataLimit < 0 ? '' : Math.round(plan.dataLimit / MB).toString(),
+    unlimitedData: plan.dataLimit < 0,
+    dailyTimeLimit: plan.dailyTimeLimit < 0 ? '' : plan.dailyTimeLimit.toString(),
+    unlimitedTime: plan.dailyTimeLimit < 0,
+    maxDevices: plan.maxDevices.toString(),
+    serverAccess: plan.serverAccess,
+    priority: plan.priority.toString(),
+    doubleVpnAccess: !!plan.doubleVpnAccess,
+    obfuscationAccess: !!plan.obfuscationAccess,
+    shadowsocksAccess: !!plan.shadowsocksAccess,
+    adFree: !!plan.adFree,
+    features: plan.features || [],
+  };
+}
+
+function fromForm(form: PlanForm) {
+  return {
+    // Prices are entered in dollars and stored in cents
+    price: Math.round(parseFloat(form.price || '0') * 100),
+    description: form.description || null,
+    dataLimit: form.unlimitedData ? -1 : parseInt(form.dataLimitMb || '0', 10) * MB,
+    dailyTimeLimit: form.unlimitedTime ? -1 : parseInt(form.dailyTimeLimit || '0', 10),
+    maxDevices: parseInt(form.maxDevices || '1', 10),
+    serverAccess: form.serverAccess,
+    priority: parseInt(form.priority || '0', 10),
+    doubleVpnAccess: form.doubleVpnAccess,
+    obfuscationAccess: form.obfuscationAccess,
+    shadowsocksAccess: form.shadowsocksAccess,
+    adFree: form.adFree,
+    features: form.features.filter(feature => feature.label.trim()),
+  };
+}
+
+function describeLimit(value: number, unit: 'data' | 'time') {
+  if (value < 0) return 'Unlimited';
+  return unit === 'data' ? `${Math.round(value / MB)} MB/month` : `${value} min/day`;
+}
+
+export default function PlansCard() {
+  const { toast } = useToast();
+  const [editing, setEditing] = useState<AdminPlan | null>(null);
+  const [formOpen, setFormOpen] = useState(false);
+  const [form, setForm] = useState<PlanForm>(emptyPlan);
+  const [historyPlan, setHistoryPlan] = useState<AdminPlan | null>(null);
+
+  const { data: plans, isLoading, error } = useQuery<AdminPlan[]>({
+    queryKey: ['/api/admin/plans'],
+  });
+
+  const { data: versions, isLoading: isLoadingVersions } = useQuery<PlanVersion[]>({
+    queryKey: [`/api/admin/plans/${historyPlan?.id}/versions`],
+    enabled: !!historyPlan,
+  });
+
+  const onChanged = () => {
+    queryClient.invalidateQueries({ queryKey: ['/api/admin/plans'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/subscription-plans'] });
+  };
+
+  const onError = (title: string) => (error: Error) => {
+    toast({
+      title,
+      description: error.message,
+      variant: 'destructive',
+    });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const res = editing
+        ? await apiRequest('PATCH', `/api/admin/plans/${editing.id}`, fromForm(form))
+        : await apiRequest('POST', '/api/admin/plans', { name: form.name, ...fromForm(form) });
+      return await res.json();
+    },
+    onSuccess: (plan: SubscriptionPlan) => {
+      onChanged();
+      setFormOpen(false);
+      toast({
+        title: editing ? 'Plan updated' : 'Plan created',
+        description: `The ${plan.name} plan is now at version ${plan.version}`,
+      });
+    },
+    onError: onError('Failed to save plan'),
+  });
+
+  const archiveMutation = useMutation({
+    mutationFn: async ({ id, archive }: { id: number; archive: boolean }) => {
+      const res = await apiRequest('POST', `/api/admin/plans/${id}/${archive ? 'archive' : 'restore'}`);
+      return await res.json();
+    },
+    onSuccess: (plan: SubscriptionPlan) => {
+      onChanged();
+      toast({
+        title: plan.archivedAt ? 'Plan archived' : 'Plan restored',
+        description: plan.archivedAt
+          ? `New users can no longer choose the ${plan.name} plan`
+          : `The ${plan.name} plan is offered again`,
+      });
+    },
+    onError: onError('Failed to update plan'),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: number) => {
+      const res = await apiRequest('DELETE', `/api/admin/plans/${id}`);
+      return await res.json();
+    },
+    onSuccess: () => {
+      onChanged();
+      toast({ title: 'Plan deleted' });
+    },
+    onError: onError('Failed to delete plan'),
+  });
+
+  const openCreate = () => {
+    setEditing(null);
+    setForm(emptyPlan);
+    setFormOpen(true);
+  };
+
+  const openEdit = (plan: AdminPlan) => {
+    setEditing(plan);
+    setForm(toForm(plan));
+    setFormOpen(true);
+  };
+
+  const updateFeature = (index: number, feature: PlanFeature) => {
+    setForm(current => ({
+      ...current,
+      features: current.features.map((existing, i) => (i === index ? feature : existing)),
+    }));
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between">
+        <div>
+          <CardTitle>Subscription Plans</CardTitle>
+          <CardDescription>
+            Prices, limits and features of each plan. Plans are listed by priority, and archived plans stay
+            with their subscribers but can't be chosen by anyone new.
+          </CardDescription>
+        </div>
+        <Button size="sm" onClick={openCreate}>
+          <Plus className="h-4 w-4 mr-1" />
+          New plan
+        </Button>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex justify-center p-4">
+            <Loader2 className="h-6 w-6 animate-spin" />
+          </div>
+        ) : error || !plans ? (
+          <Alert variant="destructive">
+            <AlertTitle>Error</AlertTitle>
+            <AlertDescription>Failed to load plans</AlertDescription>
+          </Alert>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Priority</TableHead>
+                <TableHead>Plan</TableHead>
+                <TableHead>Price</TableHead>
+                <TableHead>Limits</TableHead>
+                <TableHead>Subscribers</TableHead>
+                <TableHead>Version</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {plans.map(plan => {
+                const inUse = plan.usage.subscribers + plan.usage.organizations + plan.usage.scheduled + plan.usage.vouchers > 0;
+
+                return (
+                  <TableRow key={plan.id} className={plan.archivedAt ? 'opacity-60' : ''}>
+                    <TableCell>{plan.priority}</TableCell>
+                    <TableCell>
+                      <div className="font-medium capitalize">
+                        {plan.name}
+                        {plan.archivedAt && <Badge variant="secondary" className="ml-2">Archived</Badge>}
+                      </div>
+                      <div className="text-xs text-muted-foreground">
+                        {flags.filter(flag => plan[flag.key]).map(flag => flag.label).join(', ') || 'No extras'}
+                      </div>
+                    </TableCell>
+                    <TableCell>{formatCurrency(plan.price, 'USD')}</TableCell>
+                    <TableCell className="text-sm">
+                      <div>{describeLimit(plan.dataLimit, 'data')}</div>
+                      <div>{describeLimit(plan.dailyTimeLimit, 'time')}</div>
+                      <div>{plan.maxDevices} device{plan.maxDevices !== 1 ? 's' : ''}, {plan.serverAccess} servers</div>
+                    </TableCell>
+                    <TableCell className="text-sm">
+                      <div>{plan.usage.subscribers} users</div>
+                      {plan.usage.organizations > 0 && <div>{plan.usage.organizations} organizations</div>}
+                      {plan.usage.scheduled > 0 && <div>{plan.usage.scheduled} scheduled</div>}
+                      {plan.usage.vouchers > 0 && <div>{plan.usage.vouchers} unredeemed vouchers</div>}
+                    </TableCell>
+                    <TableCell>v{plan.version}</TableCell>
+                    <TableCell className="text-right space-x-1 whitespace-nowrap">
+                      <Button variant="ghost" size="icon" title="Edit" onClick={() => openEdit(plan)}>
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                      <Button variant="ghost" size="icon" title="History" onClick={() => setHistoryPlan(plan)}>
+                        <History className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        title={plan.archivedAt ? 'Restore' : 'Archive'}
+                        onClick={() => archiveMutation.mutate({ id: plan.id, archive: !plan.archivedAt })}
+                        disabled={archiveMutation.isPending}
+                      >
+                        {plan.archivedAt ? <ArchiveRestore className="h-4 w-4" /> : <Archive className="h-4 w-4" />}
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        title={inUse ? 'Plans in use or with unredeemed vouchers can only be archived' : 'Delete'}
+                        onClick={() => {
+                          if (window.confirm(`Delete the ${plan.name} plan? Its history is kept.`)) {
+                            deleteMutation.mutate(plan.id);
+                          }
+                        }}
+                        disabled={inUse || deleteMutation.isPending}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+
+      <Dialog open={formOpen} onOpenChange={setFormOpen}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editing ? `Edit the ${editing.name} plan` : 'New plan'}</DialogTitle>
+            <DialogDescription>
+              {editing
+                ? 'Changing the price creates a new Stripe price. Current subscribers keep the price they signed up at.'
+                : 'The name identifies the plan on every subscription and can\'t be changed later.'}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="grid grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="plan-name">Name</Label>
+                <Input
+                  id="plan-name"
+                  placeholder="business"
+                  value={form.name}
+                  disabled={!!editing}
+                  onChange={(e) => setForm({ ...form, name: e.target.value.toLowerCase() })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="plan-price">Price ($/month)</Label>
+                <Input
+                  id="plan-price"
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={form.price}
+                  onChange={(e) => setForm({ ...form, price: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="plan-priority">Priority</Label>
+                <Input
+                  id="plan-priority"
+                  type="number"
+                  min="0"
+                  value={form.priority}
+                  onChange={(e) => setForm({ ...form, priority: e.target.value })}
+                />
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="plan-description">Description</Label>
+              <Textarea
+                id="plan-description"
+                rows={2}
+                value={form.description}
+                onChange={(e) => setForm({ ...form, description: e.target.value })}
+              />
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <Label htmlFor="plan-data">Data (MB/month)</Label>
+                  <div className="flex items-center gap-2 text-sm">
+                    <Switch
+                      checked={form.unlimitedData}
+                      onCheckedChange={(unlimitedData) => setForm({ ...form, unlimitedData })}
+                    />
+                    Unlimited
+                  </div>
+                </div>
+                <Input
+                  id="plan-data"
+                  type="number"
+                  min="0"
+                  value={form.dataLimitMb}
+                  disabled={form.unlimitedData}
+                  onChange={(e) => setForm({ ...form, dataLimitMb: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <Label htmlFor="plan-time">Time (minutes/day)</Label>
+                  <div className="flex items-center gap-2 text-sm">
+                    <Switch
+                      checked={form.unlimitedTime}
+                      onCheckedChange={(unlimitedTime) => setForm({ ...form, unlimitedTime })}
+                    />
+                    Unlimited
+                  </div>
+                </div>
+                <Input
+                  id="plan-time"
+                  type="number"
+                  min="0"
+                  max="1440"
+                  value={form.dailyTimeLimit}
+                  disabled={form.unlimitedTime}
+                  onChange={(e) => setForm({ ...form, dailyTimeLimit: e.target.value })}
+                />
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="plan-devices">Devices</Label>
+                <Input
+                  id="plan-devices"
+                  type="number"
+                  min="1"
+                  max="100"
+                  value={form.maxDevices}
+                  onChange={(e) => setForm({ ...form, maxDevices: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Servers</Label>
+                <Select value={form.serverAccess} onValueChange={(serverAccess) => setForm({ ...form, serverAccess })}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="standard">Standard</SelectItem>
+                    <SelectItem value="premium">Premium</SelectItem>
+                    <SelectItem value="all">All</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-3">
+              {flags.map(flag => (
+                <div key={flag.key} className="flex items-center justify-between rounded-md border p-3">
+                  <Label htmlFor={`plan-${flag.key}`}>{flag.label}</Label>
+                  <Switch
+                    id={`plan-${flag.key}`}
+                    checked={form[flag.key]}
+                    onCheckedChange={(checked) => setForm({ ...form, [flag.key]: checked })}
+                  />
+                </div>
+              ))}
+            </div>
+
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <Label>Features shown on the plan card</Label>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setForm({ ...form, features: [...form.features, { label: '' }] })}
+                  disabled={form.features.length >= 20}
+                >
+                  <Plus className="h-4 w-4 mr-1" />
+                  Add
+                </Button>
+              </div>
+              {form.features.length === 0 && (
+                <p className="text-sm text-muted-foreground">
+                  No features, so the plan card lists the plan's limits instead
+                </p>
+              )}
+              {form.features.map((feature, index) => (
+                <div key={index} className="flex items-center gap-2">
+                  <Input
+                    value={feature.label}
+                    placeholder="Unlimited data"
+                    onChange={(e) => updateFeature(index, { ...feature, label: e.target.value })}
+                  />
+                  <div className="flex items-center gap-2 text-sm whitespace-nowrap">
+                    <Switch
+                      checked={!!feature.highlighted}
+                      onCheckedChange={(highlighted) => updateFeature(index, { ...feature, highlighted })}
+                    />
+                    Highlight
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => setForm({ ...form, features: form.features.filter((_, i) => i !== index) })}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setFormOpen(false)}>Cancel</Button>
+            <Button
+              onClick={() => saveMutation.mutate()}
+              disabled={(!editing && !form.name) || form.price === '' || saveMutation.isPending}
+            >
+              {saveMutation.isPending && <Loader2 className="h-4 w-4 mr-1 animate-spin" />}
+              {editing ? 'Save changes' : 'Create plan'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!historyPlan} onOpenChange={(open) => !open && setHistoryPlan(null)}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle className="capitalize">{historyPlan?.name} plan history</DialogTitle>
+            <DialogDescription>Every change to the plan, newest first</DialogDescription>
+          </DialogHeader>
+          {isLoadingVersions ? (
+            <div className="flex justify-center p-4">
+              <Loader2 className="h-6 w-6 animate-spin" />
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Version</TableHead>
+                  <TableHead>Change</TableHead>
+                  <TableHead>Price</TableHead>
+                  <TableHead>Limits</TableHead>
+                  <TableHead>Date</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {(versions || []).map(version => (
+                  <TableRow key={version.id}>
+                    <TableCell>v{version.version}</TableCell>
+                    <TableCell className="capitalize">
+                      {version.changeType}
+                      {version.changedBy === null && <span className="text-xs text-muted-foreground"> (setup)</span>}
+                    </TableCell>
+                    <TableCell>{formatCurrency(version.snapshot.price, 'USD')}</TableCell>
+                    <TableCell className="text-sm">
+                      {describeLimit(version.snapshot.dataLimit, 'data')}, {describeLimit(version.snapshot.dailyTimeLimit, 'time')},{' '}
+                      {version.snapshot.maxDevices} devices
+                    </TableCell>
+                    <TableCell>{new Date(version.createdAt).toLocaleString()}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
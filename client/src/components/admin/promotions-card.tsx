@@ -0,0 +1,417 @@
+import { useEffect, useState } from 'react';
+import { useQuery, useMutation } from '@tanstack/react-query';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+import { formatCurrency } from '@/lib/utils';
+import { useToast } from '@/hooks/use-toast';
+import { SubscriptionPlan } from '@shared/schema';
+import { Loader2, Plus } from 'lucide-react';
+
+type CouponStats = {
+  id: number;
+  code: string;
+  description: string | null;
+  type: 'percent' | 'fixed';
+  amount: number;
+  currency: string;
+  planNames: string | null;
+  maxRedemptions: number | null;
+  timesRedeemed: number;
+  expiresAt: string | null;
+  active: boolean;
+  summary: string;
+  discounts: { currency: string; discount: number }[];
+};
+
+type TrialSettings = {
+  planName: string;
+  days: number;
+};
+
+const emptyCoupon = {
+  code: '',
+  description: '',
+  type: 'percent' as 'percent' | 'fixed',
+  amount: '',
+  currency: 'USD',
+  planNames: [] as string[],
+  maxRedemptions: '',
+  expiresAt: '',
+};
+
+export default function PromotionsCard() {
+  const { toast } = useToast();
+  const [createOpen, setCreateOpen] = useState(false);
+  const [newCoupon, setNewCoupon] = useState(emptyCoupon);
+  const [trialPlan, setTrialPlan] = useState('');
+  const [trialDays, setTrialDays] = useState('');
+
+  const { data: coupons, isLoading, error } = useQuery<CouponStats[]>({
+    queryKey: ['/api/admin/coupons'],
+  });
+
+  // Every plan has a USD price, so list plans in USD
+  const { data: plans } = useQuery<SubscriptionPlan[]>({
+    queryKey: ['/api/subscription-plans', 'USD'],
+    queryFn: () => fetch('/api/subscription-plans?currency=USD').then(res => res.json()),
+  });
+
+  const { data: pricing } = useQuery<{ currencies: string[] }>({
+    queryKey: ['/api/pricing/currencies'],
+  });
+  const paidPlans = (plans || []).filter(plan => plan.price > 0);
+
+  const { data: trialSettings } = useQuery<TrialSettings>({
+    queryKey: ['/api/admin/promotions/trial'],
+  });
+
+  useEffect(() => {
+    if (trialSettings) {
+      setTrialPlan(trialSettings.planName);
+      setTrialDays(trialSettings.days.toString());
+    }
+  }, [trialSettings]);
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const amount = parseFloat(newCoupon.amount);
+      const res = await apiRequest('POST', '/api/admin/coupons', {
+        code: newCoupon.code,
+        description: newCoupon.description || null,
+        type: newCoupon.type,
+        // Fixed discounts are entered in whole units and stored in the smallest unit
+        amount: newCoupon.type === 'fixed' ? Math.round(amount * 100) : Math.round(amount),
+        currency: newCoupon.currency,
+        planNames: newCoupon.planNames.length > 0 ? newCoupon.planNames.join(',') : null,
+        maxRedemptions: newCoupon.maxRedemptions ? parseInt(newCoupon.maxRedemptions, 10) : null,
+        expiresAt: newCoupon.expiresAt ? new Date(newCoupon.expiresAt).toISOString() : null,
+      });
+      return await res.json();
+    },
+    onSuccess: (coupon) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/coupons'] });
+      setCreateOpen(false);
+      setNewCoupon(emptyCoupon);
+      toast({
+        title: 'Coupon created',
+        description: `${coupon.code} is ready to use`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Failed to create coupon',
+        description: error.message,
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const toggleMutation = useMutation({
+    mutationFn: async ({ id, active }: { id: number; active: boolean }) => {
+      const res = await apiRequest('PATCH', `/api/admin/coupons/${id}`, { active });
+      return await res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/coupons'] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Failed to update coupon',
+        description: error.message,
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const trialMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest('PUT', '/api/admin/promotions/trial', {
+        planName: trialPlan,
+        days: parseInt(trialDays, 10),
+      });
+      return await res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/promotions/trial'] });
+      toast({
+        title: 'Trial updated',
+        description: 'New trials use these settings',
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Failed to update trial',
+        description: error.message,
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const togglePlan = (planName: string, checked: boolean) => {
+    setNewCoupon(coupon => ({
+      ...coupon,
+      planNames: checked
+        ? [...coupon.planNames, planName]
+        : coupon.planNames.filter(name => name !== planName),
+    }));
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between">
+        <div>
+          <CardTitle>Promotions</CardTitle>
+          <CardDescription>
+            Coupon codes and the free trial new users can start
+          </CardDescription>
+        </div>
+        <Button size="sm" onClick={() => setCreateOpen(true)}>
+          <Plus className="h-4 w-4 mr-1" />
+          New coupon
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="rounded-lg border p-4">
+          <h3 className="text-sm font-medium mb-3">Free trial</h3>
+          <div className="flex flex-wrap items-end gap-4">
+            <div className="space-y-2">
+              <Label>Plan</Label>
+              <Select value={trialPlan} onValueChange={setTrialPlan}>
+                <SelectTrigger className="w-40">
+                  <SelectValue placeholder="Select plan" />
+                </SelectTrigger>
+                <SelectContent>
+                  {paidPlans.map(plan => (
+                    <SelectItem key={plan.id} value={plan.name} className="capitalize">{plan.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="trial-days">Days (0 turns trials off)</Label>
+              <Input
+                id="trial-days"
+                type="number"
+                min="0"
+                max="90"
+                className="w-32"
+                value={trialDays}
+                onChange={(e) => setTrialDays(e.target.value)}
+              />
+            </div>
+            <Button
+              variant="outline"
+              onClick={() => trialMutation.mutate()}
+              disabled={!trialPlan || trialDays === '' || trialMutation.isPending}
+            >
+              {trialMutation.isPending && <Loader2 className="h-4 w-4 mr-1 animate-spin" />}
+              Save
+            </Button>
+          </div>
+        </div>
+
+        {isLoading ? (
+          <div className="flex justify-center p-4">
+            <Loader2 className="h-6 w-6 animate-spin" />
+          </div>
+        ) : error ? (
+          <Alert variant="destructive">
+            <AlertTitle>Error</AlertTitle>
+            <AlertDescription>Failed to load coupons</AlertDescription>
+          </Alert>
+        ) : !coupons || coupons.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No coupons yet</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Code</TableHead>
+                <TableHead>Discount</TableHead>
+                <TableHead>Redeemed</TableHead>
+                <TableHead>Total discounted</TableHead>
+                <TableHead>Expires</TableHead>
+                <TableHead className="text-right">Active</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {coupons.map(coupon => {
+                const expired = coupon.expiresAt && new Date(coupon.expiresAt) <= new Date();
+                const usedUp = coupon.maxRedemptions !== null && coupon.timesRedeemed >= coupon.maxRedemptions;
+
+                return (
+                  <TableRow key={coupon.id}>
+                    <TableCell>
+                      <div className="font-mono font-medium">{coupon.code}</div>
+                      {coupon.description && (
+                        <div className="text-xs text-muted-foreground">{coupon.description}</div>
+                      )}
+                    </TableCell>
+                    <TableCell>{coupon.summary}</TableCell>
+                    <TableCell>
+                      {coupon.timesRedeemed}
+                      {coupon.maxRedemptions !== null && ` / ${coupon.maxRedemptions}`}
+                      {usedUp && <Badge variant="secondary" className="ml-2">Used up</Badge>}
+                    </TableCell>
+                    <TableCell>
+                      {coupon.discounts.length === 0
+                        ? formatCurrency(0)
+                        : coupon.discounts.map(total => (
+                          <div key={total.currency}>{formatCurrency(total.discount, total.currency)}</div>
+                        ))}
+                    </TableCell>
+                    <TableCell>
+                      {coupon.expiresAt ? new Date(coupon.expiresAt).toLocaleDateString() : 'Never'}
+                      {expired && <Badge variant="outline" className="ml-2">Expired</Badge>}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <Switch
+                        checked={coupon.active}
+                        onCheckedChange={(active) => toggleMutation.mutate({ id: coupon.id, active })}
+                        disabled={toggleMutation.isPending}
+                      />
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+
+      <Dialog open={createOpen} onOpenChange={setCreateOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>New coupon</DialogTitle>
+            <DialogDescription>
+              Coupons take a discount off the first payment for a plan, once per user
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="coupon-code">Code</Label>
+                <Input
+                  id="coupon-code"
+                  placeholder="SUMMER20"
+                  value={newCoupon.code}
+                  onChange={(e) => setNewCoupon({ ...newCoupon, code: e.target.value.toUpperCase() })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="coupon-description">Description</Label>
+                <Input
+                  id="coupon-description"
+                  placeholder="Optional"
+                  value={newCoupon.description}
+                  onChange={(e) => setNewCoupon({ ...newCoupon, description: e.target.value })}
+                />
+              </div>
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Type</Label>
+                <Select
+                  value={newCoupon.type}
+                  onValueChange={(type: 'percent' | 'fixed') => setNewCoupon({ ...newCoupon, type })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="percent">Percentage off</SelectItem>
+                    <SelectItem value="fixed">Fixed amount off</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="coupon-amount">{newCoupon.type === 'percent' ? 'Percent' : `Amount (${newCoupon.currency})`}</Label>
+                <Input
+                  id="coupon-amount"
+                  type="number"
+                  min="0"
+                  step={newCoupon.type === 'percent' ? '1' : '0.01'}
+                  value={newCoupon.amount}
+                  onChange={(e) => setNewCoupon({ ...newCoupon, amount: e.target.value })}
+                />
+              </div>
+            </div>
+            {newCoupon.type === 'fixed' && (
+              <div className="space-y-2">
+                <Label>Currency</Label>
+                <Select
+                  value={newCoupon.currency}
+                  onValueChange={(currency) => setNewCoupon({ ...newCoupon, currency })}
+                >
+                  <SelectTrigger className="w-32">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(pricing?.currencies || ['USD']).map(code => (
+                      <SelectItem key={code} value={code}>{code}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <p className="text-xs text-muted-foreground">Fixed discounts only apply to payments in this currency</p>
+              </div>
+            )}
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="coupon-max">Redemption limit</Label>
+                <Input
+                  id="coupon-max"
+                  type="number"
+                  min="1"
+                  placeholder="Unlimited"
+                  value={newCoupon.maxRedemptions}
+                  onChange={(e) => setNewCoupon({ ...newCoupon, maxRedemptions: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="coupon-expires">Expires</Label>
+                <Input
+                  id="coupon-expires"
+                  type="date"
+                  value={newCoupon.expiresAt}
+                  onChange={(e) => setNewCoupon({ ...newCoupon, expiresAt: e.target.value })}
+                />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label>Plans (none selected means every plan)</Label>
+              <div className="flex flex-wrap gap-4">
+                {paidPlans.map(plan => (
+                  <label key={plan.id} className="flex items-center gap-2 text-sm capitalize">
+                    <Switch
+                      checked={newCoupon.planNames.includes(plan.name)}
+                      onCheckedChange={(checked) => togglePlan(plan.name, checked)}
+                    />
+                    {plan.name}
+                  </label>
+                ))}
+              </div>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setCreateOpen(false)}>Cancel</Button>
+            <Button
+              onClick={() => createMutation.mutate()}
+              disabled={!newCoupon.code || !newCoupon.amount || createMutation.isPending}
+            >
+              {createMutation.isPending && <Loader2 className="h-4 w-4 mr-1 animate-spin" />}
+              Create
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
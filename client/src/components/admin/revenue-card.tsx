@@ -0,0 +1,303 @@
+import { useState } from 'react';
+import { useQuery, useMutation } from '@tanstack/react-query';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+import { formatCurrency } from '@/lib/utils';
+import { useToast } from '@/hooks/use-toast';
+import { Loader2, RefreshCw, Undo2 } from 'lucide-react';
+
+type ProviderRevenue = {
+  provider: string;
+  currency: string;
+  gross: number;
+  refunded: number;
+  net: number;
+  payments: number;
+};
+
+type RecentPayment = {
+  id: number;
+  userId: number;
+  username: string | null;
+  provider: string;
+  amount: number;
+  amountRefunded: number;
+  currency: string;
+  status: string;
+  method: string | null;
+  createdAt: string;
+  refundable: number;
+};
+
+type RevenueResponse = {
+  days: number;
+  byProvider: ProviderRevenue[];
+  daily: { date: string; currency: string; gross: number; refunded: number }[];
+  recentPayments: RecentPayment[];
+};
+
+const statusVariants: Record<string, 'default' | 'secondary' | 'destructive' | 'outline'> = {
+  succeeded: 'default',
+  failed: 'destructive',
+  partially_refunded: 'secondary',
+  refunded: 'outline',
+  disputed: 'destructive',
+};
+
+export default function RevenueCard() {
+  const { toast } = useToast();
+  const [days, setDays] = useState('30');
+  const [refundTarget, setRefundTarget] = useState<RecentPayment | null>(null);
+  const [refundAmount, setRefundAmount] = useState('');
+  const [refundReason, setRefundReason] = useState('');
+
+  const { data, isLoading, error } = useQuery<RevenueResponse>({
+    queryKey: [`/api/admin/billing/revenue?days=${days}`],
+  });
+
+  // Net revenue per currency across providers
+  const totals = new Map<string, ProviderRevenue>();
+  data?.byProvider.forEach(row => {
+    const total = totals.get(row.currency) || { ...row, provider: 'all', gross: 0, refunded: 0, net: 0, payments: 0 };
+    total.gross += row.gross;
+    total.refunded += row.refunded;
+    total.net += row.net;
+    total.payments += row.payments;
+    totals.set(row.currency, total);
+  });
+
+  const refundMutation = useMutation({
+    mutationFn: async ({ payment, amount, reason }: { payment: RecentPayment; amount: number; reason: string }) => {
+      const res = await apiRequest('POST', `/api/admin/billing/payments/${payment.id}/refund`, {
+        amount,
+        reason: reason || undefined,
+      });
+      return await res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [`/api/admin/billing/revenue?days=${days}`] });
+      setRefundTarget(null);
+      toast({
+        title: 'Refund issued',
+        description: 'The payment was refunded through its provider',
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Refund failed',
+        description: error.message,
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const openRefund = (payment: RecentPayment) => {
+    setRefundTarget(payment);
+    setRefundAmount((payment.refundable / 100).toFixed(2));
+    setRefundReason('');
+  };
+
+  const submitRefund = () => {
+    if (!refundTarget) return;
+    const amount = Math.round(parseFloat(refundAmount) * 100);
+    if (isNaN(amount) || amount <= 0 || amount > refundTarget.refundable) {
+      toast({
+        title: 'Invalid amount',
+        description: `Enter an amount up to ${formatCurrency(refundTarget.refundable, refundTarget.currency)}`,
+        variant: 'destructive',
+      });
+      return;
+    }
+    refundMutation.mutate({ payment: refundTarget, amount, reason: refundReason });
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between">
+        <div>
+          <CardTitle>Revenue</CardTitle>
+          <CardDescription>
+            Payments collected through every provider
+          </CardDescription>
+        </div>
+        <div className="flex gap-2">
+          <Select value={days} onValueChange={setDays}>
+            <SelectTrigger className="w-36">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="7">Last 7 days</SelectItem>
+              <SelectItem value="30">Last 30 days</SelectItem>
+              <SelectItem value="90">Last 90 days</SelectItem>
+              <SelectItem value="365">Last year</SelectItem>
+            </SelectContent>
+          </Select>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => queryClient.invalidateQueries({ queryKey: [`/api/admin/billing/revenue?days=${days}`] })}
+          >
+            <RefreshCw className="h-4 w-4 mr-1" />
+            Refresh
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {isLoading ? (
+          <div className="flex justify-center p-4">
+            <Loader2 className="h-6 w-6 animate-spin" />
+          </div>
+        ) : error ? (
+          <Alert variant="destructive">
+            <AlertTitle>Error</AlertTitle>
+            <AlertDescription>Failed to load revenue</AlertDescription>
+          </Alert>
+        ) : (
+          <>
+            <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3">
+              {Array.from(totals.values()).map(total => (
+                <div key={total.currency} className="rounded-lg border p-4">
+                  <p className="text-sm text-muted-foreground">Net revenue ({total.currency})</p>
+                  <p className="text-2xl font-semibold">{formatCurrency(total.net, total.currency)}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {formatCurrency(total.gross, total.currency)} gross, {formatCurrency(total.refunded, total.currency)} refunded, {total.payments} payment(s)
+                  </p>
+                </div>
+              ))}
+              {totals.size === 0 && (
+                <p className="text-sm text-muted-foreground">No payments in this period</p>
+              )}
+            </div>
+
+            {data && data.byProvider.length > 0 && (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Provider</TableHead>
+                    <TableHead>Currency</TableHead>
+                    <TableHead>Payments</TableHead>
+                    <TableHead>Gross</TableHead>
+                    <TableHead>Refunded</TableHead>
+                    <TableHead>Net</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {data.byProvider.map(row => (
+                    <TableRow key={`${row.provider}-${row.currency}`}>
+                      <TableCell className="capitalize">{row.provider}</TableCell>
+                      <TableCell>{row.currency}</TableCell>
+                      <TableCell>{row.payments}</TableCell>
+                      <TableCell>{formatCurrency(row.gross, row.currency)}</TableCell>
+                      <TableCell>{formatCurrency(row.refunded, row.currency)}</TableCell>
+                      <TableCell className="font-medium">{formatCurrency(row.net, row.currency)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+
+            <div>
+              <h3 className="text-sm font-medium mb-2">Recent payments</h3>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Date</TableHead>
+                    <TableHead>User</TableHead>
+                    <TableHead>Provider</TableHead>
+                    <TableHead>Amount</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead className="text-right">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {data?.recentPayments.map(payment => (
+                    <TableRow key={payment.id}>
+                      <TableCell>{new Date(payment.createdAt).toLocaleString()}</TableCell>
+                      <TableCell>{payment.username || `User ${payment.userId}`}</TableCell>
+                      <TableCell>
+                        <span className="capitalize">{payment.provider}</span>
+                        {payment.method && (
+                          <div className="text-xs text-muted-foreground">{payment.method}</div>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        {formatCurrency(payment.amount, payment.currency)}
+                        {payment.amountRefunded > 0 && (
+                          <div className="text-xs text-muted-foreground">
+                            {formatCurrency(payment.amountRefunded, payment.currency)} refunded
+                          </div>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant={statusVariants[payment.status] || 'outline'} className="capitalize">
+                          {payment.status.replace('_', ' ')}
+                        </Badge>
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {payment.refundable > 0 && (
+                          <Button variant="outline" size="sm" onClick={() => openRefund(payment)}>
+                            <Undo2 className="h-4 w-4 mr-1" />
+                            Refund
+                          </Button>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          </>
+        )}
+      </CardContent>
+
+      <Dialog open={!!refundTarget} onOpenChange={(open) => !open && setRefundTarget(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Refund payment</DialogTitle>
+            <DialogDescription>
+              The refund is sent through {refundTarget?.provider}. Up to{' '}
+              {refundTarget && formatCurrency(refundTarget.refundable, refundTarget.currency)} can be refunded.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="refund-amount">Amount ({refundTarget?.currency})</Label>
+              <Input
+                id="refund-amount"
+                type="number"
+                step="0.01"
+                min="0"
+                value={refundAmount}
+                onChange={(e) => setRefundAmount(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="refund-reason">Reason</Label>
+              <Input
+                id="refund-reason"
+                placeholder="Optional"
+                value={refundReason}
+                onChange={(e) => setRefundReason(e.target.value)}
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setRefundTarget(null)}>Cancel</Button>
+            <Button variant="destructive" onClick={submitRefund} disabled={refundMutation.isPending}>
+              {refundMutation.isPending && <Loader2 className="h-4 w-4 mr-1 animate-spin" />}
+              Refund
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
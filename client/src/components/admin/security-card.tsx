@@ -0,0 +1,66 @@
+import { useQuery, useMutation } from '@tanstack/react-query';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Switch } from '@/components/ui/switch';
+import { Label } from '@/components/ui/label';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+import { ShieldCheck } from 'lucide-react';
+
+interface TwoFactorPolicy {
+  requireForAdmins: boolean;
+}
+
+export default function SecurityCard() {
+  const { toast } = useToast();
+
+  const { data: policy, isLoading } = useQuery<TwoFactorPolicy>({
+    queryKey: ['/api/admin/security/two-factor'],
+  });
+
+  const policyMutation = useMutation({
+    mutationFn: async (requireForAdmins: boolean) => {
+      const response = await apiRequest('PUT', '/api/admin/security/two-factor', { requireForAdmins });
+      return response.json();
+    },
+    onSuccess: (data: TwoFactorPolicy) => {
+      queryClient.setQueryData(['/api/admin/security/two-factor'], data);
+      toast({
+        title: 'Security settings saved',
+        description: data.requireForAdmins
+          ? 'Staff without two-factor authentication can no longer use the admin panel.'
+          : 'Two-factor authentication is now optional for staff.',
+      });
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Could not save security settings', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center gap-2">
+          <ShieldCheck className="h-5 w-5 text-primary" />
+          <CardTitle>Security</CardTitle>
+        </div>
+        <CardDescription>Sign-in requirements for staff accounts</CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="flex items-center justify-between gap-4">
+          <div>
+            <Label htmlFor="require-admin-2fa">Require two-factor authentication for staff</Label>
+            <p className="text-sm text-muted-foreground">
+              Admins, support agents, billing admins and ops must turn on two-factor from their account page before they can use the admin panel.
+            </p>
+          </div>
+          <Switch
+            id="require-admin-2fa"
+            checked={!!policy?.requireForAdmins}
+            onCheckedChange={(checked) => policyMutation.mutate(checked)}
+            disabled={isLoading || policyMutation.isPending}
+          />
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
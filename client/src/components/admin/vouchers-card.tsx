@@ -0,0 +1,311 @@
+import { useState } from 'react';
+import { useQuery, useMutation } from '@tanstack/react-query';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+import { SubscriptionPlan, VoucherBatch } from '@shared/schema';
+import { Download, Eye, Loader2, Plus } from 'lucide-react';
+
+type VoucherBatchStats = Omit<VoucherBatch, 'expiresAt' | 'createdAt'> & {
+  expiresAt: string | null;
+  createdAt: string;
+  redeemedCount: number;
+};
+
+type VoucherBatchDetails = VoucherBatchStats & {
+  vouchers: {
+    id: number;
+    code: string;
+    redeemedAt: string | null;
+    redeemedBy: number | null;
+    redeemedByUsername: string | null;
+  }[];
+};
+
+const emptyBatch = {
+  name: '',
+  planName: '',
+  durationDays: '30',
+  quantity: '100',
+  note: '',
+  expiresAt: '',
+};
+
+export default function VouchersCard() {
+  const { toast } = useToast();
+  const [createOpen, setCreateOpen] = useState(false);
+  const [newBatch, setNewBatch] = useState(emptyBatch);
+  const [viewBatchId, setViewBatchId] = useState<number | null>(null);
+
+  const { data: batches, isLoading, error } = useQuery<VoucherBatchStats[]>({
+    queryKey: ['/api/admin/vouchers/batches'],
+  });
+
+  // Every plan has a USD price, so list plans in USD
+  const { data: plans } = useQuery<SubscriptionPlan[]>({
+    queryKey: ['/api/subscription-plans', 'USD'],
+    queryFn: () => fetch('/api/subscription-plans?currency=USD').then(res => res.json()),
+  });
+  const paidPlans = (plans || []).filter(plan => plan.price > 0);
+
+  const { data: batchDetails, isLoading: detailsLoading } = useQuery<VoucherBatchDetails>({
+    queryKey: ['/api/admin/vouchers/batches', viewBatchId],
+    queryFn: () => fetch(`/api/admin/vouchers/batches/${viewBatchId}`).then(res => res.json()),
+    enabled: viewBatchId !== null,
+  });
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest('POST', '/api/admin/vouchers/batches', {
+        name: newBatch.name,
+        planName: newBatch.planName,
+        durationDays: parseInt(newBatch.durationDays, 10),
+        quantity: parseInt(newBatch.quantity, 10),
+        note: newBatch.note || null,
+        expiresAt: newBatch.expiresAt ? new Date(newBatch.expiresAt).toISOString() : null,
+      });
+      return await res.json();
+    },
+    onSuccess: (batch) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/vouchers/batches'] });
+      setCreateOpen(false);
+      setNewBatch(emptyBatch);
+      toast({
+        title: 'Vouchers generated',
+        description: `${batch.quantity} codes are ready to export`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Failed to generate vouchers',
+        description: error.message,
+        variant: 'destructive',
+      });
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between">
+        <div>
+          <CardTitle>Vouchers</CardTitle>
+          <CardDescription>
+            Prepaid single-use codes for resellers to sell for cash
+          </CardDescription>
+        </div>
+        <Button size="sm" onClick={() => setCreateOpen(true)}>
+          <Plus className="h-4 w-4 mr-1" />
+          New batch
+        </Button>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex justify-center p-4">
+            <Loader2 className="h-6 w-6 animate-spin" />
+          </div>
+        ) : error ? (
+          <Alert variant="destructive">
+            <AlertTitle>Error</AlertTitle>
+            <AlertDescription>Failed to load voucher batches</AlertDescription>
+          </Alert>
+        ) : !batches || batches.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No voucher batches yet</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Batch</TableHead>
+                <TableHead>Plan</TableHead>
+                <TableHead>Redeemed</TableHead>
+                <TableHead>Expires</TableHead>
+                <TableHead>Created</TableHead>
+                <TableHead className="text-right">Codes</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {batches.map(batch => {
+                const expired = batch.expiresAt && new Date(batch.expiresAt) <= new Date();
+
+                return (
+                  <TableRow key={batch.id}>
+                    <TableCell>
+                      <div className="font-medium">{batch.name}</div>
+                      {batch.note && (
+                        <div className="text-xs text-muted-foreground">{batch.note}</div>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <span className="capitalize">{batch.planName}</span>, {batch.durationDays} days
+                    </TableCell>
+                    <TableCell>
+                      {batch.redeemedCount} / {batch.quantity}
+                    </TableCell>
+                    <TableCell>
+                      {batch.expiresAt ? new Date(batch.expiresAt).toLocaleDateString() : 'Never'}
+                      {expired && <Badge variant="outline" className="ml-2">Expired</Badge>}
+                    </TableCell>
+                    <TableCell>{new Date(batch.createdAt).toLocaleDateString()}</TableCell>
+                    <TableCell className="text-right">
+                      <div className="flex justify-end gap-1">
+                        <Button variant="ghost" size="icon" onClick={() => setViewBatchId(batch.id)} title="View codes">
+                          <Eye className="h-4 w-4" />
+                        </Button>
+                        <Button variant="ghost" size="icon" asChild title="Export CSV">
+                          <a href={`/api/admin/vouchers/batches/${batch.id}/export`}>
+                            <Download className="h-4 w-4" />
+                          </a>
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+
+      <Dialog open={createOpen} onOpenChange={setCreateOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>New voucher batch</DialogTitle>
+            <DialogDescription>
+              Each code gives one user the plan for the number of days, and can only be used once
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="batch-name">Name</Label>
+              <Input
+                id="batch-name"
+                placeholder="Premium 30 days, Lagos"
+                value={newBatch.name}
+                onChange={(e) => setNewBatch({ ...newBatch, name: e.target.value })}
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Plan</Label>
+                <Select value={newBatch.planName} onValueChange={(planName) => setNewBatch({ ...newBatch, planName })}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select plan" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {paidPlans.map(plan => (
+                      <SelectItem key={plan.id} value={plan.name} className="capitalize">{plan.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="batch-days">Days per code</Label>
+                <Input
+                  id="batch-days"
+                  type="number"
+                  min="1"
+                  max="366"
+                  value={newBatch.durationDays}
+                  onChange={(e) => setNewBatch({ ...newBatch, durationDays: e.target.value })}
+                />
+              </div>
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="batch-quantity">Number of codes</Label>
+                <Input
+                  id="batch-quantity"
+                  type="number"
+                  min="1"
+                  max="5000"
+                  value={newBatch.quantity}
+                  onChange={(e) => setNewBatch({ ...newBatch, quantity: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="batch-expires">Redeem by</Label>
+                <Input
+                  id="batch-expires"
+                  type="date"
+                  value={newBatch.expiresAt}
+                  onChange={(e) => setNewBatch({ ...newBatch, expiresAt: e.target.value })}
+                />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="batch-note">Reseller</Label>
+              <Input
+                id="batch-note"
+                placeholder="Optional"
+                value={newBatch.note}
+                onChange={(e) => setNewBatch({ ...newBatch, note: e.target.value })}
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setCreateOpen(false)}>Cancel</Button>
+            <Button
+              onClick={() => createMutation.mutate()}
+              disabled={!newBatch.name || !newBatch.planName || !newBatch.durationDays || !newBatch.quantity || createMutation.isPending}
+            >
+              {createMutation.isPending && <Loader2 className="h-4 w-4 mr-1 animate-spin" />}
+              Generate
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={viewBatchId !== null} onOpenChange={(open) => !open && setViewBatchId(null)}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>{batchDetails?.name || 'Voucher batch'}</DialogTitle>
+            <DialogDescription>
+              {batchDetails
+                ? `${batchDetails.redeemedCount} of ${batchDetails.quantity} codes redeemed`
+                : 'Loading codes'}
+            </DialogDescription>
+          </DialogHeader>
+          {detailsLoading || !batchDetails ? (
+            <div className="flex justify-center p-4">
+              <Loader2 className="h-6 w-6 animate-spin" />
+            </div>
+          ) : (
+            <div className="max-h-96 overflow-y-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Code</TableHead>
+                    <TableHead>Redeemed by</TableHead>
+                    <TableHead>Redeemed</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {batchDetails.vouchers.map(voucher => (
+                    <TableRow key={voucher.id}>
+                      <TableCell className="font-mono">{voucher.code}</TableCell>
+                      <TableCell>
+                        {voucher.redeemedAt
+                          ? voucher.redeemedByUsername || `User ${voucher.redeemedBy}`
+                          : <Badge variant="secondary">Unused</Badge>}
+                      </TableCell>
+                      <TableCell>
+                        {voucher.redeemedAt ? new Date(voucher.redeemedAt).toLocaleString() : ''}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -0,0 +1,103 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { InputOTP, InputOTPGroup, InputOTPSlot } from '@/components/ui/input-otp';
+import { Loader2, ShieldCheck } from 'lucide-react';
+import { useAuth } from '@/hooks/use-auth';
+
+const CODE_LENGTH = 6;
+
+/**
+ * The second sign-in step for users with two-factor on, taking a code from
+ * their authenticator app or one of their recovery codes
+ */
+export default function TwoFactorStep({ onCancel }: { onCancel: () => void }) {
+  const { verifyTwoFactorMutation } = useAuth();
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+  const [code, setCode] = useState('');
+  const [recoveryCode, setRecoveryCode] = useState('');
+
+  const submit = (value: string) => {
+    verifyTwoFactorMutation.mutate(value, {
+      onError: (error) => {
+        setCode('');
+        // The server drops the pending sign-in after too many wrong codes or when it times out
+        if (error.message.startsWith('401')) {
+          onCancel();
+        }
+      },
+    });
+  };
+
+  return (
+    <form
+      className="space-y-4"
+      onSubmit={(e) => {
+        e.preventDefault();
+        submit(useRecoveryCode ? recoveryCode.trim() : code);
+      }}
+    >
+      <div className="flex items-center gap-2">
+        <ShieldCheck className="h-5 w-5 text-primary" />
+        <h3 className="font-medium">Two-factor authentication</h3>
+      </div>
+
+      {useRecoveryCode ? (
+        <div className="space-y-2">
+          <Label htmlFor="recovery-code">Recovery code</Label>
+          <Input
+            id="recovery-code"
+            placeholder="xxxxx-xxxxx"
+            autoComplete="off"
+            value={recoveryCode}
+            onChange={(e) => setRecoveryCode(e.target.value)}
+          />
+          <p className="text-xs text-muted-foreground">Each recovery code can only be used once.</p>
+        </div>
+      ) : (
+        <div className="space-y-2">
+          <Label>Enter the code from your authenticator app</Label>
+          <InputOTP
+            maxLength={CODE_LENGTH}
+            value={code}
+            onChange={setCode}
+            onComplete={submit}
+            autoFocus
+          >
+            <InputOTPGroup>
+              {Array.from({ length: CODE_LENGTH }).map((_, index) => (
+                <InputOTPSlot key={index} index={index} />
+              ))}
+            </InputOTPGroup>
+          </InputOTP>
+        </div>
+      )}
+
+      <Button
+        type="submit"
+        className="w-full"
+        disabled={
+          verifyTwoFactorMutation.isPending ||
+          (useRecoveryCode ? !recoveryCode.trim() : code.length < CODE_LENGTH)
+        }
+      >
+        {verifyTwoFactorMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+        Verify
+      </Button>
+
+      <div className="flex justify-between text-sm">
+        <button
+          type="button"
+          className="text-muted-foreground hover:text-primary"
+          onClick={() => setUseRecoveryCode(!useRecoveryCode)}
+        >
+          {useRecoveryCode ? 'Use authenticator app' : 'Use a recovery code'}
+        </button>
+        <button type="button" className="text-muted-foreground hover:text-primary" onClick={onCancel}>
+          Back to sign in
+        </button>
+      </div>
+    </form>
+  );
+}
@@ -1,5 +1,6 @@
 import { Bell, Shield, User, CreditCard, HelpCircle, LogOut, Settings, Lock } from 'lucide-react';
 import { useAuth } from '@/hooks/use-auth';
+import { isStaffRole } from '@shared/schema';
 import { Button } from '@/components/ui/button';
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger, DropdownMenuSeparator } from '@/components/ui/dropdown-menu';
 import { Link, useLocation } from 'wouter';
@@ -91,7 +92,7 @@ export default function Header({ username }: HeaderProps) {
                   </DropdownMenuItem>
                 </Link>
                 
-                {user?.id === 1 && (
+                {isStaffRole(user?.role) && (
                   <>
                     <DropdownMenuSeparator />
                     <Link to="/admin">
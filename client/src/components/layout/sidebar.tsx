@@ -1,5 +1,6 @@
 import { Link, useLocation } from 'wouter';
 import { useAuth } from '@/hooks/use-auth';
+import { isStaffRole } from '@shared/schema';
 import { 
   LayoutDashboard, 
   Map, 
@@ -8,7 +9,8 @@ import {
   HeadphonesIcon,
   Shield,
   CreditCard,
-  Lock
+  Lock,
+  Users
 } from 'lucide-react';
 import { Progress } from '@/components/ui/progress';
 import { Button } from '@/components/ui/button';
@@ -91,6 +93,16 @@ export default function Sidebar() {
             <span>Subscription</span>
           </div>
         </Link>
+        <Link to="/organization">
+          <div className={`flex items-center px-4 py-3 rounded-lg ${
+            isActive('/organization') 
+              ? 'bg-primary-900 text-white' 
+              : 'text-gray-400 hover:bg-gray-800 hover:text-white'
+          } transition-colors cursor-pointer`}>
+            <Users className="mr-3 h-5 w-5" />
+            <span>Organization</span>
+          </div>
+        </Link>
         <Link to="/support">
           <div className={`flex items-center px-4 py-3 rounded-lg ${
             isActive('/support') 
@@ -102,8 +114,8 @@ export default function Sidebar() {
           </div>
         </Link>
         
-        {/* Admin link - only visible to admin user */}
-        {user?.id === 1 && (
+        {/* Admin link - only visible to staff */}
+        {isStaffRole(user?.role) && (
           <Link to="/admin">
             <div className={`flex items-center px-4 py-3 rounded-lg ${
               isActive('/admin') 
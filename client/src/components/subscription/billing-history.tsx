@@ -0,0 +1,140 @@
+import { useQuery } from '@tanstack/react-query';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { formatCurrency } from '@/lib/utils';
+import { Download, ExternalLink, Loader2 } from 'lucide-react';
+
+type BillingRefund = {
+  id: number;
+  amount: number;
+  currency: string;
+  reason: string | null;
+  createdAt: string;
+};
+
+type BillingPayment = {
+  id: number;
+  provider: string;
+  amount: number;
+  amountRefunded: number;
+  currency: string;
+  status: 'succeeded' | 'failed' | 'partially_refunded' | 'refunded' | 'disputed';
+  method: string | null;
+  failureReason: string | null;
+  createdAt: string;
+  refunds: BillingRefund[];
+};
+
+type BillingInvoice = {
+  id: number;
+  provider: string;
+  planName: string | null;
+  description: string;
+  amount: number;
+  currency: string;
+  status: 'open' | 'paid' | 'refunded' | 'void';
+  periodStart: string | null;
+  periodEnd: string | null;
+  createdAt: string;
+  paidAt: string | null;
+  payments: BillingPayment[];
+};
+
+const statusVariants: Record<BillingInvoice['status'], 'default' | 'secondary' | 'destructive' | 'outline'> = {
+  paid: 'default',
+  open: 'secondary',
+  refunded: 'outline',
+  void: 'outline',
+};
+
+export default function BillingHistory() {
+  const { data, isLoading, error } = useQuery<{ invoices: BillingInvoice[] }>({
+    queryKey: ['/api/billing/history'],
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Billing History</CardTitle>
+        <CardDescription>Your invoices, payments and refunds</CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex justify-center p-4">
+            <Loader2 className="h-6 w-6 animate-spin" />
+          </div>
+        ) : error ? (
+          <p className="text-sm text-destructive">Failed to load billing history</p>
+        ) : !data || data.invoices.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No payments yet</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Date</TableHead>
+                <TableHead>Description</TableHead>
+                <TableHead>Amount</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead className="text-right">Receipt</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {data.invoices.map((invoice) => {
+                const refunded = invoice.payments.reduce((total, payment) => total + payment.amountRefunded, 0);
+                const failedPayment = invoice.status === 'open'
+                  ? invoice.payments.find(payment => payment.status === 'failed')
+                  : undefined;
+
+                return (
+                  <TableRow key={invoice.id}>
+                    <TableCell>{new Date(invoice.createdAt).toLocaleDateString()}</TableCell>
+                    <TableCell>
+                      <div className="capitalize">{invoice.description}</div>
+                      {invoice.periodStart && invoice.periodEnd && (
+                        <div className="text-xs text-muted-foreground">
+                          {new Date(invoice.periodStart).toLocaleDateString()} &ndash; {new Date(invoice.periodEnd).toLocaleDateString()}
+                        </div>
+                      )}
+                      {failedPayment?.failureReason && (
+                        <div className="text-xs text-destructive">{failedPayment.failureReason}</div>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      {formatCurrency(invoice.amount, invoice.currency)}
+                      {refunded > 0 && (
+                        <div className="text-xs text-muted-foreground">
+                          {formatCurrency(refunded, invoice.currency)} refunded
+                        </div>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant={statusVariants[invoice.status]} className="capitalize">
+                        {invoice.status}
+                      </Badge>
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <div className="flex justify-end gap-1">
+                        <Button variant="ghost" size="icon" asChild title="View receipt">
+                          <a href={`/api/billing/receipts/${invoice.id}`} target="_blank" rel="noopener noreferrer">
+                            <ExternalLink className="h-4 w-4" />
+                          </a>
+                        </Button>
+                        <Button variant="ghost" size="icon" asChild title="Download receipt">
+                          <a href={`/api/billing/receipts/${invoice.id}?download=1`}>
+                            <Download className="h-4 w-4" />
+                          </a>
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,66 @@
+import { useMutation } from '@tanstack/react-query';
+import { Link } from 'wouter';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Button } from '@/components/ui/button';
+import { Loader2, MailWarning } from 'lucide-react';
+import { useAuth } from '@/hooks/use-auth';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest } from '@/lib/queryClient';
+
+/**
+ * Tells users without a verified email address that they need one to pay, with
+ * a button to send the verification link again
+ */
+export default function EmailVerificationAlert() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+
+  const resendMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', '/api/verify-email/resend');
+      return response.json();
+    },
+    onSuccess: (data) => {
+      toast({
+        title: 'Verification email sent',
+        description: `Check ${data.email || 'your inbox'} for the link.`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Could not send verification email',
+        description: error.message,
+        variant: 'destructive',
+      });
+    },
+  });
+
+  if (!user || user.emailVerifiedAt) {
+    return null;
+  }
+
+  return (
+    <Alert>
+      <MailWarning className="h-4 w-4" />
+      <AlertTitle>Verify your email address to subscribe</AlertTitle>
+      <AlertDescription className="flex flex-wrap items-center justify-between gap-2">
+        {user.email ? (
+          <>
+            <span>We sent a verification link to <strong>{user.email}</strong>. Paid plans unlock once it's confirmed.</span>
+            <Button size="sm" variant="outline" onClick={() => resendMutation.mutate()} disabled={resendMutation.isPending}>
+              {resendMutation.isPending && <Loader2 className="h-4 w-4 mr-1 animate-spin" />}
+              Resend link
+            </Button>
+          </>
+        ) : (
+          <>
+            <span>Add an email address to your account before choosing a paid plan.</span>
+            <Button size="sm" variant="outline" asChild>
+              <Link href="/account">Add email</Link>
+            </Button>
+          </>
+        )}
+      </AlertDescription>
+    </Alert>
+  );
+}
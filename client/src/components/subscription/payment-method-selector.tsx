@@ -1,59 +1,68 @@
 import { Card, CardContent } from '@/components/ui/card';
 import { Label } from '@/components/ui/label';
 import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
-import { CreditCard, Globe } from 'lucide-react';
+import { CreditCard, Globe, Smartphone } from 'lucide-react';
 
-export type PaymentMethod = 'stripe' | 'paystack';
+export type PaymentMethod = 'stripe' | 'paystack' | 'flutterwave';
+
+const PAYMENT_METHODS = [
+  {
+    value: 'stripe' as const,
+    name: 'Stripe',
+    description: 'Credit/Debit Cards, Apple Pay, Google Pay',
+    icon: CreditCard
+  },
+  {
+    value: 'paystack' as const,
+    name: 'Paystack',
+    description: 'Local payment methods, Bank transfers, Mobile money',
+    icon: Globe
+  },
+  {
+    value: 'flutterwave' as const,
+    name: 'Flutterwave',
+    description: 'Cards, Mobile money, USSD across Africa',
+    icon: Smartphone
+  }
+];
 
 interface PaymentMethodSelectorProps {
   selectedMethod: PaymentMethod;
   onChange: (method: PaymentMethod) => void;
+  methods?: PaymentMethod[]; // Defaults to every method
 }
 
-export function PaymentMethodSelector({ selectedMethod, onChange }: PaymentMethodSelectorProps) {
+export function PaymentMethodSelector({ selectedMethod, onChange, methods }: PaymentMethodSelectorProps) {
+  const options = PAYMENT_METHODS.filter(method => !methods || methods.includes(method.value));
+
   return (
     <Card className="w-full">
       <CardContent className="p-3 sm:p-4 pt-4 sm:pt-6">
         <RadioGroup
           value={selectedMethod}
           onValueChange={(value) => onChange(value as PaymentMethod)}
-          className="grid grid-cols-1 sm:grid-cols-2 gap-3 sm:gap-4"
+          className={`grid grid-cols-1 ${options.length > 2 ? 'sm:grid-cols-3' : 'sm:grid-cols-2'} gap-3 sm:gap-4`}
         >
-          <div>
-            <div className={`flex flex-col items-center justify-between rounded-md border-2 p-3 sm:p-4 ${
-              selectedMethod === 'stripe' 
-                ? 'border-primary bg-primary/10' 
-                : 'border-muted bg-transparent hover:bg-muted/50'
-            }`}>
-              <RadioGroupItem value="stripe" id="stripe" className="sr-only" />
-              <Label htmlFor="stripe" className="flex flex-col items-center justify-center gap-1 sm:gap-2 w-full cursor-pointer">
-                <CreditCard className="h-5 w-5 sm:h-6 sm:w-6 mb-1" />
-                <div className="font-semibold text-sm sm:text-base">Stripe</div>
-                <div className="text-xs text-muted-foreground text-center">
-                  Credit/Debit Cards, Apple Pay, Google Pay
-                </div>
-              </Label>
+          {options.map(({ value, name, description, icon: Icon }) => (
+            <div key={value}>
+              <div className={`flex flex-col items-center justify-between rounded-md border-2 p-3 sm:p-4 ${
+                selectedMethod === value
+                  ? 'border-primary bg-primary/10'
+                  : 'border-muted bg-transparent hover:bg-muted/50'
+              }`}>
+                <RadioGroupItem value={value} id={value} className="sr-only" />
+                <Label htmlFor={value} className="flex flex-col items-center justify-center gap-1 sm:gap-2 w-full cursor-pointer">
+                  <Icon className="h-5 w-5 sm:h-6 sm:w-6 mb-1" />
+                  <div className="font-semibold text-sm sm:text-base">{name}</div>
+                  <div className="text-xs text-muted-foreground text-center">
+                    {description}
+                  </div>
+                </Label>
+              </div>
             </div>
-          </div>
-
-          <div>
-            <div className={`flex flex-col items-center justify-between rounded-md border-2 p-3 sm:p-4 ${
-              selectedMethod === 'paystack' 
-                ? 'border-primary bg-primary/10' 
-                : 'border-muted bg-transparent hover:bg-muted/50'
-            }`}>
-              <RadioGroupItem value="paystack" id="paystack" className="sr-only" />
-              <Label htmlFor="paystack" className="flex flex-col items-center justify-center gap-1 sm:gap-2 w-full cursor-pointer">
-                <Globe className="h-5 w-5 sm:h-6 sm:w-6 mb-1" />
-                <div className="font-semibold text-sm sm:text-base">Paystack</div>
-                <div className="text-xs text-muted-foreground text-center">
-                  Local payment methods, Bank transfers, Mobile money
-                </div>
-              </Label>
-            </div>
-          </div>
+          ))}
         </RadioGroup>
       </CardContent>
     </Card>
   );
-}
\ No newline at end of file
+}
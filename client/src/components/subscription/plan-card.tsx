@@ -3,7 +3,8 @@ import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle }
 import { Button } from '@/components/ui/button';
 import { CheckCircle2, ShieldCheck, Zap, Globe } from 'lucide-react';
 import { Badge } from '@/components/ui/badge';
-import { SubscriptionPlan } from '@shared/schema';
+import { LocalizedSubscriptionPlan, PlanFeature } from '@shared/schema';
+import { formatCurrency } from '@/lib/utils';
 
 // Helper function to get a consistent value badge for each plan
 const getPlanValueBadge = (planName: string): string => {
@@ -48,20 +49,20 @@ const formatDataLimit = (bytes: number): string => {
 };
 
 interface PlanCardProps {
-  plan: SubscriptionPlan;
+  plan: LocalizedSubscriptionPlan;
   isCurrentPlan: boolean;
-  onSelect: (plan: SubscriptionPlan) => void;
+  onSelect: (plan: LocalizedSubscriptionPlan) => void;
   className?: string;
 }
 
 export default function PlanCard({ plan, isCurrentPlan, onSelect, className = '' }: PlanCardProps) {
-  // Format price for display
-  const formattedPrice = (plan.price / 100).toFixed(2);
+  // Format price for display in the plan's currency
+  const formattedPrice = formatCurrency(plan.displayPrice, plan.currency);
 
-  // Get feature list from the plan features string or build it
-  const getFeatureList = () => {
-    if (plan.features) {
-      return plan.features.split(',').map(f => f.trim());
+  // Get feature list from the plan's features or build it
+  const getFeatureList = (): PlanFeature[] => {
+    if (plan.features && plan.features.length > 0) {
+      return plan.features;
     }
     
     // Core features always displayed first with value proposition
@@ -107,7 +108,7 @@ export default function PlanCard({ plan, isCurrentPlan, onSelect, className = ''
         break;
     }
     
-    return features;
+    return features.map(label => ({ label }));
   };
 
   // Get the right variant based on the plan
@@ -184,7 +185,7 @@ export default function PlanCard({ plan, isCurrentPlan, onSelect, className = ''
           {plan.name.charAt(0).toUpperCase() + plan.name.slice(1)}
         </CardTitle>
         <div className="text-center">
-          <span className="text-2xl sm:text-3xl font-bold">${formattedPrice}</span>
+          <span className="text-2xl sm:text-3xl font-bold">{formattedPrice}</span>
           <span className="text-gray-400">/month</span>
         </div>
         <CardDescription className="text-center text-gray-400 mt-1 sm:mt-2 pb-1 sm:pb-2 text-xs sm:text-sm">
@@ -209,7 +210,7 @@ export default function PlanCard({ plan, isCurrentPlan, onSelect, className = ''
             {features.slice(0, 3).map((feature, index) => (
               <li key={index} className="flex items-start">
                 <CheckCircle2 className="h-4 w-4 sm:h-5 sm:w-5 mr-1.5 sm:mr-2 text-green-500 flex-shrink-0 mt-0.5" />
-                <span className="text-xs sm:text-sm text-gray-300">{feature}</span>
+                <span className={`text-xs sm:text-sm ${feature.highlighted ? 'font-semibold text-white' : 'text-gray-300'}`}>{feature.label}</span>
               </li>
             ))}
           </ul>
@@ -225,7 +226,7 @@ export default function PlanCard({ plan, isCurrentPlan, onSelect, className = ''
               {features.slice(3).map((feature, index) => (
                 <li key={index} className="flex items-start">
                   <CheckCircle2 className="h-4 w-4 sm:h-5 sm:w-5 mr-1.5 sm:mr-2 text-green-500 flex-shrink-0 mt-0.5" />
-                  <span className="text-xs sm:text-sm text-gray-300">{feature}</span>
+                  <span className={`text-xs sm:text-sm ${feature.highlighted ? 'font-semibold text-white' : 'text-gray-300'}`}>{feature.label}</span>
                 </li>
               ))}
             </ul>
@@ -0,0 +1,123 @@
+import { useQuery, useMutation } from '@tanstack/react-query';
+import { Button } from '@/components/ui/button';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+import { formatCurrency } from '@/lib/utils';
+import { useToast } from '@/hooks/use-toast';
+import { Loader2 } from 'lucide-react';
+
+type PlanChangePreview = {
+  type: 'upgrade' | 'downgrade';
+  provider: 'stripe' | 'paystack';
+  currentPlan: string;
+  newPlan: string;
+  amountDue: number;
+  currency: string;
+  effectiveAt: string;
+  periodEnd: string;
+};
+
+interface PlanChangeDialogProps {
+  planName: string | null;
+  onClose: () => void;
+}
+
+export default function PlanChangeDialog({ planName, onClose }: PlanChangeDialogProps) {
+  const { toast } = useToast();
+
+  const { data: preview, isLoading, error } = useQuery<PlanChangePreview>({
+    queryKey: ['/api/subscription/change/preview', planName],
+    queryFn: async () => {
+      const res = await apiRequest('POST', '/api/subscription/change/preview', { planName });
+      return await res.json();
+    },
+    enabled: !!planName,
+    staleTime: 0,
+    gcTime: 0,
+  });
+
+  const changeMutation = useMutation({
+    mutationFn: async (preview: PlanChangePreview) => {
+      const res = await apiRequest('POST', '/api/subscription/change', {
+        planName: preview.newPlan,
+      });
+      return await res.json();
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/subscription'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/user'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/billing/history'] });
+      toast({
+        title: 'Subscription Updated',
+        description: data.message,
+      });
+      onClose();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Plan change failed',
+        description: error.message,
+        variant: 'destructive',
+      });
+    },
+  });
+
+  return (
+    <Dialog open={!!planName} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>
+            {preview?.type === 'downgrade' ? 'Downgrade' : 'Change'} to the <span className="capitalize">{planName}</span> plan
+          </DialogTitle>
+          <DialogDescription>Review the change before confirming it</DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="flex justify-center p-4">
+            <Loader2 className="h-6 w-6 animate-spin" />
+          </div>
+        ) : error ? (
+          <Alert variant="destructive">
+            <AlertDescription>{(error as Error).message}</AlertDescription>
+          </Alert>
+        ) : preview && (
+          preview.type === 'upgrade' ? (
+            <div className="space-y-2 text-sm">
+              <p>
+                Your plan changes from <strong className="capitalize">{preview.currentPlan}</strong> to{' '}
+                <strong className="capitalize">{preview.newPlan}</strong> straight away.
+              </p>
+              <p>
+                You'll be charged <strong>{formatCurrency(preview.amountDue, preview.currency)}</strong> now for the rest
+                of the current period, which ends on {new Date(preview.periodEnd).toLocaleDateString()}.
+              </p>
+            </div>
+          ) : (
+            <div className="space-y-2 text-sm">
+              <p>
+                You'll keep the <strong className="capitalize">{preview.currentPlan}</strong> plan until{' '}
+                {new Date(preview.effectiveAt).toLocaleDateString()}, then move to{' '}
+                <strong className="capitalize">{preview.newPlan}</strong>.
+              </p>
+              <p>Nothing is charged now. You can cancel the change any time before then.</p>
+            </div>
+          )
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>Cancel</Button>
+          <Button
+            onClick={() => preview && changeMutation.mutate(preview)}
+            disabled={!preview || changeMutation.isPending}
+          >
+            {changeMutation.isPending && <Loader2 className="h-4 w-4 mr-1 animate-spin" />}
+            {preview?.type === 'upgrade' && preview.amountDue > 0
+              ? `Pay ${formatCurrency(preview.amountDue, preview.currency)}`
+              : 'Confirm'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
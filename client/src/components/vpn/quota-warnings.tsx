@@ -0,0 +1,96 @@
+import { useEffect } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { Link } from 'wouter';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Button } from '@/components/ui/button';
+import { useToast } from '@/hooks/use-toast';
+import { formatBytes } from '@/lib/utils';
+import { AlertTriangle } from 'lucide-react';
+
+type QuotaWarning = {
+  id: string;
+  resource: 'data' | 'time';
+  threshold: number;
+  used: number;
+  limit: number;
+  percent: number;
+  createdAt: string;
+};
+
+type QuotaResponse = {
+  usage: {
+    dataPercent: number | null;
+    timePercent: number | null;
+    isDataLimitReached: boolean;
+    isTimeLimitReached: boolean;
+  };
+  warnings: QuotaWarning[];
+};
+
+const SEEN_WARNINGS_KEY = 'quota_warnings_seen';
+
+const describeWarning = (warning: QuotaWarning) => {
+  const amount = warning.resource === 'data'
+    ? `${formatBytes(warning.used)} of ${formatBytes(warning.limit)} today`
+    : `${warning.used} of ${warning.limit} minutes today`;
+
+  if (warning.threshold >= 100) {
+    return {
+      title: warning.resource === 'data' ? 'Data limit reached' : 'Daily time limit reached',
+      description: `You've used ${amount}, so your VPN connections were closed.`,
+    };
+  }
+
+  return {
+    title: `${warning.threshold}% of your ${warning.resource === 'data' ? 'data' : 'daily time'} used`,
+    description: `You've used ${amount}. You'll be disconnected when you reach your limit.`,
+  };
+};
+
+export default function QuotaWarnings() {
+  const { toast } = useToast();
+
+  const { data } = useQuery<QuotaResponse>({
+    queryKey: ['/api/quota'],
+    refetchInterval: 60000,
+  });
+
+  const latestWarning = data?.warnings[0];
+
+  // Toast each warning once per browser session
+  useEffect(() => {
+    if (!data) return;
+
+    const seen: string[] = JSON.parse(sessionStorage.getItem(SEEN_WARNINGS_KEY) || '[]');
+    const unseen = data.warnings.filter(warning => !seen.includes(warning.id));
+    if (unseen.length === 0) return;
+
+    const { title, description } = describeWarning(unseen[0]);
+    toast({
+      title,
+      description,
+      variant: unseen[0].threshold >= 95 ? 'destructive' : 'default',
+    });
+
+    sessionStorage.setItem(SEEN_WARNINGS_KEY, JSON.stringify([...seen, ...unseen.map(warning => warning.id)]));
+  }, [data, toast]);
+
+  if (!latestWarning) {
+    return null;
+  }
+
+  const { title, description } = describeWarning(latestWarning);
+
+  return (
+    <Alert variant={latestWarning.threshold >= 95 ? 'destructive' : 'default'}>
+      <AlertTriangle className="h-4 w-4" />
+      <AlertTitle>{title}</AlertTitle>
+      <AlertDescription className="flex flex-col sm:flex-row sm:items-center justify-between gap-2">
+        <span>{description}</span>
+        <Link href="/subscription">
+          <Button size="sm" variant="outline">Upgrade plan</Button>
+        </Link>
+      </AlertDescription>
+    </Alert>
+  );
+}
@@ -14,13 +14,17 @@ type AuthContextType = {
   user: SelectUser | null;
   isLoading: boolean;
   error: Error | null;
-  loginMutation: UseMutationResult<SelectUser, Error, LoginData>;
+  loginMutation: UseMutationResult<LoginResult, Error, LoginData>;
+  verifyTwoFactorMutation: UseMutationResult<SelectUser, Error, string>;
   logoutMutation: UseMutationResult<void, Error, void>;
-  registerMutation: UseMutationResult<SelectUser, Error, InsertUser>;
+  registerMutation: UseMutationResult<SelectUser, Error, InsertUser & { referralCode?: string }>;
 };
 
 type LoginData = Pick<InsertUser, "username" | "password">;
 
+// Users with two-factor on get a second step instead of a session
+type LoginResult = SelectUser | { twoFactorRequired: true };
+
 export const AuthContext = createContext<AuthContextType | null>(null);
 export function AuthProvider({ children }: { children: ReactNode }) {
   const { toast } = useToast();
@@ -68,6 +72,30 @@ export function AuthProvider({ children }: { children: ReactNode }) {
       const res = await apiRequest("POST", "/api/login", credentials);
       return await res.json();
     },
+    onSuccess: (result: LoginResult) => {
+      if ("twoFactorRequired" in result) {
+        return;
+      }
+      queryClient.setQueryData(["/api/user"], result);
+      toast({
+        title: "Login successful",
+        description: `Welcome back, ${result.username}!`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Login failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const verifyTwoFactorMutation = useMutation({
+    mutationFn: async (code: string) => {
+      const res = await apiRequest("POST", "/api/login/two-factor", { code });
+      return await res.json();
+    },
     onSuccess: (user: SelectUser) => {
       queryClient.setQueryData(["/api/user"], user);
       toast({
@@ -77,7 +105,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     },
     onError: (error: Error) => {
       toast({
-        title: "Login failed",
+        title: "Verification failed",
         description: error.message,
         variant: "destructive",
       });
@@ -85,7 +113,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
   });
 
   const registerMutation = useMutation({
-    mutationFn: async (credentials: InsertUser) => {
+    mutationFn: async (credentials: InsertUser & { referralCode?: string }) => {
       const res = await apiRequest("POST", "/api/register", credentials);
       return await res.json();
     },
@@ -132,6 +160,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
         isLoading,
         error,
         loginMutation,
+        verifyTwoFactorMutation,
         logoutMutation,
         registerMutation,
       }}
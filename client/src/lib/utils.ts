@@ -45,3 +45,28 @@ export function formatDuration(durationMs: number): string {
   
   return `${hoursStr}:${minutesStr}:${secondsStr}`;
 }
+
+// Locale each billing currency is formatted in, so prices read the same everywhere
+const CURRENCY_LOCALES: Record<string, string> = {
+  USD: 'en-US',
+  NGN: 'en-NG',
+  GHS: 'en-GH',
+  ZAR: 'en-ZA',
+  EUR: 'en-IE',
+};
+
+/**
+ * Formats an amount in a currency's smallest unit (e.g. cents, kobo) as money
+ * @param amount The amount in the currency's smallest unit
+ * @param currency The ISO currency code
+ * @returns A localized currency string such as "$9.99" or "₦7,500.00"
+ */
+export function formatCurrency(amount: number, currency = 'USD'): string {
+  const code = currency.toUpperCase();
+  try {
+    return new Intl.NumberFormat(CURRENCY_LOCALES[code], { style: 'currency', currency: code }).format(amount / 100);
+  } catch {
+    // Unknown currency codes throw, so fall back to a plain amount
+    return `${(amount / 100).toFixed(2)} ${currency}`;
+  }
+}
@@ -56,11 +56,6 @@ export type VpnStateContextType = VpnConnectionState & {
   attemptConnectionRecovery: (serverId: number) => Promise<boolean | undefined>;
 };
 
-// Generate a random IP for the virtual IP - this is for UI display only
-const generateRandomIp = () => {
-  return `198.51.${Math.floor(Math.random() * 255)}.${Math.floor(Math.random() * 255)}`;
-};
-
 // Create the VPN state context with default values
 export const VpnStateContext = createContext<VpnStateContextType>({
   connected: false,
@@ -74,7 +69,7 @@ export const VpnStateContext = createContext<VpnStateContextType>({
   antiCensorship: false,
   selectedServer: null,
   availableServers: [],
-  virtualIp: generateRandomIp(),
+  virtualIp: '',
   // User subscription level
   subscription: 'free',
   // New settings
@@ -121,7 +116,7 @@ export const VpnStateProvider = ({ children }: { children: React.ReactNode }) =>
     antiCensorship: false,
     selectedServer: null,
     availableServers: [],
-    virtualIp: generateRandomIp(),
+    virtualIp: '',
     // User subscription level
     subscription: 'free',
     // New settings with defaults
@@ -548,11 +543,27 @@ export const VpnStateProvider = ({ children }: { children: React.ReactNode }) =>
               variant: "destructive",
             });
           }
+
+          if (errorData.reason === "DATA_LIMIT_REACHED" || errorData.reason === "TIME_LIMIT_REACHED") {
+            toast({
+              title: errorData.reason === "DATA_LIMIT_REACHED" ? "Data limit reached" : "Daily time limit reached",
+              description: errorData.message,
+              variant: "destructive",
+            });
+          }
+
+          if (errorData.reason === "DEVICE_LIMIT_REACHED") {
+            toast({
+              title: "Device limit reached",
+              description: errorData.message,
+              variant: "destructive",
+            });
+          }
         } catch (e) {
           // If it's not valid JSON, use the raw text
           console.error("Error response not in JSON format:", errorResponse);
         }
-        
+
         console.error("Error starting VPN session:", errorResponse);
         throw new Error(errorMessage);
       }
@@ -568,7 +579,7 @@ export const VpnStateProvider = ({ children }: { children: React.ReactNode }) =>
         ...currentState,
         connected: true,
         connectTime: new Date(sessionData.startTime),
-        virtualIp: sessionData.virtualIp,
+        virtualIp: sessionData.virtualIp || '',
         protocol: sessionData.protocol || options.protocol,
         encryption: sessionData.encryption || options.encryption,
       }));
@@ -1535,7 +1546,7 @@ export const VpnStateProvider = ({ children }: { children: React.ReactNode }) =>
           ...currentState,
           connected: true,
           connectTime: new Date(newSessionData.startTime),
-          virtualIp: newSessionData.virtualIp,
+          virtualIp: newSessionData.virtualIp || '',
           selectedServer: targetServer
         }));
         
@@ -1583,7 +1594,7 @@ export const VpnStateProvider = ({ children }: { children: React.ReactNode }) =>
         ...currentState,
         connected: true,
         connectTime: new Date(newSessionData.startTime),
-        virtualIp: newSessionData.virtualIp,
+        virtualIp: newSessionData.virtualIp || '',
       }));
       
       return newSessionData;
@@ -10,7 +10,15 @@ import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, For
 import { Input } from '@/components/ui/input';
 import { Button } from '@/components/ui/button';
 import { useToast } from '@/hooks/use-toast';
-import { Loader2, Save } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+import { Loader2, Save, Copy, Gift } from 'lucide-react';
+import { formatCurrency } from '@/lib/utils';
+import TwoFactorCard from '@/components/account/two-factor-card';
+import ApiTokensCard from '@/components/account/api-tokens-card';
+import AccountDataCard from '@/components/account/account-data-card';
+import ChangePasswordCard from '@/components/account/change-password-card';
+import LoginSessionsCard from '@/components/account/login-sessions-card';
 
 const profileSchema = z.object({
   email: z.string().email('Please enter a valid email address'),
@@ -18,11 +26,63 @@ const profileSchema = z.object({
 
 type ProfileFormValues = z.infer<typeof profileSchema>;
 
+type EmailPreferences = Record<'billing' | 'subscription' | 'usage' | 'security', boolean>;
+
+const EMAIL_CATEGORIES: { key: keyof EmailPreferences; label: string; description: string }[] = [
+  { key: 'billing', label: 'Billing', description: 'Receipts and failed payment notices' },
+  { key: 'subscription', label: 'Subscription', description: 'Reminders before your plan renews or ends' },
+  { key: 'usage', label: 'Usage', description: 'Warnings as you approach your data and time limits' },
+  { key: 'security', label: 'Security', description: 'Account activity alerts. Changes to your email address are always sent.' },
+];
+
+interface ReferralSummary {
+  code: string;
+  link: string;
+  creditBalance: number;
+  creditCurrency: string;
+  creditPercent: number;
+  referrals: {
+    id: number;
+    username: string;
+    status: 'pending' | 'rewarded' | 'rejected';
+    planName: string | null;
+    referrerCredit: number | null;
+    createdAt: string;
+  }[];
+}
+
 export default function AccountPage() {
   const { user } = useAuth();
   const { toast } = useToast();
   const [isEditing, setIsEditing] = useState(false);
 
+  const { data: referrals } = useQuery<ReferralSummary>({
+    queryKey: ['/api/referrals'],
+    enabled: !!user,
+  });
+
+  const { data: emailPreferences } = useQuery<EmailPreferences>({
+    queryKey: ['/api/email/preferences'],
+    enabled: !!user,
+  });
+
+  const emailPreferencesMutation = useMutation({
+    mutationFn: async (preferences: Partial<EmailPreferences>) => {
+      const response = await apiRequest('PUT', '/api/email/preferences', preferences);
+      return response.json();
+    },
+    onSuccess: (data: EmailPreferences) => {
+      queryClient.setQueryData(['/api/email/preferences'], data);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Error updating email preferences',
+        description: error.message,
+        variant: 'destructive',
+      });
+    },
+  });
+
   const form = useForm<ProfileFormValues>({
     resolver: zodResolver(profileSchema),
     defaultValues: {
@@ -79,7 +139,14 @@ export default function AccountPage() {
                     name="email"
                     render={({ field }) => (
                       <FormItem>
-                        <FormLabel>Email</FormLabel>
+                        <FormLabel className="flex items-center gap-2">
+                          Email
+                          {user?.email && (
+                            <Badge variant={user.emailVerifiedAt ? 'secondary' : 'outline'}>
+                              {user.emailVerifiedAt ? 'Verified' : 'Not verified'}
+                            </Badge>
+                          )}
+                        </FormLabel>
                         <FormControl>
                           <Input 
                             placeholder="your.email@example.com" 
@@ -88,7 +155,7 @@ export default function AccountPage() {
                           />
                         </FormControl>
                         <FormDescription>
-                          Your email is required for subscription and recovery.
+                          Your email is required for subscription and recovery. Changing it sends a new verification link.
                         </FormDescription>
                         <FormMessage />
                       </FormItem>
@@ -164,6 +231,101 @@ export default function AccountPage() {
             </Button>
           </CardFooter>
         </Card>
+
+        {user && !user.firebaseId && <ChangePasswordCard />}
+
+        {user && !user.firebaseId && <TwoFactorCard />}
+
+        <LoginSessionsCard />
+
+        <ApiTokensCard />
+
+        {emailPreferences && (
+          <Card className="mt-8">
+            <CardHeader>
+              <CardTitle>Email Preferences</CardTitle>
+              <CardDescription>Choose which emails we send to {user?.email || 'your email address'}</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {EMAIL_CATEGORIES.map(category => (
+                <div key={category.key} className="flex items-center justify-between gap-4">
+                  <div>
+                    <h3 className="text-sm font-medium">{category.label}</h3>
+                    <p className="text-sm text-muted-foreground">{category.description}</p>
+                  </div>
+                  <Switch
+                    checked={emailPreferences[category.key]}
+                    onCheckedChange={(checked) => emailPreferencesMutation.mutate({ [category.key]: checked })}
+                    disabled={emailPreferencesMutation.isPending}
+                  />
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+        )}
+
+        {referrals && (
+          <Card className="mt-8">
+            <CardHeader>
+              <div className="flex items-center gap-2">
+                <Gift className="h-5 w-5 text-primary" />
+                <CardTitle>Refer a Friend</CardTitle>
+              </div>
+              <CardDescription>
+                When someone you refer subscribes, you both get credit worth {referrals.creditPercent}% of
+                their plan's price, taken off your next renewal automatically.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-6">
+              <div>
+                <h3 className="text-sm font-medium mb-2">Your referral link</h3>
+                <div className="flex gap-2">
+                  <Input readOnly value={referrals.link} />
+                  <Button
+                    variant="outline"
+                    onClick={() => {
+                      navigator.clipboard.writeText(referrals.link);
+                      toast({ title: 'Copied', description: 'Referral link copied to your clipboard.' });
+                    }}
+                  >
+                    <Copy className="h-4 w-4" />
+                  </Button>
+                </div>
+                <p className="text-sm text-muted-foreground mt-1">Code: {referrals.code}</p>
+              </div>
+
+              <div>
+                <h3 className="text-sm font-medium">Account credit</h3>
+                <p className="text-2xl font-bold">
+                  {formatCurrency(referrals.creditBalance, referrals.creditCurrency)}
+                </p>
+              </div>
+
+              {referrals.referrals.length > 0 && (
+                <div className="space-y-2">
+                  <h3 className="text-sm font-medium">People you've referred</h3>
+                  {referrals.referrals.map(referral => (
+                    <div key={referral.id} className="flex items-center justify-between text-sm">
+                      <span>{referral.username}</span>
+                      <div className="flex items-center gap-2">
+                        {referral.status === 'rewarded' && referral.referrerCredit !== null && (
+                          <span className="text-muted-foreground">
+                            +{formatCurrency(referral.referrerCredit, referrals.creditCurrency)}
+                          </span>
+                        )}
+                        <Badge variant={referral.status === 'rewarded' ? 'default' : 'outline'} className="capitalize">
+                          {referral.status === 'pending' ? 'Signed up' : referral.status === 'rejected' ? 'Not eligible' : 'Rewarded'}
+                        </Badge>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        )}
+
+        <AccountDataCard />
       </div>
     </div>
   );
@@ -1,6 +1,9 @@
 import { useState, useEffect } from 'react';
 import { useQuery, useMutation } from '@tanstack/react-query';
-import { SubscriptionPlan, AppSetting, User, VpnServer } from '@shared/schema';
+import {
+  SubscriptionPlan, AppSetting, User, VpnServer, Permission, UserRole,
+  permissions, userRoles, hasPermission, isStaffRole
+} from '@shared/schema';
 import { useAuth } from '@/hooks/use-auth';
 import { useToast } from '@/hooks/use-toast';
 import { apiRequest, queryClient } from '@/lib/queryClient';
@@ -19,7 +22,7 @@ import { Badge } from '@/components/ui/badge';
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
 import { Separator } from '@/components/ui/separator';
 import { Select, SelectContent, SelectGroup, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
-import { useLocation } from 'wouter';
+import { Link, useLocation } from 'wouter';
 import { Label } from '@/components/ui/label';
 import { Switch } from '@/components/ui/switch';
 import { Checkbox } from '@/components/ui/checkbox';
@@ -37,12 +40,46 @@ import { toast as toastNotify } from "@/hooks/use-toast";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import * as z from "zod";
+import IpPoolsCard from '@/components/admin/ip-pools-card';
+import RevenueCard from '@/components/admin/revenue-card';
+import PromotionsCard from '@/components/admin/promotions-card';
+import PlansCard from '@/components/admin/plans-card';
+import VouchersCard from '@/components/admin/vouchers-card';
+import SecurityCard from '@/components/admin/security-card';
+import AuditLogCard from '@/components/admin/audit-log-card';
+
+// The permission each tab needs, in tab order, so staff only see the tabs their role can use
+const tabPermissions: Record<string, Permission> = {
+  users: permissions.USERS_READ,
+  revenue: permissions.BILLING_READ,
+  plans: permissions.PLANS_MANAGE,
+  promotions: permissions.PROMOTIONS_MANAGE,
+  vouchers: permissions.VOUCHERS_MANAGE,
+  stripe: permissions.PLANS_MANAGE,
+  paystack: permissions.PLANS_MANAGE,
+  adsense: permissions.SETTINGS_MANAGE,
+  app: permissions.SETTINGS_MANAGE,
+  security: permissions.SECURITY_MANAGE,
+  audit: permissions.AUDIT_READ,
+  network: permissions.MONITORING_READ,
+};
+
+const roleDetails: Record<UserRole, { label: string; description: string }> = {
+  [userRoles.USER]: { label: 'User', description: 'Basic access to VPN services and account management.' },
+  [userRoles.SUPPORT_AGENT]: { label: 'Support Agent', description: 'Can look up users, change their subscriptions and resend their emails.' },
+  [userRoles.BILLING_ADMIN]: { label: 'Billing Admin', description: 'Can manage plans, prices, promotions, vouchers and refunds.' },
+  [userRoles.OPS]: { label: 'Ops', description: 'Can monitor servers, address pools and error logs, and configure alerts.' },
+  [userRoles.ADMIN]: { label: 'Admin', description: 'Full access to all system settings, user management, and administration features.' },
+};
 
 export default function AdminPage() {
   const { user } = useAuth();
   const { toast } = useToast();
   const [location, setLocation] = useLocation();
-  const [activeTab, setActiveTab] = useState('users');
+  const can = (permission: Permission) => hasPermission(user?.role, permission);
+  const [activeTab, setActiveTab] = useState(
+    () => Object.keys(tabPermissions).find(tab => can(tabPermissions[tab])) || 'users'
+  );
   const [stripePriceIds, setStripePriceIds] = useState<Record<number, string>>({});
   const [paystackPlanCodes, setPaystackPlanCodes] = useState<Record<number, string>>({});
   const [adsenseId, setAdsenseId] = useState('');
@@ -69,11 +106,9 @@ export default function AdminPage() {
   const [logoData, setLogoData] = useState('');
   const [isUploading, setIsUploading] = useState(false);
 
-  // Only admins should access this page
+  // Only staff should access this page
   useEffect(() => {
-    // For demo purposes, consider first user as admin
-    // In a real app, you would check for admin role
-    if (user && user.id !== 1) {
+    if (user && !isStaffRole(user.role)) {
       setLocation('/');
       toast({
         title: 'Access Denied',
@@ -83,9 +118,10 @@ export default function AdminPage() {
     }
   }, [user, setLocation, toast]);
 
-  // Fetch subscription plans
+  // Fetch every subscription plan, archived ones included, with their USD prices
   const { data: plans, isLoading: isLoadingPlans, error: plansError } = useQuery<SubscriptionPlan[]>({
-    queryKey: ['/api/subscription-plans'],
+    queryKey: ['/api/admin/plans'],
+    enabled: can(permissions.PLANS_MANAGE),
   });
   
   // Fetch AdSense settings
@@ -96,33 +132,33 @@ export default function AdminPage() {
   // Fetch all users for the admin panel
   const { data: users, isLoading: isLoadingUsers, error: usersError } = useQuery<User[]>({
     queryKey: ['/api/admin/users'],
-    enabled: !!user && user.id === 1,
+    enabled: can(permissions.USERS_READ),
   });
   
   // Fetch app settings
   const { data: appNameSetting } = useQuery<AppSetting>({
     queryKey: ['/api/app-settings/app_name'],
-    enabled: !!user && user.id === 1,
+    enabled: can(permissions.SETTINGS_MANAGE),
   });
   
   const { data: companyInfoSetting } = useQuery<AppSetting>({
     queryKey: ['/api/app-settings/company_info'],
-    enabled: !!user && user.id === 1,
+    enabled: can(permissions.SETTINGS_MANAGE),
   });
   
   const { data: contactEmailSetting } = useQuery<AppSetting>({
     queryKey: ['/api/app-settings/contact_email'],
-    enabled: !!user && user.id === 1,
+    enabled: can(permissions.SETTINGS_MANAGE),
   });
   
   const { data: socialLinksSetting } = useQuery<AppSetting>({
     queryKey: ['/api/app-settings/social_links'],
-    enabled: !!user && user.id === 1,
+    enabled: can(permissions.SETTINGS_MANAGE),
   });
   
   const { data: logoSetting } = useQuery<AppSetting>({
     queryKey: ['/api/app-settings/app_logo'],
-    enabled: !!user && user.id === 1,
+    enabled: can(permissions.SETTINGS_MANAGE),
   });
 
   // Initialize stripePriceIds and paystackPlanCodes state when plans are loaded
@@ -191,6 +227,7 @@ export default function AdminPage() {
       });
       
       setIsEditing(false);
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/plans'] });
       queryClient.invalidateQueries({ queryKey: ['/api/subscription-plans'] });
     } catch (err: any) {
       toast({
@@ -218,6 +255,7 @@ export default function AdminPage() {
       });
       
       setIsEditingPaystack(false);
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/plans'] });
       queryClient.invalidateQueries({ queryKey: ['/api/subscription-plans'] });
     } catch (err: any) {
       toast({
@@ -261,7 +299,7 @@ export default function AdminPage() {
     }
   };
 
-  if (!user || user.id !== 1) {
+  if (!user || !isStaffRole(user.role)) {
     return (
       <div className="container py-8">
         <p>Redirecting...</p>
@@ -301,6 +339,34 @@ export default function AdminPage() {
     }
   };
 
+  // Change a user's role
+  const updateUserRole = async (userId: number, role: string) => {
+    setIsSaving(true);
+    try {
+      await apiRequest('PUT', `/api/admin/users/${userId}/role`, { role });
+      
+      toast({
+        title: 'Role updated',
+        description: `The user is now ${roleDetails[role as UserRole]?.label || role}`,
+      });
+      
+      setRoleAssignments(prev => {
+        const next = { ...prev };
+        delete next[userId];
+        return next;
+      });
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/users'] });
+    } catch (err: any) {
+      toast({
+        title: 'Error',
+        description: err.message || 'Failed to update role',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
   if (isLoadingPlans || isLoadingAdsense || isLoadingUsers) {
     return (
       <div className="container py-8 flex items-center justify-center">
@@ -309,7 +375,7 @@ export default function AdminPage() {
     );
   }
 
-  if (plansError || !plans) {
+  if (can(permissions.PLANS_MANAGE) && (plansError || !plans)) {
     return (
       <div className="container py-8">
         <Alert variant="destructive">
@@ -320,6 +386,20 @@ export default function AdminPage() {
     );
   }
   
+  // The server keeps admins out until they turn on two-factor, when that's required
+  if (usersError && usersError.message.includes('twoFactorSetupRequired')) {
+    return (
+      <div className="container py-8">
+        <Alert variant="destructive">
+          <AlertTitle>Two-factor authentication required</AlertTitle>
+          <AlertDescription>
+            Turn on two-factor authentication from your <Link href="/account" className="underline">account page</Link> to use the admin panel.
+          </AlertDescription>
+        </Alert>
+      </div>
+    );
+  }
+
   if (usersError) {
     return (
       <div className="container py-8">
@@ -343,11 +423,18 @@ export default function AdminPage() {
         <CardContent>
           <Tabs value={activeTab} onValueChange={setActiveTab} className="space-y-4">
             <TabsList>
-              <TabsTrigger value="users">User Management</TabsTrigger>
-              <TabsTrigger value="stripe">Stripe Payment</TabsTrigger>
-              <TabsTrigger value="paystack">Paystack Payment</TabsTrigger>
-              <TabsTrigger value="adsense">Google AdSense</TabsTrigger>
-              <TabsTrigger value="app">App Settings</TabsTrigger>
+              {can(tabPermissions.users) && <TabsTrigger value="users">User Management</TabsTrigger>}
+              {can(tabPermissions.revenue) && <TabsTrigger value="revenue">Revenue</TabsTrigger>}
+              {can(tabPermissions.plans) && <TabsTrigger value="plans">Plans</TabsTrigger>}
+              {can(tabPermissions.promotions) && <TabsTrigger value="promotions">Promotions</TabsTrigger>}
+              {can(tabPermissions.vouchers) && <TabsTrigger value="vouchers">Vouchers</TabsTrigger>}
+              {can(tabPermissions.stripe) && <TabsTrigger value="stripe">Stripe Payment</TabsTrigger>}
+              {can(tabPermissions.paystack) && <TabsTrigger value="paystack">Paystack Payment</TabsTrigger>}
+              {can(tabPermissions.adsense) && <TabsTrigger value="adsense">Google AdSense</TabsTrigger>}
+              {can(tabPermissions.app) && <TabsTrigger value="app">App Settings</TabsTrigger>}
+              {can(tabPermissions.security) && <TabsTrigger value="security">Security</TabsTrigger>}
+              {can(tabPermissions.audit) && <TabsTrigger value="audit">Audit Log</TabsTrigger>}
+              {can(tabPermissions.network) && <TabsTrigger value="network">Network</TabsTrigger>}
             </TabsList>
             
             <TabsContent value="users" className="space-y-6">
@@ -372,14 +459,16 @@ export default function AdminPage() {
                     Add User
                   </Button>
                   
-                  <Button 
-                    variant="outline" 
-                    className="flex items-center gap-1"
-                    onClick={() => setIsModifyingPermissions(true)}
-                  >
-                    <Shield className="h-4 w-4" />
-                    Manage Permissions
-                  </Button>
+                  {can(permissions.ROLES_MANAGE) && (
+                    <Button 
+                      variant="outline" 
+                      className="flex items-center gap-1"
+                      onClick={() => setIsModifyingPermissions(true)}
+                    >
+                      <Shield className="h-4 w-4" />
+                      Manage Permissions
+                    </Button>
+                  )}
                 </div>
               </div>
 
@@ -411,16 +500,18 @@ export default function AdminPage() {
                         </TableCell>
                         <TableCell>
                           <div className="flex gap-2">
-                            <Button 
-                              variant="ghost" 
-                              size="sm" 
-                              onClick={() => setSelectedUserId(user.id)}
-                            >
-                              <Edit className="h-4 w-4 mr-1" />
-                              Edit
-                            </Button>
+                            {can(permissions.USERS_WRITE) && (
+                              <Button 
+                                variant="ghost" 
+                                size="sm" 
+                                onClick={() => setSelectedUserId(user.id)}
+                              >
+                                <Edit className="h-4 w-4 mr-1" />
+                                Edit
+                              </Button>
+                            )}
                             
-                            {user.id !== 1 && ( // Don't allow deleting the admin user
+                            {!isStaffRole(user.role) && ( // Don't allow deleting staff accounts
                               <Button 
                                 variant="ghost" 
                                 size="sm"
@@ -574,33 +665,33 @@ export default function AdminPage() {
                           </TableRow>
                         </TableHeader>
                         <TableBody>
-                          {users?.map(user => (
-                            <TableRow key={user.id}>
-                              <TableCell className="font-medium">{user.username}</TableCell>
+                          {users?.map(account => (
+                            <TableRow key={account.id}>
+                              <TableCell className="font-medium">{account.username}</TableCell>
                               <TableCell>
-                                <Badge variant={user.id === 1 ? 'default' : 'outline'}>
-                                  {user.id === 1 ? 'Admin' : 'User'}
+                                <Badge variant={isStaffRole(account.role) ? 'default' : 'outline'}>
+                                  {roleDetails[account.role as UserRole]?.label || account.role}
                                 </Badge>
                               </TableCell>
                               <TableCell>
                                 <Select
-                                  defaultValue={user.id === 1 ? 'admin' : 'user'}
+                                  defaultValue={account.role}
                                   onValueChange={(value) => {
                                     setRoleAssignments(prev => ({
                                       ...prev,
-                                      [user.id]: value
+                                      [account.id]: value
                                     }));
                                   }}
-                                  disabled={user.id === 1} // Cannot change admin role for main admin
+                                  disabled={account.id === user.id} // Admins can't change their own role
                                 >
                                   <SelectTrigger className="w-full">
                                     <SelectValue placeholder="Select role" />
                                   </SelectTrigger>
                                   <SelectContent>
                                     <SelectGroup>
-                                      <SelectItem value="user">User</SelectItem>
-                                      <SelectItem value="support">Support</SelectItem>
-                                      <SelectItem value="admin">Admin</SelectItem>
+                                      {Object.entries(roleDetails).map(([role, details]) => (
+                                        <SelectItem key={role} value={role}>{details.label}</SelectItem>
+                                      ))}
                                     </SelectGroup>
                                   </SelectContent>
                                 </Select>
@@ -609,14 +700,13 @@ export default function AdminPage() {
                                 <Button
                                   variant="ghost"
                                   size="sm"
-                                  disabled={!roleAssignments[user.id] || user.id === 1}
-                                  onClick={() => {
-                                    // Apply role change
-                                    toast({
-                                      title: "Role updated",
-                                      description: `User ${user.username} is now a ${roleAssignments[user.id]}`
-                                    });
-                                  }}
+                                  disabled={
+                                    !roleAssignments[account.id] ||
+                                    roleAssignments[account.id] === account.role ||
+                                    account.id === user.id ||
+                                    isSaving
+                                  }
+                                  onClick={() => updateUserRole(account.id, roleAssignments[account.id])}
                                 >
                                   <Save className="h-4 w-4 mr-1" />
                                   Save
@@ -631,18 +721,12 @@ export default function AdminPage() {
                     <div className="border rounded-md p-4 bg-muted/20">
                       <h4 className="text-sm font-medium mb-2">Permission Levels:</h4>
                       <ul className="text-sm space-y-2">
-                        <li className="flex items-start gap-2">
-                          <Badge>User</Badge>
-                          <span>Basic access to VPN services and account management.</span>
-                        </li>
-                        <li className="flex items-start gap-2">
-                          <Badge>Support</Badge>
-                          <span>Can access user information and provide support, but cannot modify system settings.</span>
-                        </li>
-                        <li className="flex items-start gap-2">
-                          <Badge>Admin</Badge>
-                          <span>Full access to all system settings, user management, and administration features.</span>
-                        </li>
+                        {Object.entries(roleDetails).map(([role, details]) => (
+                          <li key={role} className="flex items-start gap-2">
+                            <Badge className="shrink-0">{details.label}</Badge>
+                            <span>{details.description}</span>
+                          </li>
+                        ))}
                       </ul>
                     </div>
                   </div>
@@ -748,6 +832,30 @@ export default function AdminPage() {
               )}
             </TabsContent>
             
+            <TabsContent value="revenue" className="space-y-6">
+              <RevenueCard />
+            </TabsContent>
+            
+            <TabsContent value="plans" className="space-y-6">
+              <PlansCard />
+            </TabsContent>
+            
+            <TabsContent value="promotions" className="space-y-6">
+              <PromotionsCard />
+            </TabsContent>
+
+            <TabsContent value="vouchers" className="space-y-6">
+              <VouchersCard />
+            </TabsContent>
+
+            <TabsContent value="security" className="space-y-6">
+              <SecurityCard />
+            </TabsContent>
+
+            <TabsContent value="audit" className="space-y-6">
+              <AuditLogCard />
+            </TabsContent>
+            
             <TabsContent value="stripe" className="space-y-6">
               <div className="flex justify-end">
                 <Button
@@ -768,7 +876,7 @@ export default function AdminPage() {
                   </TableRow>
                 </TableHeader>
                 <TableBody>
-                  {plans.map(plan => (
+                  {plans?.map(plan => (
                     <TableRow key={plan.id}>
                       <TableCell className="font-medium">{plan.name}</TableCell>
                       <TableCell>${(plan.price / 100).toFixed(2)}</TableCell>
@@ -845,7 +953,7 @@ export default function AdminPage() {
                   </TableRow>
                 </TableHeader>
                 <TableBody>
-                  {plans.map(plan => (
+                  {plans?.map(plan => (
                     <TableRow key={plan.id}>
                       <TableCell className="font-medium">{plan.name}</TableCell>
                       <TableCell>${(plan.price / 100).toFixed(2)}</TableCell>
@@ -1283,6 +1391,10 @@ export default function AdminPage() {
                 </Card>
               </div>
             </TabsContent>
+
+            <TabsContent value="network" className="space-y-6">
+              <IpPoolsCard />
+            </TabsContent>
           </Tabs>
         </CardContent>
       </Card>
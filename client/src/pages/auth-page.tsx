@@ -10,10 +10,11 @@ import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle }
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { useAuth } from "@/hooks/use-auth";
 import { useFirebaseAuth } from "@/hooks/use-firebase-auth";
-import { useLocation } from "wouter";
+import { Link, useLocation } from "wouter";
 import { Shield, ShieldCheck, Lock, Globe, Zap, Mail, LucideGithub } from "lucide-react";
 import { SeoHead } from "@/components/seo";
 import { FirebaseConfigHelper } from "@/components/firebase-config-helper";
+import TwoFactorStep from "@/components/auth/two-factor-step";
 
 // Extended schema with validation rules
 const authSchema = insertUserSchema.extend({
@@ -35,7 +36,10 @@ type AuthFormData = z.infer<typeof authSchema>;
 type LoginFormData = z.infer<typeof loginSchema>;
 
 export default function AuthPage() {
-  const [activeTab, setActiveTab] = useState<string>("login");
+  // Referral links send new users here with ?ref=CODE
+  const [referralCode] = useState(() => new URLSearchParams(window.location.search).get("ref") || undefined);
+  const [activeTab, setActiveTab] = useState<string>(referralCode ? "register" : "login");
+  const [twoFactorPending, setTwoFactorPending] = useState(false);
   const { user, loginMutation, registerMutation } = useAuth();
   const { signInWithGoogle, signInWithEmail, signUpWithEmail, isLoading: firebaseLoading } = useFirebaseAuth();
   const [location, setLocation] = useLocation();
@@ -71,11 +75,17 @@ export default function AuthPage() {
   }
 
   const onLoginSubmit = (data: LoginFormData) => {
-    loginMutation.mutate(data);
+    loginMutation.mutate(data, {
+      onSuccess: (result) => {
+        if ("twoFactorRequired" in result) {
+          setTwoFactorPending(true);
+        }
+      },
+    });
   };
 
   const onRegisterSubmit = (data: AuthFormData) => {
-    registerMutation.mutate(data);
+    registerMutation.mutate({ ...data, referralCode });
   };
   
   const handleEmailLogin = async () => {
@@ -142,84 +152,98 @@ export default function AuthPage() {
                 </TabsList>
                 
                 <TabsContent value="login">
-                  <Form {...loginForm}>
-                    <form onSubmit={loginForm.handleSubmit(onLoginSubmit)} className="space-y-4">
-                      <FormField
-                        control={loginForm.control}
-                        name="username"
-                        render={({ field }) => (
-                          <FormItem>
-                            <FormLabel>Username</FormLabel>
-                            <FormControl>
-                              <Input placeholder="Enter your username" {...field} />
-                            </FormControl>
-                            <FormMessage />
-                          </FormItem>
-                        )}
-                      />
-                      <FormField
-                        control={loginForm.control}
-                        name="password"
-                        render={({ field }) => (
-                          <FormItem>
-                            <FormLabel>Password</FormLabel>
-                            <FormControl>
-                              <Input type="password" placeholder="••••••••" {...field} />
-                            </FormControl>
-                            <FormMessage />
-                          </FormItem>
-                        )}
-                      />
-                      <Button 
-                        type="submit" 
-                        className="w-full" 
-                        disabled={loginMutation.isPending || firebaseLoading}
-                      >
-                        {loginMutation.isPending || firebaseLoading ? (
-                          <>
-                            <span className="animate-spin mr-2">
-                              <svg className="h-5 w-5" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
-                                <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
-                                <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
-                              </svg>
-                            </span>
-                            Logging in...
-                          </>
-                        ) : (
-                          "Sign In"
-                        )}
-                      </Button>
-                      
-                      <div className="relative my-4">
-                        <div className="absolute inset-0 flex items-center">
-                          <span className="w-full border-t border-gray-700" />
-                        </div>
-                        <div className="relative flex justify-center text-xs uppercase">
-                          <span className="bg-background px-2 text-muted-foreground">
-                            Or continue with
-                          </span>
-                        </div>
-                      </div>
-                      
-                      <div className="grid grid-cols-1 gap-2">
+                  {twoFactorPending ? (
+                    <TwoFactorStep
+                      onCancel={() => {
+                        setTwoFactorPending(false);
+                        loginForm.resetField("password");
+                      }}
+                    />
+                  ) : (
+                    <Form {...loginForm}>
+                      <form onSubmit={loginForm.handleSubmit(onLoginSubmit)} className="space-y-4">
+                        <FormField
+                          control={loginForm.control}
+                          name="username"
+                          render={({ field }) => (
+                            <FormItem>
+                              <FormLabel>Username</FormLabel>
+                              <FormControl>
+                                <Input placeholder="Enter your username" {...field} />
+                              </FormControl>
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
+                        <FormField
+                          control={loginForm.control}
+                          name="password"
+                          render={({ field }) => (
+                            <FormItem>
+                              <div className="flex items-center justify-between">
+                                <FormLabel>Password</FormLabel>
+                                <Link href="/forgot-password" className="text-xs text-muted-foreground hover:text-primary">
+                                  Forgot password?
+                                </Link>
+                              </div>
+                              <FormControl>
+                                <Input type="password" placeholder="••••••••" {...field} />
+                              </FormControl>
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
                         <Button 
-                          type="button" 
-                          variant="outline" 
-                          className="flex items-center justify-center gap-2"
-                          onClick={() => signInWithGoogle()}
-                          disabled={firebaseLoading}
+                          type="submit" 
+                          className="w-full" 
+                          disabled={loginMutation.isPending || firebaseLoading}
                         >
-                          <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" className="h-5 w-5">
-                            <path d="M22.56 12.25c0-.78-.07-1.53-.2-2.25H12v4.26h5.92c-.26 1.37-1.04 2.53-2.21 3.31v2.77h3.57c2.08-1.92 3.28-4.74 3.28-8.09z" fill="#4285F4" />
-                            <path d="M12 23c2.97 0 5.46-.98 7.28-2.66l-3.57-2.77c-.98.66-2.23 1.06-3.71 1.06-2.86 0-5.29-1.93-6.16-4.53H2.18v2.84C3.99 20.53 7.7 23 12 23z" fill="#34A853" />
-                            <path d="M5.84 14.09c-.22-.66-.35-1.36-.35-2.09s.13-1.43.35-2.09V7.07H2.18C1.43 8.55 1 10.22 1 12s.43 3.45 1.18 4.93l2.85-2.22.81-.62z" fill="#FBBC05" />
-                            <path d="M12 5.38c1.62 0 3.06.56 4.21 1.64l3.15-3.15C17.45 2.09 14.97 1 12 1 7.7 1 3.99 3.47 2.18 7.07l3.66 2.84c.87-2.6 3.3-4.53 6.16-4.53z" fill="#EA4335" />
-                          </svg>
-                          Sign in with Google
+                          {loginMutation.isPending || firebaseLoading ? (
+                            <>
+                              <span className="animate-spin mr-2">
+                                <svg className="h-5 w-5" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
+                                  <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
+                                  <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
+                                </svg>
+                              </span>
+                              Logging in...
+                            </>
+                          ) : (
+                            "Sign In"
+                          )}
                         </Button>
-                      </div>
-                    </form>
-                  </Form>
+                      
+                        <div className="relative my-4">
+                          <div className="absolute inset-0 flex items-center">
+                            <span className="w-full border-t border-gray-700" />
+                          </div>
+                          <div className="relative flex justify-center text-xs uppercase">
+                            <span className="bg-background px-2 text-muted-foreground">
+                              Or continue with
+                            </span>
+                          </div>
+                        </div>
+                      
+                        <div className="grid grid-cols-1 gap-2">
+                          <Button 
+                            type="button" 
+                            variant="outline" 
+                            className="flex items-center justify-center gap-2"
+                            onClick={() => signInWithGoogle()}
+                            disabled={firebaseLoading}
+                          >
+                            <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" className="h-5 w-5">
+                              <path d="M22.56 12.25c0-.78-.07-1.53-.2-2.25H12v4.26h5.92c-.26 1.37-1.04 2.53-2.21 3.31v2.77h3.57c2.08-1.92 3.28-4.74 3.28-8.09z" fill="#4285F4" />
+                              <path d="M12 23c2.97 0 5.46-.98 7.28-2.66l-3.57-2.77c-.98.66-2.23 1.06-3.71 1.06-2.86 0-5.29-1.93-6.16-4.53H2.18v2.84C3.99 20.53 7.7 23 12 23z" fill="#34A853" />
+                              <path d="M5.84 14.09c-.22-.66-.35-1.36-.35-2.09s.13-1.43.35-2.09V7.07H2.18C1.43 8.55 1 10.22 1 12s.43 3.45 1.18 4.93l2.85-2.22.81-.62z" fill="#FBBC05" />
+                              <path d="M12 5.38c1.62 0 3.06.56 4.21 1.64l3.15-3.15C17.45 2.09 14.97 1 12 1 7.7 1 3.99 3.47 2.18 7.07l3.66 2.84c.87-2.6 3.3-4.53 6.16-4.53z" fill="#EA4335" />
+                            </svg>
+                            Sign in with Google
+                          </Button>
+                        </div>
+                      </form>
+                    </Form>
+                  )}
                 </TabsContent>
                 
                 <TabsContent value="register">
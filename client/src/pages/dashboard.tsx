@@ -3,6 +3,7 @@ import Sidebar from '@/components/layout/sidebar';
 import MobileNav from '@/components/layout/mobile-nav';
 import Header from '@/components/layout/header';
 import ConnectionStatusCard from '@/components/vpn/connection-status-card';
+import QuotaWarnings from '@/components/vpn/quota-warnings';
 import ServerMap from '@/components/vpn/server-map';
 import SecuritySettingsCard from '@/components/vpn/security-settings-card';
 import UsageStatsCard from '@/components/vpn/usage-stats-card';
@@ -192,6 +193,9 @@ export default function Dashboard() {
         ) : (
           /* Dashboard content */
           <div className="p-4 md:p-6 space-y-6">
+            {/* Data and time limit warnings */}
+            <QuotaWarnings />
+            
             {/* Connection Status Card */}
             <ConnectionStatusCard />
             
@@ -0,0 +1,86 @@
+import { useState } from 'react';
+import { useMutation } from '@tanstack/react-query';
+import { Link } from 'wouter';
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Loader2, KeyRound, Mail } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest } from '@/lib/queryClient';
+
+export default function ForgotPasswordPage() {
+  const { toast } = useToast();
+  const [email, setEmail] = useState('');
+
+  const requestMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', '/api/forgot-password', { email: email.trim() });
+      return response.json();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Could not send reset link',
+        description: error.message,
+        variant: 'destructive',
+      });
+    },
+  });
+
+  return (
+    <div className="container py-8">
+      <div className="max-w-lg mx-auto">
+        <Card>
+          <CardHeader>
+            <div className="flex items-center gap-3">
+              <KeyRound className="h-6 w-6 text-primary" />
+              <CardTitle>Reset your password</CardTitle>
+            </div>
+            <CardDescription>
+              Enter the email address on your account and we'll send you a link to choose a new password.
+            </CardDescription>
+          </CardHeader>
+          {requestMutation.isSuccess ? (
+            <CardContent>
+              <Alert>
+                <Mail className="h-4 w-4" />
+                <AlertTitle>Check your inbox</AlertTitle>
+                <AlertDescription>
+                  {requestMutation.data?.message}. The link expires in an hour.
+                </AlertDescription>
+              </Alert>
+            </CardContent>
+          ) : (
+            <form
+              onSubmit={(e) => {
+                e.preventDefault();
+                if (email.trim()) requestMutation.mutate();
+              }}
+            >
+              <CardContent className="space-y-2">
+                <Label htmlFor="forgot-email">Email address</Label>
+                <Input
+                  id="forgot-email"
+                  type="email"
+                  autoComplete="email"
+                  value={email}
+                  onChange={(e) => setEmail(e.target.value)}
+                />
+              </CardContent>
+              <CardFooter className="flex justify-between">
+                <Link href="/auth" className="text-sm text-muted-foreground hover:text-primary">
+                  Back to sign in
+                </Link>
+                <Button type="submit" disabled={!email.trim() || requestMutation.isPending}>
+                  {requestMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  Send reset link
+                </Button>
+              </CardFooter>
+            </form>
+          )}
+        </Card>
+      </div>
+    </div>
+  );
+}
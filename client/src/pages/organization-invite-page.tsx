@@ -0,0 +1,100 @@
+import { useQuery, useMutation } from '@tanstack/react-query';
+import { useLocation, useParams } from 'wouter';
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Loader2, AlertCircle, Users } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/hooks/use-auth';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+
+interface InvitationSummary {
+  organizationName: string;
+  email: string;
+  role: string;
+  expiresAt: string;
+}
+
+export default function OrganizationInvitePage() {
+  const { token } = useParams<{ token: string }>();
+  const [, setLocation] = useLocation();
+  const { toast } = useToast();
+  const { user } = useAuth();
+
+  const { data: invitation, isLoading, error } = useQuery<InvitationSummary>({
+    queryKey: [`/api/organization/invitations/${token}`],
+  });
+
+  const acceptMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', `/api/organization/invitations/${token}/accept`);
+      return response.json();
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/organization'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/subscription'] });
+      toast({
+        title: 'Welcome aboard',
+        description: `You're now a member of ${data.organization.name}.`,
+      });
+      setLocation('/organization');
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Could not accept invitation',
+        description: error.message,
+        variant: 'destructive',
+      });
+    },
+  });
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center min-h-[60vh]">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="container py-8">
+      <div className="max-w-lg mx-auto">
+        {error || !invitation ? (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertTitle>Invitation unavailable</AlertTitle>
+            <AlertDescription>
+              This invitation has expired or was already used. Ask the organization for a new one.
+            </AlertDescription>
+          </Alert>
+        ) : (
+          <Card>
+            <CardHeader>
+              <div className="flex items-center gap-3">
+                <Users className="h-6 w-6 text-primary" />
+                <CardTitle>Join {invitation.organizationName}</CardTitle>
+              </div>
+              <CardDescription>
+                You've been invited as {invitation.role === 'admin' ? 'an admin' : 'a member'} and will
+                get the organization's plan once you join.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="text-sm text-muted-foreground">
+              This invitation is for {invitation.email} and expires on{' '}
+              {new Date(invitation.expiresAt).toLocaleDateString()}.
+            </CardContent>
+            <CardFooter>
+              <Button
+                onClick={() => acceptMutation.mutate()}
+                disabled={!user || acceptMutation.isPending}
+              >
+                {acceptMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Accept Invitation
+              </Button>
+            </CardFooter>
+          </Card>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,530 @@
+import { useEffect, useState } from 'react';
+import { useQuery, useMutation } from '@tanstack/react-query';
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Loader2, Users, UserPlus, Trash2, Copy } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/hooks/use-auth';
+import { PaymentMethodSelector, PaymentMethod } from '@/components/subscription/payment-method-selector';
+import EmailVerificationAlert from '@/components/subscription/email-verification-alert';
+import { formatCurrency } from '@/lib/utils';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+import { Organization, OrganizationInvitation, OrganizationMember, LocalizedSubscriptionPlan } from '@shared/schema';
+
+interface OrganizationDetails {
+  organization: Organization;
+  role: 'owner' | 'admin' | 'member';
+  members: (OrganizationMember & { username: string; email: string | null })[];
+  invitations: OrganizationInvitation[];
+  seatsUsed: number;
+}
+
+export default function OrganizationPage() {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const [name, setName] = useState('');
+  const [inviteEmail, setInviteEmail] = useState('');
+  const [inviteRole, setInviteRole] = useState<'member' | 'admin'>('member');
+  const [lastInviteUrl, setLastInviteUrl] = useState<string | null>(null);
+  const [planName, setPlanName] = useState('');
+  const [seats, setSeats] = useState(1);
+  const [paymentMethod, setPaymentMethod] = useState<PaymentMethod>('stripe');
+  const [newSeats, setNewSeats] = useState<number | null>(null);
+
+  const { data: details, isLoading } = useQuery<OrganizationDetails | null>({
+    queryKey: ['/api/organization'],
+  });
+
+  const { data: pricing } = useQuery<{ currencies: string[]; currency: string }>({
+    queryKey: ['/api/pricing/currencies'],
+  });
+  const currency = pricing?.currency;
+
+  const { data: plans } = useQuery<LocalizedSubscriptionPlan[]>({
+    queryKey: ['/api/subscription-plans', currency],
+    queryFn: () => fetch(`/api/subscription-plans?currency=${currency}`).then(res => res.json()),
+    enabled: !!currency,
+  });
+  const paidPlans = (plans || []).filter(plan => plan.price > 0);
+
+  const showError = (title: string) => (error: Error) => {
+    toast({
+      title,
+      description: error.message,
+      variant: 'destructive',
+    });
+  };
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: ['/api/organization'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/subscription'] });
+  };
+
+  // Paystack sends the owner back with a reference, Stripe with checkout=success
+  const verifyMutation = useMutation({
+    mutationFn: async (reference: string) => {
+      const response = await apiRequest('POST', '/api/organization/checkout/verify', { reference });
+      return response.json();
+    },
+    onSuccess: () => {
+      refresh();
+      toast({
+        title: 'Payment Successful',
+        description: 'Your organization\'s subscription is active.',
+      });
+    },
+    onError: showError('Payment Error'),
+  });
+
+  useEffect(() => {
+    const params = new URLSearchParams(window.location.search);
+    const reference = params.get('reference') || params.get('trxref');
+    if (reference) {
+      verifyMutation.mutate(reference);
+    } else if (params.get('checkout') === 'success') {
+      toast({
+        title: 'Payment Successful',
+        description: 'Your organization\'s subscription will be active in a moment.',
+      });
+    }
+    if (reference || params.get('checkout')) {
+      window.history.replaceState({}, '', '/organization');
+    }
+  }, []);
+
+  const createMutation = useMutation({
+    mutationFn: async (organizationName: string) => {
+      const response = await apiRequest('POST', '/api/organization', { name: organizationName });
+      return response.json();
+    },
+    onSuccess: () => {
+      setName('');
+      refresh();
+    },
+    onError: showError('Could not create organization'),
+  });
+
+  const inviteMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', '/api/organization/invitations', { email: inviteEmail, role: inviteRole });
+      return response.json();
+    },
+    onSuccess: (data) => {
+      setInviteEmail('');
+      setLastInviteUrl(data.inviteUrl);
+      refresh();
+      toast({
+        title: 'Invitation Sent',
+        description: `We've emailed an invitation to ${data.email}.`,
+      });
+    },
+    onError: showError('Could not send invitation'),
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest('DELETE', `/api/organization/invitations/${id}`);
+    },
+    onSuccess: refresh,
+    onError: showError('Could not revoke invitation'),
+  });
+
+  const roleMutation = useMutation({
+    mutationFn: async ({ userId, role }: { userId: number; role: string }) => {
+      const response = await apiRequest('PATCH', `/api/organization/members/${userId}`, { role });
+      return response.json();
+    },
+    onSuccess: refresh,
+    onError: showError('Could not change role'),
+  });
+
+  const removeMutation = useMutation({
+    mutationFn: async (userId: number) => {
+      await apiRequest('DELETE', `/api/organization/members/${userId}`);
+    },
+    onSuccess: refresh,
+    onError: showError('Could not remove member'),
+  });
+
+  const checkoutMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', '/api/organization/checkout', { planName, seats, paymentMethod, currency });
+      return response.json();
+    },
+    onSuccess: (data) => {
+      window.location.href = data.url;
+    },
+    onError: showError('Checkout Error'),
+  });
+
+  const seatsMutation = useMutation({
+    mutationFn: async (count: number) => {
+      const response = await apiRequest('PUT', '/api/organization/seats', { seats: count });
+      return response.json();
+    },
+    onSuccess: () => {
+      setNewSeats(null);
+      refresh();
+      toast({
+        title: 'Seats Updated',
+        description: 'Added seats are charged for the rest of the current period.',
+      });
+    },
+    onError: showError('Could not update seats'),
+  });
+
+  const cancelMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('DELETE', '/api/organization/subscription');
+      return response.json();
+    },
+    onSuccess: () => {
+      refresh();
+      toast({
+        title: 'Subscription Canceled',
+        description: 'Members keep the plan until the end of the current period.',
+      });
+    },
+    onError: showError('Could not cancel subscription'),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest('DELETE', '/api/organization');
+    },
+    onSuccess: refresh,
+    onError: showError('Could not delete organization'),
+  });
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center min-h-[60vh]">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (!details) {
+    return (
+      <div className="container py-8">
+        <div className="max-w-2xl mx-auto">
+          <h1 className="text-3xl font-bold mb-6">Organization</h1>
+          <Card>
+            <CardHeader>
+              <CardTitle>Create an organization</CardTitle>
+              <CardDescription>
+                Pay for your whole team on one subscription. Members get the organization's plan
+                as soon as they accept their invitation.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <Label htmlFor="organization-name">Name</Label>
+              <Input
+                id="organization-name"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="Acme Inc."
+              />
+            </CardContent>
+            <CardFooter>
+              <Button
+                onClick={() => createMutation.mutate(name)}
+                disabled={name.trim().length < 2 || createMutation.isPending}
+              >
+                {createMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Create Organization
+              </Button>
+            </CardFooter>
+          </Card>
+        </div>
+      </div>
+    );
+  }
+
+  const { organization, role, members, invitations, seatsUsed } = details;
+  const isOwner = role === 'owner';
+  const canManage = role !== 'member';
+  const isPaid = organization.subscription !== 'free';
+
+  return (
+    <div className="container py-8">
+      <div className="max-w-4xl mx-auto space-y-8">
+        <div className="flex items-center gap-3">
+          <Users className="h-8 w-8 text-primary" />
+          <h1 className="text-3xl font-bold">{organization.name}</h1>
+          <Badge variant="outline" className="capitalize">{role}</Badge>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Subscription</CardTitle>
+            <CardDescription>
+              Every member gets the organization's plan, unless their own plan is better
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="grid grid-cols-1 md:grid-cols-4 gap-4">
+            <div>
+              <p className="text-sm text-muted-foreground">Plan</p>
+              <p className="font-medium capitalize">{organization.subscription}</p>
+            </div>
+            <div>
+              <p className="text-sm text-muted-foreground">Status</p>
+              <p className="font-medium capitalize">{(organization.subscriptionStatus || 'active').replace('_', ' ')}</p>
+            </div>
+            <div>
+              <p className="text-sm text-muted-foreground">Seats used</p>
+              <p className="font-medium">{seatsUsed} of {organization.seats}</p>
+            </div>
+            <div>
+              <p className="text-sm text-muted-foreground">Renews</p>
+              <p className="font-medium">
+                {organization.subscriptionExpiryDate
+                  ? new Date(organization.subscriptionExpiryDate).toLocaleDateString()
+                  : '—'}
+              </p>
+            </div>
+          </CardContent>
+          {isOwner && isPaid && (
+            <CardFooter className="flex flex-wrap gap-4">
+              <div className="flex items-end gap-2">
+                <div>
+                  <Label htmlFor="seats">Seats</Label>
+                  <Input
+                    id="seats"
+                    type="number"
+                    min={seatsUsed}
+                    className="w-24"
+                    value={newSeats ?? organization.seats}
+                    onChange={(e) => setNewSeats(parseInt(e.target.value, 10) || 0)}
+                  />
+                </div>
+                <Button
+                  variant="outline"
+                  onClick={() => newSeats && seatsMutation.mutate(newSeats)}
+                  disabled={!newSeats || newSeats === organization.seats || seatsMutation.isPending}
+                >
+                  {seatsMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  Update Seats
+                </Button>
+              </div>
+              {organization.subscriptionStatus !== 'canceled' && (
+                <Button
+                  variant="destructive"
+                  onClick={() => cancelMutation.mutate()}
+                  disabled={cancelMutation.isPending}
+                >
+                  Cancel Subscription
+                </Button>
+              )}
+            </CardFooter>
+          )}
+        </Card>
+
+        {isOwner && !isPaid && (
+          <Card>
+            <CardHeader>
+              <CardTitle>Buy seats</CardTitle>
+              <CardDescription>Choose a plan and how many people it covers</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                  <Label>Plan</Label>
+                  <Select value={planName} onValueChange={setPlanName}>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Choose a plan" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {paidPlans.map(plan => (
+                        <SelectItem key={plan.id} value={plan.name}>
+                          {plan.name} ({formatCurrency(plan.displayPrice, plan.currency)} per seat)
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div>
+                  <Label htmlFor="checkout-seats">Seats</Label>
+                  <Input
+                    id="checkout-seats"
+                    type="number"
+                    min={Math.max(members.length, 1)}
+                    value={seats}
+                    onChange={(e) => setSeats(parseInt(e.target.value, 10) || 1)}
+                  />
+                </div>
+              </div>
+              <PaymentMethodSelector selectedMethod={paymentMethod} onChange={setPaymentMethod} methods={['stripe', 'paystack']} />
+              <EmailVerificationAlert />
+            </CardContent>
+            <CardFooter>
+              <Button
+                onClick={() => checkoutMutation.mutate()}
+                disabled={!planName || checkoutMutation.isPending}
+              >
+                {checkoutMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Continue to Payment
+              </Button>
+            </CardFooter>
+          </Card>
+        )}
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Members</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>User</TableHead>
+                  <TableHead>Email</TableHead>
+                  <TableHead>Role</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {members.map(member => (
+                  <TableRow key={member.userId}>
+                    <TableCell>{member.username}</TableCell>
+                    <TableCell>{member.email || '—'}</TableCell>
+                    <TableCell>
+                      {isOwner && member.role !== 'owner' ? (
+                        <Select
+                          value={member.role}
+                          onValueChange={(value) => roleMutation.mutate({ userId: member.userId, role: value })}
+                        >
+                          <SelectTrigger className="w-32">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="admin">Admin</SelectItem>
+                            <SelectItem value="member">Member</SelectItem>
+                          </SelectContent>
+                        </Select>
+                      ) : (
+                        <span className="capitalize">{member.role}</span>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {member.role !== 'owner' && (member.userId === user?.id || isOwner || (canManage && member.role === 'member')) && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => removeMutation.mutate(member.userId)}
+                          disabled={removeMutation.isPending}
+                        >
+                          {member.userId === user?.id ? 'Leave' : <Trash2 className="h-4 w-4" />}
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+
+        {canManage && (
+          <Card>
+            <CardHeader>
+              <CardTitle>Invitations</CardTitle>
+              <CardDescription>
+                Pending invitations hold a seat for 7 days
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="flex flex-col md:flex-row gap-2">
+                <Input
+                  type="email"
+                  placeholder="colleague@example.com"
+                  value={inviteEmail}
+                  onChange={(e) => setInviteEmail(e.target.value)}
+                />
+                <Select value={inviteRole} onValueChange={(value) => setInviteRole(value as 'member' | 'admin')}>
+                  <SelectTrigger className="md:w-32">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="member">Member</SelectItem>
+                    <SelectItem value="admin">Admin</SelectItem>
+                  </SelectContent>
+                </Select>
+                <Button
+                  onClick={() => inviteMutation.mutate()}
+                  disabled={!inviteEmail || inviteMutation.isPending || seatsUsed >= organization.seats}
+                >
+                  <UserPlus className="mr-2 h-4 w-4" />
+                  Invite
+                </Button>
+              </div>
+
+              {lastInviteUrl && (
+                <div className="flex items-center gap-2 text-sm">
+                  <Input readOnly value={lastInviteUrl} />
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => navigator.clipboard.writeText(lastInviteUrl)}
+                  >
+                    <Copy className="h-4 w-4" />
+                  </Button>
+                </div>
+              )}
+
+              {invitations.length > 0 && (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Email</TableHead>
+                      <TableHead>Role</TableHead>
+                      <TableHead>Expires</TableHead>
+                      <TableHead className="text-right">Actions</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {invitations.map(invitation => (
+                      <TableRow key={invitation.id}>
+                        <TableCell>{invitation.email}</TableCell>
+                        <TableCell className="capitalize">{invitation.role}</TableCell>
+                        <TableCell>{new Date(invitation.expiresAt).toLocaleDateString()}</TableCell>
+                        <TableCell className="text-right">
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => revokeMutation.mutate(invitation.id)}
+                            disabled={revokeMutation.isPending}
+                          >
+                            Revoke
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+        )}
+
+        {isOwner && !isPaid && (
+          <div className="flex justify-end">
+            <Button
+              variant="ghost"
+              className="text-destructive"
+              onClick={() => deleteMutation.mutate()}
+              disabled={deleteMutation.isPending}
+            >
+              Delete Organization
+            </Button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -15,6 +15,7 @@ import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
 import { apiRequest } from '@/lib/queryClient';
+import { formatCurrency } from '@/lib/utils';
 import { countries } from '@/lib/countries';
 import { formatCardNumber, formatExpiryDate, validateCard, getCardType, CardType } from '@/lib/card-validator';
 
@@ -101,9 +102,15 @@ export default function PaystackCheckout() {
     },
   });
 
-  // State for plan price
+  // State for plan price, in the currency chosen on the subscription page
   const [planPrice, setPlanPrice] = useState<number>(0);
+  const [currency, setCurrency] = useState<string>('USD');
   const [planDetails, setPlanDetails] = useState<any>(null);
+  const formatPrice = (amount: number) => formatCurrency(Math.round(amount * 100), currency);
+  
+  // Coupon applied on the subscription page, with the discount the server worked out
+  const [coupon, setCoupon] = useState<{ code: string; summary: string; discount: number; amountDue: number } | null>(null);
+  const totalPrice = coupon ? coupon.amountDue / 100 : planPrice;
   
   // Get path parameters using Wouter's useRoute
   // Match the "/checkout/paystack/:plan/:ref" pattern
@@ -113,8 +120,12 @@ export default function PaystackCheckout() {
   useEffect(() => {
     // Get URL parameters from path
     const urlParams = new URLSearchParams(window.location.search);
-    // Get price from query parameter
+    // Get price and currency from query parameters
     const price = urlParams.get('price');
+    const currencyParam = urlParams.get('currency');
+    if (currencyParam) {
+      setCurrency(currencyParam);
+    }
     
     // Use the URL path parameters instead of query parameters
     const plan = params?.plan;
@@ -136,7 +147,7 @@ export default function PaystackCheckout() {
           setPlanPrice(parseFloat(price));
         } else {
           // If not in URL, fetch from API
-          const response = await fetch(`/api/subscription-plans`);
+          const response = await fetch(`/api/subscription-plans${currencyParam ? `?currency=${currencyParam}` : ''}`);
           if (!response.ok) {
             throw new Error('Failed to fetch subscription plans');
           }
@@ -146,8 +157,9 @@ export default function PaystackCheckout() {
           
           if (planData) {
             setPlanDetails(planData);
-            // Convert price from cents to dollars for display
-            setPlanPrice(planData.price / 100);
+            // Convert price from the smallest unit for display
+            setPlanPrice(planData.displayPrice / 100);
+            setCurrency(planData.currency);
           } else {
             throw new Error('Plan not found');
           }
@@ -159,6 +171,20 @@ export default function PaystackCheckout() {
     };
     
     fetchPlanData();
+    
+    const couponCode = urlParams.get('coupon');
+    if (couponCode) {
+      apiRequest('POST', '/api/promotions/validate', { code: couponCode, planName: plan, currency: currencyParam || undefined })
+        .then(response => response.json())
+        .then(data => setCoupon(data))
+        .catch((err: Error) => {
+          toast({
+            title: 'Coupon not applied',
+            description: err.message,
+            variant: 'destructive',
+          });
+        });
+    }
   }, [params]);
 
   const handleBackToSubscription = () => {
@@ -199,6 +225,8 @@ export default function PaystackCheckout() {
       const response = await apiRequest('POST', '/api/confirm-subscription', {
         reference: planRef,
         plan: planName,
+        couponCode: coupon?.code,
+        currency,
         cardDetails // Send card details to the server
       });
       
@@ -331,7 +359,7 @@ export default function PaystackCheckout() {
                 Thank you for subscribing to our {planName} plan!
               </p>
               <div className="bg-muted/50 p-3 rounded-md mb-4 text-left">
-                <p className="text-sm mb-1"><span className="font-semibold">Amount:</span> ${planPrice.toFixed(2)}</p>
+                <p className="text-sm mb-1"><span className="font-semibold">Amount:</span> {formatPrice(totalPrice)}</p>
                 <p className="text-sm mb-1"><span className="font-semibold">Plan:</span> {planName}</p>
                 <p className="text-sm mb-1"><span className="font-semibold">Reference:</span> <span className="font-mono text-xs">{planRef}</span></p>
                 <p className="text-sm"><span className="font-semibold">Next Billing Date:</span> {new Date(Date.now() + 30 * 24 * 60 * 60 * 1000).toLocaleDateString()}</p>
@@ -689,8 +717,14 @@ export default function PaystackCheckout() {
                   </div>
                   <div className="flex justify-between mb-2">
                     <span>Price</span>
-                    <span className="font-medium">${planPrice.toFixed(2)}/month</span>
+                    <span className="font-medium">{formatPrice(planPrice)}/month</span>
                   </div>
+                  {coupon && (
+                    <div className="flex justify-between mb-2 text-green-600">
+                      <span>Discount ({coupon.code})</span>
+                      <span className="font-medium">-{formatCurrency(coupon.discount, currency)}</span>
+                    </div>
+                  )}
                   <div className="flex justify-between">
                     <span>Reference</span>
                     <span className="font-mono text-xs">{planRef}</span>
@@ -698,8 +732,11 @@ export default function PaystackCheckout() {
                   <Separator className="my-3" />
                   <div className="flex justify-between font-semibold pt-2">
                     <span>Total</span>
-                    <span>${planPrice.toFixed(2)}</span>
+                    <span>{formatPrice(totalPrice)}</span>
                   </div>
+                  {coupon && (
+                    <p className="text-xs text-muted-foreground mt-1">{coupon.summary}, then {formatPrice(planPrice)}/month</p>
+                  )}
                 </div>
                 
                 <div className="flex justify-between">
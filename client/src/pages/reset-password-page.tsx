@@ -0,0 +1,130 @@
+import { useState } from 'react';
+import { useMutation } from '@tanstack/react-query';
+import { Link, useLocation } from 'wouter';
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Loader2, AlertCircle, KeyRound } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+
+const MIN_PASSWORD_LENGTH = 8;
+
+export default function ResetPasswordPage() {
+  const [, setLocation] = useLocation();
+  const { toast } = useToast();
+  const [token] = useState(() => new URLSearchParams(window.location.search).get('token'));
+  const [password, setPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+
+  const resetMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', '/api/reset-password', { token, password });
+      return response.json();
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/user'] });
+      // Accounts with two-factor on sign in again with the new password and a code
+      if (data.signInRequired) {
+        toast({
+          title: 'Password changed',
+          description: 'Sign in with your new password and a two-factor code.',
+        });
+        setLocation('/auth');
+        return;
+      }
+      toast({
+        title: 'Password changed',
+        description: "You've been signed out on every other device.",
+      });
+      setLocation('/dashboard');
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Could not reset password',
+        description: error.message,
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const tooShort = password.length > 0 && password.length < MIN_PASSWORD_LENGTH;
+  const mismatch = confirmPassword.length > 0 && password !== confirmPassword;
+
+  return (
+    <div className="container py-8">
+      <div className="max-w-lg mx-auto">
+        {!token ? (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertTitle>Invalid link</AlertTitle>
+            <AlertDescription>
+              This reset link is incomplete. <Link href="/forgot-password" className="underline">Request a new one</Link>.
+            </AlertDescription>
+          </Alert>
+        ) : (
+          <Card>
+            <CardHeader>
+              <div className="flex items-center gap-3">
+                <KeyRound className="h-6 w-6 text-primary" />
+                <CardTitle>Choose a new password</CardTitle>
+              </div>
+              <CardDescription>
+                Changing your password signs you out on every other device.
+              </CardDescription>
+            </CardHeader>
+            <form
+              onSubmit={(e) => {
+                e.preventDefault();
+                resetMutation.mutate();
+              }}
+            >
+              <CardContent className="space-y-4">
+                <div className="space-y-2">
+                  <Label htmlFor="new-password">New password</Label>
+                  <Input
+                    id="new-password"
+                    type="password"
+                    autoComplete="new-password"
+                    value={password}
+                    onChange={(e) => setPassword(e.target.value)}
+                  />
+                  {tooShort && (
+                    <p className="text-xs text-destructive">Password must be at least {MIN_PASSWORD_LENGTH} characters</p>
+                  )}
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="confirm-password">Confirm password</Label>
+                  <Input
+                    id="confirm-password"
+                    type="password"
+                    autoComplete="new-password"
+                    value={confirmPassword}
+                    onChange={(e) => setConfirmPassword(e.target.value)}
+                  />
+                  {mismatch && <p className="text-xs text-destructive">Passwords don't match</p>}
+                </div>
+                {resetMutation.isError && (
+                  <p className="text-sm text-muted-foreground">
+                    Links expire after an hour and work once. <Link href="/forgot-password" className="underline">Request a new link</Link>.
+                  </p>
+                )}
+              </CardContent>
+              <CardFooter>
+                <Button
+                  type="submit"
+                  disabled={password.length < MIN_PASSWORD_LENGTH || password !== confirmPassword || resetMutation.isPending}
+                >
+                  {resetMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  Change password
+                </Button>
+              </CardFooter>
+            </form>
+          </Card>
+        )}
+      </div>
+    </div>
+  );
+}
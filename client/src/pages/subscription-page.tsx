@@ -1,15 +1,20 @@
-import { useState } from 'react';
+import { useState, useEffect } from 'react';
 import { useQuery, useMutation } from '@tanstack/react-query';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
-import { Loader2, AlertCircle, CheckCircle, Shield, Home } from 'lucide-react';
+import { Loader2, AlertCircle, CheckCircle, Shield, Home, CalendarClock, Gift, Tag, Ticket, X } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
 import { useAuth } from '@/hooks/use-auth';
 import { Link } from 'wouter';
 import PlanCard from '@/components/subscription/plan-card';
 import { PaymentMethodSelector, PaymentMethod } from '@/components/subscription/payment-method-selector';
-import { SubscriptionPlan } from '@shared/schema';
+import BillingHistory from '@/components/subscription/billing-history';
+import PlanChangeDialog from '@/components/subscription/plan-change-dialog';
+import EmailVerificationAlert from '@/components/subscription/email-verification-alert';
+import { LocalizedSubscriptionPlan } from '@shared/schema';
 import { apiRequest, queryClient } from '@/lib/queryClient';
 
 export default function SubscriptionPage() {
@@ -17,10 +22,22 @@ export default function SubscriptionPage() {
   const { user } = useAuth();
   const [processingPlanId, setProcessingPlanId] = useState<number | null>(null);
   const [paymentMethod, setPaymentMethod] = useState<PaymentMethod>('stripe');
+  const [changePlanName, setChangePlanName] = useState<string | null>(null);
+  const [couponInput, setCouponInput] = useState('');
+  const [voucherInput, setVoucherInput] = useState('');
+  const [appliedCoupon, setAppliedCoupon] = useState<{ code: string; summary: string } | null>(null);
+  const [selectedCurrency, setSelectedCurrency] = useState<string | null>(null);
   
-  const { data: plans, isLoading: plansLoading, error: plansError } = useQuery({
-    queryKey: ['/api/subscription-plans'],
-    queryFn: () => fetch('/api/subscription-plans').then(res => res.json()),
+  // The server picks a currency from the user's choice or their country
+  const { data: pricing } = useQuery<{ currencies: string[]; currency: string }>({
+    queryKey: ['/api/pricing/currencies'],
+  });
+  const currency = selectedCurrency || pricing?.currency;
+  
+  const { data: plans, isLoading: plansLoading, error: plansError } = useQuery<LocalizedSubscriptionPlan[]>({
+    queryKey: ['/api/subscription-plans', currency],
+    queryFn: () => fetch(`/api/subscription-plans?currency=${currency}`).then(res => res.json()),
+    enabled: !!currency,
   });
   
   const { data: currentSubscription, isLoading: subscriptionLoading } = useQuery({
@@ -29,11 +46,109 @@ export default function SubscriptionPage() {
     enabled: !!user,
   });
   
+  const { data: trialOffer } = useQuery<{ available: boolean; planName: string; days: number }>({
+    queryKey: ['/api/promotions/trial'],
+    enabled: !!user,
+  });
+  
+  const couponMutation = useMutation({
+    mutationFn: async (code: string) => {
+      const response = await apiRequest('POST', '/api/promotions/validate', { code });
+      return response.json();
+    },
+    onSuccess: (data) => {
+      setAppliedCoupon({ code: data.code, summary: data.summary });
+      setCouponInput('');
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Coupon Error',
+        description: error.message,
+        variant: 'destructive',
+      });
+    },
+  });
+  
+  const currencyMutation = useMutation({
+    mutationFn: async (newCurrency: string) => {
+      const response = await apiRequest('PUT', '/api/pricing/currency', { currency: newCurrency });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/pricing/currencies'] });
+    },
+    onError: (error: Error) => {
+      setSelectedCurrency(null);
+      toast({
+        title: 'Currency Error',
+        description: error.message,
+        variant: 'destructive',
+      });
+    },
+  });
+  
+  const handleCurrencyChange = (newCurrency: string) => {
+    setSelectedCurrency(newCurrency);
+    // Remember the choice for signed-in users so checkout and renewals use it
+    if (user) {
+      currencyMutation.mutate(newCurrency);
+    }
+  };
+  
+  const trialMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', '/api/promotions/trial');
+      return response.json();
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/subscription'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/promotions/trial'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/user'] });
+      toast({
+        title: 'Trial Started',
+        description: `Enjoy the ${data.subscription} plan until ${new Date(data.expiryDate).toLocaleDateString()}.`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Trial Error',
+        description: error.message,
+        variant: 'destructive',
+      });
+    },
+  });
+  
+  const voucherMutation = useMutation({
+    mutationFn: async (code: string) => {
+      const response = await apiRequest('POST', '/api/vouchers/redeem', { code });
+      return response.json();
+    },
+    onSuccess: (data) => {
+      setVoucherInput('');
+      queryClient.invalidateQueries({ queryKey: ['/api/subscription'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/promotions/trial'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/user'] });
+      toast({
+        title: 'Voucher Redeemed',
+        description: `${data.durationDays} days of ${data.planName} added. Your plan now runs until ${new Date(data.expiryDate).toLocaleDateString()}.`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Voucher Error',
+        description: error.message,
+        variant: 'destructive',
+      });
+    },
+  });
+  
   const subscriptionMutation = useMutation({
-    mutationFn: async (plan: SubscriptionPlan) => {
+    mutationFn: async (plan: LocalizedSubscriptionPlan) => {
       const response = await apiRequest('POST', '/api/initialize-payment', { 
         planName: plan.name,
-        paymentMethod
+        paymentMethod,
+        couponCode: appliedCoupon?.code,
+        currency: plan.currency
       });
       return response.json();
     },
@@ -41,19 +156,20 @@ export default function SubscriptionPage() {
       console.log('Payment initialization successful:', data);
       
       if (data.success) {
-        if (data.paymentProvider === 'stripe' && data.url) {
-          // Redirect to Stripe hosted checkout
+        if ((data.paymentProvider === 'stripe' || data.paymentProvider === 'flutterwave') && data.url) {
+          // Redirect to the provider's hosted checkout
           window.location.href = data.url;
         } else if (data.paymentProvider === 'paystack' && data.authorizationUrl) {
           // Redirect to our Paystack checkout page
-          const selectedPlan = plans.find((p: SubscriptionPlan) => p.name === data.planName);
-          const planPrice = selectedPlan ? (selectedPlan.price / 100) : 0; // Convert from cents to dollars
+          const selectedPlan = plans?.find((p) => p.name === data.planName);
+          const planPrice = selectedPlan ? (selectedPlan.displayPrice / 100) : 0; // Convert from the smallest unit
           
           // Extract reference from authorizationUrl
           const ref = data.reference || data.authorizationUrl.split('ref=')[1]?.split('&')[0];
           
           // Use new URL path format to avoid query parameter issues
-          const checkoutUrl = `/checkout/paystack/${data.planName}/${ref}?price=${planPrice}`;
+          const couponParam = data.couponCode ? `&coupon=${encodeURIComponent(data.couponCode)}` : '';
+          const checkoutUrl = `/checkout/paystack/${data.planName}/${ref}?price=${planPrice}&currency=${data.currency}${couponParam}`;
           window.location.href = checkoutUrl;
         } else if (data.redirectUrl) {
           // Free plan or other non-payment scenario with redirect
@@ -94,7 +210,70 @@ export default function SubscriptionPage() {
     },
   });
   
-  const handleSelectPlan = (plan: SubscriptionPlan) => {
+  // Flutterwave sends the user back with their payment's reference
+  const verifyPaymentMutation = useMutation({
+    mutationFn: async (reference: string) => {
+      const response = await apiRequest('POST', '/api/payments/flutterwave/verify', { reference });
+      return response.json();
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/subscription'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/user'] });
+      toast({
+        title: data.success ? 'Payment Successful' : 'Payment Processing',
+        description: data.success
+          ? `Your ${data.plan} plan is active until ${new Date(data.expiryDate).toLocaleDateString()}.`
+          : 'Your payment is still being processed. Your plan will update once it completes.',
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Payment Error',
+        description: error.message,
+        variant: 'destructive',
+      });
+    },
+  });
+  
+  useEffect(() => {
+    const params = new URLSearchParams(window.location.search);
+    const reference = params.get('tx_ref');
+    if (params.get('provider') !== 'flutterwave' || !reference) {
+      return;
+    }
+    if (params.get('status') === 'cancelled') {
+      toast({
+        title: 'Payment Cancelled',
+        description: 'Your subscription has not been changed.',
+      });
+    } else {
+      verifyPaymentMutation.mutate(reference);
+    }
+    window.history.replaceState({}, '', '/subscription');
+  }, []);
+  
+  const cancelPendingMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('DELETE', '/api/subscription/change');
+      return response.json();
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/subscription'] });
+      toast({
+        title: 'Plan change cancelled',
+        description: data.message,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Error',
+        description: `Failed to cancel plan change: ${error.message}`,
+        variant: 'destructive',
+      });
+    },
+  });
+  
+  const handleSelectPlan = (plan: LocalizedSubscriptionPlan) => {
     if (!user) {
       toast({
         title: 'Authentication Required',
@@ -114,11 +293,19 @@ export default function SubscriptionPage() {
       return;
     }
     
+    // Users already paying for a plan change it in place instead of checking out again
+    const currentPlan = plans?.find((p) => p.name === currentSubscription?.subscription);
+    const hasPaidPeriod = currentSubscription?.expiryDate && new Date(currentSubscription.expiryDate) > new Date();
+    if (currentPlan && currentPlan.price > 0 && hasPaidPeriod && currentSubscription.status !== 'trialing') {
+      setChangePlanName(plan.name);
+      return;
+    }
+    
     setProcessingPlanId(plan.id);
     subscriptionMutation.mutate(plan);
   };
   
-  if (plansLoading || subscriptionLoading) {
+  if (!currency || plansLoading || subscriptionLoading) {
     return (
       <div className="flex items-center justify-center min-h-[calc(100vh-4rem)]">
         <Loader2 className="h-8 w-8 animate-spin text-primary" />
@@ -126,7 +313,7 @@ export default function SubscriptionPage() {
     );
   }
   
-  if (plansError) {
+  if (plansError || !plans) {
     return (
       <div className="container py-6">
         <Alert variant="destructive">
@@ -170,15 +357,55 @@ export default function SubscriptionPage() {
               <Shield className="h-4 w-4" />
               <AlertTitle>Current Subscription</AlertTitle>
               <AlertDescription>
-                You are currently on the <strong className="capitalize">{currentSubscription.subscription}</strong> plan
+                You are currently on the <strong className="capitalize">{currentSubscription.subscription}</strong>
+                {currentSubscription.status === 'trialing' ? ' free trial' : ' plan'}
                 {currentSubscription.expiryDate && (
                   <> until {new Date(currentSubscription.expiryDate).toLocaleDateString()}</>
                 )}
               </AlertDescription>
             </Alert>
+            {currentSubscription.pendingSubscription && (
+              <Alert className="mt-4">
+                <CalendarClock className="h-4 w-4" />
+                <AlertTitle>Scheduled Plan Change</AlertTitle>
+                <AlertDescription className="flex flex-wrap items-center justify-between gap-2">
+                  <span>
+                    Your plan changes to <strong className="capitalize">{currentSubscription.pendingSubscription}</strong>
+                    {currentSubscription.pendingSubscriptionAt && (
+                      <> on {new Date(currentSubscription.pendingSubscriptionAt).toLocaleDateString()}</>
+                    )}
+                  </span>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => cancelPendingMutation.mutate()}
+                    disabled={cancelPendingMutation.isPending}
+                  >
+                    {cancelPendingMutation.isPending && <Loader2 className="h-4 w-4 mr-1 animate-spin" />}
+                    Keep current plan
+                  </Button>
+                </AlertDescription>
+              </Alert>
+            )}
           </div>
         )}
         
+        <EmailVerificationAlert />
+        
+        {trialOffer?.available && (
+          <Alert>
+            <Gift className="h-4 w-4" />
+            <AlertTitle>Try <span className="capitalize">{trialOffer.planName}</span> free for {trialOffer.days} days</AlertTitle>
+            <AlertDescription className="flex flex-wrap items-center justify-between gap-2">
+              <span>No payment needed. You'll go back to the free plan when the trial ends unless you subscribe.</span>
+              <Button size="sm" onClick={() => trialMutation.mutate()} disabled={trialMutation.isPending}>
+                {trialMutation.isPending && <Loader2 className="h-4 w-4 mr-1 animate-spin" />}
+                Start free trial
+              </Button>
+            </AlertDescription>
+          </Alert>
+        )}
+        
         {/* Payment Method Selection Section - moved to top */}
         <div className="bg-muted p-4 sm:p-6 rounded-lg mb-6">
           <h2 className="text-xl font-semibold mb-2">Payment Method</h2>
@@ -189,8 +416,85 @@ export default function SubscriptionPage() {
             selectedMethod={paymentMethod}
             onChange={setPaymentMethod}
           />
+          
+          <div className="mt-4 flex items-center gap-2">
+            <span className="text-sm text-muted-foreground">Pay in</span>
+            <Select value={currency} onValueChange={handleCurrencyChange}>
+              <SelectTrigger className="w-[120px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(pricing?.currencies || [currency]).map((code) => (
+                  <SelectItem key={code} value={code}>{code}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          
+          <div className="mt-4">
+            {appliedCoupon ? (
+              <div className="flex items-center gap-2 text-sm">
+                <Tag className="h-4 w-4 text-green-600" />
+                <span>
+                  <strong>{appliedCoupon.code}</strong>: {appliedCoupon.summary}
+                </span>
+                <Button variant="ghost" size="icon" className="h-6 w-6" onClick={() => setAppliedCoupon(null)} title="Remove coupon">
+                  <X className="h-4 w-4" />
+                </Button>
+              </div>
+            ) : (
+              <form
+                className="flex gap-2 max-w-sm"
+                onSubmit={(e) => {
+                  e.preventDefault();
+                  if (couponInput.trim()) couponMutation.mutate(couponInput.trim());
+                }}
+              >
+                <Input
+                  placeholder="Coupon code"
+                  value={couponInput}
+                  onChange={(e) => setCouponInput(e.target.value)}
+                />
+                <Button type="submit" variant="outline" disabled={!couponInput.trim() || couponMutation.isPending}>
+                  {couponMutation.isPending && <Loader2 className="h-4 w-4 mr-1 animate-spin" />}
+                  Apply
+                </Button>
+              </form>
+            )}
+          </div>
         </div>
         
+        {user && (
+          <div className="rounded-lg border p-4 sm:p-6">
+            <div className="flex items-center gap-2 mb-2">
+              <Ticket className="h-5 w-5" />
+              <h2 className="text-lg font-semibold">Have a voucher?</h2>
+            </div>
+            <p className="text-sm text-muted-foreground mb-4">
+              Enter the code from a prepaid voucher to add its days to your plan
+            </p>
+            <form
+              className="flex gap-2 max-w-md"
+              onSubmit={(e) => {
+                e.preventDefault();
+                if (voucherInput.trim()) voucherMutation.mutate(voucherInput.trim());
+              }}
+            >
+              <Input
+                placeholder="XXXX-XXXX-XXXX-XXXX"
+                className="font-mono uppercase"
+                autoComplete="off"
+                value={voucherInput}
+                onChange={(e) => setVoucherInput(e.target.value)}
+              />
+              <Button type="submit" variant="outline" disabled={!voucherInput.trim() || voucherMutation.isPending}>
+                {voucherMutation.isPending && <Loader2 className="h-4 w-4 mr-1 animate-spin" />}
+                Redeem
+              </Button>
+            </form>
+          </div>
+        )}
+        
         <div className="grid grid-cols-1 gap-4 sm:gap-6 md:grid-cols-2 lg:grid-cols-4">
           {sortedPlans.map((plan) => (
             <PlanCard
@@ -213,6 +517,10 @@ export default function SubscriptionPage() {
           </p>
         </div>
         
+        {user && <BillingHistory />}
+        
+        <PlanChangeDialog planName={changePlanName} onClose={() => setChangePlanName(null)} />
+        
         <div className="bg-muted rounded-lg p-4 sm:p-6 mt-8 sm:mt-10">
           <div className="grid gap-4 sm:gap-6 md:grid-cols-2 lg:grid-cols-3">
             <Card>
@@ -0,0 +1,73 @@
+import { useEffect, useState } from 'react';
+import { useMutation } from '@tanstack/react-query';
+import { Link } from 'wouter';
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Loader2, AlertCircle, MailCheck } from 'lucide-react';
+import { useAuth } from '@/hooks/use-auth';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+
+export default function VerifyEmailPage() {
+  const { user } = useAuth();
+  const [token] = useState(() => new URLSearchParams(window.location.search).get('token'));
+
+  const verifyMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', '/api/verify-email', { token });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/user'] });
+    },
+  });
+
+  useEffect(() => {
+    if (token) {
+      verifyMutation.mutate();
+    }
+  }, [token]);
+
+  const failed = !token || verifyMutation.isError;
+
+  return (
+    <div className="container py-8">
+      <div className="max-w-lg mx-auto">
+        {failed ? (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertTitle>Verification failed</AlertTitle>
+            <AlertDescription>
+              This link is invalid or has expired.
+              {user ? ' Send a new link from your subscription page.' : ' Sign in to send a new link.'}
+            </AlertDescription>
+          </Alert>
+        ) : !verifyMutation.isSuccess ? (
+          <div className="flex items-center justify-center min-h-[40vh]">
+            <Loader2 className="h-8 w-8 animate-spin text-primary" />
+          </div>
+        ) : (
+          <Card>
+            <CardHeader>
+              <div className="flex items-center gap-3">
+                <MailCheck className="h-6 w-6 text-primary" />
+                <CardTitle>Email verified</CardTitle>
+              </div>
+              <CardDescription>
+                {verifyMutation.data?.email} is confirmed as your email address.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="text-sm text-muted-foreground">
+              You can now subscribe to any paid plan.
+            </CardContent>
+            <CardFooter>
+              <Button asChild>
+                <Link href={user ? '/subscription' : '/auth'}>{user ? 'Choose a plan' : 'Sign in'}</Link>
+              </Button>
+            </CardFooter>
+          </Card>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,312 @@
+/**
+ * Account Data
+ *
+ * This module gives users control over the personal data kept about them. It's
+ * responsible for:
+ *
+ * 1. Building a downloadable export of a user's profile, settings, VPN sessions,
+ *    usage, payments and everything else stored against their account
+ * 2. Taking deletion requests: cancelling the user's provider subscriptions,
+ *    revoking their API tokens, signing them out everywhere and disconnecting
+ *    their tunnels straight away
+ * 3. Erasing the account once the cooling-off period has passed, keeping VPN
+ *    sessions and usage only in anonymized form
+ * 4. Letting users change their mind during the cooling-off period
+ *
+ * Invoices, payments and refunds are kept after erasure for the accounts, and
+ * the audit log is append-only, so neither is removed. Neither keeps the user's
+ * name or email address once the account is gone: the audit log refers to the
+ * users an action affected by ID. The one exception is staff, whose username
+ * stays on the admin actions they took, since accountability for changes to
+ * other people's accounts is the reason the log is kept.
+ */
+
+import { Request, Response } from 'express';
+import { storage } from './storage';
+import { comparePasswords, toPublicUser } from './auth';
+import { emailService } from './email';
+import { vpnTunnelService } from './vpn-tunnel';
+import { connectionStatistics } from './scaling';
+import { paymentProviders } from './payment-provider';
+import { User, BillingProvider, billingProviders, organizationRoles, subscriptionTiers } from '@shared/schema';
+
+const COOLING_OFF_DAYS = 30;
+const CHECK_INTERVAL = 60 * 60 * 1000; // 1 hour
+const STARTUP_DELAY = 2 * 60 * 1000; // Let the subscription scheduler go first
+const DELETE_CONFIRMATION = 'DELETE';
+
+/**
+ * A deletion request that can't go ahead, such as a wrong password
+ */
+export class AccountDataError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = 'AccountDataError';
+  }
+}
+
+class AccountDataService {
+  private isRunning = false;
+
+  constructor() {
+    setTimeout(() => this.run(), STARTUP_DELAY);
+
+    // Erase accounts whose cooling-off period has ended every hour
+    setInterval(() => this.run(), CHECK_INTERVAL);
+  }
+
+  /**
+   * Gather everything stored about a user into one document
+   *
+   * @param userId The user to export
+   * @returns The export, with secrets such as the password hash left out
+   */
+  async buildExport(userId: number): Promise<Record<string, unknown>> {
+    const data = await storage.getUserDataExport(userId);
+    if (!data) {
+      throw new AccountDataError('User not found', 404);
+    }
+
+    const profile = { ...toPublicUser(data.user), twoFactorEnabled: !!data.user.twoFactorEnabledAt };
+
+    return {
+      exportedAt: new Date().toISOString(),
+      profile,
+      settings: data.settings,
+      emailPreferences: data.emailPreferences,
+      devices: data.devices,
+      sessions: data.sessions,
+      usage: data.usage,
+      invoices: data.invoices,
+      payments: data.payments,
+      refunds: data.refunds,
+      couponRedemptions: data.couponRedemptions,
+      redeemedVouchers: data.redeemedVouchers.map(voucher => ({ code: voucher.code, redeemedAt: voucher.redeemedAt })),
+      referrals: { referredBy: data.referredBy, made: data.referralsMade },
+      organizationMembership: data.organizationMembership,
+      apiTokens: data.apiTokens.map(({ tokenHash, ...token }) => token),
+      emails: data.emails
+    };
+  }
+
+  /**
+   * Schedule a user's account for erasure, and end their subscription and
+   * access now
+   *
+   * @param user The user asking to be deleted
+   * @param password Their password, which Firebase users don't have
+   * @param confirmation The word they typed to confirm
+   * @returns The user, with the date they'll be erased
+   */
+  async requestDeletion(user: User, password: unknown, confirmation: unknown): Promise<User> {
+    if (confirmation !== DELETE_CONFIRMATION) {
+      throw new AccountDataError(`Type ${DELETE_CONFIRMATION} to confirm`);
+    }
+    if (!user.firebaseId && (typeof password !== 'string' || !password || !(await comparePasswords(password, user.password)))) {
+      throw new AccountDataError('Incorrect password', 403);
+    }
+    if (user.deletionScheduledAt) {
+      throw new AccountDataError('Your account is already scheduled for deletion', 409);
+    }
+
+    // Erasing the owner would leave the members' shared subscription with nobody to manage it
+    const membership = await storage.getOrganizationMembership(user.id);
+    if (membership?.role === organizationRoles.OWNER) {
+      throw new AccountDataError('Delete your organization before deleting your account', 409);
+    }
+
+    // Stop billing first, so a provider that's down doesn't leave a deleted account still paying
+    await this.cancelSubscriptions(user);
+
+    const revokedTokens = await storage.revokeAllApiTokens(user.id);
+    await this.disconnect(user);
+    const signedOut = await storage.deleteUserSessions(user.id);
+
+    const deleteAt = new Date(Date.now() + COOLING_OFF_DAYS * 24 * 60 * 60 * 1000);
+    const scheduled = (await storage.scheduleUserDeletion(user.id, deleteAt))!;
+    console.log(`User ${user.id} asked to delete their account, erasing on ${deleteAt.toISOString()}. Revoked ${revokedTokens} API tokens and ${signedOut} login sessions`);
+
+    await emailService.sendToUser(scheduled, 'accountDeletionScheduled', { deleteAt }, `account-deletion:${user.id}:${deleteAt.toISOString()}`);
+    return scheduled;
+  }
+
+  /**
+   * Keep an account that was scheduled for deletion. Cancelled subscriptions and
+   * revoked tokens stay that way.
+   */
+  async cancelDeletion(user: User): Promise<User> {
+    if (!user.deletionScheduledAt) {
+      throw new AccountDataError('Your account is not scheduled for deletion', 409);
+    }
+
+    const updated = (await storage.scheduleUserDeletion(user.id, null))!;
+    console.log(`User ${user.id} cancelled the deletion of their account`);
+    return updated;
+  }
+
+  /**
+   * Erase every account whose cooling-off period has ended
+   *
+   * @returns The number of accounts erased
+   */
+  async eraseDueAccounts(): Promise<number> {
+    const due = await storage.getUsersDueForDeletion(new Date());
+
+    let erased = 0;
+    for (const user of due) {
+      try {
+        // They may have connected again with a device config during the cooling-off period
+        await this.disconnect(user);
+        await storage.eraseUser(user.id);
+        erased++;
+        console.log(`Erased user ${user.id}, deletion requested for ${user.deletionScheduledAt?.toISOString()}`);
+      } catch (error) {
+        console.error(`Error erasing user ${user.id}:`, error);
+      }
+    }
+
+    return erased;
+  }
+
+  /**
+   * Cancel every provider subscription the user has, straight away
+   */
+  private async cancelSubscriptions(user: User): Promise<void> {
+    const subscriptions: { provider: BillingProvider; id: string | null }[] = [
+      { provider: billingProviders.STRIPE, id: user.stripeSubscriptionId },
+      { provider: billingProviders.PAYSTACK, id: user.paystackSubscriptionCode },
+      { provider: billingProviders.FLUTTERWAVE, id: user.flutterwaveSubscriptionId }
+    ];
+
+    for (const subscription of subscriptions) {
+      if (!subscription.id) {
+        continue;
+      }
+
+      const provider = paymentProviders.get(subscription.provider);
+      if (!provider) {
+        throw new AccountDataError("We couldn't cancel your subscription. Please contact support.", 503);
+      }
+
+      try {
+        await provider.cancelSubscription(subscription.id, { atPeriodEnd: false });
+      } catch (error: any) {
+        console.error(`Error canceling ${provider.displayName} subscription for user ${user.id}:`, error.response?.data || error);
+        throw new AccountDataError(`We couldn't cancel your ${provider.displayName} subscription. Please try again later.`, 502);
+      }
+    }
+
+    if (user.stripeSubscriptionId) {
+      await storage.updateStripeSubscriptionId(user.id, '');
+    }
+    if (user.paystackSubscriptionCode) {
+      await storage.updatePaystackCodes(user.id, { subscriptionCode: null });
+    }
+    if (user.flutterwaveSubscriptionId) {
+      await storage.updateFlutterwaveSubscriptionId(user.id, null);
+    }
+    if (user.subscription !== subscriptionTiers.FREE) {
+      await storage.updateUserSubscription(user.id, subscriptionTiers.FREE);
+    }
+  }
+
+  /**
+   * Close all of the user's tunnels
+   */
+  private async disconnect(user: User): Promise<void> {
+    for (const tunnel of vpnTunnelService.getUserTunnels(user.id)) {
+      await storage.endDeviceSession(user.id, tunnel.deviceId);
+      vpnTunnelService.closeTunnel(tunnel.deviceId);
+      connectionStatistics.recordDisconnection(tunnel.serverId);
+    }
+  }
+
+  private async run(): Promise<void> {
+    // Skip this run if the previous one is still going
+    if (this.isRunning) {
+      return;
+    }
+    this.isRunning = true;
+
+    try {
+      const erased = await this.eraseDueAccounts();
+      if (erased > 0) {
+        console.log(`Erased ${erased} account(s) after their cooling-off period`);
+      }
+    } catch (error) {
+      console.error('Error erasing deleted accounts:', error);
+    } finally {
+      this.isRunning = false;
+    }
+  }
+}
+
+// Export singleton instance
+export const accountDataService = new AccountDataService();
+
+function handleAccountDataError(res: Response, error: any, action: string) {
+  if (error instanceof AccountDataError) {
+    return res.status(error.status).json({ message: error.message });
+  }
+  console.error(`Error ${action}:`, error);
+  res.status(500).json({ message: `Error ${action}` });
+}
+
+export function setupAccountDataRoutes(app: any) {
+  // Download everything stored about the signed-in user
+  app.get('/api/account/export', async (req: Request, res: Response) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: 'Not authenticated' });
+    }
+
+    try {
+      const data = await accountDataService.buildExport(req.user.id);
+      res.setHeader('Content-Type', 'application/json; charset=utf-8');
+      res.setHeader('Content-Disposition', `attachment; filename="account-export-${new Date().toISOString().slice(0, 10)}.json"`);
+      res.send(JSON.stringify(data, null, 2));
+    } catch (error) {
+      handleAccountDataError(res, error, 'exporting account data');
+    }
+  });
+
+  // Ask for the account to be deleted, which signs the user out everywhere
+  app.post('/api/account/delete', async (req: Request, res: Response) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: 'Not authenticated' });
+    }
+
+    try {
+      const user = await storage.getUser(req.user.id);
+      if (!user) {
+        return res.status(404).json({ message: 'User not found' });
+      }
+
+      const scheduled = await accountDataService.requestDeletion(user, req.body.password, req.body.confirm);
+      req.logout((err) => {
+        if (err) {
+          console.error('Error signing out after account deletion request:', err);
+        }
+        res.json({ success: true, deletionScheduledAt: scheduled.deletionScheduledAt });
+      });
+    } catch (error) {
+      handleAccountDataError(res, error, 'deleting account');
+    }
+  });
+
+  // Keep an account that's waiting to be erased
+  app.post('/api/account/delete/cancel', async (req: Request, res: Response) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: 'Not authenticated' });
+    }
+
+    try {
+      const user = await storage.getUser(req.user.id);
+      if (!user) {
+        return res.status(404).json({ message: 'User not found' });
+      }
+      res.json(toPublicUser(await accountDataService.cancelDeletion(user)));
+    } catch (error) {
+      handleAccountDataError(res, error, 'cancelling account deletion');
+    }
+  });
+}
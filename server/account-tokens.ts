@@ -0,0 +1,125 @@
+/**
+ * Account Tokens
+ *
+ * This module signs the tokens in account emails, such as email verification and
+ * password reset links. It's responsible for:
+ *
+ * 1. Signing a user ID, purpose and expiry time with HMAC-SHA256, so tokens
+ *    don't need to be stored
+ * 2. Tying each token to the account detail it acts on, so a verification link
+ *    stops working when the email address changes and a reset link stops working
+ *    once the password has been changed with it
+ * 3. Checking a token and finding the user it was issued to
+ *
+ * Tokens are signed with ACCOUNT_TOKEN_SECRET, falling back to SESSION_SECRET.
+ */
+
+import crypto from 'crypto';
+import { storage } from './storage';
+import { User } from '@shared/schema';
+
+export const accountTokenPurposes = {
+  VERIFY_EMAIL: 'verify_email',
+  PASSWORD_RESET: 'password_reset'
+} as const;
+
+export type AccountTokenPurpose = typeof accountTokenPurposes[keyof typeof accountTokenPurposes];
+
+// Interface for what a token carries, before it's signed
+interface TokenPayload {
+  purpose: AccountTokenPurpose;
+  userId: number;
+  expiresAt: number; // Unix time in seconds
+}
+
+/**
+ * A token that's malformed, expired, or no longer matches its account
+ */
+export class AccountTokenError extends Error {
+  constructor(message: string = 'This link is invalid or has expired', public status: number = 400) {
+    super(message);
+    this.name = 'AccountTokenError';
+  }
+}
+
+class AccountTokenService {
+  /**
+   * Sign a token for a user
+   *
+   * @param user The user the token acts on
+   * @param purpose What the token can be used for
+   * @param ttlMs How long the token lasts
+   * @returns The token, safe to put in a URL
+   */
+  sign(user: User, purpose: AccountTokenPurpose, ttlMs: number): string {
+    const payload: TokenPayload = {
+      purpose,
+      userId: user.id,
+      expiresAt: Math.floor((Date.now() + ttlMs) / 1000)
+    };
+    const encoded = Buffer.from(JSON.stringify(payload)).toString('base64url');
+    return `${encoded}.${this.signature(encoded, user, purpose)}`;
+  }
+
+  /**
+   * Check a token and get the user it was issued to
+   *
+   * @param token The token from the link
+   * @param purpose What the token is being used for
+   * @returns The user, as they are now
+   */
+  async verify(token: string, purpose: AccountTokenPurpose): Promise<User> {
+    const [encoded, signature] = token.split('.');
+    if (!encoded || !signature) {
+      throw new AccountTokenError();
+    }
+
+    let payload: TokenPayload;
+    try {
+      payload = JSON.parse(Buffer.from(encoded, 'base64url').toString('utf8'));
+    } catch (error) {
+      throw new AccountTokenError();
+    }
+    if (payload.purpose !== purpose || typeof payload.userId !== 'number' || typeof payload.expiresAt !== 'number') {
+      throw new AccountTokenError();
+    }
+    if (payload.expiresAt * 1000 <= Date.now()) {
+      throw new AccountTokenError();
+    }
+
+    const user = await storage.getUser(payload.userId);
+    if (!user) {
+      throw new AccountTokenError();
+    }
+
+    // The signature covers the account detail the token is tied to, so this also
+    // fails once that detail has changed
+    const expected = this.signature(encoded, user, purpose);
+    if (expected.length !== signature.length || !crypto.timingSafeEqual(Buffer.from(expected), Buffer.from(signature))) {
+      throw new AccountTokenError();
+    }
+    return user;
+  }
+
+  private signature(encoded: string, user: User, purpose: AccountTokenPurpose): string {
+    return crypto.createHmac('sha256', this.getSecret())
+      .update(`${encoded}.${this.getBinding(user, purpose)}`)
+      .digest('base64url');
+  }
+
+  private getBinding(user: User, purpose: AccountTokenPurpose): string {
+    switch (purpose) {
+      case accountTokenPurposes.VERIFY_EMAIL:
+        return (user.email || '').toLowerCase();
+      case accountTokenPurposes.PASSWORD_RESET:
+        return user.password;
+    }
+  }
+
+  private getSecret(): string {
+    return process.env.ACCOUNT_TOKEN_SECRET || process.env.SESSION_SECRET || 'secured-vpn-service-secret';
+  }
+}
+
+// Export singleton instance
+export const accountTokens = new AccountTokenService();
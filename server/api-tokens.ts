@@ -0,0 +1,251 @@
+/**
+ * API Tokens
+ *
+ * This module lets users create personal access tokens for scripts that call
+ * the VPN API, instead of copying a session cookie. It's responsible for:
+ *
+ * 1. Creating tokens with a name, scopes and an expiry, and storing only a hash
+ *    of each one
+ * 2. Signing in requests that send a token as "Authorization: Bearer <token>",
+ *    and recording when and from where each token was last used
+ * 3. Keeping each token to the routes its scopes cover. Routes that aren't
+ *    listed here can't be reached with a token at all.
+ * 4. Letting users list and revoke their tokens
+ */
+
+import crypto from 'crypto';
+import { Request, Response, NextFunction } from 'express';
+import { z } from 'zod';
+import { storage } from './storage';
+import { ApiToken, ApiTokenScope, apiTokenScopes } from '@shared/schema';
+
+const TOKEN_PREFIX = 'vpnpat_'; // Lets verifyFirebaseToken tell our tokens from Firebase ID tokens
+const TOKEN_BYTES = 32;
+const DISPLAY_PREFIX_LENGTH = TOKEN_PREFIX.length + 6;
+const MAX_ACTIVE_TOKENS = 10;
+const MAX_EXPIRY_DAYS = 365;
+const LAST_USED_INTERVAL = 60 * 1000; // Record use at most once a minute per token
+
+// The routes a token can reach, and the scope each one needs
+const scopedRoutes: { method: string; path: RegExp; scope: ApiTokenScope }[] = [
+  { method: 'GET', path: /^\/api\/servers(\/regions)?\/?$/, scope: apiTokenScopes.SERVERS_READ },
+  { method: 'GET', path: /^\/api\/sessions(\/current)?\/?$/, scope: apiTokenScopes.SESSIONS_READ },
+  { method: 'GET', path: /^\/api\/tunnel\/status\/?$/, scope: apiTokenScopes.SESSIONS_READ },
+  { method: 'POST', path: /^\/api\/sessions\/(start|end)\/?$/, scope: apiTokenScopes.SESSIONS_WRITE },
+  { method: 'GET', path: /^\/api\/(usage|limits)\/?$/, scope: apiTokenScopes.USAGE_READ }
+];
+
+const createTokenSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(100),
+  scopes: z.array(z.enum(Object.values(apiTokenScopes) as [ApiTokenScope, ...ApiTokenScope[]]))
+    .min(1, 'Choose at least one scope'),
+  expiresInDays: z.number().int().min(1).max(MAX_EXPIRY_DAYS)
+});
+
+// A token as shown to its owner, without the hash
+export type ApiTokenSummary = Omit<ApiToken, 'tokenHash'>;
+
+/**
+ * A token request that can't be completed, such as an invalid or expired token
+ */
+export class ApiTokenError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = 'ApiTokenError';
+  }
+}
+
+class ApiTokenService {
+  /**
+   * Create a token for a user
+   *
+   * @returns The stored token and the token itself, which is only ever shown here
+   */
+  async create(userId: number, input: z.infer<typeof createTokenSchema>): Promise<{ token: ApiTokenSummary; secret: string }> {
+    const active = await storage.countActiveApiTokens(userId);
+    if (active >= MAX_ACTIVE_TOKENS) {
+      throw new ApiTokenError(`You can have up to ${MAX_ACTIVE_TOKENS} active tokens. Revoke one to create another.`);
+    }
+
+    const secret = TOKEN_PREFIX + crypto.randomBytes(TOKEN_BYTES).toString('hex');
+    const token = await storage.createApiToken({
+      userId,
+      name: input.name,
+      tokenHash: this.hash(secret),
+      tokenPrefix: secret.slice(0, DISPLAY_PREFIX_LENGTH),
+      scopes: Array.from(new Set(input.scopes)),
+      expiresAt: new Date(Date.now() + input.expiresInDays * 24 * 60 * 60 * 1000)
+    });
+
+    console.log(`User ${userId} created API token ${token.id} with scopes ${token.scopes.join(', ')}`);
+    return { token: this.summarize(token), secret };
+  }
+
+  /**
+   * List a user's tokens that haven't been revoked, including expired ones
+   */
+  async list(userId: number): Promise<ApiTokenSummary[]> {
+    const tokens = await storage.getUserApiTokens(userId);
+    return tokens.map(token => this.summarize(token));
+  }
+
+  /**
+   * Revoke one of a user's tokens, which stops it working straight away
+   */
+  async revoke(userId: number, id: number): Promise<void> {
+    const token = await storage.revokeApiToken(userId, id);
+    if (!token) {
+      throw new ApiTokenError('Token not found', 404);
+    }
+    console.log(`User ${userId} revoked API token ${id}`);
+  }
+
+  /**
+   * Whether a bearer token looks like one of ours rather than a Firebase ID token
+   */
+  isApiToken(bearer: string): boolean {
+    return bearer.indexOf(TOKEN_PREFIX) === 0;
+  }
+
+  /**
+   * Find the live token matching a bearer token, and note that it was used
+   *
+   * @param secret The token from the Authorization header
+   * @param ipAddress Where the request came from
+   * @returns The token, or undefined if it's unknown, revoked or expired
+   */
+  async authenticate(secret: string, ipAddress: string | null): Promise<ApiToken | undefined> {
+    const token = await storage.getApiTokenByHash(this.hash(secret));
+    if (!token || token.revokedAt || token.expiresAt.getTime() <= Date.now()) {
+      return undefined;
+    }
+
+    if (!token.lastUsedAt || Date.now() - token.lastUsedAt.getTime() > LAST_USED_INTERVAL) {
+      await storage.markApiTokenUsed(token.id, ipAddress);
+    }
+    return token;
+  }
+
+  /**
+   * The scope a request needs, or null if tokens can't be used for it
+   */
+  scopeFor(method: string, path: string): ApiTokenScope | null {
+    const route = scopedRoutes.find(route => route.method === method && route.path.test(path));
+    return route ? route.scope : null;
+  }
+
+  private summarize(token: ApiToken): ApiTokenSummary {
+    const { tokenHash, ...summary } = token;
+    return summary;
+  }
+
+  // Tokens are long and random, so a plain hash is enough to keep them safe at rest
+  private hash(secret: string): string {
+    return crypto.createHash('sha256').update(secret).digest('hex');
+  }
+}
+
+// Export singleton instance
+export const apiTokenService = new ApiTokenService();
+
+/**
+ * Sign in a request that sent an API token, if the token's scopes cover the route
+ *
+ * Unlike Firebase tokens, a bad API token is refused rather than falling back to
+ * the session, so scripts find out straight away that their token stopped working.
+ */
+export async function verifyApiToken(req: Request, res: Response, next: NextFunction) {
+  const secret = (req.headers.authorization || '').replace(/^Bearer /, '');
+
+  try {
+    const token = await apiTokenService.authenticate(secret, req.ip ?? null);
+    if (!token) {
+      return res.status(401).json({ message: 'Invalid or expired API token' });
+    }
+
+    const scope = apiTokenService.scopeFor(req.method, req.path);
+    if (!scope) {
+      return res.status(403).json({ message: "API tokens can't be used for this endpoint" });
+    }
+    if (token.scopes.indexOf(scope) === -1) {
+      return res.status(403).json({ message: `This token doesn't have the ${scope} scope` });
+    }
+
+    const user = await storage.getUser(token.userId);
+    if (!user) {
+      return res.status(401).json({ message: 'Invalid or expired API token' });
+    }
+
+    req.user = user;
+    // Type assertion to handle the authentication check
+    (req as any).isAuthenticated = () => true;
+
+    next();
+  } catch (error) {
+    console.error('API token verification failed:', error);
+    res.status(500).json({ message: 'Error verifying API token' });
+  }
+}
+
+function handleApiTokenError(res: Response, error: any, action: string) {
+  if (error instanceof ApiTokenError) {
+    return res.status(error.status).json({ message: error.message });
+  }
+  console.error(`Error ${action}:`, error);
+  res.status(500).json({ message: `Error ${action}` });
+}
+
+export function setupApiTokenRoutes(app: any) {
+  // List the signed-in user's tokens
+  app.get('/api/api-tokens', async (req: Request, res: Response) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: 'Not authenticated' });
+    }
+
+    try {
+      res.json(await apiTokenService.list(req.user.id));
+    } catch (error) {
+      handleApiTokenError(res, error, 'fetching API tokens');
+    }
+  });
+
+  // Create a token, returning it in full this once
+  app.post('/api/api-tokens', async (req: Request, res: Response) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: 'Not authenticated' });
+    }
+
+    const parsed = createTokenSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({
+        message: 'Invalid token details',
+        errors: parsed.error.errors
+      });
+    }
+
+    try {
+      res.status(201).json(await apiTokenService.create(req.user.id, parsed.data));
+    } catch (error) {
+      handleApiTokenError(res, error, 'creating API token');
+    }
+  });
+
+  // Revoke a token
+  app.delete('/api/api-tokens/:id', async (req: Request, res: Response) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: 'Not authenticated' });
+    }
+
+    const id = parseInt(req.params.id, 10);
+    if (isNaN(id)) {
+      return res.status(400).json({ message: 'Invalid token ID' });
+    }
+
+    try {
+      await apiTokenService.revoke(req.user.id, id);
+      res.json({ success: true });
+    } catch (error) {
+      handleApiTokenError(res, error, 'revoking API token');
+    }
+  });
+}
@@ -0,0 +1,224 @@
+/**
+ * Audit Log
+ *
+ * This module keeps a permanent record of privileged actions taken through the
+ * admin API. It's responsible for:
+ *
+ * 1. Recording who did what to which record, from which IP address, and the
+ *    fields that changed
+ * 2. Keeping secrets and bulky values, such as uploaded logos, out of the record
+ * 3. Letting admins search the log and export it as CSV
+ *
+ * Events are only ever added. Storage has no method to change or remove one,
+ * and the database refuses updates and deletes on the table. So that erasing an
+ * account leaves nothing here that names its user, the users an action affected
+ * are recorded by ID only. The acting staff member's username is kept as a record
+ * of who did what, which is what the log is for.
+ */
+
+import { Request, Response } from 'express';
+import { storage, AuditEventFilters } from './storage';
+import { requirePermission } from './permissions';
+import { AuditAction, AuditChanges, AuditEvent, auditActions, permissions } from '@shared/schema';
+
+const REDACTED_FIELDS = ['password', 'twoFactorSecret', 'secretKey', 'webhookSecret'];
+const IGNORED_FIELDS = ['updatedAt']; // Changes on every write, so it says nothing
+const MAX_VALUE_LENGTH = 500; // Longer strings are recorded by length only
+const DEFAULT_PAGE_SIZE = 100;
+const MAX_PAGE_SIZE = 500;
+const MAX_EXPORT_ROWS = 10000;
+
+// Interface for what a route tells the log about an action it took
+export interface AuditEntry {
+  action: AuditAction;
+  targetType?: string;
+  targetId?: string | number | null;
+  before?: Record<string, any> | null;
+  after?: Record<string, any> | null;
+  details?: Record<string, unknown>;
+}
+
+class AuditLogService {
+  /**
+   * Record an action taken by the signed-in user
+   *
+   * The action has already happened by the time this is called, so a failure
+   * to write the event is logged rather than passed on to undo the response.
+   *
+   * @param req The request that took the action
+   * @param entry What was done, and the record before and after
+   */
+  async record(req: Request, entry: AuditEntry): Promise<void> {
+    try {
+      await storage.createAuditEvent({
+        actorId: req.user?.id ?? null,
+        actorUsername: req.user?.username ?? null,
+        action: entry.action,
+        targetType: entry.targetType ?? null,
+        targetId: entry.targetId !== undefined && entry.targetId !== null ? String(entry.targetId) : null,
+        changes: this.diff(entry.before, entry.after),
+        details: entry.details ?? null,
+        ipAddress: req.ip ?? null
+      });
+    } catch (error) {
+      console.error(`Error recording audit event ${entry.action}:`, error);
+    }
+  }
+
+  /**
+   * Work out which fields differ between two versions of a record
+   *
+   * @returns Each changed field with its old and new value
+   */
+  diff(before?: Record<string, any> | null, after?: Record<string, any> | null): AuditChanges {
+    const changes: AuditChanges = {};
+    const keys = Array.from(new Set(Object.keys(before || {}).concat(Object.keys(after || {}))));
+
+    keys.forEach(key => {
+      if (IGNORED_FIELDS.indexOf(key) !== -1) {
+        return;
+      }
+
+      const from = before ? before[key] : undefined;
+      const to = after ? after[key] : undefined;
+      if (JSON.stringify(from) === JSON.stringify(to)) {
+        return;
+      }
+
+      changes[key] = { from: this.sanitize(key, from), to: this.sanitize(key, to) };
+    });
+
+    return changes;
+  }
+
+  /**
+   * Search the log, newest first
+   */
+  async list(filters: AuditEventFilters): Promise<AuditEvent[]> {
+    return await storage.getAuditEvents(filters);
+  }
+
+  /**
+   * Write events as CSV, one row per event
+   */
+  toCsv(events: AuditEvent[]): string {
+    const rows = [
+      ['id', 'created_at', 'actor_id', 'actor_username', 'action', 'target_type', 'target_id', 'changes', 'details', 'ip_address'],
+      ...events.map(event => [
+        event.id.toString(),
+        event.createdAt.toISOString(),
+        event.actorId !== null ? event.actorId.toString() : '',
+        event.actorUsername || '',
+        event.action,
+        event.targetType || '',
+        event.targetId || '',
+        JSON.stringify(event.changes),
+        event.details ? JSON.stringify(event.details) : '',
+        event.ipAddress || ''
+      ])
+    ];
+
+    return rows.map(row => row.map(value => this.escapeCsv(value)).join(',')).join('\r\n') + '\r\n';
+  }
+
+  private sanitize(key: string, value: any): unknown {
+    if (value === undefined || value === null) {
+      return null;
+    }
+    if (REDACTED_FIELDS.indexOf(key) !== -1) {
+      return '[redacted]';
+    }
+    if (value instanceof Date) {
+      return value.toISOString();
+    }
+    if (typeof value === 'string' && value.length > MAX_VALUE_LENGTH) {
+      return `[${value.length} characters]`;
+    }
+    return value;
+  }
+
+  private escapeCsv(value: string): string {
+    // Values an admin typed could start with a spreadsheet formula
+    const safe = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+    return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+  }
+}
+
+// Export singleton instance
+export const auditLog = new AuditLogService();
+
+// Read the search filters from a query string
+function parseFilters(query: Request['query'], maxLimit: number): AuditEventFilters | string {
+  const filters: AuditEventFilters = {};
+
+  if (query.actorId) {
+    const actorId = parseInt(query.actorId as string, 10);
+    if (isNaN(actorId)) return 'actorId must be a number';
+    filters.actorId = actorId;
+  }
+  if (query.action) {
+    const actions: string[] = Object.values(auditActions);
+    if (actions.indexOf(query.action as string) === -1) return 'Unknown action';
+    filters.action = query.action as string;
+  }
+  if (query.targetType) filters.targetType = query.targetType as string;
+  if (query.targetId) filters.targetId = query.targetId as string;
+  if (query.since) {
+    const since = new Date(query.since as string);
+    if (isNaN(since.getTime())) return 'since must be a date';
+    filters.since = since;
+  }
+  if (query.until) {
+    const until = new Date(query.until as string);
+    if (isNaN(until.getTime())) return 'until must be a date';
+    filters.until = until;
+  }
+
+  const limit = query.limit ? parseInt(query.limit as string, 10) : DEFAULT_PAGE_SIZE;
+  filters.limit = isNaN(limit) ? DEFAULT_PAGE_SIZE : Math.min(Math.max(limit, 1), maxLimit);
+
+  return filters;
+}
+
+export function setupAuditRoutes(app: any) {
+  // Search the audit log
+  app.get('/api/admin/audit-events', requirePermission(permissions.AUDIT_READ), async (req: Request, res: Response) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: 'Not authenticated' });
+    }
+
+    const filters = parseFilters(req.query, MAX_PAGE_SIZE);
+    if (typeof filters === 'string') {
+      return res.status(400).json({ message: filters });
+    }
+
+    try {
+      res.json(await auditLog.list(filters));
+    } catch (error) {
+      console.error('Error fetching audit events:', error);
+      res.status(500).json({ message: 'Error fetching audit events' });
+    }
+  });
+
+  // Download the events matching a search as CSV
+  app.get('/api/admin/audit-events/export', requirePermission(permissions.AUDIT_READ), async (req: Request, res: Response) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: 'Not authenticated' });
+    }
+
+    const filters = parseFilters({ ...req.query, limit: req.query.limit || String(MAX_EXPORT_ROWS) }, MAX_EXPORT_ROWS);
+    if (typeof filters === 'string') {
+      return res.status(400).json({ message: filters });
+    }
+
+    try {
+      const events = await auditLog.list(filters);
+      res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+      res.setHeader('Content-Disposition', `attachment; filename="audit-log-${new Date().toISOString().slice(0, 10)}.csv"`);
+      res.send(auditLog.toCsv(events));
+    } catch (error) {
+      console.error('Error exporting audit events:', error);
+      res.status(500).json({ message: 'Error exporting audit events' });
+    }
+  });
+}
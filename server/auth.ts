@@ -5,7 +5,12 @@ import session from "express-session";
 import { scrypt, randomBytes, timingSafeEqual } from "crypto";
 import { promisify } from "util";
 import { storage } from "./storage";
-import { User as SelectUser } from "@shared/schema";
+import { referralService } from "./referrals";
+import { emailService } from "./email";
+import { accountTokens, accountTokenPurposes, AccountTokenError } from "./account-tokens";
+import { twoFactorService } from "./two-factor";
+import { trackLoginSession } from "./login-sessions";
+import { User as SelectUser, insertUserSchema } from "@shared/schema";
 import createMemoryStore from "memorystore";
 
 declare global {
@@ -16,19 +21,74 @@ declare global {
 
 const scryptAsync = promisify(scrypt);
 
+const VERIFY_EMAIL_TTL = 48 * 60 * 60 * 1000; // 48 hours
+const PASSWORD_RESET_TTL = 60 * 60 * 1000; // 1 hour
+const ACCOUNT_EMAIL_INTERVAL = 5 * 60 * 1000; // At most one of each account email per user in this time
+const MIN_PASSWORD_LENGTH = 8;
+
+// The fields a new account may choose for itself
+const registrationSchema = insertUserSchema.pick({ username: true, password: true, email: true });
+
+// Account fields that are secrets rather than information about the user
+export const SECRET_USER_FIELDS = ["password", "twoFactorSecret", "twoFactorLastStep", "paystackAuthorizationCode"] as const;
+
+export type PublicUser = Omit<SelectUser, typeof SECRET_USER_FIELDS[number]>;
+
+// Copy a user without their secrets, for sending to the browser
+export function toPublicUser(user: SelectUser): PublicUser {
+  const publicUser: Record<string, unknown> = { ...user };
+  SECRET_USER_FIELDS.forEach(field => delete publicUser[field]);
+  return publicUser as PublicUser;
+}
+
 async function hashPassword(password: string) {
   const salt = randomBytes(16).toString("hex");
   const buf = (await scryptAsync(password, salt, 64)) as Buffer;
   return `${buf.toString("hex")}.${salt}`;
 }
 
-async function comparePasswords(supplied: string, stored: string) {
+export async function comparePasswords(supplied: string, stored: string) {
   const [hashed, salt] = stored.split(".");
   const hashedBuf = Buffer.from(hashed, "hex");
   const suppliedBuf = (await scryptAsync(supplied, salt, 64)) as Buffer;
   return timingSafeEqual(hashedBuf, suppliedBuf);
 }
 
+// Email a link that verifies the user's current address
+async function sendVerificationEmail(user: SelectUser) {
+  if (!user.email) {
+    return;
+  }
+
+  const token = accountTokens.sign(user, accountTokenPurposes.VERIFY_EMAIL, VERIFY_EMAIL_TTL);
+  await emailService.send(user.email, "verifyEmail", {
+    verifyUrl: `${emailService.getAppUrl()}/verify-email?token=${encodeURIComponent(token)}`,
+    expiresInHours: VERIFY_EMAIL_TTL / (60 * 60 * 1000)
+  }, {
+    userId: user.id,
+    username: user.username,
+    dedupeKey: `verify-email:${user.id}:${user.email.toLowerCase()}:${Math.floor(Date.now() / ACCOUNT_EMAIL_INTERVAL)}`
+  });
+}
+
+// Email a link that lets the user choose a new password. Links are built from
+// APP_URL rather than the request, so a forged Host header can't redirect them.
+async function sendPasswordResetEmail(user: SelectUser) {
+  if (!user.email) {
+    return;
+  }
+
+  const token = accountTokens.sign(user, accountTokenPurposes.PASSWORD_RESET, PASSWORD_RESET_TTL);
+  await emailService.send(user.email, "passwordReset", {
+    resetUrl: `${emailService.getAppUrl()}/reset-password?token=${encodeURIComponent(token)}`,
+    expiresInMinutes: PASSWORD_RESET_TTL / (60 * 1000)
+  }, {
+    userId: user.id,
+    username: user.username,
+    dedupeKey: `password-reset:${user.id}:${Math.floor(Date.now() / ACCOUNT_EMAIL_INTERVAL)}`
+  });
+}
+
 export function setupAuth(app: Express) {
   const sessionSettings: session.SessionOptions = {
     secret: process.env.SESSION_SECRET || "secured-vpn-service-secret",
@@ -47,6 +107,7 @@ export function setupAuth(app: Express) {
   app.use(session(sessionSettings));
   app.use(passport.initialize());
   app.use(passport.session());
+  app.use(trackLoginSession);
 
   passport.use(
     new LocalStrategy(async (username, password, done) => {
@@ -83,17 +144,45 @@ export function setupAuth(app: Express) {
   });
 
   app.post("/api/register", async (req, res, next) => {
+    // Only these come from the signup form, everything else on the account is set by the server
+    const parsed = registrationSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({
+        message: "Invalid registration details",
+        errors: parsed.error.errors
+      });
+    }
+
     try {
-      const existingUser = await storage.getUserByUsername(req.body.username);
+      const existingUser = await storage.getUserByUsername(parsed.data.username);
       if (existingUser) {
         return res.status(400).json({ message: "Username already exists" });
       }
 
+      const { referralCode } = req.body;
       const user = await storage.createUser({
-        ...req.body,
-        password: await hashPassword(req.body.password),
+        username: parsed.data.username,
+        email: parsed.data.email,
+        password: await hashPassword(parsed.data.password),
+        signupIp: req.ip,
       });
 
+      // A bad referral code shouldn't stop the account being created
+      if (typeof referralCode === "string" && referralCode.trim()) {
+        try {
+          await referralService.recordSignup(user, referralCode, req.ip);
+        } catch (error) {
+          console.error(`Error recording referral for user ${user.id}:`, error);
+        }
+      }
+
+      // The account works without a verified address, so a failed email shouldn't stop signup
+      try {
+        await sendVerificationEmail(user);
+      } catch (error) {
+        console.error(`Error sending verification email to user ${user.id}:`, error);
+      }
+
       // Create default VPN settings for the user
       await storage.createUserSettings({
         userId: user.id,
@@ -107,15 +196,30 @@ export function setupAuth(app: Express) {
 
       req.login(user, (err) => {
         if (err) return next(err);
-        return res.status(201).json(user);
+        return res.status(201).json(toPublicUser(user));
       });
     } catch (error) {
       next(error);
     }
   });
 
-  app.post("/api/login", passport.authenticate("local"), (req, res) => {
-    res.status(200).json(req.user);
+  // Sign in with a password. Users with two-factor on get a second step, which
+  // /api/login/two-factor finishes.
+  app.post("/api/login", (req, res, next) => {
+    passport.authenticate("local", (err: any, user: SelectUser | false) => {
+      if (err) return next(err);
+      if (!user) return res.sendStatus(401);
+
+      if (twoFactorService.isEnabled(user)) {
+        twoFactorService.startLoginChallenge(req, user);
+        return res.status(200).json({ twoFactorRequired: true });
+      }
+
+      req.login(user, (err) => {
+        if (err) return next(err);
+        res.status(200).json(toPublicUser(user));
+      });
+    })(req, res, next);
   });
 
   app.post("/api/logout", (req, res, next) => {
@@ -127,7 +231,7 @@ export function setupAuth(app: Express) {
 
   app.get("/api/user", (req, res) => {
     if (!req.isAuthenticated()) return res.sendStatus(401);
-    res.json(req.user);
+    res.json(toPublicUser(req.user));
   });
   
   // Update user profile
@@ -143,15 +247,164 @@ export function setupAuth(app: Express) {
       }
       
       // Update user in database
+      const previousEmail = req.user.email;
       const updatedUser = await storage.updateUserEmail(req.user.id, email);
+
+      if (email && (!previousEmail || previousEmail.toLowerCase() !== email.toLowerCase())) {
+        // Let the old address know in case someone else made the change
+        if (previousEmail) {
+          await emailService.send(previousEmail, "emailChanged", { newEmail: email }, {
+            userId: updatedUser.id,
+            username: updatedUser.username
+          });
+        }
+        await sendVerificationEmail(updatedUser);
+      }
       
       // Update session
       req.login(updatedUser, (err) => {
         if (err) return next(err);
-        res.json(updatedUser);
+        res.json(toPublicUser(updatedUser));
       });
     } catch (error) {
       next(error);
     }
   });
+
+  // Change the password while signed in, which signs out every other session
+  app.post("/api/user/change-password", async (req, res, next) => {
+    try {
+      if (!req.isAuthenticated()) return res.status(401).json({ message: "Not authenticated" });
+
+      const { currentPassword, newPassword } = req.body;
+      const user = await storage.getUser(req.user.id);
+      if (!user || user.firebaseId) {
+        return res.status(400).json({ message: "Your account doesn't use a password" });
+      }
+      if (typeof currentPassword !== "string" || !(await comparePasswords(currentPassword, user.password))) {
+        return res.status(403).json({ message: "Current password is incorrect" });
+      }
+      if (typeof newPassword !== "string" || newPassword.length < MIN_PASSWORD_LENGTH) {
+        return res.status(400).json({ message: `Password must be at least ${MIN_PASSWORD_LENGTH} characters` });
+      }
+
+      await storage.updateUserPassword(user.id, await hashPassword(newPassword));
+      const signedOut = await storage.deleteUserSessions(user.id, req.sessionID);
+      console.log(`User ${user.id} changed their password, ${signedOut} other sessions signed out`);
+
+      res.json({ success: true, signedOut });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Email the current user a new verification link
+  app.post("/api/verify-email/resend", async (req, res, next) => {
+    try {
+      if (!req.isAuthenticated()) return res.status(401).json({ message: "Not authenticated" });
+
+      if (!req.user.email) {
+        return res.status(400).json({ message: "Add an email address to your account first" });
+      }
+      if (req.user.emailVerifiedAt) {
+        return res.json({ success: true, alreadyVerified: true });
+      }
+
+      await sendVerificationEmail(req.user);
+      res.json({ success: true, email: req.user.email });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Verify an email address from the link we sent. The link may be opened in a
+  // browser that isn't signed in, so the token alone identifies the user.
+  app.post("/api/verify-email", async (req, res, next) => {
+    const { token } = req.body;
+    if (!token || typeof token !== "string") {
+      return res.status(400).json({ message: "Verification token is required" });
+    }
+
+    try {
+      const user = await accountTokens.verify(token, accountTokenPurposes.VERIFY_EMAIL);
+      if (!user.emailVerifiedAt) {
+        const verified = await storage.markEmailVerified(user.id, user.email!);
+        if (!verified) {
+          throw new AccountTokenError();
+        }
+        console.log(`User ${user.id} verified their email address`);
+      }
+      res.json({ success: true, email: user.email });
+    } catch (error) {
+      if (error instanceof AccountTokenError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      next(error);
+    }
+  });
+
+  // Email a password reset link to every local account with this address. The
+  // answer is the same whether or not an account was found, so addresses can't
+  // be checked against our users.
+  app.post("/api/forgot-password", async (req, res, next) => {
+    const { email } = req.body;
+    if (!email || typeof email !== "string" || !email.match(/^[^\s@]+@[^\s@]+\.[^\s@]+$/)) {
+      return res.status(400).json({ message: "Enter a valid email address" });
+    }
+
+    try {
+      // Firebase accounts reset their password with Firebase
+      const accounts = (await storage.getUsersByEmail(email)).filter(user => !user.firebaseId);
+      for (const user of accounts) {
+        await sendPasswordResetEmail(user);
+      }
+
+      res.json({ message: "If an account uses that address, we've emailed it a link to reset the password" });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Choose a new password from a reset link, signing the user out everywhere else
+  app.post("/api/reset-password", async (req, res, next) => {
+    const { token, password } = req.body;
+    if (!token || typeof token !== "string") {
+      return res.status(400).json({ message: "Reset token is required" });
+    }
+    if (typeof password !== "string" || password.length < MIN_PASSWORD_LENGTH) {
+      return res.status(400).json({ message: `Password must be at least ${MIN_PASSWORD_LENGTH} characters` });
+    }
+
+    try {
+      const user = await accountTokens.verify(token, accountTokenPurposes.PASSWORD_RESET);
+      if (user.firebaseId) {
+        throw new AccountTokenError();
+      }
+
+      // Changing the password also stops the token working again
+      let updatedUser = await storage.updateUserPassword(user.id, await hashPassword(password));
+      const signedOut = await storage.deleteUserSessions(user.id);
+      console.log(`User ${user.id} reset their password, ${signedOut} other sessions signed out`);
+
+      // The link came to the account's inbox, which proves the address is theirs
+      if (!updatedUser.emailVerifiedAt && updatedUser.email) {
+        updatedUser = (await storage.markEmailVerified(user.id, updatedUser.email)) || updatedUser;
+      }
+
+      // A reset link only proves access to the inbox, so it can't stand in for the second factor
+      if (twoFactorService.isEnabled(updatedUser)) {
+        return res.json({ success: true, signInRequired: true });
+      }
+
+      req.login(updatedUser, (err) => {
+        if (err) return next(err);
+        res.json({ success: true });
+      });
+    } catch (error) {
+      if (error instanceof AccountTokenError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      next(error);
+    }
+  });
 }
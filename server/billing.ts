@@ -0,0 +1,481 @@
+/**
+ * Billing Ledger
+ *
+ * This module keeps a provider-agnostic record of money moving between users and
+ * the service. It's responsible for:
+ *
+ * 1. Recording invoices and payments from every checkout, verification and
+ *    webhook path, whatever the provider, or the development test card
+ * 2. Issuing refunds through the provider that collected the payment
+ * 3. Serving users their billing history and receipts, and admins a revenue view
+ * 4. Emailing receipts and failed payment notices
+ */
+
+import { Request, Response } from 'express';
+import { storage } from './storage';
+import { requirePermission } from './permissions';
+import { auditLog } from './audit';
+import { formatPrice } from './pricing';
+import { referralService } from './referrals';
+import { emailService } from './email';
+import { paymentProviders } from './payment-provider';
+import {
+  Invoice, Payment, Refund, User, BillingProvider, PaymentStatus,
+  billingProviders, invoiceStatuses, paymentStatuses, permissions, auditActions
+} from '@shared/schema';
+
+const APP_NAME_SETTING = 'app_name';
+const DEFAULT_APP_NAME = 'SecureShield VPN';
+
+// Interface for a payment reported by a provider
+export interface LedgerEntry {
+  userId: number;
+  provider: BillingProvider;
+  providerInvoiceId?: string; // Defaults to the payment ID for providers without invoices
+  providerPaymentId: string;
+  planName?: string | null;
+  description: string;
+  amount: number; // In the currency's smallest unit
+  currency: string;
+  status: PaymentStatus;
+  method?: string | null;
+  failureReason?: string | null;
+  periodStart?: Date | null;
+  periodEnd?: Date | null;
+}
+
+// Interface for options when refunding a payment
+interface RefundOptions {
+  amount: number; // Already reserved with reserveRefund
+  reason?: string;
+  providerRefundId?: string | null;
+  createdBy?: number | null;
+}
+
+class BillingLedger {
+  /**
+   * Record a payment and the invoice it settles. Reporting the same payment again
+   * updates the existing records instead of adding new ones.
+   *
+   * @param entry The payment as reported by the provider
+   * @returns The saved invoice and payment
+   */
+  async recordPayment(entry: LedgerEntry): Promise<{ invoice: Invoice; payment: Payment }> {
+    const paid = entry.status === paymentStatuses.SUCCEEDED;
+    const currency = entry.currency.toUpperCase();
+
+    const invoice = await storage.upsertInvoice({
+      userId: entry.userId,
+      provider: entry.provider,
+      providerInvoiceId: entry.providerInvoiceId || entry.providerPaymentId,
+      planName: entry.planName,
+      description: entry.description,
+      amount: entry.amount,
+      currency,
+      status: paid ? invoiceStatuses.PAID : invoiceStatuses.OPEN,
+      periodStart: entry.periodStart,
+      periodEnd: entry.periodEnd,
+      paidAt: paid ? new Date() : null
+    });
+
+    const payment = await storage.upsertPayment({
+      invoiceId: invoice.id,
+      userId: entry.userId,
+      provider: entry.provider,
+      providerPaymentId: entry.providerPaymentId,
+      amount: entry.amount,
+      currency,
+      status: entry.status,
+      method: entry.method,
+      failureReason: entry.failureReason
+    });
+
+    console.log(`[BILLING] Recorded ${entry.status} ${entry.provider} payment ${entry.providerPaymentId} of ${entry.amount} ${currency} for user ${entry.userId}`);
+
+    await this.emailPayment(entry, invoice, payment);
+
+    // A referred user's first payment for a plan earns both users credit
+    if (paid && entry.amount > 0 && entry.planName) {
+      try {
+        await referralService.rewardConversion(entry.userId, entry.planName);
+      } catch (error) {
+        console.error(`[BILLING] Error rewarding referral for user ${entry.userId}:`, error);
+      }
+    }
+
+    return { invoice, payment };
+  }
+
+  /**
+   * Email a receipt or failed payment notice. The same payment is often reported
+   * by both checkout and a webhook, so each is only emailed once.
+   */
+  private async emailPayment(entry: LedgerEntry, invoice: Invoice, payment: Payment): Promise<void> {
+    if (entry.amount <= 0 || (entry.status !== paymentStatuses.SUCCEEDED && entry.status !== paymentStatuses.FAILED)) {
+      return;
+    }
+
+    try {
+      const user = await storage.getUser(entry.userId);
+      if (!user) {
+        return;
+      }
+
+      if (entry.status === paymentStatuses.SUCCEEDED) {
+        await emailService.sendToUser(user, 'receipt', {
+          description: entry.description,
+          amount: entry.amount,
+          currency: payment.currency,
+          method: entry.method,
+          invoiceId: invoice.id,
+          paidAt: invoice.paidAt || new Date()
+        }, `receipt:${payment.id}`);
+      } else {
+        await emailService.sendToUser(user, 'paymentFailed', {
+          description: entry.description,
+          amount: entry.amount,
+          currency: payment.currency,
+          reason: entry.failureReason
+        }, `payment-failed:${payment.id}`);
+      }
+    } catch (error) {
+      console.error(`[BILLING] Error emailing user ${entry.userId} about payment ${payment.id}:`, error);
+    }
+  }
+
+  /**
+   * Flag a payment the customer has disputed with their bank
+   *
+   * @returns The updated payment, or undefined if we never recorded it
+   */
+  async markDisputed(provider: BillingProvider, providerPaymentId: string): Promise<Payment | undefined> {
+    const payment = await storage.getPaymentByProviderId(provider, providerPaymentId);
+    if (!payment) {
+      return undefined;
+    }
+    return await storage.updatePaymentStatus(payment.id, paymentStatuses.DISPUTED);
+  }
+
+  /**
+   * Set aside part of a payment for a refund before the provider is asked for it,
+   * so refunds made at the same time can't return more than was paid
+   *
+   * @param payment The payment being refunded
+   * @param amount How much to refund
+   * @returns The payment with the amount counted as refunded, or undefined if that
+   *          much is no longer refundable
+   */
+  async reserveRefund(payment: Payment, amount: number): Promise<Payment | undefined> {
+    return await storage.reservePaymentRefund(payment.id, amount);
+  }
+
+  /**
+   * Give back a reservation whose refund the provider didn't make
+   */
+  async releaseRefund(payment: Payment, amount: number): Promise<void> {
+    await storage.releasePaymentRefund(payment.id, amount);
+  }
+
+  /**
+   * Record money returned for a payment and update its invoice to match
+   *
+   * @param payment The payment being refunded, as returned by reserveRefund
+   * @param options How much was refunded and why
+   * @returns The saved refund
+   */
+  async recordRefund(payment: Payment, options: RefundOptions): Promise<Refund> {
+    const { amount } = options;
+
+    const refund = await storage.createRefund({
+      paymentId: payment.id,
+      userId: payment.userId,
+      provider: payment.provider,
+      providerRefundId: options.providerRefundId,
+      amount,
+      currency: payment.currency,
+      reason: options.reason,
+      createdBy: options.createdBy
+    });
+
+    if (payment.status === paymentStatuses.REFUNDED) {
+      await storage.updateInvoiceStatus(payment.invoiceId, invoiceStatuses.REFUNDED);
+    }
+
+    console.log(`[BILLING] Refunded ${amount} ${payment.currency} of payment ${payment.id} for user ${payment.userId}`);
+    return refund;
+  }
+
+  /**
+   * Get how much of a payment can still be refunded
+   */
+  getRefundableAmount(payment: Payment): number {
+    const refundable = payment.status === paymentStatuses.SUCCEEDED ||
+      payment.status === paymentStatuses.PARTIALLY_REFUNDED;
+    return refundable ? Math.max(payment.amount - payment.amountRefunded, 0) : 0;
+  }
+
+  /**
+   * Get a user's invoices with the payments and refunds against each
+   *
+   * @param userId The user to get history for
+   * @returns Invoices, newest first
+   */
+  async getHistory(userId: number): Promise<(Invoice & { payments: (Payment & { refunds: Refund[] })[] })[]> {
+    const userInvoices = await storage.getUserInvoices(userId);
+    const invoicePayments = await storage.getInvoicePayments(userInvoices.map(invoice => invoice.id));
+    const paymentRefunds = await storage.getPaymentRefunds(invoicePayments.map(payment => payment.id));
+
+    return userInvoices.map(invoice => ({
+      ...invoice,
+      payments: invoicePayments
+        .filter(payment => payment.invoiceId === invoice.id)
+        .map(payment => ({
+          ...payment,
+          refunds: paymentRefunds.filter(refund => refund.paymentId === payment.id)
+        }))
+    }));
+  }
+
+  /**
+   * Render a printable receipt for an invoice
+   *
+   * @param invoice The invoice to render
+   * @param user The user it was issued to
+   * @returns A standalone HTML document
+   */
+  async renderReceipt(invoice: Invoice, user: User): Promise<string> {
+    const invoicePayments = await storage.getInvoicePayments([invoice.id]);
+    const paymentRefunds = await storage.getPaymentRefunds(invoicePayments.map(payment => payment.id));
+    const appName = (await storage.getAppSetting(APP_NAME_SETTING))?.value || DEFAULT_APP_NAME;
+
+    const period = invoice.periodStart && invoice.periodEnd
+      ? `${this.formatDate(invoice.periodStart)} &ndash; ${this.formatDate(invoice.periodEnd)}`
+      : '';
+
+    const paymentRows = invoicePayments.map(payment => `
+        <tr>
+          <td>${this.formatDate(payment.createdAt)}</td>
+          <td>${escapeHtml(payment.method || payment.provider)}</td>
+          <td>${escapeHtml(payment.status.replace('_', ' '))}</td>
+          <td class="amount">${this.formatAmount(payment.amount, payment.currency)}</td>
+        </tr>`).join('');
+
+    const refundRows = paymentRefunds.map(refund => `
+        <tr>
+          <td>${this.formatDate(refund.createdAt)}</td>
+          <td colspan="2">Refund${refund.reason ? ` &mdash; ${escapeHtml(refund.reason)}` : ''}</td>
+          <td class="amount">-${this.formatAmount(refund.amount, refund.currency)}</td>
+        </tr>`).join('');
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <title>Receipt #${invoice.id} - ${escapeHtml(appName)}</title>
+  <style>
+    body { font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", sans-serif; color: #111; max-width: 640px; margin: 40px auto; padding: 0 16px; }
+    h1 { font-size: 20px; margin-bottom: 4px; }
+    .muted { color: #666; font-size: 14px; }
+    table { width: 100%; border-collapse: collapse; margin-top: 24px; font-size: 14px; }
+    th, td { text-align: left; padding: 8px 4px; border-bottom: 1px solid #eee; }
+    .amount { text-align: right; }
+    .total td { font-weight: 600; border-bottom: none; }
+    @media print { body { margin: 0; } }
+  </style>
+</head>
+<body>
+  <h1>${escapeHtml(appName)}</h1>
+  <p class="muted">Receipt #${invoice.id} &middot; Issued ${this.formatDate(invoice.createdAt)}</p>
+  <p>
+    Billed to: ${escapeHtml(user.username)}${user.email ? ` &lt;${escapeHtml(user.email)}&gt;` : ''}<br>
+    Status: ${escapeHtml(invoice.status)}
+  </p>
+  <table>
+    <thead>
+      <tr><th>Description</th><th></th><th></th><th class="amount">Amount</th></tr>
+    </thead>
+    <tbody>
+      <tr>
+        <td colspan="3">${escapeHtml(invoice.description)}${period ? `<br><span class="muted">${period}</span>` : ''}</td>
+        <td class="amount">${this.formatAmount(invoice.amount, invoice.currency)}</td>
+      </tr>
+      <tr class="total">
+        <td colspan="3">Total</td>
+        <td class="amount">${this.formatAmount(invoice.amount, invoice.currency)}</td>
+      </tr>
+    </tbody>
+  </table>
+  ${paymentRows || refundRows ? `
+  <table>
+    <thead>
+      <tr><th>Date</th><th>Method</th><th>Status</th><th class="amount">Amount</th></tr>
+    </thead>
+    <tbody>${paymentRows}${refundRows}
+    </tbody>
+  </table>` : ''}
+</body>
+</html>`;
+  }
+
+  private formatAmount(amount: number, currency: string): string {
+    return escapeHtml(formatPrice(amount, currency));
+  }
+
+  private formatDate(date: Date): string {
+    return date.toISOString().split('T')[0];
+  }
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+// Export singleton instance
+export const billingLedger = new BillingLedger();
+
+/**
+ * Ask the provider that collected a payment to return the money
+ *
+ * @returns The provider's ID for the refund
+ */
+async function issueProviderRefund(payment: Payment, amount: number, reason?: string): Promise<string | null> {
+  // Test card charges never moved real money
+  if (payment.provider === billingProviders.TEST) {
+    return null;
+  }
+  return await paymentProviders.require(payment.provider).refund(payment, amount, reason);
+}
+
+export function setupBillingRoutes(app: any) {
+  // Get the current user's invoices, payments and refunds
+  app.get('/api/billing/history', async (req: Request, res: Response) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: 'Not authenticated' });
+    }
+
+    try {
+      const invoices = await billingLedger.getHistory(req.user.id);
+      res.json({ invoices });
+    } catch (error) {
+      console.error('Error fetching billing history:', error);
+      res.status(500).json({ message: 'Failed to fetch billing history' });
+    }
+  });
+
+  // Get a receipt for one of the current user's invoices
+  app.get('/api/billing/receipts/:invoiceId', async (req: Request, res: Response) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: 'Not authenticated' });
+    }
+
+    try {
+      const invoice = await storage.getInvoice(parseInt(req.params.invoiceId, 10));
+      if (!invoice || invoice.userId !== req.user.id) {
+        return res.status(404).json({ message: 'Invoice not found' });
+      }
+
+      const html = await billingLedger.renderReceipt(invoice, req.user);
+      res.setHeader('Content-Type', 'text/html; charset=utf-8');
+      if (req.query.download) {
+        res.setHeader('Content-Disposition', `attachment; filename="receipt-${invoice.id}.html"`);
+      }
+      res.send(html);
+    } catch (error) {
+      console.error('Error rendering receipt:', error);
+      res.status(500).json({ message: 'Failed to render receipt' });
+    }
+  });
+
+  // Admin revenue summary
+  app.get('/api/admin/billing/revenue', requirePermission(permissions.BILLING_READ), async (req: Request, res: Response) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: 'Not authenticated' });
+    }
+
+    try {
+      const days = Math.min(Math.max(parseInt(req.query.days as string, 10) || 30, 1), 365);
+      const since = new Date();
+      since.setDate(since.getDate() - days);
+
+      const [byProvider, daily, recentPayments] = await Promise.all([
+        storage.getRevenueByProvider(since),
+        storage.getDailyRevenue(since),
+        storage.getRecentPayments(50)
+      ]);
+
+      res.json({
+        days,
+        byProvider: byProvider.map(row => ({ ...row, net: row.gross - row.refunded })),
+        daily,
+        recentPayments: recentPayments.map(payment => ({
+          ...payment,
+          refundable: billingLedger.getRefundableAmount(payment)
+        }))
+      });
+    } catch (error) {
+      console.error('Error fetching revenue summary:', error);
+      res.status(500).json({ message: 'Failed to fetch revenue summary' });
+    }
+  });
+
+  // Refund a payment through the provider that collected it
+  app.post('/api/admin/billing/payments/:id/refund', requirePermission(permissions.BILLING_REFUND), async (req: Request, res: Response) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: 'Not authenticated' });
+    }
+
+    try {
+      const payment = await storage.getPayment(parseInt(req.params.id, 10));
+      if (!payment) {
+        return res.status(404).json({ message: 'Payment not found' });
+      }
+
+      const refundable = billingLedger.getRefundableAmount(payment);
+      const amount = req.body.amount === undefined ? refundable : Number(req.body.amount);
+      if (!Number.isInteger(amount) || amount <= 0 || amount > refundable) {
+        return res.status(400).json({
+          message: refundable > 0
+            ? `Refund amount must be between 1 and ${refundable}`
+            : 'This payment has nothing left to refund'
+        });
+      }
+
+      const reason = typeof req.body.reason === 'string' ? req.body.reason.slice(0, 500) : undefined;
+      const reserved = await billingLedger.reserveRefund(payment, amount);
+      if (!reserved) {
+        return res.status(409).json({ message: 'This payment was refunded in the meantime, reload and try again' });
+      }
+
+      let providerRefundId: string | null;
+      try {
+        providerRefundId = await issueProviderRefund(payment, amount, reason);
+      } catch (error) {
+        await billingLedger.releaseRefund(payment, amount);
+        throw error;
+      }
+      const refund = await billingLedger.recordRefund(reserved, {
+        amount,
+        reason,
+        providerRefundId,
+        createdBy: req.user.id
+      });
+
+      await auditLog.record(req, {
+        action: auditActions.PAYMENT_REFUNDED,
+        targetType: 'payment',
+        targetId: payment.id,
+        after: refund,
+        details: { userId: payment.userId, amount, currency: payment.currency, reason }
+      });
+      res.json({ refund });
+    } catch (error: any) {
+      console.error('Error refunding payment:', error.response?.data || error);
+      res.status(502).json({ message: `Refund failed: ${error.message}` });
+    }
+  });
+}
@@ -0,0 +1,214 @@
+/**
+ * Device Management
+ *
+ * This module tracks the devices each user connects from so that several of them
+ * can be online at once, up to the limit of the user's subscription plan. It's
+ * responsible for:
+ *
+ * 1. Registering, listing and revoking devices
+ * 2. Resolving which device a connection request comes from
+ * 3. Enforcing subscriptionPlans.maxDevices on concurrent connections
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import { Device, InsertDevice, User, devicePlatforms, insertDeviceSchema } from '@shared/schema';
+import { storage } from './storage';
+import { vpnTunnelService } from './vpn-tunnel';
+import { wireguardService } from './wireguard';
+
+// Name used for the device implicitly registered for clients that don't send one
+const DEFAULT_DEVICE_NAME = 'Web browser';
+
+// Interface for the result of a device limit check
+interface DeviceLimitCheck {
+  allowed: boolean;
+  maxDevices: number;
+  connectedDevices: number[];
+}
+
+class DeviceManager {
+  /**
+   * Register a new device for a user. Re-registering a public key the user already
+   * owns returns the existing device instead of creating a duplicate.
+   *
+   * @param device The validated device to register
+   * @returns The registered device, or null if the public key belongs to another device
+   */
+  async registerDevice(device: InsertDevice): Promise<Device | null> {
+    if (device.publicKey) {
+      const existing = await storage.getDeviceByPublicKey(device.publicKey);
+      if (existing) {
+        return existing.userId === device.userId && !existing.revokedAt ? existing : null;
+      }
+    }
+
+    const newDevice = await storage.createDevice(device);
+    console.log(`Registered device ${newDevice.id} (${newDevice.platform}) for user ${newDevice.userId}`);
+    return newDevice;
+  }
+
+  /**
+   * Work out which device a connection request is for
+   *
+   * @param userId The user making the request
+   * @param deviceId The device ID sent by the client, if any
+   * @returns The device, or undefined if the ID doesn't belong to an active device of the user
+   */
+  async resolveDevice(userId: number, deviceId?: number | null): Promise<Device | undefined> {
+    if (deviceId) {
+      const device = await storage.getDevice(deviceId);
+      if (!device || device.userId !== userId || device.revokedAt) {
+        return undefined;
+      }
+      return device;
+    }
+
+    // Older clients don't know about devices; treat them as the user's web browser
+    const devices = await storage.getUserDevices(userId);
+    const defaultDevice = devices.find(device =>
+      device.platform === devicePlatforms.WEB && device.name === DEFAULT_DEVICE_NAME && !device.publicKey
+    );
+    if (defaultDevice) {
+      return defaultDevice;
+    }
+
+    return await storage.createDevice({
+      userId,
+      name: DEFAULT_DEVICE_NAME,
+      platform: devicePlatforms.WEB
+    });
+  }
+
+  /**
+   * Check whether a device may connect without going over the user's plan limit.
+   * A device that is already connected can always reconnect.
+   *
+   * @param user The user connecting
+   * @param deviceId The device that wants to connect
+   * @returns Whether the connection is allowed, with the limit and the devices using it
+   */
+  async checkDeviceLimit(user: User, deviceId: number): Promise<DeviceLimitCheck> {
+    const plan = await storage.getUserPlan(user.id);
+    const maxDevices = plan?.maxDevices ?? 1;
+
+    const activeSessions = await storage.getActiveSessions(user.id);
+    const connectedDevices = Array.from(new Set(
+      activeSessions
+        .map(session => session.deviceId)
+        .filter((id): id is number => id !== null && id !== deviceId)
+    ));
+
+    return {
+      allowed: connectedDevices.length < maxDevices,
+      maxDevices,
+      connectedDevices
+    };
+  }
+
+  /**
+   * Revoke a device: disconnect it, revoke its WireGuard peers and stop it from
+   * being used for new connections
+   *
+   * @param userId The user who owns the device
+   * @param deviceId The device to revoke
+   * @returns The revoked device, or undefined if the user has no such device
+   */
+  async revokeDevice(userId: number, deviceId: number): Promise<Device | undefined> {
+    const device = await storage.getDevice(deviceId);
+    if (!device || device.userId !== userId || device.revokedAt) {
+      return undefined;
+    }
+
+    await storage.endDeviceSession(userId, deviceId);
+    vpnTunnelService.closeTunnel(deviceId);
+    await wireguardService.revokeDevicePeers(deviceId);
+
+    const revoked = await storage.revokeDevice(deviceId);
+    console.log(`Revoked device ${deviceId} for user ${userId}`);
+    return revoked;
+  }
+}
+
+// Singleton instance
+export const deviceManager = new DeviceManager();
+
+// Register device management routes
+export function setupDeviceRoutes(app: any) {
+  // List the user's devices
+  app.get('/api/devices', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ message: 'Not authenticated' });
+      }
+
+      const [devices, plan] = await Promise.all([
+        storage.getUserDevices(req.user.id),
+        storage.getUserPlan(req.user.id)
+      ]);
+
+      res.json({
+        maxDevices: plan?.maxDevices ?? 1,
+        devices: devices.map(device => ({
+          ...device,
+          connected: vpnTunnelService.isDeviceConnected(device.id)
+        }))
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Register a device
+  app.post('/api/devices', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ message: 'Not authenticated' });
+      }
+
+      const parsed = insertDeviceSchema.safeParse({
+        name: req.body.name,
+        platform: req.body.platform,
+        publicKey: req.body.publicKey,
+        userId: req.user.id
+      });
+      if (!parsed.success) {
+        return res.status(400).json({
+          message: 'Invalid device details',
+          errors: parsed.error.errors
+        });
+      }
+
+      const device = await deviceManager.registerDevice(parsed.data);
+      if (!device) {
+        return res.status(409).json({ message: 'This device key is already registered' });
+      }
+
+      res.status(201).json(device);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Revoke a device
+  app.delete('/api/devices/:id', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ message: 'Not authenticated' });
+      }
+
+      const deviceId = parseInt(req.params.id);
+      if (isNaN(deviceId)) {
+        return res.status(400).json({ message: 'Invalid device ID' });
+      }
+
+      const device = await deviceManager.revokeDevice(req.user.id, deviceId);
+      if (!device) {
+        return res.status(404).json({ message: 'Device not found' });
+      }
+
+      res.json({ success: true, device });
+    } catch (error) {
+      next(error);
+    }
+  });
+}
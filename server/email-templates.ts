@@ -0,0 +1,378 @@
+/**
+ * Email Templates
+ *
+ * This module turns app events into email content. It's responsible for:
+ *
+ * 1. Rendering each kind of email as both HTML and plain text from the same data
+ * 2. Wrapping every HTML email in the shared layout with the app's name
+ * 3. Saying which preference category each email belongs to, and which emails
+ *    are always sent because the user needs them to use their account
+ */
+
+import { formatPrice } from './pricing';
+import { EmailCategory, emailCategories } from '@shared/schema';
+
+// Interface for a rendered email
+export interface RenderedEmail {
+  subject: string;
+  html: string;
+  text: string;
+}
+
+// Interface for the data every template gets
+export interface TemplateContext {
+  appName: string;
+  appUrl: string;
+  username?: string;
+}
+
+// Interface for a template definition
+interface EmailTemplate<T> {
+  category: EmailCategory;
+  required?: boolean; // Sent regardless of the user's preferences
+  render(data: T, context: TemplateContext): { subject: string; body: string; text: string };
+}
+
+// Data each template expects
+export interface EmailTemplateData {
+  receipt: {
+    description: string;
+    amount: number;
+    currency: string;
+    method?: string | null;
+    invoiceId: number;
+    paidAt: Date;
+  };
+  paymentFailed: {
+    description: string;
+    amount: number;
+    currency: string;
+    reason?: string | null;
+  };
+  subscriptionExpiring: {
+    planName: string;
+    expiresAt: Date;
+    renews: boolean;
+  };
+  subscriptionExpired: {
+    planName: string;
+  };
+  quotaWarning: {
+    resource: 'data' | 'time';
+    percent: number;
+    used: number;
+    limit: number;
+    reached: boolean;
+  };
+  organizationInvitation: {
+    organizationName: string;
+    invitedBy: string;
+    role: string;
+    inviteUrl: string;
+    expiresAt: Date;
+  };
+  emailChanged: {
+    newEmail: string;
+  };
+  verifyEmail: {
+    verifyUrl: string;
+    expiresInHours: number;
+  };
+  passwordReset: {
+    resetUrl: string;
+    expiresInMinutes: number;
+  };
+  accountDeletionScheduled: {
+    deleteAt: Date;
+  };
+}
+
+export type EmailTemplateName = keyof EmailTemplateData;
+
+const templates: { [K in EmailTemplateName]: EmailTemplate<EmailTemplateData[K]> } = {
+  receipt: {
+    category: emailCategories.BILLING,
+    render: (data, context) => {
+      const amount = formatPrice(data.amount, data.currency);
+      const receiptUrl = `${context.appUrl}/api/billing/receipts/${data.invoiceId}`;
+      return {
+        subject: `Your ${context.appName} receipt for ${amount}`,
+        body: `
+          <p>Thanks for your payment. Here's your receipt.</p>
+          <table class="details">
+            <tr><td>Description</td><td>${escapeHtml(data.description)}</td></tr>
+            <tr><td>Amount</td><td>${amount}</td></tr>
+            ${data.method ? `<tr><td>Paid with</td><td>${escapeHtml(data.method)}</td></tr>` : ''}
+            <tr><td>Date</td><td>${formatDate(data.paidAt)}</td></tr>
+          </table>
+          ${button(receiptUrl, 'View receipt')}`,
+        text: [
+          'Thanks for your payment. Here\'s your receipt.',
+          '',
+          `Description: ${data.description}`,
+          `Amount: ${amount}`,
+          ...(data.method ? [`Paid with: ${data.method}`] : []),
+          `Date: ${formatDate(data.paidAt)}`,
+          '',
+          `View receipt: ${receiptUrl}`
+        ].join('\n')
+      };
+    }
+  },
+
+  paymentFailed: {
+    category: emailCategories.BILLING,
+    render: (data, context) => {
+      const amount = formatPrice(data.amount, data.currency);
+      const reason = data.reason ? ` The payment provider said: ${data.reason}.` : '';
+      return {
+        subject: `Your ${context.appName} payment of ${amount} failed`,
+        body: `
+          <p>We couldn't take your payment of <strong>${amount}</strong> for ${escapeHtml(data.description)}.${escapeHtml(reason)}</p>
+          <p>Please check your payment details so you don't lose access to your plan.</p>
+          ${button(`${context.appUrl}/subscription`, 'Update payment details')}`,
+        text: [
+          `We couldn't take your payment of ${amount} for ${data.description}.${reason}`,
+          '',
+          'Please check your payment details so you don\'t lose access to your plan:',
+          `${context.appUrl}/subscription`
+        ].join('\n')
+      };
+    }
+  },
+
+  subscriptionExpiring: {
+    category: emailCategories.SUBSCRIPTION,
+    render: (data, context) => {
+      const date = formatDate(data.expiresAt);
+      const message = data.renews
+        ? `Your ${data.planName} plan renews on ${date}. No action is needed if your payment details are up to date.`
+        : `Your ${data.planName} plan ends on ${date}. Renew before then to keep your premium features.`;
+      return {
+        subject: data.renews ? `Your ${data.planName} plan renews on ${date}` : `Your ${data.planName} plan ends on ${date}`,
+        body: `
+          <p>${escapeHtml(message)}</p>
+          ${button(`${context.appUrl}/subscription`, 'Manage subscription')}`,
+        text: `${message}\n\nManage your subscription: ${context.appUrl}/subscription`
+      };
+    }
+  },
+
+  subscriptionExpired: {
+    category: emailCategories.SUBSCRIPTION,
+    render: (data, context) => ({
+      subject: `Your ${data.planName} plan has ended`,
+      body: `
+        <p>Your ${escapeHtml(data.planName)} plan has ended and your account is back on the free plan.</p>
+        <p>You can resubscribe at any time to get your premium servers and limits back.</p>
+        ${button(`${context.appUrl}/subscription`, 'Choose a plan')}`,
+      text: [
+        `Your ${data.planName} plan has ended and your account is back on the free plan.`,
+        '',
+        `You can resubscribe at any time: ${context.appUrl}/subscription`
+      ].join('\n')
+    })
+  },
+
+  quotaWarning: {
+    category: emailCategories.USAGE,
+    render: (data, context) => {
+      const usage = data.resource === 'data'
+        ? `${formatBytes(data.used)} of your ${formatBytes(data.limit)} monthly data`
+        : `${data.used} of your ${data.limit} minutes for today`;
+      const message = data.reached
+        ? `You've used ${usage}, so your VPN connections have been closed until the limit resets.`
+        : `You've used ${data.percent}% of your limit (${usage}).`;
+      return {
+        subject: data.reached
+          ? `You've reached your ${data.resource} limit`
+          : `You've used ${data.percent}% of your ${data.resource} limit`,
+        body: `
+          <p>${escapeHtml(message)}</p>
+          <p>Upgrade your plan for higher limits.</p>
+          ${button(`${context.appUrl}/subscription`, 'See plans')}`,
+        text: `${message}\n\nUpgrade your plan for higher limits: ${context.appUrl}/subscription`
+      };
+    }
+  },
+
+  organizationInvitation: {
+    category: emailCategories.SECURITY,
+    required: true,
+    render: (data, context) => ({
+      subject: `${data.invitedBy} invited you to join ${data.organizationName} on ${context.appName}`,
+      body: `
+        <p>${escapeHtml(data.invitedBy)} invited you to join <strong>${escapeHtml(data.organizationName)}</strong> as ${data.role === 'admin' ? 'an admin' : 'a member'}.
+        You'll get the organization's plan as soon as you accept.</p>
+        ${button(data.inviteUrl, 'Accept invitation')}
+        <p class="muted">This invitation expires on ${formatDate(data.expiresAt)}.</p>`,
+      text: [
+        `${data.invitedBy} invited you to join ${data.organizationName} as ${data.role === 'admin' ? 'an admin' : 'a member'}.`,
+        'You\'ll get the organization\'s plan as soon as you accept.',
+        '',
+        `Accept the invitation: ${data.inviteUrl}`,
+        '',
+        `This invitation expires on ${formatDate(data.expiresAt)}.`
+      ].join('\n')
+    })
+  },
+
+  emailChanged: {
+    category: emailCategories.SECURITY,
+    required: true,
+    render: (data, context) => ({
+      subject: `Your ${context.appName} email address was changed`,
+      body: `
+        <p>The email address on your account was changed to <strong>${escapeHtml(data.newEmail)}</strong>.</p>
+        <p>If you didn't make this change, contact support straight away.</p>
+        ${button(`${context.appUrl}/support`, 'Contact support')}`,
+      text: [
+        `The email address on your account was changed to ${data.newEmail}.`,
+        '',
+        `If you didn't make this change, contact support straight away: ${context.appUrl}/support`
+      ].join('\n')
+    })
+  },
+
+  verifyEmail: {
+    category: emailCategories.SECURITY,
+    required: true,
+    render: (data, context) => ({
+      subject: `Verify your ${context.appName} email address`,
+      body: `
+        <p>Please confirm this is your email address. You'll need a verified address to subscribe to a paid plan.</p>
+        ${button(data.verifyUrl, 'Verify email address')}
+        <p class="muted">This link expires in ${data.expiresInHours} hours. If you didn't create an account, you can ignore this email.</p>`,
+      text: [
+        'Please confirm this is your email address. You\'ll need a verified address to subscribe to a paid plan.',
+        '',
+        `Verify your email address: ${data.verifyUrl}`,
+        '',
+        `This link expires in ${data.expiresInHours} hours. If you didn't create an account, you can ignore this email.`
+      ].join('\n')
+    })
+  },
+
+  passwordReset: {
+    category: emailCategories.SECURITY,
+    required: true,
+    render: (data, context) => ({
+      subject: `Reset your ${context.appName} password`,
+      body: `
+        <p>We received a request to reset the password for your account. Choosing a new password signs you out everywhere else.</p>
+        ${button(data.resetUrl, 'Reset password')}
+        <p class="muted">This link expires in ${data.expiresInMinutes} minutes and can only be used once. If you didn't ask to reset your password, you can ignore this email.</p>`,
+      text: [
+        'We received a request to reset the password for your account. Choosing a new password signs you out everywhere else.',
+        '',
+        `Reset your password: ${data.resetUrl}`,
+        '',
+        `This link expires in ${data.expiresInMinutes} minutes and can only be used once. If you didn't ask to reset your password, you can ignore this email.`
+      ].join('\n')
+    })
+  },
+
+  accountDeletionScheduled: {
+    category: emailCategories.SECURITY,
+    required: true,
+    render: (data, context) => ({
+      subject: `Your ${context.appName} account will be deleted`,
+      body: `
+        <p>We've received your request to delete your account. Your subscription has been cancelled and you've been signed out everywhere.</p>
+        <p>Your account and personal data will be permanently erased on <strong>${formatDate(data.deleteAt)}</strong>.</p>
+        <p>Changed your mind? Sign in before then and choose <strong>Keep my account</strong>.</p>
+        ${button(`${context.appUrl}/account`, 'Keep my account')}
+        <p class="muted">If you didn't ask to delete your account, sign in and keep it, then change your password.</p>`,
+      text: [
+        'We\'ve received your request to delete your account. Your subscription has been cancelled and you\'ve been signed out everywhere.',
+        '',
+        `Your account and personal data will be permanently erased on ${formatDate(data.deleteAt)}.`,
+        '',
+        `Changed your mind? Sign in before then and choose Keep my account: ${context.appUrl}/account`,
+        '',
+        'If you didn\'t ask to delete your account, sign in and keep it, then change your password.'
+      ].join('\n')
+    })
+  }
+};
+
+/**
+ * Get the preference category an email belongs to, and whether it ignores the
+ * user's preferences
+ */
+export function getTemplateCategory(name: EmailTemplateName): { category: EmailCategory; required: boolean } {
+  return { category: templates[name].category, required: !!templates[name].required };
+}
+
+/**
+ * Render an email as HTML and text
+ *
+ * @param name The template to render
+ * @param data The data the template expects
+ * @param context The app details and recipient shared by every template
+ * @returns The subject and both bodies
+ */
+export function renderEmail<K extends EmailTemplateName>(name: K, data: EmailTemplateData[K], context: TemplateContext): RenderedEmail {
+  const template = templates[name] as EmailTemplate<EmailTemplateData[K]>;
+  const { subject, body, text } = template.render(data, context);
+  const greeting = context.username ? `Hi ${context.username},` : 'Hi,';
+  const footer = `You're receiving this email because of your ${context.appName} account. ` +
+    `Manage your email preferences at ${context.appUrl}/account`;
+
+  return {
+    subject,
+    html: layout(context.appName, `<p>${escapeHtml(greeting)}</p>${body}`, footer),
+    text: `${greeting}\n\n${text}\n\n--\n${footer}`
+  };
+}
+
+function layout(appName: string, body: string, footer: string): string {
+  return `<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1">
+  <style>
+    body { font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; color: #111827; background: #f3f4f6; margin: 0; padding: 24px; }
+    .container { max-width: 560px; margin: 0 auto; background: #ffffff; border-radius: 8px; padding: 32px; }
+    h1 { font-size: 20px; margin: 0 0 24px; }
+    .details { width: 100%; border-collapse: collapse; margin: 16px 0; }
+    .details td { padding: 8px 0; border-bottom: 1px solid #e5e7eb; }
+    .details td:last-child { text-align: right; }
+    .button { display: inline-block; background: #2563eb; color: #ffffff !important; text-decoration: none; padding: 10px 20px; border-radius: 6px; margin: 16px 0; }
+    .muted { color: #6b7280; font-size: 13px; }
+  </style>
+</head>
+<body>
+  <div class="container">
+    <h1>${escapeHtml(appName)}</h1>
+    ${body}
+  </div>
+  <p class="muted" style="text-align: center;">${escapeHtml(footer)}</p>
+</body>
+</html>`;
+}
+
+function button(url: string, label: string): string {
+  return `<p><a class="button" href="${escapeHtml(url)}">${escapeHtml(label)}</a></p>`;
+}
+
+function formatDate(date: Date): string {
+  return date.toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric' });
+}
+
+function formatBytes(bytes: number): string {
+  if (bytes >= 1024 * 1024 * 1024) {
+    return `${(bytes / (1024 * 1024 * 1024)).toFixed(1)} GB`;
+  }
+  return `${Math.round(bytes / (1024 * 1024))} MB`;
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
@@ -0,0 +1,288 @@
+/**
+ * Email Service
+ *
+ * This service sends the app's transactional email. It's responsible for:
+ *
+ * 1. Rendering templated messages and queueing them in the database, skipping
+ *    categories the recipient has turned off
+ * 2. Sending queued messages over SMTP, retrying failures with a growing delay
+ * 3. Turning quota warnings into emails
+ * 4. Letting users choose which optional emails they get
+ *
+ * SMTP settings come from SMTP_HOST, SMTP_PORT, SMTP_SECURE, SMTP_USER,
+ * SMTP_PASS and EMAIL_FROM. In development without SMTP_HOST, mail goes to a
+ * local catcher such as Mailpit on localhost:1025.
+ */
+
+import { Request, Response } from 'express';
+import nodemailer, { Transporter } from 'nodemailer';
+import { storage } from './storage';
+import { requirePermission } from './permissions';
+import { auditLog } from './audit';
+import { quotaEnforcementService, QuotaWarning } from './quota-enforcement';
+import { renderEmail, getTemplateCategory, EmailTemplateName, EmailTemplateData } from './email-templates';
+import { User, EmailPreferences, insertEmailPreferencesSchema, permissions, auditActions } from '@shared/schema';
+
+const SEND_INTERVAL = 30 * 1000; // 30 seconds
+const BATCH_SIZE = 20;
+const RETRY_DELAYS = [60, 5 * 60, 30 * 60, 2 * 60 * 60, 12 * 60 * 60].map(seconds => seconds * 1000);
+const APP_NAME_SETTING = 'app_name';
+const DEFAULT_APP_NAME = 'SecureShield VPN';
+const DEFAULT_FROM = 'SecureShield VPN <no-reply@localhost>';
+
+// Interface for options when queueing an email
+interface SendOptions {
+  userId?: number | null;
+  username?: string;
+  dedupeKey?: string; // Queue the email only once for this key
+}
+
+class EmailService {
+  private transporter: Transporter | null = null;
+  private isSending = false;
+
+  constructor() {
+    setInterval(() => this.processQueue(), SEND_INTERVAL);
+
+    quotaEnforcementService.on('warning', (warning: QuotaWarning) => this.sendQuotaWarning(warning));
+    quotaEnforcementService.on('terminated', (warning: QuotaWarning) => this.sendQuotaWarning(warning));
+  }
+
+  /**
+   * Queue an email to a user, unless they've turned off its category or have
+   * no email address
+   *
+   * @param user The recipient
+   * @param template The template to render
+   * @param data The data the template expects
+   * @param dedupeKey Queue the email only once for this key
+   */
+  async sendToUser<K extends EmailTemplateName>(user: User, template: K, data: EmailTemplateData[K], dedupeKey?: string): Promise<void> {
+    if (!user.email) {
+      return;
+    }
+
+    const { category, required } = getTemplateCategory(template);
+    if (!required) {
+      const preferences = await storage.getEmailPreferences(user.id);
+      if (preferences && !preferences[category]) {
+        return;
+      }
+    }
+
+    await this.send(user.email, template, data, { userId: user.id, username: user.username, dedupeKey });
+  }
+
+  /**
+   * Queue an email to any address. Mail queued here ignores preferences, so use
+   * sendToUser for account holders.
+   */
+  async send<K extends EmailTemplateName>(to: string, template: K, data: EmailTemplateData[K], options: SendOptions = {}): Promise<void> {
+    const rendered = renderEmail(template, data, {
+      appName: await this.getAppName(),
+      appUrl: this.getAppUrl(),
+      username: options.username
+    });
+
+    const queued = await storage.enqueueEmail({
+      userId: options.userId ?? null,
+      to,
+      template,
+      subject: rendered.subject,
+      html: rendered.html,
+      text: rendered.text,
+      dedupeKey: options.dedupeKey ?? null,
+      nextAttemptAt: new Date()
+    });
+    if (queued) {
+      console.log(`[EMAIL] Queued ${template} email ${queued.id} to ${to}`);
+    }
+  }
+
+  /**
+   * Send every queued email that's due. Failed sends are retried after each of
+   * the retry delays, then given up on.
+   *
+   * @returns The number of emails sent
+   */
+  async processQueue(): Promise<number> {
+    // Skip this run if the previous one is still going
+    if (this.isSending) {
+      return 0;
+    }
+    this.isSending = true;
+
+    let sent = 0;
+    try {
+      const due = await storage.getDueEmails(new Date(), BATCH_SIZE);
+      const from = process.env.EMAIL_FROM || DEFAULT_FROM;
+
+      for (const message of due) {
+        try {
+          await this.getTransporter().sendMail({
+            from,
+            to: message.to,
+            subject: message.subject,
+            html: message.html,
+            text: message.text
+          });
+          await storage.markEmailSent(message.id);
+          sent++;
+        } catch (error: any) {
+          const attempts = message.attempts + 1;
+          const delay = RETRY_DELAYS[attempts - 1];
+          const nextAttemptAt = delay !== undefined ? new Date(Date.now() + delay) : null;
+          await storage.markEmailAttemptFailed(message.id, attempts, error.message || String(error), nextAttemptAt);
+          console.error(`[EMAIL] Sending email ${message.id} failed (attempt ${attempts})${nextAttemptAt ? '' : ', giving up'}:`, error.message || error);
+        }
+      }
+    } catch (error) {
+      console.error('[EMAIL] Error processing the email queue:', error);
+    } finally {
+      this.isSending = false;
+    }
+
+    return sent;
+  }
+
+  /**
+   * Get a user's email preferences, with every category on when they haven't
+   * chosen yet
+   */
+  async getPreferences(userId: number): Promise<Pick<EmailPreferences, 'billing' | 'subscription' | 'usage' | 'security'>> {
+    const preferences = await storage.getEmailPreferences(userId);
+    return {
+      billing: preferences?.billing ?? true,
+      subscription: preferences?.subscription ?? true,
+      usage: preferences?.usage ?? true,
+      security: preferences?.security ?? true
+    };
+  }
+
+  getAppUrl(): string {
+    return (process.env.APP_URL || 'http://localhost:5000').replace(/\/$/, '');
+  }
+
+  private async sendQuotaWarning(warning: QuotaWarning): Promise<void> {
+    try {
+      const user = await storage.getUser(warning.userId);
+      if (!user) {
+        return;
+      }
+
+      await this.sendToUser(user, 'quotaWarning', {
+        resource: warning.resource,
+        percent: warning.percent,
+        used: warning.used,
+        limit: warning.limit,
+        reached: warning.threshold >= 100
+      }, `quota:${warning.userId}:${warning.id}`);
+    } catch (error) {
+      console.error(`[EMAIL] Error emailing quota warning to user ${warning.userId}:`, error);
+    }
+  }
+
+  private getTransporter(): Transporter {
+    if (!this.transporter) {
+      const host = process.env.SMTP_HOST;
+      if (!host && process.env.NODE_ENV === 'production') {
+        throw new Error('SMTP_HOST is not configured');
+      }
+
+      this.transporter = nodemailer.createTransport({
+        host: host || 'localhost',
+        port: parseInt(process.env.SMTP_PORT || (host ? '587' : '1025'), 10),
+        secure: process.env.SMTP_SECURE === 'true',
+        auth: process.env.SMTP_USER ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASS } : undefined
+      });
+    }
+    return this.transporter;
+  }
+
+  private async getAppName(): Promise<string> {
+    const setting = await storage.getAppSetting(APP_NAME_SETTING);
+    return setting?.value || DEFAULT_APP_NAME;
+  }
+}
+
+// Export singleton instance
+export const emailService = new EmailService();
+
+export function setupEmailRoutes(app: any) {
+  // Get the current user's email preferences
+  app.get('/api/email/preferences', async (req: Request, res: Response) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: 'Not authenticated' });
+    }
+
+    try {
+      res.json(await emailService.getPreferences(req.user.id));
+    } catch (error) {
+      console.error('Error fetching email preferences:', error);
+      res.status(500).json({ message: 'Error fetching email preferences' });
+    }
+  });
+
+  // Turn categories of optional email on or off
+  app.put('/api/email/preferences', async (req: Request, res: Response) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: 'Not authenticated' });
+    }
+
+    const parsed = insertEmailPreferencesSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({
+        message: 'Invalid email preferences',
+        errors: parsed.error.errors
+      });
+    }
+
+    try {
+      await storage.upsertEmailPreferences(req.user.id, parsed.data);
+      res.json(await emailService.getPreferences(req.user.id));
+    } catch (error) {
+      console.error('Error updating email preferences:', error);
+      res.status(500).json({ message: 'Error updating email preferences' });
+    }
+  });
+
+  // Recent outgoing email and its delivery status
+  app.get('/api/admin/email/messages', requirePermission(permissions.EMAIL_READ), async (req: Request, res: Response) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: 'Not authenticated' });
+    }
+
+    try {
+      const messages = await storage.getRecentEmailMessages(100);
+      // Bodies can hold links that act on the recipient's behalf
+      res.json(messages.map(({ html, text, ...message }) => message));
+    } catch (error) {
+      console.error('Error fetching email messages:', error);
+      res.status(500).json({ message: 'Error fetching email messages' });
+    }
+  });
+
+  // Try a message that ran out of retries again
+  app.post('/api/admin/email/messages/:id/retry', requirePermission(permissions.EMAIL_RETRY), async (req: Request, res: Response) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: 'Not authenticated' });
+    }
+
+    try {
+      const message = await storage.requeueEmail(parseInt(req.params.id, 10));
+      if (!message) {
+        return res.status(404).json({ message: 'No failed email with that ID' });
+      }
+      await auditLog.record(req, {
+        action: auditActions.EMAIL_RETRIED,
+        targetType: 'email_message',
+        targetId: message.id,
+        details: { userId: message.userId, template: message.template }
+      });
+      res.json({ success: true });
+    } catch (error) {
+      console.error('Error retrying email:', error);
+      res.status(500).json({ message: 'Error retrying email' });
+    }
+  });
+}
@@ -0,0 +1,316 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach, vi } from 'vitest';
+import express from 'express';
+import crypto from 'crypto';
+import { AddressInfo } from 'net';
+import { Server } from 'http';
+
+const fakes = vi.hoisted(() => {
+  const state = {
+    claimedEvents: new Set<string>(),
+    user: null as any
+  };
+
+  const storage = {
+    claimWebhookEvent: vi.fn(async (provider: string, eventId: string) => {
+      const key = `${provider}:${eventId}`;
+      if (state.claimedEvents.has(key)) {
+        return false;
+      }
+      state.claimedEvents.add(key);
+      return true;
+    }),
+    releaseWebhookEvent: vi.fn(async (provider: string, eventId: string) => {
+      state.claimedEvents.delete(`${provider}:${eventId}`);
+    }),
+    getUserByStripeCustomerId: vi.fn(async (customerId: string) =>
+      state.user?.stripeCustomerId === customerId ? { ...state.user } : undefined
+    ),
+    getOrganizationByStripeCustomerId: vi.fn(async () => undefined),
+    updateUserSubscription: vi.fn(async (userId: number, subscription: string, expiryDate?: Date | null) => {
+      state.user.subscription = subscription;
+      if (expiryDate !== undefined) {
+        state.user.subscriptionExpiryDate = expiryDate;
+      }
+    }),
+    updateSubscriptionStatus: vi.fn(async (userId: number, status: string) => {
+      state.user.subscriptionStatus = status;
+    }),
+    updateStripeSubscriptionId: vi.fn(async (userId: number, subscriptionId: string) => {
+      state.user.stripeSubscriptionId = subscriptionId;
+    })
+  };
+
+  return { state, storage };
+});
+
+vi.mock('./storage', () => ({ storage: fakes.storage }));
+vi.mock('./billing', () => ({ billingLedger: {} }));
+vi.mock('./promotions', () => ({ promotionService: {} }));
+vi.mock('./organizations', () => ({ organizationService: {} }));
+vi.mock('./referrals', () => ({ referralService: {} }));
+vi.mock('./pricing', () => ({ pricingService: {} }));
+vi.mock('./paystack-service', () => ({ paystackService: {} }));
+vi.mock('./flutterwave-service', () => ({ flutterwaveService: {} }));
+
+import { paymentProviders, setupPaymentProviderRoutes, PaymentProviderError, CheckoutRequest } from './payment-provider';
+import { FakePaymentProvider } from './fake-payment-provider';
+import { setupStripeWebhookRoutes } from './stripe-webhooks';
+import { Payment, SubscriptionPlan, User } from '@shared/schema';
+
+const WEBHOOK_SECRET = 'fake_test_secret';
+
+const user = { id: 7, username: 'sam', email: 'sam@example.com' } as User;
+const plan = { id: 2, name: 'premium', price: 999 } as SubscriptionPlan;
+
+function checkoutRequest(currency: 'USD' | 'NGN', coupon?: { code: string; amountDue: number }): CheckoutRequest {
+  const amount = currency === 'USD' ? 999 : 500000;
+  return {
+    user,
+    plan,
+    price: {
+      planName: plan.name,
+      amount,
+      currency,
+      stripePriceId: null,
+      paystackPlanCode: null,
+      flutterwavePlanId: null
+    },
+    coupon: coupon
+      ? {
+        coupon: { code: coupon.code } as any,
+        planName: plan.name,
+        price: amount,
+        discount: amount - coupon.amountDue,
+        amountDue: coupon.amountDue,
+        currency
+      }
+      : undefined,
+    origin: 'https://vpn.example.com'
+  };
+}
+
+function sign(payload: string, secret = WEBHOOK_SECRET): string {
+  return crypto.createHmac('sha256', secret).update(payload).digest('hex');
+}
+
+describe('fake payment providers', () => {
+  const app = express();
+  let server: Server;
+  let baseUrl: string;
+
+  beforeAll(async () => {
+    process.env.PAYMENT_PROVIDER_MODE = 'fake';
+    process.env.FAKE_PAYMENT_WEBHOOK_SECRET = WEBHOOK_SECRET;
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+
+    app.use(express.json({
+      verify: (req, _res, buf) => {
+        req.rawBody = buf;
+      }
+    }));
+    // Without a Stripe key, the way a local setup runs in fake mode
+    setupPaymentProviderRoutes(app, undefined);
+    setupStripeWebhookRoutes(app, undefined);
+
+    server = app.listen(0);
+    await new Promise(resolve => server.once('listening', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+    delete process.env.PAYMENT_PROVIDER_MODE;
+    delete process.env.FAKE_PAYMENT_WEBHOOK_SECRET;
+  });
+
+  it('stands in for every provider', async () => {
+    const response = await fetch(`${baseUrl}/api/payment-providers`);
+    const providers = await response.json();
+
+    expect(providers.map((provider: { name: string }) => provider.name)).toEqual(['stripe', 'paystack', 'flutterwave']);
+    paymentProviders.list().forEach(provider => expect(provider).toBeInstanceOf(FakePaymentProvider));
+  });
+
+  describe.each(['stripe', 'paystack', 'flutterwave'])('%s', (name) => {
+    const getProvider = () => paymentProviders.require(name) as FakePaymentProvider;
+    const currency = name === 'paystack' ? 'NGN' : 'USD';
+
+    it('completes a checkout that verifies as paid', async () => {
+      const provider = getProvider();
+      const checkout = await provider.initializeCheckout(checkoutRequest(currency));
+
+      expect(checkout.provider).toBe(name);
+      expect(checkout.url).toBe(`https://vpn.example.com/subscription?provider=${name}&tx_ref=${checkout.reference}`);
+
+      const payment = await provider.verifyPayment(checkout.reference);
+      expect(payment).toMatchObject({
+        reference: checkout.reference,
+        status: 'succeeded',
+        amount: currency === 'USD' ? 999 : 500000,
+        currency,
+        metadata: { userId: 7, planName: 'premium' }
+      });
+      expect(payment.paidAt).toBeInstanceOf(Date);
+      expect(provider.getSubscription(payment.subscriptionId!)).toMatchObject({ userId: 7, planName: 'premium', status: 'active' });
+    });
+
+    it('charges the discounted amount for a coupon', async () => {
+      const provider = getProvider();
+      const checkout = await provider.initializeCheckout(checkoutRequest(currency, { code: 'SAVE20', amountDue: 799 }));
+
+      const payment = await provider.verifyPayment(checkout.reference);
+      expect(payment.amount).toBe(799);
+      expect(payment.metadata.couponCode).toBe('SAVE20');
+    });
+
+    it('reports pending and failed payments', async () => {
+      const provider = getProvider();
+      const checkout = await provider.initializeCheckout(checkoutRequest(currency));
+
+      provider.setPaymentStatus(checkout.reference, 'pending');
+      expect(await provider.verifyPayment(checkout.reference)).toMatchObject({ status: 'pending', paidAt: null });
+
+      provider.setPaymentStatus(checkout.reference, 'failed');
+      expect((await provider.verifyPayment(checkout.reference)).status).toBe('failed');
+    });
+
+    it('refuses to verify a payment it never took', async () => {
+      await expect(getProvider().verifyPayment('unknown')).rejects.toMatchObject({ status: 404 });
+    });
+
+    it('creates, changes, cancels and resumes a subscription', async () => {
+      const provider = getProvider();
+      const request = checkoutRequest(currency);
+      const created = await provider.createSubscription(request);
+      expect(created).toEqual({ id: expect.any(String), status: 'active', clientSecret: null });
+
+      await provider.cancelSubscription(created.id, { atPeriodEnd: true });
+      expect(provider.getSubscription(created.id)).toMatchObject({ status: 'active', cancelAtPeriodEnd: true });
+
+      await provider.resumeSubscription(created.id);
+      expect(provider.getSubscription(created.id)).toMatchObject({ status: 'active', cancelAtPeriodEnd: false });
+
+      const changed = await provider.changeSubscription(created.id, {
+        user,
+        plan: { ...plan, name: 'ultimate' },
+        price: { ...request.price, planName: 'ultimate' },
+        prorate: true
+      });
+      expect(changed).toEqual({ id: created.id, status: 'active' });
+      expect(provider.getSubscription(created.id)!.planName).toBe('ultimate');
+
+      await provider.cancelSubscription(created.id, { atPeriodEnd: false });
+      expect(provider.getSubscription(created.id)!.status).toBe('canceled');
+    });
+
+    it('fails to change a subscription it never created', async () => {
+      await expect(getProvider().cancelSubscription('unknown', { atPeriodEnd: true }))
+        .rejects.toBeInstanceOf(PaymentProviderError);
+    });
+
+    it('records refunds', async () => {
+      const provider = getProvider();
+      const payment = { id: 3, providerPaymentId: `${name}_payment_1` } as Payment;
+
+      const refundId = await provider.refund(payment, 500, 'requested_by_customer');
+
+      expect(refundId).toEqual(expect.any(String));
+      expect(provider.getRefunds()).toContainEqual({
+        id: refundId,
+        paymentReference: `${name}_payment_1`,
+        amount: 500,
+        reason: 'requested_by_customer'
+      });
+    });
+
+    it('parses a signed webhook', () => {
+      const payload = JSON.stringify({ id: 'evt_1', type: 'charge.succeeded', data: { id: 'ch_1' } });
+
+      const event = getProvider().parseWebhook(Buffer.from(payload), { 'x-fake-signature': sign(payload) });
+
+      expect(event).toEqual({ id: 'evt_1', type: 'charge.succeeded', payload: JSON.parse(payload) });
+    });
+
+    it('names events without an ID after their type and data', () => {
+      // Paystack and Flutterwave events carry `event` rather than `type`
+      const payload = JSON.stringify({ event: 'charge.completed', data: { id: 4021 } });
+
+      const event = getProvider().parseWebhook(Buffer.from(payload), { 'x-fake-signature': sign(payload) });
+
+      expect(event.id).toBe('charge.completed:4021');
+      expect(event.type).toBe('charge.completed');
+    });
+
+    it('rejects webhooks that are unsigned, signed with another secret or have no type', () => {
+      const provider = getProvider();
+      const payload = JSON.stringify({ id: 'evt_1', type: 'charge.succeeded' });
+      const untyped = JSON.stringify({ id: 'evt_2' });
+
+      expect(() => provider.parseWebhook(Buffer.from(payload), {})).toThrow('Missing webhook signature');
+      expect(() => provider.parseWebhook(Buffer.from(payload), { 'x-fake-signature': sign(payload, 'other') }))
+        .toThrow('Invalid webhook signature');
+      expect(() => provider.parseWebhook(Buffer.from(untyped), { 'x-fake-signature': sign(untyped) }))
+        .toThrow('Invalid webhook payload');
+    });
+  });
+
+  describe('POST /api/webhooks/stripe', () => {
+    const subscriptionDeleted = JSON.stringify({
+      id: 'evt_fake_deleted',
+      type: 'customer.subscription.deleted',
+      data: {
+        object: {
+          id: 'sub_fake_1',
+          object: 'subscription',
+          customer: 'cus_fake_1',
+          status: 'canceled',
+          cancellation_details: { reason: 'cancellation_requested' },
+          metadata: {}
+        }
+      }
+    });
+
+    const post = (payload: string, signature: string) => fetch(`${baseUrl}/api/webhooks/stripe`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'X-Fake-Signature': signature },
+      body: payload
+    });
+
+    beforeEach(() => {
+      vi.clearAllMocks();
+      fakes.state.claimedEvents.clear();
+      fakes.state.user = {
+        id: 7,
+        stripeCustomerId: 'cus_fake_1',
+        stripeSubscriptionId: 'sub_fake_1',
+        subscription: 'premium',
+        subscriptionStatus: 'active'
+      };
+    });
+
+    it('applies events signed for the fake Stripe provider', async () => {
+      const response = await post(subscriptionDeleted, sign(subscriptionDeleted));
+
+      expect(response.status).toBe(200);
+      expect(await response.json()).toEqual({ received: true });
+      expect(fakes.state.user.subscription).toBe('free');
+      expect(fakes.state.user.stripeSubscriptionId).toBe('');
+    });
+
+    it('rejects events with a bad signature', async () => {
+      const response = await post(subscriptionDeleted, sign(subscriptionDeleted, 'other'));
+
+      expect(response.status).toBe(400);
+      expect(fakes.storage.claimWebhookEvent).not.toHaveBeenCalled();
+      expect(fakes.state.user.subscription).toBe('premium');
+    });
+
+    it('skips a replayed event', async () => {
+      await post(subscriptionDeleted, sign(subscriptionDeleted));
+      const replay = await post(subscriptionDeleted, sign(subscriptionDeleted));
+
+      expect(await replay.json()).toEqual({ received: true, duplicate: true });
+      expect(fakes.storage.updateUserSubscription).toHaveBeenCalledTimes(1);
+    });
+  });
+});
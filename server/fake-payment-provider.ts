@@ -0,0 +1,185 @@
+/**
+ * Fake Payment Provider
+ *
+ * This module stands in for a real payment provider when PAYMENT_PROVIDER_MODE=fake,
+ * keeping everything in memory. It's responsible for:
+ *
+ * 1. Completing checkouts straight away, with a return URL that comes back to the
+ *    subscription page the way the real provider would
+ * 2. Tracking subscriptions and refunds so their effects can be checked
+ * 3. Accepting webhooks signed with HMAC-SHA256 of the body using
+ *    FAKE_PAYMENT_WEBHOOK_SECRET, so provider events can be posted by hand
+ */
+
+import { IncomingHttpHeaders } from 'http';
+import crypto from 'crypto';
+import {
+  PaymentProvider, PaymentProviderError, CheckoutRequest, CheckoutSession, VerifiedPayment, SubscriptionRequest,
+  SubscriptionChange, ProviderSubscription, WebhookEvent
+} from './payment-provider';
+import { Payment, BillingProvider, SupportedCurrency } from '@shared/schema';
+
+const DEFAULT_WEBHOOK_SECRET = 'fake_webhook_secret';
+
+// Interface for a subscription the fake provider is keeping
+interface FakeSubscription {
+  id: string;
+  userId: number;
+  planName: string;
+  currency: string;
+  status: 'active' | 'canceled';
+  cancelAtPeriodEnd: boolean;
+}
+
+// Interface for a refund the fake provider has made
+interface FakeRefund {
+  id: string;
+  paymentReference: string;
+  amount: number;
+  reason?: string;
+}
+
+export class FakePaymentProvider implements PaymentProvider {
+  private payments = new Map<string, VerifiedPayment>();
+  private subscriptions = new Map<string, FakeSubscription>();
+  private refunds: FakeRefund[] = [];
+
+  constructor(
+    readonly name: BillingProvider,
+    readonly displayName: string,
+    readonly currencies: SupportedCurrency[]
+  ) {}
+
+  /**
+   * Take the payment at once and start a subscription for it
+   */
+  async initializeCheckout(request: CheckoutRequest): Promise<CheckoutSession> {
+    const { user, plan, price, coupon, origin } = request;
+    const subscription = this.startSubscription(user.id, plan.name, price.currency);
+    const reference = this.generateId('pay');
+
+    this.payments.set(reference, {
+      reference,
+      status: 'succeeded',
+      amount: coupon ? coupon.amountDue : price.amount,
+      currency: price.currency,
+      method: 'visa •••• 4242',
+      paidAt: new Date(),
+      metadata: { userId: user.id, planName: plan.name, ...(coupon ? { couponCode: coupon.coupon.code } : {}) },
+      subscriptionId: subscription.id
+    });
+
+    return {
+      provider: this.name,
+      reference,
+      url: `${origin}/subscription?provider=${this.name}&tx_ref=${reference}`
+    };
+  }
+
+  async verifyPayment(reference: string): Promise<VerifiedPayment> {
+    const payment = this.payments.get(reference);
+    if (!payment) {
+      throw new PaymentProviderError('Payment not found', 404);
+    }
+    return payment;
+  }
+
+  async createSubscription(request: SubscriptionRequest): Promise<ProviderSubscription> {
+    const subscription = this.startSubscription(request.user.id, request.plan.name, request.price.currency);
+    return { id: subscription.id, status: subscription.status, clientSecret: null };
+  }
+
+  async cancelSubscription(subscriptionId: string, options: { atPeriodEnd: boolean }): Promise<void> {
+    const subscription = this.requireSubscription(subscriptionId);
+    if (options.atPeriodEnd) {
+      subscription.cancelAtPeriodEnd = true;
+    } else {
+      subscription.status = 'canceled';
+    }
+  }
+
+  async resumeSubscription(subscriptionId: string): Promise<void> {
+    const subscription = this.requireSubscription(subscriptionId);
+    subscription.status = 'active';
+    subscription.cancelAtPeriodEnd = false;
+  }
+
+  async changeSubscription(subscriptionId: string, change: SubscriptionChange): Promise<ProviderSubscription> {
+    const subscription = this.requireSubscription(subscriptionId);
+    subscription.planName = change.plan.name;
+    subscription.cancelAtPeriodEnd = false;
+    return { id: subscription.id, status: subscription.status };
+  }
+
+  async refund(payment: Payment, amount: number, reason?: string): Promise<string | null> {
+    const refund = { id: this.generateId('refund'), paymentReference: payment.providerPaymentId, amount, reason };
+    this.refunds.push(refund);
+    return refund.id;
+  }
+
+  parseWebhook(rawBody: Buffer, headers: IncomingHttpHeaders): WebhookEvent {
+    const signature = headers['x-fake-signature'];
+    if (typeof signature !== 'string') {
+      throw new PaymentProviderError('Missing webhook signature');
+    }
+
+    const secret = process.env.FAKE_PAYMENT_WEBHOOK_SECRET || DEFAULT_WEBHOOK_SECRET;
+    const expected = crypto.createHmac('sha256', secret).update(rawBody).digest('hex');
+    if (expected.length !== signature.length || !crypto.timingSafeEqual(Buffer.from(expected), Buffer.from(signature))) {
+      throw new PaymentProviderError('Invalid webhook signature');
+    }
+
+    // Events are shaped like the real provider's, so the same handlers apply them
+    const payload = JSON.parse(rawBody.toString('utf8'));
+    const type = payload.type || payload.event;
+    if (!type) {
+      throw new PaymentProviderError('Invalid webhook payload');
+    }
+    return { id: payload.id || `${type}:${payload.data?.id ?? this.generateId('event')}`, type, payload };
+  }
+
+  /**
+   * Make a checkout's payment come back with another status, to try out pending
+   * and failed payments
+   */
+  setPaymentStatus(reference: string, status: VerifiedPayment['status']): void {
+    const payment = this.payments.get(reference);
+    if (payment) {
+      payment.status = status;
+      payment.paidAt = status === 'succeeded' ? payment.paidAt || new Date() : null;
+    }
+  }
+
+  getSubscription(subscriptionId: string): FakeSubscription | undefined {
+    return this.subscriptions.get(subscriptionId);
+  }
+
+  getRefunds(): FakeRefund[] {
+    return this.refunds.slice();
+  }
+
+  private startSubscription(userId: number, planName: string, currency: string): FakeSubscription {
+    const subscription: FakeSubscription = {
+      id: this.generateId('sub'),
+      userId,
+      planName,
+      currency,
+      status: 'active',
+      cancelAtPeriodEnd: false
+    };
+    this.subscriptions.set(subscription.id, subscription);
+    return subscription;
+  }
+
+  private requireSubscription(subscriptionId: string): FakeSubscription {
+    const subscription = this.subscriptions.get(subscriptionId);
+    if (!subscription) {
+      throw new PaymentProviderError('Subscription not found', 404);
+    }
+    return subscription;
+  }
+
+  private generateId(prefix: string): string {
+    return `fake_${this.name}_${prefix}_${Date.now()}_${crypto.randomBytes(4).toString('hex')}`;
+  }
+}
@@ -2,6 +2,7 @@ import { Request, Response, NextFunction } from "express";
 import { initializeApp, cert, App } from "firebase-admin/app";
 import { getAuth } from "firebase-admin/auth";
 import { storage } from "./storage";
+import { apiTokenService, verifyApiToken } from "./api-tokens";
 
 // Initialize Firebase Admin SDK for server-side operations
 // In a production environment, you would use a service account
@@ -33,6 +34,11 @@ export const verifyFirebaseToken = async (req: Request, res: Response, next: Nex
   }
   
   const idToken = authHeader.split('Bearer ')[1];
+
+  // Personal API tokens are sent the same way, so hand those over
+  if (apiTokenService.isApiToken(idToken)) {
+    return verifyApiToken(req, res, next);
+  }
   
   try {
     // Verify the ID token using the Auth instance
@@ -63,6 +69,17 @@ export const verifyFirebaseToken = async (req: Request, res: Response, next: Nex
       
       // Subscription is set by default in storage.createUser implementation
     }
+
+    // The user signed out everywhere after this token's sign-in
+    if (user.sessionsRevokedAt && decodedToken.auth_time * 1000 < user.sessionsRevokedAt.getTime()) {
+      console.log(`Refused a Firebase token for user ${user.id} from before they signed out everywhere`);
+      return next();
+    }
+
+    // Firebase has already confirmed the address, so it doesn't need verifying again
+    if (decodedToken.email_verified && email && !user.emailVerifiedAt && user.email?.toLowerCase() === email.toLowerCase()) {
+      user = (await storage.markEmailVerified(user.id, email)) || user;
+    }
     
     // Set user in req object
     req.user = user;
@@ -76,4 +93,9 @@ export const verifyFirebaseToken = async (req: Request, res: Response, next: Nex
     console.error("Firebase token verification failed:", error);
     next();
   }
-};
\ No newline at end of file
+};
+
+// Stop a Firebase user's refresh tokens working, so every device has to sign in again
+export async function revokeFirebaseSessions(uid: string): Promise<void> {
+  await getAuth(firebaseAdmin).revokeRefreshTokens(uid);
+}
@@ -0,0 +1,191 @@
+/**
+ * Flutterwave Payment Provider
+ *
+ * This module is Flutterwave behind the PaymentProvider interface. It's
+ * responsible for:
+ *
+ * 1. Sending users to Flutterwave's hosted checkout on a payment plan, which
+ *    starts a subscription that Flutterwave renews itself
+ * 2. Creating the payment plan for a plan's price the first time it's used
+ * 3. Cancelling and re-activating subscriptions and refunding transactions
+ * 4. Checking the secret hash Flutterwave puts on webhook requests
+ *
+ * Flutterwave can't move a subscription to another plan or discount the first
+ * payment on one, so plan changes and coupons aren't supported.
+ */
+
+import { IncomingHttpHeaders } from 'http';
+import { storage } from './storage';
+import { flutterwaveService } from './flutterwave-service';
+import {
+  PaymentProvider, PaymentProviderError, CheckoutRequest, CheckoutSession, VerifiedPayment, SubscriptionRequest,
+  SubscriptionChange, ProviderSubscription, WebhookEvent
+} from './payment-provider';
+import { PlanPriceQuote } from './pricing';
+import {
+  SubscriptionPlan, Payment, billingProviders, supportedCurrencies, planChangeTypes
+} from '@shared/schema';
+
+// Interface for the parts of a Flutterwave webhook payload we use
+export interface FlutterwaveEvent {
+  event: string;
+  data: any;
+}
+
+export class FlutterwaveProvider implements PaymentProvider {
+  readonly name = billingProviders.FLUTTERWAVE;
+  readonly displayName = 'Flutterwave';
+  readonly currencies = Object.values(supportedCurrencies);
+
+  static isConfigured(): boolean {
+    return flutterwaveService.isConfigured();
+  }
+
+  async initializeCheckout(request: CheckoutRequest): Promise<CheckoutSession> {
+    const { user, plan, price, coupon, origin } = request;
+    if (coupon) {
+      throw new PaymentProviderError("Coupons can't be used with Flutterwave, pay with Stripe or Paystack to use one");
+    }
+    if (!user.email) {
+      throw new PaymentProviderError('Email address is required for payment processing');
+    }
+
+    const reference = flutterwaveService.generateReference();
+    const result = await flutterwaveService.createPayment({
+      tx_ref: reference,
+      amount: price.amount / 100, // Flutterwave takes the main unit
+      currency: price.currency,
+      redirect_url: `${origin}/subscription?provider=${this.name}`,
+      customer: { email: user.email, name: user.username },
+      meta: { userId: user.id, planName: plan.name },
+      payment_plan: await this.getPaymentPlanId(plan, price),
+      customizations: { title: `${plan.name} plan` }
+    });
+
+    return { provider: this.name, reference, url: result.data.link };
+  }
+
+  /**
+   * Look up a transaction by our reference. Payments on a payment plan also
+   * report the subscription they started.
+   */
+  async verifyPayment(reference: string): Promise<VerifiedPayment> {
+    const result = await flutterwaveService.verifyTransaction(reference);
+    const data = result.data || {};
+    const paymentPlanId = data.plan ? String(data.plan) : null;
+
+    return {
+      reference: data.tx_ref || reference,
+      status: data.status === 'successful' ? 'succeeded' : data.status === 'failed' ? 'failed' : 'pending',
+      amount: Math.round((data.amount ?? 0) * 100),
+      currency: data.currency || supportedCurrencies.USD,
+      method: data.card?.last_4digits
+        ? `${(data.card.type || 'card').toLowerCase()} •••• ${data.card.last_4digits}`
+        : data.payment_type || null,
+      paidAt: data.created_at ? new Date(data.created_at) : null,
+      metadata: { ...(data.meta || data.meta_data), flutterwavePlanId: paymentPlanId },
+      customerId: data.customer?.id ? String(data.customer.id) : null,
+      subscriptionId: paymentPlanId && data.customer?.email
+        ? await this.findSubscriptionId(data.customer.email, paymentPlanId)
+        : null
+    };
+  }
+
+  /**
+   * Flutterwave starts subscriptions from the first payment on a payment plan, so
+   * this sends the user to checkout
+   */
+  async createSubscription(request: SubscriptionRequest): Promise<ProviderSubscription> {
+    if (request.startAt && request.startAt.getTime() > Date.now()) {
+      throw new PaymentProviderError("Flutterwave subscriptions can't start at a later date");
+    }
+
+    const checkout = await this.initializeCheckout({ ...request, origin: request.origin || '' });
+    return { id: checkout.reference, status: 'incomplete', checkoutUrl: checkout.url };
+  }
+
+  /**
+   * Stop a subscription renewing. Access runs until the expiry date either way.
+   */
+  async cancelSubscription(subscriptionId: string, options: { atPeriodEnd: boolean }): Promise<void> {
+    await flutterwaveService.cancelSubscription(subscriptionId);
+  }
+
+  async resumeSubscription(subscriptionId: string): Promise<void> {
+    await flutterwaveService.activateSubscription(subscriptionId);
+  }
+
+  async changeSubscription(subscriptionId: string, change: SubscriptionChange): Promise<ProviderSubscription> {
+    throw new PaymentProviderError("Flutterwave subscriptions can't change plans, cancel and subscribe to the new plan instead", 409);
+  }
+
+  /**
+   * Refund a payment. Refunds need Flutterwave's transaction ID, which the ledger
+   * doesn't keep, so it's looked up from our reference.
+   */
+  async refund(payment: Payment, amount: number, reason?: string): Promise<string | null> {
+    const transaction = await flutterwaveService.verifyTransaction(payment.providerPaymentId);
+    if (!transaction.data?.id) {
+      throw new Error(`No Flutterwave transaction found for ${payment.providerPaymentId}`);
+    }
+
+    const result = await flutterwaveService.refundTransaction(transaction.data.id, amount / 100, reason);
+    return result.data?.id ? String(result.data.id) : null;
+  }
+
+  parseWebhook(rawBody: Buffer, headers: IncomingHttpHeaders): WebhookEvent<FlutterwaveEvent> {
+    const signature = headers['verif-hash'];
+    if (typeof signature !== 'string') {
+      throw new PaymentProviderError('Missing webhook signature');
+    }
+
+    if (!flutterwaveService.verifyWebhookSignature(signature)) {
+      console.error('[FLUTTERWAVE] Webhook signature verification failed');
+      throw new PaymentProviderError('Invalid webhook signature');
+    }
+
+    const event = JSON.parse(rawBody.toString('utf8')) as FlutterwaveEvent;
+    if (!event?.event || !event.data) {
+      throw new PaymentProviderError('Invalid webhook payload');
+    }
+    return { id: `${event.event}:${event.data.id}`, type: event.event, payload: event };
+  }
+
+  /**
+   * Get the payment plan for a plan's price, creating it the first time the price
+   * is used with Flutterwave
+   */
+  private async getPaymentPlanId(plan: SubscriptionPlan, price: PlanPriceQuote): Promise<string> {
+    if (price.flutterwavePlanId) {
+      return price.flutterwavePlanId;
+    }
+
+    const result = await flutterwaveService.createPaymentPlan(
+      `${plan.name} (${price.currency})`,
+      price.amount / 100,
+      'monthly',
+      price.currency
+    );
+    const paymentPlanId = String(result.data.id);
+
+    if (price.currency === supportedCurrencies.USD) {
+      // Saved as a new plan version so webhooks for it still find the plan after a price change
+      await storage.updateSubscriptionPlan(plan.id, { flutterwavePlanId: paymentPlanId }, planChangeTypes.UPDATED, null);
+    } else {
+      const localPrice = await storage.getPlanPrice(plan.id, price.currency);
+      if (localPrice) {
+        await storage.updatePlanPriceFlutterwaveId(localPrice.id, paymentPlanId);
+      }
+    }
+
+    console.log(`[FLUTTERWAVE] Created ${price.currency} payment plan ${paymentPlanId} for the ${plan.name} plan`);
+    return paymentPlanId;
+  }
+
+  private async findSubscriptionId(email: string, paymentPlanId: string): Promise<string | null> {
+    const result = await flutterwaveService.getSubscriptions(email);
+    const subscriptions: any[] = result.data || [];
+    const subscription = subscriptions.find(s => String(s.plan) === paymentPlanId && s.status === 'active');
+    return subscription ? String(subscription.id) : null;
+  }
+}
@@ -0,0 +1,160 @@
+import axios from 'axios';
+import crypto from 'crypto';
+
+/**
+ * Flutterwave Payment Service
+ *
+ * This service provides an interface to interact with the Flutterwave v3 API
+ * for hosted checkout, payment plans, subscriptions and refunds. Flutterwave
+ * takes amounts in the currency's main unit, so callers convert from the
+ * smallest unit before calling it.
+ */
+class FlutterwaveService {
+  private readonly baseUrl = 'https://api.flutterwave.com/v3';
+
+  /**
+   * Whether the API and webhook secrets are set
+   */
+  isConfigured(): boolean {
+    return !!process.env.FLUTTERWAVE_SECRET_KEY && !!process.env.FLUTTERWAVE_SECRET_HASH;
+  }
+
+  /**
+   * Create a hosted checkout link
+   *
+   * @param payment - Payment details: tx_ref, amount, currency, redirect_url,
+   *                  customer, meta and optionally the payment_plan to subscribe to
+   * @returns Response with the checkout link
+   */
+  async createPayment(payment: {
+    tx_ref: string,
+    amount: number,
+    currency: string,
+    redirect_url: string,
+    customer: { email: string, name?: string },
+    meta?: Record<string, any>,
+    payment_plan?: string,
+    customizations?: { title?: string, description?: string }
+  }) {
+    return await this.request('post', '/payments', payment, 'payment creation');
+  }
+
+  /**
+   * Verify a transaction by the reference we gave it
+   *
+   * @param txRef - Our reference for the transaction
+   * @returns Transaction data
+   */
+  async verifyTransaction(txRef: string) {
+    return await this.request('get', `/transactions/verify_by_reference?tx_ref=${encodeURIComponent(txRef)}`, undefined, 'transaction verification');
+  }
+
+  /**
+   * Refund a transaction, in full or in part
+   *
+   * @param transactionId - Flutterwave's ID for the transaction
+   * @param amount - Amount to refund in the main unit, defaults to the full amount
+   * @param comments - Note shown to the merchant
+   * @returns Refund response
+   */
+  async refundTransaction(transactionId: number | string, amount?: number, comments?: string) {
+    return await this.request('post', `/transactions/${transactionId}/refund`, { amount, comments }, 'refund');
+  }
+
+  /**
+   * Create a payment plan that bills a fixed amount on an interval
+   *
+   * @param name - Plan name
+   * @param amount - Amount in the main unit
+   * @param interval - Billing interval
+   * @param currency - Currency of the plan
+   * @returns Created plan data
+   */
+  async createPaymentPlan(
+    name: string,
+    amount: number,
+    interval: 'daily' | 'weekly' | 'monthly' | 'quarterly' | 'every 6 months' | 'yearly',
+    currency: string
+  ) {
+    return await this.request('post', '/payment-plans', { name, amount, interval, currency }, 'payment plan creation');
+  }
+
+  /**
+   * List a customer's subscriptions
+   *
+   * @param email - Customer's email address
+   * @returns Subscriptions data
+   */
+  async getSubscriptions(email: string) {
+    return await this.request('get', `/subscriptions?email=${encodeURIComponent(email)}`, undefined, 'subscription fetch');
+  }
+
+  /**
+   * Cancel a subscription so it stops renewing
+   *
+   * @param subscriptionId - Subscription to cancel
+   * @returns Cancellation response
+   */
+  async cancelSubscription(subscriptionId: string) {
+    return await this.request('put', `/subscriptions/${subscriptionId}/cancel`, undefined, 'subscription cancellation');
+  }
+
+  /**
+   * Re-activate a cancelled subscription
+   *
+   * @param subscriptionId - Subscription to activate
+   * @returns Activation response
+   */
+  async activateSubscription(subscriptionId: string) {
+    return await this.request('put', `/subscriptions/${subscriptionId}/activate`, undefined, 'subscription activation');
+  }
+
+  /**
+   * Check that a webhook request carries our secret hash
+   *
+   * @param signature - Value of the verif-hash header
+   * @returns Whether the hash matches
+   */
+  verifyWebhookSignature(signature: string): boolean {
+    const expected = process.env.FLUTTERWAVE_SECRET_HASH;
+    if (!expected || expected.length !== signature.length) {
+      return false;
+    }
+    return crypto.timingSafeEqual(Buffer.from(expected), Buffer.from(signature));
+  }
+
+  /**
+   * Generate a unique transaction reference
+   * @returns A unique transaction reference string
+   */
+  generateReference(): string {
+    return `VPN_FLW_${Date.now()}_${crypto.randomBytes(4).toString('hex')}`;
+  }
+
+  private async request(method: 'get' | 'post' | 'put', path: string, data: any, action: string) {
+    // Checked per request so the app starts without Flutterwave configured
+    const secretKey = process.env.FLUTTERWAVE_SECRET_KEY;
+    if (!secretKey) {
+      throw new Error('FLUTTERWAVE_SECRET_KEY environment variable must be set');
+    }
+
+    try {
+      const response = await axios({
+        method,
+        url: `${this.baseUrl}${path}`,
+        headers: {
+          'Authorization': `Bearer ${secretKey}`,
+          'Content-Type': 'application/json'
+        },
+        data
+      });
+
+      return response.data;
+    } catch (error: any) {
+      console.error(`Flutterwave ${action} error:`, error.response?.data || error.message);
+      throw error;
+    }
+  }
+}
+
+export const flutterwaveService = new FlutterwaveService();
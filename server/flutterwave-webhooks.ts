@@ -0,0 +1,299 @@
+/**
+ * Flutterwave Webhook Handling
+ *
+ * This module applies Flutterwave payments to users' subscriptions. It's
+ * responsible for:
+ *
+ * 1. Verifying the secret hash Flutterwave puts on each webhook request, through
+ *    the Flutterwave payment provider
+ * 2. Processing each event only once, even when Flutterwave redelivers it
+ * 3. Applying completed charges, first payments and renewals alike, and cancelled
+ *    subscriptions to the user's subscription tier, expiry date and status
+ * 4. Confirming a payment when the user comes back from checkout, so they don't
+ *    wait for the webhook
+ *
+ * Charges are looked up again from Flutterwave before they're applied, since the
+ * webhook payload only carries a shared secret rather than a signature.
+ */
+
+import { Request, Response } from 'express';
+import { storage } from './storage';
+import { billingLedger } from './billing';
+import { pricingService } from './pricing';
+import { paymentProviders, PaymentProviderError, VerifiedPayment, handlePaymentProviderError } from './payment-provider';
+import { FlutterwaveEvent } from './flutterwave-provider';
+import {
+  subscriptionTiers, subscriptionStatuses, SubscriptionPlan, User, billingProviders, paymentStatuses
+} from '@shared/schema';
+
+const PROVIDER = 'flutterwave';
+
+// Interface for what a payment did to the user's subscription
+interface AppliedPayment {
+  user: User;
+  plan?: SubscriptionPlan;
+  expiryDate?: Date;
+}
+
+class FlutterwaveWebhookHandler {
+  /**
+   * Apply a verified event to the affected user
+   *
+   * @param event The event from Flutterwave
+   */
+  async handleEvent(event: FlutterwaveEvent): Promise<void> {
+    switch (event.event) {
+      case 'charge.completed':
+        await this.handleChargeCompleted(event.data);
+        break;
+      case 'subscription.cancelled':
+        await this.handleSubscriptionCancelled(event.data);
+        break;
+      default:
+        console.log(`[FLUTTERWAVE] Ignoring unhandled event type ${event.event}`);
+    }
+  }
+
+  /**
+   * Record a payment and extend the user's plan by a month from when it was made.
+   * Applying the same payment again changes nothing, so the webhook and the return
+   * from checkout can both apply it.
+   *
+   * @param payment The payment as verified with Flutterwave
+   * @returns The user and plan the payment was for, if they were found
+   */
+  async applyPayment(payment: VerifiedPayment): Promise<AppliedPayment | undefined> {
+    const user = await this.findUser(payment);
+    if (!user) {
+      return undefined;
+    }
+
+    const plan = await this.findPlan(payment);
+    const paidAt = payment.paidAt || new Date();
+    const expiryDate = new Date(paidAt);
+    expiryDate.setMonth(expiryDate.getMonth() + 1);
+
+    await billingLedger.recordPayment({
+      userId: user.id,
+      provider: billingProviders.FLUTTERWAVE,
+      providerPaymentId: payment.reference,
+      planName: plan?.name,
+      description: plan ? `${plan.name} plan subscription` : 'Payment',
+      amount: payment.amount,
+      currency: payment.currency,
+      status: paymentStatuses.SUCCEEDED,
+      method: payment.method,
+      periodStart: plan ? paidAt : null,
+      periodEnd: plan ? expiryDate : null
+    });
+
+    if (!plan) {
+      console.log(`[FLUTTERWAVE] Charge ${payment.reference} for user ${user.id} isn't for a subscription plan`);
+      return { user };
+    }
+
+    // Renewing on a scheduled downgrade's plan means the downgrade has taken effect
+    if (plan.name === user.pendingSubscription) {
+      await storage.switchUserPlan(user.id, plan);
+    }
+
+    await storage.updateUserSubscription(user.id, plan.name, expiryDate);
+    await storage.updateSubscriptionStatus(user.id, subscriptionStatuses.ACTIVE);
+    if (pricingService.isSupportedCurrency(payment.currency)) {
+      await storage.updateUserCurrency(user.id, payment.currency);
+    }
+    if (payment.subscriptionId) {
+      await storage.updateFlutterwaveSubscriptionId(user.id, payment.subscriptionId);
+    }
+
+    console.log(`[FLUTTERWAVE] User ${user.id} paid for ${plan.name} until ${expiryDate.toISOString()}`);
+    return { user, plan, expiryDate };
+  }
+
+  /**
+   * A charge finished, successfully or not. Renewals that fail leave access in
+   * place until the paid-through date while Flutterwave retries.
+   */
+  private async handleChargeCompleted(data: any): Promise<void> {
+    if (!data.tx_ref) {
+      console.error(`[FLUTTERWAVE] Charge ${data.id} has no reference`);
+      return;
+    }
+
+    const payment = await paymentProviders.require(billingProviders.FLUTTERWAVE).verifyPayment(data.tx_ref);
+    if (payment.status === 'succeeded') {
+      await this.applyPayment(payment);
+      return;
+    }
+    if (payment.status === 'pending') {
+      console.log(`[FLUTTERWAVE] Charge ${payment.reference} is still pending`);
+      return;
+    }
+
+    const user = await this.findUser(payment);
+    if (!user) {
+      return;
+    }
+
+    await billingLedger.recordPayment({
+      userId: user.id,
+      provider: billingProviders.FLUTTERWAVE,
+      providerPaymentId: payment.reference,
+      planName: user.subscription,
+      description: 'Subscription payment',
+      amount: payment.amount,
+      currency: payment.currency,
+      status: paymentStatuses.FAILED,
+      method: payment.method,
+      failureReason: data.processor_response || 'Payment failed'
+    });
+
+    if (user.flutterwaveSubscriptionId) {
+      await storage.updateSubscriptionStatus(user.id, subscriptionStatuses.PAST_DUE);
+    }
+    console.log(`[FLUTTERWAVE] Payment ${payment.reference} failed for user ${user.id}`);
+  }
+
+  /**
+   * The subscription won't renew again. The plan runs until its expiry date, when
+   * the subscription scheduler moves the user to free.
+   */
+  private async handleSubscriptionCancelled(data: any): Promise<void> {
+    const user = await storage.getUserByFlutterwaveSubscriptionId(String(data.id));
+    if (!user) {
+      console.error(`[FLUTTERWAVE] No user found for subscription ${data.id}`);
+      return;
+    }
+
+    await storage.updateFlutterwaveSubscriptionId(user.id, null);
+    if (user.pendingSubscription !== subscriptionTiers.FREE) {
+      await storage.updateSubscriptionStatus(user.id, subscriptionStatuses.CANCELED);
+    }
+
+    console.log(`[FLUTTERWAVE] Subscription ${data.id} cancelled for user ${user.id}`);
+  }
+
+  /**
+   * Find the user a payment belongs to, preferring the user ID we put in the
+   * checkout metadata, which renewals don't carry, and falling back to the
+   * subscription
+   */
+  private async findUser(payment: VerifiedPayment): Promise<User | undefined> {
+    const userId = parseInt(payment.metadata.userId, 10);
+    if (!isNaN(userId)) {
+      const user = await storage.getUser(userId);
+      if (user) {
+        return user;
+      }
+    }
+
+    const user = payment.subscriptionId
+      ? await storage.getUserByFlutterwaveSubscriptionId(payment.subscriptionId)
+      : undefined;
+    if (!user) {
+      console.error(`[FLUTTERWAVE] No user found for payment ${payment.reference}`);
+    }
+    return user;
+  }
+
+  private async findPlan(payment: VerifiedPayment): Promise<SubscriptionPlan | undefined> {
+    if (payment.metadata.flutterwavePlanId) {
+      const plan = await storage.getSubscriptionPlanByFlutterwavePlanId(payment.metadata.flutterwavePlanId);
+      if (plan) {
+        return plan;
+      }
+    }
+    return payment.metadata.planName ? await storage.getSubscriptionPlanByName(payment.metadata.planName) : undefined;
+  }
+}
+
+export const flutterwaveWebhookHandler = new FlutterwaveWebhookHandler();
+
+export function setupFlutterwaveWebhookRoutes(app: any) {
+  app.post('/api/webhooks/flutterwave', async (req: Request, res: Response) => {
+    const provider = paymentProviders.get(billingProviders.FLUTTERWAVE);
+    if (!provider) {
+      return res.status(503).json({ message: 'Flutterwave webhooks are not configured' });
+    }
+    if (!Buffer.isBuffer(req.rawBody)) {
+      return res.status(400).json({ message: 'Missing webhook signature' });
+    }
+
+    let eventId: string;
+    let event: FlutterwaveEvent;
+    try {
+      const parsed = provider.parseWebhook(req.rawBody, req.headers);
+      eventId = parsed.id;
+      event = parsed.payload;
+    } catch (error) {
+      if (error instanceof PaymentProviderError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      return res.status(400).json({ message: 'Invalid webhook payload' });
+    }
+
+    let claimed = false;
+    try {
+      // Flutterwave retries failed deliveries, so skip events we've already handled
+      claimed = await storage.claimWebhookEvent(PROVIDER, eventId, event.event);
+      if (!claimed) {
+        return res.json({ received: true, duplicate: true });
+      }
+
+      await flutterwaveWebhookHandler.handleEvent(event);
+      res.json({ received: true });
+    } catch (error: any) {
+      console.error(`[FLUTTERWAVE] Error processing event ${eventId}:`, error.response?.data || error);
+
+      // Let Flutterwave's retry process the event again
+      if (claimed) {
+        await storage.releaseWebhookEvent(PROVIDER, eventId).catch(console.error);
+      }
+      res.status(500).json({ message: 'Error processing webhook' });
+    }
+  });
+
+  // Confirm a payment when the user comes back from Flutterwave's checkout
+  app.post('/api/payments/flutterwave/verify', async (req: Request, res: Response) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: 'Not authenticated' });
+    }
+
+    const { reference } = req.body;
+    if (!reference || typeof reference !== 'string') {
+      return res.status(400).json({ message: 'Reference is required' });
+    }
+    if (!req.user.emailVerifiedAt) {
+      return res.status(403).json({
+        message: 'Verify your email address before paying',
+        emailVerificationRequired: true
+      });
+    }
+
+    try {
+      const payment = await paymentProviders.require(billingProviders.FLUTTERWAVE).verifyPayment(reference);
+      if (parseInt(payment.metadata.userId, 10) !== req.user.id) {
+        return res.status(404).json({ message: 'Payment not found' });
+      }
+
+      if (payment.status !== 'succeeded') {
+        return res.status(payment.status === 'pending' ? 202 : 400).json({
+          success: false,
+          paymentStatus: payment.status,
+          message: payment.status === 'pending' ? 'Payment is still processing' : 'Payment was not successful'
+        });
+      }
+
+      const applied = await flutterwaveWebhookHandler.applyPayment(payment);
+      res.json({
+        success: true,
+        plan: applied?.plan?.name,
+        expiryDate: applied?.expiryDate?.toISOString(),
+        amount: payment.amount,
+        currency: payment.currency
+      });
+    } catch (error) {
+      handlePaymentProviderError(res, error, 'verifying payment');
+    }
+  });
+}
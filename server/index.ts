@@ -2,8 +2,19 @@ import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
 
+declare module 'http' {
+  interface IncomingMessage {
+    rawBody: unknown
+  }
+}
+
 const app = express();
-app.use(express.json());
+app.use(express.json({
+  // Keep the raw body so payment webhook signatures can be verified
+  verify: (req, _res, buf) => {
+    req.rawBody = buf;
+  }
+}));
 app.use(express.urlencoded({ extended: false }));
 
 app.use((req, res, next) => {
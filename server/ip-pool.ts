@@ -0,0 +1,448 @@
+/**
+ * IP Address Pool Service
+ *
+ * This service hands out tunnel addresses from each server's IPv4 and IPv6
+ * pools. Leases are persisted so two sessions can never be given the same
+ * address, even across restarts. It's responsible for:
+ *
+ * 1. Leasing addresses to VPN sessions and WireGuard peers
+ * 2. Releasing addresses when tunnels close or peers are revoked
+ * 3. Renewing session leases while their tunnels are open, and reclaiming
+ *    expired ones
+ * 4. Reporting pool utilization and conflicts for admins
+ */
+
+import { VpnServer, VpnSession, IpAddressLease, IpFamily, ipFamilies } from '@shared/schema';
+import { storage } from './storage';
+
+const DEFAULT_SUBNET_V4 = '10.8.0.0/16';
+const DEFAULT_SUBNET_V6 = 'fd42:8::/112';
+
+// Session leases expire unless renewed while their tunnel is open
+const SESSION_LEASE_TTL = 2 * 60 * 60 * 1000; // 2 hours
+const LEASE_CHECK_INTERVAL = 5 * 60 * 1000; // 5 minutes
+const MAX_ALLOCATION_ATTEMPTS = 5;
+
+// Interface for a parsed address pool
+interface AddressPool {
+  family: IpFamily;
+  cidr: string;
+  base: bigint;
+  size: bigint;
+}
+
+// Interface for the holder of a lease
+interface LeaseHolder {
+  userId: number;
+  sessionId?: number;
+}
+
+// Interface for the addresses leased in one allocation
+export interface LeasedAddresses {
+  ipv4: string;
+  ipv6?: string;
+  leaseIds: number[];
+}
+
+// Interface for per-pool utilization stats
+export interface PoolUtilization {
+  serverId: number;
+  serverName: string;
+  family: IpFamily;
+  cidr: string;
+  capacity: number;
+  leased: number;
+  sessionLeases: number;
+  peerLeases: number;
+  utilization: number; // percentage
+}
+
+// Interface for a detected address conflict
+export interface AddressConflict {
+  serverId: number;
+  address: string;
+  reason: 'duplicate_lease' | 'outside_pool' | 'peer_without_lease';
+  leaseIds: number[];
+  peerId?: number;
+}
+
+/**
+ * Convert a dotted IPv4 address to an integer
+ */
+export function ipv4ToBigInt(ip: string): bigint {
+  return ip.split('.').reduce((acc, octet) => acc * BigInt(256) + BigInt(parseInt(octet, 10)), BigInt(0));
+}
+
+/**
+ * Convert an integer to a dotted IPv4 address
+ */
+export function bigIntToIpv4(value: bigint): string {
+  const octets: number[] = [];
+  for (let i = 0; i < 4; i++) {
+    octets.unshift(Number(value % BigInt(256)));
+    value = value / BigInt(256);
+  }
+  return octets.join('.');
+}
+
+/**
+ * Convert an IPv6 address (compressed or not) to an integer
+ */
+export function ipv6ToBigInt(ip: string): bigint {
+  const [head, tail] = ip.includes('::') ? ip.split('::') : [ip, undefined];
+  const headGroups = head ? head.split(':') : [];
+  const tailGroups = tail ? tail.split(':') : [];
+  const missing = 8 - headGroups.length - tailGroups.length;
+  const groups = tail === undefined
+    ? headGroups
+    : [...headGroups, ...Array(missing).fill('0'), ...tailGroups];
+
+  return groups.reduce((acc, group) => acc * BigInt(65536) + BigInt(parseInt(group || '0', 16)), BigInt(0));
+}
+
+/**
+ * Convert an integer to a compressed IPv6 address
+ */
+export function bigIntToIpv6(value: bigint): string {
+  const groups: number[] = [];
+  for (let i = 0; i < 8; i++) {
+    groups.unshift(Number(value % BigInt(65536)));
+    value = value / BigInt(65536);
+  }
+
+  // Find the longest run of zero groups to compress with "::"
+  let bestStart = -1;
+  let bestLength = 0;
+  for (let i = 0; i < 8; i++) {
+    if (groups[i] !== 0) continue;
+    let length = 0;
+    while (i + length < 8 && groups[i + length] === 0) length++;
+    if (length > bestLength && length > 1) {
+      bestStart = i;
+      bestLength = length;
+    }
+    i += length;
+  }
+
+  const hex = groups.map(group => group.toString(16));
+  if (bestStart === -1) {
+    return hex.join(':');
+  }
+  return `${hex.slice(0, bestStart).join(':')}::${hex.slice(bestStart + bestLength).join(':')}`;
+}
+
+class IpPoolService {
+  // Sessions whose tunnels hold leases in this process, until the tunnel closes
+  private openSessions: Set<number> = new Set();
+
+  constructor() {
+    // Renew the leases of open tunnels, then reclaim the ones left behind by
+    // tunnels that went away without closing, such as before a restart
+    setInterval(() => {
+      this.renewOpenSessions()
+        .then(() => this.reclaimExpiredLeases())
+        .catch(error => {
+          console.error('Error renewing and reclaiming IP leases:', error);
+        });
+    }, LEASE_CHECK_INTERVAL);
+  }
+
+  /**
+   * Parse a server's pool for an address family
+   *
+   * @param server The VPN server
+   * @param family The address family
+   * @returns The parsed pool
+   */
+  getPool(server: VpnServer, family: IpFamily): AddressPool {
+    const cidr = family === ipFamilies.IPV4
+      ? (server.wgSubnet || DEFAULT_SUBNET_V4)
+      : (server.wgSubnet6 || DEFAULT_SUBNET_V6);
+    const [network, prefixText] = cidr.split('/');
+    const bits = family === ipFamilies.IPV4 ? 32 : 128;
+    const prefix = parseInt(prefixText, 10);
+
+    return {
+      family,
+      cidr,
+      base: family === ipFamilies.IPV4 ? ipv4ToBigInt(network) : ipv6ToBigInt(network),
+      size: BigInt(1) << BigInt(bits - prefix)
+    };
+  }
+
+  /**
+   * Get the address of the server's own tunnel interface (first host in the pool)
+   */
+  getGatewayAddress(server: VpnServer, family: IpFamily): string {
+    const pool = this.getPool(server, family);
+    return this.formatAddress(pool.base + BigInt(1), family);
+  }
+
+  /**
+   * Lease an IPv4 address (and an IPv6 address when the server has a v6 pool)
+   *
+   * @param server The server to lease on
+   * @param holder The user and optional session the lease is for
+   * @param expiresAt When the lease expires, or null to hold it until released
+   * @returns The leased addresses
+   */
+  async leaseAddresses(server: VpnServer, holder: LeaseHolder, expiresAt: Date | null): Promise<LeasedAddresses> {
+    const ipv4Lease = await this.leaseAddress(server, ipFamilies.IPV4, holder, expiresAt);
+
+    let ipv6Lease: IpAddressLease | undefined;
+    try {
+      ipv6Lease = await this.leaseAddress(server, ipFamilies.IPV6, holder, expiresAt);
+    } catch (error) {
+      // IPv6 is best effort; an exhausted v6 pool shouldn't block the connection
+      console.error(`Could not lease IPv6 address on server ${server.id}:`, error);
+    }
+
+    return {
+      ipv4: ipv4Lease.address,
+      ipv6: ipv6Lease?.address,
+      leaseIds: [ipv4Lease.id, ...(ipv6Lease ? [ipv6Lease.id] : [])]
+    };
+  }
+
+  /**
+   * Lease addresses for a VPN session. The leases are renewed until the
+   * session is released, and expire if this process stops renewing them.
+   */
+  async leaseForSession(server: VpnServer, userId: number, sessionId: number): Promise<LeasedAddresses> {
+    const expiresAt = new Date(Date.now() + SESSION_LEASE_TTL);
+    const leased = await this.leaseAddresses(server, { userId, sessionId }, expiresAt);
+    this.openSessions.add(sessionId);
+    return leased;
+  }
+
+  /**
+   * Extend the leases of every session whose tunnel is still open, whether or
+   * not anyone is polling its status
+   */
+  async renewOpenSessions(): Promise<void> {
+    if (this.openSessions.size === 0) {
+      return;
+    }
+    await storage.renewSessionLeases(Array.from(this.openSessions), new Date(Date.now() + SESSION_LEASE_TTL));
+  }
+
+  /**
+   * Release every address held by a session
+   */
+  async releaseSession(sessionId: number): Promise<number> {
+    this.openSessions.delete(sessionId);
+    const released = await storage.releaseSessionLeases(sessionId);
+    if (released.length > 0) {
+      console.log(`Released ${released.length} IP lease(s) for session ${sessionId}`);
+    }
+    return released.length;
+  }
+
+  /**
+   * Release every address pinned to a WireGuard peer
+   */
+  async releasePeer(peerId: number): Promise<number> {
+    const released = await storage.releasePeerLeases(peerId);
+    return released.length;
+  }
+
+  /**
+   * Get the IPv4 tunnel address in use by a session, if any. WireGuard sessions
+   * without their own lease use the address pinned to the user's peer.
+   */
+  async getSessionAddress(session: VpnSession): Promise<string | null> {
+    const leases = await storage.getSessionLeases(session.id);
+    const ipv4Lease = leases.find(lease => lease.family === ipFamilies.IPV4);
+    if (ipv4Lease) {
+      return ipv4Lease.address;
+    }
+
+    if (session.protocol === 'wireguard') {
+      const peer = await storage.getActiveWireguardPeer(session.userId, session.serverId, session.deviceId);
+      return peer ? peer.tunnelIp : null;
+    }
+    return null;
+  }
+
+  /**
+   * Release leases whose expiry has passed
+   *
+   * @returns The number of leases reclaimed
+   */
+  async reclaimExpiredLeases(): Promise<number> {
+    const reclaimed = await storage.releaseExpiredLeases(new Date());
+    for (const lease of reclaimed) {
+      if (lease.sessionId) {
+        this.openSessions.delete(lease.sessionId);
+      }
+    }
+    if (reclaimed.length > 0) {
+      console.log(`Reclaimed ${reclaimed.length} expired IP lease(s)`);
+    }
+    return reclaimed.length;
+  }
+
+  /**
+   * Get utilization for every pool on every server
+   */
+  async getUtilization(): Promise<PoolUtilization[]> {
+    const servers = await storage.getAllServers();
+    const result: PoolUtilization[] = [];
+
+    for (const server of servers) {
+      const leases = await storage.getActiveServerLeases(server.id);
+
+      for (const family of [ipFamilies.IPV4, ipFamilies.IPV6]) {
+        const pool = this.getPool(server, family);
+        const familyLeases = leases.filter(lease => lease.family === family);
+        // Network, gateway (and broadcast for IPv4) are never handed out
+        const reserved = BigInt(family === ipFamilies.IPV4 ? 3 : 2);
+        const capacity = Number(pool.size > reserved ? pool.size - reserved : BigInt(0));
+
+        result.push({
+          serverId: server.id,
+          serverName: server.name,
+          family,
+          cidr: pool.cidr,
+          capacity,
+          leased: familyLeases.length,
+          sessionLeases: familyLeases.filter(lease => lease.sessionId !== null).length,
+          peerLeases: familyLeases.filter(lease => lease.peerId !== null).length,
+          utilization: capacity > 0 ? Math.round((familyLeases.length / capacity) * 10000) / 100 : 100
+        });
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Look for leases that could collide on the wire: duplicates, leases that
+   * fall outside a pool after its range was changed, and WireGuard peers
+   * provisioned without a matching lease.
+   */
+  async findConflicts(): Promise<AddressConflict[]> {
+    const servers = await storage.getAllServers();
+    const conflicts: AddressConflict[] = [];
+
+    for (const server of servers) {
+      const leases = await storage.getActiveServerLeases(server.id);
+      const byAddress = new Map<string, IpAddressLease[]>();
+
+      for (const lease of leases) {
+        const existing = byAddress.get(lease.address) || [];
+        existing.push(lease);
+        byAddress.set(lease.address, existing);
+
+        if (!this.isInPool(server, lease.family as IpFamily, lease.address)) {
+          conflicts.push({
+            serverId: server.id,
+            address: lease.address,
+            reason: 'outside_pool',
+            leaseIds: [lease.id]
+          });
+        }
+      }
+
+      byAddress.forEach((addressLeases, address) => {
+        if (addressLeases.length > 1) {
+          conflicts.push({
+            serverId: server.id,
+            address,
+            reason: 'duplicate_lease',
+            leaseIds: addressLeases.map(lease => lease.id)
+          });
+        }
+      });
+
+      const peers = await storage.getActiveServerPeers(server.id);
+      for (const peer of peers) {
+        const lease = byAddress.get(peer.tunnelIp);
+        if (!lease || !lease.some(l => l.peerId === peer.id)) {
+          conflicts.push({
+            serverId: server.id,
+            address: peer.tunnelIp,
+            reason: 'peer_without_lease',
+            leaseIds: lease ? lease.map(l => l.id) : [],
+            peerId: peer.id
+          });
+        }
+      }
+    }
+
+    return conflicts;
+  }
+
+  /**
+   * Lease the lowest free address in a pool. The partial unique index on
+   * (server_id, address) rejects a concurrent lease of the same address, in
+   * which case we mark it used and try the next one.
+   */
+  private async leaseAddress(
+    server: VpnServer,
+    family: IpFamily,
+    holder: LeaseHolder,
+    expiresAt: Date | null
+  ): Promise<IpAddressLease> {
+    const pool = this.getPool(server, family);
+    const used = new Set(
+      (await storage.getActiveServerLeases(server.id, family)).map(lease => this.parseAddress(lease.address, family))
+    );
+
+    for (let attempt = 0; attempt < MAX_ALLOCATION_ATTEMPTS; attempt++) {
+      const candidate = this.findFreeAddress(pool, used);
+      if (candidate === null) {
+        throw new Error(`${family} pool ${pool.cidr} on server ${server.id} is exhausted`);
+      }
+
+      try {
+        return await storage.createIpLease({
+          serverId: server.id,
+          family,
+          address: this.formatAddress(candidate, family),
+          userId: holder.userId,
+          sessionId: holder.sessionId ?? null,
+          expiresAt
+        });
+      } catch (error: any) {
+        // 23505 = unique_violation: someone else took this address first
+        if (error.code !== '23505') {
+          throw error;
+        }
+        console.warn(`IP lease conflict on server ${server.id} for ${this.formatAddress(candidate, family)}, retrying`);
+        used.add(candidate);
+      }
+    }
+
+    throw new Error(`Could not lease a ${family} address on server ${server.id} after ${MAX_ALLOCATION_ATTEMPTS} attempts`);
+  }
+
+  private findFreeAddress(pool: AddressPool, used: Set<bigint>): bigint | null {
+    // Skip the network address and the gateway (.1); for IPv4 skip broadcast too
+    const last = pool.family === ipFamilies.IPV4 ? pool.size - BigInt(1) : pool.size;
+    for (let offset = BigInt(2); offset < last; offset++) {
+      const candidate = pool.base + offset;
+      if (!used.has(candidate)) {
+        return candidate;
+      }
+    }
+    return null;
+  }
+
+  private isInPool(server: VpnServer, family: IpFamily, address: string): boolean {
+    const pool = this.getPool(server, family);
+    const value = this.parseAddress(address, family);
+    return value >= pool.base && value < pool.base + pool.size;
+  }
+
+  private parseAddress(address: string, family: IpFamily): bigint {
+    return family === ipFamilies.IPV4 ? ipv4ToBigInt(address) : ipv6ToBigInt(address);
+  }
+
+  private formatAddress(value: bigint, family: IpFamily): string {
+    return family === ipFamilies.IPV4 ? bigIntToIpv4(value) : bigIntToIpv6(value);
+  }
+}
+
+// Export singleton instance
+export const ipPoolService = new IpPoolService();
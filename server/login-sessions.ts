@@ -0,0 +1,260 @@
+/**
+ * Login Sessions
+ *
+ * This module lets users see where they're signed in and sign out other devices.
+ * It's responsible for:
+ *
+ * 1. Recording the device, user agent and IP address of each login session in
+ *    the session store, along with when it started and was last used
+ * 2. Listing a user's sessions without handing out the session IDs themselves
+ * 3. Signing out one session, or every session but the current one
+ *
+ * Firebase sign-ins aren't kept in the session store, so they can't be listed.
+ * Signing out everywhere revokes them all instead, including the current one.
+ */
+
+import crypto from 'crypto';
+import { Request, Response, NextFunction } from 'express';
+import { storage, LoginSessionRecord } from './storage';
+import { revokeFirebaseSessions } from './firebase-auth';
+import { User } from '@shared/schema';
+
+const LAST_SEEN_INTERVAL = 5 * 60 * 1000; // Save the last-used time at most this often, as each save writes the session
+
+declare module 'express-session' {
+  interface SessionData {
+    // Where a signed-in session is being used from
+    client?: { userAgent: string | null; ipAddress: string | null; createdAt: number; lastSeenAt: number };
+  }
+}
+
+// Interface for a login session as its owner sees it
+export interface LoginSessionSummary {
+  id: string;
+  current: boolean;
+  device: string;
+  userAgent: string | null;
+  ipAddress: string | null;
+  createdAt: Date | null;
+  lastSeenAt: Date | null;
+  expiresAt: Date;
+}
+
+/**
+ * A session request that can't be completed, such as an unknown session
+ */
+export class LoginSessionError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = 'LoginSessionError';
+  }
+}
+
+class LoginSessionService {
+  /**
+   * List a user's signed-in sessions, newest first
+   *
+   * @param userId The user whose sessions to list
+   * @param req The current request, whose session is marked as this device
+   */
+  async list(userId: number, req: Request): Promise<LoginSessionSummary[]> {
+    const records = await storage.getUserLoginSessions(userId);
+
+    return records
+      .map(record => {
+        // This request's session may not have been saved with its details yet
+        const client = record.sid === req.sessionID ? req.session.client : record.sess.client;
+        return this.summarize(record, client, record.sid === req.sessionID);
+      })
+      .sort((a, b) => (b.createdAt?.getTime() || 0) - (a.createdAt?.getTime() || 0));
+  }
+
+  /**
+   * Sign out one of a user's sessions
+   *
+   * @param userId The user the session belongs to
+   * @param id The session's ID from the list
+   * @param req The current request, which can't sign itself out here
+   */
+  async revoke(userId: number, id: string, req: Request): Promise<void> {
+    const records = await storage.getUserLoginSessions(userId);
+    const record = records.find(record => this.publicId(record.sid) === id);
+    if (!record) {
+      throw new LoginSessionError('Session not found', 404);
+    }
+    if (record.sid === req.sessionID) {
+      throw new LoginSessionError('Use sign out to end the session on this device');
+    }
+
+    await storage.deleteLoginSession(userId, record.sid);
+    console.log(`User ${userId} signed out one of their other sessions`);
+  }
+
+  /**
+   * Sign out every session but the current one, and every Firebase sign-in
+   *
+   * @returns The number of stored sessions signed out
+   */
+  async revokeOthers(user: User, req: Request): Promise<number> {
+    const signedOut = await storage.deleteUserSessions(user.id, req.sessionID);
+
+    if (user.firebaseId) {
+      await storage.markSessionsRevoked(user.id);
+      try {
+        await revokeFirebaseSessions(user.firebaseId);
+      } catch (error) {
+        // Tokens from before now are refused anyway, this just stops them refreshing
+        console.error(`Error revoking Firebase sessions for user ${user.id}:`, error);
+      }
+    }
+
+    console.log(`User ${user.id} signed out everywhere else, ${signedOut} sessions ended`);
+    return signedOut;
+  }
+
+  /**
+   * Record where a signed-in session is being used from. Sessions are new
+   * after each sign-in, so the first request that sees one notes its start.
+   */
+  track(req: Request): void {
+    const passport = (req.session as any)?.passport;
+    if (!passport?.user) {
+      return;
+    }
+
+    const now = Date.now();
+    const client = req.session.client;
+    if (!client) {
+      req.session.client = {
+        userAgent: req.get('user-agent') || null,
+        ipAddress: req.ip ?? null,
+        createdAt: now,
+        lastSeenAt: now
+      };
+    } else if (now - client.lastSeenAt > LAST_SEEN_INTERVAL) {
+      client.lastSeenAt = now;
+      client.ipAddress = req.ip ?? client.ipAddress;
+    }
+  }
+
+  /**
+   * Turn a user agent into something like "Chrome on Windows"
+   */
+  describeDevice(userAgent: string | null): string {
+    if (!userAgent) {
+      return 'Unknown device';
+    }
+
+    const browsers: [RegExp, string][] = [
+      [/Edg\//, 'Edge'],
+      [/OPR\//, 'Opera'],
+      [/Firefox\//, 'Firefox'],
+      [/Chrome\//, 'Chrome'],
+      [/Safari\//, 'Safari']
+    ];
+    // iOS and Android user agents also mention macOS and Linux, so they're checked first
+    const systems: [RegExp, string][] = [
+      [/iPhone|iPad|iPod/, 'iOS'],
+      [/Android/, 'Android'],
+      [/Windows/, 'Windows'],
+      [/Mac OS X|Macintosh/, 'macOS'],
+      [/CrOS/, 'ChromeOS'],
+      [/Linux/, 'Linux']
+    ];
+
+    const browser = browsers.find(([pattern]) => pattern.test(userAgent));
+    const system = systems.find(([pattern]) => pattern.test(userAgent));
+    if (browser && system) {
+      return `${browser[1]} on ${system[1]}`;
+    }
+    if (browser || system) {
+      return (browser || system)![1];
+    }
+    // Scripts and other clients usually start with their name and version, like curl/8.4.0
+    return userAgent.split(' ')[0];
+  }
+
+  private summarize(record: LoginSessionRecord, client: any, current: boolean): LoginSessionSummary {
+    return {
+      id: this.publicId(record.sid),
+      current,
+      device: this.describeDevice(client?.userAgent ?? null),
+      userAgent: client?.userAgent ?? null,
+      ipAddress: client?.ipAddress ?? null,
+      createdAt: client?.createdAt ? new Date(client.createdAt) : null,
+      lastSeenAt: client?.lastSeenAt ? new Date(client.lastSeenAt) : null,
+      expiresAt: record.expire
+    };
+  }
+
+  // Anyone holding a session ID could try it as a cookie, so the list only shows a hash of it
+  private publicId(sid: string): string {
+    return crypto.createHash('sha256').update(sid).digest('hex').slice(0, 32);
+  }
+}
+
+// Export singleton instance
+export const loginSessionService = new LoginSessionService();
+
+/**
+ * Keep each signed-in session's device details up to date
+ */
+export function trackLoginSession(req: Request, res: Response, next: NextFunction) {
+  loginSessionService.track(req);
+  next();
+}
+
+function handleLoginSessionError(res: Response, error: any, action: string) {
+  if (error instanceof LoginSessionError) {
+    return res.status(error.status).json({ message: error.message });
+  }
+  console.error(`Error ${action}:`, error);
+  res.status(500).json({ message: `Error ${action}` });
+}
+
+export function setupLoginSessionRoutes(app: any) {
+  // List where the signed-in user is signed in
+  app.get('/api/account/sessions', async (req: Request, res: Response) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: 'Not authenticated' });
+    }
+
+    try {
+      res.json(await loginSessionService.list(req.user.id, req));
+    } catch (error) {
+      handleLoginSessionError(res, error, 'fetching sessions');
+    }
+  });
+
+  // Sign out every other session
+  app.delete('/api/account/sessions', async (req: Request, res: Response) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: 'Not authenticated' });
+    }
+
+    try {
+      const user = await storage.getUser(req.user.id);
+      if (!user) {
+        return res.status(404).json({ message: 'User not found' });
+      }
+      const signedOut = await loginSessionService.revokeOthers(user, req);
+      res.json({ success: true, signedOut });
+    } catch (error) {
+      handleLoginSessionError(res, error, 'signing out other sessions');
+    }
+  });
+
+  // Sign out one session
+  app.delete('/api/account/sessions/:id', async (req: Request, res: Response) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: 'Not authenticated' });
+    }
+
+    try {
+      await loginSessionService.revoke(req.user.id, req.params.id, req);
+      res.json({ success: true });
+    } catch (error) {
+      handleLoginSessionError(res, error, 'signing out session');
+    }
+  });
+}
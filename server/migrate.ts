@@ -25,6 +25,160 @@ async function migrate() {
       END $$;
     `);
 
+    // Add WireGuard key and addressing columns to vpn_servers
+    await db.execute(sql`
+      ALTER TABLE vpn_servers ADD COLUMN IF NOT EXISTS wg_public_key TEXT;
+      ALTER TABLE vpn_servers ADD COLUMN IF NOT EXISTS wg_port INTEGER DEFAULT 51820;
+      ALTER TABLE vpn_servers ADD COLUMN IF NOT EXISTS wg_subnet TEXT DEFAULT '10.8.0.0/16';
+      ALTER TABLE vpn_servers ADD COLUMN IF NOT EXISTS wg_subnet6 TEXT DEFAULT 'fd42:8::/112';
+    `);
+
+    // Track which device each VPN session belongs to
+    await db.execute(sql`
+      ALTER TABLE vpn_sessions ADD COLUMN IF NOT EXISTS device_id INTEGER;
+    `);
+
+    // Session byte counters overflow a 32-bit integer past 2 GB
+    await db.execute(sql`
+      ALTER TABLE vpn_sessions ALTER COLUMN data_uploaded TYPE BIGINT;
+      ALTER TABLE vpn_sessions ALTER COLUMN data_downloaded TYPE BIGINT;
+    `);
+
+    // Track the billing state of a user's paid subscription
+    await db.execute(sql`
+      ALTER TABLE users ADD COLUMN IF NOT EXISTS subscription_status TEXT;
+    `);
+
+    // Link users to their Paystack customer and subscription
+    await db.execute(sql`
+      ALTER TABLE users ADD COLUMN IF NOT EXISTS paystack_customer_code TEXT;
+      ALTER TABLE users ADD COLUMN IF NOT EXISTS paystack_subscription_code TEXT;
+      ALTER TABLE users ADD COLUMN IF NOT EXISTS paystack_authorization_code TEXT;
+    `);
+
+    // Scheduled plan downgrades that take effect at the end of the billing period
+    await db.execute(sql`
+      ALTER TABLE users ADD COLUMN IF NOT EXISTS pending_subscription TEXT;
+      ALTER TABLE users ADD COLUMN IF NOT EXISTS pending_subscription_at TIMESTAMP;
+    `);
+
+    // Each user gets one free trial
+    await db.execute(sql`
+      ALTER TABLE users ADD COLUMN IF NOT EXISTS trial_used_at TIMESTAMP;
+    `);
+
+    // Currency the user is billed in
+    await db.execute(sql`
+      ALTER TABLE users ADD COLUMN IF NOT EXISTS currency TEXT;
+    `);
+
+    // Fixed-amount coupons are in a single currency
+    await db.execute(sql`
+      ALTER TABLE coupons ADD COLUMN IF NOT EXISTS currency TEXT NOT NULL DEFAULT 'USD';
+    `);
+
+    // Referral codes and the account credit they earn
+    await db.execute(sql`
+      ALTER TABLE users ADD COLUMN IF NOT EXISTS referral_code TEXT UNIQUE;
+      ALTER TABLE users ADD COLUMN IF NOT EXISTS referred_by INTEGER;
+      ALTER TABLE users ADD COLUMN IF NOT EXISTS signup_ip TEXT;
+      ALTER TABLE users ADD COLUMN IF NOT EXISTS credit_balance INTEGER NOT NULL DEFAULT 0;
+      ALTER TABLE users ADD COLUMN IF NOT EXISTS credit_currency TEXT;
+    `);
+
+    // Versioned, archivable plans with a structured feature list
+    await db.execute(sql`
+      ALTER TABLE subscription_plans ADD COLUMN IF NOT EXISTS version INTEGER NOT NULL DEFAULT 1;
+      ALTER TABLE subscription_plans ADD COLUMN IF NOT EXISTS archived_at TIMESTAMP;
+    `);
+    await db.execute(sql`
+      DO $$
+      BEGIN
+        IF EXISTS (
+          SELECT 1 FROM information_schema.columns
+          WHERE table_name = 'subscription_plans' AND column_name = 'features' AND data_type = 'text'
+        ) THEN
+          ALTER TABLE subscription_plans ADD COLUMN features_json JSONB NOT NULL DEFAULT '[]'::jsonb;
+          UPDATE subscription_plans SET features_json = COALESCE((
+            SELECT jsonb_agg(jsonb_build_object('label', trim(feature)))
+            FROM unnest(string_to_array(features, ',')) AS feature
+            WHERE trim(feature) <> ''
+          ), '[]'::jsonb);
+          ALTER TABLE subscription_plans DROP COLUMN features;
+          ALTER TABLE subscription_plans RENAME COLUMN features_json TO features;
+        END IF;
+      END $$;
+    `);
+
+    // Flutterwave subscriptions and the payment plans they bill
+    await db.execute(sql`
+      ALTER TABLE users ADD COLUMN IF NOT EXISTS flutterwave_subscription_id TEXT;
+      ALTER TABLE subscription_plans ADD COLUMN IF NOT EXISTS flutterwave_plan_id TEXT;
+      ALTER TABLE plan_prices ADD COLUMN IF NOT EXISTS flutterwave_plan_id TEXT;
+    `);
+
+    // Email verification. Accounts from before verification existed are treated
+    // as verified so they can keep paying.
+    await db.execute(sql`
+      DO $$
+      BEGIN
+        IF NOT EXISTS (
+          SELECT 1 FROM information_schema.columns
+          WHERE table_name = 'users' AND column_name = 'email_verified_at'
+        ) THEN
+          ALTER TABLE users ADD COLUMN email_verified_at TIMESTAMP;
+          UPDATE users SET email_verified_at = created_at WHERE email IS NOT NULL AND email <> '';
+        END IF;
+      END $$;
+    `);
+
+    // TOTP two-factor authentication
+    await db.execute(sql`
+      ALTER TABLE users ADD COLUMN IF NOT EXISTS two_factor_secret TEXT;
+      ALTER TABLE users ADD COLUMN IF NOT EXISTS two_factor_enabled_at TIMESTAMP;
+      ALTER TABLE users ADD COLUMN IF NOT EXISTS two_factor_last_step INTEGER;
+    `);
+
+    // Role-based access. The admin panel used to be open to user 1 alone, so
+    // they become the first admin when nobody has the role yet.
+    await db.execute(sql`
+      UPDATE users SET role = 'admin'
+      WHERE id = 1 AND NOT EXISTS (SELECT 1 FROM users WHERE role = 'admin');
+    `);
+
+    // Keep the audit log append-only, even for queries run by hand
+    await db.execute(sql`
+      CREATE OR REPLACE FUNCTION prevent_audit_event_changes() RETURNS trigger AS $fn$
+      BEGIN
+        RAISE EXCEPTION 'audit_events is append-only';
+      END;
+      $fn$ LANGUAGE plpgsql;
+
+      DO $$
+      BEGIN
+        IF to_regclass('audit_events') IS NOT NULL AND NOT EXISTS (
+          SELECT 1 FROM pg_trigger WHERE tgname = 'audit_events_append_only'
+        ) THEN
+          CREATE TRIGGER audit_events_append_only
+            BEFORE UPDATE OR DELETE ON audit_events
+            FOR EACH ROW EXECUTE FUNCTION prevent_audit_event_changes();
+          CREATE TRIGGER audit_events_no_truncate
+            BEFORE TRUNCATE ON audit_events
+            FOR EACH STATEMENT EXECUTE FUNCTION prevent_audit_event_changes();
+        END IF;
+      END $$;
+    `);
+
+    // Account deletion requests waiting out their cooling-off period
+    await db.execute(sql`
+      ALTER TABLE users ADD COLUMN IF NOT EXISTS deletion_scheduled_at TIMESTAMP;
+    `);
+
+    // Signing out everywhere, for sign-ins that aren't kept in the session store
+    await db.execute(sql`
+      ALTER TABLE users ADD COLUMN IF NOT EXISTS sessions_revoked_at TIMESTAMP;
+    `);
+
     console.log('Database migrations completed successfully');
   } catch (error) {
     console.error('Error running migrations:', error);
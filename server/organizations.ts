@@ -0,0 +1,1006 @@
+/**
+ * Organizations
+ *
+ * This module lets teams share one subscription instead of each member paying
+ * separately. It's responsible for:
+ *
+ * 1. Creating organizations and managing their owner, admin and member roles
+ * 2. Inviting people by email with a single-use token, up to the seats paid for
+ * 3. Billing seats against a single Stripe or Paystack subscription, including
+ *    seat changes part way through a period and Paystack renewals
+ * 4. Applying provider payments and cancellations to the organization's plan,
+ *    which each member gets through storage.getUserPlan
+ */
+
+import { Request, Response } from 'express';
+import Stripe from 'stripe';
+import crypto from 'crypto';
+import { storage } from './storage';
+import { paystackService } from './paystack-service';
+import { billingLedger } from './billing';
+import { emailService } from './email';
+import { describeAuthorization } from './paystack-webhooks';
+import { pricingService, PricingError } from './pricing';
+import {
+  Organization, OrganizationMember, OrganizationInvitation, OrganizationRole, SubscriptionPlan, SubscriptionStatus, User,
+  organizationRoles, subscriptionTiers, subscriptionStatuses, billingProviders, paymentStatuses,
+  insertOrganizationSchema, insertOrganizationInvitationSchema
+} from '@shared/schema';
+
+const INVITATION_DAYS = 7;
+const MAX_SEATS = 500;
+
+// Interface for an organization as its members see it
+export interface OrganizationDetails {
+  organization: Organization;
+  role: OrganizationRole;
+  members: (OrganizationMember & { username: string; email: string | null })[];
+  invitations: OrganizationInvitation[]; // Only shown to owners and admins
+  seatsUsed: number; // Members plus pending invitations
+}
+
+// Interface for a paid Stripe invoice on an organization's subscription
+export interface OrganizationStripePayment {
+  subscriptionId: string;
+  plan: SubscriptionPlan;
+  seats: number;
+  amount: number;
+  currency: string;
+  invoiceId: string;
+  paymentId: string;
+  periodStart: Date;
+  periodEnd: Date;
+}
+
+// Interface for starting a seat checkout
+interface CheckoutOptions {
+  planName: string;
+  seats: number;
+  paymentMethod: 'stripe' | 'paystack';
+  currency?: string;
+  origin: string;
+}
+
+/**
+ * An organization request that can't be done, with the HTTP status to answer it with
+ */
+export class OrganizationError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = 'OrganizationError';
+  }
+}
+
+class OrganizationService {
+  /**
+   * Get the organization a user belongs to and their role in it
+   */
+  async getDetails(user: User): Promise<OrganizationDetails | null> {
+    const membership = await storage.getOrganizationMembership(user.id);
+    if (!membership) {
+      return null;
+    }
+
+    const organization = await storage.getOrganization(membership.organizationId);
+    if (!organization) {
+      return null;
+    }
+
+    const [members, invitations] = await Promise.all([
+      storage.getOrganizationMembers(organization.id),
+      storage.getPendingOrganizationInvitations(organization.id, new Date())
+    ]);
+    const canManage = membership.role !== organizationRoles.MEMBER;
+
+    return {
+      organization,
+      role: membership.role as OrganizationRole,
+      members,
+      invitations: canManage ? invitations : [],
+      seatsUsed: members.length + invitations.length
+    };
+  }
+
+  /**
+   * Create an organization with the user as its owner
+   */
+  async create(user: User, name: string): Promise<Organization> {
+    if (await storage.getOrganizationMembership(user.id)) {
+      throw new OrganizationError('Leave your current organization before creating another', 409);
+    }
+
+    const organization = await storage.createOrganization(name, user.id);
+    console.log(`User ${user.id} created organization ${organization.id} (${organization.name})`);
+    return organization;
+  }
+
+  async rename(user: User, name: string): Promise<Organization> {
+    const { organization } = await this.requireRole(user, [organizationRoles.OWNER, organizationRoles.ADMIN]);
+    const updated = await storage.updateOrganization(organization.id, { name });
+    return updated!;
+  }
+
+  /**
+   * Delete an organization that isn't paying for anything
+   */
+  async delete(user: User): Promise<void> {
+    const { organization } = await this.requireRole(user, [organizationRoles.OWNER]);
+    if (organization.subscription !== subscriptionTiers.FREE) {
+      throw new OrganizationError('Cancel the subscription and wait for it to end before deleting the organization', 409);
+    }
+
+    await storage.deleteOrganization(organization.id);
+    console.log(`User ${user.id} deleted organization ${organization.id}`);
+  }
+
+  /**
+   * Invite someone by email. Each pending invitation holds a seat until it's
+   * accepted or expires.
+   *
+   * @param user The owner or admin sending the invitation
+   * @param email The address to invite
+   * @param role The role the invitee gets
+   * @param origin The site origin to build the invitation link from
+   * @returns The invitation and the link to accept it
+   */
+  async invite(user: User, email: string, role: OrganizationRole, origin: string): Promise<{ invitation: OrganizationInvitation; inviteUrl: string }> {
+    const { organization } = await this.requireRole(user, [organizationRoles.OWNER, organizationRoles.ADMIN]);
+
+    const [members, invitations] = await Promise.all([
+      storage.getOrganizationMembers(organization.id),
+      storage.getPendingOrganizationInvitations(organization.id, new Date())
+    ]);
+    if (members.some(member => member.email?.toLowerCase() === email)) {
+      throw new OrganizationError('This person is already a member', 409);
+    }
+
+    // Inviting the same address again replaces the old invitation
+    const existing = invitations.find(invitation => invitation.email === email);
+    if (existing) {
+      await storage.deleteOrganizationInvitation(organization.id, existing.id);
+    } else if (members.length + invitations.length >= organization.seats) {
+      throw new OrganizationError('Every seat is taken, add seats before inviting more people', 402);
+    }
+
+    const invitation = await storage.createOrganizationInvitation({
+      organizationId: organization.id,
+      email,
+      role,
+      token: crypto.randomBytes(32).toString('hex'),
+      invitedBy: user.id,
+      expiresAt: new Date(Date.now() + INVITATION_DAYS * 24 * 60 * 60 * 1000)
+    });
+
+    const inviteUrl = `${origin}/organization/invite/${invitation.token}`;
+    await emailService.send(email, 'organizationInvitation', {
+      organizationName: organization.name,
+      invitedBy: user.username,
+      role,
+      inviteUrl,
+      expiresAt: invitation.expiresAt
+    });
+    console.log(`User ${user.id} invited ${email} to organization ${organization.id}`);
+    return { invitation, inviteUrl };
+  }
+
+  async revokeInvitation(user: User, invitationId: number): Promise<void> {
+    const { organization } = await this.requireRole(user, [organizationRoles.OWNER, organizationRoles.ADMIN]);
+    const invitation = await storage.deleteOrganizationInvitation(organization.id, invitationId);
+    if (!invitation) {
+      throw new OrganizationError('Invitation not found', 404);
+    }
+  }
+
+  /**
+   * Look up an invitation that can still be accepted
+   */
+  async getInvitation(token: string): Promise<{ invitation: OrganizationInvitation; organization: Organization }> {
+    const invitation = await storage.getOrganizationInvitationByToken(token);
+    if (!invitation || invitation.acceptedAt) {
+      throw new OrganizationError('Invitation not found', 404);
+    }
+    if (invitation.expiresAt.getTime() <= Date.now()) {
+      throw new OrganizationError('This invitation has expired, ask for a new one', 410);
+    }
+
+    const organization = await storage.getOrganization(invitation.organizationId);
+    if (!organization) {
+      throw new OrganizationError('Invitation not found', 404);
+    }
+    return { invitation, organization };
+  }
+
+  /**
+   * Join the organization an invitation is for. The invitation only works for the
+   * address it was sent to.
+   */
+  async acceptInvitation(user: User, token: string): Promise<Organization> {
+    const { invitation, organization } = await this.getInvitation(token);
+    if (!user.email || user.email.toLowerCase() !== invitation.email) {
+      throw new OrganizationError('This invitation was sent to a different email address', 403);
+    }
+    if (await storage.getOrganizationMembership(user.id)) {
+      throw new OrganizationError('Leave your current organization before joining another', 409);
+    }
+
+    const member = await storage.acceptOrganizationInvitation(invitation, user.id);
+    if (!member) {
+      throw new OrganizationError('Every seat is taken, ask the owner to add seats', 402);
+    }
+
+    console.log(`User ${user.id} joined organization ${organization.id} as ${member.role}`);
+    return organization;
+  }
+
+  /**
+   * Make a member an admin or an admin a member. Only the owner can change roles.
+   */
+  async updateMemberRole(user: User, memberId: number, role: OrganizationRole): Promise<OrganizationMember> {
+    const { organization } = await this.requireRole(user, [organizationRoles.OWNER]);
+    if (memberId === organization.ownerId) {
+      throw new OrganizationError("The owner's role can't be changed");
+    }
+
+    const member = await storage.updateOrganizationMemberRole(organization.id, memberId, role);
+    if (!member) {
+      throw new OrganizationError('Member not found', 404);
+    }
+    return member;
+  }
+
+  /**
+   * Remove someone from the organization, or leave it. Admins can remove members,
+   * only the owner can remove admins, and the owner can't leave.
+   */
+  async removeMember(user: User, memberId: number): Promise<void> {
+    const { organization, membership } = await this.requireRole(user);
+    if (memberId === organization.ownerId) {
+      throw new OrganizationError("The owner can't be removed, delete the organization instead");
+    }
+
+    if (memberId !== user.id) {
+      const members = await storage.getOrganizationMembers(organization.id);
+      const member = members.find(m => m.userId === memberId);
+      if (!member) {
+        throw new OrganizationError('Member not found', 404);
+      }
+      const canRemove = membership.role === organizationRoles.OWNER ||
+        (membership.role === organizationRoles.ADMIN && member.role === organizationRoles.MEMBER);
+      if (!canRemove) {
+        throw new OrganizationError("You don't have permission to remove this member", 403);
+      }
+    }
+
+    await storage.removeOrganizationMember(organization.id, memberId);
+    console.log(`User ${memberId} left organization ${organization.id}${memberId !== user.id ? ` (removed by user ${user.id})` : ''}`);
+  }
+
+  /**
+   * Start paying for seats on a plan. Stripe uses a subscription with one unit
+   * per seat, Paystack a hosted payment whose card is charged again each month.
+   *
+   * @returns The checkout page to send the owner to
+   */
+  async startCheckout(stripe: Stripe | undefined, user: User, req: Request, options: CheckoutOptions): Promise<{ url: string }> {
+    const { organization } = await this.requireRole(user, [organizationRoles.OWNER]);
+    if (organization.subscription !== subscriptionTiers.FREE) {
+      throw new OrganizationError('The organization already has a subscription, change its seats instead', 409);
+    }
+    if (!user.email) {
+      throw new OrganizationError('Email address is required for payment processing');
+    }
+
+    const plan = await storage.getSubscriptionPlanByName(options.planName);
+    if (!plan || plan.archivedAt || plan.price <= 0) {
+      throw new OrganizationError('Choose a paid plan for the organization');
+    }
+    const members = await storage.getOrganizationMembers(organization.id);
+    this.validateSeats(options.seats, members.length);
+
+    const currency = pricingService.resolveCurrency(req, options.currency);
+    pricingService.assertProviderSupports(
+      options.paymentMethod === 'stripe' ? billingProviders.STRIPE : billingProviders.PAYSTACK,
+      currency
+    );
+    const price = await pricingService.getPlanPrice(plan, currency);
+
+    if (options.paymentMethod === 'stripe') {
+      if (!stripe) {
+        throw new OrganizationError('Stripe payment service is not available', 503);
+      }
+
+      // The organization is its own Stripe customer so it doesn't touch the owner's subscription
+      let customerId = organization.stripeCustomerId;
+      if (!customerId) {
+        const customer = await stripe.customers.create({
+          name: organization.name,
+          email: user.email,
+          metadata: { organizationId: organization.id.toString() }
+        });
+        customerId = customer.id;
+        await storage.updateOrganization(organization.id, { stripeCustomerId: customerId });
+      }
+
+      const session = await stripe.checkout.sessions.create({
+        mode: 'subscription',
+        customer: customerId,
+        line_items: [{
+          price: await pricingService.getStripePriceId(stripe, plan, currency),
+          quantity: options.seats
+        }],
+        success_url: `${options.origin}/organization?checkout=success`,
+        cancel_url: `${options.origin}/organization`,
+        client_reference_id: `organization_${organization.id}`,
+        subscription_data: {
+          metadata: {
+            organizationId: organization.id.toString(),
+            planName: plan.name
+          }
+        }
+      });
+      return { url: session.url! };
+    }
+
+    const result = await paystackService.initializeTransaction(
+      user.email,
+      price.amount * options.seats,
+      undefined,
+      `${options.origin}/organization`,
+      {
+        organizationId: organization.id,
+        planName: plan.name,
+        seats: options.seats
+      },
+      currency
+    );
+    return { url: result.data.authorization_url };
+  }
+
+  /**
+   * Check a Paystack payment the owner was sent back from, in case it arrives
+   * before the webhook does
+   */
+  async verifyPaystackCheckout(user: User, reference: string): Promise<Organization> {
+    const { organization } = await this.requireRole(user, [organizationRoles.OWNER]);
+
+    const result = await paystackService.verifyTransaction(reference);
+    const organizationId = parseInt(result.data?.metadata?.organizationId, 10);
+    if (result.data?.status !== 'success' || organizationId !== organization.id) {
+      throw new OrganizationError('Payment was not successful', 402);
+    }
+
+    return await this.applyPaystackCharge(result.data) ?? organization;
+  }
+
+  /**
+   * Change the number of seats. Added seats are charged for the rest of the
+   * current period, removed seats stop being billed from the next renewal.
+   */
+  async updateSeats(stripe: Stripe | undefined, user: User, seats: number): Promise<Organization> {
+    const { organization } = await this.requireRole(user, [organizationRoles.OWNER]);
+    if (organization.subscription === subscriptionTiers.FREE) {
+      throw new OrganizationError('Subscribe to a plan before adding seats');
+    }
+
+    const [members, invitations] = await Promise.all([
+      storage.getOrganizationMembers(organization.id),
+      storage.getPendingOrganizationInvitations(organization.id, new Date())
+    ]);
+    this.validateSeats(seats, members.length + invitations.length);
+    if (seats === organization.seats) {
+      return organization;
+    }
+
+    if (organization.stripeSubscriptionId) {
+      if (!stripe) {
+        throw new OrganizationError('Stripe payment service is not available', 503);
+      }
+      const subscription = await stripe.subscriptions.retrieve(organization.stripeSubscriptionId);
+      await stripe.subscriptions.update(subscription.id, {
+        items: [{ id: subscription.items.data[0].id, quantity: seats }],
+        proration_behavior: seats > organization.seats ? 'always_invoice' : 'none',
+        payment_behavior: 'error_if_incomplete'
+      });
+    } else if (seats > organization.seats) {
+      await this.chargePaystackSeats(organization, seats);
+    }
+
+    const updated = await storage.updateOrganization(organization.id, { seats });
+    console.log(`Organization ${organization.id} changed from ${organization.seats} to ${seats} seats`);
+    return updated!;
+  }
+
+  /**
+   * Stop the subscription renewing. Members keep the plan until the period ends.
+   */
+  async cancelSubscription(stripe: Stripe | undefined, user: User): Promise<Organization> {
+    const { organization } = await this.requireRole(user, [organizationRoles.OWNER]);
+    if (organization.subscription === subscriptionTiers.FREE) {
+      throw new OrganizationError('The organization has no subscription to cancel');
+    }
+
+    if (organization.stripeSubscriptionId) {
+      if (!stripe) {
+        throw new OrganizationError('Stripe payment service is not available', 503);
+      }
+      await stripe.subscriptions.update(organization.stripeSubscriptionId, { cancel_at_period_end: true });
+    }
+
+    const updated = await storage.updateOrganization(organization.id, { subscriptionStatus: subscriptionStatuses.CANCELED });
+    return updated!;
+  }
+
+  /**
+   * Apply a paid Stripe invoice on an organization's subscription
+   */
+  async applyStripePayment(organizationId: number, payment: OrganizationStripePayment): Promise<void> {
+    const organization = await storage.getOrganization(organizationId);
+    if (!organization) {
+      console.error(`[STRIPE] Organization ${organizationId} on invoice ${payment.invoiceId} not found`);
+      return;
+    }
+
+    await billingLedger.recordPayment({
+      userId: organization.ownerId,
+      provider: billingProviders.STRIPE,
+      providerInvoiceId: payment.invoiceId,
+      providerPaymentId: payment.paymentId,
+      planName: payment.plan.name,
+      description: `${payment.plan.name} plan, ${payment.seats} seats for ${organization.name}`,
+      amount: payment.amount,
+      currency: payment.currency,
+      status: paymentStatuses.SUCCEEDED,
+      periodStart: payment.periodStart,
+      periodEnd: payment.periodEnd
+    });
+
+    await storage.updateOrganization(organization.id, {
+      subscription: payment.plan.name,
+      subscriptionStatus: subscriptionStatuses.ACTIVE,
+      subscriptionExpiryDate: payment.periodEnd,
+      seats: payment.seats,
+      currency: payment.currency.toUpperCase(),
+      stripeSubscriptionId: payment.subscriptionId,
+      paystackAuthorizationCode: null
+    });
+    console.log(`[STRIPE] Organization ${organization.id} paid for ${payment.seats} ${payment.plan.name} seats until ${payment.periodEnd.toISOString()}`);
+  }
+
+  /**
+   * Keep the organization's seats, period and status in step with its Stripe
+   * subscription
+   */
+  async syncStripeSubscription(organizationId: number, subscription: Stripe.Subscription): Promise<void> {
+    const organization = await storage.getOrganization(organizationId);
+    if (!organization || (organization.stripeSubscriptionId && organization.stripeSubscriptionId !== subscription.id)) {
+      return;
+    }
+
+    switch (subscription.status) {
+      case 'active':
+      case 'trialing': {
+        const item: any = subscription.items.data[0];
+        const periodEnd = (subscription as any).current_period_end || item?.current_period_end;
+        await storage.updateOrganization(organization.id, {
+          seats: item?.quantity ?? organization.seats,
+          subscriptionExpiryDate: periodEnd ? new Date(periodEnd * 1000) : organization.subscriptionExpiryDate,
+          subscriptionStatus: subscription.cancel_at_period_end ? subscriptionStatuses.CANCELED : subscriptionStatuses.ACTIVE
+        });
+        break;
+      }
+      case 'past_due':
+      case 'unpaid':
+        await storage.updateOrganization(organization.id, { subscriptionStatus: subscriptionStatuses.PAST_DUE });
+        break;
+      case 'canceled':
+      case 'incomplete_expired':
+        await this.downgradeToFree(organization, subscriptionStatuses.CANCELED);
+        break;
+      default:
+        console.log(`[STRIPE] Subscription ${subscription.id} is ${subscription.status}, no change for organization ${organization.id}`);
+    }
+  }
+
+  /**
+   * The organization's Stripe subscription has ended
+   */
+  async endStripeSubscription(organizationId: number, subscription: Stripe.Subscription): Promise<void> {
+    const organization = await storage.getOrganization(organizationId);
+    if (!organization || (organization.stripeSubscriptionId && organization.stripeSubscriptionId !== subscription.id)) {
+      return;
+    }
+
+    // Keep a dispute visible rather than overwriting it with a plain cancellation
+    const status = organization.subscriptionStatus === subscriptionStatuses.DISPUTED
+      ? subscriptionStatuses.DISPUTED
+      : subscriptionStatuses.CANCELED;
+    await this.downgradeToFree(organization, status);
+  }
+
+  /**
+   * Record a failed payment for an organization's seats
+   */
+  async markPaymentFailed(organizationId: number): Promise<void> {
+    await storage.updateOrganization(organizationId, { subscriptionStatus: subscriptionStatuses.PAST_DUE });
+    console.log(`Payment failed for organization ${organizationId}`);
+  }
+
+  /**
+   * Move an organization back to the free plan, which takes the shared plan away
+   * from its members
+   */
+  async downgradeToFree(organization: Organization, status: SubscriptionStatus): Promise<void> {
+    await storage.updateOrganization(organization.id, {
+      subscription: subscriptionTiers.FREE,
+      subscriptionStatus: status,
+      subscriptionExpiryDate: null,
+      stripeSubscriptionId: null,
+      paystackAuthorizationCode: null
+    });
+    console.log(`Organization ${organization.id} moved to the free plan (${status})`);
+  }
+
+  /**
+   * Apply a successful Paystack charge for an organization, from the webhook or
+   * the owner's return from checkout. Both can arrive for the same charge, so the
+   * period comes from the charge itself rather than being added each time.
+   *
+   * @param data The Paystack transaction
+   * @returns The updated organization, if the charge was for one
+   */
+  async applyPaystackCharge(data: any): Promise<Organization | undefined> {
+    const organization = await storage.getOrganization(parseInt(data.metadata?.organizationId, 10));
+    const plan = await storage.getSubscriptionPlanByName(data.metadata?.planName);
+    if (!organization || !plan) {
+      console.error(`[PAYSTACK] Charge ${data.reference} is for an unknown organization or plan`);
+      return undefined;
+    }
+
+    const seats = parseInt(data.metadata.seats, 10) || organization.seats;
+    const paidAt = data.paid_at ? new Date(data.paid_at) : new Date();
+    const periodEnd = data.metadata.periodEnd ? new Date(data.metadata.periodEnd) : this.addMonth(paidAt);
+
+    await billingLedger.recordPayment({
+      userId: organization.ownerId,
+      provider: billingProviders.PAYSTACK,
+      providerPaymentId: data.reference,
+      planName: plan.name,
+      description: data.metadata.seatChange
+        ? `${plan.name} plan, prorated charge for increasing to ${seats} seats for ${organization.name}`
+        : `${plan.name} plan, ${seats} seats for ${organization.name}`,
+      amount: data.amount,
+      currency: data.currency || organization.currency || 'USD',
+      status: paymentStatuses.SUCCEEDED,
+      method: describeAuthorization(data.authorization),
+      periodStart: paidAt,
+      periodEnd
+    });
+
+    // Prorated seat charges are applied when they're made
+    if (data.metadata.seatChange) {
+      return organization;
+    }
+
+    const updated = await storage.updateOrganization(organization.id, {
+      subscription: plan.name,
+      subscriptionStatus: subscriptionStatuses.ACTIVE,
+      subscriptionExpiryDate: periodEnd,
+      seats,
+      currency: (data.currency || organization.currency || 'USD').toUpperCase(),
+      stripeSubscriptionId: null,
+      paystackAuthorizationCode: data.authorization?.reusable
+        ? data.authorization.authorization_code
+        : organization.paystackAuthorizationCode
+    });
+    console.log(`[PAYSTACK] Organization ${organization.id} paid for ${seats} ${plan.name} seats until ${periodEnd.toISOString()}`);
+    return updated;
+  }
+
+  /**
+   * Charge the saved card of every Paystack organization whose period has ended.
+   * A failed charge marks the organization past due, and the subscription
+   * scheduler downgrades it once the grace period is over.
+   *
+   * @returns The number of organizations renewed
+   */
+  async renewPaystackSubscriptions(): Promise<number> {
+    const due = await storage.getOrganizationsDueForRenewal(new Date());
+
+    let renewed = 0;
+    for (const organization of due) {
+      try {
+        const [owner, plan] = await Promise.all([
+          storage.getUser(organization.ownerId),
+          storage.getSubscriptionPlanByName(organization.subscription)
+        ]);
+        if (!owner?.email || !plan) {
+          await storage.updateOrganization(organization.id, { subscriptionStatus: subscriptionStatuses.PAST_DUE });
+          continue;
+        }
+
+        const currency = pricingService.getUserCurrency({ ...owner, currency: organization.currency || owner.currency });
+        const price = await pricingService.getPlanPrice(plan, currency);
+        const periodEnd = this.addMonth(organization.subscriptionExpiryDate!);
+
+        const result = await paystackService.chargeAuthorization(
+          owner.email,
+          price.amount * organization.seats,
+          organization.paystackAuthorizationCode!,
+          {
+            organizationId: organization.id,
+            planName: plan.name,
+            seats: organization.seats,
+            periodEnd: periodEnd.toISOString()
+          },
+          currency
+        );
+        if (result.data?.status !== 'success') {
+          await storage.updateOrganization(organization.id, { subscriptionStatus: subscriptionStatuses.PAST_DUE });
+          console.log(`[PAYSTACK] Renewal failed for organization ${organization.id}: ${result.data?.gateway_response}`);
+          continue;
+        }
+
+        await this.applyPaystackCharge({
+          ...result.data,
+          metadata: {
+            organizationId: organization.id,
+            planName: plan.name,
+            seats: organization.seats,
+            periodEnd: periodEnd.toISOString()
+          }
+        });
+        renewed++;
+      } catch (error) {
+        console.error(`Error renewing organization ${organization.id}:`, error);
+        await storage.updateOrganization(organization.id, { subscriptionStatus: subscriptionStatuses.PAST_DUE });
+      }
+    }
+
+    return renewed;
+  }
+
+  /**
+   * Charge the saved card for seats added part way through a Paystack period.
+   * Periods are taken to be the month before the expiry date.
+   */
+  private async chargePaystackSeats(organization: Organization, seats: number): Promise<void> {
+    const [owner, plan] = await Promise.all([
+      storage.getUser(organization.ownerId),
+      storage.getSubscriptionPlanByName(organization.subscription)
+    ]);
+    if (!owner?.email || !plan || !organization.paystackAuthorizationCode || !organization.subscriptionExpiryDate) {
+      throw new OrganizationError('No saved card to charge for the new seats');
+    }
+
+    const currency = pricingService.getUserCurrency({ ...owner, currency: organization.currency || owner.currency });
+    const price = await pricingService.getPlanPrice(plan, currency);
+
+    const periodEnd = organization.subscriptionExpiryDate.getTime();
+    const periodStart = new Date(organization.subscriptionExpiryDate);
+    periodStart.setMonth(periodStart.getMonth() - 1);
+    const fraction = Math.min(Math.max((periodEnd - Date.now()) / (periodEnd - periodStart.getTime()), 0), 1);
+    const amountDue = Math.round(price.amount * (seats - organization.seats) * fraction);
+    if (amountDue <= 0) {
+      return;
+    }
+
+    const metadata = {
+      organizationId: organization.id,
+      planName: plan.name,
+      seats,
+      seatChange: true
+    };
+    const result = await paystackService.chargeAuthorization(
+      owner.email,
+      amountDue,
+      organization.paystackAuthorizationCode,
+      metadata,
+      currency
+    );
+    if (result.data?.status !== 'success') {
+      throw new OrganizationError(result.data?.gateway_response || 'Payment for the new seats failed', 402);
+    }
+
+    await this.applyPaystackCharge({ ...result.data, metadata: { ...metadata, periodEnd: organization.subscriptionExpiryDate.toISOString() } });
+  }
+
+  /**
+   * Get the user's organization, checking they have one of the given roles
+   */
+  private async requireRole(user: User, roles?: OrganizationRole[]): Promise<{ organization: Organization; membership: OrganizationMember }> {
+    const membership = await storage.getOrganizationMembership(user.id);
+    const organization = membership ? await storage.getOrganization(membership.organizationId) : undefined;
+    if (!membership || !organization) {
+      throw new OrganizationError("You're not a member of an organization", 404);
+    }
+    if (roles && !roles.includes(membership.role as OrganizationRole)) {
+      throw new OrganizationError(`Only the organization's ${roles.join(' or ')} can do this`, 403);
+    }
+    return { organization, membership };
+  }
+
+  private validateSeats(seats: number, seatsUsed: number): void {
+    if (!Number.isInteger(seats) || seats < 1 || seats > MAX_SEATS) {
+      throw new OrganizationError(`Seats must be a whole number between 1 and ${MAX_SEATS}`);
+    }
+    if (seats < seatsUsed) {
+      throw new OrganizationError(`${seatsUsed} seats are in use, remove members or invitations first`);
+    }
+  }
+
+  private addMonth(date: Date): Date {
+    const next = new Date(date);
+    next.setMonth(next.getMonth() + 1);
+    return next;
+  }
+}
+
+// Export singleton instance
+export const organizationService = new OrganizationService();
+
+/**
+ * Answer a failed organization request, passing request errors on to the user
+ */
+function handleOrganizationError(res: Response, error: any, action: string) {
+  if (error instanceof OrganizationError || error instanceof PricingError) {
+    return res.status(error.status).json({ message: error.message });
+  }
+  console.error(`Error ${action}:`, error.response?.data || error);
+  res.status(500).json({ message: `Error ${action}` });
+}
+
+export function setupOrganizationRoutes(app: any, stripe: Stripe | undefined) {
+  // Get the current user's organization
+  app.get('/api/organization', async (req: Request, res: Response) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: 'Not authenticated' });
+    }
+
+    try {
+      res.json(await organizationService.getDetails(req.user));
+    } catch (error) {
+      handleOrganizationError(res, error, 'fetching organization');
+    }
+  });
+
+  // Create an organization owned by the current user
+  app.post('/api/organization', async (req: Request, res: Response) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: 'Not authenticated' });
+    }
+
+    const parsed = insertOrganizationSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({
+        message: 'Invalid organization details',
+        errors: parsed.error.errors
+      });
+    }
+
+    try {
+      const organization = await organizationService.create(req.user, parsed.data.name);
+      res.status(201).json(organization);
+    } catch (error) {
+      handleOrganizationError(res, error, 'creating organization');
+    }
+  });
+
+  // Rename the organization
+  app.patch('/api/organization', async (req: Request, res: Response) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: 'Not authenticated' });
+    }
+
+    const parsed = insertOrganizationSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({
+        message: 'Invalid organization details',
+        errors: parsed.error.errors
+      });
+    }
+
+    try {
+      res.json(await organizationService.rename(req.user, parsed.data.name));
+    } catch (error) {
+      handleOrganizationError(res, error, 'updating organization');
+    }
+  });
+
+  // Delete an organization without a subscription
+  app.delete('/api/organization', async (req: Request, res: Response) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: 'Not authenticated' });
+    }
+
+    try {
+      await organizationService.delete(req.user);
+      res.json({ success: true });
+    } catch (error) {
+      handleOrganizationError(res, error, 'deleting organization');
+    }
+  });
+
+  // Invite someone by email
+  app.post('/api/organization/invitations', async (req: Request, res: Response) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: 'Not authenticated' });
+    }
+
+    const parsed = insertOrganizationInvitationSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({
+        message: 'Invalid invitation details',
+        errors: parsed.error.errors
+      });
+    }
+
+    try {
+      const { invitation, inviteUrl } = await organizationService.invite(
+        req.user,
+        parsed.data.email,
+        parsed.data.role,
+        `${req.protocol}://${req.get('host')}`
+      );
+      res.status(201).json({ ...invitation, inviteUrl });
+    } catch (error) {
+      handleOrganizationError(res, error, 'inviting member');
+    }
+  });
+
+  // Withdraw a pending invitation
+  app.delete('/api/organization/invitations/:id', async (req: Request, res: Response) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: 'Not authenticated' });
+    }
+
+    try {
+      await organizationService.revokeInvitation(req.user, parseInt(req.params.id, 10));
+      res.json({ success: true });
+    } catch (error) {
+      handleOrganizationError(res, error, 'revoking invitation');
+    }
+  });
+
+  // Show who an invitation is from before it's accepted
+  app.get('/api/organization/invitations/:token', async (req: Request, res: Response) => {
+    try {
+      const { invitation, organization } = await organizationService.getInvitation(req.params.token);
+      res.json({
+        organizationName: organization.name,
+        email: invitation.email,
+        role: invitation.role,
+        expiresAt: invitation.expiresAt
+      });
+    } catch (error) {
+      handleOrganizationError(res, error, 'fetching invitation');
+    }
+  });
+
+  // Join the organization an invitation is for
+  app.post('/api/organization/invitations/:token/accept', async (req: Request, res: Response) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: 'Not authenticated' });
+    }
+
+    try {
+      const organization = await organizationService.acceptInvitation(req.user, req.params.token);
+      res.json({ success: true, organization });
+    } catch (error) {
+      handleOrganizationError(res, error, 'accepting invitation');
+    }
+  });
+
+  // Change a member's role
+  app.patch('/api/organization/members/:userId', async (req: Request, res: Response) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: 'Not authenticated' });
+    }
+
+    const { role } = req.body;
+    if (role !== organizationRoles.ADMIN && role !== organizationRoles.MEMBER) {
+      return res.status(400).json({ message: 'Role must be admin or member' });
+    }
+
+    try {
+      res.json(await organizationService.updateMemberRole(req.user, parseInt(req.params.userId, 10), role));
+    } catch (error) {
+      handleOrganizationError(res, error, 'updating member');
+    }
+  });
+
+  // Remove a member, or leave when it's the current user
+  app.delete('/api/organization/members/:userId', async (req: Request, res: Response) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: 'Not authenticated' });
+    }
+
+    try {
+      await organizationService.removeMember(req.user, parseInt(req.params.userId, 10));
+      res.json({ success: true });
+    } catch (error) {
+      handleOrganizationError(res, error, 'removing member');
+    }
+  });
+
+  // Start paying for seats
+  app.post('/api/organization/checkout', async (req: Request, res: Response) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: 'Not authenticated' });
+    }
+
+    const { planName, seats, paymentMethod = 'stripe', currency } = req.body;
+    if (!planName || typeof seats !== 'number') {
+      return res.status(400).json({ message: 'Plan name and seats are required' });
+    }
+    if (paymentMethod !== 'stripe' && paymentMethod !== 'paystack') {
+      return res.status(400).json({ message: 'Invalid payment method' });
+    }
+    if (!req.user.emailVerifiedAt) {
+      return res.status(403).json({
+        message: 'Verify your email address before paying',
+        emailVerificationRequired: true
+      });
+    }
+
+    try {
+      res.json(await organizationService.startCheckout(stripe, req.user, req, {
+        planName,
+        seats,
+        paymentMethod,
+        currency,
+        origin: req.headers.origin || `${req.protocol}://${req.get('host')}`
+      }));
+    } catch (error) {
+      handleOrganizationError(res, error, 'starting checkout');
+    }
+  });
+
+  // Confirm a Paystack payment the owner was sent back from
+  app.post('/api/organization/checkout/verify', async (req: Request, res: Response) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: 'Not authenticated' });
+    }
+
+    const { reference } = req.body;
+    if (!reference) {
+      return res.status(400).json({ message: 'Reference is required' });
+    }
+
+    try {
+      res.json(await organizationService.verifyPaystackCheckout(req.user, reference));
+    } catch (error) {
+      handleOrganizationError(res, error, 'verifying payment');
+    }
+  });
+
+  // Add or remove seats
+  app.put('/api/organization/seats', async (req: Request, res: Response) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: 'Not authenticated' });
+    }
+
+    const { seats } = req.body;
+    if (typeof seats !== 'number') {
+      return res.status(400).json({ message: 'Seats are required' });
+    }
+
+    try {
+      res.json(await organizationService.updateSeats(stripe, req.user, seats));
+    } catch (error) {
+      handleOrganizationError(res, error, 'updating seats');
+    }
+  });
+
+  // Stop the subscription renewing
+  app.delete('/api/organization/subscription', async (req: Request, res: Response) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: 'Not authenticated' });
+    }
+
+    try {
+      res.json(await organizationService.cancelSubscription(stripe, req.user));
+    } catch (error) {
+      handleOrganizationError(res, error, 'cancelling subscription');
+    }
+  });
+}
@@ -0,0 +1,224 @@
+/**
+ * Payment Providers
+ *
+ * This module puts every payment provider behind the same interface so routes
+ * don't branch on which one the user picked. It's responsible for:
+ *
+ * 1. Defining what a provider does: start a checkout, verify a payment, create,
+ *    cancel, resume and change subscriptions, refund payments and parse webhooks
+ * 2. Keeping the registry of providers that are configured, with the currencies
+ *    each one can charge in
+ * 3. Swapping in local fakes for every provider when PAYMENT_PROVIDER_MODE=fake,
+ *    so the app can be exercised without provider accounts
+ */
+
+import { Request, Response } from 'express';
+import { IncomingHttpHeaders } from 'http';
+import Stripe from 'stripe';
+import { PlanPriceQuote } from './pricing';
+import { CouponQuote } from './promotions';
+import { StripeProvider } from './stripe-provider';
+import { PaystackProvider } from './paystack-provider';
+import { FlutterwaveProvider } from './flutterwave-provider';
+import { FakePaymentProvider } from './fake-payment-provider';
+import {
+  User, SubscriptionPlan, Payment, BillingProvider, SupportedCurrency, billingProviders, supportedCurrencies
+} from '@shared/schema';
+
+// Interface for starting a hosted checkout for a plan
+export interface CheckoutRequest {
+  user: User;
+  plan: SubscriptionPlan;
+  price: PlanPriceQuote;
+  coupon?: CouponQuote;
+  origin: string; // Where the user comes back to after paying
+}
+
+// Interface for a checkout the user is sent to
+export interface CheckoutSession {
+  provider: BillingProvider;
+  reference: string;
+  url: string;
+}
+
+// Interface for a payment as the provider reports it
+export interface VerifiedPayment {
+  reference: string;
+  status: 'succeeded' | 'pending' | 'failed';
+  amount: number; // In the currency's smallest unit
+  currency: string;
+  method: string | null;
+  paidAt: Date | null;
+  metadata: Record<string, any>;
+  customerId?: string | null;
+  authorizationCode?: string | null; // Reusable card authorization, if the provider gives one
+  subscriptionId?: string | null; // The subscription the payment started or renewed, if the provider reports it
+}
+
+// Interface for starting a recurring subscription on a plan
+export interface SubscriptionRequest {
+  user: User;
+  plan: SubscriptionPlan;
+  price: PlanPriceQuote;
+  coupon?: CouponQuote;
+  startAt?: Date; // Defaults to now
+  origin?: string; // For providers that need a checkout to start one
+}
+
+// Interface for moving an existing subscription to another plan
+export interface SubscriptionChange {
+  user: User;
+  plan: SubscriptionPlan;
+  price: PlanPriceQuote;
+  prorate: boolean; // Charge the difference for the rest of the period now
+  prorationDate?: number; // Unix time to prorate from
+  startAt?: Date; // When the new plan starts billing, for providers that replace the subscription
+}
+
+// Interface for a subscription as the provider reports it
+export interface ProviderSubscription {
+  id: string;
+  status: string;
+  clientSecret?: string | null; // For confirming the first payment in the browser
+  checkoutUrl?: string; // For providers that start subscriptions from a checkout
+}
+
+// Interface for a webhook event whose signature has been checked
+export interface WebhookEvent<T = any> {
+  id: string;
+  type: string;
+  payload: T;
+}
+
+/**
+ * What every payment provider can do. Amounts are in the currency's smallest
+ * unit, whatever the provider's API uses.
+ */
+export interface PaymentProvider {
+  readonly name: BillingProvider;
+  readonly displayName: string;
+  readonly currencies: SupportedCurrency[];
+
+  initializeCheckout(request: CheckoutRequest): Promise<CheckoutSession>;
+  verifyPayment(reference: string): Promise<VerifiedPayment>;
+  createSubscription(request: SubscriptionRequest): Promise<ProviderSubscription>;
+  cancelSubscription(subscriptionId: string, options: { atPeriodEnd: boolean }): Promise<void>;
+  resumeSubscription(subscriptionId: string): Promise<void>;
+  changeSubscription(subscriptionId: string, change: SubscriptionChange): Promise<ProviderSubscription>;
+  refund(payment: Payment, amount: number, reason?: string): Promise<string | null>;
+  parseWebhook(rawBody: Buffer, headers: IncomingHttpHeaders): WebhookEvent;
+}
+
+/**
+ * A request a provider can't carry out, with the HTTP status to answer it with
+ */
+export class PaymentProviderError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = 'PaymentProviderError';
+  }
+}
+
+class PaymentProviderRegistry {
+  private providers = new Map<string, PaymentProvider>();
+
+  register(provider: PaymentProvider): void {
+    this.providers.set(provider.name, provider);
+  }
+
+  get(name: string): PaymentProvider | undefined {
+    return this.providers.get(name);
+  }
+
+  /**
+   * Get a provider, failing when it isn't configured
+   */
+  require(name: string): PaymentProvider {
+    const provider = this.providers.get(name);
+    if (!provider) {
+      if (!this.isProviderName(name)) {
+        throw new PaymentProviderError('Invalid payment method');
+      }
+      throw new PaymentProviderError(`${name.charAt(0).toUpperCase()}${name.slice(1)} payments are not available`, 503);
+    }
+    return provider;
+  }
+
+  list(): PaymentProvider[] {
+    return Array.from(this.providers.values());
+  }
+
+  isFakeMode(): boolean {
+    return process.env.PAYMENT_PROVIDER_MODE === 'fake' && process.env.NODE_ENV !== 'production';
+  }
+
+  private isProviderName(name: string): boolean {
+    return name !== billingProviders.TEST && Object.values(billingProviders).includes(name as BillingProvider);
+  }
+}
+
+// Export singleton instance
+export const paymentProviders = new PaymentProviderRegistry();
+
+/**
+ * Find the provider subscription a user is paying through, if any
+ */
+export function getProviderSubscription(user: User): { provider: BillingProvider; id: string } | null {
+  if (user.stripeSubscriptionId) {
+    return { provider: billingProviders.STRIPE, id: user.stripeSubscriptionId };
+  }
+  if (user.paystackSubscriptionCode) {
+    return { provider: billingProviders.PAYSTACK, id: user.paystackSubscriptionCode };
+  }
+  if (user.flutterwaveSubscriptionId) {
+    return { provider: billingProviders.FLUTTERWAVE, id: user.flutterwaveSubscriptionId };
+  }
+  return null;
+}
+
+/**
+ * Register the providers that are configured, or fakes of all of them
+ */
+function registerPaymentProviders(stripe: Stripe | undefined) {
+  const allCurrencies = Object.values(supportedCurrencies);
+
+  if (paymentProviders.isFakeMode()) {
+    paymentProviders.register(new FakePaymentProvider(billingProviders.STRIPE, 'Stripe', allCurrencies));
+    paymentProviders.register(new FakePaymentProvider(billingProviders.PAYSTACK, 'Paystack', PaystackProvider.CURRENCIES));
+    paymentProviders.register(new FakePaymentProvider(billingProviders.FLUTTERWAVE, 'Flutterwave', allCurrencies));
+    console.log('[PAYMENTS] Using fake payment providers');
+    return;
+  }
+
+  if (stripe) {
+    paymentProviders.register(new StripeProvider(stripe));
+  }
+  paymentProviders.register(new PaystackProvider());
+  if (FlutterwaveProvider.isConfigured()) {
+    paymentProviders.register(new FlutterwaveProvider());
+  }
+}
+
+/**
+ * Answer a failed payment request, passing request errors on to the user
+ */
+export function handlePaymentProviderError(res: Response, error: any, action: string) {
+  if (error instanceof PaymentProviderError) {
+    return res.status(error.status).json({ message: error.message });
+  }
+  console.error(`Error ${action}:`, error.response?.data || error);
+  res.status(500).json({ message: `Error ${action}`, error: error.response?.data?.message || error.message });
+}
+
+export function setupPaymentProviderRoutes(app: any, stripe: Stripe | undefined) {
+  registerPaymentProviders(stripe);
+
+  // The providers users can pay with and the currencies each one charges in
+  app.get('/api/payment-providers', (req: Request, res: Response) => {
+    res.json(paymentProviders.list().map(provider => ({
+      name: provider.name,
+      displayName: provider.displayName,
+      currencies: provider.currencies
+    })));
+  });
+}
@@ -0,0 +1,178 @@
+/**
+ * Paystack Payment Provider
+ *
+ * This module is Paystack behind the PaymentProvider interface. It's responsible for:
+ *
+ * 1. Sending users to our own Paystack checkout page, which charges their card
+ * 2. Creating subscriptions on a saved card, and replacing them to change plans
+ *    since Paystack can't move a subscription between plans
+ * 3. Disabling and re-enabling subscriptions with their email token
+ * 4. Refunding transactions and checking webhook signatures
+ */
+
+import { IncomingHttpHeaders } from 'http';
+import { storage } from './storage';
+import { paystackService } from './paystack-service';
+import { describeAuthorization } from './paystack-webhooks';
+import {
+  PaymentProvider, PaymentProviderError, CheckoutRequest, CheckoutSession, VerifiedPayment, SubscriptionRequest,
+  SubscriptionChange, ProviderSubscription, WebhookEvent
+} from './payment-provider';
+import { Payment, SupportedCurrency, billingProviders, supportedCurrencies } from '@shared/schema';
+
+// Interface for the parts of a Paystack webhook payload we use
+export interface PaystackEvent {
+  event: string;
+  data: any;
+}
+
+export class PaystackProvider implements PaymentProvider {
+  // Currencies Paystack can charge in
+  static readonly CURRENCIES: SupportedCurrency[] = [
+    supportedCurrencies.USD,
+    supportedCurrencies.NGN,
+    supportedCurrencies.GHS,
+    supportedCurrencies.ZAR
+  ];
+
+  readonly name = billingProviders.PAYSTACK;
+  readonly displayName = 'Paystack';
+  readonly currencies = PaystackProvider.CURRENCIES;
+
+  /**
+   * Send the user to our checkout page, which takes their card details and
+   * confirms the subscription
+   */
+  async initializeCheckout(request: CheckoutRequest): Promise<CheckoutSession> {
+    const { plan, price, coupon } = request;
+    const reference = paystackService.generateReference();
+    const couponParam = coupon ? `&coupon=${encodeURIComponent(coupon.coupon.code)}` : '';
+
+    return {
+      provider: this.name,
+      reference,
+      url: `/paystack-checkout?plan=${plan.name}&ref=${reference}&currency=${price.currency}${couponParam}`
+    };
+  }
+
+  async verifyPayment(reference: string): Promise<VerifiedPayment> {
+    const result = await paystackService.verifyTransaction(reference);
+    const data = result.data || {};
+
+    return {
+      reference: data.reference || reference,
+      status: data.status === 'success' ? 'succeeded' : data.status === 'failed' || data.status === 'abandoned' ? 'failed' : 'pending',
+      amount: data.amount ?? 0,
+      currency: data.currency || supportedCurrencies.USD,
+      method: describeAuthorization(data.authorization),
+      paidAt: data.paid_at ? new Date(data.paid_at) : null,
+      metadata: data.metadata || {},
+      customerId: data.customer?.customer_code,
+      authorizationCode: data.authorization?.reusable ? data.authorization.authorization_code : null
+    };
+  }
+
+  /**
+   * Subscribe a user who has a saved card directly. Anyone else goes through
+   * checkout first, and the subscription is set up from their payment.
+   */
+  async createSubscription(request: SubscriptionRequest): Promise<ProviderSubscription> {
+    const { user, plan, price, startAt } = request;
+
+    if (!user.email || !user.paystackAuthorizationCode || !price.paystackPlanCode) {
+      const reference = `paystack_${Date.now()}_${user.id}`;
+      return {
+        id: reference,
+        status: 'incomplete',
+        checkoutUrl: `/paystack-checkout?plan=${plan.name}&user=${user.id}&ref=${reference}&price=${price.amount / 100}&currency=${price.currency}`
+      };
+    }
+
+    const result = await paystackService.createSubscription(
+      user.email,
+      price.paystackPlanCode,
+      user.paystackAuthorizationCode,
+      startAt?.toISOString()
+    );
+    return { id: result.data.subscription_code, status: result.data.status || 'active' };
+  }
+
+  /**
+   * Stop a subscription renewing. Paystack has no end-of-period cancellation, but
+   * disabling only stops future charges, so access runs until the expiry date.
+   */
+  async cancelSubscription(subscriptionId: string, options: { atPeriodEnd: boolean }): Promise<void> {
+    const token = await this.getEmailToken(subscriptionId);
+    await paystackService.cancelSubscription(subscriptionId, token);
+  }
+
+  async resumeSubscription(subscriptionId: string): Promise<void> {
+    const token = await this.getEmailToken(subscriptionId);
+    await paystackService.enableSubscription(subscriptionId, token);
+  }
+
+  /**
+   * Start a subscription on the new plan from the given date and disable the old
+   * one. The new code is saved before disabling so the disable webhook doesn't
+   * match the user.
+   */
+  async changeSubscription(subscriptionId: string, change: SubscriptionChange): Promise<ProviderSubscription> {
+    const { user, price, startAt } = change;
+    if (!user.email || !user.paystackAuthorizationCode) {
+      throw new PaymentProviderError('No saved card for the subscription, subscribe to the new plan through checkout instead');
+    }
+    if (!price.paystackPlanCode) {
+      throw new PaymentProviderError('This plan is not available for subscription');
+    }
+
+    const result = await paystackService.createSubscription(
+      user.email,
+      price.paystackPlanCode,
+      user.paystackAuthorizationCode,
+      startAt?.toISOString()
+    );
+    await storage.updatePaystackCodes(user.id, { subscriptionCode: result.data.subscription_code });
+
+    const token = await this.getEmailToken(subscriptionId);
+    await paystackService.cancelSubscription(subscriptionId, token);
+
+    return { id: result.data.subscription_code, status: result.data.status || 'active' };
+  }
+
+  async refund(payment: Payment, amount: number, reason?: string): Promise<string | null> {
+    const result = await paystackService.refundTransaction(payment.providerPaymentId, amount, reason);
+    return result.data?.id ? String(result.data.id) : null;
+  }
+
+  parseWebhook(rawBody: Buffer, headers: IncomingHttpHeaders): WebhookEvent<PaystackEvent> {
+    const signature = headers['x-paystack-signature'];
+    if (typeof signature !== 'string') {
+      throw new PaymentProviderError('Missing webhook signature');
+    }
+
+    if (!paystackService.verifyWebhookSignature(rawBody, signature)) {
+      console.error('[PAYSTACK] Webhook signature verification failed');
+      throw new PaymentProviderError('Invalid webhook signature');
+    }
+
+    const event = JSON.parse(rawBody.toString('utf8')) as PaystackEvent;
+    if (!event?.event) {
+      throw new PaymentProviderError('Invalid webhook payload');
+    }
+    return { id: this.getEventId(event), type: event.event, payload: event };
+  }
+
+  /**
+   * Paystack events don't carry their own ID, so build one from the event type and
+   * the object it's about
+   */
+  private getEventId(event: PaystackEvent): string {
+    const data = event.data || {};
+    return `${event.event}:${data.id ?? data.reference ?? data.subscription_code ?? data.invoice_code}`;
+  }
+
+  private async getEmailToken(subscriptionCode: string): Promise<string> {
+    const subscription = await paystackService.getSubscription(subscriptionCode);
+    return subscription.data.email_token;
+  }
+}
@@ -22,10 +22,11 @@ class PaystackService {
    * Create a Paystack payment request for a one-time payment
    * 
    * @param email - Customer's email address
-   * @param amount - Amount in kobo (e.g., 10000 for ₦100.00)
+   * @param amount - Amount in the currency's smallest unit (e.g., 10000 kobo for ₦100.00)
    * @param reference - Unique transaction reference
    * @param callbackUrl - URL to redirect to after payment
    * @param metadata - Additional information about the transaction
+   * @param currency - Currency to charge in, defaults to the account's currency
    * @returns Payment initialization response with authorization URL
    */
   async initializeTransaction(
@@ -33,7 +34,8 @@ class PaystackService {
     amount: number,
     reference?: string,
     callbackUrl?: string,
-    metadata?: Record<string, any>
+    metadata?: Record<string, any>,
+    currency?: string
   ) {
     try {
       const response = await axios({
@@ -48,7 +50,8 @@ class PaystackService {
           amount,
           reference: reference || this.generateReference(),
           callback_url: callbackUrl,
-          metadata
+          metadata,
+          currency
         }
       });
       
@@ -63,9 +66,10 @@ class PaystackService {
    * Create a direct charge transaction using card details
    * 
    * @param email - Customer's email address
-   * @param amount - Amount in kobo (e.g., 10000 for ₦100.00)
+   * @param amount - Amount in the currency's smallest unit (e.g., 10000 kobo for ₦100.00)
    * @param cardDetails - Card details for charging
    * @param metadata - Additional information about the transaction
+   * @param currency - Currency to charge in, defaults to the account's currency
    * @returns Charge response
    */
   async chargeCard(
@@ -77,7 +81,8 @@ class PaystackService {
       expiryMonth: string,
       expiryYear: string
     },
-    metadata?: Record<string, any>
+    metadata?: Record<string, any>,
+    currency?: string
   ) {
     // Check if we're using the test card
     const isTestCard = cardDetails.number === '4084084084084081';
@@ -98,7 +103,7 @@ class PaystackService {
             status: 'success',
             reference: testReference,
             amount: amount,
-            currency: 'USD',
+            currency: currency || 'USD',
             transaction_date: new Date().toISOString(),
             domain: 'test',
             metadata: metadata,
@@ -126,7 +131,8 @@ class PaystackService {
             expiry_month: cardDetails.expiryMonth,
             expiry_year: cardDetails.expiryYear
           },
-          metadata
+          metadata,
+          currency
         }
       });
       
@@ -238,16 +244,18 @@ class PaystackService {
    * Create a subscription plan in Paystack
    * 
    * @param name - Plan name
-   * @param amount - Amount in kobo (e.g., 10000 for ₦100.00)
+   * @param amount - Amount in the currency's smallest unit (e.g., 10000 kobo for ₦100.00)
    * @param interval - Billing interval (daily, weekly, monthly, quarterly, biannually, annually)
    * @param description - Plan description
+   * @param currency - Currency of the plan, defaults to the account's currency
    * @returns Created plan data
    */
   async createPlan(
     name: string,
     amount: number,
     interval: 'daily' | 'weekly' | 'monthly' | 'quarterly' | 'biannually' | 'annually',
-    description?: string
+    description?: string,
+    currency?: string
   ) {
     try {
       const response = await axios({
@@ -261,7 +269,8 @@ class PaystackService {
           name,
           amount,
           interval,
-          description
+          description,
+          currency
         }
       });
       
@@ -310,6 +319,72 @@ class PaystackService {
     }
   }
 
+  /**
+   * Charge a card the customer has paid with before, without them present
+   * 
+   * @param email - Customer's email address
+   * @param amount - Amount in the currency's smallest unit (e.g., 10000 kobo for ₦100.00)
+   * @param authorizationCode - Reusable authorization code from a previous transaction
+   * @param metadata - Additional information about the transaction
+   * @param currency - Currency to charge in, defaults to the account's currency
+   * @returns Charge response
+   */
+  async chargeAuthorization(
+    email: string,
+    amount: number,
+    authorizationCode: string,
+    metadata?: Record<string, any>,
+    currency?: string
+  ) {
+    try {
+      const response = await axios({
+        method: 'post',
+        url: `${this.baseUrl}/transaction/charge_authorization`,
+        headers: {
+          'Authorization': `Bearer ${this.secretKey}`,
+          'Content-Type': 'application/json'
+        },
+        data: {
+          email,
+          amount,
+          authorization_code: authorizationCode,
+          reference: this.generateReference(),
+          metadata,
+          currency
+        }
+      });
+      
+      return response.data;
+    } catch (error: any) {
+      console.error('Paystack authorization charge error:', error.response?.data || error.message);
+      throw error;
+    }
+  }
+
+  /**
+   * Fetch a subscription, including the email token needed to disable it
+   * 
+   * @param subscriptionCode - Subscription code to fetch
+   * @returns Subscription data
+   */
+  async getSubscription(subscriptionCode: string) {
+    try {
+      const response = await axios({
+        method: 'get',
+        url: `${this.baseUrl}/subscription/${subscriptionCode}`,
+        headers: {
+          'Authorization': `Bearer ${this.secretKey}`,
+          'Content-Type': 'application/json'
+        }
+      });
+      
+      return response.data;
+    } catch (error: any) {
+      console.error('Paystack subscription fetch error:', error.response?.data || error.message);
+      throw error;
+    }
+  }
+
   /**
    * Cancel a subscription
    * 
@@ -339,6 +414,81 @@ class PaystackService {
     }
   }
 
+  /**
+   * Refund a transaction, in full or in part
+   * 
+   * @param transaction - Reference or ID of the transaction to refund
+   * @param amount - Amount to refund in kobo, defaults to the full transaction amount
+   * @param reason - Note shown to the merchant
+   * @returns Refund response
+   */
+  async refundTransaction(transaction: string, amount?: number, reason?: string) {
+    try {
+      const response = await axios({
+        method: 'post',
+        url: `${this.baseUrl}/refund`,
+        headers: {
+          'Authorization': `Bearer ${this.secretKey}`,
+          'Content-Type': 'application/json'
+        },
+        data: {
+          transaction,
+          amount,
+          merchant_note: reason
+        }
+      });
+      
+      return response.data;
+    } catch (error: any) {
+      console.error('Paystack refund error:', error.response?.data || error.message);
+      throw error;
+    }
+  }
+
+  /**
+   * Check that a webhook request was signed with our secret key
+   * 
+   * @param rawBody - The exact request body Paystack sent
+   * @param signature - Value of the x-paystack-signature header
+   * @returns Whether the signature matches
+   */
+  verifyWebhookSignature(rawBody: Buffer, signature: string): boolean {
+    const expected = crypto.createHmac('sha512', this.secretKey).update(rawBody).digest('hex');
+    if (expected.length !== signature.length) {
+      return false;
+    }
+    return crypto.timingSafeEqual(Buffer.from(expected), Buffer.from(signature));
+  }
+
+  /**
+   * Re-enable a disabled subscription
+   * 
+   * @param subscriptionCode - Subscription code to enable
+   * @param emailToken - Email token for the subscription
+   * @returns Enable response
+   */
+  async enableSubscription(subscriptionCode: string, emailToken: string) {
+    try {
+      const response = await axios({
+        method: 'post',
+        url: `${this.baseUrl}/subscription/enable`,
+        headers: {
+          'Authorization': `Bearer ${this.secretKey}`,
+          'Content-Type': 'application/json'
+        },
+        data: {
+          code: subscriptionCode,
+          token: emailToken
+        }
+      });
+      
+      return response.data;
+    } catch (error: any) {
+      console.error('Paystack subscription enable error:', error.response?.data || error.message);
+      throw error;
+    }
+  }
+
   /**
    * Generate a unique transaction reference
    * @returns A unique transaction reference string
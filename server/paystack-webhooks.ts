@@ -0,0 +1,309 @@
+/**
+ * Paystack Webhook Handling
+ *
+ * This module records the charges and subscription changes that Paystack reports
+ * out of band. It's responsible for:
+ *
+ * 1. Verifying the HMAC-SHA512 signature Paystack puts on each webhook request,
+ *    through the Paystack payment provider
+ * 2. Processing each event only once, even when Paystack redelivers it
+ * 3. Applying charges, new subscriptions, disabled subscriptions and failed
+ *    renewals to the user's subscription tier, expiry date and Paystack codes
+ */
+
+import { Request, Response } from 'express';
+import { storage } from './storage';
+import { paymentProviders, PaymentProviderError } from './payment-provider';
+import { PaystackEvent } from './paystack-provider';
+import { billingLedger } from './billing';
+import { organizationService } from './organizations';
+import { referralService } from './referrals';
+import {
+  subscriptionTiers, subscriptionStatuses, SubscriptionPlan, User, billingProviders, paymentStatuses
+} from '@shared/schema';
+
+const PROVIDER = 'paystack';
+
+// Months covered by one payment for each Paystack plan interval
+const INTERVAL_MONTHS: Record<string, number> = {
+  monthly: 1,
+  quarterly: 3,
+  biannually: 6,
+  annually: 12
+};
+
+class PaystackWebhookHandler {
+  /**
+   * Apply a verified event to the affected user
+   *
+   * @param event The event from Paystack
+   */
+  async handleEvent(event: PaystackEvent): Promise<void> {
+    switch (event.event) {
+      case 'charge.success':
+        await this.handleChargeSuccess(event.data);
+        break;
+      case 'subscription.create':
+        await this.handleSubscriptionCreate(event.data);
+        break;
+      case 'subscription.disable':
+        await this.handleSubscriptionDisable(event.data);
+        break;
+      case 'invoice.payment_failed':
+        await this.handleInvoicePaymentFailed(event.data);
+        break;
+      default:
+        console.log(`[PAYSTACK] Ignoring unhandled event type ${event.event}`);
+    }
+  }
+
+  /**
+   * A payment went through, either the first charge or a subscription renewal,
+   * so extend access by the plan's billing interval
+   */
+  private async handleChargeSuccess(data: any): Promise<void> {
+    // Organization seats are billed to the organization rather than the payer
+    if (data.metadata?.organizationId) {
+      await organizationService.applyPaystackCharge(data);
+      return;
+    }
+
+    const user = await this.findUser(data);
+    if (!user) {
+      return;
+    }
+
+    // Keep reusable cards so plan upgrades can be charged without another checkout
+    await storage.updatePaystackCodes(user.id, {
+      customerCode: data.customer?.customer_code,
+      authorizationCode: data.authorization?.reusable ? data.authorization.authorization_code : undefined
+    });
+
+    const plan = await this.findPlan(data.plan?.plan_code, data.metadata?.planName);
+
+    const paidAt = data.paid_at ? new Date(data.paid_at) : new Date();
+    const expiryDate = new Date(paidAt);
+    expiryDate.setMonth(expiryDate.getMonth() + (INTERVAL_MONTHS[data.plan?.interval] || 1));
+
+    await billingLedger.recordPayment({
+      userId: user.id,
+      provider: billingProviders.PAYSTACK,
+      providerPaymentId: data.reference,
+      planName: plan?.name,
+      description: plan ? `${plan.name} plan subscription` : 'Payment',
+      amount: data.amount,
+      currency: data.currency || 'USD',
+      status: paymentStatuses.SUCCEEDED,
+      method: describeAuthorization(data.authorization),
+      periodStart: plan ? paidAt : null,
+      periodEnd: plan ? expiryDate : null
+    });
+
+    if (!plan) {
+      console.log(`[PAYSTACK] Charge ${data.reference} for user ${user.id} isn't for a subscription plan`);
+      return;
+    }
+
+    // Paystack charges renewals itself, without the metadata our own charges carry
+    if (data.plan?.plan_code && !data.metadata?.planName && user.creditBalance > 0) {
+      try {
+        await referralService.applyPaystackRenewalCredit(user, data.reference, data.amount, data.currency || 'USD');
+      } catch (error: any) {
+        console.error(`[PAYSTACK] Error applying credit to charge ${data.reference}:`, error.response?.data || error);
+      }
+    }
+
+    // Prorated upgrade charges are applied when they're made and don't extend the period
+    if (data.metadata?.planChange) {
+      return;
+    }
+
+    // Renewing on a scheduled downgrade's plan means the downgrade has taken effect
+    if (plan.name === user.pendingSubscription) {
+      await storage.switchUserPlan(user.id, plan);
+    }
+
+    await storage.updateUserSubscription(user.id, plan.name, expiryDate);
+    await storage.updateSubscriptionStatus(user.id, subscriptionStatuses.ACTIVE);
+
+    console.log(`[PAYSTACK] User ${user.id} paid for ${plan.name} until ${expiryDate.toISOString()}`);
+  }
+
+  /**
+   * A recurring subscription was set up for the customer
+   */
+  private async handleSubscriptionCreate(data: any): Promise<void> {
+    const user = await this.findUser(data);
+    if (!user) {
+      return;
+    }
+
+    await storage.updatePaystackCodes(user.id, {
+      customerCode: data.customer?.customer_code,
+      subscriptionCode: data.subscription_code
+    });
+
+    const plan = await this.findPlan(data.plan?.plan_code);
+    if (!plan) {
+      console.error(`[PAYSTACK] No plan matches ${data.plan?.plan_code} on subscription ${data.subscription_code}`);
+      return;
+    }
+
+    // Subscriptions set up for a scheduled downgrade start at the end of the current
+    // period, which keeps its plan until then
+    if (plan.name === user.pendingSubscription) {
+      console.log(`[PAYSTACK] Subscription ${data.subscription_code} for user ${user.id} starts with their scheduled ${plan.name} plan`);
+      return;
+    }
+
+    // Access runs until the first renewal charge
+    const expiryDate = data.next_payment_date ? new Date(data.next_payment_date) : undefined;
+    await storage.updateUserSubscription(user.id, plan.name, expiryDate);
+    await storage.updateSubscriptionStatus(user.id, subscriptionStatuses.ACTIVE);
+
+    console.log(`[PAYSTACK] Subscription ${data.subscription_code} created for user ${user.id} on ${plan.name}`);
+  }
+
+  /**
+   * The subscription was cancelled or ran out of retries and won't renew again
+   */
+  private async handleSubscriptionDisable(data: any): Promise<void> {
+    const user = await storage.getUserByPaystackSubscriptionCode(data.subscription_code);
+    if (!user) {
+      console.error(`[PAYSTACK] No user found for subscription ${data.subscription_code}`);
+      return;
+    }
+
+    // A scheduled downgrade to free stops renewals but keeps the paid plan until
+    // the end of the period
+    if (user.pendingSubscription === subscriptionTiers.FREE) {
+      console.log(`[PAYSTACK] Subscription ${data.subscription_code} disabled for user ${user.id}'s scheduled downgrade`);
+      return;
+    }
+
+    await storage.updateUserSubscription(user.id, subscriptionTiers.FREE, null);
+    await storage.updateSubscriptionStatus(user.id, subscriptionStatuses.CANCELED);
+    await storage.updatePaystackCodes(user.id, { subscriptionCode: null });
+
+    console.log(`[PAYSTACK] Subscription ${data.subscription_code} disabled, user ${user.id} moved to the free plan`);
+  }
+
+  /**
+   * A renewal charge failed. Access continues until the paid-through date while
+   * Paystack retries.
+   */
+  private async handleInvoicePaymentFailed(data: any): Promise<void> {
+    const subscriptionCode = data.subscription?.subscription_code;
+    const user = subscriptionCode
+      ? await storage.getUserByPaystackSubscriptionCode(subscriptionCode)
+      : await this.findUser(data);
+    if (!user) {
+      return;
+    }
+
+    await billingLedger.recordPayment({
+      userId: user.id,
+      provider: billingProviders.PAYSTACK,
+      providerInvoiceId: data.invoice_code,
+      providerPaymentId: data.transaction?.reference || data.invoice_code,
+      planName: user.subscription,
+      description: data.description || 'Subscription renewal',
+      amount: data.amount,
+      currency: data.currency || data.subscription?.plan?.currency || 'USD',
+      status: paymentStatuses.FAILED,
+      method: describeAuthorization(data.authorization),
+      failureReason: data.transaction?.gateway_response || 'Renewal payment failed'
+    });
+
+    await storage.updateSubscriptionStatus(user.id, subscriptionStatuses.PAST_DUE);
+    console.log(`[PAYSTACK] Renewal payment failed for user ${user.id} on invoice ${data.invoice_code}`);
+  }
+
+  /**
+   * Find the user an event belongs to, preferring the user ID we put in the
+   * transaction metadata and falling back to the Paystack customer code
+   */
+  private async findUser(data: any): Promise<User | undefined> {
+    const userId = parseInt(data.metadata?.userId, 10);
+    if (!isNaN(userId)) {
+      const user = await storage.getUser(userId);
+      if (user) {
+        return user;
+      }
+    }
+
+    const customerCode = data.customer?.customer_code;
+    const user = customerCode ? await storage.getUserByPaystackCustomerCode(customerCode) : undefined;
+    if (!user) {
+      console.error(`[PAYSTACK] No user found for customer ${customerCode || data.customer?.email}`);
+    }
+    return user;
+  }
+
+  private async findPlan(planCode?: string, planName?: string): Promise<SubscriptionPlan | undefined> {
+    if (planCode) {
+      const plan = await storage.getSubscriptionPlanByPaystackPlanCode(planCode);
+      if (plan) {
+        return plan;
+      }
+    }
+    return planName ? await storage.getSubscriptionPlanByName(planName) : undefined;
+  }
+}
+
+export const paystackWebhookHandler = new PaystackWebhookHandler();
+
+/**
+ * Describe the card a charge used, e.g. "visa •••• 4081"
+ */
+export function describeAuthorization(authorization: any): string | null {
+  if (!authorization?.last4) {
+    return null;
+  }
+  return `${(authorization.card_type || authorization.brand || 'card').trim()} •••• ${authorization.last4}`;
+}
+
+export function setupPaystackWebhookRoutes(app: any) {
+  app.post('/api/webhooks/paystack', async (req: Request, res: Response) => {
+    const provider = paymentProviders.get(billingProviders.PAYSTACK);
+    if (!provider) {
+      return res.status(503).json({ message: 'Paystack webhooks are not configured' });
+    }
+    if (!Buffer.isBuffer(req.rawBody)) {
+      return res.status(400).json({ message: 'Missing webhook signature' });
+    }
+
+    let eventId: string;
+    let event: PaystackEvent;
+    try {
+      const parsed = provider.parseWebhook(req.rawBody, req.headers);
+      eventId = parsed.id;
+      event = parsed.payload;
+    } catch (error) {
+      if (error instanceof PaymentProviderError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      return res.status(400).json({ message: 'Invalid webhook payload' });
+    }
+
+    let claimed = false;
+    try {
+      // Paystack retries until it gets a 200, so skip events we've already handled
+      claimed = await storage.claimWebhookEvent(PROVIDER, eventId, event.event);
+      if (!claimed) {
+        return res.json({ received: true, duplicate: true });
+      }
+
+      await paystackWebhookHandler.handleEvent(event);
+      res.json({ received: true });
+    } catch (error: any) {
+      console.error(`[PAYSTACK] Error processing event ${eventId}:`, error);
+
+      // Let Paystack's retry process the event again
+      if (claimed) {
+        await storage.releaseWebhookEvent(PROVIDER, eventId).catch(console.error);
+      }
+      res.status(500).json({ message: 'Error processing webhook' });
+    }
+  });
+}
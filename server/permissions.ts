@@ -0,0 +1,92 @@
+/**
+ * Permissions
+ *
+ * This module guards the admin API with the roles and permissions in
+ * shared/schema.ts. It's responsible for:
+ *
+ * 1. Checking that the signed-in user's role grants the permission a route needs
+ * 2. Keeping everyone without a staff role out of /api/admin entirely, so a
+ *    route added without its own check still isn't public
+ * 3. Letting admins change a user's role
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import { storage } from './storage';
+import { auditLog } from './audit';
+import { toPublicUser } from './auth';
+import { Permission, permissions, userRoles, auditActions, hasPermission, isStaffRole } from '@shared/schema';
+
+/**
+ * Only let users whose role grants a permission through
+ *
+ * @param permission The permission the route needs
+ */
+export function requirePermission(permission: Permission) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: 'Not authenticated' });
+    }
+    if (!hasPermission(req.user.role, permission)) {
+      return res.status(403).json({ message: 'Access denied' });
+    }
+    next();
+  };
+}
+
+/**
+ * Only let users with a staff role through
+ */
+export function requireStaff(req: Request, res: Response, next: NextFunction) {
+  if (!req.isAuthenticated()) {
+    return res.status(401).json({ message: 'Not authenticated' });
+  }
+  if (!isStaffRole(req.user.role)) {
+    return res.status(403).json({ message: 'Access denied' });
+  }
+  next();
+}
+
+export function setupPermissionRoutes(app: any) {
+  // Change a user's role
+  app.put('/api/admin/users/:id/role', requirePermission(permissions.ROLES_MANAGE), async (req: Request, res: Response) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: 'Not authenticated' });
+    }
+
+    const userId = parseInt(req.params.id);
+    if (isNaN(userId)) {
+      return res.status(400).json({ message: 'Invalid user ID' });
+    }
+
+    const { role } = req.body;
+    const roles: string[] = Object.values(userRoles);
+    if (typeof role !== 'string' || roles.indexOf(role) === -1) {
+      return res.status(400).json({ message: `Role must be one of: ${roles.join(', ')}` });
+    }
+
+    // Admins can't demote themselves, so there's always someone who can fix roles
+    if (userId === req.user.id) {
+      return res.status(400).json({ message: "You can't change your own role" });
+    }
+
+    try {
+      const previous = await storage.getUser(userId);
+      if (!previous) {
+        return res.status(404).json({ message: 'User not found' });
+      }
+
+      const user = await storage.updateUserRole(userId, role);
+      await auditLog.record(req, {
+        action: auditActions.USER_ROLE_UPDATED,
+        targetType: 'user',
+        targetId: userId,
+        before: { role: previous.role },
+        after: { role: user?.role }
+      });
+      res.json(user && toPublicUser(user));
+    } catch (error) {
+      console.error('Error updating user role:', error);
+      res.status(500).json({ message: 'Error updating user role' });
+    }
+  });
+}
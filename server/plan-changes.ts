@@ -0,0 +1,513 @@
+/**
+ * Plan Changes
+ *
+ * This module moves paying users between subscription plans the same way for
+ * Stripe and Paystack, making the subscription changes through their payment
+ * providers. It's responsible for:
+ *
+ * 1. Previewing what a plan change costs before the user confirms it
+ * 2. Applying upgrades immediately and charging the prorated difference for the
+ *    rest of the current period, in the currency the user subscribed in
+ * 3. Scheduling downgrades for the end of the current period as a pending plan
+ *    change, which the subscription scheduler applies once it's due
+ * 4. Cancelling a pending plan change and putting the provider subscription back
+ */
+
+import { Request, Response } from 'express';
+import Stripe from 'stripe';
+import { storage } from './storage';
+import { paystackService } from './paystack-service';
+import { billingLedger } from './billing';
+import { describeAuthorization } from './paystack-webhooks';
+import { pricingService, PricingError, PlanPriceQuote } from './pricing';
+import { paymentProviders, PaymentProviderError, PaymentProvider } from './payment-provider';
+import {
+  SubscriptionPlan, User, SupportedCurrency, subscriptionTiers, subscriptionStatuses, billingProviders, paymentStatuses
+} from '@shared/schema';
+
+export type PlanChangeType = 'upgrade' | 'downgrade';
+
+// Interface for what a plan change will do, shown to the user before they confirm
+export interface PlanChangePreview {
+  type: PlanChangeType;
+  provider: 'stripe' | 'paystack';
+  currentPlan: string;
+  newPlan: string;
+  amountDue: number; // In the currency's smallest unit, 0 for downgrades
+  currency: string;
+  effectiveAt: Date; // Now for upgrades, the end of the period for downgrades
+  periodEnd: Date;
+  prorationDate: number; // Unix time the proration was calculated at
+}
+
+/**
+ * An error caused by the request rather than the providers, with the HTTP status
+ * to answer it with
+ */
+export class PlanChangeError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = 'PlanChangeError';
+  }
+}
+
+/**
+ * Upgrades are paid for, which needs a verified email address
+ */
+class EmailVerificationRequiredError extends PlanChangeError {
+  constructor() {
+    super('Verify your email address before paying', 403);
+    this.name = 'EmailVerificationRequiredError';
+  }
+}
+
+// Interface for the plans and billing period a change works from
+interface PlanChangeContext {
+  user: User;
+  currentPlan: SubscriptionPlan;
+  newPlan: SubscriptionPlan;
+  type: PlanChangeType;
+  provider: 'stripe' | 'paystack';
+  periodEnd: Date;
+  currency: SupportedCurrency;
+  currentPrice: PlanPriceQuote;
+  newPrice: PlanPriceQuote;
+  newStripePriceId?: string;
+  stripeSubscription?: Stripe.Subscription;
+}
+
+class PlanChangeService {
+  constructor(private stripe: Stripe | undefined) {}
+
+  /**
+   * Work out what changing to another plan would cost without changing anything
+   *
+   * @param user The user changing plans
+   * @param planName The plan to change to
+   */
+  async preview(user: User, planName: string): Promise<PlanChangePreview> {
+    return await this.buildPreview(await this.getContext(user, planName));
+  }
+
+  // Always prorates from now, as a time from the client could move the charge past the period end
+  private async buildPreview(context: PlanChangeContext): Promise<PlanChangePreview> {
+    const prorateFrom = Math.floor(Date.now() / 1000);
+
+    let amountDue = 0;
+    let currency: string = context.currency;
+    if (context.type === 'upgrade') {
+      if (context.provider === 'stripe') {
+        const invoice = await this.previewStripeUpgrade(context, prorateFrom);
+        amountDue = invoice.amount_due;
+        currency = invoice.currency.toUpperCase();
+      } else {
+        amountDue = this.prorate(context, prorateFrom);
+      }
+    }
+
+    return {
+      type: context.type,
+      provider: context.provider,
+      currentPlan: context.currentPlan.name,
+      newPlan: context.newPlan.name,
+      amountDue,
+      currency,
+      effectiveAt: context.type === 'upgrade' ? new Date(prorateFrom * 1000) : context.periodEnd,
+      periodEnd: context.periodEnd,
+      prorationDate: prorateFrom
+    };
+  }
+
+  /**
+   * Change to another plan. Upgrades are charged and applied now, downgrades are
+   * scheduled for the end of the current period.
+   *
+   * @param user The user changing plans
+   * @param planName The plan to change to
+   * @returns The preview of the change that was made
+   */
+  async changePlan(user: User, planName: string): Promise<PlanChangePreview> {
+    const context = await this.getContext(user, planName);
+    if (context.type === 'upgrade' && !user.emailVerifiedAt) {
+      throw new EmailVerificationRequiredError();
+    }
+    const preview = await this.buildPreview(context);
+
+    if (context.type === 'upgrade') {
+      if (context.provider === 'stripe') {
+        await this.upgradeStripe(context, preview.prorationDate);
+      } else {
+        await this.upgradePaystack(context, preview.amountDue);
+      }
+      await storage.switchUserPlan(user.id, context.newPlan);
+      console.log(`User ${user.id} upgraded from ${context.currentPlan.name} to ${context.newPlan.name}`);
+    } else {
+      // Save the pending change first so the provider webhooks this triggers know
+      // the current plan stays until the end of the period
+      await storage.setPendingSubscription(user.id, context.newPlan.name, context.periodEnd);
+      try {
+        if (context.provider === 'stripe') {
+          await this.scheduleStripeDowngrade(context);
+        } else {
+          await this.schedulePaystackDowngrade(context);
+        }
+      } catch (error) {
+        await storage.setPendingSubscription(user.id, user.pendingSubscription, user.pendingSubscriptionAt);
+        throw error;
+      }
+      console.log(`User ${user.id} scheduled a downgrade to ${context.newPlan.name} on ${context.periodEnd.toISOString()}`);
+    }
+
+    return preview;
+  }
+
+  /**
+   * Cancel the user's pending downgrade and keep them on their current plan
+   *
+   * @param user The user with a pending plan change
+   */
+  async cancelPendingChange(user: User): Promise<void> {
+    if (!user.pendingSubscription) {
+      throw new PlanChangeError('No plan change is scheduled');
+    }
+
+    const currentPlan = await storage.getSubscriptionPlanByName(user.subscription);
+    if (!currentPlan) {
+      throw new PlanChangeError('Current subscription plan not found', 404);
+    }
+    const currency = pricingService.getUserCurrency(user);
+
+    if (user.stripeSubscriptionId) {
+      const stripe = this.requireProvider(billingProviders.STRIPE);
+      if (user.pendingSubscription === subscriptionTiers.FREE) {
+        await stripe.resumeSubscription(user.stripeSubscriptionId);
+      } else if (currentPlan.stripePriceId) {
+        await stripe.changeSubscription(user.stripeSubscriptionId, {
+          user,
+          plan: currentPlan,
+          price: await pricingService.getPlanPrice(currentPlan, currency),
+          prorate: false
+        });
+      }
+    } else if (user.paystackSubscriptionCode) {
+      const paystack = this.requireProvider(billingProviders.PAYSTACK);
+      const price = await pricingService.getPlanPrice(currentPlan, currency);
+      if (user.pendingSubscription === subscriptionTiers.FREE) {
+        await paystack.resumeSubscription(user.paystackSubscriptionCode);
+      } else if (price.paystackPlanCode && user.pendingSubscriptionAt) {
+        await storage.setPendingSubscription(user.id, null, null);
+        await this.replacePaystackSubscription(user, currentPlan, price, user.pendingSubscriptionAt);
+      }
+    }
+
+    await storage.setPendingSubscription(user.id, null, null);
+    console.log(`User ${user.id} cancelled their scheduled change to ${user.pendingSubscription}`);
+  }
+
+  /**
+   * Look up both plans, decide whether the change is an upgrade or a downgrade and
+   * find the end of the current billing period
+   */
+  private async getContext(user: User, planName: string): Promise<PlanChangeContext> {
+    const newPlan = await storage.getSubscriptionPlanByName(planName);
+    if (!newPlan || newPlan.archivedAt) {
+      throw new PlanChangeError('Subscription plan not found', 404);
+    }
+
+    const currentPlan = await storage.getSubscriptionPlanByName(user.subscription);
+    if (!currentPlan || currentPlan.price === 0 || user.subscriptionStatus === subscriptionStatuses.TRIALING) {
+      throw new PlanChangeError('No paid subscription to change, subscribe to a plan instead');
+    }
+    if (newPlan.name === currentPlan.name) {
+      throw new PlanChangeError(`You're already on the ${newPlan.name} plan`);
+    }
+
+    const type: PlanChangeType = newPlan.price > currentPlan.price ? 'upgrade' : 'downgrade';
+
+    // Both plans are priced in the currency the user subscribed in
+    const currency = pricingService.getUserCurrency(user);
+    const currentPrice = await pricingService.getPlanPrice(currentPlan, currency);
+    const newPrice = await pricingService.getPlanPrice(newPlan, currency);
+
+    if (user.stripeSubscriptionId) {
+      if (newPlan.price > 0 && !newPlan.stripePriceId) {
+        throw new PlanChangeError('This plan is not available for subscription');
+      }
+
+      const stripe = this.requireStripe();
+      const stripeSubscription = await stripe.subscriptions.retrieve(user.stripeSubscriptionId);
+      const periodEnd = (stripeSubscription as any).current_period_end
+        ?? (stripeSubscription.items.data[0] as any)?.current_period_end;
+
+      return {
+        user, currentPlan, newPlan, type, currency, currentPrice, newPrice,
+        provider: 'stripe',
+        periodEnd: periodEnd ? new Date(periodEnd * 1000) : this.requireExpiry(user),
+        newStripePriceId: newPlan.price > 0 ? await pricingService.getStripePriceId(stripe, newPlan, currency) : undefined,
+        stripeSubscription
+      };
+    }
+
+    if (user.paystackSubscriptionCode || user.paystackAuthorizationCode) {
+      return {
+        user, currentPlan, newPlan, type, currency, currentPrice, newPrice,
+        provider: 'paystack',
+        periodEnd: this.requireExpiry(user)
+      };
+    }
+
+    if (user.flutterwaveSubscriptionId) {
+      throw new PlanChangeError("Flutterwave subscriptions can't change plans, cancel and subscribe to the new plan instead", 409);
+    }
+
+    throw new PlanChangeError('No active subscription found');
+  }
+
+  private requireStripe(): Stripe {
+    if (!this.stripe) {
+      throw new PlanChangeError('Payment service not available', 503);
+    }
+    return this.stripe;
+  }
+
+  private requireProvider(name: 'stripe' | 'paystack'): PaymentProvider {
+    const provider = paymentProviders.get(name);
+    if (!provider) {
+      throw new PlanChangeError('Payment service not available', 503);
+    }
+    return provider;
+  }
+
+  private requireExpiry(user: User): Date {
+    if (!user.subscriptionExpiryDate || user.subscriptionExpiryDate.getTime() <= Date.now()) {
+      throw new PlanChangeError('Your subscription has expired, subscribe to a plan instead');
+    }
+    return user.subscriptionExpiryDate;
+  }
+
+  /**
+   * Charge the price difference for the part of the period that's left. Paystack
+   * doesn't prorate, so periods are taken to be the month before the expiry date.
+   */
+  private prorate(context: PlanChangeContext, prorateFrom: number): number {
+    const periodEnd = context.periodEnd.getTime();
+    const periodStart = new Date(context.periodEnd);
+    periodStart.setMonth(periodStart.getMonth() - 1);
+
+    const remaining = (periodEnd - prorateFrom * 1000) / (periodEnd - periodStart.getTime());
+    const fraction = Math.min(Math.max(remaining, 0), 1);
+    return Math.max(Math.round((context.newPrice.amount - context.currentPrice.amount) * fraction), 0);
+  }
+
+  private async previewStripeUpgrade(context: PlanChangeContext, prorationDate: number): Promise<Stripe.Invoice> {
+    const subscription = context.stripeSubscription!;
+    return await this.requireStripe().invoices.createPreview({
+      customer: typeof subscription.customer === 'string' ? subscription.customer : subscription.customer.id,
+      subscription: subscription.id,
+      subscription_details: {
+        items: [{ id: subscription.items.data[0].id, price: context.newStripePriceId! }],
+        proration_behavior: 'always_invoice',
+        proration_date: prorationDate
+      }
+    });
+  }
+
+  /**
+   * Swap the subscription's price and invoice the proration straight away. The
+   * invoice.paid webhook records the payment in the ledger.
+   */
+  private async upgradeStripe(context: PlanChangeContext, prorationDate: number): Promise<void> {
+    await this.requireProvider(billingProviders.STRIPE).changeSubscription(context.stripeSubscription!.id, {
+      user: context.user,
+      plan: context.newPlan,
+      price: context.newPrice,
+      prorate: true,
+      prorationDate
+    });
+  }
+
+  /**
+   * Charge the prorated difference to the customer's saved card, then move their
+   * recurring subscription to the new plan from the next renewal
+   */
+  private async upgradePaystack(context: PlanChangeContext, amountDue: number): Promise<void> {
+    const { user, newPlan, newPrice } = context;
+
+    if (amountDue > 0) {
+      if (!user.paystackAuthorizationCode || !user.email) {
+        throw new PlanChangeError('No saved card to charge, subscribe to the new plan through checkout instead');
+      }
+
+      const result = await paystackService.chargeAuthorization(user.email, amountDue, user.paystackAuthorizationCode, {
+        userId: user.id,
+        planName: newPlan.name,
+        planChange: 'upgrade'
+      }, context.currency);
+      if (result.data?.status !== 'success') {
+        throw new PlanChangeError(result.data?.gateway_response || 'Payment for the upgrade failed', 402);
+      }
+
+      await billingLedger.recordPayment({
+        userId: user.id,
+        provider: billingProviders.PAYSTACK,
+        providerPaymentId: result.data.reference,
+        planName: newPlan.name,
+        description: `Upgrade to ${newPlan.name} plan (prorated)`,
+        amount: result.data.amount,
+        currency: result.data.currency || context.currency,
+        status: paymentStatuses.SUCCEEDED,
+        method: describeAuthorization(result.data.authorization),
+        periodStart: new Date(),
+        periodEnd: context.periodEnd
+      });
+    }
+
+    if (user.paystackSubscriptionCode && newPrice.paystackPlanCode) {
+      await this.replacePaystackSubscription(user, newPlan, newPrice, context.periodEnd);
+    }
+  }
+
+  /**
+   * Keep the current price for the rest of the period and bill the new one from
+   * the next renewal. Downgrading to free cancels at the end of the period.
+   */
+  private async scheduleStripeDowngrade(context: PlanChangeContext): Promise<void> {
+    const stripe = this.requireProvider(billingProviders.STRIPE);
+    const subscription = context.stripeSubscription!;
+
+    if (context.newPlan.price === 0) {
+      await stripe.cancelSubscription(subscription.id, { atPeriodEnd: true });
+      return;
+    }
+
+    await stripe.changeSubscription(subscription.id, {
+      user: context.user,
+      plan: context.newPlan,
+      price: context.newPrice,
+      prorate: false
+    });
+  }
+
+  /**
+   * Move the recurring subscription to the new plan from the next renewal, or stop
+   * it renewing when downgrading to free. Users who paid once without a recurring
+   * subscription just get the pending change.
+   */
+  private async schedulePaystackDowngrade(context: PlanChangeContext): Promise<void> {
+    const { user, newPlan, newPrice } = context;
+    if (!user.paystackSubscriptionCode) {
+      return;
+    }
+
+    if (newPlan.price === 0) {
+      // The disable webhook leaves the plan alone while a downgrade to free is pending
+      await this.requireProvider(billingProviders.PAYSTACK).cancelSubscription(user.paystackSubscriptionCode, { atPeriodEnd: true });
+      return;
+    }
+
+    if (!newPrice.paystackPlanCode) {
+      throw new PlanChangeError('This plan is not available for subscription');
+    }
+    await this.replacePaystackSubscription(user, newPlan, newPrice, context.periodEnd);
+  }
+
+  /**
+   * Start a subscription on another plan from the given date in place of the
+   * current one
+   */
+  private async replacePaystackSubscription(
+    user: User,
+    plan: SubscriptionPlan,
+    price: PlanPriceQuote,
+    startDate: Date
+  ): Promise<void> {
+    if (!user.paystackSubscriptionCode) {
+      return;
+    }
+    await this.requireProvider(billingProviders.PAYSTACK).changeSubscription(user.paystackSubscriptionCode, {
+      user,
+      plan,
+      price,
+      prorate: false,
+      startAt: startDate
+    });
+  }
+}
+
+/**
+ * Answer a failed plan change request, passing request errors on to the user
+ */
+function handlePlanChangeError(res: Response, error: any, action: string) {
+  if (error instanceof EmailVerificationRequiredError) {
+    return res.status(error.status).json({ message: error.message, emailVerificationRequired: true });
+  }
+  if (error instanceof PlanChangeError || error instanceof PricingError || error instanceof PaymentProviderError) {
+    return res.status(error.status).json({ message: error.message });
+  }
+  console.error(`Error ${action}:`, error.response?.data || error);
+  res.status(500).json({ message: `Error ${action}`, error: error.message });
+}
+
+export function setupPlanChangeRoutes(app: any, stripe: Stripe | undefined) {
+  const planChangeService = new PlanChangeService(stripe);
+
+  // Preview what changing to another plan costs
+  app.post('/api/subscription/change/preview', async (req: Request, res: Response) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: 'Not authenticated' });
+    }
+
+    const { planName } = req.body;
+    if (!planName) {
+      return res.status(400).json({ message: 'Plan name is required' });
+    }
+
+    try {
+      res.json(await planChangeService.preview(req.user, planName));
+    } catch (error) {
+      handlePlanChangeError(res, error, 'previewing plan change');
+    }
+  });
+
+  // Upgrade now or schedule a downgrade for the end of the period
+  const changePlan = async (req: Request, res: Response) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: 'Not authenticated' });
+    }
+
+    const { planName } = req.body;
+    if (!planName) {
+      return res.status(400).json({ message: 'Plan name is required' });
+    }
+
+    try {
+      const change = await planChangeService.changePlan(req.user, planName);
+      res.json({
+        success: true,
+        message: change.type === 'upgrade'
+          ? `Upgraded to the ${change.newPlan} plan`
+          : `Your plan changes to ${change.newPlan} on ${change.effectiveAt.toLocaleDateString()}`,
+        subscription: change.type === 'upgrade' ? change.newPlan : change.currentPlan,
+        change
+      });
+    } catch (error) {
+      handlePlanChangeError(res, error, 'changing plan');
+    }
+  };
+  app.post('/api/subscription/change', changePlan);
+  app.post('/api/update-subscription', changePlan);
+
+  // Cancel a scheduled downgrade
+  app.delete('/api/subscription/change', async (req: Request, res: Response) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: 'Not authenticated' });
+    }
+
+    try {
+      await planChangeService.cancelPendingChange(req.user);
+      res.json({ success: true, message: 'Scheduled plan change cancelled' });
+    } catch (error) {
+      handlePlanChangeError(res, error, 'cancelling plan change');
+    }
+  });
+}
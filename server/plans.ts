@@ -0,0 +1,420 @@
+/**
+ * Plan Management
+ *
+ * This module lets admins manage subscription plans from the admin page. It's
+ * responsible for:
+ *
+ * 1. Creating and editing plans, their limits, feature flags, display order and
+ *    feature list
+ * 2. Creating a new Stripe price when a plan's price changes, so existing
+ *    subscribers keep paying what they signed up for
+ * 3. Archiving plans so no one new can subscribe, and only deleting plans no one
+ *    is on
+ * 4. Keeping a copy of the plan after every change
+ */
+
+import { Request, Response } from 'express';
+import Stripe from 'stripe';
+import { z } from 'zod';
+import { storage } from './storage';
+import { requirePermission } from './permissions';
+import { auditLog } from './audit';
+import { promotionService } from './promotions';
+import {
+  SubscriptionPlan, SubscriptionPlanVersion, subscriptionTiers, planChangeTypes, insertSubscriptionPlanSchema, permissions, auditActions
+} from '@shared/schema';
+
+const MAX_INTEGER = 2147483647; // Limits are stored as 32-bit integers
+
+// Plan details admins can set. -1 means unlimited for data and time.
+const planInputSchema = insertSubscriptionPlanSchema.extend({
+  name: z.string().regex(/^[a-z0-9-]{2,32}$/, 'Use 2 to 32 lowercase letters, numbers or dashes'),
+  price: z.number().int().min(0).max(MAX_INTEGER),
+  dataLimit: z.number().int().min(-1).max(MAX_INTEGER),
+  dailyTimeLimit: z.number().int().min(-1).max(24 * 60),
+  serverAccess: z.enum(['standard', 'premium', 'all']).optional(),
+  maxDevices: z.number().int().min(1).max(100).optional(),
+  priority: z.number().int().min(0).max(1000).optional(),
+});
+
+// The name identifies the plan on every subscription, so it can't change
+const planUpdateSchema = planInputSchema.omit({ name: true }).partial();
+
+type PlanInput = z.infer<typeof planInputSchema>;
+type PlanUpdate = z.infer<typeof planUpdateSchema>;
+
+// Interface for a plan as admins see it
+export interface AdminPlan extends SubscriptionPlan {
+  usage: {
+    subscribers: number;
+    organizations: number;
+    scheduled: number; // Users with a downgrade to this plan scheduled
+  };
+}
+
+/**
+ * A plan change that can't be made, with the HTTP status to answer it with
+ */
+export class PlanError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = 'PlanError';
+  }
+}
+
+class PlanService {
+  /**
+   * Get every plan, archived ones included, with how many people are on it
+   */
+  async list(): Promise<AdminPlan[]> {
+    const plans = await storage.getAllSubscriptionPlans();
+    return await Promise.all(plans.map(async plan => ({
+      ...plan,
+      usage: await storage.getSubscriptionPlanUsage(plan.name)
+    })));
+  }
+
+  /**
+   * Create a plan, with a Stripe product and monthly price when Stripe is set up
+   *
+   * @param stripe The Stripe client, if configured
+   * @param input The plan details
+   * @param adminId The admin making the change
+   */
+  async create(stripe: Stripe | undefined, input: PlanInput, adminId: number): Promise<SubscriptionPlan> {
+    if (await storage.getSubscriptionPlanByName(input.name)) {
+      throw new PlanError(`A plan named ${input.name} already exists`, 409);
+    }
+    this.validatePrice(input.name, input.price);
+
+    let stripePriceId = input.stripePriceId || null;
+    if (!stripePriceId && input.price > 0 && stripe) {
+      stripePriceId = await this.createStripePrice(stripe, input.name, input.price, null);
+    }
+
+    const plan = await storage.createSubscriptionPlan({ ...input, stripePriceId }, adminId);
+    console.log(`[PLANS] Admin ${adminId} created the ${plan.name} plan`);
+    return plan;
+  }
+
+  /**
+   * Change a plan. A new price gets a new Stripe price on the same product and
+   * clears the Paystack and Flutterwave plans, since every provider fixes the
+   * amount per price.
+   * Subscribers on the old price keep it until they change plan.
+   *
+   * @param stripe The Stripe client, if configured
+   * @param id The plan to change
+   * @param changes The details to change
+   * @param adminId The admin making the change
+   */
+  async update(stripe: Stripe | undefined, id: number, changes: PlanUpdate, adminId: number): Promise<SubscriptionPlan> {
+    const plan = await this.getPlan(id);
+    const update = { ...changes };
+
+    if (changes.price !== undefined && changes.price !== plan.price) {
+      this.validatePrice(plan.name, changes.price);
+
+      if (changes.stripePriceId === undefined) {
+        update.stripePriceId = changes.price > 0 && stripe
+          ? await this.createStripePrice(stripe, plan.name, changes.price, plan.stripePriceId)
+          : null;
+      }
+      if (changes.paystackPlanCode === undefined) {
+        update.paystackPlanCode = null;
+      }
+      if (changes.flutterwavePlanId === undefined) {
+        update.flutterwavePlanId = null;
+      }
+      if (!update.stripePriceId && changes.price > 0) {
+        console.log(`[PLANS] The ${plan.name} plan has no Stripe price until one is set`);
+      }
+    }
+
+    const updated = await storage.updateSubscriptionPlan(plan.id, update, planChangeTypes.UPDATED, adminId);
+    if (!updated) {
+      throw new PlanError('Subscription plan not found', 404);
+    }
+    console.log(`[PLANS] Admin ${adminId} updated the ${plan.name} plan to version ${updated.version}`);
+    return updated;
+  }
+
+  /**
+   * Stop offering a plan. People already on it keep it, and can still renew.
+   */
+  async archive(id: number, adminId: number): Promise<SubscriptionPlan> {
+    const plan = await this.getPlan(id);
+    if (plan.archivedAt) {
+      throw new PlanError(`The ${plan.name} plan is already archived`);
+    }
+    await this.assertRemovable(plan, 'archived');
+
+    const archived = await storage.updateSubscriptionPlan(plan.id, { archivedAt: new Date() }, planChangeTypes.ARCHIVED, adminId);
+    console.log(`[PLANS] Admin ${adminId} archived the ${plan.name} plan`);
+    return archived!;
+  }
+
+  /**
+   * Offer an archived plan again
+   */
+  async restore(id: number, adminId: number): Promise<SubscriptionPlan> {
+    const plan = await this.getPlan(id);
+    if (!plan.archivedAt) {
+      throw new PlanError(`The ${plan.name} plan isn't archived`);
+    }
+
+    const restored = await storage.updateSubscriptionPlan(plan.id, { archivedAt: null }, planChangeTypes.RESTORED, adminId);
+    console.log(`[PLANS] Admin ${adminId} restored the ${plan.name} plan`);
+    return restored!;
+  }
+
+  /**
+   * Delete a plan no one is on. Plans with subscribers or unredeemed vouchers can
+   * only be archived.
+   */
+  async delete(id: number, adminId: number): Promise<void> {
+    const plan = await this.getPlan(id);
+    await this.assertRemovable(plan, 'deleted');
+
+    const usage = await storage.getSubscriptionPlanUsage(plan.name);
+    if (usage.subscribers > 0 || usage.organizations > 0 || usage.scheduled > 0 || usage.vouchers > 0) {
+      throw new PlanError(
+        `The ${plan.name} plan has ${usage.subscribers} subscribers, ${usage.organizations} organizations, ` +
+        `${usage.scheduled} scheduled downgrades and ${usage.vouchers} unredeemed vouchers. Archive it instead.`,
+        409
+      );
+    }
+
+    await storage.deleteSubscriptionPlan(plan.id, adminId);
+    console.log(`[PLANS] Admin ${adminId} deleted the ${plan.name} plan`);
+  }
+
+  /**
+   * Get every saved version of a plan, newest first
+   */
+  async versions(id: number): Promise<SubscriptionPlanVersion[]> {
+    return await storage.getSubscriptionPlanVersions(id);
+  }
+
+  private async getPlan(id: number): Promise<SubscriptionPlan> {
+    const plan = isNaN(id) ? undefined : await storage.getSubscriptionPlan(id);
+    if (!plan) {
+      throw new PlanError('Subscription plan not found', 404);
+    }
+    return plan;
+  }
+
+  /**
+   * The free plan is what everyone falls back to, so it's always free
+   */
+  private validatePrice(name: string, price: number): void {
+    if (name === subscriptionTiers.FREE && price !== 0) {
+      throw new PlanError('The free plan must stay free');
+    }
+    if (name !== subscriptionTiers.FREE && price <= 0) {
+      throw new PlanError('Paid plans need a price above zero');
+    }
+  }
+
+  /**
+   * Check that a plan can be taken off sale without breaking signups
+   */
+  private async assertRemovable(plan: SubscriptionPlan, action: 'archived' | 'deleted'): Promise<void> {
+    if (plan.name === subscriptionTiers.FREE) {
+      throw new PlanError(`The free plan can't be ${action}`);
+    }
+
+    const trial = await promotionService.getTrialSettings();
+    if (trial.days > 0 && trial.planName === plan.name) {
+      throw new PlanError(`Free trials are on the ${plan.name} plan, choose another trial plan first`);
+    }
+  }
+
+  /**
+   * Create a monthly USD price in Stripe, on the plan's existing product if it
+   * has one
+   */
+  private async createStripePrice(stripe: Stripe, name: string, amount: number, currentPriceId: string | null): Promise<string> {
+    let product: string;
+    if (currentPriceId) {
+      const current = await stripe.prices.retrieve(currentPriceId);
+      product = typeof current.product === 'string' ? current.product : current.product.id;
+    } else {
+      const created = await stripe.products.create({
+        name: `${name.charAt(0).toUpperCase()}${name.slice(1)} plan`,
+        metadata: { planName: name }
+      });
+      product = created.id;
+    }
+
+    const price = await stripe.prices.create({
+      product,
+      currency: 'usd',
+      unit_amount: amount,
+      recurring: { interval: 'month' },
+      metadata: { planName: name }
+    });
+    console.log(`[STRIPE] Created price ${price.id} for the ${name} plan`);
+    return price.id;
+  }
+}
+
+// Export singleton instance
+export const planService = new PlanService();
+
+function handlePlanError(res: Response, error: any, action: string) {
+  if (error instanceof PlanError) {
+    return res.status(error.status).json({ message: error.message });
+  }
+  console.error(`Error ${action}:`, error);
+  res.status(500).json({ message: `Error ${action}` });
+}
+
+export function setupPlanRoutes(app: any, stripe: Stripe | undefined) {
+  // Every plan, archived ones included, with how many people are on each
+  app.get('/api/admin/plans', requirePermission(permissions.PLANS_MANAGE), async (req: Request, res: Response) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: 'Not authenticated' });
+    }
+
+    try {
+      res.json(await planService.list());
+    } catch (error) {
+      handlePlanError(res, error, 'fetching plans');
+    }
+  });
+
+  // Create a plan
+  app.post('/api/admin/plans', requirePermission(permissions.PLANS_MANAGE), async (req: Request, res: Response) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: 'Not authenticated' });
+    }
+
+    const parsed = planInputSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({
+        message: 'Invalid plan details',
+        errors: parsed.error.errors
+      });
+    }
+
+    try {
+      const plan = await planService.create(stripe, parsed.data, req.user.id);
+      await auditLog.record(req, {
+        action: auditActions.PLAN_CREATED,
+        targetType: 'plan',
+        targetId: plan.id,
+        after: plan
+      });
+      res.status(201).json(plan);
+    } catch (error) {
+      handlePlanError(res, error, 'creating plan');
+    }
+  });
+
+  // Change a plan's price, limits, flags, order or features
+  app.patch('/api/admin/plans/:id', requirePermission(permissions.PLANS_MANAGE), async (req: Request, res: Response) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: 'Not authenticated' });
+    }
+
+    const parsed = planUpdateSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({
+        message: 'Invalid plan details',
+        errors: parsed.error.errors
+      });
+    }
+
+    try {
+      const planId = parseInt(req.params.id, 10);
+      const before = await storage.getSubscriptionPlan(planId);
+      const plan = await planService.update(stripe, planId, parsed.data, req.user.id);
+      await auditLog.record(req, {
+        action: auditActions.PLAN_UPDATED,
+        targetType: 'plan',
+        targetId: plan.id,
+        before,
+        after: plan
+      });
+      res.json(plan);
+    } catch (error) {
+      handlePlanError(res, error, 'updating plan');
+    }
+  });
+
+  // Stop offering a plan to new subscribers
+  app.post('/api/admin/plans/:id/archive', requirePermission(permissions.PLANS_MANAGE), async (req: Request, res: Response) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: 'Not authenticated' });
+    }
+
+    try {
+      const plan = await planService.archive(parseInt(req.params.id, 10), req.user.id);
+      await auditLog.record(req, {
+        action: auditActions.PLAN_ARCHIVED,
+        targetType: 'plan',
+        targetId: plan.id,
+        details: { name: plan.name }
+      });
+      res.json(plan);
+    } catch (error) {
+      handlePlanError(res, error, 'archiving plan');
+    }
+  });
+
+  // Offer an archived plan again
+  app.post('/api/admin/plans/:id/restore', requirePermission(permissions.PLANS_MANAGE), async (req: Request, res: Response) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: 'Not authenticated' });
+    }
+
+    try {
+      const plan = await planService.restore(parseInt(req.params.id, 10), req.user.id);
+      await auditLog.record(req, {
+        action: auditActions.PLAN_RESTORED,
+        targetType: 'plan',
+        targetId: plan.id,
+        details: { name: plan.name }
+      });
+      res.json(plan);
+    } catch (error) {
+      handlePlanError(res, error, 'restoring plan');
+    }
+  });
+
+  // Delete a plan no one is on
+  app.delete('/api/admin/plans/:id', requirePermission(permissions.PLANS_MANAGE), async (req: Request, res: Response) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: 'Not authenticated' });
+    }
+
+    try {
+      const planId = parseInt(req.params.id, 10);
+      const before = await storage.getSubscriptionPlan(planId);
+      await planService.delete(planId, req.user.id);
+      await auditLog.record(req, {
+        action: auditActions.PLAN_DELETED,
+        targetType: 'plan',
+        targetId: planId,
+        before
+      });
+      res.json({ success: true });
+    } catch (error) {
+      handlePlanError(res, error, 'deleting plan');
+    }
+  });
+
+  // A plan's change history
+  app.get('/api/admin/plans/:id/versions', requirePermission(permissions.PLANS_MANAGE), async (req: Request, res: Response) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: 'Not authenticated' });
+    }
+
+    try {
+      res.json(await planService.versions(parseInt(req.params.id, 10)));
+    } catch (error) {
+      handlePlanError(res, error, 'fetching plan versions');
+    }
+  });
+}
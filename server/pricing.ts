@@ -0,0 +1,367 @@
+/**
+ * Pricing
+ *
+ * This module handles plan prices in each supported currency. It's responsible for:
+ *
+ * 1. Picking the currency a user sees, from their own choice or else the country
+ *    their request comes from
+ * 2. Looking up a plan's price in that currency, in the currency's smallest unit,
+ *    so every provider is charged the same amount the user was shown
+ * 3. Creating the Stripe price for a currency the first time it's used there
+ * 4. Checking that a provider can charge in a currency
+ * 5. Letting admins set the prices of each plan in each currency
+ */
+
+import { Request, Response } from 'express';
+import Stripe from 'stripe';
+import { storage } from './storage';
+import { requirePermission } from './permissions';
+import { auditLog } from './audit';
+import { paymentProviders } from './payment-provider';
+import {
+  SubscriptionPlan, LocalizedSubscriptionPlan, User, SupportedCurrency, BillingProvider,
+  supportedCurrencies, subscriptionTiers, permissions, auditActions
+} from '@shared/schema';
+
+// Countries that don't bill in USD
+const COUNTRY_CURRENCIES: Record<string, SupportedCurrency> = {
+  NG: supportedCurrencies.NGN,
+  GH: supportedCurrencies.GHS,
+  ZA: supportedCurrencies.ZAR
+};
+
+const EUROZONE_COUNTRIES = [
+  'AT', 'BE', 'CY', 'DE', 'EE', 'ES', 'FI', 'FR', 'GR', 'HR',
+  'IE', 'IT', 'LT', 'LU', 'LV', 'MT', 'NL', 'PT', 'SI', 'SK'
+];
+
+// Locale each currency is formatted in
+const CURRENCY_LOCALES: Record<string, string> = {
+  USD: 'en-US',
+  NGN: 'en-NG',
+  GHS: 'en-GH',
+  ZAR: 'en-ZA',
+  EUR: 'en-IE'
+};
+
+// Interface for a plan's price in one currency
+export interface PlanPriceQuote {
+  planName: string;
+  amount: number; // In the currency's smallest unit
+  currency: SupportedCurrency;
+  stripePriceId: string | null;
+  paystackPlanCode: string | null;
+  flutterwavePlanId: string | null;
+}
+
+/**
+ * A price that can't be used, with the HTTP status to answer it with
+ */
+export class PricingError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = 'PricingError';
+  }
+}
+
+/**
+ * Format an amount in a currency's smallest unit for display, e.g. "₦7,500.00"
+ */
+export function formatPrice(amount: number, currency: string): string {
+  const code = currency.toUpperCase(); // Stripe reports currencies in lower case
+  return new Intl.NumberFormat(CURRENCY_LOCALES[code] || 'en-US', {
+    style: 'currency',
+    currency: code
+  }).format(amount / 100);
+}
+
+class PricingService {
+  /**
+   * Get every currency plans can be bought in
+   */
+  getCurrencies(): SupportedCurrency[] {
+    return Object.values(supportedCurrencies);
+  }
+
+  isSupportedCurrency(currency: string): currency is SupportedCurrency {
+    return this.getCurrencies().includes(currency as SupportedCurrency);
+  }
+
+  /**
+   * Pick the currency to price a request in: the one asked for, then the user's
+   * own currency, then the one for the country the request comes from
+   *
+   * @param req The incoming request
+   * @param requested A currency the client asked for, if any
+   */
+  resolveCurrency(req: Request, requested?: string): SupportedCurrency {
+    if (requested) {
+      const currency = requested.toUpperCase();
+      if (!this.isSupportedCurrency(currency)) {
+        throw new PricingError(`${requested} is not a supported currency`);
+      }
+      return currency;
+    }
+
+    const userCurrency = req.isAuthenticated() ? req.user.currency : null;
+    if (userCurrency && this.isSupportedCurrency(userCurrency)) {
+      return userCurrency;
+    }
+
+    return this.getCountryCurrency(this.getRequestCountry(req));
+  }
+
+  /**
+   * Get the currency a user's subscription is billed in. Users who subscribed
+   * before currencies were added are billed in USD.
+   */
+  getUserCurrency(user: User): SupportedCurrency {
+    return user.currency && this.isSupportedCurrency(user.currency) ? user.currency : supportedCurrencies.USD;
+  }
+
+  /**
+   * Get a plan's price in a currency. USD prices live on the plan itself, other
+   * currencies in the plan prices table.
+   *
+   * @param plan The plan being priced
+   * @param currency The currency to price it in
+   */
+  async getPlanPrice(plan: SubscriptionPlan, currency: SupportedCurrency): Promise<PlanPriceQuote> {
+    if (currency === supportedCurrencies.USD || plan.price <= 0) {
+      return {
+        planName: plan.name,
+        amount: currency === supportedCurrencies.USD ? plan.price : 0,
+        currency,
+        stripePriceId: plan.stripePriceId,
+        paystackPlanCode: plan.paystackPlanCode,
+        flutterwavePlanId: plan.flutterwavePlanId
+      };
+    }
+
+    const price = await storage.getPlanPrice(plan.id, currency);
+    if (!price) {
+      throw new PricingError(`The ${plan.name} plan isn't available in ${currency}`);
+    }
+    return {
+      planName: plan.name,
+      amount: price.amount,
+      currency,
+      stripePriceId: price.stripePriceId,
+      paystackPlanCode: price.paystackPlanCode,
+      flutterwavePlanId: price.flutterwavePlanId
+    };
+  }
+
+  /**
+   * Get every plan with its price in a currency, leaving out plans that aren't
+   * sold in it
+   */
+  async getLocalizedPlans(currency: SupportedCurrency): Promise<LocalizedSubscriptionPlan[]> {
+    const plans = await storage.getAllSubscriptionPlans();
+    const prices = currency === supportedCurrencies.USD
+      ? []
+      : await storage.getPlanPrices(plans.map(plan => plan.id));
+
+    const localized: LocalizedSubscriptionPlan[] = [];
+    plans.forEach(plan => {
+      // Archived plans stay with their subscribers but aren't offered to anyone new
+      if (plan.archivedAt) {
+        return;
+      }
+      if (currency === supportedCurrencies.USD || plan.price <= 0) {
+        localized.push({ ...plan, currency, displayPrice: currency === supportedCurrencies.USD ? plan.price : 0 });
+        return;
+      }
+
+      const price = prices.find(p => p.planId === plan.id && p.currency === currency);
+      if (price) {
+        localized.push({ ...plan, currency, displayPrice: price.amount });
+      }
+    });
+    return localized;
+  }
+
+  /**
+   * Get the Stripe price for a plan in a currency, creating it on the USD price's
+   * product the first time the currency is used with Stripe
+   */
+  async getStripePriceId(stripe: Stripe, plan: SubscriptionPlan, currency: SupportedCurrency): Promise<string> {
+    if (!plan.stripePriceId) {
+      throw new PricingError('This plan is not available for purchase yet');
+    }
+    if (currency === supportedCurrencies.USD) {
+      return plan.stripePriceId;
+    }
+
+    const price = await storage.getPlanPrice(plan.id, currency);
+    if (!price) {
+      throw new PricingError(`The ${plan.name} plan isn't available in ${currency}`);
+    }
+    if (price.stripePriceId) {
+      return price.stripePriceId;
+    }
+
+    const usdPrice = await stripe.prices.retrieve(plan.stripePriceId);
+    const stripePrice = await stripe.prices.create({
+      product: typeof usdPrice.product === 'string' ? usdPrice.product : usdPrice.product.id,
+      currency: currency.toLowerCase(),
+      unit_amount: price.amount,
+      recurring: { interval: 'month' },
+      metadata: { planId: plan.id.toString() }
+    });
+
+    await storage.updatePlanPriceStripeId(price.id, stripePrice.id);
+    console.log(`[STRIPE] Created ${currency} price ${stripePrice.id} for the ${plan.name} plan`);
+    return stripePrice.id;
+  }
+
+  /**
+   * Check that a provider can charge in a currency
+   */
+  assertProviderSupports(provider: BillingProvider, currency: SupportedCurrency): void {
+    const paymentProvider = paymentProviders.get(provider);
+    if (paymentProvider && !paymentProvider.currencies.includes(currency)) {
+      throw new PricingError(`${paymentProvider.displayName} can't charge in ${currency}, please pay with a card through Stripe`);
+    }
+  }
+
+  /**
+   * Set the currency a user is billed in. A paid subscription keeps the currency
+   * it was bought in until it ends.
+   */
+  async setUserCurrency(user: User, currency: SupportedCurrency): Promise<User> {
+    const hasPaidSubscription = user.subscription !== subscriptionTiers.FREE &&
+      !!(user.stripeSubscriptionId || user.paystackSubscriptionCode || user.paystackAuthorizationCode);
+    if (hasPaidSubscription && this.getUserCurrency(user) !== currency) {
+      throw new PricingError('You can change currency once your current subscription ends', 409);
+    }
+
+    return await storage.updateUserCurrency(user.id, currency);
+  }
+
+  private getRequestCountry(req: Request): string | undefined {
+    const header = req.headers['cf-ipcountry'] || req.headers['x-country-code'];
+    const country = Array.isArray(header) ? header[0] : header;
+    if (country) {
+      return country.toUpperCase();
+    }
+
+    // Fall back to the region of the browser's preferred language, e.g. en-NG
+    const language = req.headers['accept-language']?.split(',')[0];
+    const region = language?.split(';')[0].trim().split('-')[1];
+    return region?.toUpperCase();
+  }
+
+  private getCountryCurrency(country?: string): SupportedCurrency {
+    if (!country) {
+      return supportedCurrencies.USD;
+    }
+    if (EUROZONE_COUNTRIES.includes(country)) {
+      return supportedCurrencies.EUR;
+    }
+    return COUNTRY_CURRENCIES[country] || supportedCurrencies.USD;
+  }
+}
+
+// Export singleton instance
+export const pricingService = new PricingService();
+
+/**
+ * Answer a failed pricing request, passing currency errors on to the user
+ */
+function handlePricingError(res: Response, error: any, action: string) {
+  if (error instanceof PricingError) {
+    return res.status(error.status).json({ message: error.message });
+  }
+  console.error(`Error ${action}:`, error);
+  res.status(500).json({ message: `Error ${action}` });
+}
+
+export function setupPricingRoutes(app: any) {
+  // Get the supported currencies and the one the current request is priced in
+  app.get('/api/pricing/currencies', async (req: Request, res: Response) => {
+    try {
+      res.json({
+        currencies: pricingService.getCurrencies(),
+        currency: pricingService.resolveCurrency(req)
+      });
+    } catch (error) {
+      handlePricingError(res, error, 'fetching currencies');
+    }
+  });
+
+  // Choose the currency the current user is billed in
+  app.put('/api/pricing/currency', async (req: Request, res: Response) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: 'Not authenticated' });
+    }
+
+    const { currency } = req.body;
+    if (typeof currency !== 'string' || !pricingService.isSupportedCurrency(currency)) {
+      return res.status(400).json({ message: 'Unsupported currency' });
+    }
+
+    try {
+      const user = await pricingService.setUserCurrency(req.user, currency);
+      res.json({ currency: user.currency });
+    } catch (error) {
+      handlePricingError(res, error, 'updating currency');
+    }
+  });
+
+  // Get every plan's prices in currencies other than USD
+  app.get('/api/admin/plan-prices', requirePermission(permissions.PLANS_MANAGE), async (req: Request, res: Response) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: 'Not authenticated' });
+    }
+
+    try {
+      res.json(await storage.getPlanPrices());
+    } catch (error) {
+      handlePricingError(res, error, 'fetching plan prices');
+    }
+  });
+
+  // Set a plan's price in a currency
+  app.put('/api/admin/plan-prices/:planId/:currency', requirePermission(permissions.PLANS_MANAGE), async (req: Request, res: Response) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: 'Not authenticated' });
+    }
+
+    const currency = req.params.currency.toUpperCase();
+    if (!pricingService.isSupportedCurrency(currency) || currency === supportedCurrencies.USD) {
+      return res.status(400).json({ message: 'Prices can be set for NGN, GHS, ZAR and EUR; USD prices are set on the plan' });
+    }
+
+    const { amount, paystackPlanCode } = req.body;
+    if (!Number.isInteger(amount) || amount <= 0) {
+      return res.status(400).json({ message: 'Amount must be a positive whole number in the smallest currency unit' });
+    }
+
+    try {
+      const plan = await storage.getSubscriptionPlan(parseInt(req.params.planId, 10));
+      if (!plan) {
+        return res.status(404).json({ message: 'Subscription plan not found' });
+      }
+
+      const previous = await storage.getPlanPrice(plan.id, currency);
+      const price = await storage.upsertPlanPrice({
+        planId: plan.id,
+        currency,
+        amount,
+        paystackPlanCode: paystackPlanCode || null
+      });
+      await auditLog.record(req, {
+        action: auditActions.PLAN_PRICE_UPDATED,
+        targetType: 'plan',
+        targetId: plan.id,
+        before: previous && { amount: previous.amount, paystackPlanCode: previous.paystackPlanCode },
+        after: { amount: price.amount, paystackPlanCode: price.paystackPlanCode },
+        details: { currency }
+      });
+      res.json(price);
+    } catch (error) {
+      handlePricingError(res, error, 'updating plan price');
+    }
+  });
+}
@@ -0,0 +1,559 @@
+/**
+ * Promotions
+ *
+ * This module handles coupon codes and free trials. It's responsible for:
+ *
+ * 1. Checking a coupon code against its expiry date, redemption limit, plan
+ *    restrictions and the user's own past redemptions
+ * 2. Working out the discounted price in the checkout currency so Stripe and
+ *    Paystack charge the same amount, and mirroring coupons to Stripe when
+ *    they're first used there
+ * 3. Recording each redemption, one per user per coupon, and holding it while
+ *    the payment is in progress so a coupon can't be used more than its limit.
+ *    A user who abandons a Stripe checkout can use the code again straight away.
+ * 4. Giving each user one free trial of the configured plan
+ * 5. Letting admins create coupons and see how often they're used
+ */
+
+import { Request, Response } from 'express';
+import Stripe from 'stripe';
+import { storage } from './storage';
+import { requirePermission } from './permissions';
+import { auditLog } from './audit';
+import { pricingService, formatPrice, PricingError } from './pricing';
+import {
+  Coupon, CouponRedemption, SubscriptionPlan, User, BillingProvider, SupportedCurrency,
+  couponTypes, subscriptionTiers, subscriptionStatuses, billingProviders, insertCouponSchema, permissions, auditActions
+} from '@shared/schema';
+
+const TRIAL_PLAN_SETTING = 'trial_plan';
+const TRIAL_DAYS_SETTING = 'trial_days';
+const DEFAULT_TRIAL_PLAN = subscriptionTiers.PREMIUM;
+const DEFAULT_TRIAL_DAYS = 7;
+
+// Interface for a coupon applied to a plan's price
+export interface CouponQuote {
+  coupon: Coupon;
+  planName: string;
+  price: number; // Plan price before the discount, in the currency's smallest unit
+  discount: number;
+  amountDue: number;
+  currency: string;
+}
+
+// Interface for the trial a user can start
+export interface TrialOffer {
+  available: boolean;
+  planName: string;
+  days: number;
+}
+
+/**
+ * A coupon or trial that can't be used, with the HTTP status to answer it with
+ */
+export class PromotionError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = 'PromotionError';
+  }
+}
+
+class PromotionService {
+  /**
+   * Check that a user can use a coupon on a plan and work out what they'd pay
+   *
+   * @param code The coupon code as the user typed it
+   * @param user The user checking out
+   * @param plan The plan they're buying
+   * @param currency The currency they're paying in
+   * @returns The discount and the amount left to pay
+   */
+  async quote(code: string, user: User, plan: SubscriptionPlan, currency: SupportedCurrency): Promise<CouponQuote> {
+    const coupon = await this.findUsableCoupon(code);
+
+    const planNames = this.getPlanNames(coupon);
+    if (planNames && !planNames.includes(plan.name)) {
+      throw new PromotionError(`This code can't be used with the ${plan.name} plan`);
+    }
+    if (plan.price <= 0) {
+      throw new PromotionError("Coupons can't be used with free plans");
+    }
+    if (coupon.type === couponTypes.FIXED && coupon.currency !== currency) {
+      throw new PromotionError(`This code can only be used when paying in ${coupon.currency}`);
+    }
+    // A use held by a Stripe checkout the user abandoned moves to their next checkout
+    const redemption = await storage.getUserCouponRedemption(coupon.id, user.id);
+    if (redemption && !this.isUnpaidStripeHold(redemption)) {
+      throw new PromotionError("You've already used this code");
+    }
+
+    const { amount: price } = await pricingService.getPlanPrice(plan, currency);
+    const discount = this.getDiscount(coupon, price);
+    return {
+      coupon,
+      planName: plan.name,
+      price,
+      discount,
+      amountDue: price - discount,
+      currency
+    };
+  }
+
+  /**
+   * Describe what a coupon takes off, e.g. "20% off" or "₦5,000.00 off"
+   */
+  describeCoupon(coupon: Coupon): string {
+    const amount = coupon.type === couponTypes.PERCENT
+      ? `${coupon.amount}%`
+      : formatPrice(coupon.amount, coupon.currency);
+    const planNames = this.getPlanNames(coupon);
+    return `${amount} off the first payment${planNames ? ` for ${planNames.join(', ')}` : ''}`;
+  }
+
+  /**
+   * Record that a user used a coupon. Redeem before charging so two checkouts
+   * can't both take the last use, and release the redemption if the charge fails.
+   * A use held by one of the user's unpaid Stripe checkouts moves to this one.
+   *
+   * @param quote The quote the user was charged from
+   * @param user The user redeeming the coupon
+   * @param provider The provider collecting the payment
+   * @param reference The payment reference, if it's known yet
+   */
+  async redeem(quote: CouponQuote, user: User, provider: BillingProvider, reference?: string): Promise<CouponRedemption> {
+    const held = await storage.getUserCouponRedemption(quote.coupon.id, user.id);
+    if (held && this.isUnpaidStripeHold(held)) {
+      await this.releaseRedemption(held);
+      console.log(`User ${user.id} started a new checkout, releasing coupon redemption ${held.id} held for ${held.reference}`);
+    }
+
+    const redemption = await storage.createCouponRedemption({
+      couponId: quote.coupon.id,
+      userId: user.id,
+      planName: quote.planName,
+      provider,
+      discountAmount: quote.discount,
+      currency: quote.currency,
+      reference: reference ?? null
+    });
+    if (!redemption) {
+      throw new PromotionError('This code is no longer available');
+    }
+
+    console.log(`User ${user.id} redeemed coupon ${quote.coupon.code} for ${quote.discount} off ${quote.planName}`);
+    return redemption;
+  }
+
+  /**
+   * Give back a redemption whose payment didn't go through
+   */
+  async releaseRedemption(redemption: CouponRedemption): Promise<void> {
+    await storage.deleteCouponRedemption(redemption.id);
+  }
+
+  /**
+   * Give back the redemption held for a Stripe checkout or subscription that
+   * expired without being paid
+   *
+   * @param reference The checkout session or subscription ID the redemption was held for
+   */
+  async releaseStripeRedemption(reference: string): Promise<void> {
+    const redemption = await storage.getCouponRedemptionByReference(billingProviders.STRIPE, reference);
+    if (redemption) {
+      await this.releaseRedemption(redemption);
+      console.log(`[STRIPE] Released coupon redemption ${redemption.id} held for ${reference}`);
+    }
+  }
+
+  /**
+   * Confirm the coupon Stripe applied to a subscription's first invoice. Checkouts
+   * hold the redemption when they start; ones started before that are recorded
+   * now. Stripe has already given the discount, so this only logs when the code
+   * can't be counted.
+   *
+   * @param code The coupon code from the subscription metadata
+   * @param user The user who paid
+   * @param planName The plan they paid for
+   * @param discount The discount on the invoice
+   * @param currency The invoice currency
+   * @param invoiceId The Stripe invoice ID
+   */
+  async recordStripeRedemption(code: string, user: User, planName: string, discount: number, currency: string, invoiceId: string): Promise<void> {
+    const coupon = await storage.getCouponByCode(code);
+    if (!coupon) {
+      console.error(`[STRIPE] Coupon ${code} on invoice ${invoiceId} not found`);
+      return;
+    }
+
+    // Point the held redemption at the invoice, so the checkout expiring can't release it
+    const held = await storage.getUserCouponRedemption(coupon.id, user.id);
+    if (held?.provider === billingProviders.STRIPE) {
+      await storage.updateCouponRedemptionReference(held.id, invoiceId);
+      return;
+    }
+
+    const redemption = await storage.createCouponRedemption({
+      couponId: coupon.id,
+      userId: user.id,
+      planName,
+      provider: billingProviders.STRIPE,
+      discountAmount: discount,
+      currency: currency.toUpperCase(),
+      reference: invoiceId
+    });
+    if (!redemption) {
+      console.log(`[STRIPE] Coupon ${code} on invoice ${invoiceId} was already redeemed by user ${user.id} or is used up`);
+    }
+  }
+
+  /**
+   * Get the ID of the matching Stripe coupon, creating it the first time the code
+   * is used with Stripe. Stripe coupons apply once, like Paystack discounts.
+   */
+  async getStripeCouponId(stripe: Stripe, coupon: Coupon): Promise<string> {
+    if (coupon.stripeCouponId) {
+      return coupon.stripeCouponId;
+    }
+
+    const stripeCoupon = await stripe.coupons.create({
+      name: coupon.code,
+      duration: 'once',
+      ...(coupon.type === couponTypes.PERCENT
+        ? { percent_off: coupon.amount }
+        : { amount_off: coupon.amount, currency: coupon.currency.toLowerCase() }),
+      redeem_by: coupon.expiresAt ? Math.floor(coupon.expiresAt.getTime() / 1000) : undefined,
+      metadata: { couponId: coupon.id.toString() }
+    });
+
+    await storage.updateCoupon(coupon.id, { stripeCouponId: stripeCoupon.id });
+    return stripeCoupon.id;
+  }
+
+  /**
+   * Get the trial plan and length from the app settings, and whether the user can
+   * still start it
+   */
+  async getTrialOffer(user: User): Promise<TrialOffer> {
+    const { planName, days } = await this.getTrialSettings();
+    return {
+      available: days > 0 && !user.trialUsedAt && user.subscription === subscriptionTiers.FREE,
+      planName,
+      days
+    };
+  }
+
+  /**
+   * Get the plan trials are on and how many days they last. Zero days turns
+   * trials off.
+   */
+  async getTrialSettings(): Promise<{ planName: string; days: number }> {
+    const planSetting = await storage.getAppSetting(TRIAL_PLAN_SETTING);
+    const daysSetting = await storage.getAppSetting(TRIAL_DAYS_SETTING);
+    const days = daysSetting?.value ? parseInt(daysSetting.value, 10) : DEFAULT_TRIAL_DAYS;
+    return {
+      planName: planSetting?.value || DEFAULT_TRIAL_PLAN,
+      days: isNaN(days) || days < 0 ? 0 : days
+    };
+  }
+
+  /**
+   * Change the trial plan and length for users who haven't had a trial yet
+   */
+  async updateTrialSettings(planName: string, days: number): Promise<void> {
+    const plan = await storage.getSubscriptionPlanByName(planName);
+    if (!plan || plan.archivedAt || plan.price <= 0) {
+      throw new PromotionError('Trials must be on a paid plan');
+    }
+    if (!Number.isInteger(days) || days < 0 || days > 90) {
+      throw new PromotionError('Trial length must be between 0 and 90 days');
+    }
+
+    await storage.setAppSetting(TRIAL_PLAN_SETTING, plan.name, 'Plan new users can try for free');
+    await storage.setAppSetting(TRIAL_DAYS_SETTING, days.toString(), 'Length of the free trial in days, 0 to turn trials off');
+  }
+
+  /**
+   * Move a free user onto the trial plan until the trial ends. The subscription
+   * scheduler moves them back to free once it has.
+   *
+   * @param user The user starting their trial
+   * @returns The user on the trial plan
+   */
+  async startTrial(user: User): Promise<User> {
+    const offer = await this.getTrialOffer(user);
+    if (user.trialUsedAt) {
+      throw new PromotionError("You've already had a free trial");
+    }
+    if (!offer.available) {
+      throw new PromotionError('Free trials are only available on the free plan');
+    }
+
+    const plan = await storage.getSubscriptionPlanByName(offer.planName);
+    if (!plan || plan.archivedAt) {
+      throw new PromotionError('Trial plan not found', 404);
+    }
+
+    const endsAt = new Date(Date.now() + offer.days * 24 * 60 * 60 * 1000);
+    const trialUser = await storage.startTrial(user.id, plan, endsAt);
+    if (!trialUser) {
+      throw new PromotionError("You've already had a free trial");
+    }
+
+    console.log(`User ${user.id} started a ${offer.days}-day ${plan.name} trial ending ${endsAt.toISOString()}`);
+    return trialUser;
+  }
+
+  /**
+   * Get every coupon with how often it's been used and how much it's taken off
+   */
+  async getCouponStats() {
+    const [allCoupons, totals] = await Promise.all([
+      storage.getAllCoupons(),
+      storage.getCouponDiscountTotals()
+    ]);
+
+    return allCoupons.map(coupon => ({
+      ...coupon,
+      summary: this.describeCoupon(coupon),
+      discounts: totals
+        .filter(total => total.couponId === coupon.id)
+        .map(({ currency, discount }) => ({ currency, discount }))
+    }));
+  }
+
+  // Paid Stripe redemptions point at their invoice, held ones at the checkout or subscription
+  private isUnpaidStripeHold(redemption: CouponRedemption): boolean {
+    return redemption.provider === billingProviders.STRIPE && !redemption.reference?.startsWith('in_');
+  }
+
+  private async findUsableCoupon(code: string): Promise<Coupon> {
+    const coupon = await storage.getCouponByCode(code);
+    if (!coupon || !coupon.active) {
+      throw new PromotionError('Invalid coupon code', 404);
+    }
+    if (coupon.expiresAt && coupon.expiresAt.getTime() <= Date.now()) {
+      throw new PromotionError('This code has expired');
+    }
+    if (coupon.maxRedemptions !== null && coupon.timesRedeemed >= coupon.maxRedemptions) {
+      throw new PromotionError('This code is no longer available');
+    }
+    return coupon;
+  }
+
+  private getPlanNames(coupon: Coupon): string[] | null {
+    const planNames = coupon.planNames?.split(',').map(name => name.trim()).filter(Boolean);
+    return planNames && planNames.length > 0 ? planNames : null;
+  }
+
+  private getDiscount(coupon: Coupon, price: number): number {
+    const discount = coupon.type === couponTypes.PERCENT
+      ? Math.round(price * coupon.amount / 100)
+      : coupon.amount;
+    return Math.min(discount, price);
+  }
+}
+
+// Export singleton instance
+export const promotionService = new PromotionService();
+
+/**
+ * Answer a failed promotion request, passing coupon and trial errors on to the user
+ */
+function handlePromotionError(res: Response, error: any, action: string) {
+  if (error instanceof PromotionError || error instanceof PricingError) {
+    return res.status(error.status).json({ message: error.message });
+  }
+  console.error(`Error ${action}:`, error);
+  res.status(500).json({ message: `Error ${action}` });
+}
+
+export function setupPromotionRoutes(app: any) {
+  // Check a coupon code, and what it takes off a plan when one is given
+  app.post('/api/promotions/validate', async (req: Request, res: Response) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: 'Not authenticated' });
+    }
+
+    const { code, planName, currency } = req.body;
+    if (!code) {
+      return res.status(400).json({ message: 'Coupon code is required' });
+    }
+
+    try {
+      if (!planName) {
+        const coupon = await storage.getCouponByCode(code);
+        if (!coupon || !coupon.active || (coupon.expiresAt && coupon.expiresAt.getTime() <= Date.now())) {
+          return res.status(404).json({ message: 'Invalid coupon code' });
+        }
+        return res.json({ code: coupon.code, summary: promotionService.describeCoupon(coupon) });
+      }
+
+      const plan = await storage.getSubscriptionPlanByName(planName);
+      if (!plan) {
+        return res.status(404).json({ message: 'Subscription plan not found' });
+      }
+
+      const quote = await promotionService.quote(code, req.user, plan, pricingService.resolveCurrency(req, currency));
+      res.json({
+        code: quote.coupon.code,
+        summary: promotionService.describeCoupon(quote.coupon),
+        planName: quote.planName,
+        price: quote.price,
+        discount: quote.discount,
+        amountDue: quote.amountDue,
+        currency: quote.currency
+      });
+    } catch (error) {
+      handlePromotionError(res, error, 'validating coupon');
+    }
+  });
+
+  // Get the free trial the current user can start
+  app.get('/api/promotions/trial', async (req: Request, res: Response) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: 'Not authenticated' });
+    }
+
+    try {
+      res.json(await promotionService.getTrialOffer(req.user));
+    } catch (error) {
+      handlePromotionError(res, error, 'fetching trial');
+    }
+  });
+
+  // Start the current user's free trial
+  app.post('/api/promotions/trial', async (req: Request, res: Response) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: 'Not authenticated' });
+    }
+
+    try {
+      const user = await promotionService.startTrial(req.user);
+      res.json({
+        success: true,
+        subscription: user.subscription,
+        status: subscriptionStatuses.TRIALING,
+        expiryDate: user.subscriptionExpiryDate
+      });
+    } catch (error) {
+      handlePromotionError(res, error, 'starting trial');
+    }
+  });
+
+  // Get the trial plan and length
+  app.get('/api/admin/promotions/trial', requirePermission(permissions.PROMOTIONS_MANAGE), async (req: Request, res: Response) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: 'Not authenticated' });
+    }
+
+    try {
+      res.json(await promotionService.getTrialSettings());
+    } catch (error) {
+      handlePromotionError(res, error, 'fetching trial settings');
+    }
+  });
+
+  // Change the trial plan and length
+  app.put('/api/admin/promotions/trial', requirePermission(permissions.PROMOTIONS_MANAGE), async (req: Request, res: Response) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: 'Not authenticated' });
+    }
+
+    const { planName, days } = req.body;
+    if (typeof planName !== 'string' || typeof days !== 'number') {
+      return res.status(400).json({ message: 'Plan name and days are required' });
+    }
+
+    try {
+      const before = await promotionService.getTrialSettings();
+      await promotionService.updateTrialSettings(planName, days);
+      const after = await promotionService.getTrialSettings();
+      await auditLog.record(req, {
+        action: auditActions.TRIAL_UPDATED,
+        targetType: 'promotion',
+        targetId: 'trial',
+        before,
+        after
+      });
+      res.json(after);
+    } catch (error) {
+      handlePromotionError(res, error, 'updating trial settings');
+    }
+  });
+
+  // Get every coupon with its redemption stats
+  app.get('/api/admin/coupons', requirePermission(permissions.PROMOTIONS_MANAGE), async (req: Request, res: Response) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: 'Not authenticated' });
+    }
+
+    try {
+      res.json(await promotionService.getCouponStats());
+    } catch (error) {
+      handlePromotionError(res, error, 'fetching coupons');
+    }
+  });
+
+  // Create a coupon
+  app.post('/api/admin/coupons', requirePermission(permissions.PROMOTIONS_MANAGE), async (req: Request, res: Response) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: 'Not authenticated' });
+    }
+
+    const parsed = insertCouponSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({
+        message: 'Invalid coupon details',
+        errors: parsed.error.errors
+      });
+    }
+
+    try {
+      if (await storage.getCouponByCode(parsed.data.code)) {
+        return res.status(409).json({ message: 'A coupon with this code already exists' });
+      }
+
+      const coupon = await storage.createCoupon({ ...parsed.data, createdBy: req.user.id });
+      await auditLog.record(req, {
+        action: auditActions.COUPON_CREATED,
+        targetType: 'coupon',
+        targetId: coupon.id,
+        after: coupon
+      });
+      res.status(201).json(coupon);
+    } catch (error) {
+      handlePromotionError(res, error, 'creating coupon');
+    }
+  });
+
+  // Turn a coupon on or off
+  app.patch('/api/admin/coupons/:id', requirePermission(permissions.PROMOTIONS_MANAGE), async (req: Request, res: Response) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: 'Not authenticated' });
+    }
+
+    const { active } = req.body;
+    if (typeof active !== 'boolean') {
+      return res.status(400).json({ message: 'Active must be true or false' });
+    }
+
+    try {
+      const previous = await storage.getCoupon(parseInt(req.params.id, 10));
+      const coupon = await storage.updateCoupon(parseInt(req.params.id, 10), { active });
+      if (!coupon) {
+        return res.status(404).json({ message: 'Coupon not found' });
+      }
+      await auditLog.record(req, {
+        action: auditActions.COUPON_UPDATED,
+        targetType: 'coupon',
+        targetId: coupon.id,
+        before: previous,
+        after: coupon,
+        details: { code: coupon.code }
+      });
+      res.json(coupon);
+    } catch (error) {
+      handlePromotionError(res, error, 'updating coupon');
+    }
+  });
+}
@@ -11,6 +11,8 @@ import path from 'path';
 import { promisify } from 'util';
 import { VpnSession } from '@shared/schema';
 import { storage } from './storage';
+import { wireguardService } from './wireguard';
+import { usageMeteringService } from './usage-metering';
 
 const execAsync = promisify(exec);
 
@@ -28,6 +30,7 @@ interface ProxyConfig {
 // Interface for active proxy connections
 interface ProxyConnection {
   userId: number;
+  deviceId: number;
   sessionId: number;
   config: ProxyConfig;
   process?: any;  // Process handle
@@ -40,13 +43,15 @@ interface ProxyConnection {
     download: number;
     lastUpdated: Date;
   };
+  wgConfig?: string; // Rendered wg-quick client config (WireGuard only)
+  serverPeerEntry?: string; // [Peer] block added to the server interface (WireGuard only)
 }
 
 /**
  * Service to handle real VPN tunneling through proxies
  */
 class ProxyVpnService {
-  private activeProxies: Map<number, ProxyConnection> = new Map(); // userId -> connection
+  private activeProxies: Map<number, ProxyConnection> = new Map(); // deviceId -> connection
   private proxyConfigPath = path.join(process.cwd(), 'proxy-configs');
   private proxyServers: any[] = [
     {
@@ -263,13 +268,23 @@ class ProxyVpnService {
 
   /**
    * Start a new proxy connection for a user session
+   *
+   * @param session The VPN session to connect
+   * @param userIp The user's source IP address
+   * @param leasedIp The tunnel address leased from the server's pool (not needed for
+   *                 WireGuard, which uses the address pinned to the user's peer)
    */
-  async startProxyConnection(session: VpnSession, userIp: string): Promise<any> {
+  async startProxyConnection(session: VpnSession, userIp: string, leasedIp?: string): Promise<any> {
     try {
-      console.log(`Starting proxy connection for user ${session.userId}`);
+      const deviceId = session.deviceId;
+      if (!deviceId) {
+        throw new Error(`Session ${session.id} is not bound to a device`);
+      }
+      
+      console.log(`Starting proxy connection for user ${session.userId} on device ${deviceId}`);
       
-      // Close any existing proxy for this user
-      await this.stopProxyConnection(session.userId);
+      // Close any existing proxy for this device
+      await this.stopProxyConnection(deviceId);
       
       // Get proxy server info from database server ID
       const server = await storage.getServerById(session.serverId);
@@ -285,15 +300,13 @@ class ProxyVpnService {
       // Use a port between 10000-19999 based on the session ID to avoid conflicts
       const tunnelPort = 10000 + (session.id % 10000);
       
-      // Generate a virtual IP for this connection (consistent for the same session)
-      const octet1 = 10;
-      const octet2 = Math.floor((session.id * 13) % 255);
-      const octet3 = Math.floor((session.id * 17) % 255);
-      const octet4 = Math.floor((session.id * 23) % 255);
-      const tunnelIp = `${octet1}.${octet2}.${octet3}.${octet4}`;
+      // Tunnel address comes from the IP pool; WireGuard overrides it with the peer address below
+      let tunnelIp = leasedIp || '';
 
       let proxyConfig: ProxyConfig;
       let connectionDetails: any = {};
+      let wgConfig: string | undefined;
+      let serverPeerEntry: string | undefined;
       
       // Handle different VPN protocols
       if (session.protocol === 'wireguard') {
@@ -307,48 +320,34 @@ class ProxyVpnService {
         };
         
         // Create WireGuard config directory
-        const wgConfigDir = path.join(this.proxyConfigPath, `wg-${session.userId}`);
+        const wgConfigDir = path.join(this.proxyConfigPath, `wg-${deviceId}`);
         if (!fs.existsSync(wgConfigDir)) {
           fs.mkdirSync(wgConfigDir, { recursive: true });
         }
         
-        // Generate WireGuard keys if they don't exist
-        const privateKeyPath = path.join(wgConfigDir, 'privatekey');
-        const publicKeyPath = path.join(wgConfigDir, 'publickey');
-        
-        if (!fs.existsSync(privateKeyPath) || !fs.existsSync(publicKeyPath)) {
-          await execAsync(`wg genkey | tee ${privateKeyPath} | wg pubkey > ${publicKeyPath}`);
-        }
-        
-        // Read the keys
-        const privateKey = fs.readFileSync(privateKeyPath, 'utf8').trim();
-        const publicKey = fs.readFileSync(publicKeyPath, 'utf8').trim();
+        // Provision (or reuse) a real Curve25519 peer for this device on the selected server
+        const { peer, server: wgServer } = await wireguardService.provisionPeer(session.userId, session.serverId, deviceId);
+        proxyConfig.host = wgServer.ip;
+        proxyConfig.port = wgServer.wgPort || 51820;
+        tunnelIp = peer.tunnelIp;
         
-        // Create WireGuard configuration
-        const clientIP = `192.168.6.${session.id % 250 + 2}/24`; // Ensure client IPs are unique
-        const wgConfig = `[Interface]
-Address = ${clientIP}
-PrivateKey = ${privateKey}
-DNS = 1.1.1.1, 8.8.8.8
-
-[Peer]
-PublicKey = ${publicKey}
-AllowedIPs = 0.0.0.0/0, ::/0
-Endpoint = ${proxyServer.host}:51820
-PersistentKeepalive = 25
-`;
+        wgConfig = wireguardService.buildClientConfig(peer, wgServer);
         const wgConfPath = path.join(wgConfigDir, 'wg0.conf');
-        fs.writeFileSync(wgConfPath, wgConfig);
+        fs.writeFileSync(wgConfPath, wgConfig, { mode: 0o600 });
         
         // Add extra details for the client
         connectionDetails = {
           protocol: 'wireguard',
           encryption: session.encryption,
-          publicKey,
-          clientIP,
-          endpoint: `${proxyServer.host}:51820`,
+          publicKey: peer.publicKey,
+          serverPublicKey: wgServer.wgPublicKey,
+          clientIP: `${peer.tunnelIp}/32`,
+          endpoint: `${proxyConfig.host}:${proxyConfig.port}`,
           configPath: wgConfPath
         };
+        
+        // Register the peer on the server side interface
+        serverPeerEntry = wireguardService.buildServerPeerEntry(peer);
       } 
       else if (session.protocol === 'openvpn_udp' || session.protocol === 'openvpn_tcp') {
         // OpenVPN implementation
@@ -364,7 +363,7 @@ PersistentKeepalive = 25
         };
         
         // Create OpenVPN config directory
-        const ovpnConfigDir = path.join(this.proxyConfigPath, `ovpn-${session.userId}`);
+        const ovpnConfigDir = path.join(this.proxyConfigPath, `ovpn-${deviceId}`);
         if (!fs.existsSync(ovpnConfigDir)) {
           fs.mkdirSync(ovpnConfigDir, { recursive: true });
         }
@@ -410,7 +409,7 @@ verb 3
         };
         
         // Create Shadowsocks config directory
-        const ssConfigDir = path.join(this.proxyConfigPath, `ss-${session.userId}`);
+        const ssConfigDir = path.join(this.proxyConfigPath, `ss-${deviceId}`);
         if (!fs.existsSync(ssConfigDir)) {
           fs.mkdirSync(ssConfigDir, { recursive: true });
         }
@@ -477,9 +476,14 @@ verb 3
         };
       }
       
+      if (!tunnelIp) {
+        throw new Error(`No tunnel address leased for session ${session.id}`);
+      }
+      
       // Create a connection entry
       const connection: ProxyConnection = {
         userId: session.userId,
+        deviceId,
         sessionId: session.id,
         config: proxyConfig,
         tunnelPort,
@@ -490,14 +494,27 @@ verb 3
           upload: 0,
           download: 0,
           lastUpdated: new Date()
-        }
+        },
+        wgConfig,
+        serverPeerEntry
       };
       
       // Start the actual proxy process based on the protocol
       await this.startProxyProcess(connection);
       
       // Store the connection
-      this.activeProxies.set(session.userId, connection);
+      this.activeProxies.set(deviceId, connection);
+      
+      // Meter forwarded protocols on the local port, tunnels on their address
+      const usesForwarder = proxyConfig.type !== 'wireguard' && proxyConfig.type !== 'openvpn';
+      await usageMeteringService.startMetering({
+        sessionId: session.id,
+        userId: session.userId,
+        deviceId,
+        serverId: session.serverId,
+        tunnelIp,
+        tunnelPort: usesForwarder ? tunnelPort : undefined
+      });
       
       console.log(`${proxyConfig.protocol} connection established for user ${session.userId} on port ${tunnelPort}`);
       
@@ -518,28 +535,28 @@ verb 3
   }
 
   /**
-   * Stop a proxy connection for a user
+   * Stop a proxy connection for a device
    */
-  async stopProxyConnection(userId: number): Promise<boolean> {
+  async stopProxyConnection(deviceId: number): Promise<boolean> {
     try {
-      const connection = this.activeProxies.get(userId);
+      const connection = this.activeProxies.get(deviceId);
       if (!connection) {
         return false; // No connection to stop
       }
       
-      console.log(`Stopping VPN/proxy connection for user ${userId}`);
+      console.log(`Stopping VPN/proxy connection for device ${deviceId}`);
       
       // Handle different VPN protocol types
       if (connection.config.type === 'wireguard') {
         // Shutdown WireGuard interface
-        const wgConfigDir = path.join(this.proxyConfigPath, `wg-${userId}`);
+        const wgConfigDir = path.join(this.proxyConfigPath, `wg-${deviceId}`);
         const wgConfPath = path.join(wgConfigDir, 'wg0.conf');
         
         try {
           await execAsync(`wg-quick down ${wgConfPath}`);
-          console.log(`WireGuard interface down for user ${userId}`);
+          console.log(`WireGuard interface down for device ${deviceId}`);
         } catch (error) {
-          console.error(`Error shutting down WireGuard interface for user ${userId}:`, error);
+          console.error(`Error shutting down WireGuard interface for device ${deviceId}:`, error);
         }
       } 
       else if (connection.config.type === 'openvpn') {
@@ -553,9 +570,9 @@ verb 3
               await execAsync(`kill ${pid}`);
             }
           }
-          console.log(`OpenVPN shutdown for user ${userId}`);
+          console.log(`OpenVPN shutdown for device ${deviceId}`);
         } catch (error) {
-          console.error(`Error shutting down OpenVPN for user ${userId}:`, error);
+          console.error(`Error shutting down OpenVPN for device ${deviceId}:`, error);
         }
       } 
       else if (connection.config.type === 'shadowsocks') {
@@ -568,9 +585,9 @@ verb 3
               await execAsync(`kill ${pid}`);
             }
           }
-          console.log(`Shadowsocks shutdown for user ${userId}`);
+          console.log(`Shadowsocks shutdown for device ${deviceId}`);
         } catch (error) {
-          console.error(`Error shutting down Shadowsocks for user ${userId}:`, error);
+          console.error(`Error shutting down Shadowsocks for device ${deviceId}:`, error);
         }
       }
       
@@ -579,17 +596,17 @@ verb 3
         try {
           connection.process.kill('SIGTERM');
         } catch (killError) {
-          console.error(`Error killing proxy process for user ${userId}:`, killError);
+          console.error(`Error killing proxy process for device ${deviceId}:`, killError);
         }
       }
       
       // Clean up any standard config files
-      const configPath = path.join(this.proxyConfigPath, `proxy-${userId}.conf`);
+      const configPath = path.join(this.proxyConfigPath, `proxy-${deviceId}.conf`);
       if (fs.existsSync(configPath)) {
         try {
           fs.unlinkSync(configPath);
         } catch (unlinkError) {
-          console.error(`Error removing proxy config file for user ${userId}:`, unlinkError);
+          console.error(`Error removing proxy config file for device ${deviceId}:`, unlinkError);
         }
       }
       
@@ -608,21 +625,28 @@ verb 3
         // It's ok if this fails
       }
       
+      // Record the final traffic totals for the session
+      try {
+        await usageMeteringService.stopMetering(connection.sessionId);
+      } catch (error) {
+        console.error(`Error recording usage for session ${connection.sessionId}:`, error);
+      }
+      
       // Remove from active connections
-      this.activeProxies.delete(userId);
+      this.activeProxies.delete(deviceId);
       
       return true;
     } catch (error: any) {
-      console.error(`Error stopping proxy connection for user ${userId}:`, error);
+      console.error(`Error stopping proxy connection for device ${deviceId}:`, error);
       return false;
     }
   }
 
   /**
-   * Get connection details for a user
+   * Get connection details for a device
    */
-  getConnectionDetails(userId: number): any {
-    const connection = this.activeProxies.get(userId);
+  getConnectionDetails(deviceId: number): any {
+    const connection = this.activeProxies.get(deviceId);
     if (!connection) {
       return null;
     }
@@ -643,7 +667,7 @@ verb 3
   }
 
   /**
-   * Get connection status and metrics for a user
+   * Get connection status and metrics for a device
    */
   // Helper method to get a simulated country for a server host
   private getSimulatedCountryForServer(host: string): string {
@@ -700,8 +724,8 @@ verb 3
     }
   }
   
-  getConnectionStatus(userId: number): any {
-    const connection = this.activeProxies.get(userId);
+  getConnectionStatus(deviceId: number): any {
+    const connection = this.activeProxies.get(deviceId);
     if (!connection) {
       return {
         tunnelActive: false,
@@ -717,8 +741,12 @@ verb 3
     const now = new Date();
     const uptime = now.getTime() - connection.startTime.getTime();
     
-    // Measure traffic passing through the tunnel
-    this.updateTrafficStats(userId);
+    // Read the traffic measured by the usage meter
+    const traffic = usageMeteringService.getSessionTraffic(connection.sessionId);
+    if (traffic.upload !== connection.dataTransferred.upload || traffic.download !== connection.dataTransferred.download) {
+      connection.dataTransferred = { ...traffic, lastUpdated: now };
+      connection.lastActive = now;
+    }
     
     // For simulated VPN tunnels in Replit environment, we want to show a more complete
     // representation of what the connection would look like in a real environment
@@ -762,12 +790,12 @@ verb 3
     try {
       const config = connection.config;
       const tunnelPort = connection.tunnelPort;
-      const configPath = path.join(this.proxyConfigPath, `proxy-${connection.userId}.conf`);
+      const configPath = path.join(this.proxyConfigPath, `proxy-${connection.deviceId}.conf`);
       
       // Different setup based on VPN protocol type
       if (config.type === 'wireguard') {
         // Start WireGuard connection (simulation in Replit environment)
-        const wgConfigDir = path.join(this.proxyConfigPath, `wg-${connection.userId}`);
+        const wgConfigDir = path.join(this.proxyConfigPath, `wg-${connection.deviceId}`);
         const wgConfPath = path.join(wgConfigDir, 'wg0.conf');
         
         // Ensure config directory exists
@@ -775,53 +803,30 @@ verb 3
           fs.mkdirSync(wgConfigDir, { recursive: true });
         }
         
-        console.log(`Starting WireGuard VPN simulation for user ${connection.userId}`);
+        console.log(`Starting WireGuard VPN simulation for device ${connection.deviceId}`);
         
         // In Replit environment, we can't actually bring up a WireGuard interface
         // because we lack the necessary permissions. Instead, we'll simulate the VPN
         // connection process to demonstrate the application flow.
         
         try {
-          // Generate WireGuard keys if they don't exist (this should work in Replit)
-          if (!fs.existsSync(path.join(wgConfigDir, 'privatekey')) || 
-              !fs.existsSync(path.join(wgConfigDir, 'publickey'))) {
-            
-            // Simulate key generation since we might not have WireGuard tools
-            console.log(`[SIMULATED] Generating WireGuard keys for user ${connection.userId}`);
-            
-            // Write simulated keys
-            const simulatedPrivateKey = Buffer.from(Array(32).fill(0).map(() => Math.floor(Math.random() * 256))).toString('base64');
-            const simulatedPublicKey = Buffer.from(Array(32).fill(0).map(() => Math.floor(Math.random() * 256))).toString('base64');
-            
-            fs.writeFileSync(path.join(wgConfigDir, 'privatekey'), simulatedPrivateKey);
-            fs.writeFileSync(path.join(wgConfigDir, 'publickey'), simulatedPublicKey);
+          // The client config is rendered from the provisioned peer in startProxyConnection;
+          // rewrite it here so monitoring restarts recover a deleted config file
+          if (!connection.wgConfig) {
+            throw new Error(`No WireGuard config provisioned for device ${connection.deviceId}`);
           }
-          
-          // Create a simulated WireGuard configuration
-          const privateKey = fs.readFileSync(path.join(wgConfigDir, 'privatekey'), 'utf8').trim();
-          const publicKey = fs.readFileSync(path.join(wgConfigDir, 'publickey'), 'utf8').trim();
-          
-          const clientIP = `192.168.6.${connection.userId % 250 + 2}/24`;
-          const wgConfig = `[Interface]
-Address = ${clientIP}
-PrivateKey = ${privateKey}
-DNS = 1.1.1.1, 8.8.8.8
-
-[Peer]
-PublicKey = ${publicKey}
-AllowedIPs = 0.0.0.0/0, ::/0
-Endpoint = ${config.host}:51820
-PersistentKeepalive = 25
-`;
-          
-          // Write the configuration
-          fs.writeFileSync(wgConfPath, wgConfig);
+          fs.writeFileSync(wgConfPath, connection.wgConfig, { mode: 0o600 });
           
           console.log(`[SIMULATED] WireGuard configuration written to ${wgConfPath}`);
         } catch (configError) {
           console.error(`Error creating WireGuard configuration: ${configError}`);
         }
         
+        // Simulate adding the peer to the server interface
+        if (connection.serverPeerEntry) {
+          console.log(`[SIMULATED] Running: wg set wg0 on ${config.host} with peer:\n${connection.serverPeerEntry}`);
+        }
+        
         // Simulate starting WireGuard
         console.log(`[SIMULATED] Running: wg-quick up ${wgConfPath}`);
         
@@ -840,7 +845,7 @@ PersistentKeepalive = 25
         // Wait for simulated interface to come up
         await new Promise(resolve => setTimeout(resolve, 1000));
         
-        console.log(`[SIMULATED] WireGuard interface wg0 is now up for user ${connection.userId}`);
+        console.log(`[SIMULATED] WireGuard interface wg0 is now up for device ${connection.deviceId}`);
         
         // Set up additional security and routing for VPN connection (simulation)
         await this.setupVpnRouting('wg0', connection.userId);
@@ -858,11 +863,11 @@ PersistentKeepalive = 25
           // Continue even if socat fails
         }
         
-        console.log(`WireGuard VPN simulation successfully started for user ${connection.userId}`);
+        console.log(`WireGuard VPN simulation successfully started for device ${connection.deviceId}`);
       } 
       else if (config.type === 'openvpn') {
         // Start OpenVPN connection (simulation in Replit environment)
-        const ovpnConfigDir = path.join(this.proxyConfigPath, `ovpn-${connection.userId}`);
+        const ovpnConfigDir = path.join(this.proxyConfigPath, `ovpn-${connection.deviceId}`);
         const ovpnConfPath = path.join(ovpnConfigDir, 'client.ovpn');
         
         // Ensure config directory exists
@@ -870,7 +875,7 @@ PersistentKeepalive = 25
           fs.mkdirSync(ovpnConfigDir, { recursive: true });
         }
         
-        console.log(`Starting OpenVPN simulation for user ${connection.userId}`);
+        console.log(`Starting OpenVPN simulation for device ${connection.deviceId}`);
         
         // In Replit environment, we can't actually bring up an OpenVPN interface
         // because we lack the necessary permissions. Instead, we'll simulate the VPN
@@ -922,7 +927,7 @@ verb 3
           // Wait for simulated interface to come up
           await new Promise(resolve => setTimeout(resolve, 1000));
           
-          console.log(`[SIMULATED] OpenVPN interface tun0 is now up for user ${connection.userId}`);
+          console.log(`[SIMULATED] OpenVPN interface tun0 is now up for device ${connection.deviceId}`);
           
           // Set up additional security and routing for VPN connection (simulation)
           await this.setupVpnRouting('tun0', connection.userId);
@@ -944,11 +949,11 @@ verb 3
           throw error;
         }
         
-        console.log(`OpenVPN simulation successfully started for user ${connection.userId}`);
+        console.log(`OpenVPN simulation successfully started for device ${connection.deviceId}`);
       }
       else if (config.type === 'shadowsocks') {
         // Start Shadowsocks connection (simulation in Replit environment)
-        const ssConfigDir = path.join(this.proxyConfigPath, `ss-${connection.userId}`);
+        const ssConfigDir = path.join(this.proxyConfigPath, `ss-${connection.deviceId}`);
         const ssConfPath = path.join(ssConfigDir, 'config.json');
         
         // Ensure config directory exists
@@ -956,7 +961,7 @@ verb 3
           fs.mkdirSync(ssConfigDir, { recursive: true });
         }
         
-        console.log(`Starting Shadowsocks simulation for user ${connection.userId}`);
+        console.log(`Starting Shadowsocks simulation for device ${connection.deviceId}`);
         
         try {
           // Create a simulated Shadowsocks configuration
@@ -1011,13 +1016,13 @@ verb 3
             // Continue even if socat fails
           }
           
-          console.log(`[SIMULATED] Shadowsocks is now running for user ${connection.userId} on port ${tunnelPort}`);
+          console.log(`[SIMULATED] Shadowsocks is now running for device ${connection.deviceId} on port ${tunnelPort}`);
         } catch (error) {
           console.error(`Error setting up Shadowsocks simulation: ${error}`);
           throw error;
         }
         
-        console.log(`Shadowsocks simulation successfully started for user ${connection.userId}`);
+        console.log(`Shadowsocks simulation successfully started for device ${connection.deviceId}`);
       }
       else if (config.type === 'socks') {
         // For SOCKS proxy, we'll use socat to create a tunnel
@@ -1081,50 +1086,19 @@ verb 3
         }
       }
       
-      console.log(`Connection successfully established for protocol ${config.protocol} for user ${connection.userId}`);
+      console.log(`Connection successfully established for protocol ${config.protocol} for device ${connection.deviceId}`);
     } catch (error: any) {
       console.error(`Error starting VPN/proxy process:`, error);
       throw new Error(`Failed to start connection process: ${error.message}`);
     }
   }
 
-  /**
-   * Update traffic statistics for a connection
-   */
-  private updateTrafficStats(userId: number): void {
-    const connection = this.activeProxies.get(userId);
-    if (!connection) {
-      return;
-    }
-    
-    const now = new Date();
-    const timeSinceLastUpdate = now.getTime() - connection.dataTransferred.lastUpdated.getTime();
-    
-    // Only update if at least a second has passed
-    if (timeSinceLastUpdate < 1000) {
-      return;
-    }
-    
-    // In a real implementation, we would measure actual traffic
-    // For now, simulate some reasonable traffic based on time
-    const timeFactor = timeSinceLastUpdate / 1000;
-    
-    // Base transfer rates: 10-30 KB/s upload, 30-100 KB/s download
-    const uploadRate = 10 + Math.random() * 20; // KB/s
-    const downloadRate = 30 + Math.random() * 70; // KB/s
-    
-    connection.dataTransferred.upload += Math.floor(uploadRate * timeFactor * 1024);
-    connection.dataTransferred.download += Math.floor(downloadRate * timeFactor * 1024);
-    connection.dataTransferred.lastUpdated = now;
-    connection.lastActive = now;
-  }
-
   /**
    * Verify a proxy connection is working properly
    */
-  async verifyProxyConnection(userId: number): Promise<boolean> {
+  async verifyProxyConnection(deviceId: number): Promise<boolean> {
     try {
-      const connection = this.activeProxies.get(userId);
+      const connection = this.activeProxies.get(deviceId);
       if (!connection) {
         return false;
       }
@@ -1134,12 +1108,12 @@ verb 3
         // In Replit environment, we can't actually verify the WireGuard interface
         // because we can't create it. Instead, we'll simulate this verification.
         
-        console.log(`[SIMULATED] Verifying WireGuard interface for user ${userId}`);
+        console.log(`[SIMULATED] Verifying WireGuard interface for device ${deviceId}`);
         
         try {
           // For simulated responses, we'll try to do basic connection checks
           // that we know should work in Replit
-          const wgDir = path.join(this.proxyConfigPath, `wg-${userId}`);
+          const wgDir = path.join(this.proxyConfigPath, `wg-${deviceId}`);
           
           // Simply check if our config file exists as a basic verification
           if (fs.existsSync(path.join(wgDir, 'wg0.conf'))) {
@@ -1148,15 +1122,15 @@ verb 3
             
             // Instead, we'll simulate a successful verification
             const simulatedIP = `${10 + Math.floor(Math.random() * 245)}.${Math.floor(Math.random() * 255)}.${Math.floor(Math.random() * 255)}.${Math.floor(Math.random() * 254) + 1}`;
-            console.log(`[SIMULATED] WireGuard connection for user ${userId} verified with IP: ${simulatedIP}`);
+            console.log(`[SIMULATED] WireGuard connection for device ${deviceId} verified with IP: ${simulatedIP}`);
             
             return true;
           } else {
-            console.log(`[SIMULATED] WireGuard interface is not active for user ${userId}`);
+            console.log(`[SIMULATED] WireGuard interface is not active for device ${deviceId}`);
             return false;
           }
         } catch (error) {
-          console.error(`Error in simulated verification of WireGuard for user ${userId}:`, error);
+          console.error(`Error in simulated verification of WireGuard for device ${deviceId}:`, error);
           return false;
         }
       } 
@@ -1164,12 +1138,12 @@ verb 3
         // In Replit environment, we can't actually verify the OpenVPN interface
         // because we can't create it. Instead, we'll simulate this verification.
         
-        console.log(`[SIMULATED] Verifying OpenVPN interface for user ${userId}`);
+        console.log(`[SIMULATED] Verifying OpenVPN interface for device ${deviceId}`);
         
         try {
           // For simulated responses, we'll try to do basic connection checks
           // that we know should work in Replit
-          const ovpnDir = path.join(this.proxyConfigPath, `ovpn-${userId}`);
+          const ovpnDir = path.join(this.proxyConfigPath, `ovpn-${deviceId}`);
           
           // Simply check if our config file exists as a basic verification
           if (fs.existsSync(path.join(ovpnDir, 'client.ovpn'))) {
@@ -1178,15 +1152,15 @@ verb 3
             
             // Instead, we'll simulate a successful verification
             const simulatedIP = `${10 + Math.floor(Math.random() * 245)}.${Math.floor(Math.random() * 255)}.${Math.floor(Math.random() * 255)}.${Math.floor(Math.random() * 254) + 1}`;
-            console.log(`[SIMULATED] OpenVPN connection for user ${userId} verified with IP: ${simulatedIP}`);
+            console.log(`[SIMULATED] OpenVPN connection for device ${deviceId} verified with IP: ${simulatedIP}`);
             
             return true;
           } else {
-            console.log(`[SIMULATED] OpenVPN interface is not active for user ${userId}`);
+            console.log(`[SIMULATED] OpenVPN interface is not active for device ${deviceId}`);
             return false;
           }
         } catch (error) {
-          console.error(`Error in simulated verification of OpenVPN for user ${userId}:`, error);
+          console.error(`Error in simulated verification of OpenVPN for device ${deviceId}:`, error);
           return false;
         }
       }
@@ -1196,7 +1170,7 @@ verb 3
         const { stdout } = await execAsync(checkCommand);
         
         if (!stdout.includes(`TCP *:${connection.tunnelPort}`)) {
-          console.log(`Proxy for user ${userId} is no longer listening on port ${connection.tunnelPort}`);
+          console.log(`Proxy for device ${deviceId} is no longer listening on port ${connection.tunnelPort}`);
           return false;
         }
         
@@ -1206,16 +1180,16 @@ verb 3
         
         // If we get a valid IP back, the proxy is working
         if (ipResult && ipResult.match(/^\d+\.\d+\.\d+\.\d+$/)) {
-          console.log(`Proxy for user ${userId} successfully verified with IP: ${ipResult}`);
+          console.log(`Proxy for device ${deviceId} successfully verified with IP: ${ipResult}`);
           return true;
         }
         
-        console.log(`Proxy verification failed for user ${userId}, invalid response: ${ipResult}`);
+        console.log(`Proxy verification failed for device ${deviceId}, invalid response: ${ipResult}`);
       }
       
       return false;
     } catch (error: any) {
-      console.error(`Error verifying connection for user ${userId}:`, error);
+      console.error(`Error verifying connection for device ${deviceId}:`, error);
       return false;
     }
   }
@@ -1238,22 +1212,22 @@ verb 3
     // Convert entries iterator to array to avoid downlevelIteration issues
     const connections = Array.from(this.activeProxies.entries());
     
-    for (const [userId, connection] of connections) {
+    for (const [deviceId, connection] of connections) {
       try {
         // Different monitoring based on protocol type
         if (connection.config.type === 'wireguard') {
           // In Replit environment, we can't check for actual WireGuard interfaces,
           // so we'll perform simulated monitoring
           
-          console.log(`[SIMULATED] Monitoring WireGuard connection for user ${userId}`);
+          console.log(`[SIMULATED] Monitoring WireGuard connection for device ${deviceId}`);
           
           try {
             // Check for our config files as a basic verification
-            const wgDir = path.join(this.proxyConfigPath, `wg-${userId}`);
+            const wgDir = path.join(this.proxyConfigPath, `wg-${deviceId}`);
             const wgConfPath = path.join(wgDir, 'wg0.conf');
             
             if (!fs.existsSync(wgConfPath)) {
-              console.log(`[SIMULATED] WireGuard configuration for user ${userId} is missing, attempting to recreate`);
+              console.log(`[SIMULATED] WireGuard configuration for device ${deviceId} is missing, attempting to recreate`);
               
               // Remove the process reference
               connection.process = null;
@@ -1262,10 +1236,10 @@ verb 3
               await this.startProxyProcess(connection);
             } else {
               // In a real environment with WireGuard, we would check the actual interface
-              console.log(`[SIMULATED] WireGuard connection for user ${userId} appears healthy`);
+              console.log(`[SIMULATED] WireGuard connection for device ${deviceId} appears healthy`);
             }
           } catch (error) {
-            console.error(`Error in simulated monitoring of WireGuard for user ${userId}:`, error);
+            console.error(`Error in simulated monitoring of WireGuard for device ${deviceId}:`, error);
             
             // Attempt to restart
             connection.process = null;
@@ -1276,15 +1250,15 @@ verb 3
           // In Replit environment, we can't check for actual OpenVPN interfaces,
           // so we'll perform simulated monitoring
           
-          console.log(`[SIMULATED] Monitoring OpenVPN connection for user ${userId}`);
+          console.log(`[SIMULATED] Monitoring OpenVPN connection for device ${deviceId}`);
           
           try {
             // Check for our config files as a basic verification
-            const ovpnDir = path.join(this.proxyConfigPath, `ovpn-${userId}`);
+            const ovpnDir = path.join(this.proxyConfigPath, `ovpn-${deviceId}`);
             const ovpnConfPath = path.join(ovpnDir, 'client.ovpn');
             
             if (!fs.existsSync(ovpnConfPath)) {
-              console.log(`[SIMULATED] OpenVPN configuration for user ${userId} is missing, attempting to recreate`);
+              console.log(`[SIMULATED] OpenVPN configuration for device ${deviceId} is missing, attempting to recreate`);
               
               // Remove the process reference
               connection.process = null;
@@ -1293,10 +1267,10 @@ verb 3
               await this.startProxyProcess(connection);
             } else {
               // In a real environment with OpenVPN, we would check the actual interface
-              console.log(`[SIMULATED] OpenVPN connection for user ${userId} appears healthy`);
+              console.log(`[SIMULATED] OpenVPN connection for device ${deviceId} appears healthy`);
             }
           } catch (error) {
-            console.error(`Error in simulated monitoring of OpenVPN for user ${userId}:`, error);
+            console.error(`Error in simulated monitoring of OpenVPN for device ${deviceId}:`, error);
             
             // Attempt to restart
             connection.process = null;
@@ -1307,15 +1281,15 @@ verb 3
           // In Replit environment, we can't check for actual Shadowsocks processes,
           // so we'll perform simulated monitoring
           
-          console.log(`[SIMULATED] Monitoring Shadowsocks connection for user ${userId}`);
+          console.log(`[SIMULATED] Monitoring Shadowsocks connection for device ${deviceId}`);
           
           try {
             // Check for our config files as a basic verification
-            const ssDir = path.join(this.proxyConfigPath, `ss-${userId}`);
+            const ssDir = path.join(this.proxyConfigPath, `ss-${deviceId}`);
             const ssConfPath = path.join(ssDir, 'config.json');
             
             if (!fs.existsSync(ssConfPath)) {
-              console.log(`[SIMULATED] Shadowsocks configuration for user ${userId} is missing, attempting to recreate`);
+              console.log(`[SIMULATED] Shadowsocks configuration for device ${deviceId} is missing, attempting to recreate`);
               
               // Remove the process reference
               connection.process = null;
@@ -1324,10 +1298,10 @@ verb 3
               await this.startProxyProcess(connection);
             } else {
               // In a real environment with Shadowsocks, we would check the actual process
-              console.log(`[SIMULATED] Shadowsocks connection for user ${userId} appears healthy`);
+              console.log(`[SIMULATED] Shadowsocks connection for device ${deviceId} appears healthy`);
             }
           } catch (error) {
-            console.error(`Error in simulated monitoring of Shadowsocks for user ${userId}:`, error);
+            console.error(`Error in simulated monitoring of Shadowsocks for device ${deviceId}:`, error);
             
             // Attempt to restart
             connection.process = null;
@@ -1340,7 +1314,7 @@ verb 3
           const { stdout } = await execAsync(checkCommand);
           
           if (!stdout.includes(`TCP *:${connection.tunnelPort}`)) {
-            console.log(`Proxy for user ${userId} is down, attempting to restart`);
+            console.log(`Proxy for device ${deviceId} is down, attempting to restart`);
             
             // Remove the process reference
             connection.process = null;
@@ -1350,14 +1324,14 @@ verb 3
           }
         }
       } catch (error: any) {
-        console.error(`Error monitoring connection for user ${userId}:`, error);
+        console.error(`Error monitoring connection for device ${deviceId}:`, error);
         
         // In case of any error, try to reconnect
         try {
           connection.process = null;
           await this.startProxyProcess(connection);
         } catch (reconnectError) {
-          console.error(`Failed to reconnect user ${userId}:`, reconnectError);
+          console.error(`Failed to reconnect device ${deviceId}:`, reconnectError);
         }
       }
     }
@@ -1371,11 +1345,11 @@ verb 3
     const inactivityThreshold = 30 * 60 * 1000; // 30 minutes
     
     // Convert entries iterator to array to avoid downlevelIteration issues
-    Array.from(this.activeProxies.entries()).forEach(([userId, connection]) => {
+    Array.from(this.activeProxies.entries()).forEach(([deviceId, connection]) => {
       const inactiveTime = now.getTime() - connection.lastActive.getTime();
       if (inactiveTime > inactivityThreshold) {
-        console.log(`Cleaning up inactive proxy for user ${userId}`);
-        this.stopProxyConnection(userId);
+        console.log(`Cleaning up inactive proxy for device ${deviceId}`);
+        this.stopProxyConnection(deviceId);
       }
     });
   }
@@ -0,0 +1,269 @@
+/**
+ * Quota Enforcement Service
+ *
+ * This service makes sure users stay within the data and daily time limits of
+ * their subscription plan while they are connected. It's responsible for:
+ *
+ * 1. Refusing new sessions for users who are already over a limit
+ * 2. Periodically checking active tunnels, including traffic not yet flushed to
+ *    the usage buckets, and closing them once a limit is crossed
+ * 3. Emitting warning events at 80% and 95% of each limit for the dashboard
+ */
+
+import { EventEmitter } from 'events';
+import { storage } from './storage';
+import { vpnTunnelService } from './vpn-tunnel';
+import { connectionStatistics } from './scaling';
+import { usageMeteringService } from './usage-metering';
+
+const ENFORCEMENT_INTERVAL = 60 * 1000; // 1 minute
+const WARNING_THRESHOLDS = [80, 95];
+const WARNING_RETENTION = 2 * 24 * 60 * 60 * 1000; // Long enough to cover a daily limit period
+
+export type QuotaResource = 'data' | 'time';
+
+// Interface for a user's current usage against their limits
+export interface QuotaUsage {
+  dataUsed: number; // bytes today, including unflushed tunnel traffic
+  dataLimit: number; // bytes, negative for unlimited
+  timeUsedToday: number; // minutes
+  timeLimit: number; // minutes, negative for unlimited
+  dataPercent: number | null; // null when unlimited
+  timePercent: number | null; // null when unlimited
+  isDataLimitReached: boolean;
+  isTimeLimitReached: boolean;
+}
+
+// Interface for a warning shown to the user on the dashboard
+export interface QuotaWarning {
+  id: string;
+  userId: number;
+  resource: QuotaResource;
+  threshold: number; // 80, 95, or 100 once the session has been terminated
+  used: number;
+  limit: number;
+  percent: number;
+  createdAt: Date;
+}
+
+// Interface for the result of a connection check
+interface ConnectCheck {
+  allowed: boolean;
+  reason?: 'DATA_LIMIT_REACHED' | 'TIME_LIMIT_REACHED';
+  usage: QuotaUsage;
+}
+
+class QuotaEnforcementService extends EventEmitter {
+  private warnings: Map<number, QuotaWarning[]> = new Map(); // userId -> warnings
+  private isEnforcing = false;
+
+  constructor() {
+    super();
+    // Check active tunnels every minute
+    setInterval(() => {
+      this.enforceActiveSessions().catch(error => {
+        console.error('Error enforcing quotas on active sessions:', error);
+      });
+    }, ENFORCEMENT_INTERVAL);
+  }
+
+  /**
+   * Get a user's usage against their limits, counting traffic on tunnels that are
+   * still open
+   *
+   * @param userId The user to check
+   * @returns The usage and whether each limit has been reached
+   */
+  async getUsage(userId: number): Promise<QuotaUsage> {
+    const limits = await storage.checkUserLimits(userId);
+
+    // Usage buckets are flushed periodically, so add traffic the meter hasn't written yet
+    const dataUsed = limits.dataUsed + usageMeteringService.getPendingBytes(userId);
+
+    return {
+      dataUsed,
+      dataLimit: limits.dataLimit,
+      timeUsedToday: limits.timeUsedToday,
+      timeLimit: limits.timeLimit,
+      dataPercent: this.getPercent(dataUsed, limits.dataLimit),
+      timePercent: this.getPercent(limits.timeUsedToday, limits.timeLimit),
+      isDataLimitReached: limits.dataLimit >= 0 && dataUsed >= limits.dataLimit,
+      isTimeLimitReached: limits.timeLimit >= 0 && limits.timeUsedToday >= limits.timeLimit
+    };
+  }
+
+  /**
+   * Check whether a user may start a new session
+   *
+   * @param userId The user trying to connect
+   * @returns Whether the connection is allowed and, if not, which limit was reached
+   */
+  async checkCanConnect(userId: number): Promise<ConnectCheck> {
+    const usage = await this.getUsage(userId);
+
+    if (usage.isDataLimitReached) {
+      return { allowed: false, reason: 'DATA_LIMIT_REACHED', usage };
+    }
+    if (usage.isTimeLimitReached) {
+      return { allowed: false, reason: 'TIME_LIMIT_REACHED', usage };
+    }
+    return { allowed: true, usage };
+  }
+
+  /**
+   * Get the warnings issued to a user in the current limit period
+   *
+   * @param userId The user to get warnings for
+   * @returns The warnings, newest first
+   */
+  getWarnings(userId: number): QuotaWarning[] {
+    return (this.warnings.get(userId) || [])
+      .filter(warning => warning.id.endsWith(this.getPeriodKey()))
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
+  /**
+   * Check every user with an open tunnel, warn those approaching a limit and
+   * disconnect those who have crossed one
+   */
+  async enforceActiveSessions(): Promise<void> {
+    // Skip this run if the previous one is still going
+    if (this.isEnforcing) {
+      return;
+    }
+    this.isEnforcing = true;
+
+    try {
+      const userIds = Array.from(new Set(vpnTunnelService.getActiveTunnels().map(tunnel => tunnel.userId)));
+
+      for (const userId of userIds) {
+        try {
+          const usage = await this.getUsage(userId);
+
+          this.checkThresholds(userId, 'data', usage.dataUsed, usage.dataLimit, usage.dataPercent);
+          this.checkThresholds(userId, 'time', usage.timeUsedToday, usage.timeLimit, usage.timePercent);
+
+          if (usage.isDataLimitReached || usage.isTimeLimitReached) {
+            const resource: QuotaResource = usage.isDataLimitReached ? 'data' : 'time';
+            await this.terminateUserSessions(userId, resource, usage);
+          }
+        } catch (error) {
+          console.error(`Error enforcing quota for user ${userId}:`, error);
+        }
+      }
+
+      this.pruneWarnings();
+    } finally {
+      this.isEnforcing = false;
+    }
+  }
+
+  /**
+   * Close all of a user's tunnels and end their sessions after a limit is crossed
+   *
+   * @param userId The user to disconnect
+   * @param resource The limit that was crossed
+   * @param usage The usage that triggered the disconnect
+   */
+  private async terminateUserSessions(userId: number, resource: QuotaResource, usage: QuotaUsage): Promise<void> {
+    const tunnels = vpnTunnelService.getUserTunnels(userId);
+    console.log(`User ${userId} reached their ${resource} limit, closing ${tunnels.length} tunnel(s)`);
+
+    for (const tunnel of tunnels) {
+      await storage.endDeviceSession(userId, tunnel.deviceId);
+      vpnTunnelService.closeTunnel(tunnel.deviceId);
+      connectionStatistics.recordDisconnection(tunnel.serverId);
+    }
+
+    const used = resource === 'data' ? usage.dataUsed : usage.timeUsedToday;
+    const limit = resource === 'data' ? usage.dataLimit : usage.timeLimit;
+    const warning = this.addWarning(userId, resource, 100, used, limit);
+    if (warning) {
+      this.emit('terminated', warning);
+    }
+  }
+
+  /**
+   * Emit a warning for each threshold a user has passed that they haven't been
+   * warned about in the current period
+   */
+  private checkThresholds(userId: number, resource: QuotaResource, used: number, limit: number, percent: number | null): void {
+    if (percent === null) {
+      return;
+    }
+
+    WARNING_THRESHOLDS.forEach(threshold => {
+      if (percent >= threshold && percent < 100) {
+        const warning = this.addWarning(userId, resource, threshold, used, limit);
+        if (warning) {
+          console.log(`User ${userId} has used ${percent}% of their ${resource} limit`);
+          this.emit('warning', warning);
+        }
+      }
+    });
+  }
+
+  /**
+   * Record a warning unless the user already has one for this threshold and period
+   *
+   * @returns The new warning, or null if it was already issued
+   */
+  private addWarning(userId: number, resource: QuotaResource, threshold: number, used: number, limit: number): QuotaWarning | null {
+    const id = `${resource}-${threshold}-${this.getPeriodKey()}`;
+    const userWarnings = this.warnings.get(userId) || [];
+    if (userWarnings.some(warning => warning.id === id)) {
+      return null;
+    }
+
+    const warning: QuotaWarning = {
+      id,
+      userId,
+      resource,
+      threshold,
+      used,
+      limit,
+      percent: this.getPercent(used, limit) ?? 0,
+      createdAt: new Date()
+    };
+    userWarnings.push(warning);
+    this.warnings.set(userId, userWarnings);
+    return warning;
+  }
+
+  /**
+   * Drop warnings old enough that they can't belong to a current period
+   */
+  private pruneWarnings(): void {
+    const cutoff = Date.now() - WARNING_RETENTION;
+    Array.from(this.warnings.entries()).forEach(([userId, userWarnings]) => {
+      const recent = userWarnings.filter(warning => warning.createdAt.getTime() > cutoff);
+      if (recent.length > 0) {
+        this.warnings.set(userId, recent);
+      } else {
+        this.warnings.delete(userId);
+      }
+    });
+  }
+
+  /**
+   * Key for the day a limit resets on
+   */
+  private getPeriodKey(): string {
+    // Local dates, to line up with how storage.checkUserLimits counts usage
+    const now = new Date();
+    return `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}-${String(now.getDate()).padStart(2, '0')}`;
+  }
+
+  private getPercent(used: number, limit: number): number | null {
+    if (limit < 0) {
+      return null;
+    }
+    if (limit === 0) {
+      return 100;
+    }
+    return Math.round((used / limit) * 1000) / 10;
+  }
+}
+
+// Export singleton instance
+export const quotaEnforcementService = new QuotaEnforcementService();
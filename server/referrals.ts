@@ -0,0 +1,319 @@
+/**
+ * Referral Program
+ *
+ * This module rewards users for bringing in paying customers. It's responsible for:
+ *
+ * 1. Giving each user a referral code to share
+ * 2. Recording signups made with a code, and turning away self-referrals from
+ *    the same email domain or network
+ * 3. Crediting both users once the referred user first pays for a plan
+ * 4. Spending account credit on the next Stripe or Paystack renewal
+ */
+
+import { Request, Response } from 'express';
+import Stripe from 'stripe';
+import crypto from 'crypto';
+import { storage } from './storage';
+import { paystackService } from './paystack-service';
+import { billingLedger } from './billing';
+import { pricingService, formatPrice } from './pricing';
+import {
+  Referral, User, SubscriptionPlan, SupportedCurrency, referralStatuses, billingProviders, supportedCurrencies
+} from '@shared/schema';
+
+const CREDIT_PERCENT_SETTING = 'referral_credit_percent';
+const DEFAULT_CREDIT_PERCENT = 20; // Of the first plan's monthly price
+const CODE_LENGTH = 8;
+const CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789'; // No 0/O or 1/I to misread
+
+// Shared mail providers say nothing about who owns an address
+const PUBLIC_EMAIL_DOMAINS = [
+  'gmail.com', 'googlemail.com', 'yahoo.com', 'outlook.com', 'hotmail.com', 'live.com',
+  'icloud.com', 'me.com', 'aol.com', 'proton.me', 'protonmail.com', 'gmx.com', 'mail.com', 'yandex.com'
+];
+
+// Interface for a user's referral overview
+export interface ReferralSummary {
+  code: string;
+  creditBalance: number; // In the credit currency's smallest unit
+  creditCurrency: string;
+  creditPercent: number;
+  referrals: (Pick<Referral, 'id' | 'status' | 'planName' | 'referrerCredit' | 'rewardedAt' | 'createdAt'> & { username: string })[];
+}
+
+class ReferralService {
+  /**
+   * Get the user's referral code, creating one the first time it's asked for
+   */
+  async getReferralCode(user: User): Promise<string> {
+    if (user.referralCode) {
+      return user.referralCode;
+    }
+
+    for (let attempt = 0; attempt < 5; attempt++) {
+      try {
+        const updated = await storage.setReferralCode(user.id, this.generateCode());
+        if (updated?.referralCode) {
+          return updated.referralCode;
+        }
+
+        // Another request set the code first
+        const current = await storage.getUser(user.id);
+        if (current?.referralCode) {
+          return current.referralCode;
+        }
+      } catch (error: any) {
+        // Try another code if this one is taken
+        if (error.code !== '23505') {
+          throw error;
+        }
+      }
+    }
+    throw new Error(`Couldn't create a referral code for user ${user.id}`);
+  }
+
+  /**
+   * Record that a new user signed up with someone's referral code. Unknown codes
+   * are ignored so a bad link never blocks registration.
+   *
+   * @param user The user who just registered
+   * @param referralCode The code they signed up with
+   * @param ip The address they registered from
+   */
+  async recordSignup(user: User, referralCode: string, ip?: string): Promise<Referral | undefined> {
+    const referrer = await storage.getUserByReferralCode(referralCode.trim());
+    if (!referrer || referrer.id === user.id) {
+      console.log(`[REFERRAL] User ${user.id} signed up with unknown code ${referralCode}`);
+      return undefined;
+    }
+
+    const rejectionReason = this.getSelfReferralReason(referrer, user, ip);
+    const referral = await storage.createReferral({
+      referrerId: referrer.id,
+      referredUserId: user.id,
+      status: rejectionReason ? referralStatuses.REJECTED : referralStatuses.PENDING,
+      rejectionReason
+    });
+
+    console.log(`[REFERRAL] User ${user.id} was referred by user ${referrer.id}${rejectionReason ? ` (rejected: ${rejectionReason})` : ''}`);
+    return referral;
+  }
+
+  /**
+   * Credit both users when a referred user first pays for a plan. Later payments
+   * find the referral already rewarded and do nothing.
+   *
+   * @param userId The user who paid
+   * @param planName The plan they paid for
+   */
+  async rewardConversion(userId: number, planName: string): Promise<void> {
+    const referral = await storage.getReferralByReferredUser(userId);
+    if (!referral || referral.status !== referralStatuses.PENDING) {
+      return;
+    }
+
+    const plan = await storage.getSubscriptionPlanByName(planName);
+    const [referrer, referred] = await Promise.all([
+      storage.getUser(referral.referrerId),
+      storage.getUser(referral.referredUserId)
+    ]);
+    if (!plan || plan.price <= 0 || !referrer || !referred) {
+      return;
+    }
+
+    const percent = await this.getCreditPercent();
+    const referrerCredit = await this.getCredit(referrer, plan, percent);
+    const referredCredit = await this.getCredit(referred, plan, percent);
+
+    const rewarded = await storage.rewardReferral(referral, plan.name, referrerCredit, referredCredit);
+    if (rewarded) {
+      console.log(`[REFERRAL] User ${referred.id} converted to ${plan.name}, credited ${formatPrice(referrerCredit.amount, referrerCredit.currency)} to user ${referrer.id} and ${formatPrice(referredCredit.amount, referredCredit.currency)} to user ${referred.id}`);
+    }
+  }
+
+  /**
+   * Take account credit off a Stripe renewal invoice before it's finalized.
+   * The credit moves to the customer's Stripe balance, which Stripe applies to
+   * the invoice when it's charged.
+   *
+   * @param stripe The Stripe client
+   * @param user The subscriber
+   * @param invoice A draft renewal invoice
+   * @returns The amount of credit used
+   */
+  async applyStripeRenewalCredit(stripe: Stripe, user: User, invoice: Stripe.Invoice): Promise<number> {
+    const customerId = typeof invoice.customer === 'string' ? invoice.customer : invoice.customer?.id;
+    if (!customerId) {
+      return 0;
+    }
+
+    const amount = await storage.consumeUserCredit(user.id, invoice.currency.toUpperCase(), invoice.amount_due);
+    if (amount <= 0) {
+      return 0;
+    }
+
+    try {
+      await stripe.customers.createBalanceTransaction(customerId, {
+        amount: -amount,
+        currency: invoice.currency,
+        description: 'Referral credit',
+        metadata: { userId: user.id.toString(), invoiceId: invoice.id as string }
+      });
+    } catch (error) {
+      await storage.addUserCredit(user.id, amount, invoice.currency.toUpperCase());
+      throw error;
+    }
+
+    console.log(`[REFERRAL] Applied ${formatPrice(amount, invoice.currency)} of credit to Stripe invoice ${invoice.id} for user ${user.id}`);
+    return amount;
+  }
+
+  /**
+   * Pay back part of a Paystack renewal from account credit. Paystack charges
+   * renewals itself, so the credit is returned as a refund of the charge.
+   *
+   * @param user The subscriber
+   * @param reference The renewal charge's reference
+   * @param chargeAmount The amount charged
+   * @param currency The currency charged in
+   * @returns The amount of credit used
+   */
+  async applyPaystackRenewalCredit(user: User, reference: string, chargeAmount: number, currency: string): Promise<number> {
+    const payment = await storage.getPaymentByProviderId(billingProviders.PAYSTACK, reference);
+    if (!payment) {
+      return 0;
+    }
+
+    const amount = await storage.consumeUserCredit(user.id, currency.toUpperCase(), chargeAmount);
+    if (amount <= 0) {
+      return 0;
+    }
+
+    const reserved = await billingLedger.reserveRefund(payment, amount);
+    if (!reserved) {
+      await storage.addUserCredit(user.id, amount, currency.toUpperCase());
+      return 0;
+    }
+
+    let providerRefundId: string | null;
+    try {
+      const result = await paystackService.refundTransaction(reference, amount, 'Referral credit');
+      providerRefundId = result.data?.id ? String(result.data.id) : null;
+    } catch (error) {
+      await billingLedger.releaseRefund(payment, amount);
+      await storage.addUserCredit(user.id, amount, currency.toUpperCase());
+      throw error;
+    }
+
+    await billingLedger.recordRefund(reserved, { amount, reason: 'Referral credit', providerRefundId });
+    console.log(`[REFERRAL] Applied ${formatPrice(amount, currency)} of credit to Paystack charge ${reference} for user ${user.id}`);
+    return amount;
+  }
+
+  /**
+   * Get the user's referral code, credit and the people they've referred
+   */
+  async getSummary(user: User): Promise<ReferralSummary> {
+    const [code, referrals, creditPercent] = await Promise.all([
+      this.getReferralCode(user),
+      storage.getReferralsByReferrer(user.id),
+      this.getCreditPercent()
+    ]);
+
+    return {
+      code,
+      creditBalance: user.creditBalance,
+      creditCurrency: user.creditCurrency || pricingService.getUserCurrency(user),
+      creditPercent,
+      referrals: referrals.map(referral => ({
+        id: referral.id,
+        username: referral.username,
+        status: referral.status,
+        planName: referral.planName,
+        referrerCredit: referral.referrerCredit,
+        rewardedAt: referral.rewardedAt,
+        createdAt: referral.createdAt
+      }))
+    };
+  }
+
+  /**
+   * Get the share of the first plan's price each user is credited, from the app
+   * settings
+   */
+  private async getCreditPercent(): Promise<number> {
+    const setting = await storage.getAppSetting(CREDIT_PERCENT_SETTING);
+    const percent = setting?.value ? parseFloat(setting.value) : NaN;
+    return isNaN(percent) || percent < 0 ? DEFAULT_CREDIT_PERCENT : percent;
+  }
+
+  /**
+   * Work out a user's credit in the currency they already hold credit in, or
+   * otherwise the one they're billed in
+   */
+  private async getCredit(user: User, plan: SubscriptionPlan, percent: number): Promise<{ amount: number; currency: string }> {
+    let currency: SupportedCurrency = user.creditBalance > 0 && user.creditCurrency && pricingService.isSupportedCurrency(user.creditCurrency)
+      ? user.creditCurrency
+      : pricingService.getUserCurrency(user);
+
+    let price;
+    try {
+      price = await pricingService.getPlanPrice(plan, currency);
+    } catch (error) {
+      // Plans are always priced in dollars
+      currency = supportedCurrencies.USD;
+      price = await pricingService.getPlanPrice(plan, currency);
+    }
+
+    return { amount: Math.round(price.amount * percent / 100), currency };
+  }
+
+  /**
+   * Explain why a signup looks like someone referring themselves, if it does
+   */
+  private getSelfReferralReason(referrer: User, user: User, ip?: string): string | null {
+    const referrerDomain = referrer.email?.split('@')[1]?.toLowerCase();
+    const userDomain = user.email?.split('@')[1]?.toLowerCase();
+    if (referrerDomain && referrerDomain === userDomain && !PUBLIC_EMAIL_DOMAINS.includes(userDomain)) {
+      return 'Same email domain as the referrer';
+    }
+    if (ip && referrer.signupIp === ip) {
+      return 'Same network as the referrer';
+    }
+    return null;
+  }
+
+  private generateCode(): string {
+    const bytes = crypto.randomBytes(CODE_LENGTH);
+    return Array.from(bytes).map(byte => CODE_ALPHABET[byte % CODE_ALPHABET.length]).join('');
+  }
+}
+
+// Export singleton instance
+export const referralService = new ReferralService();
+
+export function setupReferralRoutes(app: any) {
+  // Get the current user's referral code, credit and referrals
+  app.get('/api/referrals', async (req: Request, res: Response) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: 'Not authenticated' });
+    }
+
+    try {
+      // The session copy of the user can have a stale credit balance
+      const user = await storage.getUser(req.user.id);
+      if (!user) {
+        return res.status(404).json({ message: 'User not found' });
+      }
+
+      const summary = await referralService.getSummary(user);
+      res.json({
+        ...summary,
+        link: `${req.protocol}://${req.get('host')}/auth?ref=${summary.code}`
+      });
+    } catch (error) {
+      console.error('Error fetching referrals:', error);
+      res.status(500).json({ message: 'Error fetching referrals' });
+    }
+  });
+}
@@ -1,19 +1,45 @@
 import type { Express } from "express";
 import { createServer, type Server } from "http";
-import { setupAuth } from "./auth";
+import { setupAuth, toPublicUser } from "./auth";
 import { storage } from "./storage";
 import { db } from "./db";
-import { insertVpnSessionSchema, insertVpnUserSettingsSchema, insertAppSettingSchema, subscriptionTiers, subscriptionPlans, vpnSessions, VpnServer } from "@shared/schema";
+import { insertVpnSessionSchema, insertVpnUserSettingsSchema, insertAppSettingSchema, subscriptionTiers, planChangeTypes, vpnSessions, VpnServer, CouponRedemption, billingProviders, paymentStatuses, subscriptionStatuses, permissions, auditActions } from "@shared/schema";
 import { z } from "zod";
-import { eq, and, isNull } from "drizzle-orm";
+import { eq, and, or, isNull } from "drizzle-orm";
 import Stripe from "stripe";
 import { vpnLoadBalancer, connectionRateLimiter, connectionStatistics } from "./scaling";
 import { verifyFirebaseToken } from "./firebase-auth";
 import { setupKillSwitchRoutes, killSwitchManager } from "./kill-switch";
+import { setupDeviceRoutes, deviceManager } from "./devices";
+import { setupStripeWebhookRoutes } from "./stripe-webhooks";
+import { setupPaystackWebhookRoutes } from "./paystack-webhooks";
+import { setupFlutterwaveWebhookRoutes } from "./flutterwave-webhooks";
+import { setupBillingRoutes, billingLedger } from "./billing";
+import { setupPlanChangeRoutes } from "./plan-changes";
+import { setupPromotionRoutes, promotionService, PromotionError, CouponQuote } from "./promotions";
+import { setupPricingRoutes, pricingService, PricingError, PlanPriceQuote, formatPrice } from "./pricing";
+import { setupOrganizationRoutes } from "./organizations";
+import { setupReferralRoutes } from "./referrals";
+import { setupVoucherRoutes } from "./vouchers";
+import { setupTwoFactorRoutes, requireAdminTwoFactor } from "./two-factor";
+import { setupPermissionRoutes, requirePermission, requireStaff } from "./permissions";
+import { setupAuditRoutes, auditLog } from "./audit";
+import { setupApiTokenRoutes } from "./api-tokens";
+import { setupAccountDataRoutes } from "./account-data";
+import { setupLoginSessionRoutes } from "./login-sessions";
+import { setupEmailRoutes } from "./email";
+import { setupPlanRoutes } from "./plans";
+import {
+  setupPaymentProviderRoutes, paymentProviders, getProviderSubscription, PaymentProvider, PaymentProviderError, VerifiedPayment
+} from "./payment-provider";
+import { quotaEnforcementService } from "./quota-enforcement";
+import { subscriptionExpiryScheduler } from "./subscription-scheduler";
 import { updateSubscriptionPlans } from "./update-subscription-plans";
 import { migrate } from "./migrate";
 import { paystackService } from "./paystack-service";
 import { vpnTunnelService } from "./vpn-tunnel";
+import { wireguardService } from "./wireguard";
+import { ipPoolService } from "./ip-pool";
 import { obfuscationService, OBFUSCATION_METHODS, ANTI_CENSORSHIP_STRATEGIES } from "./obfuscation-service";
 
 // Initialize Stripe if the secret key is available
@@ -36,9 +62,35 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // If valid, it will set req.user based on Firebase auth
   // If not, it will proceed to the next middleware (passport session auth)
   app.use(verifyFirebaseToken);
+
+  // Only staff roles can reach the admin API, and each route checks its own permission too
+  app.use('/api/admin', requireStaff);
+
+  // Keep staff without two-factor out of the admin API while it's required for them
+  app.use('/api/admin', requireAdminTwoFactor);
   
   // Set up kill switch routes for VPN protection
   setupKillSwitchRoutes(app);
+  setupDeviceRoutes(app);
+  setupPaymentProviderRoutes(app, stripe);
+  setupStripeWebhookRoutes(app, stripe);
+  setupPaystackWebhookRoutes(app);
+  setupFlutterwaveWebhookRoutes(app);
+  setupBillingRoutes(app);
+  setupPlanChangeRoutes(app, stripe);
+  setupPromotionRoutes(app);
+  setupPricingRoutes(app);
+  setupOrganizationRoutes(app, stripe);
+  setupReferralRoutes(app);
+  setupVoucherRoutes(app);
+  setupTwoFactorRoutes(app);
+  setupPermissionRoutes(app);
+  setupAuditRoutes(app);
+  setupApiTokenRoutes(app);
+  setupAccountDataRoutes(app);
+  setupLoginSessionRoutes(app);
+  setupEmailRoutes(app);
+  setupPlanRoutes(app, stripe);
   
   // Tunnel status verification endpoint
   app.get("/api/tunnel/status", async (req, res, next) => {
@@ -595,12 +647,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
   
   // Update app setting (admin only)
-  app.post("/api/app-settings/:key", async (req, res) => {
-    // Check if admin
-    if (!req.isAuthenticated() || !req.user.isAdmin) {
-      return res.status(403).json({ message: "Admin privileges required" });
-    }
-    
+  app.post("/api/app-settings/:key", requirePermission(permissions.SETTINGS_MANAGE), async (req, res) => {
     const key = req.params.key;
     const { value } = req.body;
     
@@ -610,11 +657,19 @@ export async function registerRoutes(app: Express): Promise<Server> {
     
     try {
       // Create or update the setting
+      const previous = await storage.getAppSetting(key);
       const updatedSetting = await storage.setAppSetting(key, value);
       
       // Clear cache
       appSettingsCache.delete(key);
       
+      await auditLog.record(req, {
+        action: auditActions.APP_SETTING_UPDATED,
+        targetType: 'app_setting',
+        targetId: key,
+        before: { value: previous?.value ?? null },
+        after: { value: updatedSetting.value }
+      });
       res.json(updatedSetting);
     } catch (error) {
       console.error(`Error updating app setting ${key}:`, error);
@@ -646,7 +701,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
       
       // Get the tunnel details
-      const tunnelDetails = vpnTunnelService.getUserTunnelDetails(req.user.id);
+      const tunnelDetails = session.deviceId ? vpnTunnelService.getDeviceTunnelDetails(session.deviceId) : null;
       if (!tunnelDetails) {
         return res.json({ 
           tunnelActive: false, 
@@ -688,12 +743,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(200).json(null);
       }
       
-      // Generate a virtual IP for the session (consistent for the same session ID)
-      const octet1 = 10; // Use private IP range
-      const octet2 = Math.floor((session.id * 13) % 255);
-      const octet3 = Math.floor((session.id * 17) % 255);
-      const octet4 = Math.floor((session.id * 23) % 255);
-      const virtualIp = `${octet1}.${octet2}.${octet3}.${octet4}`;
+      // Look up the tunnel address leased to this session
+      const virtualIp = await ipPoolService.getSessionAddress(session);
       
       res.json({
         ...session,
@@ -731,20 +782,52 @@ export async function registerRoutes(app: Express): Promise<Server> {
         });
       }
       
-      // End any existing session first
-      await storage.endCurrentSession(userId);
+      // Refuse the connection if the user is already over their data or time limit
+      const quotaCheck = await quotaEnforcementService.checkCanConnect(userId);
+      if (!quotaCheck.allowed) {
+        console.log(`Refusing connection for user ${userId}: ${quotaCheck.reason}`);
+        return res.status(403).json({
+          message: quotaCheck.reason === "DATA_LIMIT_REACHED"
+            ? "You've used all of today's data. Upgrade your plan to keep browsing securely."
+            : "You've reached today's connection time limit. Upgrade your plan for unlimited time.",
+          reason: quotaCheck.reason,
+          usage: quotaCheck.usage
+        });
+      }
       
-      // Make sure we don't have other active sessions using Drizzle ORM
+      // Work out which device is connecting
+      const device = await deviceManager.resolveDevice(userId, req.body.deviceId);
+      if (!device) {
+        return res.status(404).json({ message: "Device not found" });
+      }
+      
+      // Enforce the plan's limit on simultaneously connected devices
+      const deviceLimit = await deviceManager.checkDeviceLimit(req.user, device.id);
+      if (!deviceLimit.allowed) {
+        console.log(`Device limit reached for user ${userId} (${deviceLimit.connectedDevices.length}/${deviceLimit.maxDevices})`);
+        return res.status(403).json({
+          message: `Your plan allows ${deviceLimit.maxDevices} connected device${deviceLimit.maxDevices === 1 ? '' : 's'}. Disconnect another device to connect this one.`,
+          reason: "DEVICE_LIMIT_REACHED",
+          maxDevices: deviceLimit.maxDevices,
+          connectedDevices: deviceLimit.connectedDevices
+        });
+      }
+      
+      // End any existing session on this device first
+      await storage.endDeviceSession(userId, device.id);
+      
+      // Make sure this device doesn't have other active sessions using Drizzle ORM
       try {
         await db.update(vpnSessions)
           .set({ endTime: new Date() })
           .where(
             and(
               eq(vpnSessions.userId, userId),
+              or(eq(vpnSessions.deviceId, device.id), isNull(vpnSessions.deviceId)),
               isNull(vpnSessions.endTime)
             )
           );
-        console.log("Ended all active sessions before creating a new one");
+        console.log(`Ended active sessions on device ${device.id} before creating a new one`);
       } catch (sqlErr) {
         console.error("Error ending active sessions with ORM:", sqlErr);
       }
@@ -752,7 +835,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
       // Validate request body
       const parsedData = insertVpnSessionSchema.parse({
         ...req.body,
-        userId
+        userId,
+        deviceId: device.id
       });
       
       // Get server ID from request
@@ -763,6 +847,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       // Track this connection in the statistics
       connectionStatistics.recordConnection(serverId);
+      await storage.updateDeviceLastSeen(device.id);
       
       // Clear any disconnect flags
       if (req.session) {
@@ -784,6 +869,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       // Return the session with tunnel details
       res.status(201).json({
         ...session,
+        device,
         virtualIp: tunnelResult.tunnelIp,
         tunnelConfig: tunnelResult.config,
         connectionDetails: tunnelResult.connectionDetails
@@ -806,16 +892,30 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       const userId = req.user.id;
       
-      // Force clear on the server side FIRST, then process storage details
+      // Only the requesting device is disconnected; the user's other devices stay online
+      const device = await deviceManager.resolveDevice(userId, req.body.deviceId);
+      if (!device) {
+        return res.status(200).json({
+          success: true,
+          message: "VPN disconnected. Device not found.",
+          disconnected: true
+        });
+      }
+      
+      // Get current session before ending it to retrieve server ID
+      const currentSession = await storage.getDeviceSession(userId, device.id);
+      
+      // Call the storage endDeviceSession to properly end the device's active session
+      const session = await storage.endDeviceSession(userId, device.id);
+      
+      // Force clear any stragglers on the server side
       try {
-        const endTime = new Date();
-        console.log(`Ended all active sessions before creating a new one for user ${userId}`);
-        
         await db.update(vpnSessions)
-          .set({ endTime })
+          .set({ endTime: new Date() })
           .where(
             and(
               eq(vpnSessions.userId, userId),
+              or(eq(vpnSessions.deviceId, device.id), isNull(vpnSessions.deviceId)),
               isNull(vpnSessions.endTime)
             )
           );
@@ -824,12 +924,6 @@ export async function registerRoutes(app: Express): Promise<Server> {
         // Continue anyway since we'll return success
       }
       
-      // Get current session before ending it to retrieve server ID
-      const currentSession = await storage.getCurrentSession(userId);
-      
-      // Call the storage endCurrentSession to properly end any active session
-      const session = await storage.endCurrentSession(userId);
-      
       // Record disconnection in our scaling rate limiter
       connectionRateLimiter.recordDisconnect(userId);
       
@@ -839,8 +933,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
       
       // Close the VPN tunnel if one exists
-      const tunnelClosed = vpnTunnelService.closeTunnel(userId);
-      console.log(`VPN tunnel ${tunnelClosed ? 'closed' : 'not found'} for user ${userId}`);
+      const tunnelClosed = vpnTunnelService.closeTunnel(device.id);
+      console.log(`VPN tunnel ${tunnelClosed ? 'closed' : 'not found'} for user ${userId} on device ${device.id}`);
       
       // Return success even if there was no specific session information
       if (!session && !currentSession) {
@@ -858,11 +952,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       let virtualIp = '0.0.0.0';
       
       if (sessionData) {
-        const octet1 = 10;
-        const octet2 = Math.floor((sessionData.id * 13) % 255);
-        const octet3 = Math.floor((sessionData.id * 17) % 255);
-        const octet4 = Math.floor((sessionData.id * 23) % 255);
-        virtualIp = `${octet1}.${octet2}.${octet3}.${octet4}`;
+        virtualIp = await ipPoolService.getSessionAddress(sessionData) || virtualIp;
       }
       
       // Add explicit response headers to avoid caching the result
@@ -917,12 +1007,31 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Subscription plan endpoints
+  // Live quota usage and the limit warnings issued in the current period
+  app.get("/api/quota", async (req, res, next) => {
+    try {
+      if (!req.isAuthenticated()) return res.status(401).json({ message: "Not authenticated" });
+      
+      const usage = await quotaEnforcementService.getUsage(req.user.id);
+      res.json({
+        usage,
+        warnings: quotaEnforcementService.getWarnings(req.user.id)
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Subscription plan endpoints, priced in the requested or the user's currency
   app.get("/api/subscription-plans", async (req, res, next) => {
     try {
-      const plans = await storage.getAllSubscriptionPlans();
+      const currency = pricingService.resolveCurrency(req, req.query.currency as string | undefined);
+      const plans = await pricingService.getLocalizedPlans(currency);
       res.json(plans);
     } catch (error) {
+      if (error instanceof PricingError) {
+        return res.status(error.status).json({ message: error.message });
+      }
       next(error);
     }
   });
@@ -939,6 +1048,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
       res.json({
         subscription: user.subscription,
         expiryDate: user.subscriptionExpiryDate,
+        status: user.subscriptionStatus,
+        graceEndsAt: await subscriptionExpiryScheduler.getGraceEndDate(user),
+        pendingSubscription: user.pendingSubscription,
+        pendingSubscriptionAt: user.pendingSubscriptionAt,
+        currency: user.currency,
         stripeCustomerId: user.stripeCustomerId,
         stripeSubscriptionId: user.stripeSubscriptionId
       });
@@ -955,7 +1069,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(401).json({ message: "Not authenticated" });
       }
       
-      const { planName, paymentMethod = 'paystack' } = req.body;
+      const { planName, paymentMethod = 'paystack', couponCode, currency: requestedCurrency } = req.body;
       if (!planName) {
         res.setHeader('Content-Type', 'application/json');
         return res.status(400).json({ message: "Plan name is required" });
@@ -963,7 +1077,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       // Find subscription plan details
       const subscriptionPlan = await storage.getSubscriptionPlanByName(planName);
-      if (!subscriptionPlan) {
+      if (!subscriptionPlan || subscriptionPlan.archivedAt) {
         res.setHeader('Content-Type', 'application/json');
         return res.status(404).json({ message: "Subscription plan not found" });
       }
@@ -985,85 +1099,77 @@ export async function registerRoutes(app: Express): Promise<Server> {
         res.setHeader('Content-Type', 'application/json');
         return res.status(400).json({ message: "Email address is required for payment processing" });
       }
-      
-      // Handle different payment methods
-      if (paymentMethod === 'paystack') {
-        // Generate a unique reference for this transaction
-        const reference = paystackService.generateReference();
-        
-        // For Paystack, we redirect to our custom checkout page
+      if (!req.user.emailVerifiedAt) {
         res.setHeader('Content-Type', 'application/json');
-        return res.json({
-          success: true,
-          paymentProvider: 'paystack',
-          reference,
-          authorizationUrl: `/paystack-checkout?plan=${planName}&ref=${reference}`,
-          planName,
-          price: subscriptionPlan.price / 100 // Convert from cents to dollars for display
+        return res.status(403).json({
+          message: "Verify your email address before paying",
+          emailVerificationRequired: true
         });
-      } else if (paymentMethod === 'stripe') {
-        // Default to Stripe
-        // Make sure we have a price ID for the plan
-        if (!subscriptionPlan.stripePriceId) {
-          res.setHeader('Content-Type', 'application/json');
-          return res.status(400).json({ message: "This plan is not available for purchase yet" });
-        }
-        
-        // Create or get the customer
-        let customerId = req.user.stripeCustomerId;
-        if (!customerId && stripe) {
-          const customer = await stripe.customers.create({
-            name: req.user.username,
-            email: req.user.email,
-            metadata: {
-              userId: req.user.id.toString()
-            }
-          });
-          
-          customerId = customer.id;
-          await storage.updateStripeCustomerId(req.user.id, customerId);
+      }
+      
+      // Price the plan in the user's currency and check the coupon before sending
+      // the user to the provider's checkout
+      let provider: PaymentProvider;
+      let price: PlanPriceQuote;
+      let quote: CouponQuote | undefined;
+      let redemption: CouponRedemption | undefined;
+      try {
+        provider = paymentProviders.require(paymentMethod);
+        const currency = pricingService.resolveCurrency(req, requestedCurrency);
+        pricingService.assertProviderSupports(provider.name, currency);
+        price = await pricingService.getPlanPrice(subscriptionPlan, currency);
+        if (couponCode) {
+          quote = await promotionService.quote(couponCode, req.user, subscriptionPlan, currency);
+          // Stripe checkouts hold a use of the coupon until they're paid or expire
+          if (provider.name === billingProviders.STRIPE) {
+            redemption = await promotionService.redeem(quote, req.user, provider.name);
+          }
         }
-        
-        // Set up the checkout session
-        let session;
-        if (stripe) {
-          session = await stripe.checkout.sessions.create({
-            line_items: [
-              {
-                price: subscriptionPlan.stripePriceId,
-                quantity: 1,
-              },
-            ],
-            mode: 'subscription',
-            success_url: `${req.headers.origin || ''}/subscription/success?session_id={CHECKOUT_SESSION_ID}`,
-            cancel_url: `${req.headers.origin || ''}/subscription`,
-            customer: customerId,
-            client_reference_id: req.user.id.toString(),
-            subscription_data: {
-              metadata: {
-                userId: req.user.id.toString(),
-                planName: planName
-              }
-            }
-          });
-        } else {
+      } catch (error) {
+        if (error instanceof PromotionError || error instanceof PricingError || error instanceof PaymentProviderError) {
           res.setHeader('Content-Type', 'application/json');
-          return res.status(500).json({ message: "Stripe payment service is not available" });
+          return res.status(error.status).json({ message: error.message });
         }
-        
-        res.setHeader('Content-Type', 'application/json');
-        return res.json({
-          success: true,
-          paymentProvider: 'stripe',
-          url: session.url,
-          paymentSessionId: session.id,
-          planName
+        throw error;
+      }
+      
+      let checkout;
+      try {
+        checkout = await provider.initializeCheckout({
+          user: req.user,
+          plan: subscriptionPlan,
+          price,
+          coupon: quote,
+          origin: req.headers.origin || ''
         });
-      } else {
-        res.setHeader('Content-Type', 'application/json');
-        return res.status(400).json({ message: "Invalid payment method" });
+      } catch (error) {
+        if (redemption) {
+          await promotionService.releaseRedemption(redemption);
+        }
+        throw error;
+      }
+      if (redemption) {
+        await storage.updateCouponRedemptionReference(redemption.id, checkout.reference);
       }
+      
+      res.setHeader('Content-Type', 'application/json');
+      return res.json({
+        success: true,
+        paymentProvider: checkout.provider,
+        reference: checkout.reference,
+        url: checkout.url,
+        authorizationUrl: checkout.url, // Older clients read the Paystack checkout from here
+        paymentSessionId: checkout.reference,
+        planName,
+        couponCode: quote?.coupon.code,
+        price: (quote ? quote.amountDue : price.amount) / 100, // Convert from the smallest unit for display
+        currency: price.currency
+      });
     } catch (error: any) {
+      if (error instanceof PaymentProviderError || error instanceof PricingError) {
+        res.setHeader('Content-Type', 'application/json');
+        return res.status(error.status).json({ success: false, message: error.message });
+      }
       console.error("Initialize payment error:", error.response?.data || error);
       res.setHeader('Content-Type', 'application/json');
       return res.status(500).json({ 
@@ -1103,24 +1209,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.post("/api/create-subscription", async (req, res, next) => {
     try {
       if (!req.isAuthenticated()) return res.status(401).json({ message: "Not authenticated" });
-      
-      if (!stripe) {
-        return res.status(503).json({ message: "Payment service not available" });
-      }
 
-      const { planName, paymentMethod = 'stripe' } = req.body;
+      const { planName, paymentMethod = 'stripe', couponCode, currency: requestedCurrency } = req.body;
       if (!planName) {
         return res.status(400).json({ message: "Plan name is required" });
       }
-      
-      // Validate payment method
-      if (!['stripe', 'paystack'].includes(paymentMethod)) {
-        return res.status(400).json({ message: "Invalid payment method" });
-      }
 
       // Get the subscription plan
       const plan = await storage.getSubscriptionPlanByName(planName);
-      if (!plan) {
+      if (!plan || plan.archivedAt) {
         return res.status(404).json({ message: "Subscription plan not found" });
       }
 
@@ -1130,21 +1227,6 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (!user.email) {
         return res.status(400).json({ message: "Email is required for subscription" });
       }
-
-      // Create or retrieve Stripe customer
-      let customerId = user.stripeCustomerId;
-      if (!customerId) {
-        const customer = await stripe.customers.create({
-          email: user.email,
-          name: user.username,
-          metadata: {
-            userId: user.id.toString()
-          }
-        });
-        
-        customerId = customer.id;
-        await storage.updateStripeCustomerId(user.id, customerId);
-      }
       
       // Special handling for free plan
       if (plan.name === 'free' || plan.price === 0) {
@@ -1158,125 +1240,86 @@ export async function registerRoutes(app: Express): Promise<Server> {
           plan: plan.name
         });
       }
-      
-      // If there's no Stripe price ID for a paid plan, return error
-      if (!plan.stripePriceId) {
-        return res.status(400).json({ message: "This plan is not available for subscription" });
-      }
-
-      // Handle payment based on selected payment method
-      if (paymentMethod === 'stripe') {
-        // Create subscription with Stripe
-        const subscription = await stripe.subscriptions.create({
-          customer: customerId,
-          items: [{ price: plan.stripePriceId }],
-          payment_behavior: "default_incomplete",
-          expand: ["latest_invoice.payment_intent"],
-        });
 
-        // Update user subscription info
-        await storage.updateStripeSubscriptionId(user.id, subscription.id);
-        
-        // Access expanded fields using type assertions
-        // The type definitions might be different than the actual API response
-        const invoice = subscription.latest_invoice as any;
-        const paymentIntent = invoice?.payment_intent as any;
-        
-        // Return client secret for the payment intent
-        return res.json({
-          subscriptionId: subscription.id,
-          clientSecret: paymentIntent.client_secret,
-          paymentMethod: 'stripe'
-        });
-      } else if (paymentMethod === 'paystack') {
-        // TODO: Implement Paystack integration
-        // This is a placeholder for Paystack implementation
-        // In a real implementation, you would:
-        // 1. Initialize a transaction with Paystack API
-        // 2. Get the authorization URL
-        // 3. Return it to the client for redirection
-        
-        // Create a reference for the transaction
-        const reference = `paystack_${Date.now()}_${user.id}`;
-        
-        // Generate the checkout URL
-        const authorizationUrl = `/paystack-checkout?plan=${plan.name}&user=${user.id}&ref=${reference}&price=${plan.price / 100}`;
-        
-        // Create the response data
-        const paystackData = {
-          reference,
-          paymentMethod: 'paystack',
-          authorizationUrl
-        };
-        
-        // Store the reference in user metadata or a separate table
-        // await storage.storePaystackReference(user.id, reference);
-        
-        return res.json({
-          ...paystackData,
-          message: "Redirecting to Paystack for payment"
+      if (!user.emailVerifiedAt) {
+        return res.status(403).json({
+          message: "Verify your email address before paying",
+          emailVerificationRequired: true
         });
       }
-    } catch (error: any) {
-      console.error("Stripe subscription error:", error);
-      res.status(500).json({ message: "Error creating subscription", error: error.message });
-    }
-  });
 
-  // Update subscription endpoint
-  app.post("/api/update-subscription", async (req, res, next) => {
-    try {
-      if (!req.isAuthenticated()) return res.status(401).json({ message: "Not authenticated" });
-      
-      if (!stripe) {
-        return res.status(503).json({ message: "Payment service not available" });
+      let provider: PaymentProvider;
+      let price: PlanPriceQuote;
+      let quote: CouponQuote | undefined;
+      let redemption: CouponRedemption | undefined;
+      try {
+        provider = paymentProviders.require(paymentMethod);
+        const currency = pricingService.resolveCurrency(req, requestedCurrency);
+        pricingService.assertProviderSupports(provider.name, currency);
+        price = await pricingService.getPlanPrice(plan, currency);
+        if (couponCode) {
+          quote = await promotionService.quote(couponCode, user, plan, currency);
+          // Stripe subscriptions hold a use of the coupon until the first invoice is paid or expires
+          if (provider.name === billingProviders.STRIPE) {
+            redemption = await promotionService.redeem(quote, user, provider.name);
+          }
+        }
+      } catch (error) {
+        if (error instanceof PromotionError || error instanceof PricingError || error instanceof PaymentProviderError) {
+          return res.status(error.status).json({ message: error.message });
+        }
+        throw error;
       }
 
-      const { planName } = req.body;
-      if (!planName) {
-        return res.status(400).json({ message: "Plan name is required" });
+      let subscription;
+      try {
+        subscription = await provider.createSubscription({
+          user,
+          plan,
+          price,
+          coupon: quote,
+          origin: req.headers.origin || ''
+        });
+      } catch (error) {
+        if (redemption) {
+          await promotionService.releaseRedemption(redemption);
+        }
+        throw error;
       }
-
-      const user = req.user;
-      if (!user.stripeSubscriptionId) {
-        return res.status(400).json({ message: "No active subscription found" });
+      if (redemption) {
+        await storage.updateCouponRedemptionReference(redemption.id, subscription.id);
       }
 
-      // Get the subscription plan
-      const plan = await storage.getSubscriptionPlanByName(planName);
-      if (!plan) {
-        return res.status(404).json({ message: "Subscription plan not found" });
+      // Subscriptions that start from a checkout are saved once it's paid for
+      if (subscription.checkoutUrl) {
+        return res.json({
+          reference: subscription.id,
+          paymentMethod: provider.name,
+          authorizationUrl: subscription.checkoutUrl,
+          message: `Redirecting to ${provider.displayName} for payment`
+        });
       }
 
-      // If there's no Stripe price ID, return error
-      if (!plan.stripePriceId) {
-        return res.status(400).json({ message: "This plan is not available for subscription" });
+      if (provider.name === billingProviders.STRIPE) {
+        await storage.updateStripeSubscriptionId(user.id, subscription.id);
+      } else if (provider.name === billingProviders.PAYSTACK) {
+        await storage.updatePaystackCodes(user.id, { subscriptionCode: subscription.id });
+      } else if (provider.name === billingProviders.FLUTTERWAVE) {
+        await storage.updateFlutterwaveSubscriptionId(user.id, subscription.id);
       }
 
-      // Retrieve the subscription
-      const subscription = await stripe.subscriptions.retrieve(user.stripeSubscriptionId);
-
-      // Update the subscription with the new price
-      await stripe.subscriptions.update(subscription.id, {
-        items: [
-          {
-            id: subscription.items.data[0].id,
-            price: plan.stripePriceId,
-          },
-        ],
-      });
-
-      // Update user subscription in the database
-      await storage.updateUserSubscription(user.id, planName);
-
-      res.json({ 
-        success: true,
-        message: "Subscription updated",
-        subscription: planName
+      // Return client secret for the payment intent
+      return res.json({
+        subscriptionId: subscription.id,
+        clientSecret: subscription.clientSecret, // No payment is needed when a coupon covers the first invoice
+        paymentMethod: provider.name
       });
     } catch (error: any) {
-      console.error("Update subscription error:", error);
-      res.status(500).json({ message: "Error updating subscription", error: error.message });
+      if (error instanceof PaymentProviderError || error instanceof PricingError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error("Create subscription error:", error.response?.data || error);
+      res.status(500).json({ message: "Error creating subscription", error: error.message });
     }
   });
 
@@ -1284,27 +1327,31 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.post("/api/cancel-subscription", async (req, res, next) => {
     try {
       if (!req.isAuthenticated()) return res.status(401).json({ message: "Not authenticated" });
-      
-      if (!stripe) {
-        return res.status(503).json({ message: "Payment service not available" });
-      }
 
       const user = req.user;
-      if (!user.stripeSubscriptionId) {
+      const subscription = getProviderSubscription(user);
+      if (!subscription) {
         return res.status(400).json({ message: "No active subscription found" });
       }
 
+      // Paystack's disable webhook moves users to free straight away unless a
+      // downgrade to free is pending, so schedule one for the end of the period
+      if (subscription.provider === billingProviders.PAYSTACK && user.subscriptionExpiryDate) {
+        await storage.setPendingSubscription(user.id, subscriptionTiers.FREE, user.subscriptionExpiryDate);
+      }
+
       // Cancel the subscription at period end
-      await stripe.subscriptions.update(user.stripeSubscriptionId, {
-        cancel_at_period_end: true,
-      });
+      await paymentProviders.require(subscription.provider).cancelSubscription(subscription.id, { atPeriodEnd: true });
 
       res.json({ 
         success: true,
         message: "Subscription will be canceled at the end of the billing period" 
       });
     } catch (error: any) {
-      console.error("Cancel subscription error:", error);
+      if (error instanceof PaymentProviderError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error("Cancel subscription error:", error.response?.data || error);
       res.status(500).json({ message: "Error canceling subscription", error: error.message });
     }
   });
@@ -1317,7 +1364,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(401).json({ message: "Not authenticated" });
       }
       
-      const { reference, plan, cardDetails } = req.body;
+      const { reference, plan, cardDetails, couponCode, currency: requestedCurrency } = req.body;
       if (!reference || !plan) {
         res.setHeader('Content-Type', 'application/json');
         return res.status(400).json({ message: "Reference and plan are required" });
@@ -1325,7 +1372,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       // Get the subscription plan to get the price
       const subscriptionPlan = await storage.getSubscriptionPlanByName(plan);
-      if (!subscriptionPlan) {
+      if (!subscriptionPlan || subscriptionPlan.archivedAt) {
         res.setHeader('Content-Type', 'application/json');
         return res.status(404).json({ message: "Subscription plan not found" });
       }
@@ -1337,54 +1384,103 @@ export async function registerRoutes(app: Express): Promise<Server> {
         res.setHeader('Content-Type', 'application/json');
         return res.status(400).json({ message: "User email is required for payment processing" });
       }
+      if (!req.user.emailVerifiedAt) {
+        res.setHeader('Content-Type', 'application/json');
+        return res.status(403).json({
+          message: "Verify your email address before paying",
+          emailVerificationRequired: true
+        });
+      }
+      
+      // Price the plan in the checkout currency and apply the coupon from checkout,
+      // holding one use of it until the charge goes through
+      let price: PlanPriceQuote;
+      let quote: CouponQuote | undefined;
+      let redemption: CouponRedemption | undefined;
+      try {
+        const currency = pricingService.resolveCurrency(req, requestedCurrency);
+        pricingService.assertProviderSupports(billingProviders.PAYSTACK, currency);
+        price = await pricingService.getPlanPrice(subscriptionPlan, currency);
+        if (couponCode) {
+          quote = await promotionService.quote(couponCode, req.user, subscriptionPlan, currency);
+          redemption = await promotionService.redeem(quote, req.user, billingProviders.PAYSTACK, reference);
+        }
+      } catch (error) {
+        if (error instanceof PromotionError || error instanceof PricingError) {
+          res.setHeader('Content-Type', 'application/json');
+          return res.status(error.status).json({ success: false, message: error.message });
+        }
+        throw error;
+      }
+      const currency = price.currency;
+      const amountDue = quote ? quote.amountDue : price.amount;
       
       // Log payment attempt
-      console.log(`[PAYMENT] Processing payment for ${plan} plan at $${subscriptionPlan.price}.`);
+      console.log(`[PAYMENT] Processing payment for ${plan} plan at ${formatPrice(amountDue, currency)}${quote ? ` with coupon ${quote.coupon.code}` : ''}.`);
       console.log(`[PAYMENT] Reference: ${reference}`);
       console.log(`[PAYMENT] User: ${req.user.id} (${req.user.username})`);
       
-      // Process payment with Paystack
-      const paymentResult = await paystackService.chargeCard(
-        req.user.email,
-        subscriptionPlan.price,
-        {
-          number: cardDetails.number,
-          cvv: cardDetails.cvv,
-          expiryMonth: cardDetails.expiryMonth,
-          expiryYear: cardDetails.expiryYear
-        },
-        {
-          userId: req.user.id,
-          planName: plan,
-          custom_reference: reference
+      // A coupon can cover the whole first payment, leaving nothing to charge
+      let verifiedPayment: VerifiedPayment | null = null;
+      if (amountDue > 0) {
+        try {
+          // Process payment with Paystack
+          const paymentResult = await paystackService.chargeCard(
+            req.user.email,
+            amountDue,
+            {
+              number: cardDetails.number,
+              cvv: cardDetails.cvv,
+              expiryMonth: cardDetails.expiryMonth,
+              expiryYear: cardDetails.expiryYear
+            },
+            {
+              userId: req.user.id,
+              planName: plan,
+              couponCode: quote?.coupon.code,
+              custom_reference: reference
+            },
+            currency
+          );
+          
+          // If the payment needs additional action (like OTP), return that info
+          if (paymentResult.data && paymentResult.data.status === 'send_otp') {
+            if (redemption) {
+              await promotionService.releaseRedemption(redemption);
+            }
+            res.setHeader('Content-Type', 'application/json');
+            return res.status(200).json({
+              success: false,
+              requires_action: true,
+              action_type: 'otp',
+              reference: paymentResult.data.reference,
+              message: "Please provide the OTP sent to your phone/email"
+            });
+          }
+          
+          // Verify the transaction
+          verifiedPayment = await paymentProviders.require(billingProviders.PAYSTACK).verifyPayment(
+            paymentResult.data?.reference || reference
+          );
+        } catch (error) {
+          if (redemption) {
+            await promotionService.releaseRedemption(redemption);
+          }
+          throw error;
+        }
+        
+        // Check if payment was successful
+        if (verifiedPayment.status !== 'succeeded') {
+          if (redemption) {
+            await promotionService.releaseRedemption(redemption);
+          }
+          res.setHeader('Content-Type', 'application/json');
+          return res.status(400).json({
+            success: false,
+            message: "Payment was not successful",
+            paymentStatus: verifiedPayment.status
+          });
         }
-      );
-      
-      // If the payment needs additional action (like OTP), return that info
-      if (paymentResult.data && paymentResult.data.status === 'send_otp') {
-        res.setHeader('Content-Type', 'application/json');
-        return res.status(200).json({
-          success: false,
-          requires_action: true,
-          action_type: 'otp',
-          reference: paymentResult.data.reference,
-          message: "Please provide the OTP sent to your phone/email"
-        });
-      }
-      
-      // Verify the transaction
-      const verificationResult = await paystackService.verifyTransaction(
-        paymentResult.data?.reference || reference
-      );
-      
-      // Check if payment was successful
-      if (!verificationResult.status || verificationResult.data?.status !== 'success') {
-        res.setHeader('Content-Type', 'application/json');
-        return res.status(400).json({
-          success: false,
-          message: "Payment was not successful",
-          paymentStatus: verificationResult.data?.status || 'failed'
-        });
       }
       
       // Calculate when the subscription would expire (1 month from now)
@@ -1393,22 +1489,51 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       // Update user's subscription in the database with expiry date
       await storage.updateUserSubscription(req.user.id, plan, expiryDate);
+      await storage.updateSubscriptionStatus(req.user.id, subscriptionStatuses.ACTIVE);
+      await storage.updateUserCurrency(req.user.id, currency);
+      
+      // Keep a reusable card so plan upgrades can be charged without another checkout
+      if (verifiedPayment?.authorizationCode) {
+        await storage.updatePaystackCodes(req.user.id, { authorizationCode: verifiedPayment.authorizationCode });
+      }
+      
+      // Record the payment in the billing ledger; the charge.success webhook updates the same entry
+      const paymentReference = verifiedPayment?.reference || reference;
+      const isTestPayment = paymentReference.startsWith('test_');
+      if (redemption) {
+        await storage.updateCouponRedemptionReference(redemption.id, paymentReference);
+      }
+      if (verifiedPayment) {
+        await billingLedger.recordPayment({
+          userId: req.user.id,
+          provider: isTestPayment ? billingProviders.TEST : billingProviders.PAYSTACK,
+          providerPaymentId: paymentReference,
+          planName: plan,
+          description: quote
+            ? `${plan} plan subscription (coupon ${quote.coupon.code})`
+            : `${plan} plan subscription`,
+          amount: isTestPayment ? amountDue : verifiedPayment.amount || amountDue,
+          currency: isTestPayment ? currency : verifiedPayment.currency || currency,
+          status: paymentStatuses.SUCCEEDED,
+          method: verifiedPayment.method,
+          periodStart: new Date(),
+          periodEnd: expiryDate
+        });
+      }
       
-      // Record the transaction ID from Paystack if available
-      const transactionId = verificationResult.data?.id || '';
-      console.log(`[PAYMENT] Transaction successful (ID: ${transactionId}). Subscription active until ${expiryDate.toISOString()}`);
+      console.log(`[PAYMENT] Transaction successful (reference: ${paymentReference}). Subscription active until ${expiryDate.toISOString()}`);
       
       // Create the response object
       const responseData = {
         success: true,
-        message: `Payment of $${subscriptionPlan.price} successful. Subscription to ${plan} plan confirmed.`,
+        message: `Payment of ${formatPrice(amountDue, currency)} successful. Subscription to ${plan} plan confirmed.`,
         plan,
-        amount: subscriptionPlan.price,
-        currency: "USD",
+        amount: amountDue,
+        discount: quote?.discount ?? 0,
+        currency,
         expiryDate: expiryDate.toISOString(),
         transaction: {
-          id: transactionId,
-          reference: verificationResult.data?.reference || reference
+          reference: paymentReference
         }
       };
       
@@ -1440,23 +1565,31 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       const user = req.user;
       
-      // If user has a Stripe subscription, cancel it
-      if (user.stripeSubscriptionId && stripe) {
+      // If user has a provider subscription, cancel it
+      const subscription = getProviderSubscription(user);
+      const provider = subscription && paymentProviders.get(subscription.provider);
+      if (subscription && provider) {
         try {
-          await stripe.subscriptions.cancel(user.stripeSubscriptionId);
-        } catch (stripeError) {
-          console.error("Error canceling Stripe subscription:", stripeError);
-          // Continue even if Stripe cancellation fails
+          await provider.cancelSubscription(subscription.id, { atPeriodEnd: false });
+        } catch (providerError: any) {
+          console.error(`Error canceling ${provider.displayName} subscription:`, providerError.response?.data || providerError);
+          // Continue even if the provider cancellation fails
         }
       }
       
       // Update user's subscription in the database (without expiry date for free tier)
       await storage.updateUserSubscription(user.id, planName);
       
-      // Clear Stripe subscription ID if it exists
+      // Clear the provider subscription if it exists
       if (user.stripeSubscriptionId) {
         await storage.updateStripeSubscriptionId(user.id, "");
       }
+      if (user.paystackSubscriptionCode) {
+        await storage.updatePaystackCodes(user.id, { subscriptionCode: null });
+      }
+      if (user.flutterwaveSubscriptionId) {
+        await storage.updateFlutterwaveSubscriptionId(user.id, null);
+      }
       
       res.json({
         success: true,
@@ -1507,11 +1640,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       // Add virtual IP to session if it exists
       let sessionWithIp = null;
       if (currentSession) {
-        const octet1 = 10;
-        const octet2 = Math.floor((currentSession.id * 13) % 255);
-        const octet3 = Math.floor((currentSession.id * 17) % 255);
-        const octet4 = Math.floor((currentSession.id * 23) % 255);
-        const virtualIp = `${octet1}.${octet2}.${octet3}.${octet4}`;
+        const virtualIp = await ipPoolService.getSessionAddress(currentSession);
         
         sessionWithIp = {
           ...currentSession,
@@ -1569,22 +1698,24 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   // Admin endpoints
   // Admin endpoint to update app settings
-  app.post("/api/admin/app-settings", async (req, res, next) => {
+  app.post("/api/admin/app-settings", requirePermission(permissions.SETTINGS_MANAGE), async (req, res, next) => {
     try {
       if (!req.isAuthenticated()) return res.status(401).json({ message: "Not authenticated" });
       
-      // In a real app, check for admin role
-      // For demo purposes, consider user with ID 1 as admin
-      if (req.user.id !== 1) {
-        return res.status(403).json({ message: "Access denied" });
-      }
-      
       const { key, value, description } = req.body;
       if (!key || value === undefined) {
         return res.status(400).json({ message: "Key and value are required" });
       }
       
+      const previous = await storage.getAppSetting(key);
       const setting = await storage.setAppSetting(key, value, description);
+      await auditLog.record(req, {
+        action: auditActions.APP_SETTING_UPDATED,
+        targetType: 'app_setting',
+        targetId: key,
+        before: { value: previous?.value ?? null },
+        after: { value: setting.value }
+      });
       res.json(setting);
     } catch (error) {
       next(error);
@@ -1592,16 +1723,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
   
   // Batch update multiple app settings at once
-  app.post("/api/admin/app-settings/batch", async (req, res, next) => {
+  app.post("/api/admin/app-settings/batch", requirePermission(permissions.SETTINGS_MANAGE), async (req, res, next) => {
     try {
       if (!req.isAuthenticated()) return res.status(401).json({ message: "Not authenticated" });
       
-      // In a real app, check for admin role
-      // For demo purposes, consider user with ID 1 as admin
-      if (req.user.id !== 1) {
-        return res.status(403).json({ message: "Access denied" });
-      }
-      
       const { settings } = req.body;
       
       if (!Array.isArray(settings)) {
@@ -1611,8 +1736,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const results = [];
       for (const setting of settings) {
         const { key, value, description } = setting;
+        const previous = await storage.getAppSetting(key);
         const updatedSetting = await storage.setAppSetting(key, value, description);
         results.push(updatedSetting);
+        await auditLog.record(req, {
+          action: auditActions.APP_SETTING_UPDATED,
+          targetType: 'app_setting',
+          targetId: key,
+          before: { value: previous?.value ?? null },
+          after: { value: updatedSetting.value },
+          details: { batch: true }
+        });
       }
       
       res.status(200).json(results);
@@ -1622,16 +1756,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
   
   // Upload app logo
-  app.post("/api/admin/app-logo", async (req, res, next) => {
+  app.post("/api/admin/app-logo", requirePermission(permissions.SETTINGS_MANAGE), async (req, res, next) => {
     try {
       if (!req.isAuthenticated()) return res.status(401).json({ message: "Not authenticated" });
       
-      // In a real app, check for admin role
-      // For demo purposes, consider user with ID 1 as admin
-      if (req.user.id !== 1) {
-        return res.status(403).json({ message: "Access denied" });
-      }
-      
       const { logoData } = req.body;
       
       if (!logoData) {
@@ -1639,12 +1767,21 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
       
       // Store logo as a base64 string in the app_settings
+      const previous = await storage.getAppSetting('app_logo');
       const setting = await storage.setAppSetting(
         'app_logo', 
         logoData,
         'Base64 encoded logo image'
       );
       
+      await auditLog.record(req, {
+        action: auditActions.APP_LOGO_UPLOADED,
+        targetType: 'app_setting',
+        targetId: 'app_logo',
+        before: { value: previous?.value ?? null },
+        after: { value: setting.value }
+      });
+      
       res.status(200).json(setting);
     } catch (error) {
       next(error);
@@ -1652,16 +1789,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
   
   // Admin endpoint to get all servers including disabled ones
-  app.get("/api/admin/servers", async (req, res, next) => {
+  app.get("/api/admin/servers", requirePermission(permissions.MONITORING_READ), async (req, res, next) => {
     try {
       if (!req.isAuthenticated()) return res.status(401).json({ message: "Not authenticated" });
       
-      // In a real app, check for admin role
-      // For demo purposes, consider user with ID 1 as admin
-      if (req.user.id !== 1) {
-        return res.status(403).json({ message: "Access denied" });
-      }
-      
       // In real app, you'd have proper admin-only access to all servers
       // including servers that might be disabled for regular users
       const servers = await storage.getAllServers();
@@ -1672,16 +1803,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
   
   // Admin endpoint to get global monitoring data
-  app.get("/api/admin/monitoring", async (req, res, next) => {
+  app.get("/api/admin/monitoring", requirePermission(permissions.MONITORING_READ), async (req, res, next) => {
     try {
       if (!req.isAuthenticated()) return res.status(401).json({ message: "Not authenticated" });
       
-      // In a real app, check for admin role
-      // For demo purposes, consider user with ID 1 as admin
-      if (req.user.id !== 1) {
-        return res.status(403).json({ message: "Access denied" });
-      }
-      
       // Get comprehensive monitoring data
       const globalStats = connectionStatistics.getGlobalStats();
       const rateMetrics = connectionRateLimiter.getGlobalErrorMetrics();
@@ -1704,18 +1829,49 @@ export async function registerRoutes(app: Express): Promise<Server> {
       next(error);
     }
   });
-  
+
+  // Admin endpoint to get tunnel address pool utilization and conflicts
+  app.get("/api/admin/ip-pools", requirePermission(permissions.MONITORING_READ), async (req, res, next) => {
+    try {
+      if (!req.isAuthenticated()) return res.status(401).json({ message: "Not authenticated" });
+
+      const [pools, conflicts] = await Promise.all([
+        ipPoolService.getUtilization(),
+        ipPoolService.findConflicts()
+      ]);
+
+      res.json({
+        timestamp: new Date().toISOString(),
+        pools,
+        conflicts
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Admin endpoint to reclaim expired address leases immediately
+  app.post("/api/admin/ip-pools/reclaim", requirePermission(permissions.MONITORING_MANAGE), async (req, res, next) => {
+    try {
+      if (!req.isAuthenticated()) return res.status(401).json({ message: "Not authenticated" });
+
+      const reclaimed = await ipPoolService.reclaimExpiredLeases();
+      await auditLog.record(req, {
+        action: auditActions.IP_LEASES_RECLAIMED,
+        targetType: 'ip_pool',
+        details: { reclaimed }
+      });
+      res.json({ success: true, reclaimed });
+    } catch (error) {
+      next(error);
+    }
+  });
+
   // Admin endpoint to get error logs
-  app.get("/api/admin/error-logs", async (req, res, next) => {
+  app.get("/api/admin/error-logs", requirePermission(permissions.MONITORING_READ), async (req, res, next) => {
     try {
       if (!req.isAuthenticated()) return res.status(401).json({ message: "Not authenticated" });
       
-      // In a real app, check for admin role
-      // For demo purposes, consider user with ID 1 as admin
-      if (req.user.id !== 1) {
-        return res.status(403).json({ message: "Access denied" });
-      }
-      
       // Get hours parameter with default of 24 hours
       const hours = parseInt(req.query.hours as string) || 24;
       
@@ -1734,16 +1890,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
   
   // Admin endpoint to configure monitoring alerts
-  app.post("/api/admin/configure-alerts", async (req, res, next) => {
+  app.post("/api/admin/configure-alerts", requirePermission(permissions.MONITORING_MANAGE), async (req, res, next) => {
     try {
       if (!req.isAuthenticated()) return res.status(401).json({ message: "Not authenticated" });
       
-      // In a real app, check for admin role
-      // For demo purposes, consider user with ID 1 as admin
-      if (req.user.id !== 1) {
-        return res.status(403).json({ message: "Access denied" });
-      }
-      
       const { webhookUrl, slackWebhook } = req.body;
       
       // Store webhook URLs for alerts
@@ -1751,6 +1901,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
         connectionStatistics.addAlertWebhook(webhookUrl);
       }
       
+      // Webhook URLs carry their own credentials, so only whether they were set is recorded
+      await auditLog.record(req, {
+        action: auditActions.ALERTS_CONFIGURED,
+        targetType: 'monitoring',
+        details: {
+          webhookUrl: !!webhookUrl,
+          slackWebhook: !!(slackWebhook && process.env.SLACK_BOT_TOKEN && process.env.SLACK_CHANNEL_ID)
+        }
+      });
+      
       // For Slack integration 
       if (slackWebhook && process.env.SLACK_BOT_TOKEN && process.env.SLACK_CHANNEL_ID) {
         // In a real implementation, this would store the Slack webhook configuration
@@ -1779,22 +1939,18 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Admin endpoint to update Stripe price IDs
-  app.post("/api/admin/update-price-ids", async (req, res, next) => {
+  app.post("/api/admin/update-price-ids", requirePermission(permissions.PLANS_MANAGE), async (req, res, next) => {
     try {
       if (!req.isAuthenticated()) return res.status(401).json({ message: "Not authenticated" });
       
-      // In a real app, check for admin role
-      // For demo purposes, consider user with ID 1 as admin
-      if (req.user.id !== 1) {
-        return res.status(403).json({ message: "Access denied" });
-      }
-      
       const { stripePriceIds } = req.body;
       if (!stripePriceIds || typeof stripePriceIds !== 'object') {
         return res.status(400).json({ message: "Invalid price IDs data" });
       }
       
-      // Update each plan's price ID
+      // Update each plan's price ID, noting the old and new IDs by plan
+      const before: Record<string, string | null> = {};
+      const after: Record<string, string | null> = {};
       for (const [planId, priceId] of Object.entries(stripePriceIds)) {
         if (typeof priceId === 'string') {
           // Skip updating free plan's price ID if it's empty
@@ -1803,14 +1959,22 @@ export async function registerRoutes(app: Express): Promise<Server> {
             continue;
           }
           
-          // Update the price ID in the database
-          await db
-            .update(subscriptionPlans)
-            .set({ stripePriceId: priceId })
-            .where(eq(subscriptionPlans.id, parseInt(planId)));
+          // Update the price ID, keeping a version of the change
+          if (plan) {
+            before[plan.id] = plan.stripePriceId;
+            after[plan.id] = priceId;
+            await storage.updateSubscriptionPlan(plan.id, { stripePriceId: priceId }, planChangeTypes.UPDATED, req.user.id);
+          }
         }
       }
       
+      await auditLog.record(req, {
+        action: auditActions.STRIPE_PRICE_IDS_UPDATED,
+        targetType: 'plan',
+        before,
+        after
+      });
+      
       res.json({
         success: true,
         message: "Price IDs updated successfully"
@@ -1822,22 +1986,18 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
   
   // Admin endpoint to update Paystack plan codes
-  app.post("/api/admin/update-paystack-plan-codes", async (req, res, next) => {
+  app.post("/api/admin/update-paystack-plan-codes", requirePermission(permissions.PLANS_MANAGE), async (req, res, next) => {
     try {
       if (!req.isAuthenticated()) return res.status(401).json({ message: "Not authenticated" });
       
-      // In a real app, check for admin role
-      // For demo purposes, consider user with ID 1 as admin
-      if (req.user.id !== 1) {
-        return res.status(403).json({ message: "Access denied" });
-      }
-      
       const { paystackPlanCodes } = req.body;
       if (!paystackPlanCodes || typeof paystackPlanCodes !== 'object') {
         return res.status(400).json({ message: "Invalid Paystack plan codes data" });
       }
       
-      // Update each plan's Paystack plan code
+      // Update each plan's Paystack plan code, noting the old and new codes by plan
+      const before: Record<string, string | null> = {};
+      const after: Record<string, string | null> = {};
       for (const [planId, planCode] of Object.entries(paystackPlanCodes)) {
         if (typeof planCode === 'string') {
           // Skip updating free plan's code if it's empty
@@ -1846,14 +2006,22 @@ export async function registerRoutes(app: Express): Promise<Server> {
             continue;
           }
           
-          // Update the Paystack plan code in the database
-          await db
-            .update(subscriptionPlans)
-            .set({ paystackPlanCode: planCode })
-            .where(eq(subscriptionPlans.id, parseInt(planId)));
+          // Update the Paystack plan code, keeping a version of the change
+          if (plan) {
+            before[plan.id] = plan.paystackPlanCode;
+            after[plan.id] = planCode;
+            await storage.updateSubscriptionPlan(plan.id, { paystackPlanCode: planCode }, planChangeTypes.UPDATED, req.user.id);
+          }
         }
       }
       
+      await auditLog.record(req, {
+        action: auditActions.PAYSTACK_PLAN_CODES_UPDATED,
+        targetType: 'plan',
+        before,
+        after
+      });
+      
       res.json({
         success: true,
         message: "Paystack plan codes updated successfully"
@@ -1865,33 +2033,23 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Admin routes for user management
-  app.get("/api/admin/users", async (req, res, next) => {
+  app.get("/api/admin/users", requirePermission(permissions.USERS_READ), async (req, res, next) => {
     try {
       if (!req.isAuthenticated()) return res.status(401).json({ message: "Not authenticated" });
       
-      // Check if user is admin (for demo, user with ID 1 is admin)
-      if (req.user.id !== 1) {
-        return res.status(403).json({ message: "Not authorized" });
-      }
-      
       // Get all users from storage
       const users = await storage.getAllUsers();
-      res.json(users);
+      res.json(users.map(toPublicUser));
     } catch (error: any) {
       console.error("Admin get users error:", error);
       res.status(500).json({ message: "Error retrieving users", error: error.message });
     }
   });
 
-  app.post("/api/admin/update-user-subscription", async (req, res, next) => {
+  app.post("/api/admin/update-user-subscription", requirePermission(permissions.USERS_WRITE), async (req, res, next) => {
     try {
       if (!req.isAuthenticated()) return res.status(401).json({ message: "Not authenticated" });
       
-      // Check if user is admin (for demo, user with ID 1 is admin)
-      if (req.user.id !== 1) {
-        return res.status(403).json({ message: "Not authorized" });
-      }
-      
       const { userId, subscription, expiryDate } = req.body;
       
       if (!userId || !subscription) {
@@ -1899,16 +2057,31 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
       
       // Update user subscription
+      const previousUser = await storage.getUser(parseInt(userId));
       const updatedUser = await storage.updateUserSubscription(
         parseInt(userId), 
         subscription, 
         expiryDate ? new Date(expiryDate) : undefined
       );
       
+      await auditLog.record(req, {
+        action: auditActions.USER_SUBSCRIPTION_UPDATED,
+        targetType: 'user',
+        targetId: parseInt(userId),
+        before: previousUser && {
+          subscription: previousUser.subscription,
+          subscriptionExpiryDate: previousUser.subscriptionExpiryDate
+        },
+        after: updatedUser && {
+          subscription: updatedUser.subscription,
+          subscriptionExpiryDate: updatedUser.subscriptionExpiryDate
+        }
+      });
+      
       res.json({
         success: true,
         message: "User subscription updated successfully",
-        user: updatedUser
+        user: updatedUser && toPublicUser(updatedUser)
       });
     } catch (error: any) {
       console.error("Admin update user subscription error:", error);
@@ -2046,6 +2219,78 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
+  // WireGuard client config endpoints
+  app.get("/api/wireguard/config/:serverId", async (req, res, next) => {
+    try {
+      if (!req.isAuthenticated()) return res.status(401).json({ message: "Not authenticated" });
+      
+      const serverId = parseInt(req.params.serverId);
+      if (isNaN(serverId)) {
+        return res.status(400).json({ message: "Invalid server ID" });
+      }
+      
+      // Only provision peers on servers the user's plan can reach
+      const accessibleServers = await storage.getAccessibleServers(req.user.id);
+      if (!accessibleServers.some(server => server.id === serverId)) {
+        return res.status(403).json({ message: "Server not available on your plan" });
+      }
+      
+      const { peer, server } = await wireguardService.provisionPeer(req.user.id, serverId);
+      const config = wireguardService.buildClientConfig(peer, server);
+      
+      // Allow downloading the raw .conf file for import into WireGuard apps
+      if (req.query.format === 'conf') {
+        const fileName = `${server.name.replace(/[^a-zA-Z0-9]+/g, '-').toLowerCase()}.conf`;
+        res.setHeader('Content-Type', 'text/plain; charset=utf-8');
+        res.setHeader('Content-Disposition', `attachment; filename="${fileName}"`);
+        return res.send(config);
+      }
+      
+      res.json({
+        serverId: server.id,
+        publicKey: peer.publicKey,
+        serverPublicKey: server.wgPublicKey,
+        tunnelIp: peer.tunnelIp,
+        endpoint: `${server.ip}:${server.wgPort || 51820}`,
+        createdAt: peer.createdAt,
+        config
+      });
+    } catch (error) {
+      console.error("Error generating WireGuard config:", error);
+      next(error);
+    }
+  });
+  
+  app.post("/api/wireguard/config/:serverId/rotate", async (req, res, next) => {
+    try {
+      if (!req.isAuthenticated()) return res.status(401).json({ message: "Not authenticated" });
+      
+      const serverId = parseInt(req.params.serverId);
+      if (isNaN(serverId)) {
+        return res.status(400).json({ message: "Invalid server ID" });
+      }
+      
+      const accessibleServers = await storage.getAccessibleServers(req.user.id);
+      if (!accessibleServers.some(server => server.id === serverId)) {
+        return res.status(403).json({ message: "Server not available on your plan" });
+      }
+      
+      const { peer, server } = await wireguardService.rotatePeer(req.user.id, serverId);
+      
+      res.json({
+        success: true,
+        message: "WireGuard keys rotated. Re-import the new config on your device.",
+        serverId: server.id,
+        publicKey: peer.publicKey,
+        tunnelIp: peer.tunnelIp,
+        config: wireguardService.buildClientConfig(peer, server)
+      });
+    } catch (error) {
+      console.error("Error rotating WireGuard keys:", error);
+      next(error);
+    }
+  });
+  
   app.get("/api/anti-censorship/config", async (req, res, next) => {
     try {
       if (!req.isAuthenticated()) return res.status(401).json({ message: "Not authenticated" });
@@ -0,0 +1,82 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { PgDialect } from 'drizzle-orm/pg-core';
+import { SQL } from 'drizzle-orm';
+
+const fakes = vi.hoisted(() => {
+  const state = {
+    sessions: [] as any[],
+    conditions: [] as any[]
+  };
+
+  const db = {
+    select: () => ({
+      from: () => ({
+        where: async (condition: any) => {
+          state.conditions.push(condition);
+          return state.sessions;
+        },
+        // Seeding on startup counts the servers, and finds some so it leaves them be
+        then: (resolve: (rows: any[]) => void) => resolve([{ count: 1 }])
+      })
+    })
+  };
+
+  return { state, db };
+});
+
+vi.mock('./db', () => ({ db: fakes.db, pool: {} }));
+
+import { storage } from './storage';
+
+describe('storage.checkUserLimits', () => {
+  // 01:00 local time, so "today" started an hour ago
+  const now = new Date(2026, 9, 19, 1, 0, 0);
+  const minutesAgo = (minutes: number) => new Date(now.getTime() - minutes * 60 * 1000);
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(now);
+    fakes.state.sessions = [];
+    fakes.state.conditions = [];
+
+    vi.spyOn(storage, 'getUser').mockResolvedValue({ id: 5, dataLimit: 1073741824, dailyTimeLimit: 60 } as any);
+    vi.spyOn(storage, 'getUserPlan').mockResolvedValue(undefined);
+    vi.spyOn(storage, 'getUserDailyUsage').mockResolvedValue([]);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('asks for sessions that are still open or ended today, whenever they started', async () => {
+    await storage.checkUserLimits(5);
+
+    const { sql, params } = new PgDialect().sqlToQuery(fakes.state.conditions[0] as SQL);
+    expect(sql).toContain('"end_time" is null');
+    expect(sql).toContain('"end_time" >=');
+    expect(sql).not.toContain('"start_time"');
+    expect(params).toContainEqual(new Date(2026, 9, 19).toISOString());
+  });
+
+  it('counts an open session that crossed midnight from midnight only', async () => {
+    fakes.state.sessions = [{ id: 1, userId: 5, startTime: minutesAgo(150), endTime: null }];
+
+    const limits = await storage.checkUserLimits(5);
+
+    expect(limits.timeUsedToday).toBe(60);
+    expect(limits.isTimeLimitReached).toBe(true);
+  });
+
+  it('counts the part after midnight of a session that ended today', async () => {
+    fakes.state.sessions = [
+      { id: 1, userId: 5, startTime: minutesAgo(120), endTime: minutesAgo(45) },
+      { id: 2, userId: 5, startTime: minutesAgo(30), endTime: minutesAgo(20) }
+    ];
+
+    const limits = await storage.checkUserLimits(5);
+
+    expect(limits.timeUsedToday).toBe(25);
+    expect(limits.isTimeLimitReached).toBe(false);
+  });
+});
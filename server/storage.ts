@@ -1,14 +1,49 @@
 import { 
   User, InsertUser, VpnServer, VpnSession, VpnUserSettings, SubscriptionPlan, AppSetting,
   InsertVpnSession, InsertVpnUserSettings, InsertAppSetting, subscriptionTiers,
-  users, vpnServers, vpnSessions, vpnUserSettings, subscriptionPlans, appSettings
+  WireguardPeer, InsertWireguardPeer, IpAddressLease, InsertIpAddressLease, Device, InsertDevice,
+  UsageBucket, InsertUsageBucket, SubscriptionStatus, Invoice, InsertInvoice, Payment, InsertPayment, Refund, InsertRefund,
+  PlanPrice, InsertPlanPrice, Coupon, InsertCoupon, Organization, OrganizationMember, InsertOrganizationMember,
+  OrganizationInvitation, Referral, InsertReferral, EmailMessage, InsertEmailMessage, EmailPreferences, AuditEvent, InsertAuditEvent, ERASED_USER_ID, ApiToken, InsertApiToken,
+  InsertEmailPreferences, InsertSubscriptionPlan, SubscriptionPlanVersion, PlanChangeType, organizationRoles, referralStatuses, emailStatuses, CouponRedemption, InsertCouponRedemption, VoucherBatch, InsertVoucherBatch, Voucher, TwoFactorRecoveryCode, paymentStatuses, subscriptionStatuses,
+  users, vpnServers, vpnSessions, vpnUserSettings, subscriptionPlans, appSettings, wireguardPeers,
+  ipAddressLeases, devices, usageBuckets, processedWebhookEvents, invoices, payments, refunds,
+  coupons, couponRedemptions, planPrices, organizations, organizationMembers, organizationInvitations,
+  referrals, emailMessages, emailPreferences, subscriptionPlanVersions, planChangeTypes, voucherBatches, vouchers, twoFactorRecoveryCodes, auditEvents, apiTokens
 } from "@shared/schema";
 import session from "express-session";
 import createMemoryStore from "memorystore";
 import connectPg from "connect-pg-simple";
-import { eq, and, isNull, gte, desc, count } from "drizzle-orm";
+import { eq, ne, and, or, isNull, isNotNull, gt, gte, lt, desc, count, inArray, sql, TransactionRollbackError } from "drizzle-orm";
 import { db, pool } from "./db";
 
+// A login session as connect-pg-simple stores it
+export type LoginSessionRecord = {
+  sid: string;
+  sess: Record<string, any>;
+  expire: Date;
+};
+
+// Everything kept about a user, for their data export
+export type UserDataExport = {
+  user: User;
+  settings: VpnUserSettings | null;
+  emailPreferences: EmailPreferences | null;
+  devices: Device[];
+  sessions: VpnSession[];
+  usage: UsageBucket[];
+  invoices: Invoice[];
+  payments: Payment[];
+  refunds: Refund[];
+  couponRedemptions: CouponRedemption[];
+  redeemedVouchers: Voucher[];
+  referralsMade: Referral[];
+  referredBy: Referral | null;
+  organizationMembership: OrganizationMember | null;
+  apiTokens: ApiToken[];
+  emails: Pick<EmailMessage, 'id' | 'to' | 'template' | 'subject' | 'status' | 'sentAt' | 'createdAt'>[];
+};
+
 // Define the storage interface with all needed CRUD operations
 // Server filter type
 type ServerFilters = {
@@ -17,24 +52,100 @@ type ServerFilters = {
   doubleHop?: boolean;
 };
 
+// Audit log filter type
+export type AuditEventFilters = {
+  actorId?: number;
+  action?: string;
+  targetType?: string;
+  targetId?: string;
+  since?: Date;
+  until?: Date;
+  limit?: number;
+};
+
 export interface IStorage {
   sessionStore: session.Store;
   // User methods
   getUser(id: number): Promise<User | undefined>;
   getUserByUsername(username: string): Promise<User | undefined>;
   getUserByFirebaseId(firebaseId: string): Promise<User | undefined>;
+  getUserByStripeCustomerId(stripeCustomerId: string): Promise<User | undefined>;
+  getUserByPaystackCustomerCode(customerCode: string): Promise<User | undefined>;
+  getUserByPaystackSubscriptionCode(subscriptionCode: string): Promise<User | undefined>;
+  getUserByFlutterwaveSubscriptionId(subscriptionId: string): Promise<User | undefined>;
   createUser(user: InsertUser & { firebaseId?: string }): Promise<User>;
   getAllUsers(): Promise<User[]>;
-  updateUserSubscription(userId: number, subscription: string, expiryDate?: Date): Promise<User>;
+  getLapsedSubscriptions(expiredBefore: Date): Promise<User[]>;
+  getSubscriptionsExpiringBetween(from: Date, to: Date): Promise<User[]>;
+  resetUserToPlan(userId: number, plan: SubscriptionPlan): Promise<User>;
+  updateUserSubscription(userId: number, subscription: string, expiryDate?: Date | null): Promise<User>;
+  updateUserRole(userId: number, role: string): Promise<User | undefined>;
+  updateSubscriptionStatus(userId: number, status: SubscriptionStatus | null): Promise<User>;
   updateStripeCustomerId(userId: number, stripeCustomerId: string): Promise<User>;
   updateStripeSubscriptionId(userId: number, stripeSubscriptionId: string): Promise<User>;
+  updatePaystackCodes(userId: number, codes: { customerCode?: string; subscriptionCode?: string | null; authorizationCode?: string }): Promise<User>;
+  updateFlutterwaveSubscriptionId(userId: number, subscriptionId: string | null): Promise<User>;
+  setPendingSubscription(userId: number, planName: string | null, effectiveAt: Date | null): Promise<User>;
+  getDuePendingSubscriptions(now: Date): Promise<User[]>;
+  switchUserPlan(userId: number, plan: SubscriptionPlan): Promise<User>;
+  startTrial(userId: number, plan: SubscriptionPlan, endsAt: Date): Promise<User>;
+  getExpiredTrials(now: Date): Promise<User[]>;
+  updateUserCurrency(userId: number, currency: string): Promise<User>;
   updateUserEmail(userId: number, email: string): Promise<User>;
+  getUsersByEmail(email: string): Promise<User[]>;
+  markEmailVerified(userId: number, email: string): Promise<User | undefined>;
+  updateUserPassword(userId: number, password: string): Promise<User>;
+  deleteUserSessions(userId: number, exceptSessionId?: string): Promise<number>;
+  getUserLoginSessions(userId: number): Promise<LoginSessionRecord[]>;
+  deleteLoginSession(userId: number, sid: string): Promise<boolean>;
+  markSessionsRevoked(userId: number): Promise<User | undefined>;
+
+  // Account deletion methods
+  getUserDataExport(userId: number): Promise<UserDataExport | undefined>;
+  scheduleUserDeletion(userId: number, at: Date | null): Promise<User | undefined>;
+  getUsersDueForDeletion(now: Date): Promise<User[]>;
+  eraseUser(userId: number): Promise<void>;
+
+  // Two-factor authentication methods
+  enableTwoFactor(userId: number, secret: string, step: number, recoveryCodeHashes: string[]): Promise<User>;
+  disableTwoFactor(userId: number): Promise<User>;
+  recordTwoFactorStep(userId: number, step: number): Promise<boolean>;
+  replaceRecoveryCodes(userId: number, codeHashes: string[]): Promise<void>;
+  useRecoveryCode(userId: number, codeHash: string): Promise<TwoFactorRecoveryCode | undefined>;
+  countUnusedRecoveryCodes(userId: number): Promise<number>;
   
   // Server methods
   getAllServers(): Promise<VpnServer[]>;
   getFilteredServers(filters: ServerFilters): Promise<VpnServer[]>;
   getServerById(id: number): Promise<VpnServer | undefined>;
   getAccessibleServers(userId: number): Promise<VpnServer[]>;
+  updateServerWireguardKey(serverId: number, publicKey: string): Promise<VpnServer>;
+  
+  // Device methods
+  getUserDevices(userId: number): Promise<Device[]>;
+  getDevice(id: number): Promise<Device | undefined>;
+  getDeviceByPublicKey(publicKey: string): Promise<Device | undefined>;
+  createDevice(device: InsertDevice): Promise<Device>;
+  updateDeviceLastSeen(id: number): Promise<void>;
+  revokeDevice(id: number): Promise<Device | undefined>;
+  
+  // WireGuard peer methods
+  getActiveWireguardPeer(userId: number, serverId: number, deviceId?: number | null): Promise<WireguardPeer | undefined>;
+  getActiveServerPeers(serverId: number): Promise<WireguardPeer[]>;
+  getActiveDevicePeers(deviceId: number): Promise<WireguardPeer[]>;
+  createWireguardPeer(peer: InsertWireguardPeer): Promise<WireguardPeer>;
+  revokeWireguardPeer(peerId: number): Promise<WireguardPeer | undefined>;
+  
+  // IP address pool methods
+  getActiveServerLeases(serverId: number, family?: string): Promise<IpAddressLease[]>;
+  getSessionLeases(sessionId: number): Promise<IpAddressLease[]>;
+  createIpLease(lease: InsertIpAddressLease): Promise<IpAddressLease>;
+  assignLeasesToPeer(leaseIds: number[], peerId: number): Promise<void>;
+  renewSessionLeases(sessionIds: number[], expiresAt: Date): Promise<void>;
+  releaseSessionLeases(sessionId: number): Promise<IpAddressLease[]>;
+  releasePeerLeases(peerId: number): Promise<IpAddressLease[]>;
+  releaseLeases(leaseIds: number[]): Promise<void>;
+  releaseExpiredLeases(now: Date): Promise<IpAddressLease[]>;
   
   // Settings methods
   getUserSettings(userId: number): Promise<VpnUserSettings | undefined>;
@@ -49,8 +160,16 @@ export interface IStorage {
   // Session methods
   getUserSessions(userId: number): Promise<VpnSession[]>;
   getCurrentSession(userId: number): Promise<VpnSession | undefined>;
+  getActiveSessions(userId: number): Promise<VpnSession[]>;
+  getDeviceSession(userId: number, deviceId: number): Promise<VpnSession | undefined>;
   createSession(session: InsertVpnSession): Promise<VpnSession>;
   endCurrentSession(userId: number): Promise<VpnSession | undefined>;
+  endDeviceSession(userId: number, deviceId: number): Promise<VpnSession | undefined>;
+  updateSessionTraffic(sessionId: number, dataUploaded: number, dataDownloaded: number): Promise<void>;
+  
+  // Usage metering methods
+  addUsage(usage: InsertUsageBucket): Promise<void>;
+  getSessionUsageTotals(sessionId: number): Promise<{ uploaded: number; downloaded: number }>;
   
   // Stats methods
   getUserUsageStats(userId: number, period: string): Promise<any>;
@@ -67,6 +186,127 @@ export interface IStorage {
   getAllSubscriptionPlans(): Promise<SubscriptionPlan[]>;
   getSubscriptionPlan(id: number): Promise<SubscriptionPlan | undefined>;
   getSubscriptionPlanByName(name: string): Promise<SubscriptionPlan | undefined>;
+  getSubscriptionPlanByStripePriceId(stripePriceId: string): Promise<SubscriptionPlan | undefined>;
+  getSubscriptionPlanByPaystackPlanCode(planCode: string): Promise<SubscriptionPlan | undefined>;
+  getSubscriptionPlanByFlutterwavePlanId(planId: string): Promise<SubscriptionPlan | undefined>;
+  createSubscriptionPlan(plan: InsertSubscriptionPlan, changedBy: number | null): Promise<SubscriptionPlan>;
+  updateSubscriptionPlan(id: number, changes: Partial<Omit<SubscriptionPlan, 'id' | 'name' | 'version'>>, changeType: PlanChangeType, changedBy: number | null): Promise<SubscriptionPlan | undefined>;
+  deleteSubscriptionPlan(id: number, changedBy: number | null): Promise<SubscriptionPlan | undefined>;
+  getSubscriptionPlanVersions(planId: number): Promise<SubscriptionPlanVersion[]>;
+  getSubscriptionPlanUsage(planName: string): Promise<{ subscribers: number; organizations: number; scheduled: number; vouchers: number }>;
+  getPlanPrices(planIds?: number[]): Promise<PlanPrice[]>;
+  getPlanPrice(planId: number, currency: string): Promise<PlanPrice | undefined>;
+  upsertPlanPrice(price: InsertPlanPrice): Promise<PlanPrice>;
+  updatePlanPriceStripeId(id: number, stripePriceId: string): Promise<PlanPrice | undefined>;
+  updatePlanPriceFlutterwaveId(id: number, flutterwavePlanId: string): Promise<PlanPrice | undefined>;
+  
+  // Webhook event methods
+  claimWebhookEvent(provider: string, eventId: string, eventType: string): Promise<boolean>;
+  releaseWebhookEvent(provider: string, eventId: string): Promise<void>;
+  
+  // Billing ledger methods
+  upsertInvoice(invoice: InsertInvoice): Promise<Invoice>;
+  getInvoice(id: number): Promise<Invoice | undefined>;
+  getUserInvoices(userId: number): Promise<Invoice[]>;
+  updateInvoiceStatus(id: number, status: string): Promise<Invoice | undefined>;
+  upsertPayment(payment: InsertPayment): Promise<Payment>;
+  getPayment(id: number): Promise<Payment | undefined>;
+  getPaymentByProviderId(provider: string, providerPaymentId: string): Promise<Payment | undefined>;
+  getInvoicePayments(invoiceIds: number[]): Promise<Payment[]>;
+  reservePaymentRefund(id: number, amount: number): Promise<Payment | undefined>;
+  releasePaymentRefund(id: number, amount: number): Promise<Payment | undefined>;
+  updatePaymentStatus(id: number, status: string): Promise<Payment | undefined>;
+  createRefund(refund: InsertRefund): Promise<Refund>;
+  getPaymentRefunds(paymentIds: number[]): Promise<Refund[]>;
+  getRecentPayments(limit: number): Promise<(Payment & { username: string | null })[]>;
+  getRevenueByProvider(since: Date): Promise<{
+    provider: string;
+    currency: string;
+    gross: number;
+    refunded: number;
+    payments: number;
+  }[]>;
+  getDailyRevenue(since: Date): Promise<{
+    date: string;
+    currency: string;
+    gross: number;
+    refunded: number;
+  }[]>;
+  
+  // Coupon methods
+  getAllCoupons(): Promise<Coupon[]>;
+  getCoupon(id: number): Promise<Coupon | undefined>;
+  getCouponByCode(code: string): Promise<Coupon | undefined>;
+  createCoupon(coupon: InsertCoupon & { createdBy?: number | null }): Promise<Coupon>;
+  updateCoupon(id: number, updates: Partial<Pick<Coupon, 'active' | 'stripeCouponId' | 'description' | 'expiresAt' | 'maxRedemptions'>>): Promise<Coupon | undefined>;
+  getUserCouponRedemption(couponId: number, userId: number): Promise<CouponRedemption | undefined>;
+  createCouponRedemption(redemption: InsertCouponRedemption): Promise<CouponRedemption | undefined>;
+  deleteCouponRedemption(id: number): Promise<void>;
+  updateCouponRedemptionReference(id: number, reference: string): Promise<void>;
+  getCouponRedemptionByReference(provider: string, reference: string): Promise<CouponRedemption | undefined>;
+  getCouponDiscountTotals(): Promise<{ couponId: number; currency: string; discount: number }[]>;
+
+  // Voucher methods
+  createVoucherBatch(batch: InsertVoucherBatch & { createdBy?: number | null }, codes: string[]): Promise<VoucherBatch>;
+  getVoucherBatches(): Promise<(VoucherBatch & { redeemedCount: number })[]>;
+  getVoucherBatch(id: number): Promise<VoucherBatch | undefined>;
+  getVouchersByBatch(batchId: number): Promise<(Voucher & { redeemedByUsername: string | null })[]>;
+  getVoucherByCode(code: string): Promise<Voucher | undefined>;
+  redeemVoucher(voucherId: number, userId: number, plan: SubscriptionPlan, durationDays: number): Promise<User | undefined>;
+  
+  // Organization methods
+  getUserPlan(userId: number): Promise<SubscriptionPlan | undefined>;
+  createOrganization(name: string, ownerId: number): Promise<Organization>;
+  getOrganization(id: number): Promise<Organization | undefined>;
+  getOrganizationByStripeCustomerId(stripeCustomerId: string): Promise<Organization | undefined>;
+  updateOrganization(id: number, updates: Partial<Omit<Organization, 'id' | 'ownerId' | 'createdAt'>>): Promise<Organization | undefined>;
+  deleteOrganization(id: number): Promise<void>;
+  getLapsedOrganizations(expiredBefore: Date): Promise<Organization[]>;
+  getOrganizationsDueForRenewal(now: Date): Promise<Organization[]>;
+  getOrganizationMembership(userId: number): Promise<OrganizationMember | undefined>;
+  getOrganizationMembers(organizationId: number): Promise<(OrganizationMember & { username: string; email: string | null })[]>;
+  addOrganizationMember(member: InsertOrganizationMember): Promise<OrganizationMember | undefined>;
+  updateOrganizationMemberRole(organizationId: number, userId: number, role: string): Promise<OrganizationMember | undefined>;
+  removeOrganizationMember(organizationId: number, userId: number): Promise<OrganizationMember | undefined>;
+  createOrganizationInvitation(invitation: Omit<OrganizationInvitation, 'id' | 'acceptedAt' | 'createdAt'>): Promise<OrganizationInvitation>;
+  getOrganizationInvitationByToken(token: string): Promise<OrganizationInvitation | undefined>;
+  getPendingOrganizationInvitations(organizationId: number, now: Date): Promise<OrganizationInvitation[]>;
+  deleteOrganizationInvitation(organizationId: number, id: number): Promise<OrganizationInvitation | undefined>;
+  acceptOrganizationInvitation(invitation: OrganizationInvitation, userId: number): Promise<OrganizationMember | undefined>;
+
+  // Referral and account credit methods
+  getUserByReferralCode(referralCode: string): Promise<User | undefined>;
+  setReferralCode(userId: number, referralCode: string): Promise<User | undefined>;
+  createReferral(referral: InsertReferral): Promise<Referral>;
+  getReferralByReferredUser(referredUserId: number): Promise<Referral | undefined>;
+  getReferralsByReferrer(referrerId: number): Promise<(Referral & { username: string })[]>;
+  rewardReferral(referral: Referral, planName: string, referrerCredit: { amount: number; currency: string }, referredCredit: { amount: number; currency: string }): Promise<Referral | undefined>;
+  addUserCredit(userId: number, amount: number, currency: string): Promise<User>;
+  consumeUserCredit(userId: number, currency: string, maxAmount: number): Promise<number>;
+
+  // Email methods
+  enqueueEmail(message: InsertEmailMessage): Promise<EmailMessage | undefined>;
+  getDueEmails(now: Date, limit: number): Promise<EmailMessage[]>;
+  markEmailSent(id: number): Promise<void>;
+  markEmailAttemptFailed(id: number, attempts: number, error: string, nextAttemptAt: Date | null): Promise<void>;
+  getEmailMessage(id: number): Promise<EmailMessage | undefined>;
+  getRecentEmailMessages(limit: number): Promise<EmailMessage[]>;
+  requeueEmail(id: number): Promise<EmailMessage | undefined>;
+  getEmailPreferences(userId: number): Promise<EmailPreferences | undefined>;
+  upsertEmailPreferences(userId: number, preferences: InsertEmailPreferences): Promise<EmailPreferences>;
+
+  // Audit log methods
+  createAuditEvent(event: InsertAuditEvent): Promise<AuditEvent>;
+  getAuditEvents(filters: AuditEventFilters): Promise<AuditEvent[]>;
+
+  // API token methods
+  createApiToken(token: InsertApiToken): Promise<ApiToken>;
+  getApiTokenByHash(tokenHash: string): Promise<ApiToken | undefined>;
+  getUserApiTokens(userId: number): Promise<ApiToken[]>;
+  countActiveApiTokens(userId: number): Promise<number>;
+  revokeApiToken(userId: number, id: number): Promise<ApiToken | undefined>;
+  markApiTokenUsed(id: number, ipAddress: string | null): Promise<void>;
+  revokeAllApiTokens(userId: number): Promise<number>;
 }
 
 export class DatabaseStorage implements IStorage {
@@ -100,7 +340,27 @@ export class DatabaseStorage implements IStorage {
     return user;
   }
 
-  async createUser(insertUser: InsertUser & { firebaseId?: string }): Promise<User> {
+  async getUserByStripeCustomerId(stripeCustomerId: string): Promise<User | undefined> {
+    const [user] = await db.select().from(users).where(eq(users.stripeCustomerId, stripeCustomerId));
+    return user;
+  }
+
+  async getUserByPaystackCustomerCode(customerCode: string): Promise<User | undefined> {
+    const [user] = await db.select().from(users).where(eq(users.paystackCustomerCode, customerCode));
+    return user;
+  }
+
+  async getUserByPaystackSubscriptionCode(subscriptionCode: string): Promise<User | undefined> {
+    const [user] = await db.select().from(users).where(eq(users.paystackSubscriptionCode, subscriptionCode));
+    return user;
+  }
+
+  async getUserByFlutterwaveSubscriptionId(subscriptionId: string): Promise<User | undefined> {
+    const [user] = await db.select().from(users).where(eq(users.flutterwaveSubscriptionId, subscriptionId));
+    return user;
+  }
+
+  async createUser(insertUser: InsertUser & { firebaseId?: string; signupIp?: string | null }): Promise<User> {
     const currentDate = new Date();
     const [user] = await db.insert(users)
       .values({
@@ -114,7 +374,7 @@ export class DatabaseStorage implements IStorage {
     return user;
   }
   
-  async updateUserSubscription(userId: number, subscription: string, expiryDate?: Date): Promise<User> {
+  async updateUserSubscription(userId: number, subscription: string, expiryDate?: Date | null): Promise<User> {
     const [user] = await db.update(users)
       .set({
         subscription,
@@ -125,6 +385,22 @@ export class DatabaseStorage implements IStorage {
     return user;
   }
   
+  async updateUserRole(userId: number, role: string): Promise<User | undefined> {
+    const [user] = await db.update(users)
+      .set({ role })
+      .where(eq(users.id, userId))
+      .returning();
+    return user;
+  }
+
+  async updateSubscriptionStatus(userId: number, status: SubscriptionStatus | null): Promise<User> {
+    const [user] = await db.update(users)
+      .set({ subscriptionStatus: status })
+      .where(eq(users.id, userId))
+      .returning();
+    return user;
+  }
+  
   async updateStripeCustomerId(userId: number, stripeCustomerId: string): Promise<User> {
     const [user] = await db.update(users)
       .set({ stripeCustomerId })
@@ -141,18 +417,350 @@ export class DatabaseStorage implements IStorage {
     return user;
   }
   
+  async updatePaystackCodes(userId: number, codes: { customerCode?: string; subscriptionCode?: string | null; authorizationCode?: string }): Promise<User> {
+    const [user] = await db.update(users)
+      .set({
+        paystackCustomerCode: codes.customerCode,
+        paystackSubscriptionCode: codes.subscriptionCode,
+        paystackAuthorizationCode: codes.authorizationCode
+      })
+      .where(eq(users.id, userId))
+      .returning();
+    return user;
+  }
+
+  async updateFlutterwaveSubscriptionId(userId: number, flutterwaveSubscriptionId: string | null): Promise<User> {
+    const [user] = await db.update(users)
+      .set({ flutterwaveSubscriptionId })
+      .where(eq(users.id, userId))
+      .returning();
+    return user;
+  }
+  
+  async setPendingSubscription(userId: number, planName: string | null, effectiveAt: Date | null): Promise<User> {
+    const [user] = await db.update(users)
+      .set({
+        pendingSubscription: planName,
+        pendingSubscriptionAt: effectiveAt
+      })
+      .where(eq(users.id, userId))
+      .returning();
+    return user;
+  }
+  
+  async getDuePendingSubscriptions(now: Date): Promise<User[]> {
+    return await db.select()
+      .from(users)
+      .where(and(
+        isNotNull(users.pendingSubscription),
+        lt(users.pendingSubscriptionAt, now)
+      ));
+  }
+  
+  async switchUserPlan(userId: number, plan: SubscriptionPlan): Promise<User> {
+    const [user] = await db.update(users)
+      .set({
+        subscription: plan.name,
+        dataLimit: plan.dataLimit,
+        dailyTimeLimit: plan.dailyTimeLimit,
+        pendingSubscription: null,
+        pendingSubscriptionAt: null
+      })
+      .where(eq(users.id, userId))
+      .returning();
+    return user;
+  }
+  
+  async startTrial(userId: number, plan: SubscriptionPlan, endsAt: Date): Promise<User> {
+    const [user] = await db.update(users)
+      .set({
+        subscription: plan.name,
+        subscriptionExpiryDate: endsAt,
+        subscriptionStatus: subscriptionStatuses.TRIALING,
+        dataLimit: plan.dataLimit,
+        dailyTimeLimit: plan.dailyTimeLimit,
+        trialUsedAt: new Date()
+      })
+      .where(and(eq(users.id, userId), isNull(users.trialUsedAt)))
+      .returning();
+    return user;
+  }
+  
+  async getExpiredTrials(now: Date): Promise<User[]> {
+    return await db.select()
+      .from(users)
+      .where(and(
+        eq(users.subscriptionStatus, subscriptionStatuses.TRIALING),
+        lt(users.subscriptionExpiryDate, now)
+      ));
+  }
+  
+  async updateUserCurrency(userId: number, currency: string): Promise<User> {
+    const [user] = await db.update(users)
+      .set({ currency })
+      .where(eq(users.id, userId))
+      .returning();
+    return user;
+  }
+  
   async updateUserEmail(userId: number, email: string): Promise<User> {
     const [user] = await db.update(users)
-      .set({ email })
+      .set({
+        email,
+        // A new address has to be verified again
+        emailVerifiedAt: sql`CASE WHEN lower(${users.email}) = lower(${email}) THEN ${users.emailVerifiedAt} ELSE NULL END`
+      })
+      .where(eq(users.id, userId))
+      .returning();
+    return user;
+  }
+
+  async getUsersByEmail(email: string): Promise<User[]> {
+    return await db.select()
+      .from(users)
+      .where(sql`lower(${users.email}) = lower(${email.trim()})`);
+  }
+
+  async markEmailVerified(userId: number, email: string): Promise<User | undefined> {
+    // Only the address the link was sent to is verified, in case it's changed since
+    const [user] = await db.update(users)
+      .set({ emailVerifiedAt: new Date() })
+      .where(and(eq(users.id, userId), sql`lower(${users.email}) = lower(${email})`))
+      .returning();
+    return user;
+  }
+
+  async updateUserPassword(userId: number, password: string): Promise<User> {
+    const [user] = await db.update(users)
+      .set({ password })
+      .where(eq(users.id, userId))
+      .returning();
+    return user;
+  }
+
+  async deleteUserSessions(userId: number, exceptSessionId?: string): Promise<number> {
+    // Sessions are kept by connect-pg-simple, with the user ID passport stored in them
+    const result = await db.execute(sql`
+      DELETE FROM "session"
+      WHERE sess->'passport'->>'user' = ${userId.toString()}
+      ${exceptSessionId ? sql`AND sid <> ${exceptSessionId}` : sql``}
+    `);
+    return result.rowCount ?? 0;
+  }
+
+  async getUserLoginSessions(userId: number): Promise<LoginSessionRecord[]> {
+    const result = await db.execute(sql`
+      SELECT sid, sess, expire FROM "session"
+      WHERE sess->'passport'->>'user' = ${userId.toString()} AND expire > now()
+      ORDER BY expire DESC
+    `);
+    return result.rows.map((row: any) => ({ sid: row.sid, sess: row.sess, expire: new Date(row.expire) }));
+  }
+
+  async deleteLoginSession(userId: number, sid: string): Promise<boolean> {
+    // Checking the user too means one user can never end another's session
+    const result = await db.execute(sql`
+      DELETE FROM "session"
+      WHERE sid = ${sid} AND sess->'passport'->>'user' = ${userId.toString()}
+    `);
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  async markSessionsRevoked(userId: number): Promise<User | undefined> {
+    const [user] = await db.update(users)
+      .set({ sessionsRevokedAt: new Date() })
+      .where(eq(users.id, userId))
+      .returning();
+    return user;
+  }
+
+  // Account deletion methods
+  async getUserDataExport(userId: number): Promise<UserDataExport | undefined> {
+    const user = await this.getUser(userId);
+    if (!user) {
+      return undefined;
+    }
+
+    const [settings] = await db.select().from(vpnUserSettings).where(eq(vpnUserSettings.userId, userId));
+    const [preferences] = await db.select().from(emailPreferences).where(eq(emailPreferences.userId, userId));
+    const [referredBy] = await db.select().from(referrals).where(eq(referrals.referredUserId, userId));
+    const [membership] = await db.select().from(organizationMembers).where(eq(organizationMembers.userId, userId));
+
+    return {
+      user,
+      settings: settings || null,
+      emailPreferences: preferences || null,
+      devices: await db.select().from(devices).where(eq(devices.userId, userId)).orderBy(devices.createdAt),
+      sessions: await db.select().from(vpnSessions).where(eq(vpnSessions.userId, userId)).orderBy(vpnSessions.startTime),
+      usage: await db.select().from(usageBuckets).where(eq(usageBuckets.userId, userId)).orderBy(usageBuckets.bucketStart),
+      invoices: await db.select().from(invoices).where(eq(invoices.userId, userId)).orderBy(invoices.createdAt),
+      payments: await db.select().from(payments).where(eq(payments.userId, userId)).orderBy(payments.createdAt),
+      refunds: await db.select().from(refunds).where(eq(refunds.userId, userId)).orderBy(refunds.createdAt),
+      couponRedemptions: await db.select().from(couponRedemptions).where(eq(couponRedemptions.userId, userId)),
+      redeemedVouchers: await db.select().from(vouchers).where(eq(vouchers.redeemedBy, userId)),
+      referralsMade: await db.select().from(referrals).where(eq(referrals.referrerId, userId)),
+      referredBy: referredBy || null,
+      organizationMembership: membership || null,
+      apiTokens: await db.select().from(apiTokens).where(eq(apiTokens.userId, userId)),
+      // The rendered bodies can be large, so list the emails without them
+      emails: await db.select({
+        id: emailMessages.id,
+        to: emailMessages.to,
+        template: emailMessages.template,
+        subject: emailMessages.subject,
+        status: emailMessages.status,
+        sentAt: emailMessages.sentAt,
+        createdAt: emailMessages.createdAt
+      }).from(emailMessages).where(eq(emailMessages.userId, userId)).orderBy(emailMessages.createdAt)
+    };
+  }
+
+  async scheduleUserDeletion(userId: number, at: Date | null): Promise<User | undefined> {
+    const [user] = await db.update(users)
+      .set({ deletionScheduledAt: at })
       .where(eq(users.id, userId))
       .returning();
     return user;
   }
 
+  async getUsersDueForDeletion(now: Date): Promise<User[]> {
+    return await db.select()
+      .from(users)
+      .where(and(isNotNull(users.deletionScheduledAt), lt(users.deletionScheduledAt, now)));
+  }
+
+  async eraseUser(userId: number): Promise<void> {
+    const [user] = await db.select().from(users).where(eq(users.id, userId));
+    if (!user) {
+      return;
+    }
+
+    await db.transaction(async (tx) => {
+      // Keep traffic history for capacity planning, with nothing tying it to the person
+      await tx.update(vpnSessions).set({ userId: ERASED_USER_ID, deviceId: null }).where(eq(vpnSessions.userId, userId));
+      await tx.update(usageBuckets).set({ userId: ERASED_USER_ID, deviceId: null }).where(eq(usageBuckets.userId, userId));
+
+      await tx.delete(ipAddressLeases).where(eq(ipAddressLeases.userId, userId));
+      await tx.delete(wireguardPeers).where(eq(wireguardPeers.userId, userId));
+      await tx.delete(devices).where(eq(devices.userId, userId));
+      await tx.delete(vpnUserSettings).where(eq(vpnUserSettings.userId, userId));
+      await tx.delete(emailMessages).where(eq(emailMessages.userId, userId));
+      await tx.delete(emailPreferences).where(eq(emailPreferences.userId, userId));
+      await tx.delete(twoFactorRecoveryCodes).where(eq(twoFactorRecoveryCodes.userId, userId));
+      await tx.delete(apiTokens).where(eq(apiTokens.userId, userId));
+      await tx.delete(organizationMembers).where(eq(organizationMembers.userId, userId));
+      if (user.email) {
+        await tx.delete(organizationInvitations).where(sql`lower(${organizationInvitations.email}) = lower(${user.email})`);
+      }
+      await tx.delete(referrals).where(or(eq(referrals.referrerId, userId), eq(referrals.referredUserId, userId)));
+      await tx.update(users).set({ referredBy: null }).where(eq(users.referredBy, userId));
+      await tx.execute(sql`DELETE FROM "session" WHERE sess->'passport'->>'user' = ${userId.toString()}`);
+
+      // Invoices, payments, refunds and coupon redemptions stay for the accounts,
+      // keyed by a user ID that no longer leads to a name or email address
+      await tx.delete(users).where(eq(users.id, userId));
+    });
+  }
+
+  // Two-factor authentication methods
+  async enableTwoFactor(userId: number, secret: string, step: number, recoveryCodeHashes: string[]): Promise<User> {
+    return await db.transaction(async (tx) => {
+      const [user] = await tx.update(users)
+        .set({ twoFactorSecret: secret, twoFactorEnabledAt: new Date(), twoFactorLastStep: step })
+        .where(eq(users.id, userId))
+        .returning();
+      await tx.delete(twoFactorRecoveryCodes).where(eq(twoFactorRecoveryCodes.userId, userId));
+      await tx.insert(twoFactorRecoveryCodes).values(recoveryCodeHashes.map(codeHash => ({ userId, codeHash })));
+      return user;
+    });
+  }
+
+  async disableTwoFactor(userId: number): Promise<User> {
+    return await db.transaction(async (tx) => {
+      const [user] = await tx.update(users)
+        .set({ twoFactorSecret: null, twoFactorEnabledAt: null, twoFactorLastStep: null })
+        .where(eq(users.id, userId))
+        .returning();
+      await tx.delete(twoFactorRecoveryCodes).where(eq(twoFactorRecoveryCodes.userId, userId));
+      return user;
+    });
+  }
+
+  async recordTwoFactorStep(userId: number, step: number): Promise<boolean> {
+    // Accept each time step once, so an intercepted code can't be replayed
+    const [user] = await db.update(users)
+      .set({ twoFactorLastStep: step })
+      .where(and(
+        eq(users.id, userId),
+        or(isNull(users.twoFactorLastStep), lt(users.twoFactorLastStep, step))
+      ))
+      .returning();
+    return !!user;
+  }
+
+  async replaceRecoveryCodes(userId: number, codeHashes: string[]): Promise<void> {
+    await db.transaction(async (tx) => {
+      await tx.delete(twoFactorRecoveryCodes).where(eq(twoFactorRecoveryCodes.userId, userId));
+      await tx.insert(twoFactorRecoveryCodes).values(codeHashes.map(codeHash => ({ userId, codeHash })));
+    });
+  }
+
+  async useRecoveryCode(userId: number, codeHash: string): Promise<TwoFactorRecoveryCode | undefined> {
+    const [code] = await db.update(twoFactorRecoveryCodes)
+      .set({ usedAt: new Date() })
+      .where(and(
+        eq(twoFactorRecoveryCodes.userId, userId),
+        eq(twoFactorRecoveryCodes.codeHash, codeHash),
+        isNull(twoFactorRecoveryCodes.usedAt)
+      ))
+      .returning();
+    return code;
+  }
+
+  async countUnusedRecoveryCodes(userId: number): Promise<number> {
+    const [result] = await db.select({ count: count() })
+      .from(twoFactorRecoveryCodes)
+      .where(and(eq(twoFactorRecoveryCodes.userId, userId), isNull(twoFactorRecoveryCodes.usedAt)));
+    return result?.count ?? 0;
+  }
+
   async getAllUsers(): Promise<User[]> {
     return await db.select().from(users).orderBy(desc(users.createdAt));
   }
 
+  async getLapsedSubscriptions(expiredBefore: Date): Promise<User[]> {
+    return await db.select()
+      .from(users)
+      .where(and(
+        ne(users.subscription, subscriptionTiers.FREE),
+        isNotNull(users.subscriptionExpiryDate),
+        lt(users.subscriptionExpiryDate, expiredBefore)
+      ));
+  }
+
+  async getSubscriptionsExpiringBetween(from: Date, to: Date): Promise<User[]> {
+    return await db.select()
+      .from(users)
+      .where(and(
+        ne(users.subscription, subscriptionTiers.FREE),
+        gte(users.subscriptionExpiryDate, from),
+        lt(users.subscriptionExpiryDate, to)
+      ));
+  }
+
+  async resetUserToPlan(userId: number, plan: SubscriptionPlan): Promise<User> {
+    const [user] = await db.update(users)
+      .set({
+        subscription: plan.name,
+        subscriptionExpiryDate: null,
+        dataLimit: plan.dataLimit,
+        dailyTimeLimit: plan.dailyTimeLimit
+      })
+      .where(eq(users.id, userId))
+      .returning();
+    return user;
+  }
+
   // Server methods
   async getAllServers(): Promise<VpnServer[]> {
     return await db.select().from(vpnServers);
@@ -204,85 +812,283 @@ export class DatabaseStorage implements IStorage {
       return allServers;
     }
     
-    // Filter based on subscription tier
-    if (user.subscription === subscriptionTiers.FREE || user.subscription === subscriptionTiers.BASIC) {
+    // Filter based on the plan's server access, which may come from the user's organization
+    if (!(await this.checkUserFeatureAccess(userId, 'premium_servers'))) {
       // Free and basic users can only access standard servers (not premium)
       return allServers.filter(server => !server.premium);
-    } else if (user.subscription === subscriptionTiers.PREMIUM) {
-      // Premium users can access all servers
-      return allServers;
     }
     
-    // Ultimate users get all servers
+    // Premium and ultimate users get all servers
     return allServers;
   }
 
-  // User settings methods
-  async getUserSettings(userId: number): Promise<VpnUserSettings | undefined> {
-    const [settings] = await db.select().from(vpnUserSettings).where(eq(vpnUserSettings.userId, userId));
-    return settings;
+  async updateServerWireguardKey(serverId: number, publicKey: string): Promise<VpnServer> {
+    const [server] = await db.update(vpnServers)
+      .set({ wgPublicKey: publicKey })
+      .where(eq(vpnServers.id, serverId))
+      .returning();
+    return server;
   }
 
-  async createUserSettings(settings: InsertVpnUserSettings): Promise<VpnUserSettings> {
-    const [userSettings] = await db.insert(vpnUserSettings)
-      .values(settings)
-      .returning();
-    return userSettings;
+  // Device methods
+  async getUserDevices(userId: number): Promise<Device[]> {
+    return await db.select()
+      .from(devices)
+      .where(and(
+        eq(devices.userId, userId),
+        isNull(devices.revokedAt)
+      ))
+      .orderBy(devices.createdAt);
   }
 
-  async updateUserSettings(settings: InsertVpnUserSettings): Promise<VpnUserSettings> {
-    const { userId } = settings;
-    const existing = await this.getUserSettings(userId);
-    
-    if (existing) {
-      // Ensure all nullable fields have explicit null values instead of undefined
-      const updatedSettings = {
-        ...settings,
-        killSwitch: settings.killSwitch ?? existing.killSwitch,
-        dnsLeakProtection: settings.dnsLeakProtection ?? existing.dnsLeakProtection,
-        doubleVpn: settings.doubleVpn ?? existing.doubleVpn,
-        obfuscation: settings.obfuscation ?? existing.obfuscation,
-        antiCensorship: settings.antiCensorship ?? existing.antiCensorship,
-        preferredProtocol: settings.preferredProtocol ?? existing.preferredProtocol,
-        preferredEncryption: settings.preferredEncryption ?? existing.preferredEncryption
-      };
-      
-      const [updated] = await db.update(vpnUserSettings)
-        .set(updatedSettings)
-        .where(eq(vpnUserSettings.id, existing.id))
-        .returning();
-      return updated;
-    } else {
-      // For new settings, ensure that null values are provided for all nullable fields
-      const newSettings = {
-        ...settings,
-        killSwitch: settings.killSwitch ?? false,
-        dnsLeakProtection: settings.dnsLeakProtection ?? false,
-        doubleVpn: settings.doubleVpn ?? false,
-        obfuscation: settings.obfuscation ?? false,
-        antiCensorship: settings.antiCensorship ?? false,
-        preferredProtocol: settings.preferredProtocol ?? "openvpn",
-        preferredEncryption: settings.preferredEncryption ?? "aes-256-gcm"
-      };
-      return this.createUserSettings(newSettings);
-    }
+  async getDevice(id: number): Promise<Device | undefined> {
+    const [device] = await db.select().from(devices).where(eq(devices.id, id));
+    return device;
   }
 
-  // Session methods
-  async getUserSessions(userId: number): Promise<VpnSession[]> {
-    return await db.select()
-      .from(vpnSessions)
-      .where(eq(vpnSessions.userId, userId))
-      .orderBy(desc(vpnSessions.startTime));
+  async getDeviceByPublicKey(publicKey: string): Promise<Device | undefined> {
+    const [device] = await db.select().from(devices).where(eq(devices.publicKey, publicKey));
+    return device;
   }
 
-  async getCurrentSession(userId: number): Promise<VpnSession | undefined> {
-    const [session] = await db.select()
-      .from(vpnSessions)
+  async createDevice(device: InsertDevice): Promise<Device> {
+    const [newDevice] = await db.insert(devices)
+      .values(device)
+      .returning();
+    return newDevice;
+  }
+
+  async updateDeviceLastSeen(id: number): Promise<void> {
+    await db.update(devices)
+      .set({ lastSeenAt: new Date() })
+      .where(eq(devices.id, id));
+  }
+
+  async revokeDevice(id: number): Promise<Device | undefined> {
+    const [device] = await db.update(devices)
+      .set({ revokedAt: new Date() })
+      .where(eq(devices.id, id))
+      .returning();
+    return device;
+  }
+
+  // WireGuard peer methods
+  async getActiveWireguardPeer(userId: number, serverId: number, deviceId: number | null = null): Promise<WireguardPeer | undefined> {
+    const [peer] = await db.select()
+      .from(wireguardPeers)
+      .where(and(
+        eq(wireguardPeers.userId, userId),
+        eq(wireguardPeers.serverId, serverId),
+        deviceId === null ? isNull(wireguardPeers.deviceId) : eq(wireguardPeers.deviceId, deviceId),
+        isNull(wireguardPeers.revokedAt)
+      ));
+    return peer;
+  }
+
+  async getActiveServerPeers(serverId: number): Promise<WireguardPeer[]> {
+    return await db.select()
+      .from(wireguardPeers)
+      .where(and(
+        eq(wireguardPeers.serverId, serverId),
+        isNull(wireguardPeers.revokedAt)
+      ));
+  }
+
+  async getActiveDevicePeers(deviceId: number): Promise<WireguardPeer[]> {
+    return await db.select()
+      .from(wireguardPeers)
+      .where(and(
+        eq(wireguardPeers.deviceId, deviceId),
+        isNull(wireguardPeers.revokedAt)
+      ));
+  }
+
+  async createWireguardPeer(peer: InsertWireguardPeer): Promise<WireguardPeer> {
+    const [newPeer] = await db.insert(wireguardPeers)
+      .values(peer)
+      .returning();
+    return newPeer;
+  }
+
+  async revokeWireguardPeer(peerId: number): Promise<WireguardPeer | undefined> {
+    const [peer] = await db.update(wireguardPeers)
+      .set({ revokedAt: new Date() })
+      .where(eq(wireguardPeers.id, peerId))
+      .returning();
+    return peer;
+  }
+
+  // IP address pool methods
+  async getActiveServerLeases(serverId: number, family?: string): Promise<IpAddressLease[]> {
+    const conditions = [
+      eq(ipAddressLeases.serverId, serverId),
+      isNull(ipAddressLeases.releasedAt)
+    ];
+    if (family) {
+      conditions.push(eq(ipAddressLeases.family, family));
+    }
+    return await db.select().from(ipAddressLeases).where(and(...conditions));
+  }
+
+  async getSessionLeases(sessionId: number): Promise<IpAddressLease[]> {
+    return await db.select()
+      .from(ipAddressLeases)
+      .where(eq(ipAddressLeases.sessionId, sessionId))
+      .orderBy(desc(ipAddressLeases.leasedAt));
+  }
+
+  async createIpLease(lease: InsertIpAddressLease): Promise<IpAddressLease> {
+    const [newLease] = await db.insert(ipAddressLeases)
+      .values(lease)
+      .returning();
+    return newLease;
+  }
+
+  async assignLeasesToPeer(leaseIds: number[], peerId: number): Promise<void> {
+    if (leaseIds.length === 0) return;
+    await db.update(ipAddressLeases)
+      .set({ peerId })
+      .where(inArray(ipAddressLeases.id, leaseIds));
+  }
+
+  async renewSessionLeases(sessionIds: number[], expiresAt: Date): Promise<void> {
+    if (sessionIds.length === 0) return;
+    await db.update(ipAddressLeases)
+      .set({ expiresAt })
+      .where(and(
+        inArray(ipAddressLeases.sessionId, sessionIds),
+        isNull(ipAddressLeases.releasedAt)
+      ));
+  }
+
+  async releaseSessionLeases(sessionId: number): Promise<IpAddressLease[]> {
+    return await db.update(ipAddressLeases)
+      .set({ releasedAt: new Date() })
+      .where(and(
+        eq(ipAddressLeases.sessionId, sessionId),
+        isNull(ipAddressLeases.releasedAt)
+      ))
+      .returning();
+  }
+
+  async releasePeerLeases(peerId: number): Promise<IpAddressLease[]> {
+    return await db.update(ipAddressLeases)
+      .set({ releasedAt: new Date() })
+      .where(and(
+        eq(ipAddressLeases.peerId, peerId),
+        isNull(ipAddressLeases.releasedAt)
+      ))
+      .returning();
+  }
+
+  async releaseLeases(leaseIds: number[]): Promise<void> {
+    if (leaseIds.length === 0) return;
+    await db.update(ipAddressLeases)
+      .set({ releasedAt: new Date() })
+      .where(inArray(ipAddressLeases.id, leaseIds));
+  }
+
+  async releaseExpiredLeases(now: Date): Promise<IpAddressLease[]> {
+    return await db.update(ipAddressLeases)
+      .set({ releasedAt: now })
+      .where(and(
+        isNull(ipAddressLeases.releasedAt),
+        isNotNull(ipAddressLeases.expiresAt),
+        lt(ipAddressLeases.expiresAt, now)
+      ))
+      .returning();
+  }
+
+  // User settings methods
+  async getUserSettings(userId: number): Promise<VpnUserSettings | undefined> {
+    const [settings] = await db.select().from(vpnUserSettings).where(eq(vpnUserSettings.userId, userId));
+    return settings;
+  }
+
+  async createUserSettings(settings: InsertVpnUserSettings): Promise<VpnUserSettings> {
+    const [userSettings] = await db.insert(vpnUserSettings)
+      .values(settings)
+      .returning();
+    return userSettings;
+  }
+
+  async updateUserSettings(settings: InsertVpnUserSettings): Promise<VpnUserSettings> {
+    const { userId } = settings;
+    const existing = await this.getUserSettings(userId);
+    
+    if (existing) {
+      // Ensure all nullable fields have explicit null values instead of undefined
+      const updatedSettings = {
+        ...settings,
+        killSwitch: settings.killSwitch ?? existing.killSwitch,
+        dnsLeakProtection: settings.dnsLeakProtection ?? existing.dnsLeakProtection,
+        doubleVpn: settings.doubleVpn ?? existing.doubleVpn,
+        obfuscation: settings.obfuscation ?? existing.obfuscation,
+        antiCensorship: settings.antiCensorship ?? existing.antiCensorship,
+        preferredProtocol: settings.preferredProtocol ?? existing.preferredProtocol,
+        preferredEncryption: settings.preferredEncryption ?? existing.preferredEncryption
+      };
+      
+      const [updated] = await db.update(vpnUserSettings)
+        .set(updatedSettings)
+        .where(eq(vpnUserSettings.id, existing.id))
+        .returning();
+      return updated;
+    } else {
+      // For new settings, ensure that null values are provided for all nullable fields
+      const newSettings = {
+        ...settings,
+        killSwitch: settings.killSwitch ?? false,
+        dnsLeakProtection: settings.dnsLeakProtection ?? false,
+        doubleVpn: settings.doubleVpn ?? false,
+        obfuscation: settings.obfuscation ?? false,
+        antiCensorship: settings.antiCensorship ?? false,
+        preferredProtocol: settings.preferredProtocol ?? "openvpn",
+        preferredEncryption: settings.preferredEncryption ?? "aes-256-gcm"
+      };
+      return this.createUserSettings(newSettings);
+    }
+  }
+
+  // Session methods
+  async getUserSessions(userId: number): Promise<VpnSession[]> {
+    return await db.select()
+      .from(vpnSessions)
+      .where(eq(vpnSessions.userId, userId))
+      .orderBy(desc(vpnSessions.startTime));
+  }
+
+  async getCurrentSession(userId: number): Promise<VpnSession | undefined> {
+    const [session] = await db.select()
+      .from(vpnSessions)
       .where(and(
         eq(vpnSessions.userId, userId),
         isNull(vpnSessions.endTime)
-      ));
+      ))
+      .orderBy(desc(vpnSessions.startTime));
+    return session;
+  }
+
+  async getActiveSessions(userId: number): Promise<VpnSession[]> {
+    return await db.select()
+      .from(vpnSessions)
+      .where(and(
+        eq(vpnSessions.userId, userId),
+        isNull(vpnSessions.endTime)
+      ))
+      .orderBy(desc(vpnSessions.startTime));
+  }
+
+  async getDeviceSession(userId: number, deviceId: number): Promise<VpnSession | undefined> {
+    // Sessions from before devices were tracked count as the device's own
+    const [session] = await db.select()
+      .from(vpnSessions)
+      .where(and(
+        eq(vpnSessions.userId, userId),
+        or(eq(vpnSessions.deviceId, deviceId), isNull(vpnSessions.deviceId)),
+        isNull(vpnSessions.endTime)
+      ))
+      .orderBy(desc(vpnSessions.startTime));
     return session;
   }
 
@@ -302,27 +1108,66 @@ export class DatabaseStorage implements IStorage {
 
   async endCurrentSession(userId: number): Promise<VpnSession | undefined> {
     const currentSession = await this.getCurrentSession(userId);
+    return currentSession ? await this.endSession(currentSession) : undefined;
+  }
+
+  async endDeviceSession(userId: number, deviceId: number): Promise<VpnSession | undefined> {
+    const deviceSession = await this.getDeviceSession(userId, deviceId);
+    return deviceSession ? await this.endSession(deviceSession) : undefined;
+  }
+
+  private async endSession(currentSession: VpnSession): Promise<VpnSession> {
+    // Traffic totals are written by the usage meter when the tunnel closes
+    const [updatedSession] = await db.update(vpnSessions)
+      .set({ endTime: new Date() })
+      .where(eq(vpnSessions.id, currentSession.id))
+      .returning();
     
-    if (currentSession) {
-      const endTime = new Date();
-      // Generate random upload/download data for the session (for demo purposes)
-      const duration = endTime.getTime() - new Date(currentSession.startTime).getTime();
-      const dataUploaded = Math.floor(Math.random() * 500) * 1024 * 1024; // Random MB in bytes
-      const dataDownloaded = Math.floor(Math.random() * 750) * 1024 * 1024; // Random MB in bytes
-      
-      const [updatedSession] = await db.update(vpnSessions)
-        .set({
-          endTime,
-          dataUploaded,
-          dataDownloaded
-        })
-        .where(eq(vpnSessions.id, currentSession.id))
-        .returning();
-      
-      return updatedSession;
-    }
-    
-    return undefined;
+    return updatedSession;
+  }
+
+  async updateSessionTraffic(sessionId: number, dataUploaded: number, dataDownloaded: number): Promise<void> {
+    await db.update(vpnSessions)
+      .set({ dataUploaded, dataDownloaded })
+      .where(eq(vpnSessions.id, sessionId));
+  }
+
+  // Usage metering methods
+  async addUsage(usage: InsertUsageBucket): Promise<void> {
+    await db.insert(usageBuckets)
+      .values(usage)
+      .onConflictDoUpdate({
+        target: [usageBuckets.sessionId, usageBuckets.bucketStart],
+        set: {
+          bytesUp: sql`${usageBuckets.bytesUp} + ${usage.bytesUp ?? 0}`,
+          bytesDown: sql`${usageBuckets.bytesDown} + ${usage.bytesDown ?? 0}`
+        }
+      });
+  }
+
+  async getSessionUsageTotals(sessionId: number): Promise<{ uploaded: number; downloaded: number }> {
+    const [totals] = await db.select({
+      uploaded: sql<number>`coalesce(sum(${usageBuckets.bytesUp}), 0)`.mapWith(Number),
+      downloaded: sql<number>`coalesce(sum(${usageBuckets.bytesDown}), 0)`.mapWith(Number)
+    })
+      .from(usageBuckets)
+      .where(eq(usageBuckets.sessionId, sessionId));
+    return totals;
+  }
+
+  private async getUserDailyUsage(userId: number, since: Date): Promise<{ date: string; uploaded: number; downloaded: number }[]> {
+    const day = sql<string>`to_char(${usageBuckets.bucketStart}, 'YYYY-MM-DD')`;
+    return await db.select({
+      date: day,
+      uploaded: sql<number>`coalesce(sum(${usageBuckets.bytesUp}), 0)`.mapWith(Number),
+      downloaded: sql<number>`coalesce(sum(${usageBuckets.bytesDown}), 0)`.mapWith(Number)
+    })
+      .from(usageBuckets)
+      .where(and(
+        eq(usageBuckets.userId, userId),
+        gte(usageBuckets.bucketStart, since)
+      ))
+      .groupBy(day);
   }
 
   // Usage statistics
@@ -344,15 +1189,6 @@ export class DatabaseStorage implements IStorage {
         break;
     }
     
-    // Get sessions within the date range
-    const sessions = await db.select()
-      .from(vpnSessions)
-      .where(and(
-        eq(vpnSessions.userId, userId),
-        gte(vpnSessions.startTime, startDate)
-      ))
-      .orderBy(vpnSessions.startTime);
-    
     let totalUploaded = 0;
     let totalDownloaded = 0;
     
@@ -373,21 +1209,16 @@ export class DatabaseStorage implements IStorage {
       dates.set(dateString, { uploaded: 0, downloaded: 0 });
     }
     
-    // Calculate totals and daily data
-    sessions.forEach(session => {
-      if (session.dataUploaded && session.dataDownloaded) {
-        totalUploaded += session.dataUploaded;
-        totalDownloaded += session.dataDownloaded;
-        
-        // Add to daily data
-        const dateString = new Date(session.startTime).toISOString().split('T')[0];
-        const day = dates.get(dateString);
-        
-        if (day) {
-          day.uploaded += session.dataUploaded;
-          day.downloaded += session.dataDownloaded;
-          dates.set(dateString, day);
-        }
+    // Calculate totals and daily data from the hourly usage rollups
+    const usage = await this.getUserDailyUsage(userId, startDate);
+    usage.forEach(row => {
+      totalUploaded += row.uploaded;
+      totalDownloaded += row.downloaded;
+      
+      const day = dates.get(row.date);
+      if (day) {
+        day.uploaded += row.uploaded;
+        day.downloaded += row.downloaded;
       }
     });
     
@@ -412,10 +1243,8 @@ export class DatabaseStorage implements IStorage {
   }
   
   async checkUserFeatureAccess(userId: number, feature: string): Promise<boolean> {
-    const user = await this.getUser(userId);
-    if (!user) return false;
-    
-    const plan = await this.getSubscriptionPlanByName(user.subscription);
+    // The user's own plan, or their organization's when it's better
+    const plan = await this.getUserPlan(userId);
     if (!plan) return false;
     
     switch (feature) {
@@ -425,12 +1254,14 @@ export class DatabaseStorage implements IStorage {
         return !!plan.obfuscationAccess;
       case 'anti-censorship':
         // Anti-censorship is available for premium and ultimate plans
-        return user.subscription === 'premium' || user.subscription === 'ultimate';
+        return plan.name === 'premium' || plan.name === 'ultimate';
       case 'shadowsocks':
         return !!plan.shadowsocksAccess;
       case 'premium-encryption':
         // Premium encryption is only available for premium and ultimate plans
-        return user.subscription === 'premium' || user.subscription === 'ultimate';
+        return plan.name === 'premium' || plan.name === 'ultimate';
+      case 'premium_servers':
+        return plan.serverAccess === 'premium' || plan.serverAccess === 'all';
       case 'ad_free':
         return !!plan.adFree;
       default:
@@ -446,34 +1277,36 @@ export class DatabaseStorage implements IStorage {
     isDataLimitReached: boolean;
     isTimeLimitReached: boolean;
   }> {
-    // Get user's data limit from their user record
+    // Get user's limits, preferring their subscription plan over the user record
     const user = await this.getUser(userId);
     if (!user) {
       throw new Error("User not found");
     }
+    const plan = await this.getUserPlan(userId);
+    const dataLimit = plan ? plan.dataLimit : (user.dataLimit || 1073741824); // 1GB default
+    const timeLimit = plan ? plan.dailyTimeLimit : (user.dailyTimeLimit || 60); // 60 minutes default
     
-    // Get today's sessions
+    // Both limits reset each day
     const today = new Date();
     today.setHours(0, 0, 0, 0);
     
+    // Calculate data used from the hourly usage rollups
+    const usage = await this.getUserDailyUsage(userId, today);
+    const dataUsed = usage.reduce((total, row) => total + row.uploaded + row.downloaded, 0);
+    
+    // Sessions still open or ended today count, including ones started before midnight
     const sessions = await db.select()
       .from(vpnSessions)
       .where(and(
         eq(vpnSessions.userId, userId),
-        gte(vpnSessions.startTime, today)
+        or(isNull(vpnSessions.endTime), gte(vpnSessions.endTime, today))
       ));
     
-    // Calculate data used
-    let dataUsed = 0;
     let timeUsedToday = 0; // in minutes
     
     for (const session of sessions) {
-      // Add data usage
-      if (session.dataUploaded) dataUsed += session.dataUploaded;
-      if (session.dataDownloaded) dataUsed += session.dataDownloaded;
-      
-      // Calculate session duration
-      const startTime = new Date(session.startTime);
+      // Only the part of the session since midnight counts towards today
+      const startTime = new Date(Math.max(new Date(session.startTime).getTime(), today.getTime()));
       const endTime = session.endTime ? new Date(session.endTime) : new Date();
       const durationMs = endTime.getTime() - startTime.getTime();
       const durationMinutes = Math.floor(durationMs / (1000 * 60));
@@ -481,13 +1314,14 @@ export class DatabaseStorage implements IStorage {
       timeUsedToday += durationMinutes;
     }
     
+    // Negative limits mean unlimited
     return {
       dataUsed,
-      dataLimit: user.dataLimit || 1073741824, // 1GB default
+      dataLimit,
       timeUsedToday,
-      timeLimit: user.dailyTimeLimit || 60, // 60 minutes default
-      isDataLimitReached: dataUsed >= (user.dataLimit || 1073741824),
-      isTimeLimitReached: timeUsedToday >= (user.dailyTimeLimit || 60)
+      timeLimit,
+      isDataLimitReached: dataLimit >= 0 && dataUsed >= dataLimit,
+      isTimeLimitReached: timeLimit >= 0 && timeUsedToday >= timeLimit
     };
   }
   
@@ -506,6 +1340,1029 @@ export class DatabaseStorage implements IStorage {
     return plan;
   }
 
+  async getSubscriptionPlanByStripePriceId(stripePriceId: string): Promise<SubscriptionPlan | undefined> {
+    const [plan] = await db.select().from(subscriptionPlans).where(eq(subscriptionPlans.stripePriceId, stripePriceId));
+    if (plan) {
+      return plan;
+    }
+
+    // Prices in other currencies
+    const [price] = await db.select().from(planPrices).where(eq(planPrices.stripePriceId, stripePriceId));
+    if (price) {
+      return await this.getSubscriptionPlan(price.planId);
+    }
+
+    // Prices the plan had before an admin changed it, which older subscriptions still bill
+    const [version] = await db.select().from(subscriptionPlanVersions)
+      .where(sql`${subscriptionPlanVersions.snapshot}->>'stripePriceId' = ${stripePriceId}`)
+      .orderBy(desc(subscriptionPlanVersions.version))
+      .limit(1);
+    return version ? await this.getSubscriptionPlan(version.planId) : undefined;
+  }
+
+  async getSubscriptionPlanByPaystackPlanCode(planCode: string): Promise<SubscriptionPlan | undefined> {
+    const [plan] = await db.select().from(subscriptionPlans).where(eq(subscriptionPlans.paystackPlanCode, planCode));
+    if (plan) {
+      return plan;
+    }
+
+    // Prices in other currencies
+    const [price] = await db.select().from(planPrices).where(eq(planPrices.paystackPlanCode, planCode));
+    if (price) {
+      return await this.getSubscriptionPlan(price.planId);
+    }
+
+    // Plan codes the plan had before an admin changed its price
+    const [version] = await db.select().from(subscriptionPlanVersions)
+      .where(sql`${subscriptionPlanVersions.snapshot}->>'paystackPlanCode' = ${planCode}`)
+      .orderBy(desc(subscriptionPlanVersions.version))
+      .limit(1);
+    return version ? await this.getSubscriptionPlan(version.planId) : undefined;
+  }
+
+  async getSubscriptionPlanByFlutterwavePlanId(planId: string): Promise<SubscriptionPlan | undefined> {
+    const [plan] = await db.select().from(subscriptionPlans).where(eq(subscriptionPlans.flutterwavePlanId, planId));
+    if (plan) {
+      return plan;
+    }
+
+    // Prices in other currencies
+    const [price] = await db.select().from(planPrices).where(eq(planPrices.flutterwavePlanId, planId));
+    if (price) {
+      return await this.getSubscriptionPlan(price.planId);
+    }
+
+    // Payment plans the plan had before an admin changed its price
+    const [version] = await db.select().from(subscriptionPlanVersions)
+      .where(sql`${subscriptionPlanVersions.snapshot}->>'flutterwavePlanId' = ${planId}`)
+      .orderBy(desc(subscriptionPlanVersions.version))
+      .limit(1);
+    return version ? await this.getSubscriptionPlan(version.planId) : undefined;
+  }
+
+  async createSubscriptionPlan(plan: InsertSubscriptionPlan, changedBy: number | null): Promise<SubscriptionPlan> {
+    return await db.transaction(async (tx) => {
+      const [created] = await tx.insert(subscriptionPlans).values(plan).returning();
+      await tx.insert(subscriptionPlanVersions).values({
+        planId: created.id,
+        version: created.version,
+        changeType: planChangeTypes.CREATED,
+        snapshot: created,
+        changedBy
+      });
+      return created;
+    });
+  }
+
+  async updateSubscriptionPlan(
+    id: number,
+    changes: Partial<Omit<SubscriptionPlan, 'id' | 'name' | 'version'>>,
+    changeType: PlanChangeType,
+    changedBy: number | null
+  ): Promise<SubscriptionPlan | undefined> {
+    return await db.transaction(async (tx) => {
+      const [updated] = await tx.update(subscriptionPlans)
+        .set({ ...changes, version: sql`${subscriptionPlans.version} + 1` })
+        .where(eq(subscriptionPlans.id, id))
+        .returning();
+      if (!updated) {
+        return undefined;
+      }
+
+      await tx.insert(subscriptionPlanVersions).values({
+        planId: updated.id,
+        version: updated.version,
+        changeType,
+        snapshot: updated,
+        changedBy
+      });
+      return updated;
+    });
+  }
+
+  async deleteSubscriptionPlan(id: number, changedBy: number | null): Promise<SubscriptionPlan | undefined> {
+    return await db.transaction(async (tx) => {
+      const [deleted] = await tx.delete(subscriptionPlans).where(eq(subscriptionPlans.id, id)).returning();
+      if (!deleted) {
+        return undefined;
+      }
+
+      await tx.delete(planPrices).where(eq(planPrices.planId, id));
+      // The history stays, ending with the plan as it was when deleted
+      await tx.insert(subscriptionPlanVersions).values({
+        planId: deleted.id,
+        version: deleted.version + 1,
+        changeType: planChangeTypes.DELETED,
+        snapshot: deleted,
+        changedBy
+      });
+      return deleted;
+    });
+  }
+
+  async getSubscriptionPlanVersions(planId: number): Promise<SubscriptionPlanVersion[]> {
+    return await db.select().from(subscriptionPlanVersions)
+      .where(eq(subscriptionPlanVersions.planId, planId))
+      .orderBy(desc(subscriptionPlanVersions.version));
+  }
+
+  async getSubscriptionPlanUsage(planName: string): Promise<{ subscribers: number; organizations: number; scheduled: number; vouchers: number }> {
+    const [[subscribers], [organizationCount], [scheduled], [outstandingVouchers]] = await Promise.all([
+      db.select({ count: count() }).from(users).where(eq(users.subscription, planName)),
+      db.select({ count: count() }).from(organizations).where(eq(organizations.subscription, planName)),
+      db.select({ count: count() }).from(users).where(eq(users.pendingSubscription, planName)),
+      // Unredeemed codes from batches that haven't expired can still be redeemed for the plan
+      db.select({ count: count() })
+        .from(vouchers)
+        .innerJoin(voucherBatches, eq(voucherBatches.id, vouchers.batchId))
+        .where(and(
+          eq(voucherBatches.planName, planName),
+          isNull(vouchers.redeemedAt),
+          or(isNull(voucherBatches.expiresAt), gt(voucherBatches.expiresAt, new Date()))
+        ))
+    ]);
+    return {
+      subscribers: subscribers.count,
+      organizations: organizationCount.count,
+      scheduled: scheduled.count,
+      vouchers: outstandingVouchers.count
+    };
+  }
+
+  async getPlanPrices(planIds?: number[]): Promise<PlanPrice[]> {
+    if (planIds) {
+      if (planIds.length === 0) {
+        return [];
+      }
+      return await db.select().from(planPrices).where(inArray(planPrices.planId, planIds));
+    }
+    return await db.select().from(planPrices);
+  }
+
+  async getPlanPrice(planId: number, currency: string): Promise<PlanPrice | undefined> {
+    const [price] = await db.select()
+      .from(planPrices)
+      .where(and(eq(planPrices.planId, planId), eq(planPrices.currency, currency)));
+    return price;
+  }
+
+  async upsertPlanPrice(price: InsertPlanPrice): Promise<PlanPrice> {
+    const [saved] = await db.insert(planPrices)
+      .values(price)
+      .onConflictDoUpdate({
+        target: [planPrices.planId, planPrices.currency],
+        // Provider prices are fixed amounts, so a new amount needs new ones
+        set: {
+          amount: price.amount,
+          stripePriceId: price.stripePriceId ?? null,
+          paystackPlanCode: price.paystackPlanCode ?? null,
+          flutterwavePlanId: price.flutterwavePlanId ?? null
+        }
+      })
+      .returning();
+    return saved;
+  }
+
+  async updatePlanPriceStripeId(id: number, stripePriceId: string): Promise<PlanPrice | undefined> {
+    const [price] = await db.update(planPrices)
+      .set({ stripePriceId })
+      .where(eq(planPrices.id, id))
+      .returning();
+    return price;
+  }
+
+  async updatePlanPriceFlutterwaveId(id: number, flutterwavePlanId: string): Promise<PlanPrice | undefined> {
+    const [price] = await db.update(planPrices)
+      .set({ flutterwavePlanId })
+      .where(eq(planPrices.id, id))
+      .returning();
+    return price;
+  }
+
+  // Webhook event methods
+  async claimWebhookEvent(provider: string, eventId: string, eventType: string): Promise<boolean> {
+    // Only one delivery of an event can insert the row, so redeliveries get nothing back
+    const [claimed] = await db.insert(processedWebhookEvents)
+      .values({ provider, eventId, eventType })
+      .onConflictDoNothing()
+      .returning();
+    return !!claimed;
+  }
+
+  async releaseWebhookEvent(provider: string, eventId: string): Promise<void> {
+    await db.delete(processedWebhookEvents)
+      .where(and(
+        eq(processedWebhookEvents.provider, provider),
+        eq(processedWebhookEvents.eventId, eventId)
+      ));
+  }
+
+  // Billing ledger methods
+  async upsertInvoice(invoice: InsertInvoice): Promise<Invoice> {
+    // The same invoice is reported by checkout, verification and webhooks, so update it in place
+    const [saved] = await db.insert(invoices)
+      .values(invoice)
+      .onConflictDoUpdate({
+        target: [invoices.provider, invoices.providerInvoiceId],
+        set: {
+          // A late failure report mustn't reopen an invoice that has since been paid
+          status: sql`case when ${invoices.status} in ('paid', 'refunded') then ${invoices.status} else excluded.status end`,
+          paidAt: sql`coalesce(${invoices.paidAt}, excluded.paid_at)`,
+          periodStart: sql`coalesce(excluded.period_start, ${invoices.periodStart})`,
+          periodEnd: sql`coalesce(excluded.period_end, ${invoices.periodEnd})`
+        }
+      })
+      .returning();
+    return saved;
+  }
+
+  async getInvoice(id: number): Promise<Invoice | undefined> {
+    const [invoice] = await db.select().from(invoices).where(eq(invoices.id, id));
+    return invoice;
+  }
+
+  async getUserInvoices(userId: number): Promise<Invoice[]> {
+    return await db.select()
+      .from(invoices)
+      .where(eq(invoices.userId, userId))
+      .orderBy(desc(invoices.createdAt));
+  }
+
+  async updateInvoiceStatus(id: number, status: string): Promise<Invoice | undefined> {
+    const [invoice] = await db.update(invoices)
+      .set({ status })
+      .where(eq(invoices.id, id))
+      .returning();
+    return invoice;
+  }
+
+  async upsertPayment(payment: InsertPayment): Promise<Payment> {
+    const [saved] = await db.insert(payments)
+      .values(payment)
+      .onConflictDoUpdate({
+        target: [payments.provider, payments.providerPaymentId],
+        set: {
+          // Refunds and disputes recorded since the first report take precedence
+          status: sql`case when ${payments.status} in ('succeeded', 'failed') then excluded.status else ${payments.status} end`,
+          method: sql`coalesce(excluded.method, ${payments.method})`,
+          failureReason: sql`excluded.failure_reason`
+        }
+      })
+      .returning();
+    return saved;
+  }
+
+  async getPayment(id: number): Promise<Payment | undefined> {
+    const [payment] = await db.select().from(payments).where(eq(payments.id, id));
+    return payment;
+  }
+
+  async getPaymentByProviderId(provider: string, providerPaymentId: string): Promise<Payment | undefined> {
+    const [payment] = await db.select()
+      .from(payments)
+      .where(and(
+        eq(payments.provider, provider),
+        eq(payments.providerPaymentId, providerPaymentId)
+      ));
+    return payment;
+  }
+
+  async getInvoicePayments(invoiceIds: number[]): Promise<Payment[]> {
+    if (invoiceIds.length === 0) return [];
+    return await db.select()
+      .from(payments)
+      .where(inArray(payments.invoiceId, invoiceIds))
+      .orderBy(desc(payments.createdAt));
+  }
+
+  async reservePaymentRefund(id: number, amount: number): Promise<Payment | undefined> {
+    // One conditional update, so refunds running at the same time can't both take the same amount
+    const [payment] = await db.update(payments)
+      .set({
+        amountRefunded: sql`${payments.amountRefunded} + ${amount}`,
+        status: sql`case when ${payments.amountRefunded} + ${amount} >= ${payments.amount}
+          then ${paymentStatuses.REFUNDED} else ${paymentStatuses.PARTIALLY_REFUNDED} end`
+      })
+      .where(and(
+        eq(payments.id, id),
+        inArray(payments.status, [paymentStatuses.SUCCEEDED, paymentStatuses.PARTIALLY_REFUNDED]),
+        sql`${payments.amount} - ${payments.amountRefunded} >= ${amount}`
+      ))
+      .returning();
+    return payment;
+  }
+
+  async releasePaymentRefund(id: number, amount: number): Promise<Payment | undefined> {
+    // Statuses set since the reservation, such as a dispute, are left alone
+    const [payment] = await db.update(payments)
+      .set({
+        amountRefunded: sql`greatest(${payments.amountRefunded} - ${amount}, 0)`,
+        status: sql`case
+          when ${payments.status} not in (${paymentStatuses.REFUNDED}, ${paymentStatuses.PARTIALLY_REFUNDED}) then ${payments.status}
+          when ${payments.amountRefunded} - ${amount} > 0 then ${paymentStatuses.PARTIALLY_REFUNDED}
+          else ${paymentStatuses.SUCCEEDED} end`
+      })
+      .where(eq(payments.id, id))
+      .returning();
+    return payment;
+  }
+
+  async updatePaymentStatus(id: number, status: string): Promise<Payment | undefined> {
+    const [payment] = await db.update(payments)
+      .set({ status })
+      .where(eq(payments.id, id))
+      .returning();
+    return payment;
+  }
+
+  async createRefund(refund: InsertRefund): Promise<Refund> {
+    const [saved] = await db.insert(refunds).values(refund).returning();
+    return saved;
+  }
+
+  async getPaymentRefunds(paymentIds: number[]): Promise<Refund[]> {
+    if (paymentIds.length === 0) return [];
+    return await db.select()
+      .from(refunds)
+      .where(inArray(refunds.paymentId, paymentIds))
+      .orderBy(desc(refunds.createdAt));
+  }
+
+  async getRecentPayments(limit: number): Promise<(Payment & { username: string | null })[]> {
+    const rows = await db.select({ payment: payments, username: users.username })
+      .from(payments)
+      .leftJoin(users, eq(payments.userId, users.id))
+      .orderBy(desc(payments.createdAt))
+      .limit(limit);
+    return rows.map(row => ({ ...row.payment, username: row.username }));
+  }
+
+  async getRevenueByProvider(since: Date): Promise<{
+    provider: string;
+    currency: string;
+    gross: number;
+    refunded: number;
+    payments: number;
+  }[]> {
+    return await db.select({
+      provider: payments.provider,
+      currency: payments.currency,
+      gross: sql<number>`coalesce(sum(${payments.amount}), 0)`.mapWith(Number),
+      refunded: sql<number>`coalesce(sum(${payments.amountRefunded}), 0)`.mapWith(Number),
+      payments: count()
+    })
+      .from(payments)
+      .where(and(
+        ne(payments.status, paymentStatuses.FAILED),
+        gte(payments.createdAt, since)
+      ))
+      .groupBy(payments.provider, payments.currency);
+  }
+
+  async getDailyRevenue(since: Date): Promise<{
+    date: string;
+    currency: string;
+    gross: number;
+    refunded: number;
+  }[]> {
+    const day = sql<string>`to_char(${payments.createdAt}, 'YYYY-MM-DD')`;
+    return await db.select({
+      date: day,
+      currency: payments.currency,
+      gross: sql<number>`coalesce(sum(${payments.amount}), 0)`.mapWith(Number),
+      refunded: sql<number>`coalesce(sum(${payments.amountRefunded}), 0)`.mapWith(Number)
+    })
+      .from(payments)
+      .where(and(
+        ne(payments.status, paymentStatuses.FAILED),
+        gte(payments.createdAt, since)
+      ))
+      .groupBy(day, payments.currency)
+      .orderBy(day);
+  }
+
+  // Coupon methods
+  async getAllCoupons(): Promise<Coupon[]> {
+    return await db.select().from(coupons).orderBy(desc(coupons.createdAt));
+  }
+
+  async getCoupon(id: number): Promise<Coupon | undefined> {
+    const [coupon] = await db.select().from(coupons).where(eq(coupons.id, id));
+    return coupon;
+  }
+
+  async getCouponByCode(code: string): Promise<Coupon | undefined> {
+    const [coupon] = await db.select().from(coupons).where(eq(coupons.code, code.trim().toUpperCase()));
+    return coupon;
+  }
+
+  async createCoupon(coupon: InsertCoupon & { createdBy?: number | null }): Promise<Coupon> {
+    const [created] = await db.insert(coupons).values(coupon).returning();
+    return created;
+  }
+
+  async updateCoupon(id: number, updates: Partial<Pick<Coupon, 'active' | 'stripeCouponId' | 'description' | 'expiresAt' | 'maxRedemptions'>>): Promise<Coupon | undefined> {
+    const [coupon] = await db.update(coupons)
+      .set(updates)
+      .where(eq(coupons.id, id))
+      .returning();
+    return coupon;
+  }
+
+  async getUserCouponRedemption(couponId: number, userId: number): Promise<CouponRedemption | undefined> {
+    const [redemption] = await db.select()
+      .from(couponRedemptions)
+      .where(and(eq(couponRedemptions.couponId, couponId), eq(couponRedemptions.userId, userId)));
+    return redemption;
+  }
+
+  async createCouponRedemption(redemption: InsertCouponRedemption): Promise<CouponRedemption | undefined> {
+    return await db.transaction(async (tx) => {
+      const [created] = await tx.insert(couponRedemptions)
+        .values(redemption)
+        .onConflictDoNothing()
+        .returning();
+      if (!created) {
+        return undefined; // The user has already redeemed this coupon
+      }
+
+      // Count the redemption only while the coupon is under its limit
+      const [coupon] = await tx.update(coupons)
+        .set({ timesRedeemed: sql`${coupons.timesRedeemed} + 1` })
+        .where(and(
+          eq(coupons.id, redemption.couponId),
+          or(isNull(coupons.maxRedemptions), lt(coupons.timesRedeemed, coupons.maxRedemptions))
+        ))
+        .returning();
+      if (!coupon) {
+        tx.rollback();
+      }
+      return created;
+    }).catch((error) => {
+      if (error instanceof TransactionRollbackError) {
+        return undefined;
+      }
+      throw error;
+    });
+  }
+
+  async deleteCouponRedemption(id: number): Promise<void> {
+    await db.transaction(async (tx) => {
+      const [redemption] = await tx.delete(couponRedemptions)
+        .where(eq(couponRedemptions.id, id))
+        .returning();
+      if (redemption) {
+        await tx.update(coupons)
+          .set({ timesRedeemed: sql`greatest(${coupons.timesRedeemed} - 1, 0)` })
+          .where(eq(coupons.id, redemption.couponId));
+      }
+    });
+  }
+
+  async updateCouponRedemptionReference(id: number, reference: string): Promise<void> {
+    await db.update(couponRedemptions)
+      .set({ reference })
+      .where(eq(couponRedemptions.id, id));
+  }
+
+  async getCouponRedemptionByReference(provider: string, reference: string): Promise<CouponRedemption | undefined> {
+    const [redemption] = await db.select()
+      .from(couponRedemptions)
+      .where(and(eq(couponRedemptions.provider, provider), eq(couponRedemptions.reference, reference)));
+    return redemption;
+  }
+
+  async getCouponDiscountTotals(): Promise<{ couponId: number; currency: string; discount: number }[]> {
+    return await db.select({
+      couponId: couponRedemptions.couponId,
+      currency: couponRedemptions.currency,
+      discount: sql<number>`coalesce(sum(${couponRedemptions.discountAmount}), 0)`.mapWith(Number)
+    })
+      .from(couponRedemptions)
+      .groupBy(couponRedemptions.couponId, couponRedemptions.currency);
+  }
+
+  // Voucher methods
+  async createVoucherBatch(batch: InsertVoucherBatch & { createdBy?: number | null }, codes: string[]): Promise<VoucherBatch> {
+    return await db.transaction(async (tx) => {
+      const [created] = await tx.insert(voucherBatches).values(batch).returning();
+      await tx.insert(vouchers).values(codes.map(code => ({ batchId: created.id, code })));
+      return created;
+    });
+  }
+
+  async getVoucherBatches(): Promise<(VoucherBatch & { redeemedCount: number })[]> {
+    const rows = await db.select({
+      batch: voucherBatches,
+      redeemedCount: sql<number>`count(${vouchers.redeemedAt})`.mapWith(Number)
+    })
+      .from(voucherBatches)
+      .leftJoin(vouchers, eq(vouchers.batchId, voucherBatches.id))
+      .groupBy(voucherBatches.id)
+      .orderBy(desc(voucherBatches.createdAt));
+    return rows.map(row => ({ ...row.batch, redeemedCount: row.redeemedCount }));
+  }
+
+  async getVoucherBatch(id: number): Promise<VoucherBatch | undefined> {
+    const [batch] = await db.select().from(voucherBatches).where(eq(voucherBatches.id, id));
+    return batch;
+  }
+
+  async getVouchersByBatch(batchId: number): Promise<(Voucher & { redeemedByUsername: string | null })[]> {
+    const rows = await db.select({ voucher: vouchers, username: users.username })
+      .from(vouchers)
+      .leftJoin(users, eq(users.id, vouchers.redeemedBy))
+      .where(eq(vouchers.batchId, batchId))
+      .orderBy(vouchers.id);
+    return rows.map(row => ({ ...row.voucher, redeemedByUsername: row.username }));
+  }
+
+  async getVoucherByCode(code: string): Promise<Voucher | undefined> {
+    const [voucher] = await db.select().from(vouchers).where(eq(vouchers.code, code));
+    return voucher;
+  }
+
+  async redeemVoucher(voucherId: number, userId: number, plan: SubscriptionPlan, durationDays: number): Promise<User | undefined> {
+    return await db.transaction(async (tx) => {
+      const now = new Date();
+
+      // Claim the code only while nobody else has, so it can't be used twice
+      const [voucher] = await tx.update(vouchers)
+        .set({ redeemedBy: userId, redeemedAt: now })
+        .where(and(eq(vouchers.id, voucherId), isNull(vouchers.redeemedAt)))
+        .returning();
+      if (!voucher) {
+        return undefined;
+      }
+
+      // Time on the same plan that's still to run is kept, otherwise the plan starts now
+      const [current] = await tx.select().from(users).where(eq(users.id, userId)).for('update');
+      const startsAt = current.subscription === plan.name && current.subscriptionExpiryDate && current.subscriptionExpiryDate > now
+        ? current.subscriptionExpiryDate
+        : now;
+
+      const [user] = await tx.update(users)
+        .set({
+          subscription: plan.name,
+          subscriptionExpiryDate: new Date(startsAt.getTime() + durationDays * 24 * 60 * 60 * 1000),
+          subscriptionStatus: subscriptionStatuses.ACTIVE,
+          dataLimit: plan.dataLimit,
+          dailyTimeLimit: plan.dailyTimeLimit,
+          pendingSubscription: null,
+          pendingSubscriptionAt: null
+        })
+        .where(eq(users.id, userId))
+        .returning();
+      return user;
+    });
+  }
+
+  // Organization methods
+  async getUserPlan(userId: number): Promise<SubscriptionPlan | undefined> {
+    const user = await this.getUser(userId);
+    if (!user) return undefined;
+
+    const plan = await this.getSubscriptionPlanByName(user.subscription);
+
+    // Members get their organization's plan when it's better than their own
+    const [organization] = await db.select({ subscription: organizations.subscription })
+      .from(organizationMembers)
+      .innerJoin(organizations, eq(organizations.id, organizationMembers.organizationId))
+      .where(eq(organizationMembers.userId, userId));
+    if (!organization || organization.subscription === user.subscription) {
+      return plan;
+    }
+
+    const organizationPlan = await this.getSubscriptionPlanByName(organization.subscription);
+    if (!plan || (organizationPlan && organizationPlan.priority > plan.priority)) {
+      return organizationPlan;
+    }
+    return plan;
+  }
+
+  async createOrganization(name: string, ownerId: number): Promise<Organization> {
+    return await db.transaction(async (tx) => {
+      const [organization] = await tx.insert(organizations)
+        .values({ name, ownerId })
+        .returning();
+      await tx.insert(organizationMembers).values({
+        organizationId: organization.id,
+        userId: ownerId,
+        role: organizationRoles.OWNER
+      });
+      return organization;
+    });
+  }
+
+  async getOrganization(id: number): Promise<Organization | undefined> {
+    const [organization] = await db.select().from(organizations).where(eq(organizations.id, id));
+    return organization;
+  }
+
+  async getOrganizationByStripeCustomerId(stripeCustomerId: string): Promise<Organization | undefined> {
+    const [organization] = await db.select()
+      .from(organizations)
+      .where(eq(organizations.stripeCustomerId, stripeCustomerId));
+    return organization;
+  }
+
+  async updateOrganization(id: number, updates: Partial<Omit<Organization, 'id' | 'ownerId' | 'createdAt'>>): Promise<Organization | undefined> {
+    const [organization] = await db.update(organizations)
+      .set(updates)
+      .where(eq(organizations.id, id))
+      .returning();
+    return organization;
+  }
+
+  async deleteOrganization(id: number): Promise<void> {
+    await db.transaction(async (tx) => {
+      await tx.delete(organizationInvitations).where(eq(organizationInvitations.organizationId, id));
+      await tx.delete(organizationMembers).where(eq(organizationMembers.organizationId, id));
+      await tx.delete(organizations).where(eq(organizations.id, id));
+    });
+  }
+
+  async getLapsedOrganizations(expiredBefore: Date): Promise<Organization[]> {
+    return await db.select()
+      .from(organizations)
+      .where(and(
+        ne(organizations.subscription, subscriptionTiers.FREE),
+        isNotNull(organizations.subscriptionExpiryDate),
+        lt(organizations.subscriptionExpiryDate, expiredBefore)
+      ));
+  }
+
+  async getOrganizationsDueForRenewal(now: Date): Promise<Organization[]> {
+    // Stripe renews its own subscriptions, Paystack renewals are charged to the saved card
+    return await db.select()
+      .from(organizations)
+      .where(and(
+        ne(organizations.subscription, subscriptionTiers.FREE),
+        eq(organizations.subscriptionStatus, subscriptionStatuses.ACTIVE),
+        isNull(organizations.stripeSubscriptionId),
+        isNotNull(organizations.paystackAuthorizationCode),
+        lt(organizations.subscriptionExpiryDate, now)
+      ));
+  }
+
+  async getOrganizationMembership(userId: number): Promise<OrganizationMember | undefined> {
+    const [member] = await db.select()
+      .from(organizationMembers)
+      .where(eq(organizationMembers.userId, userId));
+    return member;
+  }
+
+  async getOrganizationMembers(organizationId: number): Promise<(OrganizationMember & { username: string; email: string | null })[]> {
+    const rows = await db.select({
+      member: organizationMembers,
+      username: users.username,
+      email: users.email
+    })
+      .from(organizationMembers)
+      .innerJoin(users, eq(users.id, organizationMembers.userId))
+      .where(eq(organizationMembers.organizationId, organizationId))
+      .orderBy(organizationMembers.createdAt);
+    return rows.map(row => ({ ...row.member, username: row.username, email: row.email }));
+  }
+
+  async addOrganizationMember(member: InsertOrganizationMember): Promise<OrganizationMember | undefined> {
+    return await db.transaction(async (tx) => {
+      // Lock the organization so two members can't both take the last seat
+      const [organization] = await tx.select()
+        .from(organizations)
+        .where(eq(organizations.id, member.organizationId))
+        .for('update');
+      const [{ value: memberCount }] = await tx.select({ value: count() })
+        .from(organizationMembers)
+        .where(eq(organizationMembers.organizationId, member.organizationId));
+      if (!organization || memberCount >= organization.seats) {
+        tx.rollback();
+      }
+
+      const [created] = await tx.insert(organizationMembers)
+        .values(member)
+        .onConflictDoNothing()
+        .returning();
+      return created;
+    }).catch((error) => {
+      if (error instanceof TransactionRollbackError) {
+        return undefined;
+      }
+      throw error;
+    });
+  }
+
+  async updateOrganizationMemberRole(organizationId: number, userId: number, role: string): Promise<OrganizationMember | undefined> {
+    const [member] = await db.update(organizationMembers)
+      .set({ role })
+      .where(and(
+        eq(organizationMembers.organizationId, organizationId),
+        eq(organizationMembers.userId, userId)
+      ))
+      .returning();
+    return member;
+  }
+
+  async removeOrganizationMember(organizationId: number, userId: number): Promise<OrganizationMember | undefined> {
+    const [member] = await db.delete(organizationMembers)
+      .where(and(
+        eq(organizationMembers.organizationId, organizationId),
+        eq(organizationMembers.userId, userId)
+      ))
+      .returning();
+    return member;
+  }
+
+  async createOrganizationInvitation(invitation: Omit<OrganizationInvitation, 'id' | 'acceptedAt' | 'createdAt'>): Promise<OrganizationInvitation> {
+    const [created] = await db.insert(organizationInvitations)
+      .values(invitation)
+      .returning();
+    return created;
+  }
+
+  async getOrganizationInvitationByToken(token: string): Promise<OrganizationInvitation | undefined> {
+    const [invitation] = await db.select()
+      .from(organizationInvitations)
+      .where(eq(organizationInvitations.token, token));
+    return invitation;
+  }
+
+  async getPendingOrganizationInvitations(organizationId: number, now: Date): Promise<OrganizationInvitation[]> {
+    return await db.select()
+      .from(organizationInvitations)
+      .where(and(
+        eq(organizationInvitations.organizationId, organizationId),
+        isNull(organizationInvitations.acceptedAt),
+        gte(organizationInvitations.expiresAt, now)
+      ))
+      .orderBy(desc(organizationInvitations.createdAt));
+  }
+
+  async deleteOrganizationInvitation(organizationId: number, id: number): Promise<OrganizationInvitation | undefined> {
+    const [invitation] = await db.delete(organizationInvitations)
+      .where(and(
+        eq(organizationInvitations.organizationId, organizationId),
+        eq(organizationInvitations.id, id)
+      ))
+      .returning();
+    return invitation;
+  }
+
+  async acceptOrganizationInvitation(invitation: OrganizationInvitation, userId: number): Promise<OrganizationMember | undefined> {
+    const member = await this.addOrganizationMember({
+      organizationId: invitation.organizationId,
+      userId,
+      role: invitation.role
+    });
+    if (member) {
+      await db.update(organizationInvitations)
+        .set({ acceptedAt: new Date() })
+        .where(eq(organizationInvitations.id, invitation.id));
+    }
+    return member;
+  }
+
+  // Referral and account credit methods
+  async getUserByReferralCode(referralCode: string): Promise<User | undefined> {
+    const [user] = await db.select().from(users).where(eq(users.referralCode, referralCode.toUpperCase()));
+    return user;
+  }
+
+  async setReferralCode(userId: number, referralCode: string): Promise<User | undefined> {
+    // Never replace a code that's already been shared
+    const [user] = await db.update(users)
+      .set({ referralCode })
+      .where(and(eq(users.id, userId), isNull(users.referralCode)))
+      .returning();
+    return user;
+  }
+
+  async createReferral(referral: InsertReferral): Promise<Referral> {
+    return await db.transaction(async (tx) => {
+      const [created] = await tx.insert(referrals).values(referral).returning();
+      await tx.update(users)
+        .set({ referredBy: referral.referrerId })
+        .where(eq(users.id, referral.referredUserId));
+      return created;
+    });
+  }
+
+  async getReferralByReferredUser(referredUserId: number): Promise<Referral | undefined> {
+    const [referral] = await db.select().from(referrals).where(eq(referrals.referredUserId, referredUserId));
+    return referral;
+  }
+
+  async getReferralsByReferrer(referrerId: number): Promise<(Referral & { username: string })[]> {
+    const rows = await db.select({ referral: referrals, username: users.username })
+      .from(referrals)
+      .innerJoin(users, eq(users.id, referrals.referredUserId))
+      .where(eq(referrals.referrerId, referrerId))
+      .orderBy(desc(referrals.createdAt));
+    return rows.map(row => ({ ...row.referral, username: row.username }));
+  }
+
+  async rewardReferral(
+    referral: Referral,
+    planName: string,
+    referrerCredit: { amount: number; currency: string },
+    referredCredit: { amount: number; currency: string }
+  ): Promise<Referral | undefined> {
+    return await db.transaction(async (tx) => {
+      // Only the first conversion is rewarded, however many payments report it
+      const [rewarded] = await tx.update(referrals)
+        .set({
+          status: referralStatuses.REWARDED,
+          planName,
+          referrerCredit: referrerCredit.amount,
+          referredCredit: referredCredit.amount,
+          rewardedAt: new Date()
+        })
+        .where(and(eq(referrals.id, referral.id), eq(referrals.status, referralStatuses.PENDING)))
+        .returning();
+      if (!rewarded) {
+        return undefined;
+      }
+
+      await tx.update(users)
+        .set({ creditBalance: sql`${users.creditBalance} + ${referrerCredit.amount}`, creditCurrency: referrerCredit.currency })
+        .where(eq(users.id, referral.referrerId));
+      await tx.update(users)
+        .set({ creditBalance: sql`${users.creditBalance} + ${referredCredit.amount}`, creditCurrency: referredCredit.currency })
+        .where(eq(users.id, referral.referredUserId));
+      return rewarded;
+    });
+  }
+
+  async addUserCredit(userId: number, amount: number, currency: string): Promise<User> {
+    const [user] = await db.update(users)
+      .set({ creditBalance: sql`${users.creditBalance} + ${amount}`, creditCurrency: currency })
+      .where(eq(users.id, userId))
+      .returning();
+    return user;
+  }
+
+  async consumeUserCredit(userId: number, currency: string, maxAmount: number): Promise<number> {
+    return await db.transaction(async (tx) => {
+      const [user] = await tx.select().from(users).where(eq(users.id, userId)).for('update');
+      if (!user || user.creditCurrency !== currency || user.creditBalance <= 0 || maxAmount <= 0) {
+        return 0;
+      }
+
+      const amount = Math.min(user.creditBalance, maxAmount);
+      await tx.update(users)
+        .set({ creditBalance: user.creditBalance - amount })
+        .where(eq(users.id, userId));
+      return amount;
+    });
+  }
+
+  // Email methods
+  async enqueueEmail(message: InsertEmailMessage): Promise<EmailMessage | undefined> {
+    // A message with a dedupe key that's already been queued is skipped
+    const [queued] = await db.insert(emailMessages)
+      .values(message)
+      .onConflictDoNothing({ target: emailMessages.dedupeKey })
+      .returning();
+    return queued;
+  }
+
+  async getDueEmails(now: Date, limit: number): Promise<EmailMessage[]> {
+    return await db.select()
+      .from(emailMessages)
+      .where(and(
+        eq(emailMessages.status, emailStatuses.QUEUED),
+        lt(emailMessages.nextAttemptAt, now)
+      ))
+      .orderBy(emailMessages.nextAttemptAt)
+      .limit(limit);
+  }
+
+  async markEmailSent(id: number): Promise<void> {
+    await db.update(emailMessages)
+      .set({ status: emailStatuses.SENT, sentAt: new Date(), attempts: sql`${emailMessages.attempts} + 1`, lastError: null })
+      .where(eq(emailMessages.id, id));
+  }
+
+  async markEmailAttemptFailed(id: number, attempts: number, error: string, nextAttemptAt: Date | null): Promise<void> {
+    await db.update(emailMessages)
+      .set({
+        attempts,
+        lastError: error,
+        status: nextAttemptAt ? emailStatuses.QUEUED : emailStatuses.FAILED,
+        ...(nextAttemptAt ? { nextAttemptAt } : {})
+      })
+      .where(eq(emailMessages.id, id));
+  }
+
+  async getEmailMessage(id: number): Promise<EmailMessage | undefined> {
+    const [message] = await db.select().from(emailMessages).where(eq(emailMessages.id, id));
+    return message;
+  }
+
+  async getRecentEmailMessages(limit: number): Promise<EmailMessage[]> {
+    return await db.select()
+      .from(emailMessages)
+      .orderBy(desc(emailMessages.createdAt))
+      .limit(limit);
+  }
+
+  async requeueEmail(id: number): Promise<EmailMessage | undefined> {
+    const [message] = await db.update(emailMessages)
+      .set({ status: emailStatuses.QUEUED, attempts: 0, nextAttemptAt: new Date() })
+      .where(and(eq(emailMessages.id, id), eq(emailMessages.status, emailStatuses.FAILED)))
+      .returning();
+    return message;
+  }
+
+  async getEmailPreferences(userId: number): Promise<EmailPreferences | undefined> {
+    const [preferences] = await db.select().from(emailPreferences).where(eq(emailPreferences.userId, userId));
+    return preferences;
+  }
+
+  async upsertEmailPreferences(userId: number, preferences: InsertEmailPreferences): Promise<EmailPreferences> {
+    const [saved] = await db.insert(emailPreferences)
+      .values({ ...preferences, userId })
+      .onConflictDoUpdate({
+        target: emailPreferences.userId,
+        set: { ...preferences, updatedAt: new Date() }
+      })
+      .returning();
+    return saved;
+  }
+
+  // Audit log methods. There's deliberately no way to change or remove an event.
+  async createAuditEvent(event: InsertAuditEvent): Promise<AuditEvent> {
+    const [created] = await db.insert(auditEvents).values(event).returning();
+    return created;
+  }
+
+  async getAuditEvents(filters: AuditEventFilters): Promise<AuditEvent[]> {
+    const conditions = [];
+    if (filters.actorId !== undefined) conditions.push(eq(auditEvents.actorId, filters.actorId));
+    if (filters.action) conditions.push(eq(auditEvents.action, filters.action));
+    if (filters.targetType) conditions.push(eq(auditEvents.targetType, filters.targetType));
+    if (filters.targetId) conditions.push(eq(auditEvents.targetId, filters.targetId));
+    if (filters.since) conditions.push(gte(auditEvents.createdAt, filters.since));
+    if (filters.until) conditions.push(lt(auditEvents.createdAt, filters.until));
+
+    return await db.select()
+      .from(auditEvents)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(auditEvents.createdAt), desc(auditEvents.id))
+      .limit(filters.limit ?? 100);
+  }
+
+  // API token methods
+  async createApiToken(token: InsertApiToken): Promise<ApiToken> {
+    const [created] = await db.insert(apiTokens).values(token).returning();
+    return created;
+  }
+
+  async getApiTokenByHash(tokenHash: string): Promise<ApiToken | undefined> {
+    const [token] = await db.select().from(apiTokens).where(eq(apiTokens.tokenHash, tokenHash));
+    return token;
+  }
+
+  async getUserApiTokens(userId: number): Promise<ApiToken[]> {
+    return await db.select()
+      .from(apiTokens)
+      .where(and(eq(apiTokens.userId, userId), isNull(apiTokens.revokedAt)))
+      .orderBy(desc(apiTokens.createdAt));
+  }
+
+  async countActiveApiTokens(userId: number): Promise<number> {
+    const [result] = await db.select({ count: count() })
+      .from(apiTokens)
+      .where(and(
+        eq(apiTokens.userId, userId),
+        isNull(apiTokens.revokedAt),
+        gt(apiTokens.expiresAt, new Date())
+      ));
+    return result?.count ?? 0;
+  }
+
+  async revokeApiToken(userId: number, id: number): Promise<ApiToken | undefined> {
+    const [token] = await db.update(apiTokens)
+      .set({ revokedAt: new Date() })
+      .where(and(eq(apiTokens.id, id), eq(apiTokens.userId, userId), isNull(apiTokens.revokedAt)))
+      .returning();
+    return token;
+  }
+
+  async markApiTokenUsed(id: number, ipAddress: string | null): Promise<void> {
+    await db.update(apiTokens)
+      .set({ lastUsedAt: new Date(), lastUsedIp: ipAddress })
+      .where(eq(apiTokens.id, id));
+  }
+
+  async revokeAllApiTokens(userId: number): Promise<number> {
+    const revoked = await db.update(apiTokens)
+      .set({ revokedAt: new Date() })
+      .where(and(eq(apiTokens.userId, userId), isNull(apiTokens.revokedAt)))
+      .returning({ id: apiTokens.id });
+    return revoked.length;
+  }
+
   // App settings methods
   async getAppSetting(key: string): Promise<AppSetting | undefined> {
     const [setting] = await db.select().from(appSettings).where(eq(appSettings.key, key));
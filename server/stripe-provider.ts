@@ -0,0 +1,198 @@
+/**
+ * Stripe Payment Provider
+ *
+ * This module is Stripe behind the PaymentProvider interface. It's responsible for:
+ *
+ * 1. Sending users to Stripe Checkout and creating subscriptions for Stripe
+ *    Elements, with the customer created the first time it's needed
+ * 2. Cancelling, resuming and changing the price of subscriptions
+ * 3. Refunding payments, including invoices recorded before their payment was known
+ * 4. Checking webhook signatures against STRIPE_WEBHOOK_SECRET
+ */
+
+import { IncomingHttpHeaders } from 'http';
+import Stripe from 'stripe';
+import { storage } from './storage';
+import { pricingService } from './pricing';
+import { promotionService } from './promotions';
+import {
+  PaymentProvider, PaymentProviderError, CheckoutRequest, CheckoutSession, VerifiedPayment, SubscriptionRequest,
+  SubscriptionChange, ProviderSubscription, WebhookEvent
+} from './payment-provider';
+import { User, Payment, billingProviders, supportedCurrencies } from '@shared/schema';
+
+export class StripeProvider implements PaymentProvider {
+  readonly name = billingProviders.STRIPE;
+  readonly displayName = 'Stripe';
+  readonly currencies = Object.values(supportedCurrencies);
+
+  constructor(private stripe: Stripe) {}
+
+  async initializeCheckout(request: CheckoutRequest): Promise<CheckoutSession> {
+    const { user, plan, price, coupon, origin } = request;
+    const session = await this.stripe.checkout.sessions.create({
+      line_items: [
+        {
+          price: await pricingService.getStripePriceId(this.stripe, plan, price.currency),
+          quantity: 1,
+        },
+      ],
+      mode: 'subscription',
+      success_url: `${origin}/subscription/success?session_id={CHECKOUT_SESSION_ID}`,
+      cancel_url: `${origin}/subscription`,
+      customer: await this.getCustomerId(user),
+      client_reference_id: user.id.toString(),
+      discounts: coupon ? [{ coupon: await promotionService.getStripeCouponId(this.stripe, coupon.coupon) }] : undefined,
+      subscription_data: {
+        metadata: {
+          userId: user.id.toString(),
+          planName: plan.name,
+          ...(coupon ? { couponCode: coupon.coupon.code } : {})
+        }
+      }
+    });
+
+    if (!session.url) {
+      throw new Error(`Stripe didn't return a URL for checkout session ${session.id}`);
+    }
+    return { provider: this.name, reference: session.id, url: session.url };
+  }
+
+  /**
+   * Look up a checkout session. Sessions are paid once Stripe has taken the first
+   * payment, or straight away when a coupon covers it.
+   */
+  async verifyPayment(reference: string): Promise<VerifiedPayment> {
+    const session = await this.stripe.checkout.sessions.retrieve(reference);
+    const paid = session.payment_status === 'paid' || session.payment_status === 'no_payment_required';
+
+    return {
+      reference: session.id,
+      status: paid ? 'succeeded' : session.status === 'expired' ? 'failed' : 'pending',
+      amount: session.amount_total ?? 0,
+      currency: (session.currency || supportedCurrencies.USD).toUpperCase(),
+      method: null,
+      paidAt: paid ? new Date() : null,
+      metadata: { ...session.metadata, userId: session.client_reference_id },
+      customerId: typeof session.customer === 'string' ? session.customer : session.customer?.id
+    };
+  }
+
+  async createSubscription(request: SubscriptionRequest): Promise<ProviderSubscription> {
+    const { user, plan, price, coupon, startAt } = request;
+    const subscription = await this.stripe.subscriptions.create({
+      customer: await this.getCustomerId(user),
+      items: [{ price: await pricingService.getStripePriceId(this.stripe, plan, price.currency) }],
+      payment_behavior: 'default_incomplete',
+      expand: ['latest_invoice.payment_intent'],
+      discounts: coupon ? [{ coupon: await promotionService.getStripeCouponId(this.stripe, coupon.coupon) }] : undefined,
+      trial_end: startAt && startAt.getTime() > Date.now() ? Math.floor(startAt.getTime() / 1000) : undefined,
+      metadata: {
+        userId: user.id.toString(),
+        planName: plan.name,
+        ...(coupon ? { couponCode: coupon.coupon.code } : {})
+      }
+    });
+
+    // The type definitions don't include the expanded payment intent
+    const invoice = subscription.latest_invoice as any;
+    return {
+      id: subscription.id,
+      status: subscription.status,
+      clientSecret: invoice?.payment_intent?.client_secret // No payment is needed when a coupon covers the first invoice
+    };
+  }
+
+  async cancelSubscription(subscriptionId: string, options: { atPeriodEnd: boolean }): Promise<void> {
+    if (options.atPeriodEnd) {
+      await this.stripe.subscriptions.update(subscriptionId, { cancel_at_period_end: true });
+    } else {
+      await this.stripe.subscriptions.cancel(subscriptionId);
+    }
+  }
+
+  async resumeSubscription(subscriptionId: string): Promise<void> {
+    await this.stripe.subscriptions.update(subscriptionId, { cancel_at_period_end: false });
+  }
+
+  /**
+   * Swap the subscription's price. Prorated changes invoice the difference straight
+   * away and fail if it can't be paid; the invoice.paid webhook records the payment.
+   */
+  async changeSubscription(subscriptionId: string, change: SubscriptionChange): Promise<ProviderSubscription> {
+    const subscription = await this.stripe.subscriptions.retrieve(subscriptionId);
+    const updated = await this.stripe.subscriptions.update(subscription.id, {
+      items: [{
+        id: subscription.items.data[0].id,
+        price: await pricingService.getStripePriceId(this.stripe, change.plan, change.price.currency)
+      }],
+      ...(change.prorate
+        ? {
+          proration_behavior: 'always_invoice' as const,
+          proration_date: change.prorationDate,
+          payment_behavior: 'error_if_incomplete' as const
+        }
+        : { proration_behavior: 'none' as const }),
+      cancel_at_period_end: false
+    });
+    return { id: updated.id, status: updated.status };
+  }
+
+  async refund(payment: Payment, amount: number, reason?: string): Promise<string | null> {
+    let paymentId = payment.providerPaymentId;
+    if (paymentId.startsWith('in_')) {
+      // Newer API versions only link invoices to their payment through the payments list
+      const invoice = await this.stripe.invoices.retrieve(paymentId, { expand: ['payments'] });
+      const invoicePayment = invoice.payments?.data[0]?.payment;
+      const linked = invoicePayment?.payment_intent || invoicePayment?.charge;
+      if (!linked) {
+        throw new Error(`No payment found for Stripe invoice ${paymentId}`);
+      }
+      paymentId = typeof linked === 'string' ? linked : linked.id;
+    }
+
+    const refund = await this.stripe.refunds.create({
+      ...(paymentId.startsWith('ch_') ? { charge: paymentId } : { payment_intent: paymentId }),
+      amount,
+      metadata: { paymentId: payment.id.toString(), reason: reason || '' }
+    });
+    return refund.id;
+  }
+
+  parseWebhook(rawBody: Buffer, headers: IncomingHttpHeaders): WebhookEvent<Stripe.Event> {
+    const webhookSecret = process.env.STRIPE_WEBHOOK_SECRET;
+    if (!webhookSecret) {
+      throw new PaymentProviderError('Stripe webhooks are not configured', 503);
+    }
+
+    const signature = headers['stripe-signature'];
+    if (!signature) {
+      throw new PaymentProviderError('Missing webhook signature');
+    }
+
+    let event: Stripe.Event;
+    try {
+      event = this.stripe.webhooks.constructEvent(rawBody, signature, webhookSecret);
+    } catch (error: any) {
+      console.error('[STRIPE] Webhook signature verification failed:', error.message);
+      throw new PaymentProviderError('Invalid webhook signature');
+    }
+    return { id: event.id, type: event.type, payload: event };
+  }
+
+  private async getCustomerId(user: User): Promise<string> {
+    if (user.stripeCustomerId) {
+      return user.stripeCustomerId;
+    }
+
+    const customer = await this.stripe.customers.create({
+      name: user.username,
+      email: user.email || undefined,
+      metadata: {
+        userId: user.id.toString()
+      }
+    });
+    await storage.updateStripeCustomerId(user.id, customer.id);
+    return customer.id;
+  }
+}
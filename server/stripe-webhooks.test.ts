@@ -0,0 +1,284 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach, vi } from 'vitest';
+import express from 'express';
+import { AddressInfo } from 'net';
+import { Server } from 'http';
+import { readFileSync } from 'fs';
+import path from 'path';
+import Stripe from 'stripe';
+
+// Recorded events from Stripe's test mode, all for the same customer and subscription
+const FIXTURES = path.resolve(import.meta.dirname, 'fixtures', 'stripe');
+const WEBHOOK_SECRET = 'whsec_test_secret';
+const CUSTOMER_ID = 'cus_QhlS0aQ7xLk2Rn';
+const SUBSCRIPTION_ID = 'sub_1PpZ9A2eZvKYlo2C5wB3dKpE';
+
+const fakes = vi.hoisted(() => {
+  const state = {
+    claimedEvents: new Set<string>(),
+    user: null as any
+  };
+
+  const storage = {
+    claimWebhookEvent: vi.fn(async (provider: string, eventId: string) => {
+      const key = `${provider}:${eventId}`;
+      if (state.claimedEvents.has(key)) {
+        return false;
+      }
+      state.claimedEvents.add(key);
+      return true;
+    }),
+    releaseWebhookEvent: vi.fn(async (provider: string, eventId: string) => {
+      state.claimedEvents.delete(`${provider}:${eventId}`);
+    }),
+    getUserByStripeCustomerId: vi.fn(async (customerId: string) =>
+      state.user?.stripeCustomerId === customerId ? { ...state.user } : undefined
+    ),
+    getSubscriptionPlanByStripePriceId: vi.fn(async (priceId: string) =>
+      priceId === 'price_1PpZ8v2eZvKYlo2CmT4hT0sF' ? { id: 2, name: 'premium', price: 999 } : undefined
+    ),
+    getOrganizationByStripeCustomerId: vi.fn(async () => undefined),
+    updateUserSubscription: vi.fn(async (userId: number, subscription: string, expiryDate?: Date | null) => {
+      state.user.subscription = subscription;
+      if (expiryDate !== undefined) {
+        state.user.subscriptionExpiryDate = expiryDate;
+      }
+    }),
+    updateSubscriptionStatus: vi.fn(async (userId: number, status: string) => {
+      state.user.subscriptionStatus = status;
+    }),
+    updateStripeSubscriptionId: vi.fn(async (userId: number, subscriptionId: string) => {
+      state.user.stripeSubscriptionId = subscriptionId;
+    }),
+    updateUserCurrency: vi.fn(async (userId: number, currency: string) => {
+      state.user.currency = currency;
+    }),
+    switchUserPlan: vi.fn(async () => undefined)
+  };
+
+  return { state, storage };
+});
+
+vi.mock('./storage', () => ({ storage: fakes.storage }));
+vi.mock('./billing', () => ({
+  billingLedger: {
+    recordPayment: vi.fn(async () => undefined),
+    markDisputed: vi.fn(async () => ({ id: 1 }))
+  }
+}));
+vi.mock('./promotions', () => ({
+  promotionService: {
+    recordStripeRedemption: vi.fn(async () => undefined),
+    releaseStripeRedemption: vi.fn(async () => undefined),
+    getStripeCouponId: vi.fn()
+  }
+}));
+vi.mock('./organizations', () => ({ organizationService: {} }));
+vi.mock('./referrals', () => ({ referralService: {} }));
+vi.mock('./pricing', () => ({ pricingService: {} }));
+vi.mock('./paystack-provider', () => ({ PaystackProvider: class {} }));
+vi.mock('./flutterwave-provider', () => ({ FlutterwaveProvider: class {} }));
+
+import { setupStripeWebhookRoutes } from './stripe-webhooks';
+import { paymentProviders } from './payment-provider';
+import { StripeProvider } from './stripe-provider';
+import { billingLedger } from './billing';
+
+function loadFixture(name: string): string {
+  return readFileSync(path.join(FIXTURES, `${name}.json`), 'utf8');
+}
+
+describe('POST /api/webhooks/stripe', () => {
+  const stripe = new Stripe('sk_test_fixture');
+  let server: Server;
+  let baseUrl: string;
+
+  const post = async (payload: string, secret = WEBHOOK_SECRET) => {
+    const signature = stripe.webhooks.generateTestHeaderString({ payload, secret });
+    const response = await fetch(`${baseUrl}/api/webhooks/stripe`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'Stripe-Signature': signature },
+      body: payload
+    });
+    return { status: response.status, body: await response.json() };
+  };
+
+  beforeAll(async () => {
+    process.env.STRIPE_WEBHOOK_SECRET = WEBHOOK_SECRET;
+    paymentProviders.register(new StripeProvider(stripe));
+    vi.spyOn(stripe.charges, 'retrieve').mockResolvedValue(JSON.parse(loadFixture('charge')));
+
+    const app = express();
+    app.use(express.json({
+      verify: (req, _res, buf) => {
+        req.rawBody = buf;
+      }
+    }));
+    setupStripeWebhookRoutes(app, stripe);
+
+    server = app.listen(0);
+    await new Promise(resolve => server.once('listening', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+    fakes.state.claimedEvents.clear();
+    fakes.state.user = {
+      id: 42,
+      username: 'jordan',
+      stripeCustomerId: CUSTOMER_ID,
+      stripeSubscriptionId: SUBSCRIPTION_ID,
+      subscription: 'premium',
+      subscriptionStatus: 'active',
+      subscriptionExpiryDate: new Date(1727345410 * 1000),
+      pendingSubscription: null,
+      currency: 'USD'
+    };
+  });
+
+  it('rejects an event signed with the wrong secret', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    const { status, body } = await post(loadFixture('invoice.paid'), 'whsec_wrong_secret');
+
+    expect(status).toBe(400);
+    expect(body.message).toBe('Invalid webhook signature');
+    expect(fakes.storage.claimWebhookEvent).not.toHaveBeenCalled();
+    expect(billingLedger.recordPayment).not.toHaveBeenCalled();
+  });
+
+  it('rejects an event without a signature', async () => {
+    const response = await fetch(`${baseUrl}/api/webhooks/stripe`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: loadFixture('invoice.paid')
+    });
+
+    expect(response.status).toBe(400);
+    expect(fakes.storage.claimWebhookEvent).not.toHaveBeenCalled();
+  });
+
+  it('extends the subscription when a renewal invoice is paid', async () => {
+    const { status, body } = await post(loadFixture('invoice.paid'));
+
+    expect(status).toBe(200);
+    expect(body).toEqual({ received: true });
+    expect(billingLedger.recordPayment).toHaveBeenCalledWith(expect.objectContaining({
+      userId: 42,
+      provider: 'stripe',
+      providerInvoiceId: 'in_1PqLwA2eZvKYlo2CmH4r8bJd',
+      providerPaymentId: 'pi_3PqLwB2eZvKYlo2C1b2oH9xS',
+      amount: 999,
+      currency: 'usd',
+      status: 'succeeded'
+    }));
+    expect(fakes.state.user.subscriptionExpiryDate).toEqual(new Date(1729937410 * 1000));
+    expect(fakes.state.user.subscriptionStatus).toBe('active');
+  });
+
+  it('marks the subscription past due when a renewal payment fails', async () => {
+    const { status } = await post(loadFixture('invoice.payment_failed'));
+
+    expect(status).toBe(200);
+    expect(billingLedger.recordPayment).toHaveBeenCalledWith(expect.objectContaining({
+      providerPaymentId: 'pi_3PsRkQ2eZvKYlo2C0aF5xWcE:attempt-1',
+      status: 'failed'
+    }));
+    expect(fakes.state.user.subscriptionStatus).toBe('past_due');
+  });
+
+  it('keeps access until the period ends when the subscription is set to cancel', async () => {
+    const { status } = await post(loadFixture('customer.subscription.updated'));
+
+    expect(status).toBe(200);
+    expect(fakes.state.user.subscription).toBe('premium');
+    expect(fakes.state.user.subscriptionExpiryDate).toEqual(new Date(1732529410 * 1000));
+    expect(fakes.state.user.subscriptionStatus).toBe('canceled');
+  });
+
+  it('moves the user to the free plan when the subscription is deleted', async () => {
+    const { status } = await post(loadFixture('customer.subscription.deleted'));
+
+    expect(status).toBe(200);
+    expect(fakes.state.user.subscription).toBe('free');
+    expect(fakes.state.user.subscriptionStatus).toBe('canceled');
+    expect(fakes.state.user.stripeSubscriptionId).toBe('');
+  });
+
+  it('revokes access when a charge is disputed', async () => {
+    const { status } = await post(loadFixture('charge.dispute.created'));
+
+    expect(status).toBe(200);
+    expect(stripe.charges.retrieve).toHaveBeenCalledWith('ch_3PqLwB2eZvKYlo2C1yJ0fXvM');
+    expect(billingLedger.markDisputed).toHaveBeenCalledWith('stripe', 'ch_3PqLwB2eZvKYlo2C1yJ0fXvM');
+    expect(fakes.state.user.subscription).toBe('free');
+    expect(fakes.state.user.subscriptionStatus).toBe('disputed');
+  });
+
+  it('ignores events for a subscription the user no longer has', async () => {
+    fakes.state.user.stripeSubscriptionId = '';
+    fakes.state.user.subscription = 'free';
+    fakes.state.user.subscriptionStatus = 'canceled';
+
+    for (const name of ['invoice.paid', 'invoice.payment_failed', 'customer.subscription.updated']) {
+      const { status } = await post(loadFixture(name));
+      expect(status).toBe(200);
+    }
+
+    expect(fakes.storage.updateUserSubscription).not.toHaveBeenCalled();
+    expect(fakes.storage.updateSubscriptionStatus).not.toHaveBeenCalled();
+    expect(fakes.state.user.stripeSubscriptionId).toBe('');
+  });
+
+  describe('replaying an event', () => {
+    const names = [
+      'invoice.paid',
+      'invoice.payment_failed',
+      'customer.subscription.updated',
+      'customer.subscription.deleted',
+      'charge.dispute.created'
+    ];
+
+    it.each(names)('applies %s only once', async (name) => {
+      const payload = loadFixture(name);
+
+      const first = await post(payload);
+      const writes = [
+        fakes.storage.updateUserSubscription,
+        fakes.storage.updateSubscriptionStatus,
+        billingLedger.recordPayment,
+        billingLedger.markDisputed
+      ].map(fn => vi.mocked(fn).mock.calls.length);
+
+      const second = await post(payload);
+
+      expect(first.body).toEqual({ received: true });
+      expect(second.status).toBe(200);
+      expect(second.body).toEqual({ received: true, duplicate: true });
+      expect([
+        fakes.storage.updateUserSubscription,
+        fakes.storage.updateSubscriptionStatus,
+        billingLedger.recordPayment,
+        billingLedger.markDisputed
+      ].map(fn => vi.mocked(fn).mock.calls.length)).toEqual(writes);
+    });
+
+    it('processes an event again after handling it failed', async () => {
+      vi.spyOn(console, 'error').mockImplementation(() => undefined);
+      vi.mocked(billingLedger.recordPayment).mockRejectedValueOnce(new Error('Database unavailable'));
+      const payload = loadFixture('invoice.paid');
+
+      const failed = await post(payload);
+      const retried = await post(payload);
+
+      expect(failed.status).toBe(500);
+      expect(retried.body).toEqual({ received: true });
+      expect(billingLedger.recordPayment).toHaveBeenCalledTimes(2);
+    });
+  });
+});
@@ -0,0 +1,438 @@
+/**
+ * Stripe Webhook Handling
+ *
+ * This module keeps users' subscriptions in sync with what happens in Stripe after
+ * checkout. It's responsible for:
+ *
+ * 1. Verifying that webhook requests were signed by Stripe, through the Stripe
+ *    payment provider
+ * 2. Processing each event only once, even when Stripe redelivers it
+ * 3. Applying renewals, failed payments, cancellations and disputes to the user's
+ *    subscription tier, expiry date and status
+ * 4. Passing events for organization subscriptions on to the organization service
+ * 5. Spending account credit on renewal invoices while they're still drafts
+ * 6. Giving back coupon uses held by checkouts and subscriptions that expired
+ *    without being paid
+ */
+
+import { Request, Response } from 'express';
+import Stripe from 'stripe';
+import { storage } from './storage';
+import { billingLedger } from './billing';
+import { promotionService } from './promotions';
+import { organizationService } from './organizations';
+import { referralService } from './referrals';
+import { paymentProviders, PaymentProviderError } from './payment-provider';
+import {
+  subscriptionTiers, subscriptionStatuses, SubscriptionStatus, User, billingProviders, paymentStatuses
+} from '@shared/schema';
+
+const PROVIDER = 'stripe';
+
+class StripeWebhookHandler {
+  // There's no Stripe API to call when the fake provider is standing in for Stripe
+  constructor(private stripe: Stripe | undefined) {}
+
+  /**
+   * Apply a verified event to the affected user
+   *
+   * @param event The event from Stripe
+   */
+  async handleEvent(event: Stripe.Event): Promise<void> {
+    switch (event.type) {
+      case 'invoice.created':
+        await this.handleInvoiceCreated(event.data.object as Stripe.Invoice);
+        break;
+      case 'invoice.paid':
+        await this.handleInvoicePaid(event.data.object as Stripe.Invoice);
+        break;
+      case 'invoice.payment_failed':
+        await this.handleInvoicePaymentFailed(event.data.object as Stripe.Invoice);
+        break;
+      case 'customer.subscription.updated':
+        await this.handleSubscriptionUpdated(event.data.object as Stripe.Subscription);
+        break;
+      case 'customer.subscription.deleted':
+        await this.handleSubscriptionDeleted(event.data.object as Stripe.Subscription);
+        break;
+      case 'charge.dispute.created':
+        await this.handleDisputeCreated(event.data.object as Stripe.Dispute);
+        break;
+      case 'checkout.session.expired':
+        await promotionService.releaseStripeRedemption((event.data.object as Stripe.Checkout.Session).id);
+        break;
+      default:
+        console.log(`[STRIPE] Ignoring unhandled event type ${event.type}`);
+    }
+  }
+
+  /**
+   * Stripe drafts each renewal invoice about an hour before charging it, which
+   * leaves time to put the user's account credit against it
+   */
+  private async handleInvoiceCreated(invoice: Stripe.Invoice): Promise<void> {
+    if (invoice.billing_reason !== 'subscription_cycle' || invoice.status !== 'draft' || invoice.amount_due <= 0) {
+      return;
+    }
+    if (this.getInvoiceSubscriptionMetadata(invoice)?.organizationId) {
+      return; // Credit belongs to users, not their organizations
+    }
+
+    const user = await this.getUserForCustomer(invoice.customer);
+    if (!user || user.creditBalance <= 0) {
+      return;
+    }
+    if (!this.stripe) {
+      console.log(`[STRIPE] Can't apply credit to invoice ${invoice.id} without the Stripe API`);
+      return;
+    }
+
+    await referralService.applyStripeRenewalCredit(this.stripe, user, invoice);
+  }
+
+  /**
+   * A subscription invoice was paid, so extend access to the end of the billed period
+   */
+  private async handleInvoicePaid(invoice: Stripe.Invoice): Promise<void> {
+    const subscriptionId = this.getInvoiceSubscriptionId(invoice);
+    if (!subscriptionId) {
+      return; // One-off invoices don't affect subscriptions
+    }
+
+    // Seat changes invoice a credit for the old quantity and a charge for the new one
+    const lines: any[] = invoice.lines?.data || [];
+    const line: any = lines.find(item => item.amount > 0) || lines[0];
+    const priceId = line?.price?.id || line?.pricing?.price_details?.price;
+    const plan = priceId ? await storage.getSubscriptionPlanByStripePriceId(priceId) : undefined;
+    if (!plan) {
+      console.error(`[STRIPE] No plan matches price ${priceId} on invoice ${invoice.id}`);
+      return;
+    }
+
+    const expiryDate = new Date(line.period.end * 1000);
+
+    const organizationId = this.getInvoiceSubscriptionMetadata(invoice)?.organizationId;
+    if (organizationId) {
+      await organizationService.applyStripePayment(parseInt(organizationId, 10), {
+        subscriptionId,
+        plan,
+        seats: line.quantity || 1,
+        amount: invoice.amount_paid,
+        currency: invoice.currency,
+        invoiceId: invoice.id as string,
+        paymentId: this.getInvoicePaymentId(invoice),
+        periodStart: new Date(line.period.start * 1000),
+        periodEnd: expiryDate
+      });
+      return;
+    }
+
+    const user = await this.getUserForCustomer(invoice.customer);
+    if (!user) {
+      return;
+    }
+
+    // Checkout subscriptions are saved by their first invoice, anything later has to be the current one
+    const startsSubscription = invoice.billing_reason === 'subscription_create' && !user.stripeSubscriptionId;
+    if (!startsSubscription && !this.isCurrentSubscription(user, subscriptionId)) {
+      console.log(`[STRIPE] Ignoring invoice ${invoice.id} for subscription ${subscriptionId}, which isn't user ${user.id}'s current one`);
+      return;
+    }
+
+    await billingLedger.recordPayment({
+      userId: user.id,
+      provider: billingProviders.STRIPE,
+      providerInvoiceId: invoice.id,
+      providerPaymentId: this.getInvoicePaymentId(invoice),
+      planName: plan.name,
+      description: `${plan.name} plan subscription`,
+      amount: invoice.amount_paid,
+      currency: invoice.currency,
+      status: paymentStatuses.SUCCEEDED,
+      periodStart: new Date(line.period.start * 1000),
+      periodEnd: expiryDate
+    });
+
+    // Count a coupon used at checkout; Stripe has already taken the discount off
+    const couponCode = this.getInvoiceSubscriptionMetadata(invoice)?.couponCode;
+    if (couponCode && invoice.billing_reason === 'subscription_create') {
+      const discount = (invoice.total_discount_amounts || []).reduce((total, item) => total + item.amount, 0);
+      await promotionService.recordStripeRedemption(couponCode, user, plan.name, discount, invoice.currency, invoice.id as string);
+    }
+
+    // Renewing on a scheduled downgrade's plan means the downgrade has taken effect
+    if (plan.name === user.pendingSubscription) {
+      await storage.switchUserPlan(user.id, plan);
+    }
+
+    await storage.updateUserSubscription(user.id, plan.name, expiryDate);
+    await storage.updateSubscriptionStatus(user.id, subscriptionStatuses.ACTIVE);
+    await storage.updateStripeSubscriptionId(user.id, subscriptionId);
+    await storage.updateUserCurrency(user.id, invoice.currency.toUpperCase());
+
+    console.log(`[STRIPE] User ${user.id} renewed ${plan.name} until ${expiryDate.toISOString()}`);
+  }
+
+  /**
+   * A renewal payment failed. Access continues until the paid-through date while
+   * Stripe retries; once it gives up the subscription is deleted.
+   */
+  private async handleInvoicePaymentFailed(invoice: Stripe.Invoice): Promise<void> {
+    const subscriptionId = this.getInvoiceSubscriptionId(invoice);
+    if (!subscriptionId) {
+      return;
+    }
+
+    const organizationId = this.getInvoiceSubscriptionMetadata(invoice)?.organizationId;
+    if (organizationId) {
+      await organizationService.markPaymentFailed(parseInt(organizationId, 10));
+      return;
+    }
+
+    const user = await this.getUserForCustomer(invoice.customer);
+    if (!user) {
+      return;
+    }
+
+    const line: any = invoice.lines?.data?.[0];
+    await billingLedger.recordPayment({
+      userId: user.id,
+      provider: billingProviders.STRIPE,
+      providerInvoiceId: invoice.id,
+      // Each failed attempt is a separate payment so retries show up in the history
+      providerPaymentId: `${this.getInvoicePaymentId(invoice)}:attempt-${invoice.attempt_count}`,
+      planName: user.subscription,
+      description: line?.description || 'Subscription renewal',
+      amount: invoice.amount_due,
+      currency: invoice.currency,
+      status: paymentStatuses.FAILED,
+      failureReason: invoice.last_finalization_error?.message || 'Renewal payment failed'
+    });
+
+    // A subscription that has ended or been replaced doesn't make the current one past due
+    if (!this.isCurrentSubscription(user, subscriptionId)) {
+      return;
+    }
+    await storage.updateSubscriptionStatus(user.id, subscriptionStatuses.PAST_DUE);
+
+    const nextAttempt = invoice.next_payment_attempt
+      ? new Date(invoice.next_payment_attempt * 1000).toISOString()
+      : 'none';
+    console.log(`[STRIPE] Payment failed for user ${user.id} on invoice ${invoice.id}, next attempt: ${nextAttempt}`);
+  }
+
+  /**
+   * Plan changes, cancellations scheduled from the customer portal and
+   * delinquency all arrive as subscription updates
+   */
+  private async handleSubscriptionUpdated(subscription: Stripe.Subscription): Promise<void> {
+    // The first invoice was never paid, so the coupon it held can be used again
+    if (subscription.status === 'incomplete_expired') {
+      await promotionService.releaseStripeRedemption(subscription.id);
+    }
+
+    if (subscription.metadata?.organizationId) {
+      await organizationService.syncStripeSubscription(parseInt(subscription.metadata.organizationId, 10), subscription);
+      return;
+    }
+
+    const user = await this.getUserForCustomer(subscription.customer);
+    if (!user || !this.isCurrentSubscription(user, subscription.id)) {
+      return;
+    }
+
+    switch (subscription.status) {
+      case 'active':
+      case 'trialing': {
+        const item: any = subscription.items.data[0];
+        const plan = item ? await storage.getSubscriptionPlanByStripePriceId(item.price.id) : undefined;
+        if (!plan) {
+          console.error(`[STRIPE] No plan matches the price on subscription ${subscription.id}`);
+          return;
+        }
+
+        // The billing period moved from the subscription to its items in newer API versions
+        const periodEnd = (subscription as any).current_period_end || item.current_period_end;
+        // A scheduled downgrade already points Stripe at the new price, but the user keeps
+        // their current plan until the period ends
+        const currentPlan = plan.name === user.pendingSubscription ? user.subscription : plan.name;
+        await storage.updateUserSubscription(user.id, currentPlan, new Date(periodEnd * 1000));
+        await storage.updateSubscriptionStatus(
+          user.id,
+          subscription.cancel_at_period_end ? subscriptionStatuses.CANCELED : subscriptionStatuses.ACTIVE
+        );
+        break;
+      }
+      case 'past_due':
+      case 'unpaid':
+        await storage.updateSubscriptionStatus(user.id, subscriptionStatuses.PAST_DUE);
+        break;
+      case 'canceled':
+      case 'incomplete_expired':
+        await this.downgradeToFree(user, subscriptionStatuses.CANCELED);
+        break;
+      default:
+        console.log(`[STRIPE] Subscription ${subscription.id} is ${subscription.status}, no change for user ${user.id}`);
+    }
+  }
+
+  /**
+   * The subscription has ended, either immediately or at the end of its period
+   */
+  private async handleSubscriptionDeleted(subscription: Stripe.Subscription): Promise<void> {
+    if (subscription.metadata?.organizationId) {
+      await organizationService.endStripeSubscription(parseInt(subscription.metadata.organizationId, 10), subscription);
+      return;
+    }
+
+    const user = await this.getUserForCustomer(subscription.customer);
+    if (!user || !this.isCurrentSubscription(user, subscription.id)) {
+      return;
+    }
+
+    // Keep a dispute visible rather than overwriting it with a plain cancellation
+    const status = user.subscriptionStatus === subscriptionStatuses.DISPUTED
+      ? subscriptionStatuses.DISPUTED
+      : subscriptionStatuses.CANCELED;
+    await this.downgradeToFree(user, status);
+    await storage.updateStripeSubscriptionId(user.id, "");
+  }
+
+  /**
+   * The customer disputed a charge, so revoke paid access while it's resolved
+   */
+  private async handleDisputeCreated(dispute: Stripe.Dispute): Promise<void> {
+    let charge = dispute.charge;
+    if (typeof charge === 'string') {
+      if (!this.stripe) {
+        throw new Error(`Can't look up disputed charge ${charge} without the Stripe API`);
+      }
+      charge = await this.stripe.charges.retrieve(charge);
+    }
+
+    // The ledger may know the charge by its payment intent
+    const paymentIntent = typeof charge.payment_intent === 'string' ? charge.payment_intent : charge.payment_intent?.id;
+    const disputed = await billingLedger.markDisputed(billingProviders.STRIPE, charge.id) ||
+      (paymentIntent ? await billingLedger.markDisputed(billingProviders.STRIPE, paymentIntent) : undefined);
+    if (!disputed) {
+      console.error(`[STRIPE] Disputed charge ${charge.id} isn't in the billing ledger`);
+    }
+
+    const customerId = typeof charge.customer === 'string' ? charge.customer : charge.customer?.id;
+    const organization = customerId ? await storage.getOrganizationByStripeCustomerId(customerId) : undefined;
+    if (organization) {
+      await organizationService.downgradeToFree(organization, subscriptionStatuses.DISPUTED);
+      console.log(`[STRIPE] Dispute ${dispute.id} opened for organization ${organization.id} (${dispute.reason}), access revoked`);
+      return;
+    }
+
+    const user = await this.getUserForCustomer(charge.customer);
+    if (!user) {
+      return;
+    }
+
+    await this.downgradeToFree(user, subscriptionStatuses.DISPUTED);
+    console.log(`[STRIPE] Dispute ${dispute.id} opened for user ${user.id} (${dispute.reason}), access revoked`);
+  }
+
+  private async downgradeToFree(user: User, status: SubscriptionStatus): Promise<void> {
+    await storage.updateUserSubscription(user.id, subscriptionTiers.FREE, null);
+    await storage.updateSubscriptionStatus(user.id, status);
+    console.log(`[STRIPE] User ${user.id} moved to the free plan (${status})`);
+  }
+
+  private async getUserForCustomer(
+    customer: string | Stripe.Customer | Stripe.DeletedCustomer | null
+  ): Promise<User | undefined> {
+    const customerId = typeof customer === 'string' ? customer : customer?.id;
+    if (!customerId) {
+      return undefined;
+    }
+
+    const user = await storage.getUserByStripeCustomerId(customerId);
+    if (!user) {
+      console.error(`[STRIPE] No user found for customer ${customerId}`);
+    }
+    return user;
+  }
+
+  /**
+   * Ignore events for a subscription the user has already replaced or ended. A
+   * user without a subscription has none to update.
+   */
+  private isCurrentSubscription(user: User, subscriptionId: string): boolean {
+    return !!user.stripeSubscriptionId && user.stripeSubscriptionId === subscriptionId;
+  }
+
+  /**
+   * Get the payment intent or charge that paid an invoice, falling back to the
+   * invoice itself when the payload doesn't link one
+   */
+  private getInvoicePaymentId(invoice: Stripe.Invoice): string {
+    const legacy = invoice as any;
+    const invoicePayment = invoice.payments?.data?.[0]?.payment;
+    const linked = legacy.payment_intent || legacy.charge || invoicePayment?.payment_intent || invoicePayment?.charge;
+    if (!linked) {
+      return invoice.id as string;
+    }
+    return typeof linked === 'string' ? linked : linked.id;
+  }
+
+  private getInvoiceSubscriptionId(invoice: Stripe.Invoice): string | null {
+    // Older API versions put the subscription on the invoice, newer ones under parent
+    const subscription = (invoice as any).subscription || invoice.parent?.subscription_details?.subscription;
+    if (!subscription) {
+      return null;
+    }
+    return typeof subscription === 'string' ? subscription : subscription.id;
+  }
+
+  private getInvoiceSubscriptionMetadata(invoice: Stripe.Invoice): Record<string, string> | null {
+    return (invoice as any).subscription_details?.metadata || invoice.parent?.subscription_details?.metadata || null;
+  }
+}
+
+export function setupStripeWebhookRoutes(app: any, stripe: Stripe | undefined) {
+  const handler = new StripeWebhookHandler(stripe);
+
+  app.post('/api/webhooks/stripe', async (req: Request, res: Response) => {
+    // Whichever provider is registered for Stripe checks the signature, the real one or the fake
+    const provider = paymentProviders.get(billingProviders.STRIPE);
+    if (!provider) {
+      return res.status(503).json({ message: 'Stripe webhooks are not configured' });
+    }
+    if (!Buffer.isBuffer(req.rawBody)) {
+      return res.status(400).json({ message: 'Missing webhook signature' });
+    }
+
+    let event: Stripe.Event;
+    try {
+      event = provider.parseWebhook(req.rawBody, req.headers).payload;
+    } catch (error) {
+      if (error instanceof PaymentProviderError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      return res.status(400).json({ message: 'Invalid webhook payload' });
+    }
+
+    let claimed = false;
+    try {
+      // Stripe delivers at least once, so skip events we've already handled
+      claimed = await storage.claimWebhookEvent(PROVIDER, event.id, event.type);
+      if (!claimed) {
+        return res.json({ received: true, duplicate: true });
+      }
+
+      await handler.handleEvent(event);
+      res.json({ received: true });
+    } catch (error: any) {
+      console.error(`[STRIPE] Error processing event ${event.id} (${event.type}):`, error);
+
+      // Let Stripe's retry process the event again
+      if (claimed) {
+        await storage.releaseWebhookEvent(PROVIDER, event.id).catch(console.error);
+      }
+      res.status(500).json({ message: 'Error processing webhook' });
+    }
+  });
+}
@@ -0,0 +1,286 @@
+/**
+ * Subscription Expiry Scheduler
+ *
+ * This service moves users whose paid subscription has lapsed back to the free
+ * plan. It's responsible for:
+ *
+ * 1. Periodically finding subscriptions past their expiry date and the configured
+ *    grace period
+ * 2. Downgrading those users to the free plan and resetting their data and daily
+ *    time limits to match it
+ * 3. Disconnecting any of their active sessions on premium-only servers
+ * 4. Applying scheduled plan changes once the period they wait for has ended
+ * 5. Ending free trials, which get no grace period
+ * 6. Renewing organizations billed through Paystack and downgrading organizations
+ *    whose seats lapsed, along with their members' premium sessions
+ * 7. Emailing users before their plan renews or ends, and once it has ended
+ */
+
+import { storage } from './storage';
+import { vpnTunnelService } from './vpn-tunnel';
+import { connectionStatistics } from './scaling';
+import { organizationService } from './organizations';
+import { emailService } from './email';
+import { subscriptionTiers, subscriptionStatuses, User } from '@shared/schema';
+
+const CHECK_INTERVAL = 60 * 60 * 1000; // 1 hour
+const STARTUP_DELAY = 60 * 1000; // Give the database a minute to come up
+const GRACE_PERIOD_SETTING = 'subscription_grace_period_days';
+const DEFAULT_GRACE_PERIOD_DAYS = 3;
+const REMINDER_DAYS = 3; // How long before the expiry date to email a reminder
+
+class SubscriptionExpiryScheduler {
+  private isRunning = false;
+
+  constructor() {
+    setTimeout(() => this.run(), STARTUP_DELAY);
+
+    // Check for lapsed subscriptions every hour
+    setInterval(() => this.run(), CHECK_INTERVAL);
+  }
+
+  /**
+   * Get the number of days a subscription stays active after its expiry date,
+   * from the app settings
+   */
+  async getGracePeriodDays(): Promise<number> {
+    const setting = await storage.getAppSetting(GRACE_PERIOD_SETTING);
+    const days = setting?.value ? parseFloat(setting.value) : NaN;
+    return isNaN(days) || days < 0 ? DEFAULT_GRACE_PERIOD_DAYS : days;
+  }
+
+  /**
+   * Get when a user's paid access ends once the grace period is added to the
+   * expiry date
+   *
+   * @param user The user to check
+   * @returns The end of the grace period, or null for free or non-expiring plans
+   */
+  async getGraceEndDate(user: User): Promise<Date | null> {
+    if (user.subscription === subscriptionTiers.FREE || !user.subscriptionExpiryDate) {
+      return null;
+    }
+    if (user.subscriptionStatus === subscriptionStatuses.TRIALING) {
+      return user.subscriptionExpiryDate;
+    }
+    const graceDays = await this.getGracePeriodDays();
+    return new Date(user.subscriptionExpiryDate.getTime() + graceDays * 24 * 60 * 60 * 1000);
+  }
+
+  /**
+   * Downgrade every user whose subscription expired before the grace period
+   *
+   * @returns The number of users downgraded
+   */
+  async downgradeLapsedSubscriptions(): Promise<number> {
+    const graceDays = await this.getGracePeriodDays();
+    const cutoff = new Date(Date.now() - graceDays * 24 * 60 * 60 * 1000);
+
+    // Trials weren't paid for, so they end on their expiry date
+    const lapsed = await storage.getLapsedSubscriptions(cutoff);
+    const expiredTrials = await storage.getExpiredTrials(new Date());
+    expiredTrials.forEach(user => {
+      if (!lapsed.some(lapsedUser => lapsedUser.id === user.id)) {
+        lapsed.push(user);
+      }
+    });
+    if (lapsed.length === 0) {
+      return 0;
+    }
+
+    const freePlan = await storage.getSubscriptionPlanByName(subscriptionTiers.FREE);
+    if (!freePlan) {
+      throw new Error('Free subscription plan not found');
+    }
+
+    let downgraded = 0;
+    for (const user of lapsed) {
+      try {
+        await storage.resetUserToPlan(user.id, freePlan);
+        await storage.updateSubscriptionStatus(user.id, subscriptionStatuses.EXPIRED);
+        await this.disconnectPremiumSessions(user);
+        downgraded++;
+
+        console.log(`User ${user.id}'s ${user.subscription} subscription expired on ${user.subscriptionExpiryDate?.toISOString()}, moved to the free plan`);
+        await emailService.sendToUser(
+          user,
+          'subscriptionExpired',
+          { planName: user.subscription },
+          `subscription-expired:${user.id}:${user.subscriptionExpiryDate?.toISOString()}`
+        );
+      } catch (error) {
+        console.error(`Error downgrading lapsed subscription for user ${user.id}:`, error);
+      }
+    }
+
+    return downgraded;
+  }
+
+  /**
+   * Email users whose plan renews or ends in the next few days. Each expiry date
+   * gets one reminder.
+   *
+   * @returns The number of users reminded
+   */
+  async sendExpiryReminders(): Promise<number> {
+    const now = new Date();
+    const until = new Date(now.getTime() + REMINDER_DAYS * 24 * 60 * 60 * 1000);
+    const expiring = await storage.getSubscriptionsExpiringBetween(now, until);
+
+    let reminded = 0;
+    for (const user of expiring) {
+      try {
+        // Only active subscriptions with a provider behind them renew by themselves
+        const renews = user.subscriptionStatus === subscriptionStatuses.ACTIVE &&
+          !user.pendingSubscription &&
+          !!(user.stripeSubscriptionId || user.paystackSubscriptionCode);
+        await emailService.sendToUser(user, 'subscriptionExpiring', {
+          planName: user.subscription,
+          expiresAt: user.subscriptionExpiryDate!,
+          renews
+        }, `subscription-expiring:${user.id}:${user.subscriptionExpiryDate!.toISOString()}`);
+        reminded++;
+      } catch (error) {
+        console.error(`Error emailing expiry reminder to user ${user.id}:`, error);
+      }
+    }
+
+    return reminded;
+  }
+
+  /**
+   * Move every user with a scheduled plan change that's now due onto the new plan
+   *
+   * @returns The number of plan changes applied
+   */
+  async applyPendingPlanChanges(): Promise<number> {
+    const due = await storage.getDuePendingSubscriptions(new Date());
+
+    let applied = 0;
+    for (const user of due) {
+      try {
+        const plan = await storage.getSubscriptionPlanByName(user.pendingSubscription!);
+        if (!plan) {
+          console.error(`Scheduled plan ${user.pendingSubscription} for user ${user.id} not found`);
+          await storage.setPendingSubscription(user.id, null, null);
+          continue;
+        }
+
+        if (plan.name === subscriptionTiers.FREE) {
+          await storage.resetUserToPlan(user.id, plan);
+          await storage.setPendingSubscription(user.id, null, null);
+          await storage.updateSubscriptionStatus(user.id, subscriptionStatuses.CANCELED);
+        } else {
+          await storage.switchUserPlan(user.id, plan);
+        }
+
+        // Free and basic users can't use premium servers
+        if (plan.name === subscriptionTiers.FREE || plan.name === subscriptionTiers.BASIC) {
+          await this.disconnectPremiumSessions(user);
+        }
+        applied++;
+
+        console.log(`User ${user.id} moved from ${user.subscription} to their scheduled ${plan.name} plan`);
+      } catch (error) {
+        console.error(`Error applying scheduled plan change for user ${user.id}:`, error);
+      }
+    }
+
+    return applied;
+  }
+
+  /**
+   * Move every organization whose subscription expired before the grace period
+   * back to the free plan
+   *
+   * @returns The number of organizations downgraded
+   */
+  async downgradeLapsedOrganizations(): Promise<number> {
+    const graceDays = await this.getGracePeriodDays();
+    const cutoff = new Date(Date.now() - graceDays * 24 * 60 * 60 * 1000);
+    const lapsed = await storage.getLapsedOrganizations(cutoff);
+
+    let downgraded = 0;
+    for (const organization of lapsed) {
+      try {
+        await organizationService.downgradeToFree(organization, subscriptionStatuses.EXPIRED);
+
+        // Members on a paid plan of their own keep their premium access
+        for (const member of await storage.getOrganizationMembers(organization.id)) {
+          if (await storage.checkUserFeatureAccess(member.userId, 'premium_servers')) {
+            continue;
+          }
+          const user = await storage.getUser(member.userId);
+          if (user) {
+            await this.disconnectPremiumSessions(user);
+          }
+        }
+        downgraded++;
+      } catch (error) {
+        console.error(`Error downgrading lapsed subscription for organization ${organization.id}:`, error);
+      }
+    }
+
+    return downgraded;
+  }
+
+  /**
+   * Close the user's tunnels to servers their plan no longer covers
+   */
+  private async disconnectPremiumSessions(user: User): Promise<void> {
+    if (user.role === 'admin') {
+      return; // Admins can use every server regardless of plan
+    }
+
+    for (const tunnel of vpnTunnelService.getUserTunnels(user.id)) {
+      const server = await storage.getServerById(tunnel.serverId);
+      if (!server?.premium) {
+        continue;
+      }
+
+      await storage.endDeviceSession(user.id, tunnel.deviceId);
+      vpnTunnelService.closeTunnel(tunnel.deviceId);
+      connectionStatistics.recordDisconnection(tunnel.serverId);
+      console.log(`Disconnected device ${tunnel.deviceId} from premium server ${server.id} after user ${user.id}'s plan changed`);
+    }
+  }
+
+  private async run(): Promise<void> {
+    // Skip this run if the previous one is still going
+    if (this.isRunning) {
+      return;
+    }
+    this.isRunning = true;
+
+    try {
+      const changed = await this.applyPendingPlanChanges();
+      if (changed > 0) {
+        console.log(`Applied ${changed} scheduled plan change(s)`);
+      }
+
+      const downgraded = await this.downgradeLapsedSubscriptions();
+      if (downgraded > 0) {
+        console.log(`Downgraded ${downgraded} lapsed subscription(s)`);
+      }
+
+      await this.sendExpiryReminders();
+
+      const renewed = await organizationService.renewPaystackSubscriptions();
+      if (renewed > 0) {
+        console.log(`Renewed ${renewed} organization subscription(s)`);
+      }
+
+      const downgradedOrganizations = await this.downgradeLapsedOrganizations();
+      if (downgradedOrganizations > 0) {
+        console.log(`Downgraded ${downgradedOrganizations} lapsed organization subscription(s)`);
+      }
+    } catch (error) {
+      console.error('Error checking for lapsed subscriptions:', error);
+    } finally {
+      this.isRunning = false;
+    }
+  }
+}
+
+// Export singleton instance
+export const subscriptionExpiryScheduler = new SubscriptionExpiryScheduler();
@@ -0,0 +1,590 @@
+/**
+ * Two-Factor Authentication
+ *
+ * This module handles optional TOTP two-factor authentication (RFC 6238) for
+ * accounts that sign in with a password. It's responsible for:
+ *
+ * 1. Enrolling a user with an authenticator app through a QR code, and only
+ *    turning two-factor on once they've entered a code from it
+ * 2. Issuing ten single-use recovery codes for when the app is lost
+ * 3. Asking for a code as a second step after the password at sign-in
+ * 4. Asking for the password and a code again before two-factor is turned off
+ *    or the recovery codes are replaced
+ * 5. Letting admins require two-factor for everyone with a staff role
+ *
+ * Secrets are encrypted at rest with TWO_FACTOR_ENCRYPTION_KEY, falling back to
+ * SESSION_SECRET. In production two-factor can't be turned on without one of them.
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import crypto from 'crypto';
+import QRCode from 'qrcode';
+import { storage } from './storage';
+import { requirePermission } from './permissions';
+import { auditLog } from './audit';
+import { comparePasswords, toPublicUser } from './auth';
+import { User, permissions, auditActions, isStaffRole } from '@shared/schema';
+
+const ISSUER = 'SecureShield VPN';
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+const SECRET_BYTES = 20; // 160 bits, as RFC 4226 recommends
+const STEP_SECONDS = 30;
+const CODE_DIGITS = 6;
+const ALLOWED_DRIFT_STEPS = 1; // Accept the previous and next code for clock skew
+
+const RECOVERY_CODE_COUNT = 10;
+const SETUP_TTL = 10 * 60 * 1000; // How long an unconfirmed enrollment lasts
+const LOGIN_CHALLENGE_TTL = 5 * 60 * 1000; // How long after the password the code can be entered
+const MAX_LOGIN_ATTEMPTS = 5; // Wrong codes before the password has to be entered again
+
+const REQUIRE_FOR_ADMINS_SETTING = 'two_factor_required_for_admins';
+
+declare module 'express-session' {
+  interface SessionData {
+    // A sign-in that passed the password check and is waiting for a code
+    twoFactorLogin?: { userId: number; expiresAt: number; attempts: number };
+    // A secret shown to the user that they haven't confirmed with a code yet
+    twoFactorSetup?: { secret: string; expiresAt: number };
+  }
+}
+
+// Interface for what a user sees about their own two-factor settings
+export interface TwoFactorStatus {
+  enabled: boolean;
+  enabledAt: Date | null;
+  recoveryCodesRemaining: number;
+  required: boolean;
+}
+
+// Interface for a new enrollment, before it's confirmed
+export interface TwoFactorSetup {
+  secret: string;
+  otpauthUrl: string;
+  qrCode: string; // PNG data URL
+}
+
+/**
+ * A two-factor request that can't be carried out, with the HTTP status to answer it with
+ */
+export class TwoFactorError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = 'TwoFactorError';
+  }
+}
+
+class TwoFactorService {
+  /**
+   * Check whether a user has two-factor turned on
+   */
+  isEnabled(user: User): boolean {
+    return !!(user.twoFactorEnabledAt && user.twoFactorSecret);
+  }
+
+  /**
+   * Check whether a user has to have two-factor turned on
+   */
+  async isRequiredFor(user: User): Promise<boolean> {
+    return isStaffRole(user.role) && await this.isRequiredForAdmins();
+  }
+
+  async isRequiredForAdmins(): Promise<boolean> {
+    const setting = await storage.getAppSetting(REQUIRE_FOR_ADMINS_SETTING);
+    return setting?.value === 'true';
+  }
+
+  async setRequiredForAdmins(required: boolean): Promise<void> {
+    await storage.setAppSetting(
+      REQUIRE_FOR_ADMINS_SETTING,
+      required ? 'true' : 'false',
+      'Whether users with a staff role must turn on two-factor authentication'
+    );
+  }
+
+  /**
+   * Get a user's two-factor settings
+   */
+  async getStatus(user: User): Promise<TwoFactorStatus> {
+    const enabled = this.isEnabled(user);
+    return {
+      enabled,
+      enabledAt: enabled ? user.twoFactorEnabledAt : null,
+      recoveryCodesRemaining: enabled ? await storage.countUnusedRecoveryCodes(user.id) : 0,
+      required: await this.isRequiredFor(user)
+    };
+  }
+
+  /**
+   * Start enrolling a user, making a secret and the QR code that carries it
+   *
+   * @param user The user turning two-factor on
+   * @returns The secret, for typing in by hand, and its QR code
+   */
+  async createSetup(user: User): Promise<TwoFactorSetup> {
+    if (user.firebaseId) {
+      throw new TwoFactorError('Two-factor authentication is managed by your sign-in provider');
+    }
+    if (this.isEnabled(user)) {
+      throw new TwoFactorError('Two-factor authentication is already on', 409);
+    }
+    this.assertEncryptionKey();
+
+    const secret = this.base32Encode(crypto.randomBytes(SECRET_BYTES));
+    const label = encodeURIComponent(`${ISSUER}:${user.username}`);
+    const otpauthUrl = `otpauth://totp/${label}?secret=${secret}&issuer=${encodeURIComponent(ISSUER)}` +
+      `&algorithm=SHA1&digits=${CODE_DIGITS}&period=${STEP_SECONDS}`;
+    const qrCode = await QRCode.toDataURL(otpauthUrl);
+
+    return { secret, otpauthUrl, qrCode };
+  }
+
+  /**
+   * Turn two-factor on once the user has shown their app makes the right codes
+   *
+   * @param user The user turning two-factor on
+   * @param secret The secret from their enrollment
+   * @param code A code from their app
+   * @returns The recovery codes, which are only shown this once
+   */
+  async enable(user: User, secret: string, code: string): Promise<string[]> {
+    if (this.isEnabled(user)) {
+      throw new TwoFactorError('Two-factor authentication is already on', 409);
+    }
+    this.assertEncryptionKey();
+
+    const step = this.matchStep(secret, code);
+    if (step === null) {
+      throw new TwoFactorError('That code is incorrect. Check the time on your device and try again.');
+    }
+
+    const { codes, hashes } = this.generateRecoveryCodes();
+    await storage.enableTwoFactor(user.id, this.encryptSecret(secret), step, hashes);
+    console.log(`User ${user.id} turned on two-factor authentication`);
+    return codes;
+  }
+
+  /**
+   * Turn two-factor off after checking the password and a code again
+   */
+  async disable(user: User, password: string, code: string): Promise<void> {
+    if (!this.isEnabled(user)) {
+      throw new TwoFactorError('Two-factor authentication is already off', 409);
+    }
+    if (await this.isRequiredFor(user)) {
+      throw new TwoFactorError('Two-factor authentication is required for staff accounts', 403);
+    }
+
+    await this.reauthenticate(user, password, code);
+    await storage.disableTwoFactor(user.id);
+    console.log(`User ${user.id} turned off two-factor authentication`);
+  }
+
+  /**
+   * Replace a user's recovery codes after checking the password and a code again
+   *
+   * @returns The new recovery codes
+   */
+  async regenerateRecoveryCodes(user: User, password: string, code: string): Promise<string[]> {
+    if (!this.isEnabled(user)) {
+      throw new TwoFactorError('Two-factor authentication is off', 409);
+    }
+
+    await this.reauthenticate(user, password, code);
+    const { codes, hashes } = this.generateRecoveryCodes();
+    await storage.replaceRecoveryCodes(user.id, hashes);
+    return codes;
+  }
+
+  /**
+   * Check a code from the user's app, or one of their recovery codes. Each
+   * code works once.
+   *
+   * @param user The user signing in
+   * @param code Six digits from the app, or a recovery code
+   * @returns Whether the code was accepted
+   */
+  async verifyCode(user: User, code: string): Promise<boolean> {
+    if (!this.isEnabled(user) || typeof code !== 'string') {
+      return false;
+    }
+
+    const digits = code.replace(/\s/g, '');
+    if (digits.length === CODE_DIGITS) {
+      const step = this.matchStep(this.decryptSecret(user.twoFactorSecret!), digits);
+      return step !== null && await storage.recordTwoFactorStep(user.id, step);
+    }
+
+    const recoveryCode = this.normalizeRecoveryCode(code);
+    if (!recoveryCode) {
+      return false;
+    }
+    const used = await storage.useRecoveryCode(user.id, this.hashRecoveryCode(recoveryCode));
+    if (used) {
+      console.log(`User ${user.id} signed in with a recovery code`);
+    }
+    return !!used;
+  }
+
+  /**
+   * Hold a sign-in that passed the password check until a code is entered
+   */
+  startLoginChallenge(req: Request, user: User): void {
+    req.session.twoFactorLogin = {
+      userId: user.id,
+      expiresAt: Date.now() + LOGIN_CHALLENGE_TTL,
+      attempts: 0
+    };
+  }
+
+  /**
+   * Finish a held sign-in with a code
+   *
+   * @returns The user to sign in
+   */
+  async completeLoginChallenge(req: Request, code: string): Promise<User> {
+    const challenge = req.session.twoFactorLogin;
+    if (!challenge || challenge.expiresAt <= Date.now()) {
+      delete req.session.twoFactorLogin;
+      throw new TwoFactorError('Your sign-in has timed out. Enter your password again.', 401);
+    }
+
+    const user = await storage.getUser(challenge.userId);
+    if (!user || !this.isEnabled(user)) {
+      delete req.session.twoFactorLogin;
+      throw new TwoFactorError('Your sign-in has timed out. Enter your password again.', 401);
+    }
+
+    if (!(await this.verifyCode(user, code))) {
+      challenge.attempts += 1;
+      if (challenge.attempts >= MAX_LOGIN_ATTEMPTS) {
+        delete req.session.twoFactorLogin;
+        throw new TwoFactorError('Too many incorrect codes. Enter your password again.', 401);
+      }
+      throw new TwoFactorError('That code is incorrect', 400);
+    }
+
+    delete req.session.twoFactorLogin;
+    return user;
+  }
+
+  private async reauthenticate(user: User, password: string, code: string): Promise<void> {
+    if (typeof password !== 'string' || !password || !(await comparePasswords(password, user.password))) {
+      throw new TwoFactorError('Your password is incorrect', 403);
+    }
+    if (!(await this.verifyCode(user, code))) {
+      throw new TwoFactorError('That code is incorrect', 403);
+    }
+  }
+
+  // Find the time step a code belongs to, allowing for a little clock skew
+  private matchStep(secret: string, code: string): number | null {
+    if (typeof code !== 'string' || !new RegExp(`^\\d{${CODE_DIGITS}}$`).test(code.trim())) {
+      return null;
+    }
+
+    const key = this.base32Decode(secret);
+    const current = Math.floor(Date.now() / 1000 / STEP_SECONDS);
+    const supplied = Buffer.from(code.trim());
+    for (let offset = -ALLOWED_DRIFT_STEPS; offset <= ALLOWED_DRIFT_STEPS; offset++) {
+      const expected = Buffer.from(this.generateCode(key, current + offset));
+      if (crypto.timingSafeEqual(expected, supplied)) {
+        return current + offset;
+      }
+    }
+    return null;
+  }
+
+  // HOTP (RFC 4226) for a time step
+  private generateCode(key: Buffer, step: number): string {
+    const counter = Buffer.alloc(8);
+    counter.writeUInt32BE(Math.floor(step / 0x100000000), 0);
+    counter.writeUInt32BE(step % 0x100000000, 4);
+
+    const hmac = crypto.createHmac('sha1', key).update(counter).digest();
+    const offset = hmac[hmac.length - 1] & 0x0f;
+    const binary = ((hmac[offset] & 0x7f) << 24) |
+      (hmac[offset + 1] << 16) |
+      (hmac[offset + 2] << 8) |
+      hmac[offset + 3];
+
+    return (binary % Math.pow(10, CODE_DIGITS)).toString().padStart(CODE_DIGITS, '0');
+  }
+
+  private generateRecoveryCodes(): { codes: string[]; hashes: string[] } {
+    const codes: string[] = [];
+    for (let i = 0; i < RECOVERY_CODE_COUNT; i++) {
+      const raw = crypto.randomBytes(5).toString('hex'); // 40 bits each
+      codes.push(`${raw.slice(0, 5)}-${raw.slice(5)}`);
+    }
+    return {
+      codes,
+      hashes: codes.map(code => this.hashRecoveryCode(this.normalizeRecoveryCode(code)))
+    };
+  }
+
+  // Accept recovery codes however they're typed, with or without the dash
+  private normalizeRecoveryCode(code: string): string {
+    return code.toLowerCase().replace(/[^0-9a-f]/g, '');
+  }
+
+  private hashRecoveryCode(normalizedCode: string): string {
+    return crypto.createHash('sha256').update(normalizedCode).digest('hex');
+  }
+
+  private base32Encode(buffer: Buffer): string {
+    let bits = 0;
+    let value = 0;
+    let output = '';
+    for (let i = 0; i < buffer.length; i++) {
+      value = (value << 8) | buffer[i];
+      bits += 8;
+      while (bits >= 5) {
+        output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+        bits -= 5;
+      }
+    }
+    if (bits > 0) {
+      output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+    }
+    return output;
+  }
+
+  private base32Decode(input: string): Buffer {
+    const clean = input.toUpperCase().replace(/[^A-Z2-7]/g, '');
+    const bytes: number[] = [];
+    let bits = 0;
+    let value = 0;
+    for (let i = 0; i < clean.length; i++) {
+      value = (value << 5) | BASE32_ALPHABET.indexOf(clean[i]);
+      bits += 5;
+      if (bits >= 8) {
+        bytes.push((value >>> (bits - 8)) & 0xff);
+        bits -= 8;
+      }
+    }
+    return Buffer.from(bytes);
+  }
+
+  // Secrets are stored encrypted, so a leaked user row doesn't give away the second factor
+  private encryptSecret(secret: string): string {
+    const iv = crypto.randomBytes(12);
+    const cipher = crypto.createCipheriv('aes-256-gcm', this.getEncryptionKey(), iv);
+    const encrypted = Buffer.concat([cipher.update(secret, 'utf8'), cipher.final()]);
+    return [iv, cipher.getAuthTag(), encrypted].map(part => part.toString('base64url')).join('.');
+  }
+
+  private decryptSecret(stored: string): string {
+    const [iv, tag, encrypted] = stored.split('.').map(part => Buffer.from(part, 'base64url'));
+    const decipher = crypto.createDecipheriv('aes-256-gcm', this.getEncryptionKey(), iv);
+    decipher.setAuthTag(tag);
+    return Buffer.concat([decipher.update(encrypted), decipher.final()]).toString('utf8');
+  }
+
+  private getEncryptionKey(): Buffer {
+    const secret = process.env.TWO_FACTOR_ENCRYPTION_KEY || process.env.SESSION_SECRET || 'secured-vpn-service-secret';
+    return crypto.createHash('sha256').update(secret).digest();
+  }
+
+  // The fallback key is public, so production secrets would only look encrypted
+  private assertEncryptionKey(): void {
+    if (process.env.NODE_ENV === 'production' && !process.env.TWO_FACTOR_ENCRYPTION_KEY && !process.env.SESSION_SECRET) {
+      console.error('Two-factor authentication needs TWO_FACTOR_ENCRYPTION_KEY or SESSION_SECRET to be set');
+      throw new TwoFactorError("Two-factor authentication isn't available right now. Please contact support.", 503);
+    }
+  }
+}
+
+// Export singleton instance
+export const twoFactorService = new TwoFactorService();
+
+function handleTwoFactorError(res: Response, error: any, action: string) {
+  if (error instanceof TwoFactorError) {
+    return res.status(error.status).json({ message: error.message });
+  }
+  console.error(`Error ${action}:`, error);
+  res.status(500).json({ message: `Error ${action}` });
+}
+
+/**
+ * Keep staff who haven't turned on two-factor out of the admin API while it's
+ * required. They can still reach their own two-factor settings to turn it on.
+ */
+export async function requireAdminTwoFactor(req: Request, res: Response, next: NextFunction) {
+  if (!req.isAuthenticated() || !isStaffRole(req.user.role) || twoFactorService.isEnabled(req.user)) {
+    return next();
+  }
+
+  try {
+    if (await twoFactorService.isRequiredForAdmins()) {
+      return res.status(403).json({
+        message: 'Turn on two-factor authentication to use the admin panel',
+        twoFactorSetupRequired: true
+      });
+    }
+    next();
+  } catch (error) {
+    next(error);
+  }
+}
+
+export function setupTwoFactorRoutes(app: any) {
+  // Finish signing in with a code, after /api/login asked for one
+  app.post('/api/login/two-factor', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const user = await twoFactorService.completeLoginChallenge(req, req.body.code);
+      req.login(user, (err) => {
+        if (err) return next(err);
+        res.status(200).json(toPublicUser(user));
+      });
+    } catch (error) {
+      handleTwoFactorError(res, error, 'verifying two-factor code');
+    }
+  });
+
+  // Get the current user's two-factor settings
+  app.get('/api/two-factor', async (req: Request, res: Response) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: 'Not authenticated' });
+    }
+
+    try {
+      const user = await storage.getUser(req.user.id);
+      if (!user) {
+        return res.status(404).json({ message: 'User not found' });
+      }
+      res.json(await twoFactorService.getStatus(user));
+    } catch (error) {
+      handleTwoFactorError(res, error, 'fetching two-factor settings');
+    }
+  });
+
+  // Start enrolling, returning a QR code for the user's authenticator app
+  app.post('/api/two-factor/setup', async (req: Request, res: Response) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: 'Not authenticated' });
+    }
+
+    try {
+      const user = await storage.getUser(req.user.id);
+      if (!user) {
+        return res.status(404).json({ message: 'User not found' });
+      }
+
+      const setup = await twoFactorService.createSetup(user);
+      // The secret stays in the session until it's confirmed, so it's never stored unused
+      req.session.twoFactorSetup = { secret: setup.secret, expiresAt: Date.now() + SETUP_TTL };
+      res.json(setup);
+    } catch (error) {
+      handleTwoFactorError(res, error, 'starting two-factor setup');
+    }
+  });
+
+  // Confirm enrollment with a code from the app, returning the recovery codes
+  app.post('/api/two-factor/enable', async (req: Request, res: Response) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: 'Not authenticated' });
+    }
+
+    const setup = req.session.twoFactorSetup;
+    if (!setup || setup.expiresAt <= Date.now()) {
+      delete req.session.twoFactorSetup;
+      return res.status(400).json({ message: 'Setup has expired. Scan a new QR code to continue.' });
+    }
+
+    try {
+      const user = await storage.getUser(req.user.id);
+      if (!user) {
+        return res.status(404).json({ message: 'User not found' });
+      }
+
+      const recoveryCodes = await twoFactorService.enable(user, setup.secret, req.body.code);
+      delete req.session.twoFactorSetup;
+      res.json({ success: true, recoveryCodes });
+    } catch (error) {
+      handleTwoFactorError(res, error, 'turning on two-factor authentication');
+    }
+  });
+
+  // Turn two-factor off, with the password and a code
+  app.post('/api/two-factor/disable', async (req: Request, res: Response) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: 'Not authenticated' });
+    }
+
+    try {
+      const user = await storage.getUser(req.user.id);
+      if (!user) {
+        return res.status(404).json({ message: 'User not found' });
+      }
+
+      await twoFactorService.disable(user, req.body.password, req.body.code);
+      res.json({ success: true });
+    } catch (error) {
+      handleTwoFactorError(res, error, 'turning off two-factor authentication');
+    }
+  });
+
+  // Replace the recovery codes, with the password and a code
+  app.post('/api/two-factor/recovery-codes', async (req: Request, res: Response) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: 'Not authenticated' });
+    }
+
+    try {
+      const user = await storage.getUser(req.user.id);
+      if (!user) {
+        return res.status(404).json({ message: 'User not found' });
+      }
+
+      const recoveryCodes = await twoFactorService.regenerateRecoveryCodes(user, req.body.password, req.body.code);
+      res.json({ success: true, recoveryCodes });
+    } catch (error) {
+      handleTwoFactorError(res, error, 'replacing recovery codes');
+    }
+  });
+
+  // Get whether staff must use two-factor
+  app.get('/api/admin/security/two-factor', requirePermission(permissions.SECURITY_MANAGE), async (req: Request, res: Response) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: 'Not authenticated' });
+    }
+
+    try {
+      res.json({ requireForAdmins: await twoFactorService.isRequiredForAdmins() });
+    } catch (error) {
+      handleTwoFactorError(res, error, 'fetching two-factor policy');
+    }
+  });
+
+  // Set whether staff must use two-factor
+  app.put('/api/admin/security/two-factor', requirePermission(permissions.SECURITY_MANAGE), async (req: Request, res: Response) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: 'Not authenticated' });
+    }
+
+    const { requireForAdmins } = req.body;
+    if (typeof requireForAdmins !== 'boolean') {
+      return res.status(400).json({ message: 'requireForAdmins must be true or false' });
+    }
+
+    try {
+      // Don't let an admin lock themselves out of the panel they're using
+      if (requireForAdmins && isStaffRole(req.user.role) && !twoFactorService.isEnabled(req.user)) {
+        return res.status(400).json({ message: 'Turn on two-factor authentication for your own account first' });
+      }
+
+      const before = await twoFactorService.isRequiredForAdmins();
+      await twoFactorService.setRequiredForAdmins(requireForAdmins);
+      await auditLog.record(req, {
+        action: auditActions.TWO_FACTOR_POLICY_UPDATED,
+        targetType: 'app_setting',
+        targetId: 'two_factor_required_for_admins',
+        before: { requireForAdmins: before },
+        after: { requireForAdmins }
+      });
+      res.json({ requireForAdmins });
+    } catch (error) {
+      handleTwoFactorError(res, error, 'updating two-factor policy');
+    }
+  });
+}
@@ -1,14 +1,15 @@
 import { db } from './db';
-import { subscriptionPlans, subscriptionTiers } from '@shared/schema';
-import { eq } from 'drizzle-orm';
+import { storage } from './storage';
+import { subscriptionTiers, planPrices, supportedCurrencies } from '@shared/schema';
 
 /**
- * Updates or inserts subscription plans in the database
+ * Creates the default subscription plans that don't exist yet. Once a plan
+ * exists it's managed from the admin page, so it's never overwritten here.
  */
 export async function updateSubscriptionPlans() {
   console.log('Updating subscription plans...');
 
-  // Define the plans based on requirements
+  // The plans a new install starts with
   const plans = [
     {
       name: subscriptionTiers.FREE,
@@ -22,7 +23,12 @@ export async function updateSubscriptionPlans() {
       adFree: false,
       priority: 1, // Display order
       description: "Limited data, standard servers, 1 device",
-      features: "500 MB/month, 1 device, Standard Servers, Ad-supported"
+      features: [
+        { label: "500 MB/month" },
+        { label: "1 device" },
+        { label: "Standard Servers" },
+        { label: "Ad-supported" }
+      ]
     },
     {
       name: subscriptionTiers.BASIC,
@@ -36,7 +42,18 @@ export async function updateSubscriptionPlans() {
       adFree: false,
       priority: 2,
       description: "Unlimited data, standard servers, 2 devices",
-      features: "Unlimited data, 2 devices, Standard Servers, Obfuscation"
+      features: [
+        { label: "Unlimited data" },
+        { label: "2 devices" },
+        { label: "Standard Servers" },
+        { label: "Obfuscation" }
+      ],
+      localPrices: {
+        [supportedCurrencies.NGN]: 750000, // ₦7,500 (in kobo)
+        [supportedCurrencies.GHS]: 7500, // GH₵75 (in pesewas)
+        [supportedCurrencies.ZAR]: 9900, // R99 (in cents)
+        [supportedCurrencies.EUR]: 499 // €4.99 (in cents)
+      }
     },
     {
       name: subscriptionTiers.PREMIUM,
@@ -50,7 +67,20 @@ export async function updateSubscriptionPlans() {
       adFree: true,
       priority: 3,
       description: "Unlimited data, premium servers, 5 devices",
-      features: "Unlimited data, 5 devices, Premium Servers, Double VPN, Obfuscation, Ad-Free"
+      features: [
+        { label: "Unlimited data" },
+        { label: "5 devices" },
+        { label: "Premium Servers" },
+        { label: "Double VPN" },
+        { label: "Obfuscation" },
+        { label: "Ad-Free" }
+      ],
+      localPrices: {
+        [supportedCurrencies.NGN]: 1500000, // ₦15,000
+        [supportedCurrencies.GHS]: 15000, // GH₵150
+        [supportedCurrencies.ZAR]: 17900, // R179
+        [supportedCurrencies.EUR]: 949 // €9.49
+      }
     },
     {
       name: subscriptionTiers.ULTIMATE,
@@ -64,37 +94,40 @@ export async function updateSubscriptionPlans() {
       adFree: true,
       priority: 4,
       description: "Unlimited data, all servers, 10 devices, full features",
-      features: "Unlimited data, 10 devices, All server types, Streaming & P2P optimized, Kill Switch, Split Tunneling"
+      features: [
+        { label: "Unlimited data" },
+        { label: "10 devices" },
+        { label: "All server types" },
+        { label: "Streaming & P2P optimized" },
+        { label: "Kill Switch" },
+        { label: "Split Tunneling" }
+      ],
+      localPrices: {
+        [supportedCurrencies.NGN]: 3000000, // ₦30,000
+        [supportedCurrencies.GHS]: 30000, // GH₵300
+        [supportedCurrencies.ZAR]: 34900, // R349
+        [supportedCurrencies.EUR]: 1899 // €18.99
+      }
     }
   ];
 
-  // Upsert each plan
-  for (const plan of plans) {
-    const existingPlan = await db.select().from(subscriptionPlans).where(eq(subscriptionPlans.name, plan.name));
-    
-    if (existingPlan.length > 0) {
-      // Update existing plan
-      await db.update(subscriptionPlans)
-        .set({
-          price: plan.price,
-          dataLimit: plan.dataLimit,
-          dailyTimeLimit: plan.dailyTimeLimit,
-          serverAccess: plan.serverAccess,
-          maxDevices: plan.maxDevices,
-          doubleVpnAccess: plan.doubleVpnAccess,
-          obfuscationAccess: plan.obfuscationAccess,
-          adFree: plan.adFree,
-          priority: plan.priority,
-          description: plan.description,
-          features: plan.features
-        })
-        .where(eq(subscriptionPlans.name, plan.name));
-      
-      console.log(`Updated subscription plan: ${plan.name}`);
-    } else {
-      // Insert new plan
-      await db.insert(subscriptionPlans).values(plan);
-      console.log(`Created subscription plan: ${plan.name}`);
+  // Create each missing plan
+  for (const { localPrices, ...plan } of plans) {
+    if (await storage.getSubscriptionPlanByName(plan.name)) {
+      continue;
+    }
+
+    const savedPlan = await storage.createSubscriptionPlan(plan, null);
+    console.log(`Created subscription plan: ${plan.name}`);
+
+    if (localPrices) {
+      await db.insert(planPrices)
+        .values(Object.entries(localPrices).map(([currency, amount]) => ({
+          planId: savedPlan.id,
+          currency,
+          amount
+        })))
+        .onConflictDoNothing();
     }
   }
 
@@ -0,0 +1,366 @@
+/**
+ * Usage Metering Service
+ *
+ * This service measures the traffic that actually passes through each tunnel
+ * and records it durably. It's responsible for:
+ *
+ * 1. Installing iptables accounting rules for every metered session, matching
+ *    either the local forwarder port or the tunnel address
+ * 2. Periodically sampling the rule byte counters and attributing the deltas to
+ *    hourly buckets
+ * 3. Flushing those buckets to the usage_buckets table and writing the final
+ *    totals to the session record when metering stops, retrying sessions whose
+ *    usage couldn't be written
+ */
+
+import { exec } from 'child_process';
+import { promisify } from 'util';
+import { storage } from './storage';
+
+const execAsync = promisify(exec);
+
+const ACCOUNTING_CHAIN = 'VPN_ACCOUNTING';
+const SAMPLE_INTERVAL = 30 * 1000; // 30 seconds
+const FLUSH_INTERVAL = 5 * 60 * 1000; // 5 minutes
+const BUCKET_SIZE = 60 * 60 * 1000; // 1 hour
+
+// Interface for the session being metered
+export interface MeteringTarget {
+  sessionId: number;
+  userId: number;
+  deviceId: number | null;
+  serverId: number;
+  tunnelIp: string;
+  tunnelPort?: number; // Set when traffic goes through a local forwarder
+}
+
+// Interface for a metered session's in-memory state
+interface MeteredSession extends MeteringTarget {
+  lastCounters: { up: number; down: number }; // Raw counter values at the last sample
+  totals: { upload: number; download: number }; // Bytes since metering started
+  pending: Map<number, { up: number; down: number }>; // bucket start (ms) -> bytes not yet flushed
+}
+
+class UsageMeteringService {
+  private sessions: Map<number, MeteredSession> = new Map(); // sessionId -> metered session
+  private stopped: Map<number, MeteredSession> = new Map(); // sessionId -> stopped session with usage still to write
+  private chainReady: Promise<boolean>;
+  private sampling: Promise<void> | null = null;
+  private isFlushing = false;
+
+  constructor() {
+    this.chainReady = this.setupAccountingChain();
+
+    // Sample counters every 30 seconds
+    setInterval(() => {
+      this.sample().catch(error => {
+        console.error('Error sampling usage counters:', error);
+      });
+    }, SAMPLE_INTERVAL);
+
+    // Write pending usage to the database every 5 minutes
+    setInterval(() => {
+      this.flush().catch(error => {
+        console.error('Error flushing usage buckets:', error);
+      });
+    }, FLUSH_INTERVAL);
+  }
+
+  /**
+   * Start counting traffic for a session
+   *
+   * @param target The session and where its traffic can be matched
+   */
+  async startMetering(target: MeteringTarget): Promise<void> {
+    if (this.sessions.has(target.sessionId)) {
+      return;
+    }
+
+    this.sessions.set(target.sessionId, {
+      ...target,
+      lastCounters: { up: 0, down: 0 },
+      totals: { upload: 0, download: 0 },
+      pending: new Map()
+    });
+
+    if (!(await this.chainReady)) {
+      return;
+    }
+
+    for (const rule of this.getRules(target)) {
+      try {
+        await execAsync(`iptables -A ${ACCOUNTING_CHAIN} ${rule}`);
+      } catch (error) {
+        console.error(`Error adding accounting rule for session ${target.sessionId}:`, error);
+      }
+    }
+  }
+
+  /**
+   * Stop counting traffic for a session, write out everything it used and record
+   * the totals on the session
+   *
+   * @param sessionId The session to stop metering
+   */
+  async stopMetering(sessionId: number): Promise<void> {
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      return;
+    }
+
+    // A sample already running may have read the counters before the last of the
+    // traffic, so wait for it and take another reading
+    try {
+      if (this.sampling) {
+        await this.sampling;
+      }
+      await this.sample();
+    } catch (error) {
+      console.error(`Error taking the last usage reading for session ${sessionId}:`, error);
+    }
+    this.sessions.delete(sessionId);
+
+    if (await this.chainReady) {
+      for (const rule of this.getRules(session)) {
+        try {
+          await execAsync(`iptables -D ${ACCOUNTING_CHAIN} ${rule}`);
+        } catch (error) {
+          console.error(`Error removing accounting rule for session ${sessionId}:`, error);
+        }
+      }
+    }
+
+    try {
+      await this.finishSession(session);
+    } catch (error) {
+      // Keep the usage so the next flush can write it
+      this.stopped.set(sessionId, session);
+      throw error;
+    }
+  }
+
+  /**
+   * Get the bytes measured for a session since metering started
+   *
+   * @param sessionId The session to look up
+   * @returns Upload and download byte counts
+   */
+  getSessionTraffic(sessionId: number): { upload: number; download: number } {
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      return { upload: 0, download: 0 };
+    }
+    return { ...session.totals };
+  }
+
+  /**
+   * Get the bytes a user has used that haven't been flushed to the database yet
+   *
+   * @param userId The user to look up
+   * @returns Total unflushed bytes in both directions
+   */
+  getPendingBytes(userId: number): number {
+    let pending = 0;
+    [this.sessions, this.stopped].forEach(sessions => sessions.forEach(session => {
+      if (session.userId !== userId) {
+        return;
+      }
+      session.pending.forEach(bucket => {
+        pending += bucket.up + bucket.down;
+      });
+    }));
+    return pending;
+  }
+
+  /**
+   * Read the accounting counters and add the new bytes to each session's current
+   * hourly bucket. Calls while a reading is in progress wait for that one.
+   */
+  async sample(): Promise<void> {
+    if (this.sessions.size === 0) {
+      return;
+    }
+    if (!this.sampling) {
+      this.sampling = this.readSample();
+    }
+    await this.sampling;
+  }
+
+  private async readSample(): Promise<void> {
+    try {
+      if (!(await this.chainReady)) {
+        return;
+      }
+
+      const counters = await this.readCounters();
+      const bucketStart = Math.floor(Date.now() / BUCKET_SIZE) * BUCKET_SIZE;
+
+      this.sessions.forEach(session => {
+        const current = counters.get(session.sessionId);
+        if (!current) {
+          return;
+        }
+
+        // A counter lower than last time means the rule was reset, so count from zero
+        const up = current.up >= session.lastCounters.up ? current.up - session.lastCounters.up : current.up;
+        const down = current.down >= session.lastCounters.down ? current.down - session.lastCounters.down : current.down;
+        session.lastCounters = current;
+
+        if (up === 0 && down === 0) {
+          return;
+        }
+
+        session.totals.upload += up;
+        session.totals.download += down;
+
+        const bucket = session.pending.get(bucketStart) || { up: 0, down: 0 };
+        bucket.up += up;
+        bucket.down += down;
+        session.pending.set(bucketStart, bucket);
+      });
+    } finally {
+      this.sampling = null;
+    }
+  }
+
+  /**
+   * Write all pending buckets to the database
+   */
+  async flush(): Promise<void> {
+    if (this.isFlushing) {
+      return;
+    }
+    this.isFlushing = true;
+
+    try {
+      for (const session of Array.from(this.sessions.values())) {
+        try {
+          await this.flushSession(session);
+        } catch (error) {
+          console.error(`Error flushing usage for session ${session.sessionId}:`, error);
+        }
+      }
+
+      for (const session of Array.from(this.stopped.values())) {
+        try {
+          await this.finishSession(session);
+          this.stopped.delete(session.sessionId);
+        } catch (error) {
+          console.error(`Error writing usage for stopped session ${session.sessionId}:`, error);
+        }
+      }
+    } finally {
+      this.isFlushing = false;
+    }
+  }
+
+  /**
+   * Write a stopped session's remaining usage and record its totals on the session
+   */
+  private async finishSession(session: MeteredSession): Promise<void> {
+    await this.flushSession(session);
+
+    const totals = await storage.getSessionUsageTotals(session.sessionId);
+    await storage.updateSessionTraffic(session.sessionId, totals.uploaded, totals.downloaded);
+  }
+
+  private async flushSession(session: MeteredSession): Promise<void> {
+    for (const [bucketStart, bytes] of Array.from(session.pending.entries())) {
+      // Take the bucket out while it's written so a flush running alongside can't write it twice
+      session.pending.delete(bucketStart);
+      try {
+        await storage.addUsage({
+          userId: session.userId,
+          sessionId: session.sessionId,
+          deviceId: session.deviceId,
+          serverId: session.serverId,
+          bucketStart: new Date(bucketStart),
+          bytesUp: bytes.up,
+          bytesDown: bytes.down
+        });
+      } catch (error) {
+        // Put the bytes back, along with anything sampled into the bucket since
+        const current = session.pending.get(bucketStart) || { up: 0, down: 0 };
+        session.pending.set(bucketStart, { up: current.up + bytes.up, down: current.down + bytes.down });
+        throw error;
+      }
+    }
+  }
+
+  /**
+   * Parse the byte counters of the accounting chain, keyed by session
+   */
+  private async readCounters(): Promise<Map<number, { up: number; down: number }>> {
+    const counters = new Map<number, { up: number; down: number }>();
+    const { stdout } = await execAsync(`iptables -nvxL ${ACCOUNTING_CHAIN}`);
+
+    stdout.split('\n').forEach(line => {
+      const match = line.match(/\/\*\s*session-(\d+)-(up|down)\s*\*\//);
+      if (!match) {
+        return;
+      }
+
+      const bytes = parseInt(line.trim().split(/\s+/)[1], 10);
+      if (isNaN(bytes)) {
+        return;
+      }
+
+      const sessionId = parseInt(match[1], 10);
+      const entry = counters.get(sessionId) || { up: 0, down: 0 };
+      entry[match[2] as 'up' | 'down'] += bytes;
+      counters.set(sessionId, entry);
+    });
+
+    return counters;
+  }
+
+  /**
+   * Build the counting rules for a session. Forwarded traffic is matched on the
+   * forwarder's port, tunnel traffic on the tunnel address.
+   */
+  private getRules(target: MeteringTarget): string[] {
+    const up = `-m comment --comment "session-${target.sessionId}-up"`;
+    const down = `-m comment --comment "session-${target.sessionId}-down"`;
+
+    if (target.tunnelPort) {
+      return [
+        `-p tcp --dport ${target.tunnelPort} ${up}`,
+        `-p tcp --sport ${target.tunnelPort} ${down}`
+      ];
+    }
+
+    return [
+      `-s ${target.tunnelIp} ${up}`,
+      `-d ${target.tunnelIp} ${down}`
+    ];
+  }
+
+  /**
+   * Create the accounting chain and send traffic through it. Without iptables
+   * nothing is counted, rather than guessing.
+   */
+  private async setupAccountingChain(): Promise<boolean> {
+    try {
+      await execAsync(`iptables -N ${ACCOUNTING_CHAIN}`).catch(() => {
+        // The chain is left over from a previous run, so start it empty
+        return execAsync(`iptables -F ${ACCOUNTING_CHAIN}`);
+      });
+
+      for (const parent of ['INPUT', 'OUTPUT', 'FORWARD']) {
+        try {
+          await execAsync(`iptables -C ${parent} -j ${ACCOUNTING_CHAIN}`);
+        } catch {
+          await execAsync(`iptables -I ${parent} -j ${ACCOUNTING_CHAIN}`);
+        }
+      }
+
+      return true;
+    } catch (error) {
+      console.error('Traffic accounting unavailable, usage will not be metered:', error);
+      return false;
+    }
+  }
+}
+
+// Export singleton instance
+export const usageMeteringService = new UsageMeteringService();
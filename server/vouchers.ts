@@ -0,0 +1,384 @@
+/**
+ * Prepaid Vouchers
+ *
+ * This module handles prepaid voucher codes, which resellers sell for cash to
+ * users who can't pay by card. It's responsible for:
+ *
+ * 1. Generating batches of random single-use codes for a plan and a number of
+ *    days, and exporting them as CSV for the reseller
+ * 2. Redeeming a code on the user's account, extending their plan by the
+ *    voucher's days, or starting it when they're on another plan
+ * 3. Limiting how many wrong codes a user or IP address can try, so codes can't
+ *    be guessed
+ * 4. Showing admins which codes in a batch have been redeemed and by whom
+ */
+
+import { Request, Response } from 'express';
+import crypto from 'crypto';
+import { storage } from './storage';
+import { requirePermission } from './permissions';
+import { auditLog } from './audit';
+import { getProviderSubscription, paymentProviders } from './payment-provider';
+import { User, VoucherBatch, InsertVoucherBatch, insertVoucherBatchSchema, permissions, auditActions } from '@shared/schema';
+
+// Letters and digits that can't be mistaken for each other when read off a printed slip
+const CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+const CODE_LENGTH = 16; // 80 bits of randomness
+const CODE_GROUP_SIZE = 4;
+
+const ATTEMPT_WINDOW_MS = 15 * 60 * 1000;
+const MAX_FAILED_ATTEMPTS_PER_USER = 5;
+const MAX_FAILED_ATTEMPTS_PER_IP = 20; // Higher, since many users can share a carrier's IP address
+
+// Interface for what redeeming a voucher did to the user's plan
+export interface RedeemedVoucher {
+  planName: string;
+  durationDays: number;
+  expiryDate: Date;
+}
+
+/**
+ * A voucher that can't be created or redeemed, with the HTTP status to answer it with
+ */
+export class VoucherError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = 'VoucherError';
+  }
+}
+
+class VoucherService {
+  // Failed redemptions by user and IP address, cleared when their window ends
+  private failedAttempts: Map<string, { count: number; resetAt: number }> = new Map();
+
+  constructor() {
+    // Drop attempt windows that have ended every minute
+    setInterval(() => this.cleanupAttempts(), 60000);
+  }
+
+  /**
+   * Generate a batch of codes for a plan
+   *
+   * @param details The plan, days per code and how many codes to make
+   * @param createdBy The admin generating the batch
+   * @returns The new batch
+   */
+  async createBatch(details: InsertVoucherBatch, createdBy: number): Promise<VoucherBatch> {
+    const plan = await storage.getSubscriptionPlanByName(details.planName);
+    if (!plan || plan.archivedAt) {
+      throw new VoucherError('Subscription plan not found', 404);
+    }
+    if (plan.price <= 0) {
+      throw new VoucherError("Vouchers can't be made for free plans");
+    }
+
+    const codes = new Set<string>();
+    while (codes.size < details.quantity) {
+      codes.add(this.generateCode());
+    }
+
+    const batch = await storage.createVoucherBatch({ ...details, createdBy }, Array.from(codes));
+    console.log(`Admin ${createdBy} generated ${batch.quantity} ${batch.planName} vouchers for ${batch.durationDays} days in batch ${batch.id}`);
+    return batch;
+  }
+
+  /**
+   * Redeem a code on a user's account
+   *
+   * @param code The code as the user typed it, with or without dashes
+   * @param user The user redeeming it
+   * @param ip The address the request came from
+   * @returns The plan the user is now on and until when
+   */
+  async redeem(code: string, user: User, ip: string | undefined): Promise<RedeemedVoucher> {
+    const keys = [`user:${user.id}`, ...(ip ? [`ip:${ip}`] : [])];
+    this.assertNotLockedOut(user.id, ip);
+
+    const normalized = this.normalizeCode(code);
+    const voucher = normalized ? await storage.getVoucherByCode(normalized) : undefined;
+    if (!voucher) {
+      this.recordFailedAttempt(keys);
+      throw new VoucherError('Invalid voucher code', 404);
+    }
+    if (voucher.redeemedAt) {
+      if (voucher.redeemedBy === user.id) {
+        throw new VoucherError("You've already redeemed this code", 409);
+      }
+      this.recordFailedAttempt(keys);
+      throw new VoucherError('This code has already been used', 409);
+    }
+
+    const batch = await storage.getVoucherBatch(voucher.batchId);
+    if (!batch) {
+      throw new VoucherError('Invalid voucher code', 404);
+    }
+    if (batch.expiresAt && batch.expiresAt.getTime() <= Date.now()) {
+      throw new VoucherError('This code has expired');
+    }
+
+    // Codes sold before a plan was archived still give the plan they were sold for
+    const plan = await storage.getSubscriptionPlanByName(batch.planName);
+    if (!plan) {
+      throw new VoucherError('Voucher plan not found', 404);
+    }
+
+    // A renewal would set the expiry date from the payment and lose the voucher's days
+    const subscription = getProviderSubscription(user);
+    if (subscription) {
+      const providerName = paymentProviders.get(subscription.provider)?.displayName || subscription.provider;
+      throw new VoucherError(`Cancel your ${providerName} subscription before redeeming a voucher`, 409);
+    }
+
+    const updated = await storage.redeemVoucher(voucher.id, user.id, plan, batch.durationDays);
+    if (!updated) {
+      throw new VoucherError('This code has already been used', 409);
+    }
+
+    this.failedAttempts.delete(`user:${user.id}`);
+    console.log(`User ${user.id} redeemed voucher ${voucher.id} from batch ${batch.id} for ${batch.durationDays} days of ${plan.name}`);
+    return {
+      planName: plan.name,
+      durationDays: batch.durationDays,
+      expiryDate: updated.subscriptionExpiryDate!
+    };
+  }
+
+  /**
+   * Get a batch with each of its codes and who redeemed them
+   */
+  async getBatchDetails(id: number) {
+    const batch = await storage.getVoucherBatch(id);
+    if (!batch) {
+      throw new VoucherError('Voucher batch not found', 404);
+    }
+
+    const codes = await storage.getVouchersByBatch(id);
+    return {
+      ...batch,
+      redeemedCount: codes.filter(voucher => voucher.redeemedAt).length,
+      vouchers: codes.map(voucher => ({
+        id: voucher.id,
+        code: this.formatCode(voucher.code),
+        redeemedAt: voucher.redeemedAt,
+        redeemedBy: voucher.redeemedBy,
+        redeemedByUsername: voucher.redeemedByUsername
+      }))
+    };
+  }
+
+  /**
+   * Write a batch's codes as CSV, one row per code, for printing or handing to a reseller
+   */
+  async exportBatch(id: number): Promise<{ batch: VoucherBatch; csv: string }> {
+    const batch = await storage.getVoucherBatch(id);
+    if (!batch) {
+      throw new VoucherError('Voucher batch not found', 404);
+    }
+
+    const codes = await storage.getVouchersByBatch(id);
+    const rows = [
+      ['code', 'plan', 'days', 'batch', 'expires_at', 'redeemed_by', 'redeemed_at'],
+      ...codes.map(voucher => [
+        this.formatCode(voucher.code),
+        batch.planName,
+        batch.durationDays.toString(),
+        batch.name,
+        batch.expiresAt ? batch.expiresAt.toISOString() : '',
+        voucher.redeemedByUsername || '',
+        voucher.redeemedAt ? voucher.redeemedAt.toISOString() : ''
+      ])
+    ];
+
+    return { batch, csv: rows.map(row => row.map(value => this.escapeCsv(value)).join(',')).join('\r\n') + '\r\n' };
+  }
+
+  /**
+   * Show a code in groups, e.g. ABCD-EFGH-JKLM-NPQR
+   */
+  formatCode(code: string): string {
+    const groups: string[] = [];
+    for (let i = 0; i < code.length; i += CODE_GROUP_SIZE) {
+      groups.push(code.slice(i, i + CODE_GROUP_SIZE));
+    }
+    return groups.join('-');
+  }
+
+  private generateCode(): string {
+    // The alphabet has 32 letters, so each random byte maps to one without bias
+    const bytes = crypto.randomBytes(CODE_LENGTH);
+    let code = '';
+    for (let i = 0; i < CODE_LENGTH; i++) {
+      code += CODE_ALPHABET[bytes[i] % CODE_ALPHABET.length];
+    }
+    return code;
+  }
+
+  /**
+   * Strip dashes and spaces and upper-case a typed code, or return null when it
+   * can't be a code at all
+   */
+  private normalizeCode(code: string): string | null {
+    const normalized = code.replace(/[\s-]/g, '').toUpperCase();
+    if (normalized.length !== CODE_LENGTH) {
+      return null;
+    }
+    for (let i = 0; i < normalized.length; i++) {
+      if (CODE_ALPHABET.indexOf(normalized[i]) === -1) {
+        return null;
+      }
+    }
+    return normalized;
+  }
+
+  private assertNotLockedOut(userId: number, ip: string | undefined): void {
+    const now = Date.now();
+    const userAttempts = this.failedAttempts.get(`user:${userId}`);
+    const ipAttempts = ip ? this.failedAttempts.get(`ip:${ip}`) : undefined;
+
+    const lockedUntil = Math.max(
+      userAttempts && userAttempts.resetAt > now && userAttempts.count >= MAX_FAILED_ATTEMPTS_PER_USER ? userAttempts.resetAt : 0,
+      ipAttempts && ipAttempts.resetAt > now && ipAttempts.count >= MAX_FAILED_ATTEMPTS_PER_IP ? ipAttempts.resetAt : 0
+    );
+    if (lockedUntil > 0) {
+      const minutes = Math.ceil((lockedUntil - now) / 60000);
+      throw new VoucherError(`Too many invalid codes, try again in ${minutes} minute${minutes === 1 ? '' : 's'}`, 429);
+    }
+  }
+
+  private recordFailedAttempt(keys: string[]): void {
+    const now = Date.now();
+    keys.forEach(key => {
+      const attempts = this.failedAttempts.get(key);
+      if (!attempts || attempts.resetAt <= now) {
+        this.failedAttempts.set(key, { count: 1, resetAt: now + ATTEMPT_WINDOW_MS });
+      } else {
+        attempts.count++;
+      }
+    });
+  }
+
+  private cleanupAttempts(): void {
+    const now = Date.now();
+    Array.from(this.failedAttempts.entries()).forEach(([key, attempts]) => {
+      if (attempts.resetAt <= now) {
+        this.failedAttempts.delete(key);
+      }
+    });
+  }
+
+  private escapeCsv(value: string): string {
+    return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+  }
+}
+
+// Export singleton instance
+export const voucherService = new VoucherService();
+
+/**
+ * Answer a failed voucher request, passing voucher errors on to the user
+ */
+function handleVoucherError(res: Response, error: any, action: string) {
+  if (error instanceof VoucherError) {
+    return res.status(error.status).json({ message: error.message });
+  }
+  console.error(`Error ${action}:`, error);
+  res.status(500).json({ message: `Error ${action}` });
+}
+
+export function setupVoucherRoutes(app: any) {
+  // Redeem a voucher code on the current user's account
+  app.post('/api/vouchers/redeem', async (req: Request, res: Response) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: 'Not authenticated' });
+    }
+
+    const { code } = req.body;
+    if (!code || typeof code !== 'string') {
+      return res.status(400).json({ message: 'Voucher code is required' });
+    }
+
+    try {
+      const redeemed = await voucherService.redeem(code, req.user, req.ip);
+      res.json({ success: true, ...redeemed });
+    } catch (error) {
+      handleVoucherError(res, error, 'redeeming voucher');
+    }
+  });
+
+  // Get every voucher batch with how many of its codes have been redeemed
+  app.get('/api/admin/vouchers/batches', requirePermission(permissions.VOUCHERS_MANAGE), async (req: Request, res: Response) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: 'Not authenticated' });
+    }
+
+    try {
+      res.json(await storage.getVoucherBatches());
+    } catch (error) {
+      handleVoucherError(res, error, 'fetching voucher batches');
+    }
+  });
+
+  // Generate a batch of voucher codes
+  app.post('/api/admin/vouchers/batches', requirePermission(permissions.VOUCHERS_MANAGE), async (req: Request, res: Response) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: 'Not authenticated' });
+    }
+
+    const parsed = insertVoucherBatchSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({
+        message: 'Invalid voucher batch details',
+        errors: parsed.error.errors
+      });
+    }
+
+    try {
+      const batch = await voucherService.createBatch(parsed.data, req.user.id);
+      await auditLog.record(req, {
+        action: auditActions.VOUCHER_BATCH_CREATED,
+        targetType: 'voucher_batch',
+        targetId: batch.id,
+        after: batch
+      });
+      res.status(201).json(batch);
+    } catch (error) {
+      handleVoucherError(res, error, 'creating voucher batch');
+    }
+  });
+
+  // Get a batch's codes and who redeemed them
+  app.get('/api/admin/vouchers/batches/:id', requirePermission(permissions.VOUCHERS_MANAGE), async (req: Request, res: Response) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: 'Not authenticated' });
+    }
+
+    try {
+      res.json(await voucherService.getBatchDetails(parseInt(req.params.id, 10)));
+    } catch (error) {
+      handleVoucherError(res, error, 'fetching voucher batch');
+    }
+  });
+
+  // Download a batch's codes as CSV
+  app.get('/api/admin/vouchers/batches/:id/export', requirePermission(permissions.VOUCHERS_MANAGE), async (req: Request, res: Response) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: 'Not authenticated' });
+    }
+
+    try {
+      const { batch, csv } = await voucherService.exportBatch(parseInt(req.params.id, 10));
+      // Exports hold every unused code, so downloading one is worth a record too
+      await auditLog.record(req, {
+        action: auditActions.VOUCHER_BATCH_EXPORTED,
+        targetType: 'voucher_batch',
+        targetId: batch.id,
+        details: { name: batch.name, quantity: batch.quantity }
+      });
+      res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+      res.setHeader('Content-Disposition', `attachment; filename="vouchers-${batch.id}.csv"`);
+      res.send(csv);
+    } catch (error) {
+      handleVoucherError(res, error, 'exporting voucher batch');
+    }
+  });
+}
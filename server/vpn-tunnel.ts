@@ -15,12 +15,15 @@ import { db } from './db';
 import { eq } from 'drizzle-orm';
 import { storage } from './storage';
 import { proxyVpnService } from './proxy-vpn';
+import { ipPoolService, LeasedAddresses } from './ip-pool';
 
 // Interface for tracking VPN tunnels
 interface VpnTunnel {
   userId: number;
+  deviceId: number;
   sessionId: number;
   tunnelIp: string;
+  tunnelIp6?: string;
   sourceIp: string;
   serverId: number;
   serverInfo?: any;
@@ -51,14 +54,15 @@ interface TunnelStatus {
 // Interface for tunnel creation result
 interface TunnelCreationResult {
   tunnelIp: string;
+  tunnelIp6?: string;
   config: any;
   connectionDetails: any;
 }
 
 class VpnTunnelService {
-  private activeTunnels: Map<number, VpnTunnel> = new Map(); // userId -> tunnel
-  private sessionTunnels: Map<number, number> = new Map(); // sessionId -> userId
-  private userConnections: Map<string, Set<number>> = new Map(); // sourceIp -> Set of userIds
+  private activeTunnels: Map<number, VpnTunnel> = new Map(); // deviceId -> tunnel
+  private sessionTunnels: Map<number, number> = new Map(); // sessionId -> deviceId
+  private deviceConnections: Map<string, Set<number>> = new Map(); // sourceIp -> Set of deviceIds
 
   /**
    * Create a new VPN tunnel for a user session
@@ -69,10 +73,15 @@ class VpnTunnelService {
    */
   async createTunnel(session: VpnSession, sourceIp: string): Promise<TunnelCreationResult> {
     try {
-      console.log(`Creating VPN tunnel for user ${session.userId}, session ${session.id}`);
+      const deviceId = session.deviceId;
+      if (!deviceId) {
+        throw new Error(`Session ${session.id} is not bound to a device`);
+      }
+      
+      console.log(`Creating VPN tunnel for user ${session.userId}, device ${deviceId}, session ${session.id}`);
       
-      // Close any existing tunnels for this user
-      this.closeTunnel(session.userId);
+      // Close any existing tunnel for this device; the user's other devices stay connected
+      this.closeTunnel(deviceId);
       
       // Get server information
       const server = await storage.getServerById(session.serverId);
@@ -80,10 +89,17 @@ class VpnTunnelService {
         throw new Error(`Server ${session.serverId} not found`);
       }
       
+      // Lease tunnel addresses from the server's pool. WireGuard sessions use the
+      // address pinned to the user's peer, which the proxy service hands back.
+      let leased: LeasedAddresses | null = null;
+      if (session.protocol !== 'wireguard') {
+        leased = await ipPoolService.leaseForSession(server, session.userId, session.id);
+      }
+      
       try {
         // Start a real proxy connection using our proxy VPN service
         console.log(`Starting real proxy connection for user ${session.userId}`);
-        const proxyResult = await proxyVpnService.startProxyConnection(session, sourceIp);
+        const proxyResult = await proxyVpnService.startProxyConnection(session, sourceIp, leased?.ipv4);
         
         // If we successfully connected to a real proxy, use that
         if (proxyResult && proxyResult.success) {
@@ -92,8 +108,10 @@ class VpnTunnelService {
           // Create the tunnel entry with proxy info
           const tunnel: VpnTunnel = {
             userId: session.userId,
+            deviceId,
             sessionId: session.id,
             tunnelIp: proxyResult.tunnelIp,
+            tunnelIp6: leased?.ipv6,
             sourceIp,
             serverId: session.serverId,
             serverInfo: {
@@ -115,19 +133,20 @@ class VpnTunnelService {
           };
           
           // Store the tunnel
-          this.activeTunnels.set(session.userId, tunnel);
-          this.sessionTunnels.set(session.id, session.userId);
+          this.activeTunnels.set(deviceId, tunnel);
+          this.sessionTunnels.set(session.id, deviceId);
           
-          // Track source IP to user mapping for IP-based lookups
-          if (!this.userConnections.has(sourceIp)) {
-            this.userConnections.set(sourceIp, new Set());
+          // Track source IP to device mapping for IP-based lookups
+          if (!this.deviceConnections.has(sourceIp)) {
+            this.deviceConnections.set(sourceIp, new Set());
           }
-          this.userConnections.get(sourceIp)?.add(session.userId);
+          this.deviceConnections.get(sourceIp)?.add(deviceId);
           
           console.log(`Real VPN tunnel created for user ${session.userId} with IP ${proxyResult.tunnelIp}`);
           
           return {
             tunnelIp: proxyResult.tunnelIp,
+            tunnelIp6: leased?.ipv6,
             config: proxyResult.connectionDetails,
             connectionDetails: {
               server: proxyResult.serverIp,
@@ -147,12 +166,11 @@ class VpnTunnelService {
       }
       
       // Fall back to the simulated implementation if the real proxy connection failed
-      // Generate a virtual IP for the user's tunnel
-      const octet1 = 10; // Use private IP range
-      const octet2 = Math.floor((session.id * 13) % 255);
-      const octet3 = Math.floor((session.id * 17) % 255);
-      const octet4 = Math.floor((session.id * 23) % 255);
-      const tunnelIp = `${octet1}.${octet2}.${octet3}.${octet4}`;
+      // WireGuard sessions haven't leased yet, so take a session lease for the simulated tunnel
+      if (!leased) {
+        leased = await ipPoolService.leaseForSession(server, session.userId, session.id);
+      }
+      const tunnelIp = leased.ipv4;
       
       // Generate tunneling configuration based on protocol
       const tunnelConfig = this.generateTunnelConfig(session.protocol, session.encryption, server, tunnelIp);
@@ -160,8 +178,10 @@ class VpnTunnelService {
       // Create the tunnel entry
       const tunnel: VpnTunnel = {
         userId: session.userId,
+        deviceId,
         sessionId: session.id,
         tunnelIp,
+        tunnelIp6: leased.ipv6,
         sourceIp,
         serverId: session.serverId,
         serverInfo: server,
@@ -179,19 +199,20 @@ class VpnTunnelService {
       };
       
       // Store the tunnel
-      this.activeTunnels.set(session.userId, tunnel);
-      this.sessionTunnels.set(session.id, session.userId);
+      this.activeTunnels.set(deviceId, tunnel);
+      this.sessionTunnels.set(session.id, deviceId);
       
-      // Track source IP to user mapping for IP-based lookups
-      if (!this.userConnections.has(sourceIp)) {
-        this.userConnections.set(sourceIp, new Set());
+      // Track source IP to device mapping for IP-based lookups
+      if (!this.deviceConnections.has(sourceIp)) {
+        this.deviceConnections.set(sourceIp, new Set());
       }
-      this.userConnections.get(sourceIp)?.add(session.userId);
+      this.deviceConnections.get(sourceIp)?.add(deviceId);
       
       console.log(`Simulated tunnel created for user ${session.userId} with IP ${tunnelIp}`);
       
       return {
         tunnelIp,
+        tunnelIp6: leased.ipv6,
         config: tunnelConfig,
         connectionDetails: {
           server: server.ip,
@@ -205,74 +226,130 @@ class VpnTunnelService {
       };
     } catch (error: any) {
       console.error(`Error creating tunnel for user ${session.userId}:`, error);
+      // Don't leave addresses leased to a session that never got a tunnel
+      await ipPoolService.releaseSession(session.id).catch(releaseError => {
+        console.error(`Error releasing IP leases for session ${session.id}:`, releaseError);
+      });
       throw new Error(`Failed to create VPN tunnel: ${error.message}`);
     }
   }
   
   /**
-   * Close a VPN tunnel for a user
+   * Close the VPN tunnel for a device
    * 
-   * @param userId The user ID to close the tunnel for
+   * @param deviceId The device ID to close the tunnel for
    * @returns Whether a tunnel was closed
    */
-  closeTunnel(userId: number): boolean {
+  closeTunnel(deviceId: number): boolean {
     try {
-      const tunnel = this.activeTunnels.get(userId);
+      const tunnel = this.activeTunnels.get(deviceId);
       if (!tunnel) {
         return false; // No tunnel to close
       }
       
-      console.log(`Closing tunnel for user ${userId}`);
+      console.log(`Closing tunnel for device ${deviceId} (user ${tunnel.userId})`);
       
       // First try to close the real proxy connection if one exists
       try {
         // Close the proxy connection using our proxy VPN service
-        console.log(`Closing real proxy connection for user ${userId}`);
-        proxyVpnService.stopProxyConnection(userId)
+        console.log(`Closing real proxy connection for device ${deviceId}`);
+        proxyVpnService.stopProxyConnection(deviceId)
           .then(result => {
             if (result) {
-              console.log(`Real proxy connection closed successfully for user ${userId}`);
+              console.log(`Real proxy connection closed successfully for device ${deviceId}`);
             } else {
-              console.log(`No real proxy connection found for user ${userId}`);
+              console.log(`No real proxy connection found for device ${deviceId}`);
             }
           })
           .catch(proxyError => {
-            console.error(`Error closing proxy connection for user ${userId}:`, proxyError);
+            console.error(`Error closing proxy connection for device ${deviceId}:`, proxyError);
           });
       } catch (proxyError) {
-        console.error(`Error during proxy connection closing for user ${userId}:`, proxyError);
+        console.error(`Error during proxy connection closing for device ${deviceId}:`, proxyError);
       }
       
+      // Return the session's tunnel addresses to the pool
+      ipPoolService.releaseSession(tunnel.sessionId).catch(releaseError => {
+        console.error(`Error releasing IP leases for session ${tunnel.sessionId}:`, releaseError);
+      });
+      
       // Remove from session mapping
       this.sessionTunnels.delete(tunnel.sessionId);
       
       // Remove from source IP mapping
-      const sourceIpUsers = this.userConnections.get(tunnel.sourceIp);
-      if (sourceIpUsers) {
-        sourceIpUsers.delete(userId);
-        if (sourceIpUsers.size === 0) {
-          this.userConnections.delete(tunnel.sourceIp);
+      const sourceIpDevices = this.deviceConnections.get(tunnel.sourceIp);
+      if (sourceIpDevices) {
+        sourceIpDevices.delete(deviceId);
+        if (sourceIpDevices.size === 0) {
+          this.deviceConnections.delete(tunnel.sourceIp);
         }
       }
       
       // Remove from active tunnels
-      this.activeTunnels.delete(userId);
+      this.activeTunnels.delete(deviceId);
       
       return true;
     } catch (error: any) {
-      console.error(`Error closing tunnel for user ${userId}:`, error);
+      console.error(`Error closing tunnel for device ${deviceId}:`, error);
       return false;
     }
   }
   
   /**
-   * Get tunnel details for a user
+   * Close every VPN tunnel a user has open, across all of their devices
+   * 
+   * @param userId The user ID to close tunnels for
+   * @returns The number of tunnels closed
+   */
+  closeUserTunnels(userId: number): number {
+    let closed = 0;
+    this.getUserTunnels(userId).forEach(tunnel => {
+      if (this.closeTunnel(tunnel.deviceId)) {
+        closed++;
+      }
+    });
+    return closed;
+  }
+  
+  /**
+   * Get all active tunnels for a user
+   * 
+   * @param userId The user ID to get tunnels for
+   * @returns The user's tunnels, without their configs
+   */
+  getUserTunnels(userId: number): Omit<VpnTunnel, 'config'>[] {
+    return Array.from(this.activeTunnels.values())
+      .filter(tunnel => tunnel.userId === userId)
+      .map(({ config, ...tunnelDetails }) => tunnelDetails);
+  }
+  
+  /**
+   * Get every active tunnel across all users
+   *
+   * @returns The tunnels, without their configs
+   */
+  getActiveTunnels(): Omit<VpnTunnel, 'config'>[] {
+    return Array.from(this.activeTunnels.values())
+      .map(({ config, ...tunnelDetails }) => tunnelDetails);
+  }
+
+  /**
+   * Check whether a device currently has an active tunnel
+   * 
+   * @param deviceId The device ID to check
+   */
+  isDeviceConnected(deviceId: number): boolean {
+    return this.activeTunnels.has(deviceId);
+  }
+  
+  /**
+   * Get tunnel details for a device
    * 
-   * @param userId The user ID to get the tunnel for
+   * @param deviceId The device ID to get the tunnel for
    * @returns The tunnel details or null if no tunnel exists
    */
-  getUserTunnelDetails(userId: number): Omit<VpnTunnel, 'config'> | null {
-    const tunnel = this.activeTunnels.get(userId);
+  getDeviceTunnelDetails(deviceId: number): Omit<VpnTunnel, 'config'> | null {
+    const tunnel = this.activeTunnels.get(deviceId);
     if (!tunnel) {
       return null;
     }
@@ -289,8 +366,8 @@ class VpnTunnelService {
    * @returns The tunnel status
    */
   getTunnelStatus(sessionId: number): TunnelStatus {
-    const userId = this.sessionTunnels.get(sessionId);
-    if (!userId) {
+    const deviceId = this.sessionTunnels.get(sessionId);
+    if (!deviceId) {
       return {
         active: false,
         uptime: 0,
@@ -301,7 +378,7 @@ class VpnTunnelService {
       };
     }
     
-    const tunnel = this.activeTunnels.get(userId);
+    const tunnel = this.activeTunnels.get(deviceId);
     if (!tunnel) {
       return {
         active: false,
@@ -314,9 +391,9 @@ class VpnTunnelService {
     }
     
     // First check if there's a real proxy connection and get its status
-    const proxyStatus = proxyVpnService.getConnectionStatus(userId);
+    const proxyStatus = proxyVpnService.getConnectionStatus(deviceId);
     if (proxyStatus && proxyStatus.tunnelActive) {
-      console.log(`Using real proxy connection status for user ${userId}`);
+      console.log(`Using real proxy connection status for device ${deviceId}`);
       
       // Calculate uptime
       const uptime = proxyStatus.uptime;
@@ -333,15 +410,13 @@ class VpnTunnelService {
     }
     
     // Fall back to simulated status if no real proxy connection is active
-    console.log(`Using simulated connection status for user ${userId}`);
+    console.log(`Using simulated connection status for device ${deviceId}`);
     
     // Calculate uptime
     const now = new Date();
     const uptime = now.getTime() - tunnel.established.getTime();
     
-    // Simulate some data transfer for demonstration
-    this.simulateTrafficUpdate(userId);
-    
+    // Simulated tunnels carry no real traffic, so their counters stay at zero
     return {
       active: true,
       uptime,
@@ -356,10 +431,10 @@ class VpnTunnelService {
   /**
    * Update the last active time for a tunnel
    * 
-   * @param userId The user ID to update
+   * @param deviceId The device ID to update
    */
-  updateLastActive(userId: number): void {
-    const tunnel = this.activeTunnels.get(userId);
+  updateLastActive(deviceId: number): void {
+    const tunnel = this.activeTunnels.get(deviceId);
     if (tunnel) {
       tunnel.lastActive = new Date();
     }
@@ -368,29 +443,29 @@ class VpnTunnelService {
   /**
    * Verify connectivity for a tunnel
    * 
-   * @param userId The user ID to verify
+   * @param deviceId The device ID to verify
    * @returns Whether the tunnel is working properly
    */
-  async verifyTunnelConnectivity(userId: number): Promise<boolean> {
-    const tunnel = this.activeTunnels.get(userId);
+  async verifyTunnelConnectivity(deviceId: number): Promise<boolean> {
+    const tunnel = this.activeTunnels.get(deviceId);
     if (!tunnel) {
       return false;
     }
     
     // First attempt to verify a real proxy connection if it exists
     try {
-      const isProxyVerified = await proxyVpnService.verifyProxyConnection(userId);
+      const isProxyVerified = await proxyVpnService.verifyProxyConnection(deviceId);
       if (isProxyVerified) {
-        console.log(`Real proxy connection verified for user ${userId}`);
+        console.log(`Real proxy connection verified for device ${deviceId}`);
         tunnel.connectivityVerified = true;
         return true;
       }
     } catch (error) {
-      console.error(`Error verifying real proxy connection for user ${userId}:`, error);
+      console.error(`Error verifying real proxy connection for device ${deviceId}:`, error);
     }
     
     // If no real proxy or verification failed, use the simulated approach
-    console.log(`Using simulated verification for user ${userId}`);
+    console.log(`Using simulated verification for device ${deviceId}`);
     
     // In a real implementation, this would:
     // 1. Send a probe packet through the tunnel
@@ -402,38 +477,6 @@ class VpnTunnelService {
     return true;
   }
   
-  /**
-   * Simulate a traffic update for a tunnel
-   * This is just for demonstration purposes
-   * 
-   * @param userId The user ID to update traffic for
-   */
-  private simulateTrafficUpdate(userId: number): void {
-    const tunnel = this.activeTunnels.get(userId);
-    if (!tunnel) {
-      return;
-    }
-    
-    const now = new Date();
-    const timeSinceLastUpdate = now.getTime() - tunnel.trafficStats.lastUpdated.getTime();
-    
-    // Only update if at least a second has passed
-    if (timeSinceLastUpdate < 1000) {
-      return;
-    }
-    
-    // Calculate time factor (seconds since last update)
-    const timeFactor = timeSinceLastUpdate / 1000;
-    
-    // Simulate data transfer: 5-20 KB/s upload, 20-100 KB/s download
-    const uploadRate = 5 + Math.random() * 15; // KB/s
-    const downloadRate = 20 + Math.random() * 80; // KB/s
-    
-    tunnel.trafficStats.upload += Math.floor(uploadRate * timeFactor * 1024);
-    tunnel.trafficStats.download += Math.floor(downloadRate * timeFactor * 1024);
-    tunnel.trafficStats.lastUpdated = now;
-  }
-  
   /**
    * Generate a tunnel configuration based on protocol and encryption
    * 
@@ -578,11 +621,11 @@ class VpnTunnelService {
     const inactivityThreshold = 30 * 60 * 1000; // 30 minutes
     
     // Convert entries iterator to array to avoid downlevelIteration issues
-    Array.from(this.activeTunnels.entries()).forEach(([userId, tunnel]) => {
+    Array.from(this.activeTunnels.entries()).forEach(([deviceId, tunnel]) => {
       const inactiveTime = now.getTime() - tunnel.lastActive.getTime();
       if (inactiveTime > inactivityThreshold) {
-        console.log(`Cleaning up inactive tunnel for user ${userId}`);
-        this.closeTunnel(userId);
+        console.log(`Cleaning up inactive tunnel for device ${deviceId}`);
+        this.closeTunnel(deviceId);
       }
     });
   }
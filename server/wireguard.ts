@@ -0,0 +1,231 @@
+/**
+ * WireGuard Key Management Service
+ *
+ * This service handles everything needed to hand out WireGuard configs that can
+ * actually complete a handshake:
+ *
+ * 1. Curve25519 keypair generation for servers and peers
+ * 2. Preshared key generation for post-quantum hardening
+ * 3. Pinning pool addresses to peers for the lifetime of their keys
+ * 4. Rendering importable client configs and server-side [Peer] entries
+ */
+
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { VpnServer, WireguardPeer } from '@shared/schema';
+import { storage } from './storage';
+import { ipPoolService } from './ip-pool';
+
+// DER prefix for a PKCS#8 wrapped X25519 private key (RFC 8410)
+const X25519_PKCS8_PREFIX = Buffer.from('302e020100300506032b656e04220420', 'hex');
+
+const DEFAULT_WG_PORT = 51820;
+const CLIENT_DNS = ['1.1.1.1', '8.8.8.8'];
+
+// Interface for a WireGuard keypair (both keys base64 encoded, as used by wg(8))
+export interface WireguardKeyPair {
+  privateKey: string;
+  publicKey: string;
+}
+
+/**
+ * Generate a new Curve25519 keypair
+ *
+ * @returns The base64 encoded private and public keys
+ */
+export function generateKeyPair(): WireguardKeyPair {
+  const { privateKey, publicKey } = crypto.generateKeyPairSync('x25519');
+  const privateJwk = privateKey.export({ format: 'jwk' });
+  const publicJwk = publicKey.export({ format: 'jwk' });
+
+  return {
+    privateKey: Buffer.from(privateJwk.d as string, 'base64url').toString('base64'),
+    publicKey: Buffer.from(publicJwk.x as string, 'base64url').toString('base64')
+  };
+}
+
+/**
+ * Derive the public key for an existing private key (equivalent to `wg pubkey`)
+ *
+ * @param privateKey The base64 encoded private key
+ * @returns The base64 encoded public key
+ */
+export function derivePublicKey(privateKey: string): string {
+  const raw = Buffer.from(privateKey, 'base64');
+  if (raw.length !== 32) {
+    throw new Error('WireGuard private keys must be 32 bytes');
+  }
+
+  const keyObject = crypto.createPrivateKey({
+    key: Buffer.concat([X25519_PKCS8_PREFIX, raw]),
+    format: 'der',
+    type: 'pkcs8'
+  });
+  const jwk = crypto.createPublicKey(keyObject).export({ format: 'jwk' });
+  return Buffer.from(jwk.x as string, 'base64url').toString('base64');
+}
+
+/**
+ * Generate a random preshared key (equivalent to `wg genpsk`)
+ */
+export function generatePresharedKey(): string {
+  return crypto.randomBytes(32).toString('base64');
+}
+
+class WireguardService {
+  private serverKeyPath = path.join(process.cwd(), 'proxy-configs', 'wg-servers');
+
+  constructor() {
+    if (!fs.existsSync(this.serverKeyPath)) {
+      fs.mkdirSync(this.serverKeyPath, { recursive: true });
+    }
+  }
+
+  /**
+   * Make sure a server has a keypair. The private key stays on disk next to the
+   * other generated configs; only the public key is stored on the server record
+   * because server rows are returned to clients as-is.
+   *
+   * @param server The VPN server to check
+   * @returns The server with its WireGuard public key populated
+   */
+  async ensureServerKeys(server: VpnServer): Promise<VpnServer> {
+    const privateKeyFile = path.join(this.serverKeyPath, `${server.id}.key`);
+
+    if (fs.existsSync(privateKeyFile)) {
+      const publicKey = derivePublicKey(fs.readFileSync(privateKeyFile, 'utf8').trim());
+      if (server.wgPublicKey === publicKey) {
+        return server;
+      }
+      return await storage.updateServerWireguardKey(server.id, publicKey);
+    }
+
+    console.log(`Generating WireGuard keypair for server ${server.id}`);
+    const keyPair = generateKeyPair();
+    fs.writeFileSync(privateKeyFile, keyPair.privateKey, { mode: 0o600 });
+    return await storage.updateServerWireguardKey(server.id, keyPair.publicKey);
+  }
+
+  /**
+   * Get the existing peer for a user on a server, or provision a new one
+   *
+   * @param userId The user to provision for
+   * @param serverId The server the peer will connect to
+   * @param deviceId The device the peer is for (null for manually downloaded configs)
+   * @returns The peer record and the server it belongs to
+   */
+  async provisionPeer(userId: number, serverId: number, deviceId: number | null = null): Promise<{ peer: WireguardPeer; server: VpnServer }> {
+    const existing = await storage.getServerById(serverId);
+    if (!existing) {
+      throw new Error(`Server ${serverId} not found`);
+    }
+    const server = await this.ensureServerKeys(existing);
+
+    const activePeer = await storage.getActiveWireguardPeer(userId, serverId, deviceId);
+    if (activePeer) {
+      return { peer: activePeer, server };
+    }
+
+    const keyPair = generateKeyPair();
+    // Peer addresses are held until the peer is revoked, since the config lives on the device
+    const leased = await ipPoolService.leaseAddresses(server, { userId }, null);
+
+    let peer: WireguardPeer;
+    try {
+      peer = await storage.createWireguardPeer({
+        userId,
+        serverId,
+        deviceId,
+        publicKey: keyPair.publicKey,
+        privateKey: keyPair.privateKey,
+        presharedKey: generatePresharedKey(),
+        tunnelIp: leased.ipv4,
+        tunnelIp6: leased.ipv6 ?? null
+      });
+    } catch (error) {
+      await storage.releaseLeases(leased.leaseIds);
+      throw error;
+    }
+    await storage.assignLeasesToPeer(leased.leaseIds, peer.id);
+
+    console.log(`Provisioned WireGuard peer ${peer.id} for user ${userId} on server ${serverId} (${peer.tunnelIp})`);
+    return { peer, server };
+  }
+
+  /**
+   * Revoke the user's current peer on a server and issue a fresh one
+   *
+   * @param userId The user whose keys should be rotated
+   * @param serverId The server the peer belongs to
+   * @param deviceId The device the peer is for (null for manually downloaded configs)
+   * @returns The newly provisioned peer and its server
+   */
+  async rotatePeer(userId: number, serverId: number, deviceId: number | null = null): Promise<{ peer: WireguardPeer; server: VpnServer }> {
+    const activePeer = await storage.getActiveWireguardPeer(userId, serverId, deviceId);
+    if (activePeer) {
+      await storage.revokeWireguardPeer(activePeer.id);
+      await ipPoolService.releasePeer(activePeer.id);
+    }
+    return await this.provisionPeer(userId, serverId, deviceId);
+  }
+
+  /**
+   * Revoke every peer belonging to a device and return their addresses to the pool
+   *
+   * @param deviceId The device being revoked
+   * @returns The number of peers revoked
+   */
+  async revokeDevicePeers(deviceId: number): Promise<number> {
+    const peers = await storage.getActiveDevicePeers(deviceId);
+    for (const peer of peers) {
+      await storage.revokeWireguardPeer(peer.id);
+      await ipPoolService.releasePeer(peer.id);
+    }
+    return peers.length;
+  }
+
+  /**
+   * Render an importable wg-quick client config
+   *
+   * @param peer The peer the config is for
+   * @param server The server the peer connects to
+   * @returns The config file contents
+   */
+  buildClientConfig(peer: WireguardPeer, server: VpnServer): string {
+    if (!server.wgPublicKey) {
+      throw new Error(`Server ${server.id} has no WireGuard public key`);
+    }
+
+    return `[Interface]
+PrivateKey = ${peer.privateKey}
+Address = ${peer.tunnelIp6 ? `${peer.tunnelIp}/32, ${peer.tunnelIp6}/128` : `${peer.tunnelIp}/32`}
+DNS = ${CLIENT_DNS.join(', ')}
+
+[Peer]
+PublicKey = ${server.wgPublicKey}
+PresharedKey = ${peer.presharedKey}
+AllowedIPs = 0.0.0.0/0, ::/0
+Endpoint = ${server.ip}:${server.wgPort || DEFAULT_WG_PORT}
+PersistentKeepalive = 25
+`;
+  }
+
+  /**
+   * Render the [Peer] block the server needs in its own wg0.conf
+   *
+   * @param peer The peer to render
+   * @returns The config block
+   */
+  buildServerPeerEntry(peer: WireguardPeer): string {
+    return `[Peer]
+# user ${peer.userId}, peer ${peer.id}
+PublicKey = ${peer.publicKey}
+PresharedKey = ${peer.presharedKey}
+AllowedIPs = ${peer.tunnelIp6 ? `${peer.tunnelIp}/32, ${peer.tunnelIp6}/128` : `${peer.tunnelIp}/32`}
+`;
+  }
+}
+
+// Export singleton instance
+export const wireguardService = new WireguardService();
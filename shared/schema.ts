@@ -1,4 +1,5 @@
-import { pgTable, text, serial, integer, boolean, timestamp } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, bigint, boolean, timestamp, jsonb, uniqueIndex, index } from "drizzle-orm/pg-core";
+import { sql } from "drizzle-orm";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -11,26 +12,125 @@ export const subscriptionTiers = {
 
 export type SubscriptionTier = typeof subscriptionTiers[keyof typeof subscriptionTiers];
 
+export const supportedCurrencies = {
+  USD: "USD",
+  NGN: "NGN",
+  GHS: "GHS",
+  ZAR: "ZAR",
+  EUR: "EUR"
+} as const;
+
+export type SupportedCurrency = typeof supportedCurrencies[keyof typeof supportedCurrencies];
+
 export const userRoles = {
   USER: "user",
-  ADMIN: "admin"
+  ADMIN: "admin",
+  SUPPORT_AGENT: "support_agent", // Helps users with their accounts
+  BILLING_ADMIN: "billing_admin", // Runs plans, prices, promotions and refunds
+  OPS: "ops" // Watches servers and the network
 } as const;
 
 export type UserRole = typeof userRoles[keyof typeof userRoles];
 
+// What staff can do in the admin panel. Each /api/admin route needs one of these.
+export const permissions = {
+  USERS_READ: "users:read",
+  USERS_WRITE: "users:write",
+  ROLES_MANAGE: "roles:manage",
+  BILLING_READ: "billing:read",
+  BILLING_REFUND: "billing:refund",
+  PLANS_MANAGE: "plans:manage",
+  PROMOTIONS_MANAGE: "promotions:manage",
+  VOUCHERS_MANAGE: "vouchers:manage",
+  EMAIL_READ: "email:read",
+  EMAIL_RETRY: "email:retry",
+  MONITORING_READ: "monitoring:read",
+  MONITORING_MANAGE: "monitoring:manage",
+  SETTINGS_MANAGE: "settings:manage",
+  SECURITY_MANAGE: "security:manage",
+  AUDIT_READ: "audit:read"
+} as const;
+
+export type Permission = typeof permissions[keyof typeof permissions];
+
+export const rolePermissions: Record<UserRole, readonly Permission[]> = {
+  [userRoles.USER]: [],
+  [userRoles.ADMIN]: Object.values(permissions),
+  [userRoles.SUPPORT_AGENT]: [
+    permissions.USERS_READ,
+    permissions.USERS_WRITE,
+    permissions.EMAIL_READ,
+    permissions.EMAIL_RETRY
+  ],
+  [userRoles.BILLING_ADMIN]: [
+    permissions.USERS_READ,
+    permissions.BILLING_READ,
+    permissions.BILLING_REFUND,
+    permissions.PLANS_MANAGE,
+    permissions.PROMOTIONS_MANAGE,
+    permissions.VOUCHERS_MANAGE
+  ],
+  [userRoles.OPS]: [
+    permissions.MONITORING_READ,
+    permissions.MONITORING_MANAGE
+  ]
+};
+
+export function hasPermission(role: string | null | undefined, permission: Permission): boolean {
+  const granted = rolePermissions[role as UserRole];
+  return !!granted && granted.indexOf(permission) !== -1;
+}
+
+// Staff are users whose role grants any admin panel permission
+export function isStaffRole(role: string | null | undefined): boolean {
+  const granted = rolePermissions[role as UserRole];
+  return !!granted && granted.length > 0;
+}
+
+export const subscriptionStatuses = {
+  ACTIVE: "active",
+  PAST_DUE: "past_due", // Renewal payment failed, provider is retrying
+  TRIALING: "trialing", // Free trial, no payment taken, ends at the expiry date
+  CANCELED: "canceled", // Won't renew, access runs until the expiry date
+  DISPUTED: "disputed", // A payment was charged back, access revoked
+  EXPIRED: "expired" // Lapsed past the grace period and moved to the free plan
+} as const;
+
+export type SubscriptionStatus = typeof subscriptionStatuses[keyof typeof subscriptionStatuses];
+
 export const users = pgTable("users", {
   id: serial("id").primaryKey(),
   username: text("username").notNull().unique(),
   password: text("password").notNull(),
   email: text("email"),
+  emailVerifiedAt: timestamp("email_verified_at"), // Cleared when the email address changes
   firebaseId: text("firebase_id").unique(), // Add Firebase UID for authentication
+  twoFactorSecret: text("two_factor_secret"), // Base32 TOTP secret, set once 2FA is turned on
+  twoFactorEnabledAt: timestamp("two_factor_enabled_at"),
+  twoFactorLastStep: integer("two_factor_last_step"), // Last TOTP time step accepted, so a code can't be used twice
   role: text("role").default(userRoles.USER).notNull(),
   subscription: text("subscription").default(subscriptionTiers.FREE).notNull(),
   subscriptionExpiryDate: timestamp("subscription_expiry_date"),
+  subscriptionStatus: text("subscription_status"), // null until a paid subscription starts
+  pendingSubscription: text("pending_subscription"), // Plan a scheduled downgrade switches to
+  pendingSubscriptionAt: timestamp("pending_subscription_at"), // When the scheduled downgrade takes effect
   stripeCustomerId: text("stripe_customer_id"),
   stripeSubscriptionId: text("stripe_subscription_id"),
+  paystackCustomerCode: text("paystack_customer_code"),
+  paystackSubscriptionCode: text("paystack_subscription_code"),
+  paystackAuthorizationCode: text("paystack_authorization_code"), // Reusable card authorization for off-session charges
+  flutterwaveSubscriptionId: text("flutterwave_subscription_id"),
+  trialUsedAt: timestamp("trial_used_at"), // Each user gets one free trial
+  currency: text("currency"), // Billing currency, null until chosen or first paid for
+  referralCode: text("referral_code").unique(), // Created the first time the user views their referrals
+  referredBy: integer("referred_by"), // User whose referral code this user signed up with
+  signupIp: text("signup_ip"),
+  creditBalance: integer("credit_balance").default(0).notNull(), // Account credit in the credit currency's smallest unit
+  creditCurrency: text("credit_currency"), // Currency of the credit balance, null until credit is first granted
   dataLimit: integer("data_limit").default(1024 * 1024 * 1024), // 1GB for free tier
   dailyTimeLimit: integer("daily_time_limit").default(60), // 60 minutes for free tier
+  sessionsRevokedAt: timestamp("sessions_revoked_at"), // Firebase sign-ins from before this are no longer accepted
+  deletionScheduledAt: timestamp("deletion_scheduled_at"), // When the account will be erased, null unless the user asked to delete it
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
@@ -57,20 +157,108 @@ export const vpnServers = pgTable("vpn_servers", {
   premium: boolean("premium").default(false),
   obfuscated: boolean("obfuscated").default(false),
   double_hop: boolean("double_hop").default(false),
+  wgPublicKey: text("wg_public_key"), // WireGuard server public key (base64)
+  wgPort: integer("wg_port").default(51820),
+  wgSubnet: text("wg_subnet").default("10.8.0.0/16"), // IPv4 tunnel address pool (all protocols)
+  wgSubnet6: text("wg_subnet6").default("fd42:8::/112"), // IPv6 tunnel address pool (all protocols)
+});
+
+export const ipFamilies = {
+  IPV4: "ipv4",
+  IPV6: "ipv6"
+} as const;
+
+export type IpFamily = typeof ipFamilies[keyof typeof ipFamilies];
+
+// Tunnel address leases handed out from each server's address pools
+export const ipAddressLeases = pgTable("ip_address_leases", {
+  id: serial("id").primaryKey(),
+  serverId: integer("server_id").notNull(),
+  family: text("family").notNull(), // ipv4, ipv6
+  address: text("address").notNull(),
+  userId: integer("user_id").notNull(),
+  sessionId: integer("session_id"), // Set for per-session leases
+  peerId: integer("peer_id"), // Set for leases pinned to a WireGuard peer
+  leasedAt: timestamp("leased_at").defaultNow().notNull(),
+  expiresAt: timestamp("expires_at"), // Null means held until explicitly released
+  releasedAt: timestamp("released_at"),
+}, (table) => [
+  // An address can only be actively leased once per server
+  uniqueIndex("ip_address_leases_active_address_idx")
+    .on(table.serverId, table.address)
+    .where(sql`released_at IS NULL`),
+]);
+
+export const devicePlatforms = {
+  WINDOWS: "windows",
+  MACOS: "macos",
+  LINUX: "linux",
+  IOS: "ios",
+  ANDROID: "android",
+  WEB: "web",
+  OTHER: "other"
+} as const;
+
+export type DevicePlatform = typeof devicePlatforms[keyof typeof devicePlatforms];
+
+// Devices a user has registered to connect from
+export const devices = pgTable("devices", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull(),
+  name: text("name").notNull(),
+  platform: text("platform").default(devicePlatforms.OTHER).notNull(),
+  publicKey: text("public_key").unique(), // Key the device identifies itself with, if any
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  lastSeenAt: timestamp("last_seen_at"),
+  revokedAt: timestamp("revoked_at"),
+});
+
+// WireGuard peers provisioned for users on a specific server
+export const wireguardPeers = pgTable("wireguard_peers", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull(),
+  serverId: integer("server_id").notNull(),
+  deviceId: integer("device_id"), // Each device gets its own keys and address
+  publicKey: text("public_key").notNull().unique(),
+  privateKey: text("private_key").notNull(),
+  presharedKey: text("preshared_key").notNull(),
+  tunnelIp: text("tunnel_ip").notNull(),
+  tunnelIp6: text("tunnel_ip6"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  revokedAt: timestamp("revoked_at"),
 });
 
+// Sessions and usage of erased accounts are kept for capacity statistics under this user ID
+export const ERASED_USER_ID = 0;
+
 export const vpnSessions = pgTable("vpn_sessions", {
   id: serial("id").primaryKey(),
   userId: integer("user_id").notNull(),
   serverId: integer("server_id").notNull(),
+  deviceId: integer("device_id"), // Null for sessions started before devices were tracked
   protocol: text("protocol").notNull(),
   encryption: text("encryption").notNull(),
   startTime: timestamp("start_time").defaultNow().notNull(),
   endTime: timestamp("end_time"),
-  dataUploaded: integer("data_uploaded").default(0),
-  dataDownloaded: integer("data_downloaded").default(0),
+  dataUploaded: bigint("data_uploaded", { mode: "number" }).default(0),
+  dataDownloaded: bigint("data_downloaded", { mode: "number" }).default(0),
 });
 
+// Metered traffic rolled up per session per hour
+export const usageBuckets = pgTable("usage_buckets", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull(),
+  sessionId: integer("session_id").notNull(),
+  deviceId: integer("device_id"),
+  serverId: integer("server_id").notNull(),
+  bucketStart: timestamp("bucket_start").notNull(), // Start of the hour
+  bytesUp: bigint("bytes_up", { mode: "number" }).default(0).notNull(),
+  bytesDown: bigint("bytes_down", { mode: "number" }).default(0).notNull(),
+}, (table) => [
+  uniqueIndex("usage_buckets_session_hour_idx").on(table.sessionId, table.bucketStart),
+  index("usage_buckets_user_hour_idx").on(table.userId, table.bucketStart),
+]);
+
 export const vpnUserSettings = pgTable("vpn_user_settings", {
   id: serial("id").primaryKey(),
   userId: integer("user_id").notNull().unique(),
@@ -83,6 +271,12 @@ export const vpnUserSettings = pgTable("vpn_user_settings", {
   preferredEncryption: text("preferred_encryption").default("aes_256_gcm"),
 });
 
+// One line of a plan's feature list
+export interface PlanFeature {
+  label: string;
+  highlighted?: boolean; // Shown emphasized on the plan card
+}
+
 export const subscriptionPlans = pgTable("subscription_plans", {
   id: serial("id").primaryKey(),
   name: text("name").notNull().unique(),
@@ -97,11 +291,417 @@ export const subscriptionPlans = pgTable("subscription_plans", {
   adFree: boolean("ad_free").default(false),
   priority: integer("priority").default(0).notNull(), // For display order
   description: text("description"), // Description of the plan
-  features: text("features"), // Comma-separated list of features
+  features: jsonb("features").$type<PlanFeature[]>().default([]).notNull(),
   stripePriceId: text("stripe_price_id"), // For Stripe integration
   paystackPlanCode: text("paystack_plan_code"), // For Paystack integration
+  flutterwavePlanId: text("flutterwave_plan_id"), // Created when first used with Flutterwave
+  version: integer("version").default(1).notNull(), // Bumped on every admin change
+  archivedAt: timestamp("archived_at"), // Hidden from new subscribers, existing ones keep it
+});
+
+export const planChangeTypes = {
+  CREATED: "created",
+  UPDATED: "updated",
+  ARCHIVED: "archived",
+  RESTORED: "restored",
+  DELETED: "deleted"
+} as const;
+
+export type PlanChangeType = typeof planChangeTypes[keyof typeof planChangeTypes];
+
+// A copy of a plan after each admin change
+export const subscriptionPlanVersions = pgTable("subscription_plan_versions", {
+  id: serial("id").primaryKey(),
+  planId: integer("plan_id").notNull(), // Kept after the plan is deleted
+  version: integer("version").notNull(),
+  changeType: text("change_type").notNull(),
+  snapshot: jsonb("snapshot").$type<SubscriptionPlan>().notNull(),
+  changedBy: integer("changed_by"), // Admin user, null for the seed script
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex("subscription_plan_versions_plan_version_idx").on(table.planId, table.version),
+]);
+
+// Plan prices in currencies other than USD, which lives on the plan itself
+export const planPrices = pgTable("plan_prices", {
+  id: serial("id").primaryKey(),
+  planId: integer("plan_id").notNull(),
+  currency: text("currency").notNull(),
+  amount: integer("amount").notNull(), // In the currency's smallest unit (kobo, pesewas, cents)
+  stripePriceId: text("stripe_price_id"), // Created from the USD price's product when first used
+  paystackPlanCode: text("paystack_plan_code"),
+  flutterwavePlanId: text("flutterwave_plan_id"), // Created when first used with Flutterwave
+}, (table) => [
+  uniqueIndex("plan_prices_plan_currency_idx").on(table.planId, table.currency),
+]);
+
+export const billingProviders = {
+  STRIPE: "stripe",
+  PAYSTACK: "paystack",
+  FLUTTERWAVE: "flutterwave",
+  TEST: "test" // Development test card charges
+} as const;
+
+export type BillingProvider = typeof billingProviders[keyof typeof billingProviders];
+
+export const invoiceStatuses = {
+  OPEN: "open", // Issued, not paid yet
+  PAID: "paid",
+  REFUNDED: "refunded", // Every payment on it was refunded in full
+  VOID: "void"
+} as const;
+
+export type InvoiceStatus = typeof invoiceStatuses[keyof typeof invoiceStatuses];
+
+export const paymentStatuses = {
+  SUCCEEDED: "succeeded",
+  FAILED: "failed",
+  PARTIALLY_REFUNDED: "partially_refunded",
+  REFUNDED: "refunded",
+  DISPUTED: "disputed"
+} as const;
+
+export type PaymentStatus = typeof paymentStatuses[keyof typeof paymentStatuses];
+
+// What a user was billed for, whichever provider collected it
+export const invoices = pgTable("invoices", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull(),
+  provider: text("provider").notNull(),
+  providerInvoiceId: text("provider_invoice_id"), // Stripe invoice ID or Paystack reference
+  planName: text("plan_name"),
+  description: text("description").notNull(),
+  amount: integer("amount").notNull(), // In the currency's smallest unit
+  currency: text("currency").default("USD").notNull(),
+  status: text("status").default(invoiceStatuses.OPEN).notNull(),
+  periodStart: timestamp("period_start"),
+  periodEnd: timestamp("period_end"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  paidAt: timestamp("paid_at"),
+}, (table) => [
+  uniqueIndex("invoices_provider_invoice_idx").on(table.provider, table.providerInvoiceId),
+  index("invoices_user_idx").on(table.userId),
+]);
+
+// Attempts to collect money for an invoice
+export const payments = pgTable("payments", {
+  id: serial("id").primaryKey(),
+  invoiceId: integer("invoice_id").notNull(),
+  userId: integer("user_id").notNull(),
+  provider: text("provider").notNull(),
+  providerPaymentId: text("provider_payment_id").notNull(), // Stripe payment intent or charge ID, Paystack reference
+  amount: integer("amount").notNull(), // In the currency's smallest unit
+  amountRefunded: integer("amount_refunded").default(0).notNull(),
+  currency: text("currency").default("USD").notNull(),
+  status: text("status").notNull(),
+  method: text("method"), // e.g. "visa •••• 4081"
+  failureReason: text("failure_reason"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex("payments_provider_payment_idx").on(table.provider, table.providerPaymentId),
+  index("payments_user_idx").on(table.userId),
+]);
+
+// Money returned to the user for a payment
+export const refunds = pgTable("refunds", {
+  id: serial("id").primaryKey(),
+  paymentId: integer("payment_id").notNull(),
+  userId: integer("user_id").notNull(),
+  provider: text("provider").notNull(),
+  providerRefundId: text("provider_refund_id"),
+  amount: integer("amount").notNull(), // In the currency's smallest unit
+  currency: text("currency").default("USD").notNull(),
+  reason: text("reason"),
+  createdBy: integer("created_by"), // Admin who issued it, null when the provider reported it
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const couponTypes = {
+  PERCENT: "percent", // Amount is a percentage off the plan price
+  FIXED: "fixed" // Amount is taken off the plan price, in cents
+} as const;
+
+export type CouponType = typeof couponTypes[keyof typeof couponTypes];
+
+// Promotional codes that discount the first payment for a plan
+export const coupons = pgTable("coupons", {
+  id: serial("id").primaryKey(),
+  code: text("code").notNull().unique(), // Stored upper case
+  description: text("description"),
+  type: text("type").notNull(),
+  amount: integer("amount").notNull(),
+  currency: text("currency").default("USD").notNull(), // Currency of fixed discounts
+  planNames: text("plan_names"), // Comma-separated plans the code applies to, null for every plan
+  maxRedemptions: integer("max_redemptions"), // null for unlimited
+  timesRedeemed: integer("times_redeemed").default(0).notNull(),
+  expiresAt: timestamp("expires_at"),
+  active: boolean("active").default(true).notNull(),
+  stripeCouponId: text("stripe_coupon_id"), // Created the first time the code is used with Stripe
+  createdBy: integer("created_by"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Each use of a coupon, at most one per user
+export const couponRedemptions = pgTable("coupon_redemptions", {
+  id: serial("id").primaryKey(),
+  couponId: integer("coupon_id").notNull(),
+  userId: integer("user_id").notNull(),
+  planName: text("plan_name").notNull(),
+  provider: text("provider").notNull(),
+  discountAmount: integer("discount_amount").notNull(), // In the currency's smallest unit
+  currency: text("currency").default("USD").notNull(),
+  reference: text("reference"), // Payment reference or Stripe invoice ID
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex("coupon_redemptions_coupon_user_idx").on(table.couponId, table.userId),
+]);
+
+// Prepaid voucher codes generated together, e.g. for one reseller's stock
+export const voucherBatches = pgTable("voucher_batches", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull(),
+  planName: text("plan_name").notNull(),
+  durationDays: integer("duration_days").notNull(), // Days of the plan each code gives
+  quantity: integer("quantity").notNull(),
+  note: text("note"), // Who the codes were sold through, for admins
+  expiresAt: timestamp("expires_at"), // Codes can't be redeemed after this, null for never
+  createdBy: integer("created_by"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Single-use codes from a voucher batch
+export const vouchers = pgTable("vouchers", {
+  id: serial("id").primaryKey(),
+  batchId: integer("batch_id").notNull(),
+  code: text("code").notNull().unique(), // Stored upper case without dashes
+  redeemedBy: integer("redeemed_by"),
+  redeemedAt: timestamp("redeemed_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("vouchers_batch_idx").on(table.batchId),
+]);
+
+export const organizationRoles = {
+  OWNER: "owner",
+  ADMIN: "admin",
+  MEMBER: "member"
+} as const;
+
+export type OrganizationRole = typeof organizationRoles[keyof typeof organizationRoles];
+
+// Teams that share one subscription, billed per seat
+export const organizations = pgTable("organizations", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull(),
+  ownerId: integer("owner_id").notNull(),
+  subscription: text("subscription").default(subscriptionTiers.FREE).notNull(), // Plan every member gets
+  subscriptionStatus: text("subscription_status"),
+  subscriptionExpiryDate: timestamp("subscription_expiry_date"),
+  seats: integer("seats").default(1).notNull(), // Seats paid for, including the owner's
+  currency: text("currency"),
+  stripeCustomerId: text("stripe_customer_id"),
+  stripeSubscriptionId: text("stripe_subscription_id"),
+  paystackAuthorizationCode: text("paystack_authorization_code"), // Card charged for each renewal
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const organizationMembers = pgTable("organization_members", {
+  id: serial("id").primaryKey(),
+  organizationId: integer("organization_id").notNull(),
+  userId: integer("user_id").notNull(),
+  role: text("role").default(organizationRoles.MEMBER).notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex("organization_members_user_idx").on(table.userId), // A user belongs to one organization
+  index("organization_members_org_idx").on(table.organizationId),
+]);
+
+export const organizationInvitations = pgTable("organization_invitations", {
+  id: serial("id").primaryKey(),
+  organizationId: integer("organization_id").notNull(),
+  email: text("email").notNull(),
+  role: text("role").default(organizationRoles.MEMBER).notNull(),
+  token: text("token").notNull().unique(), // Sent in the invitation link
+  invitedBy: integer("invited_by").notNull(),
+  expiresAt: timestamp("expires_at").notNull(),
+  acceptedAt: timestamp("accepted_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("organization_invitations_org_idx").on(table.organizationId),
+]);
+
+export const referralStatuses = {
+  PENDING: "pending", // Signed up, hasn't paid yet
+  REWARDED: "rewarded", // Paid, both users were credited
+  REJECTED: "rejected" // Looked like a self-referral, never credited
+} as const;
+
+export type ReferralStatus = typeof referralStatuses[keyof typeof referralStatuses];
+
+// Signups made with another user's referral code
+export const referrals = pgTable("referrals", {
+  id: serial("id").primaryKey(),
+  referrerId: integer("referrer_id").notNull(),
+  referredUserId: integer("referred_user_id").notNull(),
+  status: text("status").default(referralStatuses.PENDING).notNull(),
+  rejectionReason: text("rejection_reason"),
+  planName: text("plan_name"), // Plan the referred user first paid for
+  referrerCredit: integer("referrer_credit"), // In the referrer's credit currency's smallest unit
+  referredCredit: integer("referred_credit"), // In the referred user's credit currency's smallest unit
+  rewardedAt: timestamp("rewarded_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex("referrals_referred_user_idx").on(table.referredUserId),
+  index("referrals_referrer_idx").on(table.referrerId),
+]);
+
+export const emailCategories = {
+  BILLING: "billing", // Receipts and failed payments
+  SUBSCRIPTION: "subscription", // Renewal reminders and expiry
+  USAGE: "usage", // Data and time limit warnings
+  SECURITY: "security" // Account changes
+} as const;
+
+export type EmailCategory = typeof emailCategories[keyof typeof emailCategories];
+
+export const emailStatuses = {
+  QUEUED: "queued",
+  SENT: "sent",
+  FAILED: "failed" // Gave up after the last retry
+} as const;
+
+export type EmailStatus = typeof emailStatuses[keyof typeof emailStatuses];
+
+// Outgoing email, rendered when queued and sent by the mail worker
+export const emailMessages = pgTable("email_messages", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id"), // Null for mail to people without an account, such as invitations
+  to: text("to").notNull(),
+  template: text("template").notNull(),
+  subject: text("subject").notNull(),
+  html: text("html").notNull(),
+  text: text("text").notNull(),
+  dedupeKey: text("dedupe_key").unique(), // Stops the same event being emailed twice
+  status: text("status").default(emailStatuses.QUEUED).notNull(),
+  attempts: integer("attempts").default(0).notNull(),
+  lastError: text("last_error"),
+  nextAttemptAt: timestamp("next_attempt_at").defaultNow().notNull(),
+  sentAt: timestamp("sent_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("email_messages_status_next_attempt_idx").on(table.status, table.nextAttemptAt),
+]);
+
+// Which kinds of optional email each user wants; users without a row get everything
+export const emailPreferences = pgTable("email_preferences", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().unique(),
+  billing: boolean("billing").default(true).notNull(),
+  subscription: boolean("subscription").default(true).notNull(),
+  usage: boolean("usage").default(true).notNull(),
+  security: boolean("security").default(true).notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
 });
 
+// One-time codes for signing in without the authenticator app
+export const twoFactorRecoveryCodes = pgTable("two_factor_recovery_codes", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull(),
+  codeHash: text("code_hash").notNull(), // SHA-256 of the code, which is only shown once
+  usedAt: timestamp("used_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("two_factor_recovery_codes_user_idx").on(table.userId),
+]);
+
+export const auditActions = {
+  USER_SUBSCRIPTION_UPDATED: "user.subscription_updated",
+  USER_ROLE_UPDATED: "user.role_updated",
+  APP_SETTING_UPDATED: "app_setting.updated",
+  APP_LOGO_UPLOADED: "app_setting.logo_uploaded",
+  STRIPE_PRICE_IDS_UPDATED: "plan.stripe_price_ids_updated",
+  PAYSTACK_PLAN_CODES_UPDATED: "plan.paystack_plan_codes_updated",
+  PLAN_CREATED: "plan.created",
+  PLAN_UPDATED: "plan.updated",
+  PLAN_ARCHIVED: "plan.archived",
+  PLAN_RESTORED: "plan.restored",
+  PLAN_DELETED: "plan.deleted",
+  PLAN_PRICE_UPDATED: "plan.price_updated",
+  TRIAL_UPDATED: "promotion.trial_updated",
+  COUPON_CREATED: "coupon.created",
+  COUPON_UPDATED: "coupon.updated",
+  PAYMENT_REFUNDED: "payment.refunded",
+  VOUCHER_BATCH_CREATED: "voucher_batch.created",
+  VOUCHER_BATCH_EXPORTED: "voucher_batch.exported",
+  EMAIL_RETRIED: "email.retried",
+  IP_LEASES_RECLAIMED: "ip_pool.leases_reclaimed",
+  ALERTS_CONFIGURED: "monitoring.alerts_configured",
+  TWO_FACTOR_POLICY_UPDATED: "security.two_factor_policy_updated"
+} as const;
+
+export type AuditAction = typeof auditActions[keyof typeof auditActions];
+
+// Fields an action changed, as they were before and after
+export type AuditChanges = Record<string, { from: unknown; to: unknown }>;
+
+// Privileged actions taken through the admin API. Rows are never updated or
+// deleted; a database trigger from migrate.ts refuses both.
+export const auditEvents = pgTable("audit_events", {
+  id: serial("id").primaryKey(),
+  actorId: integer("actor_id"),
+  actorUsername: text("actor_username"), // As it was at the time, in case the account is renamed or deleted
+  action: text("action").notNull(),
+  targetType: text("target_type"), // user, plan, coupon, app_setting...
+  targetId: text("target_id"),
+  changes: jsonb("changes").$type<AuditChanges>().default({}).notNull(),
+  details: jsonb("details").$type<Record<string, unknown>>(), // Anything else worth keeping, such as a refund reason
+  ipAddress: text("ip_address"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("audit_events_created_idx").on(table.createdAt),
+  index("audit_events_actor_idx").on(table.actorId),
+  index("audit_events_target_idx").on(table.targetType, table.targetId),
+]);
+
+// What a personal API token can be used for. A token can only reach the routes its scopes cover.
+export const apiTokenScopes = {
+  SERVERS_READ: "servers:read",
+  SESSIONS_READ: "sessions:read",
+  SESSIONS_WRITE: "sessions:write",
+  USAGE_READ: "usage:read"
+} as const;
+
+export type ApiTokenScope = typeof apiTokenScopes[keyof typeof apiTokenScopes];
+
+// Personal access tokens for scripts, sent as "Authorization: Bearer <token>"
+export const apiTokens = pgTable("api_tokens", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull(),
+  name: text("name").notNull(),
+  tokenHash: text("token_hash").notNull(), // SHA-256 of the token, which is only shown once
+  tokenPrefix: text("token_prefix").notNull(), // The start of the token, so users can tell them apart
+  scopes: jsonb("scopes").$type<ApiTokenScope[]>().default([]).notNull(),
+  expiresAt: timestamp("expires_at").notNull(),
+  lastUsedAt: timestamp("last_used_at"),
+  lastUsedIp: text("last_used_ip"),
+  revokedAt: timestamp("revoked_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex("api_tokens_hash_idx").on(table.tokenHash),
+  index("api_tokens_user_idx").on(table.userId),
+]);
+
+// Payment provider webhook events that have already been handled, so redeliveries are ignored
+export const processedWebhookEvents = pgTable("processed_webhook_events", {
+  id: serial("id").primaryKey(),
+  provider: text("provider").notNull(), // stripe, paystack
+  eventId: text("event_id").notNull(),
+  eventType: text("event_type").notNull(),
+  processedAt: timestamp("processed_at").defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex("processed_webhook_events_provider_event_idx").on(table.provider, table.eventId),
+]);
+
 export const appSettings = pgTable("app_settings", {
   id: serial("id").primaryKey(),
   key: text("key").notNull().unique(),
@@ -127,12 +727,184 @@ export const insertVpnSessionSchema = createInsertSchema(vpnSessions).omit({
   dataUploaded: true, 
   dataDownloaded: true,
 });
+export const insertDeviceSchema = createInsertSchema(devices).pick({
+  userId: true,
+  name: true,
+  platform: true,
+  publicKey: true,
+}).extend({
+  name: z.string().trim().min(1).max(64),
+  platform: z.enum([
+    devicePlatforms.WINDOWS,
+    devicePlatforms.MACOS,
+    devicePlatforms.LINUX,
+    devicePlatforms.IOS,
+    devicePlatforms.ANDROID,
+    devicePlatforms.WEB,
+    devicePlatforms.OTHER
+  ]).default(devicePlatforms.OTHER),
+  publicKey: z.string().min(1).max(256).optional()
+});
+export const insertWireguardPeerSchema = createInsertSchema(wireguardPeers).omit({
+  id: true,
+  createdAt: true,
+  revokedAt: true,
+});
+export const insertIpAddressLeaseSchema = createInsertSchema(ipAddressLeases).omit({
+  id: true,
+  leasedAt: true,
+  releasedAt: true,
+});
+export const insertUsageBucketSchema = createInsertSchema(usageBuckets).omit({
+  id: true,
+});
 export const insertVpnUserSettingsSchema = createInsertSchema(vpnUserSettings).omit({
   id: true,
 });
 
-export const insertSubscriptionPlanSchema = createInsertSchema(subscriptionPlans).omit({
+export const planFeatureSchema = z.object({
+  label: z.string().trim().min(1).max(100),
+  highlighted: z.boolean().optional(),
+});
+
+export const insertSubscriptionPlanSchema = createInsertSchema(subscriptionPlans, {
+  features: z.array(planFeatureSchema).max(20),
+}).omit({
   id: true,
+  version: true,
+  archivedAt: true,
+});
+
+export const insertSubscriptionPlanVersionSchema = createInsertSchema(subscriptionPlanVersions).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertPlanPriceSchema = createInsertSchema(planPrices).omit({
+  id: true,
+});
+
+export const insertInvoiceSchema = createInsertSchema(invoices).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertPaymentSchema = createInsertSchema(payments).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertRefundSchema = createInsertSchema(refunds).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertCouponSchema = createInsertSchema(coupons).omit({
+  id: true,
+  timesRedeemed: true,
+  stripeCouponId: true,
+  createdAt: true,
+}).extend({
+  code: z.string().trim().min(3).max(32).regex(/^[A-Za-z0-9_-]+$/, "Use letters, numbers, dashes and underscores only")
+    .transform(code => code.toUpperCase()),
+  type: z.enum([couponTypes.PERCENT, couponTypes.FIXED]),
+  amount: z.number().int().positive(),
+  currency: z.enum([
+    supportedCurrencies.USD,
+    supportedCurrencies.NGN,
+    supportedCurrencies.GHS,
+    supportedCurrencies.ZAR,
+    supportedCurrencies.EUR
+  ]).default(supportedCurrencies.USD),
+  maxRedemptions: z.number().int().positive().nullable().optional(),
+  expiresAt: z.coerce.date().nullable().optional(),
+}).refine(coupon => coupon.type !== couponTypes.PERCENT || coupon.amount <= 100, {
+  message: "A percentage discount can't be more than 100",
+  path: ["amount"],
+});
+
+export const insertCouponRedemptionSchema = createInsertSchema(couponRedemptions).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertVoucherBatchSchema = createInsertSchema(voucherBatches).pick({
+  name: true,
+  planName: true,
+  durationDays: true,
+  quantity: true,
+  note: true,
+  expiresAt: true,
+}).extend({
+  name: z.string().trim().min(2, "Batch name must be at least 2 characters").max(100),
+  planName: z.string().min(1, "Plan is required"),
+  durationDays: z.number().int().min(1).max(366),
+  quantity: z.number().int().min(1).max(5000),
+  note: z.string().trim().max(200).nullable().optional(),
+  expiresAt: z.coerce.date().nullable().optional(),
+});
+
+export const insertOrganizationSchema = createInsertSchema(organizations).pick({
+  name: true,
+}).extend({
+  name: z.string().trim().min(2, "Organization name must be at least 2 characters").max(100),
+});
+
+export const insertOrganizationMemberSchema = createInsertSchema(organizationMembers).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertOrganizationInvitationSchema = createInsertSchema(organizationInvitations).pick({
+  email: true,
+  role: true,
+}).extend({
+  email: z.string().trim().email("Enter a valid email address").transform(email => email.toLowerCase()),
+  role: z.enum([organizationRoles.ADMIN, organizationRoles.MEMBER]).default(organizationRoles.MEMBER),
+});
+
+export const insertReferralSchema = createInsertSchema(referrals).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertAuditEventSchema = createInsertSchema(auditEvents).omit({
+  id: true,
+  createdAt: true,
+}).extend({
+  changes: z.custom<AuditChanges>(),
+  details: z.custom<Record<string, unknown>>().nullable().optional(),
+});
+
+export const insertApiTokenSchema = createInsertSchema(apiTokens).omit({
+  id: true,
+  lastUsedAt: true,
+  lastUsedIp: true,
+  revokedAt: true,
+  createdAt: true,
+}).extend({
+  scopes: z.custom<ApiTokenScope[]>(),
+});
+
+export const insertEmailMessageSchema = createInsertSchema(emailMessages).omit({
+  id: true,
+  status: true,
+  attempts: true,
+  lastError: true,
+  sentAt: true,
+  createdAt: true,
+});
+
+export const insertEmailPreferencesSchema = createInsertSchema(emailPreferences).pick({
+  billing: true,
+  subscription: true,
+  usage: true,
+  security: true,
+}).partial();
+
+export const insertProcessedWebhookEventSchema = createInsertSchema(processedWebhookEvents).omit({
+  id: true,
+  processedAt: true,
 });
 
 export const insertAppSettingSchema = createInsertSchema(appSettings).omit({
@@ -147,9 +919,58 @@ export type User = typeof users.$inferSelect & {
 export type VpnServer = typeof vpnServers.$inferSelect;
 export type VpnSession = typeof vpnSessions.$inferSelect;
 export type VpnUserSettings = typeof vpnUserSettings.$inferSelect;
+export type Device = typeof devices.$inferSelect;
+export type WireguardPeer = typeof wireguardPeers.$inferSelect;
+export type UsageBucket = typeof usageBuckets.$inferSelect;
+export type IpAddressLease = typeof ipAddressLeases.$inferSelect;
 export type SubscriptionPlan = typeof subscriptionPlans.$inferSelect;
+export type SubscriptionPlanVersion = typeof subscriptionPlanVersions.$inferSelect;
+export type PlanPrice = typeof planPrices.$inferSelect;
+// A plan with its price in the currency the user is shown
+export type LocalizedSubscriptionPlan = SubscriptionPlan & {
+  currency: string;
+  displayPrice: number; // In the currency's smallest unit
+};
 export type AppSetting = typeof appSettings.$inferSelect;
+export type Invoice = typeof invoices.$inferSelect;
+export type Payment = typeof payments.$inferSelect;
+export type Refund = typeof refunds.$inferSelect;
+export type ProcessedWebhookEvent = typeof processedWebhookEvents.$inferSelect;
+export type Coupon = typeof coupons.$inferSelect;
+export type CouponRedemption = typeof couponRedemptions.$inferSelect;
+export type VoucherBatch = typeof voucherBatches.$inferSelect;
+export type Voucher = typeof vouchers.$inferSelect;
+export type Organization = typeof organizations.$inferSelect;
+export type OrganizationMember = typeof organizationMembers.$inferSelect;
+export type OrganizationInvitation = typeof organizationInvitations.$inferSelect;
+export type Referral = typeof referrals.$inferSelect;
+export type EmailMessage = typeof emailMessages.$inferSelect;
+export type EmailPreferences = typeof emailPreferences.$inferSelect;
+export type TwoFactorRecoveryCode = typeof twoFactorRecoveryCodes.$inferSelect;
+export type AuditEvent = typeof auditEvents.$inferSelect;
+export type ApiToken = typeof apiTokens.$inferSelect;
 export type InsertVpnSession = z.infer<typeof insertVpnSessionSchema>;
+export type InsertDevice = z.infer<typeof insertDeviceSchema>;
+export type InsertWireguardPeer = z.infer<typeof insertWireguardPeerSchema>;
+export type InsertUsageBucket = z.infer<typeof insertUsageBucketSchema>;
+export type InsertIpAddressLease = z.infer<typeof insertIpAddressLeaseSchema>;
 export type InsertVpnUserSettings = z.infer<typeof insertVpnUserSettingsSchema>;
 export type InsertSubscriptionPlan = z.infer<typeof insertSubscriptionPlanSchema>;
+export type InsertSubscriptionPlanVersion = z.infer<typeof insertSubscriptionPlanVersionSchema>;
+export type InsertPlanPrice = z.infer<typeof insertPlanPriceSchema>;
 export type InsertAppSetting = z.infer<typeof insertAppSettingSchema>;
+export type InsertInvoice = z.infer<typeof insertInvoiceSchema>;
+export type InsertPayment = z.infer<typeof insertPaymentSchema>;
+export type InsertRefund = z.infer<typeof insertRefundSchema>;
+export type InsertProcessedWebhookEvent = z.infer<typeof insertProcessedWebhookEventSchema>;
+export type InsertCoupon = z.infer<typeof insertCouponSchema>;
+export type InsertCouponRedemption = z.infer<typeof insertCouponRedemptionSchema>;
+export type InsertVoucherBatch = z.infer<typeof insertVoucherBatchSchema>;
+export type InsertOrganization = z.infer<typeof insertOrganizationSchema>;
+export type InsertOrganizationMember = z.infer<typeof insertOrganizationMemberSchema>;
+export type InsertOrganizationInvitation = z.infer<typeof insertOrganizationInvitationSchema>;
+export type InsertReferral = z.infer<typeof insertReferralSchema>;
+export type InsertAuditEvent = z.infer<typeof insertAuditEventSchema>;
+export type InsertApiToken = z.infer<typeof insertApiTokenSchema>;
+export type InsertEmailMessage = z.infer<typeof insertEmailMessageSchema>;
+export type InsertEmailPreferences = z.infer<typeof insertEmailPreferencesSchema>;